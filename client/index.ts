@@ -0,0 +1,144 @@
+import type { components, operations } from './schema';
+import { OPERATIONS } from './operations';
+
+export type { components, operations };
+export type Problem = components['schemas']['ProblemDto'];
+export type OperationId = keyof typeof OPERATIONS & keyof operations;
+
+type Operation<K extends OperationId> = operations[K];
+
+/** `{ [key]: T }`, optional when T allows `{}`, left out for `never` */
+type Field<K extends string, T> = [T] extends [never]
+  ? unknown
+  : object extends T
+    ? { [P in K]?: T }
+    : { [P in K]: T };
+
+type Content<T> = T extends { content?: infer C } ? NonNullable<C> : never;
+type BodyOf<O> = O extends { requestBody?: infer B }
+  ? Content<NonNullable<B>>
+  : never;
+
+/** Path params, query params and body of an operation */
+export type RequestArgs<K extends OperationId> = Field<
+  'path',
+  NonNullable<Operation<K>['parameters']['path']>
+> &
+  Field<'query', NonNullable<Operation<K>['parameters']['query']>> &
+  Field<'body', BodyOf<Operation<K>>[keyof BodyOf<Operation<K>>]> & {
+    /** Media type of a non-JSON body, e.g. `text/csv` for importStrings */
+    contentType?: keyof BodyOf<Operation<K>>;
+    headers?: Record<string, string>;
+  };
+
+type Success<O> = O extends { responses: infer R }
+  ? R[Extract<keyof R, 200 | 201 | 202 | 204>]
+  : never;
+
+/**
+ * Parsed JSON for JSON responses, `undefined` for 204 and the raw
+ * `Response` for streams (export, import, events)
+ */
+export type ResponseOf<K extends OperationId> =
+  Content<Success<Operation<K>>> extends infer C
+    ? [C] extends [never]
+      ? undefined
+      : C extends { 'application/json': infer J }
+        ? J
+        : Response
+    : never;
+
+export type Client = {
+  [K in OperationId]: object extends RequestArgs<K>
+    ? (args?: RequestArgs<K>) => Promise<ResponseOf<K>>
+    : (args: RequestArgs<K>) => Promise<ResponseOf<K>>;
+};
+
+export interface ClientOptions {
+  /** e.g. `http://localhost:3000` */
+  baseUrl: string;
+  apiKey?: string;
+  fetch?: typeof fetch;
+}
+
+/**
+ * An error response; `problem` is null when the body was not problem+json
+ * (e.g. from a proxy)
+ */
+export class ApiError extends Error {
+  constructor(
+    readonly status: number,
+    readonly problem: Problem | null,
+  ) {
+    super(problem?.detail ?? `Request failed with status ${status}`);
+    this.name = 'ApiError';
+  }
+
+  get code(): Problem['code'] | undefined {
+    return this.problem?.code;
+  }
+}
+
+interface Args {
+  path?: Record<string, string | number>;
+  query?: Record<string, unknown>;
+  body?: unknown;
+  contentType?: string;
+  headers?: Record<string, string>;
+}
+
+/**
+ * A client with one method per operationId of the OpenAPI document, e.g.
+ * `client.getString({ path: { value: 'madam' } })`. Error responses throw
+ * an ApiError.
+ */
+export function createClient(options: ClientOptions): Client {
+  const fetchFn = options.fetch ?? globalThis.fetch;
+  const baseUrl = options.baseUrl.replace(/\/+$/, '');
+
+  async function call(id: OperationId, args: Args = {}): Promise<unknown> {
+    const [method, template] = OPERATIONS[id];
+    const path = template.replace(/\{(\w+)\}/g, (_, name: string) =>
+      encodeURIComponent(String(args.path?.[name])),
+    );
+    const url = new URL(baseUrl + path);
+    for (const [name, value] of Object.entries(args.query ?? {})) {
+      for (const item of Array.isArray(value) ? value : [value]) {
+        if (item !== undefined) url.searchParams.append(name, String(item));
+      }
+    }
+
+    const headers: Record<string, string> = { ...args.headers };
+    if (options.apiKey) headers['X-API-Key'] = options.apiKey;
+    let body: string | undefined;
+    if (args.body !== undefined) {
+      headers['Content-Type'] = args.contentType ?? 'application/json';
+      body =
+        typeof args.body === 'string' && args.contentType
+          ? args.body
+          : JSON.stringify(args.body);
+    }
+
+    const res = await fetchFn(url, { method, headers, body });
+    if (!res.ok) {
+      const problem = (
+        res.headers.get('content-type')?.includes('json')
+          ? await res.json()
+          : null
+      ) as Problem | null;
+      throw new ApiError(res.status, problem);
+    }
+    if (res.status === 204) return undefined;
+    if (res.headers.get('content-type')?.startsWith('application/json')) {
+      return res.json();
+    }
+    return res;
+  }
+
+  return Object.fromEntries(
+    (Object.keys(OPERATIONS) as OperationId[]).map((id) => [
+      id,
+      (args?: Args) => call(id, args),
+    ]),
+  ) as Client;
+}
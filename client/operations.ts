@@ -0,0 +1,110 @@
+// Generated by scripts/generate-openapi.ts, do not edit
+
+/** Method and path template of every operation */
+export const OPERATIONS = {
+  listErrors: ['GET', '/errors'],
+  getError: ['GET', '/errors/{code}'],
+  getHealth: ['GET', '/health'],
+  getLiveness: ['GET', '/health/live'],
+  getReadiness: ['GET', '/health/ready'],
+  getMetrics: ['GET', '/metrics'],
+  listStrings: ['GET', '/strings'],
+  createString: ['POST', '/strings'],
+  deleteStrings: ['DELETE', '/strings'],
+  listStringsInCollection: ['GET', '/collections/{collection}/strings'],
+  createStringInCollection: ['POST', '/collections/{collection}/strings'],
+  deleteStringsInCollection: ['DELETE', '/collections/{collection}/strings'],
+  analyzeString: ['POST', '/strings/analyze'],
+  analyzeStringInCollection: [
+    'POST',
+    '/collections/{collection}/strings/analyze',
+  ],
+  analyzeBatch: ['POST', '/strings/batch'],
+  analyzeBatchInCollection: ['POST', '/collections/{collection}/strings/batch'],
+  filterByNaturalLanguage: ['GET', '/strings/filter-by-natural-language'],
+  filterByNaturalLanguageInCollection: [
+    'GET',
+    '/collections/{collection}/strings/filter-by-natural-language',
+  ],
+  searchStrings: ['GET', '/strings/search/{mode}'],
+  searchStringsInCollection: [
+    'GET',
+    '/collections/{collection}/strings/search/{mode}',
+  ],
+  getStats: ['GET', '/strings/stats'],
+  getStatsInCollection: ['GET', '/collections/{collection}/strings/stats'],
+  exportStrings: ['GET', '/strings/export'],
+  exportStringsInCollection: [
+    'GET',
+    '/collections/{collection}/strings/export',
+  ],
+  importStrings: ['POST', '/strings/import'],
+  importStringsInCollection: [
+    'POST',
+    '/collections/{collection}/strings/import',
+  ],
+  compareStrings: ['GET', '/strings/compare'],
+  compareStringsInCollection: [
+    'GET',
+    '/collections/{collection}/strings/compare',
+  ],
+  streamEvents: ['GET', '/strings/events'],
+  streamEventsInCollection: ['GET', '/collections/{collection}/strings/events'],
+  getStringById: ['GET', '/strings/id/{id}'],
+  deleteStringById: ['DELETE', '/strings/id/{id}'],
+  updateLabels: ['PATCH', '/strings/id/{id}'],
+  getStringByIdInCollection: [
+    'GET',
+    '/collections/{collection}/strings/id/{id}',
+  ],
+  deleteStringByIdInCollection: [
+    'DELETE',
+    '/collections/{collection}/strings/id/{id}',
+  ],
+  updateLabelsInCollection: [
+    'PATCH',
+    '/collections/{collection}/strings/id/{id}',
+  ],
+  listAnagramsById: ['GET', '/strings/id/{id}/anagrams'],
+  listAnagramsByIdInCollection: [
+    'GET',
+    '/collections/{collection}/strings/id/{id}/anagrams',
+  ],
+  restoreString: ['POST', '/strings/id/{id}/restore'],
+  restoreStringInCollection: [
+    'POST',
+    '/collections/{collection}/strings/id/{id}/restore',
+  ],
+  listAnagrams: ['GET', '/strings/{value}/anagrams'],
+  listAnagramsInCollection: [
+    'GET',
+    '/collections/{collection}/strings/{value}/anagrams',
+  ],
+  getString: ['GET', '/strings/{value}'],
+  deleteString: ['DELETE', '/strings/{value}'],
+  getStringInCollection: ['GET', '/collections/{collection}/strings/{value}'],
+  deleteStringInCollection: [
+    'DELETE',
+    '/collections/{collection}/strings/{value}',
+  ],
+  listCollections: ['GET', '/collections'],
+  getCollection: ['GET', '/collections/{name}'],
+  copyCollection: ['POST', '/collections/{name}/copy'],
+  mergeCollection: ['POST', '/collections/{name}/merge'],
+  listQueryFailures: ['GET', '/admin/natural-language/failures'],
+  deleteQueryFailure: ['DELETE', '/admin/natural-language/failures/{id}'],
+  listApiKeys: ['GET', '/admin/keys'],
+  issueApiKey: ['POST', '/admin/keys'],
+  getApiKey: ['GET', '/admin/keys/{id}'],
+  revokeApiKey: ['DELETE', '/admin/keys/{id}'],
+  rotateApiKey: ['POST', '/admin/keys/{id}/rotate'],
+  reanalyze: ['POST', '/jobs/reanalyze'],
+  getJob: ['GET', '/jobs/{id}'],
+  listWebhooks: ['GET', '/admin/webhooks'],
+  createWebhook: ['POST', '/admin/webhooks'],
+  getWebhook: ['GET', '/admin/webhooks/{id}'],
+  deleteWebhook: ['DELETE', '/admin/webhooks/{id}'],
+  updateWebhook: ['PATCH', '/admin/webhooks/{id}'],
+  listDeliveries: ['GET', '/admin/webhooks/{id}/deliveries'],
+  redeliver: ['POST', '/admin/webhooks/{id}/deliveries/{deliveryId}/redeliver'],
+} as const;
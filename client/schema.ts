@@ -0,0 +1,8672 @@
+/**
+ * This file was auto-generated by openapi-typescript.
+ * Do not make direct changes to the file.
+ */
+
+export interface paths {
+  '/errors': {
+    parameters: {
+      query?: never;
+      header?: never;
+      path?: never;
+      cookie?: never;
+    };
+    /** List the error codes */
+    get: operations['listErrors'];
+    put?: never;
+    post?: never;
+    delete?: never;
+    options?: never;
+    head?: never;
+    patch?: never;
+    trace?: never;
+  };
+  '/errors/{code}': {
+    parameters: {
+      query?: never;
+      header?: never;
+      path?: never;
+      cookie?: never;
+    };
+    /** Describe an error code */
+    get: operations['getError'];
+    put?: never;
+    post?: never;
+    delete?: never;
+    options?: never;
+    head?: never;
+    patch?: never;
+    trace?: never;
+  };
+  '/health': {
+    parameters: {
+      query?: never;
+      header?: never;
+      path?: never;
+      cookie?: never;
+    };
+    /** Check that the process is up */
+    get: operations['getHealth'];
+    put?: never;
+    post?: never;
+    delete?: never;
+    options?: never;
+    head?: never;
+    patch?: never;
+    trace?: never;
+  };
+  '/health/live': {
+    parameters: {
+      query?: never;
+      header?: never;
+      path?: never;
+      cookie?: never;
+    };
+    /** Check that the process is up */
+    get: operations['getLiveness'];
+    put?: never;
+    post?: never;
+    delete?: never;
+    options?: never;
+    head?: never;
+    patch?: never;
+    trace?: never;
+  };
+  '/health/ready': {
+    parameters: {
+      query?: never;
+      header?: never;
+      path?: never;
+      cookie?: never;
+    };
+    /** Check that the database and stores serve requests */
+    get: operations['getReadiness'];
+    put?: never;
+    post?: never;
+    delete?: never;
+    options?: never;
+    head?: never;
+    patch?: never;
+    trace?: never;
+  };
+  '/metrics': {
+    parameters: {
+      query?: never;
+      header?: never;
+      path?: never;
+      cookie?: never;
+    };
+    /** Scrape the metrics of this instance */
+    get: operations['getMetrics'];
+    put?: never;
+    post?: never;
+    delete?: never;
+    options?: never;
+    head?: never;
+    patch?: never;
+    trace?: never;
+  };
+  '/strings': {
+    parameters: {
+      query?: never;
+      header?: never;
+      path?: never;
+      cookie?: never;
+    };
+    /**
+     * List stored strings matching the filters
+     * @description Accepts the filters of `GET /strings`; `metadata.<key>=<value>` matches records whose metadata has the key with this text value.
+     */
+    get: operations['listStrings'];
+    put?: never;
+    /** Analyze and store a string */
+    post: operations['createString'];
+    /**
+     * Delete every stored string matching the filters
+     * @description Accepts the filters of `GET /strings`; `metadata.<key>=<value>` matches records whose metadata has the key with this text value.
+     */
+    delete: operations['deleteStrings'];
+    options?: never;
+    head?: never;
+    patch?: never;
+    trace?: never;
+  };
+  '/collections/{collection}/strings': {
+    parameters: {
+      query?: never;
+      header?: never;
+      path?: never;
+      cookie?: never;
+    };
+    /**
+     * List stored strings matching the filters
+     * @description Accepts the filters of `GET /strings`; `metadata.<key>=<value>` matches records whose metadata has the key with this text value.
+     */
+    get: operations['listStringsInCollection'];
+    put?: never;
+    /** Analyze and store a string */
+    post: operations['createStringInCollection'];
+    /**
+     * Delete every stored string matching the filters
+     * @description Accepts the filters of `GET /strings`; `metadata.<key>=<value>` matches records whose metadata has the key with this text value.
+     */
+    delete: operations['deleteStringsInCollection'];
+    options?: never;
+    head?: never;
+    patch?: never;
+    trace?: never;
+  };
+  '/strings/analyze': {
+    parameters: {
+      query?: never;
+      header?: never;
+      path?: never;
+      cookie?: never;
+    };
+    get?: never;
+    put?: never;
+    /** Analyze a string without storing it */
+    post: operations['analyzeString'];
+    delete?: never;
+    options?: never;
+    head?: never;
+    patch?: never;
+    trace?: never;
+  };
+  '/collections/{collection}/strings/analyze': {
+    parameters: {
+      query?: never;
+      header?: never;
+      path?: never;
+      cookie?: never;
+    };
+    get?: never;
+    put?: never;
+    /** Analyze a string without storing it */
+    post: operations['analyzeStringInCollection'];
+    delete?: never;
+    options?: never;
+    head?: never;
+    patch?: never;
+    trace?: never;
+  };
+  '/strings/batch': {
+    parameters: {
+      query?: never;
+      header?: never;
+      path?: never;
+      cookie?: never;
+    };
+    get?: never;
+    put?: never;
+    /** Analyze and store many strings */
+    post: operations['analyzeBatch'];
+    delete?: never;
+    options?: never;
+    head?: never;
+    patch?: never;
+    trace?: never;
+  };
+  '/collections/{collection}/strings/batch': {
+    parameters: {
+      query?: never;
+      header?: never;
+      path?: never;
+      cookie?: never;
+    };
+    get?: never;
+    put?: never;
+    /** Analyze and store many strings */
+    post: operations['analyzeBatchInCollection'];
+    delete?: never;
+    options?: never;
+    head?: never;
+    patch?: never;
+    trace?: never;
+  };
+  '/strings/filter-by-natural-language': {
+    parameters: {
+      query?: never;
+      header?: never;
+      path?: never;
+      cookie?: never;
+    };
+    /** List strings matching a natural language query */
+    get: operations['filterByNaturalLanguage'];
+    put?: never;
+    post?: never;
+    delete?: never;
+    options?: never;
+    head?: never;
+    patch?: never;
+    trace?: never;
+  };
+  '/collections/{collection}/strings/filter-by-natural-language': {
+    parameters: {
+      query?: never;
+      header?: never;
+      path?: never;
+      cookie?: never;
+    };
+    /** List strings matching a natural language query */
+    get: operations['filterByNaturalLanguageInCollection'];
+    put?: never;
+    post?: never;
+    delete?: never;
+    options?: never;
+    head?: never;
+    patch?: never;
+    trace?: never;
+  };
+  '/strings/search/{mode}': {
+    parameters: {
+      query?: never;
+      header?: never;
+      path?: never;
+      cookie?: never;
+    };
+    /** Search stored values */
+    get: operations['searchStrings'];
+    put?: never;
+    post?: never;
+    delete?: never;
+    options?: never;
+    head?: never;
+    patch?: never;
+    trace?: never;
+  };
+  '/collections/{collection}/strings/search/{mode}': {
+    parameters: {
+      query?: never;
+      header?: never;
+      path?: never;
+      cookie?: never;
+    };
+    /** Search stored values */
+    get: operations['searchStringsInCollection'];
+    put?: never;
+    post?: never;
+    delete?: never;
+    options?: never;
+    head?: never;
+    patch?: never;
+    trace?: never;
+  };
+  '/strings/stats': {
+    parameters: {
+      query?: never;
+      header?: never;
+      path?: never;
+      cookie?: never;
+    };
+    /**
+     * Aggregate statistics of the stored strings
+     * @description Accepts the filters of `GET /strings`; `metadata.<key>=<value>` matches records whose metadata has the key with this text value.
+     */
+    get: operations['getStats'];
+    put?: never;
+    post?: never;
+    delete?: never;
+    options?: never;
+    head?: never;
+    patch?: never;
+    trace?: never;
+  };
+  '/collections/{collection}/strings/stats': {
+    parameters: {
+      query?: never;
+      header?: never;
+      path?: never;
+      cookie?: never;
+    };
+    /**
+     * Aggregate statistics of the stored strings
+     * @description Accepts the filters of `GET /strings`; `metadata.<key>=<value>` matches records whose metadata has the key with this text value.
+     */
+    get: operations['getStatsInCollection'];
+    put?: never;
+    post?: never;
+    delete?: never;
+    options?: never;
+    head?: never;
+    patch?: never;
+    trace?: never;
+  };
+  '/strings/export': {
+    parameters: {
+      query?: never;
+      header?: never;
+      path?: never;
+      cookie?: never;
+    };
+    /**
+     * Download the stored strings as NDJSON or CSV
+     * @description Accepts the filters of `GET /strings`; `metadata.<key>=<value>` matches records whose metadata has the key with this text value.
+     */
+    get: operations['exportStrings'];
+    put?: never;
+    post?: never;
+    delete?: never;
+    options?: never;
+    head?: never;
+    patch?: never;
+    trace?: never;
+  };
+  '/collections/{collection}/strings/export': {
+    parameters: {
+      query?: never;
+      header?: never;
+      path?: never;
+      cookie?: never;
+    };
+    /**
+     * Download the stored strings as NDJSON or CSV
+     * @description Accepts the filters of `GET /strings`; `metadata.<key>=<value>` matches records whose metadata has the key with this text value.
+     */
+    get: operations['exportStringsInCollection'];
+    put?: never;
+    post?: never;
+    delete?: never;
+    options?: never;
+    head?: never;
+    patch?: never;
+    trace?: never;
+  };
+  '/strings/import': {
+    parameters: {
+      query?: never;
+      header?: never;
+      path?: never;
+      cookie?: never;
+    };
+    get?: never;
+    put?: never;
+    /** Analyze and store every value of an NDJSON, CSV or text body */
+    post: operations['importStrings'];
+    delete?: never;
+    options?: never;
+    head?: never;
+    patch?: never;
+    trace?: never;
+  };
+  '/collections/{collection}/strings/import': {
+    parameters: {
+      query?: never;
+      header?: never;
+      path?: never;
+      cookie?: never;
+    };
+    get?: never;
+    put?: never;
+    /** Analyze and store every value of an NDJSON, CSV or text body */
+    post: operations['importStringsInCollection'];
+    delete?: never;
+    options?: never;
+    head?: never;
+    patch?: never;
+    trace?: never;
+  };
+  '/strings/compare': {
+    parameters: {
+      query?: never;
+      header?: never;
+      path?: never;
+      cookie?: never;
+    };
+    /** Compare two stored strings */
+    get: operations['compareStrings'];
+    put?: never;
+    post?: never;
+    delete?: never;
+    options?: never;
+    head?: never;
+    patch?: never;
+    trace?: never;
+  };
+  '/collections/{collection}/strings/compare': {
+    parameters: {
+      query?: never;
+      header?: never;
+      path?: never;
+      cookie?: never;
+    };
+    /** Compare two stored strings */
+    get: operations['compareStringsInCollection'];
+    put?: never;
+    post?: never;
+    delete?: never;
+    options?: never;
+    head?: never;
+    patch?: never;
+    trace?: never;
+  };
+  '/strings/events': {
+    parameters: {
+      query?: never;
+      header?: never;
+      path?: never;
+      cookie?: never;
+    };
+    /**
+     * Stream lifecycle events of stored strings
+     * @description Accepts the filters of `GET /strings`; `metadata.<key>=<value>` matches records whose metadata has the key with this text value.
+     */
+    get: operations['streamEvents'];
+    put?: never;
+    post?: never;
+    delete?: never;
+    options?: never;
+    head?: never;
+    patch?: never;
+    trace?: never;
+  };
+  '/collections/{collection}/strings/events': {
+    parameters: {
+      query?: never;
+      header?: never;
+      path?: never;
+      cookie?: never;
+    };
+    /**
+     * Stream lifecycle events of stored strings
+     * @description Accepts the filters of `GET /strings`; `metadata.<key>=<value>` matches records whose metadata has the key with this text value.
+     */
+    get: operations['streamEventsInCollection'];
+    put?: never;
+    post?: never;
+    delete?: never;
+    options?: never;
+    head?: never;
+    patch?: never;
+    trace?: never;
+  };
+  '/strings/id/{id}': {
+    parameters: {
+      query?: never;
+      header?: never;
+      path?: never;
+      cookie?: never;
+    };
+    /** Get a stored string by its sha256 id */
+    get: operations['getStringById'];
+    put?: never;
+    post?: never;
+    /** Delete a stored string by its sha256 id */
+    delete: operations['deleteStringById'];
+    options?: never;
+    head?: never;
+    /** Replace the tags and/or metadata of a stored string */
+    patch: operations['updateLabels'];
+    trace?: never;
+  };
+  '/collections/{collection}/strings/id/{id}': {
+    parameters: {
+      query?: never;
+      header?: never;
+      path?: never;
+      cookie?: never;
+    };
+    /** Get a stored string by its sha256 id */
+    get: operations['getStringByIdInCollection'];
+    put?: never;
+    post?: never;
+    /** Delete a stored string by its sha256 id */
+    delete: operations['deleteStringByIdInCollection'];
+    options?: never;
+    head?: never;
+    /** Replace the tags and/or metadata of a stored string */
+    patch: operations['updateLabelsInCollection'];
+    trace?: never;
+  };
+  '/strings/id/{id}/anagrams': {
+    parameters: {
+      query?: never;
+      header?: never;
+      path?: never;
+      cookie?: never;
+    };
+    /** List the stored anagrams of a string, by id */
+    get: operations['listAnagramsById'];
+    put?: never;
+    post?: never;
+    delete?: never;
+    options?: never;
+    head?: never;
+    patch?: never;
+    trace?: never;
+  };
+  '/collections/{collection}/strings/id/{id}/anagrams': {
+    parameters: {
+      query?: never;
+      header?: never;
+      path?: never;
+      cookie?: never;
+    };
+    /** List the stored anagrams of a string, by id */
+    get: operations['listAnagramsByIdInCollection'];
+    put?: never;
+    post?: never;
+    delete?: never;
+    options?: never;
+    head?: never;
+    patch?: never;
+    trace?: never;
+  };
+  '/strings/id/{id}/restore': {
+    parameters: {
+      query?: never;
+      header?: never;
+      path?: never;
+      cookie?: never;
+    };
+    get?: never;
+    put?: never;
+    /** Restore a soft-deleted string */
+    post: operations['restoreString'];
+    delete?: never;
+    options?: never;
+    head?: never;
+    patch?: never;
+    trace?: never;
+  };
+  '/collections/{collection}/strings/id/{id}/restore': {
+    parameters: {
+      query?: never;
+      header?: never;
+      path?: never;
+      cookie?: never;
+    };
+    get?: never;
+    put?: never;
+    /** Restore a soft-deleted string */
+    post: operations['restoreStringInCollection'];
+    delete?: never;
+    options?: never;
+    head?: never;
+    patch?: never;
+    trace?: never;
+  };
+  '/strings/{value}/anagrams': {
+    parameters: {
+      query?: never;
+      header?: never;
+      path?: never;
+      cookie?: never;
+    };
+    /** List the stored anagrams of a string */
+    get: operations['listAnagrams'];
+    put?: never;
+    post?: never;
+    delete?: never;
+    options?: never;
+    head?: never;
+    patch?: never;
+    trace?: never;
+  };
+  '/collections/{collection}/strings/{value}/anagrams': {
+    parameters: {
+      query?: never;
+      header?: never;
+      path?: never;
+      cookie?: never;
+    };
+    /** List the stored anagrams of a string */
+    get: operations['listAnagramsInCollection'];
+    put?: never;
+    post?: never;
+    delete?: never;
+    options?: never;
+    head?: never;
+    patch?: never;
+    trace?: never;
+  };
+  '/strings/{value}': {
+    parameters: {
+      query?: never;
+      header?: never;
+      path?: never;
+      cookie?: never;
+    };
+    /** Get a stored string */
+    get: operations['getString'];
+    put?: never;
+    post?: never;
+    /** Delete a stored string */
+    delete: operations['deleteString'];
+    options?: never;
+    head?: never;
+    patch?: never;
+    trace?: never;
+  };
+  '/collections/{collection}/strings/{value}': {
+    parameters: {
+      query?: never;
+      header?: never;
+      path?: never;
+      cookie?: never;
+    };
+    /** Get a stored string */
+    get: operations['getStringInCollection'];
+    put?: never;
+    post?: never;
+    /** Delete a stored string */
+    delete: operations['deleteStringInCollection'];
+    options?: never;
+    head?: never;
+    patch?: never;
+    trace?: never;
+  };
+  '/collections': {
+    parameters: {
+      query?: never;
+      header?: never;
+      path?: never;
+      cookie?: never;
+    };
+    /** List the collections and their string counts */
+    get: operations['listCollections'];
+    put?: never;
+    post?: never;
+    delete?: never;
+    options?: never;
+    head?: never;
+    patch?: never;
+    trace?: never;
+  };
+  '/collections/{name}': {
+    parameters: {
+      query?: never;
+      header?: never;
+      path?: never;
+      cookie?: never;
+    };
+    /** Get the string counts of a collection */
+    get: operations['getCollection'];
+    put?: never;
+    post?: never;
+    delete?: never;
+    options?: never;
+    head?: never;
+    patch?: never;
+    trace?: never;
+  };
+  '/collections/{name}/copy': {
+    parameters: {
+      query?: never;
+      header?: never;
+      path?: never;
+      cookie?: never;
+    };
+    get?: never;
+    put?: never;
+    /** Copy the strings of a collection into a new one */
+    post: operations['copyCollection'];
+    delete?: never;
+    options?: never;
+    head?: never;
+    patch?: never;
+    trace?: never;
+  };
+  '/collections/{name}/merge': {
+    parameters: {
+      query?: never;
+      header?: never;
+      path?: never;
+      cookie?: never;
+    };
+    get?: never;
+    put?: never;
+    /** Copy the strings of a collection that another one lacks */
+    post: operations['mergeCollection'];
+    delete?: never;
+    options?: never;
+    head?: never;
+    patch?: never;
+    trace?: never;
+  };
+  '/admin/natural-language/failures': {
+    parameters: {
+      query?: never;
+      header?: never;
+      path?: never;
+      cookie?: never;
+    };
+    /** List failed or partly understood queries, most frequent first */
+    get: operations['listQueryFailures'];
+    put?: never;
+    post?: never;
+    delete?: never;
+    options?: never;
+    head?: never;
+    patch?: never;
+    trace?: never;
+  };
+  '/admin/natural-language/failures/{id}': {
+    parameters: {
+      query?: never;
+      header?: never;
+      path?: never;
+      cookie?: never;
+    };
+    get?: never;
+    put?: never;
+    post?: never;
+    /** Remove a query from the failure log */
+    delete: operations['deleteQueryFailure'];
+    options?: never;
+    head?: never;
+    patch?: never;
+    trace?: never;
+  };
+  '/admin/keys': {
+    parameters: {
+      query?: never;
+      header?: never;
+      path?: never;
+      cookie?: never;
+    };
+    /** List the API keys, revoked ones included */
+    get: operations['listApiKeys'];
+    put?: never;
+    /** Issue an API key */
+    post: operations['issueApiKey'];
+    delete?: never;
+    options?: never;
+    head?: never;
+    patch?: never;
+    trace?: never;
+  };
+  '/admin/keys/{id}': {
+    parameters: {
+      query?: never;
+      header?: never;
+      path?: never;
+      cookie?: never;
+    };
+    /** Get an API key and today's usage */
+    get: operations['getApiKey'];
+    put?: never;
+    post?: never;
+    /** Revoke an API key */
+    delete: operations['revokeApiKey'];
+    options?: never;
+    head?: never;
+    patch?: never;
+    trace?: never;
+  };
+  '/admin/keys/{id}/rotate': {
+    parameters: {
+      query?: never;
+      header?: never;
+      path?: never;
+      cookie?: never;
+    };
+    get?: never;
+    put?: never;
+    /** Replace the secret of an API key */
+    post: operations['rotateApiKey'];
+    delete?: never;
+    options?: never;
+    head?: never;
+    patch?: never;
+    trace?: never;
+  };
+  '/jobs/reanalyze': {
+    parameters: {
+      query?: never;
+      header?: never;
+      path?: never;
+      cookie?: never;
+    };
+    get?: never;
+    put?: never;
+    /** Queue a re-analysis of records below a version */
+    post: operations['reanalyze'];
+    delete?: never;
+    options?: never;
+    head?: never;
+    patch?: never;
+    trace?: never;
+  };
+  '/jobs/{id}': {
+    parameters: {
+      query?: never;
+      header?: never;
+      path?: never;
+      cookie?: never;
+    };
+    /** Get the progress of a job */
+    get: operations['getJob'];
+    put?: never;
+    post?: never;
+    delete?: never;
+    options?: never;
+    head?: never;
+    patch?: never;
+    trace?: never;
+  };
+  '/admin/webhooks': {
+    parameters: {
+      query?: never;
+      header?: never;
+      path?: never;
+      cookie?: never;
+    };
+    /** List the webhooks */
+    get: operations['listWebhooks'];
+    put?: never;
+    /** Register a webhook */
+    post: operations['createWebhook'];
+    delete?: never;
+    options?: never;
+    head?: never;
+    patch?: never;
+    trace?: never;
+  };
+  '/admin/webhooks/{id}': {
+    parameters: {
+      query?: never;
+      header?: never;
+      path?: never;
+      cookie?: never;
+    };
+    /** Get a webhook */
+    get: operations['getWebhook'];
+    put?: never;
+    post?: never;
+    /** Delete a webhook and its delivery log */
+    delete: operations['deleteWebhook'];
+    options?: never;
+    head?: never;
+    /** Update a webhook */
+    patch: operations['updateWebhook'];
+    trace?: never;
+  };
+  '/admin/webhooks/{id}/deliveries': {
+    parameters: {
+      query?: never;
+      header?: never;
+      path?: never;
+      cookie?: never;
+    };
+    /** List the deliveries of a webhook, newest first */
+    get: operations['listDeliveries'];
+    put?: never;
+    post?: never;
+    delete?: never;
+    options?: never;
+    head?: never;
+    patch?: never;
+    trace?: never;
+  };
+  '/admin/webhooks/{id}/deliveries/{deliveryId}/redeliver': {
+    parameters: {
+      query?: never;
+      header?: never;
+      path?: never;
+      cookie?: never;
+    };
+    get?: never;
+    put?: never;
+    /** Queue a delivery again */
+    post: operations['redeliver'];
+    delete?: never;
+    options?: never;
+    head?: never;
+    patch?: never;
+    trace?: never;
+  };
+}
+export type webhooks = Record<string, never>;
+export interface components {
+  schemas: {
+    /** @enum {string} */
+    ErrorCode:
+      | 'BAD_REQUEST'
+      | 'NOT_FOUND'
+      | 'CONFLICT'
+      | 'PAYLOAD_TOO_LARGE'
+      | 'UNPROCESSABLE_ENTITY'
+      | 'INTERNAL_ERROR'
+      | 'SERVICE_UNAVAILABLE'
+      | 'INVALID_BODY'
+      | 'INVALID_QUERY_PARAMETER'
+      | 'INVALID_ANALYSIS_OPTIONS'
+      | 'INVALID_FILTER_EXPRESSION'
+      | 'UNPARSEABLE_QUERY'
+      | 'INVALID_REGEX'
+      | 'BATCH_TOO_LARGE'
+      | 'VALUE_TOO_LARGE'
+      | 'FILTER_REQUIRED'
+      | 'UNSUPPORTED_FORMAT'
+      | 'INVALID_COLLECTION_NAME'
+      | 'MISSING_API_KEY'
+      | 'INVALID_API_KEY'
+      | 'INSUFFICIENT_SCOPE'
+      | 'RATE_LIMITED'
+      | 'QUOTA_EXCEEDED'
+      | 'STRING_NOT_FOUND'
+      | 'SEARCH_MODE_NOT_FOUND'
+      | 'JOB_NOT_FOUND'
+      | 'API_KEY_NOT_FOUND'
+      | 'WEBHOOK_NOT_FOUND'
+      | 'DELIVERY_NOT_FOUND'
+      | 'COLLECTION_NOT_FOUND'
+      | 'QUERY_FAILURE_NOT_FOUND'
+      | 'STRING_EXISTS'
+      | 'STRING_DELETED'
+      | 'COLLECTION_EXISTS'
+      | 'DELETE_NOT_CONFIRMED'
+      | 'INVALID_VALUE_TYPE'
+      | 'CONFLICTING_FILTERS'
+      | 'COMPARISON_TOO_LARGE'
+      | 'SEARCH_TIMEOUT'
+      | 'POSTGRES_REQUIRED'
+      | 'DATABASE_UNAVAILABLE';
+    ErrorDefinitionDto: {
+      code: components['schemas']['ErrorCode'];
+      /** @example 404 */
+      status: number;
+      /** @example String Not Found */
+      title: string;
+      description: string;
+    };
+    ErrorCatalogDto: {
+      data: components['schemas']['ErrorDefinitionDto'][];
+      count: number;
+    };
+    InvalidParamDto: {
+      /** @example min_length */
+      name: string;
+      /** @example Invalid query parameter values or types */
+      reason: string;
+    };
+    ProblemDto: {
+      /**
+       * @description Link to the catalog entry of the code
+       * @example /errors/STRING_NOT_FOUND
+       */
+      type: string;
+      /** @example String Not Found */
+      title: string;
+      /** @example 404 */
+      status: number;
+      /** @example String does not exist in the system */
+      detail: string;
+      /**
+       * @description The request URL
+       * @example /strings/madam
+       */
+      instance: string;
+      code: components['schemas']['ErrorCode'];
+      /** @description Also sent as the X-Request-Id header */
+      request_id: string;
+      /** @description The invalid body fields or query parameters */
+      invalid_params?: components['schemas']['InvalidParamDto'][];
+    };
+    LivenessDto: {
+      /** @enum {string} */
+      status: 'ok';
+      /**
+       * @description Seconds since the process started
+       * @example 3600
+       */
+      uptime_seconds: number;
+    };
+    DatabaseCheckDto: {
+      /** @enum {string} */
+      status: 'up';
+      /**
+       * @description Round trip of `SELECT 1`
+       * @example 1.2
+       */
+      latency_ms: number;
+    };
+    StoreCheckDto: {
+      /** @enum {string} */
+      status: 'up';
+      /**
+       * @description Duration of the check
+       * @example 0.4
+       */
+      latency_ms: number;
+    };
+    ReadinessChecksDto: {
+      /** @description Absent unless strings are kept in Postgres */
+      database?: components['schemas']['DatabaseCheckDto'];
+      /** @description The store named by STRING_STORE answers a query */
+      string_store: components['schemas']['StoreCheckDto'];
+      /** @description BLOB_DIR is writable; absent when no value is large enough for it */
+      blob_store?: components['schemas']['StoreCheckDto'];
+    };
+    ReadinessDto: {
+      /** @enum {string} */
+      status: 'ok';
+      checks: components['schemas']['ReadinessChecksDto'];
+    };
+    DryRunResultDto: {
+      /** @description Whether the value is already stored */
+      exists: boolean;
+      /** @description The stored record, or the analysis it would get */
+      data:
+        | components['schemas']['StringRecordDto']
+        | components['schemas']['AnalysisPreviewDto'];
+    };
+    AnalysisOptionsDto: {
+      /**
+       * @description Compare letters by case in the palindrome check
+       * @default false
+       */
+      case_sensitive: boolean;
+      /**
+       * @description 'lenient' only compares letters and numbers, 'strict' every character
+       * @default lenient
+       * @enum {string}
+       */
+      palindrome_mode: 'strict' | 'lenient';
+      /**
+       * @description BCP 47 tag for word segmentation and case folding
+       * @default en
+       */
+      locale: string;
+    };
+    CreateStringDto: {
+      /** @description 1-64 characters each, trimmed and deduplicated */
+      tags?: string[];
+      /** @description Free-form JSON object, at most 16384 characters of JSON */
+      metadata?: {
+        [key: string]: unknown;
+      };
+      /** @example madam */
+      value: string;
+      options?: components['schemas']['AnalysisOptionsDto'];
+    };
+    StringPropertiesDto: {
+      /** @description Grapheme clusters */
+      length: number;
+      is_palindrome: boolean;
+      unique_characters: number;
+      word_count: number;
+      /** @description Hex sha256 of the value, also the record id */
+      sha256_hash: string;
+      /**
+       * @example {
+       *       "m": 2,
+       *       "a": 2,
+       *       "d": 1
+       *     }
+       */
+      character_frequency_map: {
+        [key: string]: number;
+      };
+      /** @description Shannon entropy of the characters, in bits */
+      entropy: number;
+      bigram_frequency_map: {
+        [key: string]: number;
+      };
+      trigram_frequency_map: {
+        [key: string]: number;
+      };
+      word_frequency_map: {
+        [key: string]: number;
+      };
+      /** @description Latin, Cyrillic and Greek letters, diacritics ignored; null with letters of other scripts */
+      vowel_count: number | null;
+      /** @description Latin, Cyrillic and Greek letters, diacritics ignored; null with letters of other scripts */
+      consonant_count: number | null;
+      digit_count: number;
+      whitespace_count: number;
+      punctuation_count: number;
+      uppercase_count: number;
+      lowercase_count: number;
+      emoji_count: number;
+      /** @description Follows the palindrome options */
+      longest_palindromic_substring: string;
+      longest_palindrome_length: number;
+      average_word_length: number | null;
+      sentence_count: number;
+      /** @description English syllable rules, null without words */
+      flesch_reading_ease: number | null;
+      /** @description English syllable rules, null without words */
+      flesch_kincaid_grade: number | null;
+      /** @description ISO 15924 script, 'Zyyy' without letters */
+      script: string;
+      /** @description ISO 639-1 language, 'und' if unknown */
+      language: string;
+    };
+    StringRecordDto: {
+      /** @example default */
+      collection: string;
+      /** @description sha256 of the value */
+      id: string;
+      /**
+       * @description The value, or a preview of its first 1000 characters when value_truncated
+       * @example madam
+       */
+      value: string;
+      /** @description Whether value is a preview; ?full=true on GET /strings/:value and GET /strings/id/:id gives the whole value */
+      value_truncated: boolean;
+      properties: components['schemas']['StringPropertiesDto'];
+      /** @description Options the properties were computed with */
+      analysis_options: components['schemas']['AnalysisOptionsDto'] | null;
+      /** @description Version of the analysis logic */
+      analysis_version: number;
+      tags: string[];
+      metadata: {
+        [key: string]: unknown;
+      };
+      /** Format: date-time */
+      created_at: string;
+      /**
+       * Format: date-time
+       * @description Last change of the labels, the analysis or the deleted state; equals created_at until then
+       */
+      updated_at: string;
+      /**
+       * Format: date-time
+       * @description Only on soft-deleted records
+       */
+      deleted_at?: string;
+    };
+    AnalyzeStringDto: {
+      /** @example madam */
+      value: string;
+      options?: components['schemas']['AnalysisOptionsDto'];
+    };
+    AnalysisPreviewDto: {
+      /** @description sha256 of the value */
+      id: string;
+      /**
+       * @description The value, or a preview of its first 1000 characters when value_truncated
+       * @example madam
+       */
+      value: string;
+      /** @description Whether value is a preview; ?full=true on GET /strings/:value and GET /strings/id/:id gives the whole value */
+      value_truncated: boolean;
+      properties: components['schemas']['StringPropertiesDto'];
+      /** @description Options the properties were computed with */
+      analysis_options: components['schemas']['AnalysisOptionsDto'] | null;
+      /** @description Version of the analysis logic */
+      analysis_version: number;
+      tags: string[];
+      metadata: {
+        [key: string]: unknown;
+      };
+    };
+    AnalyzeBatchDto: {
+      /** @description Values that are not strings are reported invalid */
+      values: string[];
+      options?: components['schemas']['AnalysisOptionsDto'];
+    };
+    BatchItemResultDto: {
+      /** @description Position in `values` */
+      index: number;
+      /** @enum {string} */
+      status: 'created' | 'duplicate' | 'invalid';
+      data?: components['schemas']['StringRecordDto'];
+      /** @description The rejected item, when invalid */
+      value?: Record<string, never>;
+      /** @description Why the item is invalid */
+      reason?: string;
+    };
+    BatchSummaryDto: {
+      created: number;
+      duplicate: number;
+      invalid: number;
+    };
+    BatchResultDto: {
+      results: components['schemas']['BatchItemResultDto'][];
+      count: number;
+      summary: components['schemas']['BatchSummaryDto'];
+    };
+    FilterNodeDto: {
+      /** @enum {string} */
+      type:
+        | 'and'
+        | 'or'
+        | 'not'
+        | 'compare'
+        | 'contains'
+        | 'frequency'
+        | 'tag'
+        | 'metadata';
+      /** @description and, or */
+      children?: components['schemas']['FilterNodeDto'][];
+      /** @description not */
+      child?: components['schemas']['FilterNodeDto'];
+      /** @description compare: a property key */
+      property?: string;
+      /**
+       * @description compare, frequency, metadata
+       * @enum {string}
+       */
+      operator?: '=' | '!=' | '<' | '<=' | '>' | '>=';
+      /** @description compare, frequency, metadata */
+      value?: number | boolean | string;
+      /** @description contains, frequency */
+      character?: string;
+      /** @description tag */
+      tag?: string;
+      /** @description metadata: the metadata key */
+      key?: string;
+    };
+    QuerySpanDto: {
+      /** @example longr */
+      text: string;
+      /** @description Offset in the query, in UTF-16 code units */
+      start: number;
+      /** @description Offset past the end */
+      end: number;
+      /**
+       * @description The filter read from the span, as a `q` filter expression
+       * @example word_count = 1
+       */
+      filter: string;
+    };
+    QueryTokenDto: {
+      /** @example longr */
+      text: string;
+      /** @description Offset in the query, in UTF-16 code units */
+      start: number;
+      /** @description Offset past the end */
+      end: number;
+    };
+    InterpretedQueryDto: {
+      /** @example all single word palindromic strings */
+      original: string;
+      /**
+       * @description The parsed filters as a `q` filter expression
+       * @example word_count = 1 AND is_palindrome
+       */
+      normalized: string;
+      parsed_filters: components['schemas']['FilterNodeDto'];
+      /** @description The parts of the query read as filters, in query order */
+      spans: components['schemas']['QuerySpanDto'][];
+      /** @description Tokens that were not understood and left out */
+      ignored: components['schemas']['QueryTokenDto'][];
+      /**
+       * @description Rewrites of the query that leave fewer tokens ignored
+       * @example [
+       *       "strings longer than 5 characters"
+       *     ]
+       */
+      suggestions: string[];
+    };
+    NaturalLanguageResultDto: {
+      /** @description Records in this page */
+      count: number;
+      /** @description Records matching the request */
+      total: number;
+      limit: number;
+      /** @description Only for offset pagination */
+      page?: number;
+      next_cursor: string | null;
+      prev_cursor: string | null;
+      sort_by: string;
+      /** @enum {string} */
+      order: 'asc' | 'desc';
+      data: components['schemas']['StringRecordDto'][];
+      interpreted_query: components['schemas']['InterpretedQueryDto'];
+    };
+    SearchHitDto: {
+      /** @example default */
+      collection: string;
+      /** @description sha256 of the value */
+      id: string;
+      /**
+       * @description The value, or a preview of its first 1000 characters when value_truncated
+       * @example madam
+       */
+      value: string;
+      /** @description Whether value is a preview; ?full=true on GET /strings/:value and GET /strings/id/:id gives the whole value */
+      value_truncated: boolean;
+      properties: components['schemas']['StringPropertiesDto'];
+      /** @description Options the properties were computed with */
+      analysis_options: components['schemas']['AnalysisOptionsDto'] | null;
+      /** @description Version of the analysis logic */
+      analysis_version: number;
+      tags: string[];
+      metadata: {
+        [key: string]: unknown;
+      };
+      /** Format: date-time */
+      created_at: string;
+      /**
+       * Format: date-time
+       * @description Last change of the labels, the analysis or the deleted state; equals created_at until then
+       */
+      updated_at: string;
+      /**
+       * Format: date-time
+       * @description Only on soft-deleted records
+       */
+      deleted_at?: string;
+      /** @description Relevance, 1 for an exact match */
+      score: number;
+      /** @description Fuzzy mode only */
+      distance?: number;
+    };
+    SearchResultDto: {
+      data: components['schemas']['SearchHitDto'][];
+      count: number;
+      /** @enum {string} */
+      mode: 'substring' | 'prefix' | 'suffix' | 'fuzzy' | 'regex';
+      /** @description The term or pattern searched for */
+      query: string;
+      /** @description Stored values too large to search (above INLINE_VALUE_BYTES), which never match */
+      large_values_skipped: number;
+    };
+    HistogramBucketDto: {
+      from: number;
+      to: number;
+      count: number;
+    };
+    FieldStatsDto: {
+      min: number | null;
+      max: number | null;
+      mean: number | null;
+      median: number | null;
+      /**
+       * @example {
+       *       "p25": 3,
+       *       "p75": 8
+       *     }
+       */
+      percentiles: {
+        [key: string]: number | null;
+      };
+      histogram: components['schemas']['HistogramBucketDto'][];
+    };
+    CharacterCountDto: {
+      character: string;
+      count: number;
+    };
+    StatsDto: {
+      count: number;
+      palindrome_ratio: number | null;
+      /** @description Per numeric property */
+      fields: {
+        [key: string]: components['schemas']['FieldStatsDto'];
+      };
+      character_frequency: components['schemas']['CharacterCountDto'][];
+      /**
+       * @description The filters of the request, normalized
+       * @example {
+       *       "is_palindrome": true,
+       *       "min_length": 3
+       *     }
+       */
+      filters_applied: {
+        [key: string]: unknown;
+      };
+    };
+    ImportOutcomeDto: {
+      line: number;
+      /** @enum {string} */
+      status: 'created' | 'duplicate' | 'invalid';
+      /** @description Created or duplicate values */
+      id?: string;
+      /** @description Invalid values */
+      reason?: string;
+    };
+    ComparedStringDto: {
+      id: string;
+      value: string;
+    };
+    DiffOpDto: {
+      /** @enum {string} */
+      op: 'equal' | 'insert' | 'delete';
+      text: string;
+    };
+    ComparisonDto: {
+      a: components['schemas']['ComparedStringDto'];
+      b: components['schemas']['ComparedStringDto'];
+      equal: boolean;
+      is_anagram: boolean;
+      edit_distance: number;
+      /** @description 1 - edit distance / longer length */
+      similarity: number;
+      longest_common_substring: string;
+      longest_common_subsequence: string;
+      /** @description Per character: count in b minus count in a, differing characters only */
+      character_frequency_diff: {
+        [key: string]: number;
+      };
+      /** @description Operations turning a into b */
+      diff: components['schemas']['DiffOpDto'][];
+    };
+    StringEventDto: {
+      /** @description Unique per event */
+      id: string;
+      /** @enum {string} */
+      type:
+        | 'string.created'
+        | 'string.deleted'
+        | 'string.restored'
+        | 'string.reanalyzed';
+      occurred_at: string;
+      data: components['schemas']['StringRecordDto'];
+      /** @description string.deleted only */
+      permanent?: boolean;
+      /** @description string.reanalyzed only */
+      previous_version?: number;
+    };
+    StringPageDto: {
+      /** @description Records in this page */
+      count: number;
+      /** @description Records matching the request */
+      total: number;
+      limit: number;
+      /** @description Only for offset pagination */
+      page?: number;
+      next_cursor: string | null;
+      prev_cursor: string | null;
+      sort_by: string;
+      /** @enum {string} */
+      order: 'asc' | 'desc';
+      data: components['schemas']['StringRecordDto'][];
+    };
+    UpdateLabelsDto: {
+      /** @description 1-64 characters each, trimmed and deduplicated */
+      tags?: string[];
+      /** @description Free-form JSON object, at most 16384 characters of JSON */
+      metadata?: {
+        [key: string]: unknown;
+      };
+    };
+    FilteredStringPageDto: {
+      /** @description Records in this page */
+      count: number;
+      /** @description Records matching the request */
+      total: number;
+      limit: number;
+      /** @description Only for offset pagination */
+      page?: number;
+      next_cursor: string | null;
+      prev_cursor: string | null;
+      sort_by: string;
+      /** @enum {string} */
+      order: 'asc' | 'desc';
+      data: components['schemas']['StringRecordDto'][];
+      /**
+       * @description The filters of the request, normalized
+       * @example {
+       *       "is_palindrome": true,
+       *       "min_length": 3
+       *     }
+       */
+      filters_applied: {
+        [key: string]: unknown;
+      };
+    };
+    BulkDeleteResultDto: {
+      matched: number;
+      deleted: number;
+      permanent: boolean;
+      /**
+       * @description The filters of the request, normalized
+       * @example {
+       *       "is_palindrome": true,
+       *       "min_length": 3
+       *     }
+       */
+      filters_applied: {
+        [key: string]: unknown;
+      };
+    };
+    CollectionDto: {
+      /** @example default */
+      name: string;
+      /** @description Live strings */
+      strings: number;
+      /** @description Soft-deleted strings */
+      deleted: number;
+      /**
+       * Format: date-time
+       * @description When the oldest string was stored
+       */
+      created_at: string;
+      /**
+       * Format: date-time
+       * @description Last change of any string
+       */
+      updated_at: string;
+    };
+    CollectionListDto: {
+      data: components['schemas']['CollectionDto'][];
+      count: number;
+    };
+    CopyCollectionDto: {
+      /**
+       * @description An empty collection
+       * @example archive
+       */
+      to: string;
+    };
+    CopyResultDto: {
+      source: string;
+      target: string;
+      /** @description Strings written */
+      copied: number;
+      /** @description Strings the target already held, deleted ones included */
+      skipped: number;
+    };
+    MergeCollectionDto: {
+      /** @example archive */
+      into: string;
+    };
+    QueryFailureDto: {
+      /** Format: uuid */
+      id: string;
+      /**
+       * @description The query lowercased, whitespace collapsed
+       * @example strings longr then 5 characters
+       */
+      query: string;
+      /**
+       * @description partial: parsed with tokens ignored
+       * @enum {string}
+       */
+      outcome: 'unparseable' | 'conflicting' | 'partial';
+      /** @description As of the last occurrence */
+      ignored: string[];
+      /** @description As of the last occurrence */
+      suggestions: string[];
+      occurrences: number;
+      /** Format: date-time */
+      first_seen_at: string;
+      /** Format: date-time */
+      last_seen_at: string;
+    };
+    QueryFailureListDto: {
+      data: components['schemas']['QueryFailureDto'][];
+      count: number;
+    };
+    IssueApiKeyDto: {
+      /** @example reporting */
+      name: string;
+      scopes: ('read' | 'write' | 'delete' | 'admin')[];
+      /**
+       * @description Requests per minute
+       * @default 120
+       */
+      rate_limit: number;
+      /**
+       * @description Values analysed per UTC day
+       * @default 100000
+       */
+      daily_quota: number;
+    };
+    IssuedApiKeyDto: {
+      /** Format: uuid */
+      id: string;
+      name: string;
+      /** @description First characters of the secret, to recognise the key */
+      prefix: string;
+      scopes: ('read' | 'write' | 'delete' | 'admin')[];
+      /** @description Requests per minute */
+      rate_limit: number;
+      /** @description Values analysed per UTC day */
+      daily_quota: number;
+      /** Format: date-time */
+      created_at: string;
+      /** Format: date-time */
+      rotated_at: string | null;
+      /** Format: date-time */
+      last_used_at: string | null;
+      /** Format: date-time */
+      revoked_at: string | null;
+      /** @description Values analysed today, GET /admin/keys/:id only */
+      analyzed_today?: number;
+      /** @description The secret; it is never shown again */
+      key: string;
+    };
+    ApiKeyDto: {
+      /** Format: uuid */
+      id: string;
+      name: string;
+      /** @description First characters of the secret, to recognise the key */
+      prefix: string;
+      scopes: ('read' | 'write' | 'delete' | 'admin')[];
+      /** @description Requests per minute */
+      rate_limit: number;
+      /** @description Values analysed per UTC day */
+      daily_quota: number;
+      /** Format: date-time */
+      created_at: string;
+      /** Format: date-time */
+      rotated_at: string | null;
+      /** Format: date-time */
+      last_used_at: string | null;
+      /** Format: date-time */
+      revoked_at: string | null;
+      /** @description Values analysed today, GET /admin/keys/:id only */
+      analyzed_today?: number;
+    };
+    ApiKeyListDto: {
+      data: components['schemas']['ApiKeyDto'][];
+      count: number;
+    };
+    ReanalyzeDto: {
+      /** @description Records with an analysis_version below it are re-analysed; the current version when omitted */
+      below_version?: number;
+    };
+    JobDto: {
+      /** Format: uuid */
+      id: string;
+      /** @enum {string} */
+      type: 'reanalyze';
+      /** @enum {string} */
+      status: 'pending' | 'running' | 'completed' | 'failed';
+      below_version: number;
+      /** @description Analysis version the records are brought up to */
+      target_version: number;
+      /** @description Records to process, counted when the job was created */
+      total: number;
+      processed: number;
+      /** @description Share of the records processed, 0-1 */
+      progress: number;
+      /** @description `<collection>/<id>` of the last record processed */
+      cursor: string | null;
+      error: string | null;
+      /** Format: date-time */
+      created_at: string;
+      /** Format: date-time */
+      updated_at: string;
+      /** Format: date-time */
+      finished_at: string | null;
+    };
+    CreateWebhookDto: {
+      /** @example https://example.com/hooks/strings */
+      url: string;
+      /** @description Every event type when omitted */
+      events?: (
+        | 'string.created'
+        | 'string.deleted'
+        | 'string.restored'
+        | 'string.reanalyzed'
+      )[];
+      /** @default true */
+      active: boolean;
+    };
+    CreatedWebhookDto: {
+      /** Format: uuid */
+      id: string;
+      url: string;
+      events: (
+        | 'string.created'
+        | 'string.deleted'
+        | 'string.restored'
+        | 'string.reanalyzed'
+      )[];
+      active: boolean;
+      /** Format: date-time */
+      created_at: string;
+      /** @description Signs the deliveries (X-Webhook-Signature); it is never shown again */
+      secret: string;
+    };
+    WebhookDto: {
+      /** Format: uuid */
+      id: string;
+      url: string;
+      events: (
+        | 'string.created'
+        | 'string.deleted'
+        | 'string.restored'
+        | 'string.reanalyzed'
+      )[];
+      active: boolean;
+      /** Format: date-time */
+      created_at: string;
+    };
+    WebhookListDto: {
+      data: components['schemas']['WebhookDto'][];
+      count: number;
+    };
+    UpdateWebhookDto: {
+      /** @example https://example.com/hooks/strings */
+      url?: string;
+      /** @description Every event type when omitted */
+      events?: (
+        | 'string.created'
+        | 'string.deleted'
+        | 'string.restored'
+        | 'string.reanalyzed'
+      )[];
+      /** @default true */
+      active: boolean;
+    };
+    DeliveryDto: {
+      /** Format: uuid */
+      id: string;
+      /** Format: uuid */
+      webhook_id: string;
+      event_id: string;
+      /** @enum {string} */
+      event_type:
+        | 'string.created'
+        | 'string.deleted'
+        | 'string.restored'
+        | 'string.reanalyzed';
+      /** @description The body delivered */
+      payload: components['schemas']['StringEventDto'];
+      /** @enum {string} */
+      status: 'pending' | 'succeeded' | 'failed';
+      attempts: number;
+      /** Format: date-time */
+      next_attempt_at: string;
+      last_status_code: number | null;
+      last_error: string | null;
+      /** Format: date-time */
+      created_at: string;
+      /** Format: date-time */
+      delivered_at: string | null;
+    };
+    DeliveryListDto: {
+      data: components['schemas']['DeliveryDto'][];
+      count: number;
+    };
+  };
+  responses: never;
+  parameters: never;
+  requestBodies: never;
+  headers: never;
+  pathItems: never;
+}
+export type $defs = Record<string, never>;
+export interface operations {
+  listErrors: {
+    parameters: {
+      query?: never;
+      header?: never;
+      path?: never;
+      cookie?: never;
+    };
+    requestBody?: never;
+    responses: {
+      200: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/json': components['schemas']['ErrorCatalogDto'];
+        };
+      };
+      /** @description `INTERNAL_ERROR` */
+      500: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `DATABASE_UNAVAILABLE` */
+      503: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+    };
+  };
+  getError: {
+    parameters: {
+      query?: never;
+      header?: never;
+      path: {
+        code: string;
+      };
+      cookie?: never;
+    };
+    requestBody?: never;
+    responses: {
+      200: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/json': components['schemas']['ErrorDefinitionDto'];
+        };
+      };
+      /** @description `NOT_FOUND` */
+      404: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INTERNAL_ERROR` */
+      500: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `DATABASE_UNAVAILABLE` */
+      503: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+    };
+  };
+  getHealth: {
+    parameters: {
+      query?: never;
+      header?: never;
+      path?: never;
+      cookie?: never;
+    };
+    requestBody?: never;
+    responses: {
+      200: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/json': components['schemas']['LivenessDto'];
+        };
+      };
+      /** @description `INTERNAL_ERROR` */
+      500: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `DATABASE_UNAVAILABLE` */
+      503: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+    };
+  };
+  getLiveness: {
+    parameters: {
+      query?: never;
+      header?: never;
+      path?: never;
+      cookie?: never;
+    };
+    requestBody?: never;
+    responses: {
+      200: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/json': components['schemas']['LivenessDto'];
+        };
+      };
+      /** @description `INTERNAL_ERROR` */
+      500: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `DATABASE_UNAVAILABLE` */
+      503: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+    };
+  };
+  getReadiness: {
+    parameters: {
+      query?: never;
+      header?: never;
+      path?: never;
+      cookie?: never;
+    };
+    requestBody?: never;
+    responses: {
+      200: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/json': components['schemas']['ReadinessDto'];
+        };
+      };
+      /** @description `INTERNAL_ERROR` */
+      500: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `DATABASE_UNAVAILABLE`, `SERVICE_UNAVAILABLE` */
+      503: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+    };
+  };
+  getMetrics: {
+    parameters: {
+      query?: never;
+      header?: never;
+      path?: never;
+      cookie?: never;
+    };
+    requestBody?: never;
+    responses: {
+      200: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'text/plain': string;
+        };
+      };
+      /** @description `MISSING_API_KEY`, `INVALID_API_KEY` */
+      401: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INSUFFICIENT_SCOPE` */
+      403: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `RATE_LIMITED` */
+      429: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INTERNAL_ERROR` */
+      500: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `DATABASE_UNAVAILABLE` */
+      503: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+    };
+  };
+  listStrings: {
+    parameters: {
+      query?: {
+        limit?: number;
+        /** @description Offset pagination; cannot be combined with cursor */
+        page?: number;
+        /** @description next_cursor or prev_cursor of a previous response */
+        cursor?: string;
+        order?: 'asc' | 'desc';
+        sort_by?: 'created_at' | 'length' | 'word_count' | 'unique_characters';
+        /** @description Whether soft-deleted records are left out, included or the only ones */
+        deleted?: 'exclude' | 'include' | 'only';
+        /** @description Records whose average_word_length equals the value */
+        average_word_length?: number;
+        /** @description Records whose average_word_length is at least the value */
+        min_average_word_length?: number;
+        /** @description Records whose average_word_length is at most the value */
+        max_average_word_length?: number;
+        /** @description Records whose consonant_count equals the value */
+        consonant_count?: number;
+        /** @description Records whose consonant_count is at least the value */
+        min_consonant_count?: number;
+        /** @description Records whose consonant_count is at most the value */
+        max_consonant_count?: number;
+        /** @description Records whose digit_count equals the value */
+        digit_count?: number;
+        /** @description Records whose digit_count is at least the value */
+        min_digit_count?: number;
+        /** @description Records whose digit_count is at most the value */
+        max_digit_count?: number;
+        /** @description Records whose emoji_count equals the value */
+        emoji_count?: number;
+        /** @description Records whose emoji_count is at least the value */
+        min_emoji_count?: number;
+        /** @description Records whose emoji_count is at most the value */
+        max_emoji_count?: number;
+        /** @description Records whose entropy equals the value */
+        entropy?: number;
+        /** @description Records whose entropy is at least the value */
+        min_entropy?: number;
+        /** @description Records whose entropy is at most the value */
+        max_entropy?: number;
+        /** @description Records whose flesch_kincaid_grade equals the value */
+        flesch_kincaid_grade?: number;
+        /** @description Records whose flesch_kincaid_grade is at least the value */
+        min_flesch_kincaid_grade?: number;
+        /** @description Records whose flesch_kincaid_grade is at most the value */
+        max_flesch_kincaid_grade?: number;
+        /** @description Records whose flesch_reading_ease equals the value */
+        flesch_reading_ease?: number;
+        /** @description Records whose flesch_reading_ease is at least the value */
+        min_flesch_reading_ease?: number;
+        /** @description Records whose flesch_reading_ease is at most the value */
+        max_flesch_reading_ease?: number;
+        /** @description Records whose is_palindrome equals the value */
+        is_palindrome?: boolean;
+        /** @description Records whose language equals the value */
+        language?: string;
+        /** @description Records whose length equals the value */
+        length?: number;
+        /** @description Records whose length is at least the value */
+        min_length?: number;
+        /** @description Records whose length is at most the value */
+        max_length?: number;
+        /** @description Records whose longest_palindrome_length equals the value */
+        longest_palindrome_length?: number;
+        /** @description Records whose longest_palindrome_length is at least the value */
+        min_longest_palindrome_length?: number;
+        /** @description Records whose longest_palindrome_length is at most the value */
+        max_longest_palindrome_length?: number;
+        /** @description Records whose lowercase_count equals the value */
+        lowercase_count?: number;
+        /** @description Records whose lowercase_count is at least the value */
+        min_lowercase_count?: number;
+        /** @description Records whose lowercase_count is at most the value */
+        max_lowercase_count?: number;
+        /** @description Records whose punctuation_count equals the value */
+        punctuation_count?: number;
+        /** @description Records whose punctuation_count is at least the value */
+        min_punctuation_count?: number;
+        /** @description Records whose punctuation_count is at most the value */
+        max_punctuation_count?: number;
+        /** @description Records whose script equals the value */
+        script?: string;
+        /** @description Records whose sentence_count equals the value */
+        sentence_count?: number;
+        /** @description Records whose sentence_count is at least the value */
+        min_sentence_count?: number;
+        /** @description Records whose sentence_count is at most the value */
+        max_sentence_count?: number;
+        /** @description Records whose unique_characters equals the value */
+        unique_characters?: number;
+        /** @description Records whose unique_characters is at least the value */
+        min_unique_characters?: number;
+        /** @description Records whose unique_characters is at most the value */
+        max_unique_characters?: number;
+        /** @description Records whose uppercase_count equals the value */
+        uppercase_count?: number;
+        /** @description Records whose uppercase_count is at least the value */
+        min_uppercase_count?: number;
+        /** @description Records whose uppercase_count is at most the value */
+        max_uppercase_count?: number;
+        /** @description Records whose vowel_count equals the value */
+        vowel_count?: number;
+        /** @description Records whose vowel_count is at least the value */
+        min_vowel_count?: number;
+        /** @description Records whose vowel_count is at most the value */
+        max_vowel_count?: number;
+        /** @description Records whose whitespace_count equals the value */
+        whitespace_count?: number;
+        /** @description Records whose whitespace_count is at least the value */
+        min_whitespace_count?: number;
+        /** @description Records whose whitespace_count is at most the value */
+        max_whitespace_count?: number;
+        /** @description Records whose word_count equals the value */
+        word_count?: number;
+        /** @description Records whose word_count is at least the value */
+        min_word_count?: number;
+        /** @description Records whose word_count is at most the value */
+        max_word_count?: number;
+        /** @description Records containing the character, case-insensitive */
+        contains_character?: string;
+        /** @description Records carrying the tag; repeat for several, all must match */
+        tag?: string[];
+        /** @description Filter expression such as `length > 5 AND NOT is_palindrome` */
+        q?: string;
+      };
+      header?: {
+        /** @description ETag of a previous response */
+        'If-None-Match'?: string;
+        /** @description Last-Modified of a previous response */
+        'If-Modified-Since'?: string;
+      };
+      path?: never;
+      cookie?: never;
+    };
+    requestBody?: never;
+    responses: {
+      200: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/json': components['schemas']['FilteredStringPageDto'];
+        };
+      };
+      /** @description Not modified since the response the validators came from */
+      304: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content?: never;
+      };
+      /** @description `INVALID_QUERY_PARAMETER`, `INVALID_FILTER_EXPRESSION` */
+      400: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `MISSING_API_KEY`, `INVALID_API_KEY` */
+      401: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INSUFFICIENT_SCOPE` */
+      403: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `RATE_LIMITED` */
+      429: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INTERNAL_ERROR` */
+      500: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `DATABASE_UNAVAILABLE` */
+      503: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+    };
+  };
+  createString: {
+    parameters: {
+      query?: {
+        /** @description Answer 200 with { exists, data } and write nothing */
+        dry_run?: boolean;
+        /** @description Answer 200 with the stored record instead of 409 */
+        upsert?: boolean;
+      };
+      header?: never;
+      path?: never;
+      cookie?: never;
+    };
+    requestBody: {
+      content: {
+        'application/json': components['schemas']['CreateStringDto'];
+      };
+    };
+    responses: {
+      /** @description The stored record with upsert, { exists, data } with dry_run */
+      200: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/json':
+            | components['schemas']['StringRecordDto']
+            | components['schemas']['DryRunResultDto'];
+        };
+      };
+      201: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/json': components['schemas']['StringRecordDto'];
+        };
+      };
+      /** @description `INVALID_BODY`, `INVALID_QUERY_PARAMETER`, `INVALID_ANALYSIS_OPTIONS` */
+      400: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `MISSING_API_KEY`, `INVALID_API_KEY` */
+      401: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INSUFFICIENT_SCOPE` */
+      403: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `STRING_EXISTS`, `STRING_DELETED` */
+      409: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `VALUE_TOO_LARGE` */
+      413: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INVALID_VALUE_TYPE` */
+      422: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `QUOTA_EXCEEDED`, `RATE_LIMITED` */
+      429: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INTERNAL_ERROR` */
+      500: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `DATABASE_UNAVAILABLE` */
+      503: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+    };
+  };
+  deleteStrings: {
+    parameters: {
+      query?: {
+        /** @description Remove the row instead of soft deleting it */
+        permanent?: boolean;
+        /** @description Number of matching records; nothing is deleted unless it equals the actual count */
+        confirm?: number;
+        deleted?: 'exclude' | 'include' | 'only';
+        /** @description Records whose average_word_length equals the value */
+        average_word_length?: number;
+        /** @description Records whose average_word_length is at least the value */
+        min_average_word_length?: number;
+        /** @description Records whose average_word_length is at most the value */
+        max_average_word_length?: number;
+        /** @description Records whose consonant_count equals the value */
+        consonant_count?: number;
+        /** @description Records whose consonant_count is at least the value */
+        min_consonant_count?: number;
+        /** @description Records whose consonant_count is at most the value */
+        max_consonant_count?: number;
+        /** @description Records whose digit_count equals the value */
+        digit_count?: number;
+        /** @description Records whose digit_count is at least the value */
+        min_digit_count?: number;
+        /** @description Records whose digit_count is at most the value */
+        max_digit_count?: number;
+        /** @description Records whose emoji_count equals the value */
+        emoji_count?: number;
+        /** @description Records whose emoji_count is at least the value */
+        min_emoji_count?: number;
+        /** @description Records whose emoji_count is at most the value */
+        max_emoji_count?: number;
+        /** @description Records whose entropy equals the value */
+        entropy?: number;
+        /** @description Records whose entropy is at least the value */
+        min_entropy?: number;
+        /** @description Records whose entropy is at most the value */
+        max_entropy?: number;
+        /** @description Records whose flesch_kincaid_grade equals the value */
+        flesch_kincaid_grade?: number;
+        /** @description Records whose flesch_kincaid_grade is at least the value */
+        min_flesch_kincaid_grade?: number;
+        /** @description Records whose flesch_kincaid_grade is at most the value */
+        max_flesch_kincaid_grade?: number;
+        /** @description Records whose flesch_reading_ease equals the value */
+        flesch_reading_ease?: number;
+        /** @description Records whose flesch_reading_ease is at least the value */
+        min_flesch_reading_ease?: number;
+        /** @description Records whose flesch_reading_ease is at most the value */
+        max_flesch_reading_ease?: number;
+        /** @description Records whose is_palindrome equals the value */
+        is_palindrome?: boolean;
+        /** @description Records whose language equals the value */
+        language?: string;
+        /** @description Records whose length equals the value */
+        length?: number;
+        /** @description Records whose length is at least the value */
+        min_length?: number;
+        /** @description Records whose length is at most the value */
+        max_length?: number;
+        /** @description Records whose longest_palindrome_length equals the value */
+        longest_palindrome_length?: number;
+        /** @description Records whose longest_palindrome_length is at least the value */
+        min_longest_palindrome_length?: number;
+        /** @description Records whose longest_palindrome_length is at most the value */
+        max_longest_palindrome_length?: number;
+        /** @description Records whose lowercase_count equals the value */
+        lowercase_count?: number;
+        /** @description Records whose lowercase_count is at least the value */
+        min_lowercase_count?: number;
+        /** @description Records whose lowercase_count is at most the value */
+        max_lowercase_count?: number;
+        /** @description Records whose punctuation_count equals the value */
+        punctuation_count?: number;
+        /** @description Records whose punctuation_count is at least the value */
+        min_punctuation_count?: number;
+        /** @description Records whose punctuation_count is at most the value */
+        max_punctuation_count?: number;
+        /** @description Records whose script equals the value */
+        script?: string;
+        /** @description Records whose sentence_count equals the value */
+        sentence_count?: number;
+        /** @description Records whose sentence_count is at least the value */
+        min_sentence_count?: number;
+        /** @description Records whose sentence_count is at most the value */
+        max_sentence_count?: number;
+        /** @description Records whose unique_characters equals the value */
+        unique_characters?: number;
+        /** @description Records whose unique_characters is at least the value */
+        min_unique_characters?: number;
+        /** @description Records whose unique_characters is at most the value */
+        max_unique_characters?: number;
+        /** @description Records whose uppercase_count equals the value */
+        uppercase_count?: number;
+        /** @description Records whose uppercase_count is at least the value */
+        min_uppercase_count?: number;
+        /** @description Records whose uppercase_count is at most the value */
+        max_uppercase_count?: number;
+        /** @description Records whose vowel_count equals the value */
+        vowel_count?: number;
+        /** @description Records whose vowel_count is at least the value */
+        min_vowel_count?: number;
+        /** @description Records whose vowel_count is at most the value */
+        max_vowel_count?: number;
+        /** @description Records whose whitespace_count equals the value */
+        whitespace_count?: number;
+        /** @description Records whose whitespace_count is at least the value */
+        min_whitespace_count?: number;
+        /** @description Records whose whitespace_count is at most the value */
+        max_whitespace_count?: number;
+        /** @description Records whose word_count equals the value */
+        word_count?: number;
+        /** @description Records whose word_count is at least the value */
+        min_word_count?: number;
+        /** @description Records whose word_count is at most the value */
+        max_word_count?: number;
+        /** @description Records containing the character, case-insensitive */
+        contains_character?: string;
+        /** @description Records carrying the tag; repeat for several, all must match */
+        tag?: string[];
+        /** @description Filter expression such as `length > 5 AND NOT is_palindrome` */
+        q?: string;
+      };
+      header?: never;
+      path?: never;
+      cookie?: never;
+    };
+    requestBody?: never;
+    responses: {
+      200: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/json': components['schemas']['BulkDeleteResultDto'];
+        };
+      };
+      /** @description `INVALID_QUERY_PARAMETER`, `INVALID_FILTER_EXPRESSION`, `FILTER_REQUIRED` */
+      400: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `MISSING_API_KEY`, `INVALID_API_KEY` */
+      401: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INSUFFICIENT_SCOPE` */
+      403: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `DELETE_NOT_CONFIRMED` */
+      409: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `RATE_LIMITED` */
+      429: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INTERNAL_ERROR` */
+      500: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `DATABASE_UNAVAILABLE` */
+      503: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+    };
+  };
+  listStringsInCollection: {
+    parameters: {
+      query?: {
+        limit?: number;
+        /** @description Offset pagination; cannot be combined with cursor */
+        page?: number;
+        /** @description next_cursor or prev_cursor of a previous response */
+        cursor?: string;
+        order?: 'asc' | 'desc';
+        sort_by?: 'created_at' | 'length' | 'word_count' | 'unique_characters';
+        /** @description Whether soft-deleted records are left out, included or the only ones */
+        deleted?: 'exclude' | 'include' | 'only';
+        /** @description Records whose average_word_length equals the value */
+        average_word_length?: number;
+        /** @description Records whose average_word_length is at least the value */
+        min_average_word_length?: number;
+        /** @description Records whose average_word_length is at most the value */
+        max_average_word_length?: number;
+        /** @description Records whose consonant_count equals the value */
+        consonant_count?: number;
+        /** @description Records whose consonant_count is at least the value */
+        min_consonant_count?: number;
+        /** @description Records whose consonant_count is at most the value */
+        max_consonant_count?: number;
+        /** @description Records whose digit_count equals the value */
+        digit_count?: number;
+        /** @description Records whose digit_count is at least the value */
+        min_digit_count?: number;
+        /** @description Records whose digit_count is at most the value */
+        max_digit_count?: number;
+        /** @description Records whose emoji_count equals the value */
+        emoji_count?: number;
+        /** @description Records whose emoji_count is at least the value */
+        min_emoji_count?: number;
+        /** @description Records whose emoji_count is at most the value */
+        max_emoji_count?: number;
+        /** @description Records whose entropy equals the value */
+        entropy?: number;
+        /** @description Records whose entropy is at least the value */
+        min_entropy?: number;
+        /** @description Records whose entropy is at most the value */
+        max_entropy?: number;
+        /** @description Records whose flesch_kincaid_grade equals the value */
+        flesch_kincaid_grade?: number;
+        /** @description Records whose flesch_kincaid_grade is at least the value */
+        min_flesch_kincaid_grade?: number;
+        /** @description Records whose flesch_kincaid_grade is at most the value */
+        max_flesch_kincaid_grade?: number;
+        /** @description Records whose flesch_reading_ease equals the value */
+        flesch_reading_ease?: number;
+        /** @description Records whose flesch_reading_ease is at least the value */
+        min_flesch_reading_ease?: number;
+        /** @description Records whose flesch_reading_ease is at most the value */
+        max_flesch_reading_ease?: number;
+        /** @description Records whose is_palindrome equals the value */
+        is_palindrome?: boolean;
+        /** @description Records whose language equals the value */
+        language?: string;
+        /** @description Records whose length equals the value */
+        length?: number;
+        /** @description Records whose length is at least the value */
+        min_length?: number;
+        /** @description Records whose length is at most the value */
+        max_length?: number;
+        /** @description Records whose longest_palindrome_length equals the value */
+        longest_palindrome_length?: number;
+        /** @description Records whose longest_palindrome_length is at least the value */
+        min_longest_palindrome_length?: number;
+        /** @description Records whose longest_palindrome_length is at most the value */
+        max_longest_palindrome_length?: number;
+        /** @description Records whose lowercase_count equals the value */
+        lowercase_count?: number;
+        /** @description Records whose lowercase_count is at least the value */
+        min_lowercase_count?: number;
+        /** @description Records whose lowercase_count is at most the value */
+        max_lowercase_count?: number;
+        /** @description Records whose punctuation_count equals the value */
+        punctuation_count?: number;
+        /** @description Records whose punctuation_count is at least the value */
+        min_punctuation_count?: number;
+        /** @description Records whose punctuation_count is at most the value */
+        max_punctuation_count?: number;
+        /** @description Records whose script equals the value */
+        script?: string;
+        /** @description Records whose sentence_count equals the value */
+        sentence_count?: number;
+        /** @description Records whose sentence_count is at least the value */
+        min_sentence_count?: number;
+        /** @description Records whose sentence_count is at most the value */
+        max_sentence_count?: number;
+        /** @description Records whose unique_characters equals the value */
+        unique_characters?: number;
+        /** @description Records whose unique_characters is at least the value */
+        min_unique_characters?: number;
+        /** @description Records whose unique_characters is at most the value */
+        max_unique_characters?: number;
+        /** @description Records whose uppercase_count equals the value */
+        uppercase_count?: number;
+        /** @description Records whose uppercase_count is at least the value */
+        min_uppercase_count?: number;
+        /** @description Records whose uppercase_count is at most the value */
+        max_uppercase_count?: number;
+        /** @description Records whose vowel_count equals the value */
+        vowel_count?: number;
+        /** @description Records whose vowel_count is at least the value */
+        min_vowel_count?: number;
+        /** @description Records whose vowel_count is at most the value */
+        max_vowel_count?: number;
+        /** @description Records whose whitespace_count equals the value */
+        whitespace_count?: number;
+        /** @description Records whose whitespace_count is at least the value */
+        min_whitespace_count?: number;
+        /** @description Records whose whitespace_count is at most the value */
+        max_whitespace_count?: number;
+        /** @description Records whose word_count equals the value */
+        word_count?: number;
+        /** @description Records whose word_count is at least the value */
+        min_word_count?: number;
+        /** @description Records whose word_count is at most the value */
+        max_word_count?: number;
+        /** @description Records containing the character, case-insensitive */
+        contains_character?: string;
+        /** @description Records carrying the tag; repeat for several, all must match */
+        tag?: string[];
+        /** @description Filter expression such as `length > 5 AND NOT is_palindrome` */
+        q?: string;
+      };
+      header?: {
+        /** @description ETag of a previous response */
+        'If-None-Match'?: string;
+        /** @description Last-Modified of a previous response */
+        'If-Modified-Since'?: string;
+      };
+      path: {
+        collection: string;
+      };
+      cookie?: never;
+    };
+    requestBody?: never;
+    responses: {
+      200: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/json': components['schemas']['FilteredStringPageDto'];
+        };
+      };
+      /** @description Not modified since the response the validators came from */
+      304: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content?: never;
+      };
+      /** @description `INVALID_QUERY_PARAMETER`, `INVALID_FILTER_EXPRESSION`, `INVALID_COLLECTION_NAME` */
+      400: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `MISSING_API_KEY`, `INVALID_API_KEY` */
+      401: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INSUFFICIENT_SCOPE` */
+      403: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `RATE_LIMITED` */
+      429: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INTERNAL_ERROR` */
+      500: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `DATABASE_UNAVAILABLE` */
+      503: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+    };
+  };
+  createStringInCollection: {
+    parameters: {
+      query?: {
+        /** @description Answer 200 with { exists, data } and write nothing */
+        dry_run?: boolean;
+        /** @description Answer 200 with the stored record instead of 409 */
+        upsert?: boolean;
+      };
+      header?: never;
+      path: {
+        collection: string;
+      };
+      cookie?: never;
+    };
+    requestBody: {
+      content: {
+        'application/json': components['schemas']['CreateStringDto'];
+      };
+    };
+    responses: {
+      /** @description The stored record with upsert, { exists, data } with dry_run */
+      200: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/json':
+            | components['schemas']['StringRecordDto']
+            | components['schemas']['DryRunResultDto'];
+        };
+      };
+      201: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/json': components['schemas']['StringRecordDto'];
+        };
+      };
+      /** @description `INVALID_BODY`, `INVALID_QUERY_PARAMETER`, `INVALID_ANALYSIS_OPTIONS`, `INVALID_COLLECTION_NAME` */
+      400: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `MISSING_API_KEY`, `INVALID_API_KEY` */
+      401: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INSUFFICIENT_SCOPE` */
+      403: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `STRING_EXISTS`, `STRING_DELETED` */
+      409: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `VALUE_TOO_LARGE` */
+      413: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INVALID_VALUE_TYPE` */
+      422: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `QUOTA_EXCEEDED`, `RATE_LIMITED` */
+      429: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INTERNAL_ERROR` */
+      500: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `DATABASE_UNAVAILABLE` */
+      503: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+    };
+  };
+  deleteStringsInCollection: {
+    parameters: {
+      query?: {
+        /** @description Remove the row instead of soft deleting it */
+        permanent?: boolean;
+        /** @description Number of matching records; nothing is deleted unless it equals the actual count */
+        confirm?: number;
+        deleted?: 'exclude' | 'include' | 'only';
+        /** @description Records whose average_word_length equals the value */
+        average_word_length?: number;
+        /** @description Records whose average_word_length is at least the value */
+        min_average_word_length?: number;
+        /** @description Records whose average_word_length is at most the value */
+        max_average_word_length?: number;
+        /** @description Records whose consonant_count equals the value */
+        consonant_count?: number;
+        /** @description Records whose consonant_count is at least the value */
+        min_consonant_count?: number;
+        /** @description Records whose consonant_count is at most the value */
+        max_consonant_count?: number;
+        /** @description Records whose digit_count equals the value */
+        digit_count?: number;
+        /** @description Records whose digit_count is at least the value */
+        min_digit_count?: number;
+        /** @description Records whose digit_count is at most the value */
+        max_digit_count?: number;
+        /** @description Records whose emoji_count equals the value */
+        emoji_count?: number;
+        /** @description Records whose emoji_count is at least the value */
+        min_emoji_count?: number;
+        /** @description Records whose emoji_count is at most the value */
+        max_emoji_count?: number;
+        /** @description Records whose entropy equals the value */
+        entropy?: number;
+        /** @description Records whose entropy is at least the value */
+        min_entropy?: number;
+        /** @description Records whose entropy is at most the value */
+        max_entropy?: number;
+        /** @description Records whose flesch_kincaid_grade equals the value */
+        flesch_kincaid_grade?: number;
+        /** @description Records whose flesch_kincaid_grade is at least the value */
+        min_flesch_kincaid_grade?: number;
+        /** @description Records whose flesch_kincaid_grade is at most the value */
+        max_flesch_kincaid_grade?: number;
+        /** @description Records whose flesch_reading_ease equals the value */
+        flesch_reading_ease?: number;
+        /** @description Records whose flesch_reading_ease is at least the value */
+        min_flesch_reading_ease?: number;
+        /** @description Records whose flesch_reading_ease is at most the value */
+        max_flesch_reading_ease?: number;
+        /** @description Records whose is_palindrome equals the value */
+        is_palindrome?: boolean;
+        /** @description Records whose language equals the value */
+        language?: string;
+        /** @description Records whose length equals the value */
+        length?: number;
+        /** @description Records whose length is at least the value */
+        min_length?: number;
+        /** @description Records whose length is at most the value */
+        max_length?: number;
+        /** @description Records whose longest_palindrome_length equals the value */
+        longest_palindrome_length?: number;
+        /** @description Records whose longest_palindrome_length is at least the value */
+        min_longest_palindrome_length?: number;
+        /** @description Records whose longest_palindrome_length is at most the value */
+        max_longest_palindrome_length?: number;
+        /** @description Records whose lowercase_count equals the value */
+        lowercase_count?: number;
+        /** @description Records whose lowercase_count is at least the value */
+        min_lowercase_count?: number;
+        /** @description Records whose lowercase_count is at most the value */
+        max_lowercase_count?: number;
+        /** @description Records whose punctuation_count equals the value */
+        punctuation_count?: number;
+        /** @description Records whose punctuation_count is at least the value */
+        min_punctuation_count?: number;
+        /** @description Records whose punctuation_count is at most the value */
+        max_punctuation_count?: number;
+        /** @description Records whose script equals the value */
+        script?: string;
+        /** @description Records whose sentence_count equals the value */
+        sentence_count?: number;
+        /** @description Records whose sentence_count is at least the value */
+        min_sentence_count?: number;
+        /** @description Records whose sentence_count is at most the value */
+        max_sentence_count?: number;
+        /** @description Records whose unique_characters equals the value */
+        unique_characters?: number;
+        /** @description Records whose unique_characters is at least the value */
+        min_unique_characters?: number;
+        /** @description Records whose unique_characters is at most the value */
+        max_unique_characters?: number;
+        /** @description Records whose uppercase_count equals the value */
+        uppercase_count?: number;
+        /** @description Records whose uppercase_count is at least the value */
+        min_uppercase_count?: number;
+        /** @description Records whose uppercase_count is at most the value */
+        max_uppercase_count?: number;
+        /** @description Records whose vowel_count equals the value */
+        vowel_count?: number;
+        /** @description Records whose vowel_count is at least the value */
+        min_vowel_count?: number;
+        /** @description Records whose vowel_count is at most the value */
+        max_vowel_count?: number;
+        /** @description Records whose whitespace_count equals the value */
+        whitespace_count?: number;
+        /** @description Records whose whitespace_count is at least the value */
+        min_whitespace_count?: number;
+        /** @description Records whose whitespace_count is at most the value */
+        max_whitespace_count?: number;
+        /** @description Records whose word_count equals the value */
+        word_count?: number;
+        /** @description Records whose word_count is at least the value */
+        min_word_count?: number;
+        /** @description Records whose word_count is at most the value */
+        max_word_count?: number;
+        /** @description Records containing the character, case-insensitive */
+        contains_character?: string;
+        /** @description Records carrying the tag; repeat for several, all must match */
+        tag?: string[];
+        /** @description Filter expression such as `length > 5 AND NOT is_palindrome` */
+        q?: string;
+      };
+      header?: never;
+      path: {
+        collection: string;
+      };
+      cookie?: never;
+    };
+    requestBody?: never;
+    responses: {
+      200: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/json': components['schemas']['BulkDeleteResultDto'];
+        };
+      };
+      /** @description `INVALID_QUERY_PARAMETER`, `INVALID_FILTER_EXPRESSION`, `FILTER_REQUIRED`, `INVALID_COLLECTION_NAME` */
+      400: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `MISSING_API_KEY`, `INVALID_API_KEY` */
+      401: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INSUFFICIENT_SCOPE` */
+      403: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `DELETE_NOT_CONFIRMED` */
+      409: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `RATE_LIMITED` */
+      429: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INTERNAL_ERROR` */
+      500: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `DATABASE_UNAVAILABLE` */
+      503: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+    };
+  };
+  analyzeString: {
+    parameters: {
+      query?: never;
+      header?: never;
+      path?: never;
+      cookie?: never;
+    };
+    requestBody: {
+      content: {
+        'application/json': components['schemas']['AnalyzeStringDto'];
+      };
+    };
+    responses: {
+      200: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/json': components['schemas']['AnalysisPreviewDto'];
+        };
+      };
+      /** @description `INVALID_BODY`, `INVALID_ANALYSIS_OPTIONS` */
+      400: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `MISSING_API_KEY`, `INVALID_API_KEY` */
+      401: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INSUFFICIENT_SCOPE` */
+      403: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `VALUE_TOO_LARGE` */
+      413: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INVALID_VALUE_TYPE` */
+      422: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `QUOTA_EXCEEDED`, `RATE_LIMITED` */
+      429: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INTERNAL_ERROR` */
+      500: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `DATABASE_UNAVAILABLE` */
+      503: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+    };
+  };
+  analyzeStringInCollection: {
+    parameters: {
+      query?: never;
+      header?: never;
+      path: {
+        collection: string;
+      };
+      cookie?: never;
+    };
+    requestBody: {
+      content: {
+        'application/json': components['schemas']['AnalyzeStringDto'];
+      };
+    };
+    responses: {
+      200: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/json': components['schemas']['AnalysisPreviewDto'];
+        };
+      };
+      /** @description `INVALID_BODY`, `INVALID_ANALYSIS_OPTIONS`, `INVALID_COLLECTION_NAME` */
+      400: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `MISSING_API_KEY`, `INVALID_API_KEY` */
+      401: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INSUFFICIENT_SCOPE` */
+      403: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `VALUE_TOO_LARGE` */
+      413: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INVALID_VALUE_TYPE` */
+      422: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `QUOTA_EXCEEDED`, `RATE_LIMITED` */
+      429: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INTERNAL_ERROR` */
+      500: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `DATABASE_UNAVAILABLE` */
+      503: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+    };
+  };
+  analyzeBatch: {
+    parameters: {
+      query?: never;
+      header?: never;
+      path?: never;
+      cookie?: never;
+    };
+    requestBody: {
+      content: {
+        'application/json': components['schemas']['AnalyzeBatchDto'];
+      };
+    };
+    responses: {
+      200: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/json': components['schemas']['BatchResultDto'];
+        };
+      };
+      /** @description `INVALID_BODY`, `INVALID_ANALYSIS_OPTIONS`, `BATCH_TOO_LARGE` */
+      400: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `MISSING_API_KEY`, `INVALID_API_KEY` */
+      401: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INSUFFICIENT_SCOPE` */
+      403: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `STRING_EXISTS` */
+      409: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `QUOTA_EXCEEDED`, `RATE_LIMITED` */
+      429: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INTERNAL_ERROR` */
+      500: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `DATABASE_UNAVAILABLE` */
+      503: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+    };
+  };
+  analyzeBatchInCollection: {
+    parameters: {
+      query?: never;
+      header?: never;
+      path: {
+        collection: string;
+      };
+      cookie?: never;
+    };
+    requestBody: {
+      content: {
+        'application/json': components['schemas']['AnalyzeBatchDto'];
+      };
+    };
+    responses: {
+      200: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/json': components['schemas']['BatchResultDto'];
+        };
+      };
+      /** @description `INVALID_BODY`, `INVALID_ANALYSIS_OPTIONS`, `BATCH_TOO_LARGE`, `INVALID_COLLECTION_NAME` */
+      400: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `MISSING_API_KEY`, `INVALID_API_KEY` */
+      401: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INSUFFICIENT_SCOPE` */
+      403: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `STRING_EXISTS` */
+      409: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `QUOTA_EXCEEDED`, `RATE_LIMITED` */
+      429: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INTERNAL_ERROR` */
+      500: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `DATABASE_UNAVAILABLE` */
+      503: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+    };
+  };
+  filterByNaturalLanguage: {
+    parameters: {
+      query: {
+        limit?: number;
+        /** @description Offset pagination; cannot be combined with cursor */
+        page?: number;
+        /** @description next_cursor or prev_cursor of a previous response */
+        cursor?: string;
+        order?: 'asc' | 'desc';
+        sort_by?: 'created_at' | 'length' | 'word_count' | 'unique_characters';
+        query: string;
+      };
+      header?: never;
+      path?: never;
+      cookie?: never;
+    };
+    requestBody?: never;
+    responses: {
+      200: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/json': components['schemas']['NaturalLanguageResultDto'];
+        };
+      };
+      /** @description `INVALID_QUERY_PARAMETER`, `UNPARSEABLE_QUERY` */
+      400: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `MISSING_API_KEY`, `INVALID_API_KEY` */
+      401: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INSUFFICIENT_SCOPE` */
+      403: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `CONFLICTING_FILTERS` */
+      422: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `RATE_LIMITED` */
+      429: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INTERNAL_ERROR` */
+      500: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `DATABASE_UNAVAILABLE` */
+      503: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+    };
+  };
+  filterByNaturalLanguageInCollection: {
+    parameters: {
+      query: {
+        limit?: number;
+        /** @description Offset pagination; cannot be combined with cursor */
+        page?: number;
+        /** @description next_cursor or prev_cursor of a previous response */
+        cursor?: string;
+        order?: 'asc' | 'desc';
+        sort_by?: 'created_at' | 'length' | 'word_count' | 'unique_characters';
+        query: string;
+      };
+      header?: never;
+      path: {
+        collection: string;
+      };
+      cookie?: never;
+    };
+    requestBody?: never;
+    responses: {
+      200: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/json': components['schemas']['NaturalLanguageResultDto'];
+        };
+      };
+      /** @description `INVALID_QUERY_PARAMETER`, `UNPARSEABLE_QUERY`, `INVALID_COLLECTION_NAME` */
+      400: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `MISSING_API_KEY`, `INVALID_API_KEY` */
+      401: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INSUFFICIENT_SCOPE` */
+      403: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `CONFLICTING_FILTERS` */
+      422: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `RATE_LIMITED` */
+      429: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INTERNAL_ERROR` */
+      500: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `DATABASE_UNAVAILABLE` */
+      503: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+    };
+  };
+  searchStrings: {
+    parameters: {
+      query?: {
+        /** @description Search term, required by every mode but regex */
+        q?: string;
+        /** @description Regular expression, required by the regex mode */
+        pattern?: string;
+        limit?: number;
+        case_sensitive?: boolean;
+        /** @description Fuzzy mode only */
+        max_distance?: number;
+      };
+      header?: never;
+      path: {
+        mode: 'substring' | 'prefix' | 'suffix' | 'fuzzy' | 'regex';
+      };
+      cookie?: never;
+    };
+    requestBody?: never;
+    responses: {
+      200: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/json': components['schemas']['SearchResultDto'];
+        };
+      };
+      /** @description `INVALID_QUERY_PARAMETER`, `INVALID_REGEX` */
+      400: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `MISSING_API_KEY`, `INVALID_API_KEY` */
+      401: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INSUFFICIENT_SCOPE` */
+      403: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `SEARCH_MODE_NOT_FOUND` */
+      404: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `SEARCH_TIMEOUT` */
+      422: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `RATE_LIMITED` */
+      429: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INTERNAL_ERROR` */
+      500: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `POSTGRES_REQUIRED` */
+      501: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `DATABASE_UNAVAILABLE` */
+      503: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+    };
+  };
+  searchStringsInCollection: {
+    parameters: {
+      query?: {
+        /** @description Search term, required by every mode but regex */
+        q?: string;
+        /** @description Regular expression, required by the regex mode */
+        pattern?: string;
+        limit?: number;
+        case_sensitive?: boolean;
+        /** @description Fuzzy mode only */
+        max_distance?: number;
+      };
+      header?: never;
+      path: {
+        collection: string;
+        mode: 'substring' | 'prefix' | 'suffix' | 'fuzzy' | 'regex';
+      };
+      cookie?: never;
+    };
+    requestBody?: never;
+    responses: {
+      200: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/json': components['schemas']['SearchResultDto'];
+        };
+      };
+      /** @description `INVALID_QUERY_PARAMETER`, `INVALID_REGEX`, `INVALID_COLLECTION_NAME` */
+      400: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `MISSING_API_KEY`, `INVALID_API_KEY` */
+      401: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INSUFFICIENT_SCOPE` */
+      403: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `SEARCH_MODE_NOT_FOUND` */
+      404: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `SEARCH_TIMEOUT` */
+      422: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `RATE_LIMITED` */
+      429: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INTERNAL_ERROR` */
+      500: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `POSTGRES_REQUIRED` */
+      501: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `DATABASE_UNAVAILABLE` */
+      503: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+    };
+  };
+  getStats: {
+    parameters: {
+      query?: {
+        /** @description Histogram buckets per field */
+        buckets?: number;
+        /** @description Comma separated, 0-100, at most 20 */
+        percentiles?: string;
+        /** @description Size of the character frequency table */
+        top_characters?: number;
+        /** @description Records whose average_word_length equals the value */
+        average_word_length?: number;
+        /** @description Records whose average_word_length is at least the value */
+        min_average_word_length?: number;
+        /** @description Records whose average_word_length is at most the value */
+        max_average_word_length?: number;
+        /** @description Records whose consonant_count equals the value */
+        consonant_count?: number;
+        /** @description Records whose consonant_count is at least the value */
+        min_consonant_count?: number;
+        /** @description Records whose consonant_count is at most the value */
+        max_consonant_count?: number;
+        /** @description Records whose digit_count equals the value */
+        digit_count?: number;
+        /** @description Records whose digit_count is at least the value */
+        min_digit_count?: number;
+        /** @description Records whose digit_count is at most the value */
+        max_digit_count?: number;
+        /** @description Records whose emoji_count equals the value */
+        emoji_count?: number;
+        /** @description Records whose emoji_count is at least the value */
+        min_emoji_count?: number;
+        /** @description Records whose emoji_count is at most the value */
+        max_emoji_count?: number;
+        /** @description Records whose entropy equals the value */
+        entropy?: number;
+        /** @description Records whose entropy is at least the value */
+        min_entropy?: number;
+        /** @description Records whose entropy is at most the value */
+        max_entropy?: number;
+        /** @description Records whose flesch_kincaid_grade equals the value */
+        flesch_kincaid_grade?: number;
+        /** @description Records whose flesch_kincaid_grade is at least the value */
+        min_flesch_kincaid_grade?: number;
+        /** @description Records whose flesch_kincaid_grade is at most the value */
+        max_flesch_kincaid_grade?: number;
+        /** @description Records whose flesch_reading_ease equals the value */
+        flesch_reading_ease?: number;
+        /** @description Records whose flesch_reading_ease is at least the value */
+        min_flesch_reading_ease?: number;
+        /** @description Records whose flesch_reading_ease is at most the value */
+        max_flesch_reading_ease?: number;
+        /** @description Records whose is_palindrome equals the value */
+        is_palindrome?: boolean;
+        /** @description Records whose language equals the value */
+        language?: string;
+        /** @description Records whose length equals the value */
+        length?: number;
+        /** @description Records whose length is at least the value */
+        min_length?: number;
+        /** @description Records whose length is at most the value */
+        max_length?: number;
+        /** @description Records whose longest_palindrome_length equals the value */
+        longest_palindrome_length?: number;
+        /** @description Records whose longest_palindrome_length is at least the value */
+        min_longest_palindrome_length?: number;
+        /** @description Records whose longest_palindrome_length is at most the value */
+        max_longest_palindrome_length?: number;
+        /** @description Records whose lowercase_count equals the value */
+        lowercase_count?: number;
+        /** @description Records whose lowercase_count is at least the value */
+        min_lowercase_count?: number;
+        /** @description Records whose lowercase_count is at most the value */
+        max_lowercase_count?: number;
+        /** @description Records whose punctuation_count equals the value */
+        punctuation_count?: number;
+        /** @description Records whose punctuation_count is at least the value */
+        min_punctuation_count?: number;
+        /** @description Records whose punctuation_count is at most the value */
+        max_punctuation_count?: number;
+        /** @description Records whose script equals the value */
+        script?: string;
+        /** @description Records whose sentence_count equals the value */
+        sentence_count?: number;
+        /** @description Records whose sentence_count is at least the value */
+        min_sentence_count?: number;
+        /** @description Records whose sentence_count is at most the value */
+        max_sentence_count?: number;
+        /** @description Records whose unique_characters equals the value */
+        unique_characters?: number;
+        /** @description Records whose unique_characters is at least the value */
+        min_unique_characters?: number;
+        /** @description Records whose unique_characters is at most the value */
+        max_unique_characters?: number;
+        /** @description Records whose uppercase_count equals the value */
+        uppercase_count?: number;
+        /** @description Records whose uppercase_count is at least the value */
+        min_uppercase_count?: number;
+        /** @description Records whose uppercase_count is at most the value */
+        max_uppercase_count?: number;
+        /** @description Records whose vowel_count equals the value */
+        vowel_count?: number;
+        /** @description Records whose vowel_count is at least the value */
+        min_vowel_count?: number;
+        /** @description Records whose vowel_count is at most the value */
+        max_vowel_count?: number;
+        /** @description Records whose whitespace_count equals the value */
+        whitespace_count?: number;
+        /** @description Records whose whitespace_count is at least the value */
+        min_whitespace_count?: number;
+        /** @description Records whose whitespace_count is at most the value */
+        max_whitespace_count?: number;
+        /** @description Records whose word_count equals the value */
+        word_count?: number;
+        /** @description Records whose word_count is at least the value */
+        min_word_count?: number;
+        /** @description Records whose word_count is at most the value */
+        max_word_count?: number;
+        /** @description Records containing the character, case-insensitive */
+        contains_character?: string;
+        /** @description Records carrying the tag; repeat for several, all must match */
+        tag?: string[];
+        /** @description Filter expression such as `length > 5 AND NOT is_palindrome` */
+        q?: string;
+      };
+      header?: {
+        /** @description ETag of a previous response */
+        'If-None-Match'?: string;
+        /** @description Last-Modified of a previous response */
+        'If-Modified-Since'?: string;
+      };
+      path?: never;
+      cookie?: never;
+    };
+    requestBody?: never;
+    responses: {
+      200: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/json': components['schemas']['StatsDto'];
+        };
+      };
+      /** @description Not modified since the response the validators came from */
+      304: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content?: never;
+      };
+      /** @description `INVALID_QUERY_PARAMETER`, `INVALID_FILTER_EXPRESSION` */
+      400: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `MISSING_API_KEY`, `INVALID_API_KEY` */
+      401: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INSUFFICIENT_SCOPE` */
+      403: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `RATE_LIMITED` */
+      429: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INTERNAL_ERROR` */
+      500: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `POSTGRES_REQUIRED` */
+      501: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `DATABASE_UNAVAILABLE` */
+      503: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+    };
+  };
+  getStatsInCollection: {
+    parameters: {
+      query?: {
+        /** @description Histogram buckets per field */
+        buckets?: number;
+        /** @description Comma separated, 0-100, at most 20 */
+        percentiles?: string;
+        /** @description Size of the character frequency table */
+        top_characters?: number;
+        /** @description Records whose average_word_length equals the value */
+        average_word_length?: number;
+        /** @description Records whose average_word_length is at least the value */
+        min_average_word_length?: number;
+        /** @description Records whose average_word_length is at most the value */
+        max_average_word_length?: number;
+        /** @description Records whose consonant_count equals the value */
+        consonant_count?: number;
+        /** @description Records whose consonant_count is at least the value */
+        min_consonant_count?: number;
+        /** @description Records whose consonant_count is at most the value */
+        max_consonant_count?: number;
+        /** @description Records whose digit_count equals the value */
+        digit_count?: number;
+        /** @description Records whose digit_count is at least the value */
+        min_digit_count?: number;
+        /** @description Records whose digit_count is at most the value */
+        max_digit_count?: number;
+        /** @description Records whose emoji_count equals the value */
+        emoji_count?: number;
+        /** @description Records whose emoji_count is at least the value */
+        min_emoji_count?: number;
+        /** @description Records whose emoji_count is at most the value */
+        max_emoji_count?: number;
+        /** @description Records whose entropy equals the value */
+        entropy?: number;
+        /** @description Records whose entropy is at least the value */
+        min_entropy?: number;
+        /** @description Records whose entropy is at most the value */
+        max_entropy?: number;
+        /** @description Records whose flesch_kincaid_grade equals the value */
+        flesch_kincaid_grade?: number;
+        /** @description Records whose flesch_kincaid_grade is at least the value */
+        min_flesch_kincaid_grade?: number;
+        /** @description Records whose flesch_kincaid_grade is at most the value */
+        max_flesch_kincaid_grade?: number;
+        /** @description Records whose flesch_reading_ease equals the value */
+        flesch_reading_ease?: number;
+        /** @description Records whose flesch_reading_ease is at least the value */
+        min_flesch_reading_ease?: number;
+        /** @description Records whose flesch_reading_ease is at most the value */
+        max_flesch_reading_ease?: number;
+        /** @description Records whose is_palindrome equals the value */
+        is_palindrome?: boolean;
+        /** @description Records whose language equals the value */
+        language?: string;
+        /** @description Records whose length equals the value */
+        length?: number;
+        /** @description Records whose length is at least the value */
+        min_length?: number;
+        /** @description Records whose length is at most the value */
+        max_length?: number;
+        /** @description Records whose longest_palindrome_length equals the value */
+        longest_palindrome_length?: number;
+        /** @description Records whose longest_palindrome_length is at least the value */
+        min_longest_palindrome_length?: number;
+        /** @description Records whose longest_palindrome_length is at most the value */
+        max_longest_palindrome_length?: number;
+        /** @description Records whose lowercase_count equals the value */
+        lowercase_count?: number;
+        /** @description Records whose lowercase_count is at least the value */
+        min_lowercase_count?: number;
+        /** @description Records whose lowercase_count is at most the value */
+        max_lowercase_count?: number;
+        /** @description Records whose punctuation_count equals the value */
+        punctuation_count?: number;
+        /** @description Records whose punctuation_count is at least the value */
+        min_punctuation_count?: number;
+        /** @description Records whose punctuation_count is at most the value */
+        max_punctuation_count?: number;
+        /** @description Records whose script equals the value */
+        script?: string;
+        /** @description Records whose sentence_count equals the value */
+        sentence_count?: number;
+        /** @description Records whose sentence_count is at least the value */
+        min_sentence_count?: number;
+        /** @description Records whose sentence_count is at most the value */
+        max_sentence_count?: number;
+        /** @description Records whose unique_characters equals the value */
+        unique_characters?: number;
+        /** @description Records whose unique_characters is at least the value */
+        min_unique_characters?: number;
+        /** @description Records whose unique_characters is at most the value */
+        max_unique_characters?: number;
+        /** @description Records whose uppercase_count equals the value */
+        uppercase_count?: number;
+        /** @description Records whose uppercase_count is at least the value */
+        min_uppercase_count?: number;
+        /** @description Records whose uppercase_count is at most the value */
+        max_uppercase_count?: number;
+        /** @description Records whose vowel_count equals the value */
+        vowel_count?: number;
+        /** @description Records whose vowel_count is at least the value */
+        min_vowel_count?: number;
+        /** @description Records whose vowel_count is at most the value */
+        max_vowel_count?: number;
+        /** @description Records whose whitespace_count equals the value */
+        whitespace_count?: number;
+        /** @description Records whose whitespace_count is at least the value */
+        min_whitespace_count?: number;
+        /** @description Records whose whitespace_count is at most the value */
+        max_whitespace_count?: number;
+        /** @description Records whose word_count equals the value */
+        word_count?: number;
+        /** @description Records whose word_count is at least the value */
+        min_word_count?: number;
+        /** @description Records whose word_count is at most the value */
+        max_word_count?: number;
+        /** @description Records containing the character, case-insensitive */
+        contains_character?: string;
+        /** @description Records carrying the tag; repeat for several, all must match */
+        tag?: string[];
+        /** @description Filter expression such as `length > 5 AND NOT is_palindrome` */
+        q?: string;
+      };
+      header?: {
+        /** @description ETag of a previous response */
+        'If-None-Match'?: string;
+        /** @description Last-Modified of a previous response */
+        'If-Modified-Since'?: string;
+      };
+      path: {
+        collection: string;
+      };
+      cookie?: never;
+    };
+    requestBody?: never;
+    responses: {
+      200: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/json': components['schemas']['StatsDto'];
+        };
+      };
+      /** @description Not modified since the response the validators came from */
+      304: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content?: never;
+      };
+      /** @description `INVALID_QUERY_PARAMETER`, `INVALID_FILTER_EXPRESSION`, `INVALID_COLLECTION_NAME` */
+      400: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `MISSING_API_KEY`, `INVALID_API_KEY` */
+      401: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INSUFFICIENT_SCOPE` */
+      403: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `RATE_LIMITED` */
+      429: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INTERNAL_ERROR` */
+      500: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `POSTGRES_REQUIRED` */
+      501: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `DATABASE_UNAVAILABLE` */
+      503: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+    };
+  };
+  exportStrings: {
+    parameters: {
+      query?: {
+        format?: 'ndjson' | 'csv';
+        /** @description Add the character frequency map column to CSV */
+        include_frequency_map?: boolean;
+        /** @description Records whose average_word_length equals the value */
+        average_word_length?: number;
+        /** @description Records whose average_word_length is at least the value */
+        min_average_word_length?: number;
+        /** @description Records whose average_word_length is at most the value */
+        max_average_word_length?: number;
+        /** @description Records whose consonant_count equals the value */
+        consonant_count?: number;
+        /** @description Records whose consonant_count is at least the value */
+        min_consonant_count?: number;
+        /** @description Records whose consonant_count is at most the value */
+        max_consonant_count?: number;
+        /** @description Records whose digit_count equals the value */
+        digit_count?: number;
+        /** @description Records whose digit_count is at least the value */
+        min_digit_count?: number;
+        /** @description Records whose digit_count is at most the value */
+        max_digit_count?: number;
+        /** @description Records whose emoji_count equals the value */
+        emoji_count?: number;
+        /** @description Records whose emoji_count is at least the value */
+        min_emoji_count?: number;
+        /** @description Records whose emoji_count is at most the value */
+        max_emoji_count?: number;
+        /** @description Records whose entropy equals the value */
+        entropy?: number;
+        /** @description Records whose entropy is at least the value */
+        min_entropy?: number;
+        /** @description Records whose entropy is at most the value */
+        max_entropy?: number;
+        /** @description Records whose flesch_kincaid_grade equals the value */
+        flesch_kincaid_grade?: number;
+        /** @description Records whose flesch_kincaid_grade is at least the value */
+        min_flesch_kincaid_grade?: number;
+        /** @description Records whose flesch_kincaid_grade is at most the value */
+        max_flesch_kincaid_grade?: number;
+        /** @description Records whose flesch_reading_ease equals the value */
+        flesch_reading_ease?: number;
+        /** @description Records whose flesch_reading_ease is at least the value */
+        min_flesch_reading_ease?: number;
+        /** @description Records whose flesch_reading_ease is at most the value */
+        max_flesch_reading_ease?: number;
+        /** @description Records whose is_palindrome equals the value */
+        is_palindrome?: boolean;
+        /** @description Records whose language equals the value */
+        language?: string;
+        /** @description Records whose length equals the value */
+        length?: number;
+        /** @description Records whose length is at least the value */
+        min_length?: number;
+        /** @description Records whose length is at most the value */
+        max_length?: number;
+        /** @description Records whose longest_palindrome_length equals the value */
+        longest_palindrome_length?: number;
+        /** @description Records whose longest_palindrome_length is at least the value */
+        min_longest_palindrome_length?: number;
+        /** @description Records whose longest_palindrome_length is at most the value */
+        max_longest_palindrome_length?: number;
+        /** @description Records whose lowercase_count equals the value */
+        lowercase_count?: number;
+        /** @description Records whose lowercase_count is at least the value */
+        min_lowercase_count?: number;
+        /** @description Records whose lowercase_count is at most the value */
+        max_lowercase_count?: number;
+        /** @description Records whose punctuation_count equals the value */
+        punctuation_count?: number;
+        /** @description Records whose punctuation_count is at least the value */
+        min_punctuation_count?: number;
+        /** @description Records whose punctuation_count is at most the value */
+        max_punctuation_count?: number;
+        /** @description Records whose script equals the value */
+        script?: string;
+        /** @description Records whose sentence_count equals the value */
+        sentence_count?: number;
+        /** @description Records whose sentence_count is at least the value */
+        min_sentence_count?: number;
+        /** @description Records whose sentence_count is at most the value */
+        max_sentence_count?: number;
+        /** @description Records whose unique_characters equals the value */
+        unique_characters?: number;
+        /** @description Records whose unique_characters is at least the value */
+        min_unique_characters?: number;
+        /** @description Records whose unique_characters is at most the value */
+        max_unique_characters?: number;
+        /** @description Records whose uppercase_count equals the value */
+        uppercase_count?: number;
+        /** @description Records whose uppercase_count is at least the value */
+        min_uppercase_count?: number;
+        /** @description Records whose uppercase_count is at most the value */
+        max_uppercase_count?: number;
+        /** @description Records whose vowel_count equals the value */
+        vowel_count?: number;
+        /** @description Records whose vowel_count is at least the value */
+        min_vowel_count?: number;
+        /** @description Records whose vowel_count is at most the value */
+        max_vowel_count?: number;
+        /** @description Records whose whitespace_count equals the value */
+        whitespace_count?: number;
+        /** @description Records whose whitespace_count is at least the value */
+        min_whitespace_count?: number;
+        /** @description Records whose whitespace_count is at most the value */
+        max_whitespace_count?: number;
+        /** @description Records whose word_count equals the value */
+        word_count?: number;
+        /** @description Records whose word_count is at least the value */
+        min_word_count?: number;
+        /** @description Records whose word_count is at most the value */
+        max_word_count?: number;
+        /** @description Records containing the character, case-insensitive */
+        contains_character?: string;
+        /** @description Records carrying the tag; repeat for several, all must match */
+        tag?: string[];
+        /** @description Filter expression such as `length > 5 AND NOT is_palindrome` */
+        q?: string;
+      };
+      header?: never;
+      path?: never;
+      cookie?: never;
+    };
+    requestBody?: never;
+    responses: {
+      /** @description One record per line */
+      200: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/x-ndjson': string;
+          'text/csv': string;
+        };
+      };
+      /** @description `INVALID_QUERY_PARAMETER`, `INVALID_FILTER_EXPRESSION` */
+      400: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `MISSING_API_KEY`, `INVALID_API_KEY` */
+      401: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INSUFFICIENT_SCOPE` */
+      403: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `RATE_LIMITED` */
+      429: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INTERNAL_ERROR` */
+      500: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `POSTGRES_REQUIRED` */
+      501: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `DATABASE_UNAVAILABLE` */
+      503: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+    };
+  };
+  exportStringsInCollection: {
+    parameters: {
+      query?: {
+        format?: 'ndjson' | 'csv';
+        /** @description Add the character frequency map column to CSV */
+        include_frequency_map?: boolean;
+        /** @description Records whose average_word_length equals the value */
+        average_word_length?: number;
+        /** @description Records whose average_word_length is at least the value */
+        min_average_word_length?: number;
+        /** @description Records whose average_word_length is at most the value */
+        max_average_word_length?: number;
+        /** @description Records whose consonant_count equals the value */
+        consonant_count?: number;
+        /** @description Records whose consonant_count is at least the value */
+        min_consonant_count?: number;
+        /** @description Records whose consonant_count is at most the value */
+        max_consonant_count?: number;
+        /** @description Records whose digit_count equals the value */
+        digit_count?: number;
+        /** @description Records whose digit_count is at least the value */
+        min_digit_count?: number;
+        /** @description Records whose digit_count is at most the value */
+        max_digit_count?: number;
+        /** @description Records whose emoji_count equals the value */
+        emoji_count?: number;
+        /** @description Records whose emoji_count is at least the value */
+        min_emoji_count?: number;
+        /** @description Records whose emoji_count is at most the value */
+        max_emoji_count?: number;
+        /** @description Records whose entropy equals the value */
+        entropy?: number;
+        /** @description Records whose entropy is at least the value */
+        min_entropy?: number;
+        /** @description Records whose entropy is at most the value */
+        max_entropy?: number;
+        /** @description Records whose flesch_kincaid_grade equals the value */
+        flesch_kincaid_grade?: number;
+        /** @description Records whose flesch_kincaid_grade is at least the value */
+        min_flesch_kincaid_grade?: number;
+        /** @description Records whose flesch_kincaid_grade is at most the value */
+        max_flesch_kincaid_grade?: number;
+        /** @description Records whose flesch_reading_ease equals the value */
+        flesch_reading_ease?: number;
+        /** @description Records whose flesch_reading_ease is at least the value */
+        min_flesch_reading_ease?: number;
+        /** @description Records whose flesch_reading_ease is at most the value */
+        max_flesch_reading_ease?: number;
+        /** @description Records whose is_palindrome equals the value */
+        is_palindrome?: boolean;
+        /** @description Records whose language equals the value */
+        language?: string;
+        /** @description Records whose length equals the value */
+        length?: number;
+        /** @description Records whose length is at least the value */
+        min_length?: number;
+        /** @description Records whose length is at most the value */
+        max_length?: number;
+        /** @description Records whose longest_palindrome_length equals the value */
+        longest_palindrome_length?: number;
+        /** @description Records whose longest_palindrome_length is at least the value */
+        min_longest_palindrome_length?: number;
+        /** @description Records whose longest_palindrome_length is at most the value */
+        max_longest_palindrome_length?: number;
+        /** @description Records whose lowercase_count equals the value */
+        lowercase_count?: number;
+        /** @description Records whose lowercase_count is at least the value */
+        min_lowercase_count?: number;
+        /** @description Records whose lowercase_count is at most the value */
+        max_lowercase_count?: number;
+        /** @description Records whose punctuation_count equals the value */
+        punctuation_count?: number;
+        /** @description Records whose punctuation_count is at least the value */
+        min_punctuation_count?: number;
+        /** @description Records whose punctuation_count is at most the value */
+        max_punctuation_count?: number;
+        /** @description Records whose script equals the value */
+        script?: string;
+        /** @description Records whose sentence_count equals the value */
+        sentence_count?: number;
+        /** @description Records whose sentence_count is at least the value */
+        min_sentence_count?: number;
+        /** @description Records whose sentence_count is at most the value */
+        max_sentence_count?: number;
+        /** @description Records whose unique_characters equals the value */
+        unique_characters?: number;
+        /** @description Records whose unique_characters is at least the value */
+        min_unique_characters?: number;
+        /** @description Records whose unique_characters is at most the value */
+        max_unique_characters?: number;
+        /** @description Records whose uppercase_count equals the value */
+        uppercase_count?: number;
+        /** @description Records whose uppercase_count is at least the value */
+        min_uppercase_count?: number;
+        /** @description Records whose uppercase_count is at most the value */
+        max_uppercase_count?: number;
+        /** @description Records whose vowel_count equals the value */
+        vowel_count?: number;
+        /** @description Records whose vowel_count is at least the value */
+        min_vowel_count?: number;
+        /** @description Records whose vowel_count is at most the value */
+        max_vowel_count?: number;
+        /** @description Records whose whitespace_count equals the value */
+        whitespace_count?: number;
+        /** @description Records whose whitespace_count is at least the value */
+        min_whitespace_count?: number;
+        /** @description Records whose whitespace_count is at most the value */
+        max_whitespace_count?: number;
+        /** @description Records whose word_count equals the value */
+        word_count?: number;
+        /** @description Records whose word_count is at least the value */
+        min_word_count?: number;
+        /** @description Records whose word_count is at most the value */
+        max_word_count?: number;
+        /** @description Records containing the character, case-insensitive */
+        contains_character?: string;
+        /** @description Records carrying the tag; repeat for several, all must match */
+        tag?: string[];
+        /** @description Filter expression such as `length > 5 AND NOT is_palindrome` */
+        q?: string;
+      };
+      header?: never;
+      path: {
+        collection: string;
+      };
+      cookie?: never;
+    };
+    requestBody?: never;
+    responses: {
+      /** @description One record per line */
+      200: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/x-ndjson': string;
+          'text/csv': string;
+        };
+      };
+      /** @description `INVALID_QUERY_PARAMETER`, `INVALID_FILTER_EXPRESSION`, `INVALID_COLLECTION_NAME` */
+      400: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `MISSING_API_KEY`, `INVALID_API_KEY` */
+      401: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INSUFFICIENT_SCOPE` */
+      403: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `RATE_LIMITED` */
+      429: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INTERNAL_ERROR` */
+      500: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `POSTGRES_REQUIRED` */
+      501: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `DATABASE_UNAVAILABLE` */
+      503: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+    };
+  };
+  importStrings: {
+    parameters: {
+      query?: {
+        /** @description Taken from Content-Type when omitted */
+        format?: 'ndjson' | 'csv' | 'text';
+        /** @description For values without their own options */
+        case_sensitive?: boolean;
+        /** @description For values without their own options */
+        palindrome_mode?: 'strict' | 'lenient';
+        /** @description For values without their own options */
+        locale?: string;
+      };
+      header?: never;
+      path?: never;
+      cookie?: never;
+    };
+    requestBody: {
+      content: {
+        'application/x-ndjson': string;
+        'text/csv': string;
+        'text/plain': string;
+      };
+    };
+    responses: {
+      /** @description One outcome per line, then a `{ summary }` line */
+      200: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/x-ndjson': components['schemas']['ImportOutcomeDto'];
+        };
+      };
+      /** @description `UNSUPPORTED_FORMAT`, `INVALID_ANALYSIS_OPTIONS` */
+      400: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `MISSING_API_KEY`, `INVALID_API_KEY` */
+      401: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INSUFFICIENT_SCOPE` */
+      403: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `RATE_LIMITED` */
+      429: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INTERNAL_ERROR` */
+      500: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `POSTGRES_REQUIRED` */
+      501: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `DATABASE_UNAVAILABLE` */
+      503: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+    };
+  };
+  importStringsInCollection: {
+    parameters: {
+      query?: {
+        /** @description Taken from Content-Type when omitted */
+        format?: 'ndjson' | 'csv' | 'text';
+        /** @description For values without their own options */
+        case_sensitive?: boolean;
+        /** @description For values without their own options */
+        palindrome_mode?: 'strict' | 'lenient';
+        /** @description For values without their own options */
+        locale?: string;
+      };
+      header?: never;
+      path: {
+        collection: string;
+      };
+      cookie?: never;
+    };
+    requestBody: {
+      content: {
+        'application/x-ndjson': string;
+        'text/csv': string;
+        'text/plain': string;
+      };
+    };
+    responses: {
+      /** @description One outcome per line, then a `{ summary }` line */
+      200: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/x-ndjson': components['schemas']['ImportOutcomeDto'];
+        };
+      };
+      /** @description `UNSUPPORTED_FORMAT`, `INVALID_ANALYSIS_OPTIONS`, `INVALID_COLLECTION_NAME` */
+      400: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `MISSING_API_KEY`, `INVALID_API_KEY` */
+      401: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INSUFFICIENT_SCOPE` */
+      403: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `RATE_LIMITED` */
+      429: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INTERNAL_ERROR` */
+      500: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `POSTGRES_REQUIRED` */
+      501: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `DATABASE_UNAVAILABLE` */
+      503: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+    };
+  };
+  compareStrings: {
+    parameters: {
+      query: {
+        /** @description Stored value or its sha256 id */
+        a: string;
+        /** @description Stored value or its sha256 id */
+        b: string;
+      };
+      header?: never;
+      path?: never;
+      cookie?: never;
+    };
+    requestBody?: never;
+    responses: {
+      200: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/json': components['schemas']['ComparisonDto'];
+        };
+      };
+      /** @description `INVALID_QUERY_PARAMETER` */
+      400: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `MISSING_API_KEY`, `INVALID_API_KEY` */
+      401: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INSUFFICIENT_SCOPE` */
+      403: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `STRING_NOT_FOUND` */
+      404: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `COMPARISON_TOO_LARGE` */
+      422: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `RATE_LIMITED` */
+      429: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INTERNAL_ERROR` */
+      500: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `DATABASE_UNAVAILABLE` */
+      503: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+    };
+  };
+  compareStringsInCollection: {
+    parameters: {
+      query: {
+        /** @description Stored value or its sha256 id */
+        a: string;
+        /** @description Stored value or its sha256 id */
+        b: string;
+      };
+      header?: never;
+      path: {
+        collection: string;
+      };
+      cookie?: never;
+    };
+    requestBody?: never;
+    responses: {
+      200: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/json': components['schemas']['ComparisonDto'];
+        };
+      };
+      /** @description `INVALID_QUERY_PARAMETER`, `INVALID_COLLECTION_NAME` */
+      400: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `MISSING_API_KEY`, `INVALID_API_KEY` */
+      401: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INSUFFICIENT_SCOPE` */
+      403: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `STRING_NOT_FOUND` */
+      404: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `COMPARISON_TOO_LARGE` */
+      422: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `RATE_LIMITED` */
+      429: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INTERNAL_ERROR` */
+      500: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `DATABASE_UNAVAILABLE` */
+      503: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+    };
+  };
+  streamEvents: {
+    parameters: {
+      query?: {
+        /** @description Comma separated event types, all when omitted: string.created, string.deleted, string.restored, string.reanalyzed */
+        types?: string;
+        /** @description Records whose average_word_length equals the value */
+        average_word_length?: number;
+        /** @description Records whose average_word_length is at least the value */
+        min_average_word_length?: number;
+        /** @description Records whose average_word_length is at most the value */
+        max_average_word_length?: number;
+        /** @description Records whose consonant_count equals the value */
+        consonant_count?: number;
+        /** @description Records whose consonant_count is at least the value */
+        min_consonant_count?: number;
+        /** @description Records whose consonant_count is at most the value */
+        max_consonant_count?: number;
+        /** @description Records whose digit_count equals the value */
+        digit_count?: number;
+        /** @description Records whose digit_count is at least the value */
+        min_digit_count?: number;
+        /** @description Records whose digit_count is at most the value */
+        max_digit_count?: number;
+        /** @description Records whose emoji_count equals the value */
+        emoji_count?: number;
+        /** @description Records whose emoji_count is at least the value */
+        min_emoji_count?: number;
+        /** @description Records whose emoji_count is at most the value */
+        max_emoji_count?: number;
+        /** @description Records whose entropy equals the value */
+        entropy?: number;
+        /** @description Records whose entropy is at least the value */
+        min_entropy?: number;
+        /** @description Records whose entropy is at most the value */
+        max_entropy?: number;
+        /** @description Records whose flesch_kincaid_grade equals the value */
+        flesch_kincaid_grade?: number;
+        /** @description Records whose flesch_kincaid_grade is at least the value */
+        min_flesch_kincaid_grade?: number;
+        /** @description Records whose flesch_kincaid_grade is at most the value */
+        max_flesch_kincaid_grade?: number;
+        /** @description Records whose flesch_reading_ease equals the value */
+        flesch_reading_ease?: number;
+        /** @description Records whose flesch_reading_ease is at least the value */
+        min_flesch_reading_ease?: number;
+        /** @description Records whose flesch_reading_ease is at most the value */
+        max_flesch_reading_ease?: number;
+        /** @description Records whose is_palindrome equals the value */
+        is_palindrome?: boolean;
+        /** @description Records whose language equals the value */
+        language?: string;
+        /** @description Records whose length equals the value */
+        length?: number;
+        /** @description Records whose length is at least the value */
+        min_length?: number;
+        /** @description Records whose length is at most the value */
+        max_length?: number;
+        /** @description Records whose longest_palindrome_length equals the value */
+        longest_palindrome_length?: number;
+        /** @description Records whose longest_palindrome_length is at least the value */
+        min_longest_palindrome_length?: number;
+        /** @description Records whose longest_palindrome_length is at most the value */
+        max_longest_palindrome_length?: number;
+        /** @description Records whose lowercase_count equals the value */
+        lowercase_count?: number;
+        /** @description Records whose lowercase_count is at least the value */
+        min_lowercase_count?: number;
+        /** @description Records whose lowercase_count is at most the value */
+        max_lowercase_count?: number;
+        /** @description Records whose punctuation_count equals the value */
+        punctuation_count?: number;
+        /** @description Records whose punctuation_count is at least the value */
+        min_punctuation_count?: number;
+        /** @description Records whose punctuation_count is at most the value */
+        max_punctuation_count?: number;
+        /** @description Records whose script equals the value */
+        script?: string;
+        /** @description Records whose sentence_count equals the value */
+        sentence_count?: number;
+        /** @description Records whose sentence_count is at least the value */
+        min_sentence_count?: number;
+        /** @description Records whose sentence_count is at most the value */
+        max_sentence_count?: number;
+        /** @description Records whose unique_characters equals the value */
+        unique_characters?: number;
+        /** @description Records whose unique_characters is at least the value */
+        min_unique_characters?: number;
+        /** @description Records whose unique_characters is at most the value */
+        max_unique_characters?: number;
+        /** @description Records whose uppercase_count equals the value */
+        uppercase_count?: number;
+        /** @description Records whose uppercase_count is at least the value */
+        min_uppercase_count?: number;
+        /** @description Records whose uppercase_count is at most the value */
+        max_uppercase_count?: number;
+        /** @description Records whose vowel_count equals the value */
+        vowel_count?: number;
+        /** @description Records whose vowel_count is at least the value */
+        min_vowel_count?: number;
+        /** @description Records whose vowel_count is at most the value */
+        max_vowel_count?: number;
+        /** @description Records whose whitespace_count equals the value */
+        whitespace_count?: number;
+        /** @description Records whose whitespace_count is at least the value */
+        min_whitespace_count?: number;
+        /** @description Records whose whitespace_count is at most the value */
+        max_whitespace_count?: number;
+        /** @description Records whose word_count equals the value */
+        word_count?: number;
+        /** @description Records whose word_count is at least the value */
+        min_word_count?: number;
+        /** @description Records whose word_count is at most the value */
+        max_word_count?: number;
+        /** @description Records containing the character, case-insensitive */
+        contains_character?: string;
+        /** @description Records carrying the tag; repeat for several, all must match */
+        tag?: string[];
+        /** @description Filter expression such as `length > 5 AND NOT is_palindrome` */
+        q?: string;
+      };
+      header?: never;
+      path?: never;
+      cookie?: never;
+    };
+    requestBody?: never;
+    responses: {
+      /** @description Server-sent events named by event type, plus a `ping` event every 30s */
+      200: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'text/event-stream': components['schemas']['StringEventDto'];
+        };
+      };
+      /** @description `INVALID_QUERY_PARAMETER`, `INVALID_FILTER_EXPRESSION` */
+      400: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `MISSING_API_KEY`, `INVALID_API_KEY` */
+      401: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INSUFFICIENT_SCOPE` */
+      403: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `RATE_LIMITED` */
+      429: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INTERNAL_ERROR` */
+      500: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `DATABASE_UNAVAILABLE` */
+      503: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+    };
+  };
+  streamEventsInCollection: {
+    parameters: {
+      query?: {
+        /** @description Comma separated event types, all when omitted: string.created, string.deleted, string.restored, string.reanalyzed */
+        types?: string;
+        /** @description Records whose average_word_length equals the value */
+        average_word_length?: number;
+        /** @description Records whose average_word_length is at least the value */
+        min_average_word_length?: number;
+        /** @description Records whose average_word_length is at most the value */
+        max_average_word_length?: number;
+        /** @description Records whose consonant_count equals the value */
+        consonant_count?: number;
+        /** @description Records whose consonant_count is at least the value */
+        min_consonant_count?: number;
+        /** @description Records whose consonant_count is at most the value */
+        max_consonant_count?: number;
+        /** @description Records whose digit_count equals the value */
+        digit_count?: number;
+        /** @description Records whose digit_count is at least the value */
+        min_digit_count?: number;
+        /** @description Records whose digit_count is at most the value */
+        max_digit_count?: number;
+        /** @description Records whose emoji_count equals the value */
+        emoji_count?: number;
+        /** @description Records whose emoji_count is at least the value */
+        min_emoji_count?: number;
+        /** @description Records whose emoji_count is at most the value */
+        max_emoji_count?: number;
+        /** @description Records whose entropy equals the value */
+        entropy?: number;
+        /** @description Records whose entropy is at least the value */
+        min_entropy?: number;
+        /** @description Records whose entropy is at most the value */
+        max_entropy?: number;
+        /** @description Records whose flesch_kincaid_grade equals the value */
+        flesch_kincaid_grade?: number;
+        /** @description Records whose flesch_kincaid_grade is at least the value */
+        min_flesch_kincaid_grade?: number;
+        /** @description Records whose flesch_kincaid_grade is at most the value */
+        max_flesch_kincaid_grade?: number;
+        /** @description Records whose flesch_reading_ease equals the value */
+        flesch_reading_ease?: number;
+        /** @description Records whose flesch_reading_ease is at least the value */
+        min_flesch_reading_ease?: number;
+        /** @description Records whose flesch_reading_ease is at most the value */
+        max_flesch_reading_ease?: number;
+        /** @description Records whose is_palindrome equals the value */
+        is_palindrome?: boolean;
+        /** @description Records whose language equals the value */
+        language?: string;
+        /** @description Records whose length equals the value */
+        length?: number;
+        /** @description Records whose length is at least the value */
+        min_length?: number;
+        /** @description Records whose length is at most the value */
+        max_length?: number;
+        /** @description Records whose longest_palindrome_length equals the value */
+        longest_palindrome_length?: number;
+        /** @description Records whose longest_palindrome_length is at least the value */
+        min_longest_palindrome_length?: number;
+        /** @description Records whose longest_palindrome_length is at most the value */
+        max_longest_palindrome_length?: number;
+        /** @description Records whose lowercase_count equals the value */
+        lowercase_count?: number;
+        /** @description Records whose lowercase_count is at least the value */
+        min_lowercase_count?: number;
+        /** @description Records whose lowercase_count is at most the value */
+        max_lowercase_count?: number;
+        /** @description Records whose punctuation_count equals the value */
+        punctuation_count?: number;
+        /** @description Records whose punctuation_count is at least the value */
+        min_punctuation_count?: number;
+        /** @description Records whose punctuation_count is at most the value */
+        max_punctuation_count?: number;
+        /** @description Records whose script equals the value */
+        script?: string;
+        /** @description Records whose sentence_count equals the value */
+        sentence_count?: number;
+        /** @description Records whose sentence_count is at least the value */
+        min_sentence_count?: number;
+        /** @description Records whose sentence_count is at most the value */
+        max_sentence_count?: number;
+        /** @description Records whose unique_characters equals the value */
+        unique_characters?: number;
+        /** @description Records whose unique_characters is at least the value */
+        min_unique_characters?: number;
+        /** @description Records whose unique_characters is at most the value */
+        max_unique_characters?: number;
+        /** @description Records whose uppercase_count equals the value */
+        uppercase_count?: number;
+        /** @description Records whose uppercase_count is at least the value */
+        min_uppercase_count?: number;
+        /** @description Records whose uppercase_count is at most the value */
+        max_uppercase_count?: number;
+        /** @description Records whose vowel_count equals the value */
+        vowel_count?: number;
+        /** @description Records whose vowel_count is at least the value */
+        min_vowel_count?: number;
+        /** @description Records whose vowel_count is at most the value */
+        max_vowel_count?: number;
+        /** @description Records whose whitespace_count equals the value */
+        whitespace_count?: number;
+        /** @description Records whose whitespace_count is at least the value */
+        min_whitespace_count?: number;
+        /** @description Records whose whitespace_count is at most the value */
+        max_whitespace_count?: number;
+        /** @description Records whose word_count equals the value */
+        word_count?: number;
+        /** @description Records whose word_count is at least the value */
+        min_word_count?: number;
+        /** @description Records whose word_count is at most the value */
+        max_word_count?: number;
+        /** @description Records containing the character, case-insensitive */
+        contains_character?: string;
+        /** @description Records carrying the tag; repeat for several, all must match */
+        tag?: string[];
+        /** @description Filter expression such as `length > 5 AND NOT is_palindrome` */
+        q?: string;
+      };
+      header?: never;
+      path: {
+        collection: string;
+      };
+      cookie?: never;
+    };
+    requestBody?: never;
+    responses: {
+      /** @description Server-sent events named by event type, plus a `ping` event every 30s */
+      200: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'text/event-stream': components['schemas']['StringEventDto'];
+        };
+      };
+      /** @description `INVALID_QUERY_PARAMETER`, `INVALID_FILTER_EXPRESSION`, `INVALID_COLLECTION_NAME` */
+      400: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `MISSING_API_KEY`, `INVALID_API_KEY` */
+      401: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INSUFFICIENT_SCOPE` */
+      403: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `RATE_LIMITED` */
+      429: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INTERNAL_ERROR` */
+      500: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `DATABASE_UNAVAILABLE` */
+      503: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+    };
+  };
+  getStringById: {
+    parameters: {
+      query?: {
+        /** @description Answer with the whole value instead of the preview a large one is stored with */
+        full?: boolean;
+      };
+      header?: {
+        /** @description ETag of a previous response */
+        'If-None-Match'?: string;
+        /** @description Last-Modified of a previous response */
+        'If-Modified-Since'?: string;
+      };
+      path: {
+        id: string;
+      };
+      cookie?: never;
+    };
+    requestBody?: never;
+    responses: {
+      200: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/json': components['schemas']['StringRecordDto'];
+        };
+      };
+      /** @description Not modified since the response the validators came from */
+      304: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content?: never;
+      };
+      /** @description `INVALID_QUERY_PARAMETER` */
+      400: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `MISSING_API_KEY`, `INVALID_API_KEY` */
+      401: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INSUFFICIENT_SCOPE` */
+      403: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `STRING_NOT_FOUND` */
+      404: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `RATE_LIMITED` */
+      429: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INTERNAL_ERROR` */
+      500: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `DATABASE_UNAVAILABLE` */
+      503: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+    };
+  };
+  deleteStringById: {
+    parameters: {
+      query?: {
+        /** @description Remove the row instead of soft deleting it */
+        permanent?: boolean;
+      };
+      header?: never;
+      path: {
+        id: string;
+      };
+      cookie?: never;
+    };
+    requestBody?: never;
+    responses: {
+      204: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content?: never;
+      };
+      /** @description `INVALID_QUERY_PARAMETER` */
+      400: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `MISSING_API_KEY`, `INVALID_API_KEY` */
+      401: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INSUFFICIENT_SCOPE` */
+      403: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `STRING_NOT_FOUND` */
+      404: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `RATE_LIMITED` */
+      429: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INTERNAL_ERROR` */
+      500: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `DATABASE_UNAVAILABLE` */
+      503: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+    };
+  };
+  updateLabels: {
+    parameters: {
+      query?: never;
+      header?: never;
+      path: {
+        id: string;
+      };
+      cookie?: never;
+    };
+    requestBody: {
+      content: {
+        'application/json': components['schemas']['UpdateLabelsDto'];
+      };
+    };
+    responses: {
+      200: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/json': components['schemas']['StringRecordDto'];
+        };
+      };
+      /** @description `INVALID_BODY` */
+      400: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `MISSING_API_KEY`, `INVALID_API_KEY` */
+      401: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INSUFFICIENT_SCOPE` */
+      403: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `STRING_NOT_FOUND` */
+      404: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `RATE_LIMITED` */
+      429: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INTERNAL_ERROR` */
+      500: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `DATABASE_UNAVAILABLE` */
+      503: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+    };
+  };
+  getStringByIdInCollection: {
+    parameters: {
+      query?: {
+        /** @description Answer with the whole value instead of the preview a large one is stored with */
+        full?: boolean;
+      };
+      header?: {
+        /** @description ETag of a previous response */
+        'If-None-Match'?: string;
+        /** @description Last-Modified of a previous response */
+        'If-Modified-Since'?: string;
+      };
+      path: {
+        collection: string;
+        id: string;
+      };
+      cookie?: never;
+    };
+    requestBody?: never;
+    responses: {
+      200: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/json': components['schemas']['StringRecordDto'];
+        };
+      };
+      /** @description Not modified since the response the validators came from */
+      304: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content?: never;
+      };
+      /** @description `INVALID_QUERY_PARAMETER`, `INVALID_COLLECTION_NAME` */
+      400: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `MISSING_API_KEY`, `INVALID_API_KEY` */
+      401: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INSUFFICIENT_SCOPE` */
+      403: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `STRING_NOT_FOUND` */
+      404: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `RATE_LIMITED` */
+      429: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INTERNAL_ERROR` */
+      500: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `DATABASE_UNAVAILABLE` */
+      503: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+    };
+  };
+  deleteStringByIdInCollection: {
+    parameters: {
+      query?: {
+        /** @description Remove the row instead of soft deleting it */
+        permanent?: boolean;
+      };
+      header?: never;
+      path: {
+        collection: string;
+        id: string;
+      };
+      cookie?: never;
+    };
+    requestBody?: never;
+    responses: {
+      204: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content?: never;
+      };
+      /** @description `INVALID_QUERY_PARAMETER`, `INVALID_COLLECTION_NAME` */
+      400: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `MISSING_API_KEY`, `INVALID_API_KEY` */
+      401: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INSUFFICIENT_SCOPE` */
+      403: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `STRING_NOT_FOUND` */
+      404: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `RATE_LIMITED` */
+      429: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INTERNAL_ERROR` */
+      500: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `DATABASE_UNAVAILABLE` */
+      503: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+    };
+  };
+  updateLabelsInCollection: {
+    parameters: {
+      query?: never;
+      header?: never;
+      path: {
+        collection: string;
+        id: string;
+      };
+      cookie?: never;
+    };
+    requestBody: {
+      content: {
+        'application/json': components['schemas']['UpdateLabelsDto'];
+      };
+    };
+    responses: {
+      200: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/json': components['schemas']['StringRecordDto'];
+        };
+      };
+      /** @description `INVALID_BODY`, `INVALID_COLLECTION_NAME` */
+      400: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `MISSING_API_KEY`, `INVALID_API_KEY` */
+      401: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INSUFFICIENT_SCOPE` */
+      403: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `STRING_NOT_FOUND` */
+      404: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `RATE_LIMITED` */
+      429: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INTERNAL_ERROR` */
+      500: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `DATABASE_UNAVAILABLE` */
+      503: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+    };
+  };
+  listAnagramsById: {
+    parameters: {
+      query?: {
+        limit?: number;
+        /** @description Offset pagination; cannot be combined with cursor */
+        page?: number;
+        /** @description next_cursor or prev_cursor of a previous response */
+        cursor?: string;
+        order?: 'asc' | 'desc';
+        sort_by?: 'created_at' | 'length' | 'word_count' | 'unique_characters';
+      };
+      header?: {
+        /** @description ETag of a previous response */
+        'If-None-Match'?: string;
+        /** @description Last-Modified of a previous response */
+        'If-Modified-Since'?: string;
+      };
+      path: {
+        id: string;
+      };
+      cookie?: never;
+    };
+    requestBody?: never;
+    responses: {
+      200: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/json': components['schemas']['StringPageDto'];
+        };
+      };
+      /** @description Not modified since the response the validators came from */
+      304: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content?: never;
+      };
+      /** @description `INVALID_QUERY_PARAMETER` */
+      400: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `MISSING_API_KEY`, `INVALID_API_KEY` */
+      401: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INSUFFICIENT_SCOPE` */
+      403: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `STRING_NOT_FOUND` */
+      404: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `RATE_LIMITED` */
+      429: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INTERNAL_ERROR` */
+      500: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `DATABASE_UNAVAILABLE` */
+      503: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+    };
+  };
+  listAnagramsByIdInCollection: {
+    parameters: {
+      query?: {
+        limit?: number;
+        /** @description Offset pagination; cannot be combined with cursor */
+        page?: number;
+        /** @description next_cursor or prev_cursor of a previous response */
+        cursor?: string;
+        order?: 'asc' | 'desc';
+        sort_by?: 'created_at' | 'length' | 'word_count' | 'unique_characters';
+      };
+      header?: {
+        /** @description ETag of a previous response */
+        'If-None-Match'?: string;
+        /** @description Last-Modified of a previous response */
+        'If-Modified-Since'?: string;
+      };
+      path: {
+        collection: string;
+        id: string;
+      };
+      cookie?: never;
+    };
+    requestBody?: never;
+    responses: {
+      200: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/json': components['schemas']['StringPageDto'];
+        };
+      };
+      /** @description Not modified since the response the validators came from */
+      304: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content?: never;
+      };
+      /** @description `INVALID_QUERY_PARAMETER`, `INVALID_COLLECTION_NAME` */
+      400: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `MISSING_API_KEY`, `INVALID_API_KEY` */
+      401: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INSUFFICIENT_SCOPE` */
+      403: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `STRING_NOT_FOUND` */
+      404: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `RATE_LIMITED` */
+      429: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INTERNAL_ERROR` */
+      500: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `DATABASE_UNAVAILABLE` */
+      503: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+    };
+  };
+  restoreString: {
+    parameters: {
+      query?: never;
+      header?: never;
+      path: {
+        id: string;
+      };
+      cookie?: never;
+    };
+    requestBody?: never;
+    responses: {
+      200: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/json': components['schemas']['StringRecordDto'];
+        };
+      };
+      /** @description `MISSING_API_KEY`, `INVALID_API_KEY` */
+      401: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INSUFFICIENT_SCOPE` */
+      403: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `STRING_NOT_FOUND` */
+      404: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `RATE_LIMITED` */
+      429: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INTERNAL_ERROR` */
+      500: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `DATABASE_UNAVAILABLE` */
+      503: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+    };
+  };
+  restoreStringInCollection: {
+    parameters: {
+      query?: never;
+      header?: never;
+      path: {
+        collection: string;
+        id: string;
+      };
+      cookie?: never;
+    };
+    requestBody?: never;
+    responses: {
+      200: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/json': components['schemas']['StringRecordDto'];
+        };
+      };
+      /** @description `INVALID_COLLECTION_NAME` */
+      400: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `MISSING_API_KEY`, `INVALID_API_KEY` */
+      401: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INSUFFICIENT_SCOPE` */
+      403: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `STRING_NOT_FOUND` */
+      404: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `RATE_LIMITED` */
+      429: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INTERNAL_ERROR` */
+      500: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `DATABASE_UNAVAILABLE` */
+      503: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+    };
+  };
+  listAnagrams: {
+    parameters: {
+      query?: {
+        limit?: number;
+        /** @description Offset pagination; cannot be combined with cursor */
+        page?: number;
+        /** @description next_cursor or prev_cursor of a previous response */
+        cursor?: string;
+        order?: 'asc' | 'desc';
+        sort_by?: 'created_at' | 'length' | 'word_count' | 'unique_characters';
+      };
+      header?: {
+        /** @description ETag of a previous response */
+        'If-None-Match'?: string;
+        /** @description Last-Modified of a previous response */
+        'If-Modified-Since'?: string;
+      };
+      path: {
+        value: string;
+      };
+      cookie?: never;
+    };
+    requestBody?: never;
+    responses: {
+      200: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/json': components['schemas']['StringPageDto'];
+        };
+      };
+      /** @description Not modified since the response the validators came from */
+      304: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content?: never;
+      };
+      /** @description `INVALID_QUERY_PARAMETER` */
+      400: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `MISSING_API_KEY`, `INVALID_API_KEY` */
+      401: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INSUFFICIENT_SCOPE` */
+      403: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `STRING_NOT_FOUND` */
+      404: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `RATE_LIMITED` */
+      429: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INTERNAL_ERROR` */
+      500: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `DATABASE_UNAVAILABLE` */
+      503: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+    };
+  };
+  listAnagramsInCollection: {
+    parameters: {
+      query?: {
+        limit?: number;
+        /** @description Offset pagination; cannot be combined with cursor */
+        page?: number;
+        /** @description next_cursor or prev_cursor of a previous response */
+        cursor?: string;
+        order?: 'asc' | 'desc';
+        sort_by?: 'created_at' | 'length' | 'word_count' | 'unique_characters';
+      };
+      header?: {
+        /** @description ETag of a previous response */
+        'If-None-Match'?: string;
+        /** @description Last-Modified of a previous response */
+        'If-Modified-Since'?: string;
+      };
+      path: {
+        collection: string;
+        value: string;
+      };
+      cookie?: never;
+    };
+    requestBody?: never;
+    responses: {
+      200: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/json': components['schemas']['StringPageDto'];
+        };
+      };
+      /** @description Not modified since the response the validators came from */
+      304: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content?: never;
+      };
+      /** @description `INVALID_QUERY_PARAMETER`, `INVALID_COLLECTION_NAME` */
+      400: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `MISSING_API_KEY`, `INVALID_API_KEY` */
+      401: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INSUFFICIENT_SCOPE` */
+      403: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `STRING_NOT_FOUND` */
+      404: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `RATE_LIMITED` */
+      429: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INTERNAL_ERROR` */
+      500: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `DATABASE_UNAVAILABLE` */
+      503: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+    };
+  };
+  getString: {
+    parameters: {
+      query?: {
+        /** @description Answer with the whole value instead of the preview a large one is stored with */
+        full?: boolean;
+      };
+      header?: {
+        /** @description ETag of a previous response */
+        'If-None-Match'?: string;
+        /** @description Last-Modified of a previous response */
+        'If-Modified-Since'?: string;
+      };
+      path: {
+        value: string;
+      };
+      cookie?: never;
+    };
+    requestBody?: never;
+    responses: {
+      200: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/json': components['schemas']['StringRecordDto'];
+        };
+      };
+      /** @description Not modified since the response the validators came from */
+      304: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content?: never;
+      };
+      /** @description `INVALID_QUERY_PARAMETER` */
+      400: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `MISSING_API_KEY`, `INVALID_API_KEY` */
+      401: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INSUFFICIENT_SCOPE` */
+      403: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `STRING_NOT_FOUND` */
+      404: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `RATE_LIMITED` */
+      429: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INTERNAL_ERROR` */
+      500: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `DATABASE_UNAVAILABLE` */
+      503: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+    };
+  };
+  deleteString: {
+    parameters: {
+      query?: {
+        /** @description Remove the row instead of soft deleting it */
+        permanent?: boolean;
+      };
+      header?: never;
+      path: {
+        value: string;
+      };
+      cookie?: never;
+    };
+    requestBody?: never;
+    responses: {
+      204: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content?: never;
+      };
+      /** @description `INVALID_QUERY_PARAMETER` */
+      400: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `MISSING_API_KEY`, `INVALID_API_KEY` */
+      401: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INSUFFICIENT_SCOPE` */
+      403: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `STRING_NOT_FOUND` */
+      404: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `RATE_LIMITED` */
+      429: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INTERNAL_ERROR` */
+      500: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `DATABASE_UNAVAILABLE` */
+      503: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+    };
+  };
+  getStringInCollection: {
+    parameters: {
+      query?: {
+        /** @description Answer with the whole value instead of the preview a large one is stored with */
+        full?: boolean;
+      };
+      header?: {
+        /** @description ETag of a previous response */
+        'If-None-Match'?: string;
+        /** @description Last-Modified of a previous response */
+        'If-Modified-Since'?: string;
+      };
+      path: {
+        collection: string;
+        value: string;
+      };
+      cookie?: never;
+    };
+    requestBody?: never;
+    responses: {
+      200: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/json': components['schemas']['StringRecordDto'];
+        };
+      };
+      /** @description Not modified since the response the validators came from */
+      304: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content?: never;
+      };
+      /** @description `INVALID_QUERY_PARAMETER`, `INVALID_COLLECTION_NAME` */
+      400: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `MISSING_API_KEY`, `INVALID_API_KEY` */
+      401: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INSUFFICIENT_SCOPE` */
+      403: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `STRING_NOT_FOUND` */
+      404: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `RATE_LIMITED` */
+      429: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INTERNAL_ERROR` */
+      500: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `DATABASE_UNAVAILABLE` */
+      503: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+    };
+  };
+  deleteStringInCollection: {
+    parameters: {
+      query?: {
+        /** @description Remove the row instead of soft deleting it */
+        permanent?: boolean;
+      };
+      header?: never;
+      path: {
+        collection: string;
+        value: string;
+      };
+      cookie?: never;
+    };
+    requestBody?: never;
+    responses: {
+      204: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content?: never;
+      };
+      /** @description `INVALID_QUERY_PARAMETER`, `INVALID_COLLECTION_NAME` */
+      400: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `MISSING_API_KEY`, `INVALID_API_KEY` */
+      401: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INSUFFICIENT_SCOPE` */
+      403: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `STRING_NOT_FOUND` */
+      404: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `RATE_LIMITED` */
+      429: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INTERNAL_ERROR` */
+      500: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `DATABASE_UNAVAILABLE` */
+      503: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+    };
+  };
+  listCollections: {
+    parameters: {
+      query?: never;
+      header?: never;
+      path?: never;
+      cookie?: never;
+    };
+    requestBody?: never;
+    responses: {
+      200: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/json': components['schemas']['CollectionListDto'];
+        };
+      };
+      /** @description `MISSING_API_KEY`, `INVALID_API_KEY` */
+      401: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INSUFFICIENT_SCOPE` */
+      403: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `RATE_LIMITED` */
+      429: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INTERNAL_ERROR` */
+      500: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `DATABASE_UNAVAILABLE` */
+      503: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+    };
+  };
+  getCollection: {
+    parameters: {
+      query?: never;
+      header?: never;
+      path: {
+        name: string;
+      };
+      cookie?: never;
+    };
+    requestBody?: never;
+    responses: {
+      200: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/json': components['schemas']['CollectionDto'];
+        };
+      };
+      /** @description `INVALID_COLLECTION_NAME` */
+      400: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `MISSING_API_KEY`, `INVALID_API_KEY` */
+      401: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INSUFFICIENT_SCOPE` */
+      403: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `COLLECTION_NOT_FOUND` */
+      404: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `RATE_LIMITED` */
+      429: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INTERNAL_ERROR` */
+      500: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `DATABASE_UNAVAILABLE` */
+      503: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+    };
+  };
+  copyCollection: {
+    parameters: {
+      query?: never;
+      header?: never;
+      path: {
+        name: string;
+      };
+      cookie?: never;
+    };
+    requestBody: {
+      content: {
+        'application/json': components['schemas']['CopyCollectionDto'];
+      };
+    };
+    responses: {
+      201: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/json': components['schemas']['CopyResultDto'];
+        };
+      };
+      /** @description `INVALID_BODY`, `INVALID_COLLECTION_NAME` */
+      400: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `MISSING_API_KEY`, `INVALID_API_KEY` */
+      401: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INSUFFICIENT_SCOPE` */
+      403: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `COLLECTION_NOT_FOUND` */
+      404: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `COLLECTION_EXISTS` */
+      409: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `RATE_LIMITED` */
+      429: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INTERNAL_ERROR` */
+      500: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `DATABASE_UNAVAILABLE` */
+      503: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+    };
+  };
+  mergeCollection: {
+    parameters: {
+      query?: never;
+      header?: never;
+      path: {
+        name: string;
+      };
+      cookie?: never;
+    };
+    requestBody: {
+      content: {
+        'application/json': components['schemas']['MergeCollectionDto'];
+      };
+    };
+    responses: {
+      200: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/json': components['schemas']['CopyResultDto'];
+        };
+      };
+      /** @description `INVALID_BODY`, `INVALID_COLLECTION_NAME` */
+      400: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `MISSING_API_KEY`, `INVALID_API_KEY` */
+      401: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INSUFFICIENT_SCOPE` */
+      403: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `COLLECTION_NOT_FOUND` */
+      404: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `RATE_LIMITED` */
+      429: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INTERNAL_ERROR` */
+      500: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `DATABASE_UNAVAILABLE` */
+      503: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+    };
+  };
+  listQueryFailures: {
+    parameters: {
+      query?: {
+        /** @description All when omitted */
+        outcome?: 'unparseable' | 'conflicting' | 'partial';
+        limit?: number;
+      };
+      header?: never;
+      path?: never;
+      cookie?: never;
+    };
+    requestBody?: never;
+    responses: {
+      200: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/json': components['schemas']['QueryFailureListDto'];
+        };
+      };
+      /** @description `INVALID_QUERY_PARAMETER` */
+      400: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `MISSING_API_KEY`, `INVALID_API_KEY` */
+      401: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INSUFFICIENT_SCOPE` */
+      403: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `RATE_LIMITED` */
+      429: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INTERNAL_ERROR` */
+      500: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `POSTGRES_REQUIRED` */
+      501: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `DATABASE_UNAVAILABLE` */
+      503: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+    };
+  };
+  deleteQueryFailure: {
+    parameters: {
+      query?: never;
+      header?: never;
+      path: {
+        id: string;
+      };
+      cookie?: never;
+    };
+    requestBody?: never;
+    responses: {
+      204: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content?: never;
+      };
+      /** @description `MISSING_API_KEY`, `INVALID_API_KEY` */
+      401: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INSUFFICIENT_SCOPE` */
+      403: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `QUERY_FAILURE_NOT_FOUND` */
+      404: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `RATE_LIMITED` */
+      429: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INTERNAL_ERROR` */
+      500: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `POSTGRES_REQUIRED` */
+      501: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `DATABASE_UNAVAILABLE` */
+      503: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+    };
+  };
+  listApiKeys: {
+    parameters: {
+      query?: never;
+      header?: never;
+      path?: never;
+      cookie?: never;
+    };
+    requestBody?: never;
+    responses: {
+      200: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/json': components['schemas']['ApiKeyListDto'];
+        };
+      };
+      /** @description `MISSING_API_KEY`, `INVALID_API_KEY` */
+      401: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INSUFFICIENT_SCOPE` */
+      403: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `RATE_LIMITED` */
+      429: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INTERNAL_ERROR` */
+      500: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `POSTGRES_REQUIRED` */
+      501: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `DATABASE_UNAVAILABLE` */
+      503: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+    };
+  };
+  issueApiKey: {
+    parameters: {
+      query?: never;
+      header?: never;
+      path?: never;
+      cookie?: never;
+    };
+    requestBody: {
+      content: {
+        'application/json': components['schemas']['IssueApiKeyDto'];
+      };
+    };
+    responses: {
+      201: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/json': components['schemas']['IssuedApiKeyDto'];
+        };
+      };
+      /** @description `INVALID_BODY` */
+      400: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `MISSING_API_KEY`, `INVALID_API_KEY` */
+      401: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INSUFFICIENT_SCOPE` */
+      403: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `RATE_LIMITED` */
+      429: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INTERNAL_ERROR` */
+      500: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `POSTGRES_REQUIRED` */
+      501: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `DATABASE_UNAVAILABLE` */
+      503: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+    };
+  };
+  getApiKey: {
+    parameters: {
+      query?: never;
+      header?: never;
+      path: {
+        id: string;
+      };
+      cookie?: never;
+    };
+    requestBody?: never;
+    responses: {
+      200: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/json': components['schemas']['ApiKeyDto'];
+        };
+      };
+      /** @description `MISSING_API_KEY`, `INVALID_API_KEY` */
+      401: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INSUFFICIENT_SCOPE` */
+      403: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `API_KEY_NOT_FOUND` */
+      404: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `RATE_LIMITED` */
+      429: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INTERNAL_ERROR` */
+      500: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `POSTGRES_REQUIRED` */
+      501: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `DATABASE_UNAVAILABLE` */
+      503: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+    };
+  };
+  revokeApiKey: {
+    parameters: {
+      query?: never;
+      header?: never;
+      path: {
+        id: string;
+      };
+      cookie?: never;
+    };
+    requestBody?: never;
+    responses: {
+      204: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content?: never;
+      };
+      /** @description `MISSING_API_KEY`, `INVALID_API_KEY` */
+      401: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INSUFFICIENT_SCOPE` */
+      403: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `API_KEY_NOT_FOUND` */
+      404: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `RATE_LIMITED` */
+      429: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INTERNAL_ERROR` */
+      500: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `POSTGRES_REQUIRED` */
+      501: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `DATABASE_UNAVAILABLE` */
+      503: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+    };
+  };
+  rotateApiKey: {
+    parameters: {
+      query?: never;
+      header?: never;
+      path: {
+        id: string;
+      };
+      cookie?: never;
+    };
+    requestBody?: never;
+    responses: {
+      200: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/json': components['schemas']['IssuedApiKeyDto'];
+        };
+      };
+      /** @description `MISSING_API_KEY`, `INVALID_API_KEY` */
+      401: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INSUFFICIENT_SCOPE` */
+      403: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `API_KEY_NOT_FOUND` */
+      404: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `RATE_LIMITED` */
+      429: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INTERNAL_ERROR` */
+      500: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `POSTGRES_REQUIRED` */
+      501: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `DATABASE_UNAVAILABLE` */
+      503: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+    };
+  };
+  reanalyze: {
+    parameters: {
+      query?: never;
+      header?: never;
+      path?: never;
+      cookie?: never;
+    };
+    requestBody: {
+      content: {
+        'application/json': components['schemas']['ReanalyzeDto'];
+      };
+    };
+    responses: {
+      202: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/json': components['schemas']['JobDto'];
+        };
+      };
+      /** @description `INVALID_BODY` */
+      400: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `MISSING_API_KEY`, `INVALID_API_KEY` */
+      401: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INSUFFICIENT_SCOPE` */
+      403: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `RATE_LIMITED` */
+      429: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INTERNAL_ERROR` */
+      500: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `POSTGRES_REQUIRED` */
+      501: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `DATABASE_UNAVAILABLE` */
+      503: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+    };
+  };
+  getJob: {
+    parameters: {
+      query?: never;
+      header?: never;
+      path: {
+        id: string;
+      };
+      cookie?: never;
+    };
+    requestBody?: never;
+    responses: {
+      200: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/json': components['schemas']['JobDto'];
+        };
+      };
+      /** @description `MISSING_API_KEY`, `INVALID_API_KEY` */
+      401: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INSUFFICIENT_SCOPE` */
+      403: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `JOB_NOT_FOUND` */
+      404: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `RATE_LIMITED` */
+      429: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INTERNAL_ERROR` */
+      500: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `POSTGRES_REQUIRED` */
+      501: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `DATABASE_UNAVAILABLE` */
+      503: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+    };
+  };
+  listWebhooks: {
+    parameters: {
+      query?: never;
+      header?: never;
+      path?: never;
+      cookie?: never;
+    };
+    requestBody?: never;
+    responses: {
+      200: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/json': components['schemas']['WebhookListDto'];
+        };
+      };
+      /** @description `MISSING_API_KEY`, `INVALID_API_KEY` */
+      401: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INSUFFICIENT_SCOPE` */
+      403: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `RATE_LIMITED` */
+      429: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INTERNAL_ERROR` */
+      500: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `POSTGRES_REQUIRED` */
+      501: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `DATABASE_UNAVAILABLE` */
+      503: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+    };
+  };
+  createWebhook: {
+    parameters: {
+      query?: never;
+      header?: never;
+      path?: never;
+      cookie?: never;
+    };
+    requestBody: {
+      content: {
+        'application/json': components['schemas']['CreateWebhookDto'];
+      };
+    };
+    responses: {
+      201: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/json': components['schemas']['CreatedWebhookDto'];
+        };
+      };
+      /** @description `INVALID_BODY` */
+      400: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `MISSING_API_KEY`, `INVALID_API_KEY` */
+      401: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INSUFFICIENT_SCOPE` */
+      403: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `RATE_LIMITED` */
+      429: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INTERNAL_ERROR` */
+      500: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `POSTGRES_REQUIRED` */
+      501: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `DATABASE_UNAVAILABLE` */
+      503: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+    };
+  };
+  getWebhook: {
+    parameters: {
+      query?: never;
+      header?: never;
+      path: {
+        id: string;
+      };
+      cookie?: never;
+    };
+    requestBody?: never;
+    responses: {
+      200: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/json': components['schemas']['WebhookDto'];
+        };
+      };
+      /** @description `MISSING_API_KEY`, `INVALID_API_KEY` */
+      401: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INSUFFICIENT_SCOPE` */
+      403: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `WEBHOOK_NOT_FOUND` */
+      404: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `RATE_LIMITED` */
+      429: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INTERNAL_ERROR` */
+      500: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `POSTGRES_REQUIRED` */
+      501: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `DATABASE_UNAVAILABLE` */
+      503: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+    };
+  };
+  deleteWebhook: {
+    parameters: {
+      query?: never;
+      header?: never;
+      path: {
+        id: string;
+      };
+      cookie?: never;
+    };
+    requestBody?: never;
+    responses: {
+      204: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content?: never;
+      };
+      /** @description `MISSING_API_KEY`, `INVALID_API_KEY` */
+      401: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INSUFFICIENT_SCOPE` */
+      403: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `WEBHOOK_NOT_FOUND` */
+      404: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `RATE_LIMITED` */
+      429: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INTERNAL_ERROR` */
+      500: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `POSTGRES_REQUIRED` */
+      501: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `DATABASE_UNAVAILABLE` */
+      503: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+    };
+  };
+  updateWebhook: {
+    parameters: {
+      query?: never;
+      header?: never;
+      path: {
+        id: string;
+      };
+      cookie?: never;
+    };
+    requestBody: {
+      content: {
+        'application/json': components['schemas']['UpdateWebhookDto'];
+      };
+    };
+    responses: {
+      200: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/json': components['schemas']['WebhookDto'];
+        };
+      };
+      /** @description `INVALID_BODY` */
+      400: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `MISSING_API_KEY`, `INVALID_API_KEY` */
+      401: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INSUFFICIENT_SCOPE` */
+      403: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `WEBHOOK_NOT_FOUND` */
+      404: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `RATE_LIMITED` */
+      429: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INTERNAL_ERROR` */
+      500: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `POSTGRES_REQUIRED` */
+      501: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `DATABASE_UNAVAILABLE` */
+      503: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+    };
+  };
+  listDeliveries: {
+    parameters: {
+      query?: {
+        /** @description All when omitted */
+        status?: 'pending' | 'succeeded' | 'failed';
+        limit?: number;
+      };
+      header?: never;
+      path: {
+        id: string;
+      };
+      cookie?: never;
+    };
+    requestBody?: never;
+    responses: {
+      200: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/json': components['schemas']['DeliveryListDto'];
+        };
+      };
+      /** @description `INVALID_QUERY_PARAMETER` */
+      400: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `MISSING_API_KEY`, `INVALID_API_KEY` */
+      401: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INSUFFICIENT_SCOPE` */
+      403: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `WEBHOOK_NOT_FOUND` */
+      404: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `RATE_LIMITED` */
+      429: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INTERNAL_ERROR` */
+      500: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `POSTGRES_REQUIRED` */
+      501: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `DATABASE_UNAVAILABLE` */
+      503: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+    };
+  };
+  redeliver: {
+    parameters: {
+      query?: never;
+      header?: never;
+      path: {
+        id: string;
+        deliveryId: string;
+      };
+      cookie?: never;
+    };
+    requestBody?: never;
+    responses: {
+      200: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/json': components['schemas']['DeliveryDto'];
+        };
+      };
+      /** @description `MISSING_API_KEY`, `INVALID_API_KEY` */
+      401: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INSUFFICIENT_SCOPE` */
+      403: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `WEBHOOK_NOT_FOUND`, `DELIVERY_NOT_FOUND` */
+      404: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `RATE_LIMITED` */
+      429: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `INTERNAL_ERROR` */
+      500: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `POSTGRES_REQUIRED` */
+      501: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+      /** @description `DATABASE_UNAVAILABLE` */
+      503: {
+        headers: {
+          [name: string]: unknown;
+        };
+        content: {
+          'application/problem+json': components['schemas']['ProblemDto'];
+        };
+      };
+    };
+  };
+}
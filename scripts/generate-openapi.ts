@@ -0,0 +1,53 @@
+import { NestFactory } from '@nestjs/core';
+import { mkdir, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { AppModule } from '../src/app.module';
+import { createOpenApiDocument } from '../src/openapi';
+
+const OUT_DIR = join(__dirname, '..', 'client');
+const METHODS = ['get', 'put', 'post', 'delete', 'patch'] as const;
+
+/**
+ * Writes client/openapi.json and client/operations.ts (the method and
+ * path of every operationId) from the routes of the app; openapi-typescript
+ * then turns the document into client/schema.ts. The app is only
+ * previewed, so no database is needed.
+ */
+async function main() {
+  const app = await NestFactory.create(AppModule, {
+    preview: true,
+    logger: false,
+    abortOnError: false,
+  });
+  const document = createOpenApiDocument(app);
+  await app.close();
+
+  const operations: Record<string, [string, string]> = {};
+  for (const [path, item] of Object.entries(document.paths)) {
+    for (const method of METHODS) {
+      const id = item[method]?.operationId;
+      if (id) operations[id] = [method.toUpperCase(), path];
+    }
+  }
+
+  await mkdir(OUT_DIR, { recursive: true });
+  await writeFile(
+    join(OUT_DIR, 'openapi.json'),
+    `${JSON.stringify(document, null, 2)}\n`,
+  );
+  await writeFile(
+    join(OUT_DIR, 'operations.ts'),
+    [
+      '// Generated by scripts/generate-openapi.ts, do not edit',
+      '',
+      '/** Method and path template of every operation */',
+      `export const OPERATIONS = ${JSON.stringify(operations, null, 2)} as const;`,
+      '',
+    ].join('\n'),
+  );
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
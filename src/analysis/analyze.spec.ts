@@ -0,0 +1,173 @@
+import { analyzeString } from './analyze';
+import {
+  AnalysisOptions,
+  DEFAULT_ANALYSIS_OPTIONS,
+  InvalidAnalysisOptionsError,
+  parseAnalysisOptions,
+} from './options';
+
+const options = (overrides: Partial<AnalysisOptions>): AnalysisOptions => ({
+  ...DEFAULT_ANALYSIS_OPTIONS,
+  ...overrides,
+});
+
+describe('analyzeString', () => {
+  describe('characters', () => {
+    it('counts emoji sequences and flags as one character', () => {
+      const family = '👩‍👩‍👧';
+      expect(analyzeString(family)).toMatchObject({
+        length: 1,
+        unique_characters: 1,
+        character_frequency_map: { [family]: 1 },
+      });
+
+      expect(analyzeString('👍🏽👍🏽🇫🇷')).toMatchObject({
+        length: 3,
+        unique_characters: 2,
+        character_frequency_map: { '👍🏽': 2, '🇫🇷': 1 },
+      });
+    });
+
+    it('counts combining marks with their letter, composed or not', () => {
+      const decomposed = 'e\u0301te\u0301';
+      const analysis = analyzeString(decomposed);
+      expect(analysis).toMatchObject({
+        length: 3,
+        unique_characters: 2,
+        character_frequency_map: { é: 2, t: 1 },
+      });
+      expect(analysis.character_frequency_map).toEqual(
+        analyzeString('été').character_frequency_map,
+      );
+      // the id stays the hash of the raw value
+      expect(analysis.sha256_hash).not.toBe(analyzeString('été').sha256_hash);
+    });
+
+    it('counts words of any script', () => {
+      expect(analyzeString('А роза упала на лапу Азора').word_count).toBe(6);
+      expect(analyzeString('Ґанок і їжак').word_count).toBe(3);
+    });
+  });
+
+  describe('letters', () => {
+    it('counts vowels and consonants of Latin, Cyrillic and Greek', () => {
+      expect(analyzeString('Été, naïve')).toMatchObject({
+        vowel_count: 5,
+        consonant_count: 3,
+      });
+      expect(analyzeString('А роза упала на лапу Азора')).toMatchObject({
+        vowel_count: 12,
+        consonant_count: 9,
+      });
+      // "й" is a consonant, though it decomposes to "и"
+      expect(analyzeString('Їжак і йорж')).toMatchObject({
+        vowel_count: 4,
+        consonant_count: 5,
+      });
+      expect(analyzeString('Καλημέρα')).toMatchObject({
+        vowel_count: 4,
+        consonant_count: 4,
+      });
+      expect(analyzeString('42 👍🏽')).toMatchObject({
+        vowel_count: 0,
+        consonant_count: 0,
+      });
+    });
+
+    it('leaves them null with letters of other scripts', () => {
+      for (const value of ['سوس', '你好', 'hello 世界']) {
+        expect(analyzeString(value)).toMatchObject({
+          vowel_count: null,
+          consonant_count: null,
+        });
+      }
+    });
+  });
+
+  describe('language', () => {
+    it.each([
+      ['The cat is on the mat', 'Latn', 'en'],
+      ['А роза упала на лапу Азора', 'Cyrl', 'ru'],
+      ['Ґанок і їжак', 'Cyrl', 'uk'],
+      ['👩‍👩‍👧é', 'Latn', 'und'],
+      ['Καλημέρα', 'Grek', 'und'],
+      ['🇫🇷 42', 'Zyyy', 'und'],
+    ])('%s is %s, %s', (value, script, language) => {
+      expect(analyzeString(value)).toMatchObject({ script, language });
+    });
+  });
+
+  describe('palindromes', () => {
+    it.each([
+      ['été', true],
+      ['e\u0301te\u0301', true],
+      ['А роза упала на лапу Азора', true],
+      ['سوس', true],
+      ['A man, a plan, a canal: Panama!', true],
+      ['hello', false],
+    ])('%s is a palindrome: %s', (value, expected) => {
+      expect(analyzeString(value).is_palindrome).toBe(expected);
+    });
+
+    it('compares every character in strict mode', () => {
+      const strict = options({ palindrome_mode: 'strict' });
+      expect(analyzeString('No lemon, no melon', strict).is_palindrome).toBe(
+        false,
+      );
+      expect(analyzeString('noon', strict).is_palindrome).toBe(true);
+      expect(analyzeString('ab, ,ba', strict).is_palindrome).toBe(true);
+      expect(analyzeString('Noon', strict).is_palindrome).toBe(true);
+      // emoji only count in strict mode, skin tones included
+      expect(analyzeString('👍🏽a👍🏽', strict).is_palindrome).toBe(true);
+      expect(analyzeString('👍🏽a👍🏿', strict).is_palindrome).toBe(false);
+      expect(analyzeString('👍🏽a👍🏿').is_palindrome).toBe(true);
+    });
+
+    it('compares case only when case sensitive', () => {
+      const sensitive = options({ case_sensitive: true });
+      expect(analyzeString('Racecar').is_palindrome).toBe(true);
+      expect(analyzeString('Racecar', sensitive).is_palindrome).toBe(false);
+      expect(analyzeString('racecar', sensitive).is_palindrome).toBe(true);
+      expect(
+        analyzeString(
+          'Noon',
+          options({ ...sensitive, palindrome_mode: 'strict' }),
+        ).is_palindrome,
+      ).toBe(false);
+    });
+
+    it('folds case with the locale', () => {
+      // dotted capital I lowercases to a plain i only in Turkish
+      expect(analyzeString('İki').is_palindrome).toBe(false);
+      expect(analyzeString('İi').is_palindrome).toBe(false);
+      expect(analyzeString('İi', options({ locale: 'tr' })).is_palindrome).toBe(
+        true,
+      );
+    });
+  });
+});
+
+describe('parseAnalysisOptions', () => {
+  it('fills in defaults and canonicalizes the locale', () => {
+    expect(parseAnalysisOptions(undefined)).toEqual(DEFAULT_ANALYSIS_OPTIONS);
+    expect(
+      parseAnalysisOptions({ locale: 'PT-br', palindrome_mode: 'strict' }),
+    ).toEqual({
+      case_sensitive: false,
+      palindrome_mode: 'strict',
+      locale: 'pt-BR',
+    });
+  });
+
+  it.each([
+    ['a string', 'strict'],
+    ['an unknown key', { mode: 'strict' }],
+    ['an unknown mode', { palindrome_mode: 'loose' }],
+    ['a non-boolean flag', { case_sensitive: 'yes' }],
+    ['an invalid locale', { locale: 'not a locale' }],
+  ])('rejects %s', (_, raw) => {
+    expect(() => parseAnalysisOptions(raw)).toThrow(
+      InvalidAnalysisOptionsError,
+    );
+  });
+});
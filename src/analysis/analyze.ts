@@ -0,0 +1,116 @@
+import * as crypto from 'crypto';
+import { AnalysisOptions, DEFAULT_ANALYSIS_OPTIONS } from './options';
+import { graphemes, isLetterOrNumber, words } from './text';
+import {
+  CharacterClassCounts,
+  characterClasses,
+  entropy,
+  longestPalindromicSubstring,
+  ngramFrequency,
+  Readability,
+  readability,
+  wordFrequency,
+} from './metrics';
+import { detectLanguage, LanguageGuess } from './language';
+
+/**
+ * Version of the analysis logic. Bump it whenever the output of
+ * analyzeString changes, so stored records can be found and re-analysed.
+ */
+export const ANALYSIS_VERSION = 3;
+
+/**
+ * The built-in properties of an analysed string
+ */
+export interface CoreProperties {
+  length: number;
+  is_palindrome: boolean;
+  unique_characters: number;
+  word_count: number;
+  sha256_hash: string;
+  character_frequency_map: Record<string, number>;
+}
+
+/**
+ * Additional metrics stored next to the core properties
+ */
+export type TextMetrics = CharacterClassCounts &
+  Readability &
+  LanguageGuess & {
+    entropy: number;
+    bigram_frequency_map: Record<string, number>;
+    trigram_frequency_map: Record<string, number>;
+    word_frequency_map: Record<string, number>;
+    longest_palindromic_substring: string;
+    longest_palindrome_length: number;
+  };
+
+export type StringAnalysis = CoreProperties & TextMetrics;
+
+/**
+ * Hex sha256 of the raw (unnormalized) value, used as the record id
+ */
+export function sha256(value: string): string {
+  return crypto.createHash('sha256').update(value).digest('hex');
+}
+
+/**
+ * Palindrome check over grapheme clusters. Lenient mode only compares
+ * letters and numbers of any script.
+ */
+export function isPalindrome(
+  chars: string[],
+  { palindrome_mode, case_sensitive, locale }: AnalysisOptions,
+): boolean {
+  let compared =
+    palindrome_mode === 'lenient' ? chars.filter(isLetterOrNumber) : chars;
+  if (!case_sensitive) {
+    compared = compared.map((c) => c.toLocaleLowerCase(locale));
+  }
+  for (let i = 0, j = compared.length - 1; i < j; i++, j--) {
+    if (compared[i] !== compared[j]) return false;
+  }
+  return true;
+}
+
+export function characterFrequency(chars: string[]): Record<string, number> {
+  const characterFrequencyMap: Record<string, number> = {};
+  for (const char of chars) {
+    characterFrequencyMap[char] = (characterFrequencyMap[char] || 0) + 1;
+  }
+  return characterFrequencyMap;
+}
+
+/**
+ * Compute every property of a value. Pure: no I/O and no framework,
+ * so any service can reproduce the API's analysis.
+ *
+ * @example
+ * analyzeString('Madam').is_palindrome // true
+ * analyzeString('Madam', { ...DEFAULT_ANALYSIS_OPTIONS, case_sensitive: true }).is_palindrome // false
+ */
+export function analyzeString(
+  value: string,
+  options: AnalysisOptions = DEFAULT_ANALYSIS_OPTIONS,
+): StringAnalysis {
+  const chars = graphemes(value, options.locale);
+  const wordList = words(value, options.locale);
+  const palindrome = longestPalindromicSubstring(chars, options);
+  return {
+    length: chars.length,
+    is_palindrome: isPalindrome(chars, options),
+    unique_characters: new Set(chars).size,
+    word_count: wordList.length,
+    sha256_hash: sha256(value),
+    character_frequency_map: characterFrequency(chars),
+    entropy: entropy(chars),
+    bigram_frequency_map: ngramFrequency(chars, 2),
+    trigram_frequency_map: ngramFrequency(chars, 3),
+    word_frequency_map: wordFrequency(wordList, options),
+    ...characterClasses(chars),
+    longest_palindromic_substring: palindrome,
+    longest_palindrome_length: graphemes(palindrome, options.locale).length,
+    ...readability(value, wordList, options.locale),
+    ...detectLanguage(chars, wordList),
+  };
+}
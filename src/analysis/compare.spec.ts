@@ -0,0 +1,132 @@
+import {
+  compareCharacters,
+  CompareTooLargeError,
+  diff,
+  frequencyDifference,
+  longestCommonSubstring,
+  MAX_COMPARE_CELLS,
+} from './compare';
+import { anagramSignature, graphemes } from './text';
+import { analyzeString } from './analyze';
+
+const chars = (value: string) => graphemes(value, 'en');
+
+const compare = (a: string, b: string) => compareCharacters(chars(a), chars(b));
+
+describe('compareCharacters', () => {
+  it('relates two strings', () => {
+    expect(compare('abc', 'racecar')).toEqual({
+      edit_distance: 5,
+      similarity: 1 - 5 / 7,
+      longest_common_substring: 'a',
+      longest_common_subsequence: 'ac',
+      diff: [
+        { op: 'insert', text: 'r' },
+        { op: 'equal', text: 'a' },
+        { op: 'delete', text: 'b' },
+        { op: 'equal', text: 'c' },
+        { op: 'insert', text: 'ecar' },
+      ],
+    });
+  });
+
+  it.each([
+    ['kitten', 'sitting', 3, 'itt', 'ittn'],
+    ['listen', 'silent', 4, 'en', 'sen'],
+    ['same', 'same', 0, 'same', 'same'],
+    ['abc', 'xyz', 3, '', ''],
+    ['', 'abc', 3, '', ''],
+  ])(
+    '%s and %s: distance %d, substring %p, subsequence %p',
+    (a, b, distance, substring, subsequence) => {
+      const result = compare(a, b);
+      expect(result).toMatchObject({
+        edit_distance: distance,
+        longest_common_substring: substring,
+        longest_common_subsequence: subsequence,
+      });
+      expect(result.similarity).toBeCloseTo(
+        1 - distance / Math.max(a.length, b.length),
+      );
+    },
+  );
+
+  it('scores two empty strings as identical', () => {
+    expect(compare('', '')).toEqual({
+      edit_distance: 0,
+      similarity: 1,
+      longest_common_substring: '',
+      longest_common_subsequence: '',
+      diff: [],
+    });
+  });
+
+  it('compares graphemes, not code units', () => {
+    expect(compare('👩‍👩‍👧a', '👩‍👩‍👦a')).toMatchObject({
+      edit_distance: 1,
+      similarity: 0.5,
+      diff: [
+        { op: 'delete', text: '👩‍👩‍👧' },
+        { op: 'insert', text: '👩‍👩‍👦' },
+        { op: 'equal', text: 'a' },
+      ],
+    });
+  });
+
+  it('refuses inputs past the cell limit', () => {
+    const long = Array<string>(MAX_COMPARE_CELLS / 1000 + 1).fill('a');
+    expect(() =>
+      compareCharacters(long, Array<string>(1000).fill('b')),
+    ).toThrow(CompareTooLargeError);
+  });
+});
+
+describe('diff', () => {
+  it('rebuilds both inputs from its operations', () => {
+    const a = chars('the quick brown fox');
+    const b = chars('a quick brown dog');
+    const { ops } = diff(a, b);
+    const text = (kinds: string[]) =>
+      ops
+        .filter((o) => kinds.includes(o.op))
+        .map((o) => o.text)
+        .join('');
+    expect(text(['equal', 'delete'])).toBe(a.join(''));
+    expect(text(['equal', 'insert'])).toBe(b.join(''));
+    // runs of one kind are merged
+    ops.slice(1).forEach((o, i) => expect(o.op).not.toBe(ops[i].op));
+  });
+});
+
+describe('longestCommonSubstring', () => {
+  it('takes the earliest run in the first input on ties', () => {
+    expect(longestCommonSubstring(chars('abxcd'), chars('cdab'))).toBe('ab');
+    expect(longestCommonSubstring(chars('cdxab'), chars('abcd'))).toBe('cd');
+  });
+});
+
+describe('frequencyDifference', () => {
+  it('keeps the characters whose counts differ, as b minus a', () => {
+    const map = (value: string) => analyzeString(value).character_frequency_map;
+    expect(frequencyDifference(map('abc'), map('racecar'))).toEqual({
+      b: -1,
+      r: 2,
+      e: 1,
+      c: 1,
+      a: 1,
+    });
+    expect(frequencyDifference(map('listen'), map('silent'))).toEqual({});
+  });
+});
+
+describe('anagramSignature', () => {
+  it.each([
+    ['Listen', 'Silent', true],
+    ['Dormitory', 'dirty room!', true],
+    ['été', 'tÉé', true],
+    ['abc', 'abcc', false],
+    ['abc', 'racecar', false],
+  ])('%s and %s are anagrams: %s', (a, b, expected) => {
+    expect(anagramSignature(a) === anagramSignature(b)).toBe(expected);
+  });
+});
@@ -0,0 +1,124 @@
+import { editDistance } from './text';
+
+export type DiffOp = {
+  op: 'equal' | 'insert' | 'delete';
+  text: string;
+};
+
+/** Largest a.length * b.length accepted by the quadratic comparisons */
+export const MAX_COMPARE_CELLS = 4_000_000;
+
+export class CompareTooLargeError extends Error {
+  constructor() {
+    super(
+      `Strings too long to compare (length product above ${MAX_COMPARE_CELLS})`,
+    );
+  }
+}
+
+/**
+ * Longest run of characters shared by both inputs; the earliest in `a`
+ * wins ties
+ */
+export function longestCommonSubstring(a: string[], b: string[]): string {
+  let previous = new Uint32Array(b.length + 1);
+  let best = { end: 0, length: 0 };
+  for (let i = 1; i <= a.length; i++) {
+    const current = new Uint32Array(b.length + 1);
+    for (let j = 1; j <= b.length; j++) {
+      if (a[i - 1] !== b[j - 1]) continue;
+      current[j] = previous[j - 1] + 1;
+      if (current[j] > best.length) best = { end: i, length: current[j] };
+    }
+    previous = current;
+  }
+  return a.slice(best.end - best.length, best.end).join('');
+}
+
+/**
+ * Table of LCS lengths of every pair of suffixes, row-major
+ */
+function suffixTable(a: string[], b: string[]): Uint32Array {
+  const width = b.length + 1;
+  const table = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      table[i * width + j] =
+        a[i] === b[j]
+          ? table[(i + 1) * width + j + 1] + 1
+          : Math.max(table[(i + 1) * width + j], table[i * width + j + 1]);
+    }
+  }
+  return table;
+}
+
+/**
+ * Longest common subsequence and the character-level diff turning `a`
+ * into `b`. Consecutive operations of the same kind are merged.
+ */
+export function diff(
+  a: string[],
+  b: string[],
+): { subsequence: string; ops: DiffOp[] } {
+  const width = b.length + 1;
+  const table = suffixTable(a, b);
+  const ops: DiffOp[] = [];
+  let subsequence = '';
+  const push = (op: DiffOp['op'], text: string) => {
+    const last = ops[ops.length - 1];
+    if (last?.op === op) last.text += text;
+    else ops.push({ op, text });
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      subsequence += a[i];
+      push('equal', a[i]);
+      i++;
+      j++;
+    } else if (table[(i + 1) * width + j] >= table[i * width + j + 1]) {
+      push('delete', a[i++]);
+    } else {
+      push('insert', b[j++]);
+    }
+  }
+  while (i < a.length) push('delete', a[i++]);
+  while (j < b.length) push('insert', b[j++]);
+  return { subsequence, ops };
+}
+
+/**
+ * Per-character count in `b` minus count in `a`, for characters whose
+ * counts differ
+ */
+export function frequencyDifference(
+  a: Record<string, number>,
+  b: Record<string, number>,
+): Record<string, number> {
+  const result: Record<string, number> = {};
+  for (const char of new Set([...Object.keys(a), ...Object.keys(b)])) {
+    const delta = (b[char] ?? 0) - (a[char] ?? 0);
+    if (delta) result[char] = delta;
+  }
+  return result;
+}
+
+/**
+ * Edit distance, longest common substring/subsequence and diff of two
+ * strings given as characters
+ * - throws CompareTooLargeError when the inputs are too long
+ */
+export function compareCharacters(a: string[], b: string[]) {
+  if (a.length * b.length > MAX_COMPARE_CELLS) throw new CompareTooLargeError();
+  const distance = editDistance(a, b);
+  const { subsequence, ops } = diff(a, b);
+  return {
+    edit_distance: distance,
+    similarity: 1 - distance / Math.max(a.length, b.length, 1),
+    longest_common_substring: longestCommonSubstring(a, b),
+    longest_common_subsequence: subsequence,
+    diff: ops,
+  };
+}
@@ -0,0 +1,11 @@
+/**
+ * Framework-free string analysis. Nothing here depends on Nest, TypeORM or
+ * the database, so other services can import it directly.
+ */
+export * from './analyze';
+export * from './compare';
+export * from './language';
+export * from './metrics';
+export * from './options';
+export * from './streaming';
+export * from './text';
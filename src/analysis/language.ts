@@ -0,0 +1,162 @@
+/**
+ * Offline script and language detection. The script is the one most
+ * letters belong to; the language follows from the script where that is
+ * unambiguous and from common function words for Latin text, and is only
+ * guessed for text of a few words at least.
+ */
+
+export interface LanguageGuess {
+  /** ISO 15924 code of the dominant script, 'Zyyy' when there are no letters */
+  script: string;
+  /** ISO 639-1 code, 'und' when undetermined */
+  language: string;
+}
+
+const SCRIPTS: [code: string, pattern: RegExp][] = [
+  ['Latn', /^\p{Script=Latin}/u],
+  ['Cyrl', /^\p{Script=Cyrillic}/u],
+  ['Grek', /^\p{Script=Greek}/u],
+  ['Arab', /^\p{Script=Arabic}/u],
+  ['Hebr', /^\p{Script=Hebrew}/u],
+  ['Deva', /^\p{Script=Devanagari}/u],
+  ['Beng', /^\p{Script=Bengali}/u],
+  ['Taml', /^\p{Script=Tamil}/u],
+  ['Thai', /^\p{Script=Thai}/u],
+  ['Armn', /^\p{Script=Armenian}/u],
+  ['Geor', /^\p{Script=Georgian}/u],
+  ['Hang', /^\p{Script=Hangul}/u],
+  ['Hira', /^\p{Script=Hiragana}/u],
+  ['Kana', /^\p{Script=Katakana}/u],
+  ['Hani', /^\p{Script=Han}/u],
+];
+
+/** Languages implied by a script alone */
+const SCRIPT_LANGUAGES: Record<string, string> = {
+  Grek: 'el',
+  Arab: 'ar',
+  Hebr: 'he',
+  Deva: 'hi',
+  Beng: 'bn',
+  Taml: 'ta',
+  Thai: 'th',
+  Armn: 'hy',
+  Geor: 'ka',
+  Hang: 'ko',
+  Hira: 'ja',
+  Kana: 'ja',
+};
+
+/** Frequent function words of Latin-script languages */
+const STOPWORDS: Record<string, Set<string>> = {
+  en: new Set(
+    'the and is are was of to in that it for with as on this be not you have'.split(
+      ' ',
+    ),
+  ),
+  es: new Set(
+    'el la los las y es de que en un una por con para no se del al'.split(' '),
+  ),
+  fr: new Set(
+    'le la les et est de des que un une pour dans pas ne du au avec il'.split(
+      ' ',
+    ),
+  ),
+  de: new Set(
+    'der die das und ist nicht ein eine zu mit von den dem ich sie es auf'.split(
+      ' ',
+    ),
+  ),
+  it: new Set(
+    'il lo la gli le e è di che un una per con non del della sono'.split(' '),
+  ),
+  pt: new Set('o a os as e é de que um uma para com não do da em'.split(' ')),
+  nl: new Set(
+    'de het een en is van dat niet op te in met zijn voor'.split(' '),
+  ),
+};
+
+const UKRAINIAN_LETTERS = /[іїєґ]/iu;
+
+/** Words needed before a language is guessed; a stray letter is no evidence */
+const MIN_WORDS = 3;
+
+/**
+ * Language detection fed piece by piece: characters and words can arrive
+ * in any number of calls, the guess is the same as for the whole text
+ */
+export class LanguageDetector {
+  /** letters per script, in order of first appearance */
+  private readonly scripts = new Map<string, number>();
+  private ukrainian = false;
+  private words = 0;
+  /** stopword hits per Latin-script language */
+  private readonly hits = new Map<string, number>(
+    Object.keys(STOPWORDS).map((language) => [language, 0]),
+  );
+
+  addCharacters(chars: string[]) {
+    for (const char of chars) {
+      const script = SCRIPTS.find(([, pattern]) => pattern.test(char));
+      if (script) {
+        this.scripts.set(script[0], (this.scripts.get(script[0]) ?? 0) + 1);
+      }
+      if (!this.ukrainian && UKRAINIAN_LETTERS.test(char)) {
+        this.ukrainian = true;
+      }
+    }
+  }
+
+  addWords(wordList: string[]) {
+    this.words += wordList.length;
+    for (const word of wordList) {
+      const lower = word.toLowerCase();
+      for (const [language, stopwords] of Object.entries(STOPWORDS)) {
+        if (stopwords.has(lower)) {
+          this.hits.set(language, (this.hits.get(language) ?? 0) + 1);
+        }
+      }
+    }
+  }
+
+  result(): LanguageGuess {
+    if (!this.scripts.size) return { script: 'Zyyy', language: 'und' };
+
+    const script = [...this.scripts].reduce((a, b) => (b[1] > a[1] ? b : a))[0];
+    if (this.words < MIN_WORDS) return { script, language: 'und' };
+    // Japanese mixes kanji with kana
+    if (script === 'Hani') {
+      const kana = this.scripts.has('Hira') || this.scripts.has('Kana');
+      return { script, language: kana ? 'ja' : 'zh' };
+    }
+
+    if (SCRIPT_LANGUAGES[script]) {
+      return { script, language: SCRIPT_LANGUAGES[script] };
+    }
+    if (script === 'Cyrl') {
+      return { script, language: this.ukrainian ? 'uk' : 'ru' };
+    }
+    if (script !== 'Latn') return { script, language: 'und' };
+
+    let best = { language: 'und', hits: 0 };
+    let tie = false;
+    for (const [language, hits] of this.hits) {
+      if (hits > best.hits) {
+        best = { language, hits };
+        tie = false;
+      } else if (hits && hits === best.hits) {
+        tie = true;
+      }
+    }
+    return { script, language: tie ? 'und' : best.language };
+  }
+}
+
+export function detectLanguage(
+  chars: string[],
+  wordList: string[],
+): LanguageGuess {
+  const detector = new LanguageDetector();
+  detector.addCharacters(chars);
+  detector.addWords(wordList);
+  return detector.result();
+}
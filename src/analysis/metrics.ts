@@ -0,0 +1,334 @@
+import { AnalysisOptions } from './options';
+import { isLetterOrNumber } from './text';
+
+/**
+ * Counts of character classes. Every grapheme is classified by its base
+ * character. Vowels and consonants are counted for Latin, Cyrillic and
+ * Greek letters, and are null when the text has letters of any other
+ * script, which the counter cannot split.
+ */
+export interface CharacterClassCounts {
+  vowel_count: number | null;
+  consonant_count: number | null;
+  digit_count: number;
+  whitespace_count: number;
+  punctuation_count: number;
+  uppercase_count: number;
+  lowercase_count: number;
+  emoji_count: number;
+}
+
+export interface Readability {
+  average_word_length: number | null;
+  sentence_count: number;
+  /** Flesch reading ease, higher is easier (English syllable rules) */
+  flesch_reading_ease: number | null;
+  /** Flesch-Kincaid US grade level (English syllable rules) */
+  flesch_kincaid_grade: number | null;
+}
+
+const LETTER = /^\p{L}/u;
+/** The lowercase base letter, stripped of diacritics so "é" counts as a vowel */
+const withoutDiacritics = (char: string) =>
+  char.normalize('NFD')[0].toLowerCase();
+const firstLowercase = (char: string) => [...char.toLowerCase()][0];
+/** Scripts split into vowels and consonants, with the base of a letter */
+const ALPHABETS: [
+  pattern: RegExp,
+  vowels: Set<string>,
+  base: (char: string) => string,
+][] = [
+  [/^\p{Script=Latin}/u, new Set('aeiou'), withoutDiacritics],
+  // "й" decomposes to "и", so Cyrillic letters are compared whole
+  [/^\p{Script=Cyrillic}/u, new Set('аеёиоуыэюяіїє'), firstLowercase],
+  [/^\p{Script=Greek}/u, new Set('αεηιουω'), withoutDiacritics],
+];
+const DIGIT = /^\p{Nd}/u;
+const WHITESPACE = /^\s/u;
+const PUNCTUATION = /^\p{P}/u;
+const UPPERCASE = /^[\p{Lu}\p{Lt}]/u;
+const LOWERCASE = /^\p{Ll}/u;
+const EMOJI = /\p{Extended_Pictographic}|\p{Regional_Indicator}/u;
+
+function round(value: number, digits: number): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Shannon entropy of the grapheme distribution, in bits per character
+ */
+export function entropy(chars: string[]): number {
+  const counts = new Map<string, number>();
+  for (const char of chars) counts.set(char, (counts.get(char) ?? 0) + 1);
+  return entropyOf(counts.values(), chars.length);
+}
+
+/**
+ * Shannon entropy from the count of every distinct character and their total
+ */
+export function entropyOf(counts: Iterable<number>, total: number): number {
+  let bits = 0;
+  for (const count of counts) {
+    const p = count / total;
+    bits -= p * Math.log2(p);
+  }
+  return round(bits, 4);
+}
+
+/**
+ * Frequency of every run of `n` consecutive graphemes
+ */
+export function ngramFrequency(
+  chars: string[],
+  n: number,
+): Record<string, number> {
+  const map: Record<string, number> = {};
+  for (let i = 0; i + n <= chars.length; i++) {
+    const gram = chars.slice(i, i + n).join('');
+    map[gram] = (map[gram] || 0) + 1;
+  }
+  return map;
+}
+
+/**
+ * Frequency of every word, case folded unless `case_sensitive`
+ */
+export function wordFrequency(
+  wordList: string[],
+  { case_sensitive, locale }: AnalysisOptions,
+): Record<string, number> {
+  const map: Record<string, number> = {};
+  for (const word of wordList) {
+    const key = case_sensitive ? word : word.toLocaleLowerCase(locale);
+    map[key] = (map[key] || 0) + 1;
+  }
+  return map;
+}
+
+export function characterClasses(chars: string[]): CharacterClassCounts {
+  const counts: CharacterClassCounts = {
+    vowel_count: 0,
+    consonant_count: 0,
+    digit_count: 0,
+    whitespace_count: 0,
+    punctuation_count: 0,
+    uppercase_count: 0,
+    lowercase_count: 0,
+    emoji_count: 0,
+  };
+  let vowels = 0;
+  let consonants = 0;
+  let otherLetters = false;
+  for (const char of chars) {
+    if (LETTER.test(char)) {
+      const alphabet = ALPHABETS.find(([pattern]) => pattern.test(char));
+      if (!alphabet) otherLetters = true;
+      else if (alphabet[1].has(alphabet[2](char))) vowels++;
+      else consonants++;
+    }
+    if (DIGIT.test(char)) counts.digit_count++;
+    if (WHITESPACE.test(char)) counts.whitespace_count++;
+    if (PUNCTUATION.test(char)) counts.punctuation_count++;
+    if (UPPERCASE.test(char)) counts.uppercase_count++;
+    if (LOWERCASE.test(char)) counts.lowercase_count++;
+    if (EMOJI.test(char)) counts.emoji_count++;
+  }
+  counts.vowel_count = otherLetters ? null : vowels;
+  counts.consonant_count = otherLetters ? null : consonants;
+  return counts;
+}
+
+/**
+ * Counts of two pieces of text together, null where either piece is null
+ */
+export function addCharacterClasses(
+  a: CharacterClassCounts,
+  b: CharacterClassCounts,
+): CharacterClassCounts {
+  const sum = (x: number | null, y: number | null) =>
+    x === null || y === null ? null : x + y;
+  return {
+    vowel_count: sum(a.vowel_count, b.vowel_count),
+    consonant_count: sum(a.consonant_count, b.consonant_count),
+    digit_count: a.digit_count + b.digit_count,
+    whitespace_count: a.whitespace_count + b.whitespace_count,
+    punctuation_count: a.punctuation_count + b.punctuation_count,
+    uppercase_count: a.uppercase_count + b.uppercase_count,
+    lowercase_count: a.lowercase_count + b.lowercase_count,
+    emoji_count: a.emoji_count + b.emoji_count,
+  };
+}
+
+/**
+ * Longest palindromic run of graphemes (Manacher's algorithm, linear time).
+ * Follows the palindrome options: lenient mode ignores everything but
+ * letters and numbers, and case is folded unless `case_sensitive`. The
+ * earliest candidate wins ties.
+ */
+export function longestPalindromicSubstring(
+  chars: string[],
+  { palindrome_mode, case_sensitive, locale }: AnalysisOptions,
+): string {
+  // positions of the compared graphemes in `chars`
+  const positions: number[] = [];
+  const keys: string[] = [];
+  chars.forEach((char, i) => {
+    if (palindrome_mode === 'lenient' && !isLetterOrNumber(char)) return;
+    positions.push(i);
+    keys.push(case_sensitive ? char : char.toLocaleLowerCase(locale));
+  });
+
+  const best = longestPalindrome(keys);
+  if (!best.length) return '';
+  return chars
+    .slice(positions[best.start], positions[best.start + best.length - 1] + 1)
+    .join('');
+}
+
+/**
+ * Start and length of the longest palindromic run of keys, the earliest
+ * on ties; length 0 without keys
+ */
+export function longestPalindrome(keys: ArrayLike<unknown>): {
+  start: number;
+  length: number;
+} {
+  const n = keys.length;
+  if (!n) return { start: 0, length: 0 };
+  let best = { start: 0, length: 1 };
+  const consider = (start: number, length: number) => {
+    if (
+      length > best.length ||
+      (length === best.length && start < best.start)
+    ) {
+      best = { start, length };
+    }
+  };
+
+  // odd lengths
+  const odd = new Int32Array(n);
+  for (let i = 0, l = 0, r = -1; i < n; i++) {
+    let k = i > r ? 1 : Math.min(odd[l + r - i], r - i + 1);
+    while (i - k >= 0 && i + k < n && keys[i - k] === keys[i + k]) k++;
+    odd[i] = k;
+    consider(i - k + 1, 2 * k - 1);
+    if (i + k - 1 > r) {
+      l = i - k + 1;
+      r = i + k - 1;
+    }
+  }
+
+  // even lengths
+  const even = new Int32Array(n);
+  for (let i = 0, l = 0, r = -1; i < n; i++) {
+    let k = i > r ? 0 : Math.min(even[l + r - i + 1], r - i + 1);
+    while (i - k - 1 >= 0 && i + k < n && keys[i - k - 1] === keys[i + k]) {
+      k++;
+    }
+    even[i] = k;
+    if (k) consider(i - k, 2 * k);
+    if (i + k - 1 > r) {
+      l = i - k;
+      r = i + k - 1;
+    }
+  }
+  return best;
+}
+
+/**
+ * Vowel groups of a word, minus a silent final "e". A rough English rule,
+ * good enough for readability scores.
+ */
+export function countSyllables(word: string): number {
+  const lower = word.toLowerCase().replace(/[^a-z]/g, '');
+  if (!lower) return 1;
+  if (lower.length <= 3) return 1;
+  const groups = lower
+    .replace(/(?:[^laeiouy]es|[^laeiouy]e)$/, '')
+    .match(/[aeiouy]+/g);
+  return Math.max(groups?.length ?? 0, 1);
+}
+
+export function countSentences(value: string, locale: string): number {
+  const segmenter = new Intl.Segmenter(locale, { granularity: 'sentence' });
+  let count = 0;
+  for (const s of segmenter.segment(value.normalize('NFC'))) {
+    if (/[\p{L}\p{N}]/u.test(s.segment)) count++;
+  }
+  return count;
+}
+
+/**
+ * Average word length (in graphemes), sentence count and Flesch scores.
+ * Scores are null for text without words.
+ */
+export function readability(
+  value: string,
+  wordList: string[],
+  locale: string,
+): Readability {
+  return readabilityScores({
+    sentences: countSentences(value, locale),
+    words: wordList.length,
+    ...wordLengths(wordList, locale),
+  });
+}
+
+/**
+ * Graphemes and syllables of a list of words, in total
+ */
+export function wordLengths(
+  wordList: string[],
+  locale: string,
+): { letters: number; syllables: number } {
+  const segmenter = new Intl.Segmenter(locale, { granularity: 'grapheme' });
+  let letters = 0;
+  let syllables = 0;
+  for (const word of wordList) {
+    letters += Array.from(segmenter.segment(word)).length;
+    syllables += countSyllables(word);
+  }
+  return { letters, syllables };
+}
+
+/**
+ * The readability of a text from its sentence, word, grapheme-in-words
+ * and syllable counts
+ */
+export function readabilityScores({
+  sentences,
+  words,
+  letters,
+  syllables,
+}: {
+  sentences: number;
+  words: number;
+  letters: number;
+  syllables: number;
+}): Readability {
+  if (!words) {
+    return {
+      average_word_length: null,
+      sentence_count: sentences,
+      flesch_reading_ease: null,
+      flesch_kincaid_grade: null,
+    };
+  }
+
+  const wordsPerSentence = words / Math.max(sentences, 1);
+  const syllablesPerWord = syllables / words;
+
+  return {
+    average_word_length: round(letters / words, 2),
+    sentence_count: sentences,
+    flesch_reading_ease: round(
+      206.835 - 1.015 * wordsPerSentence - 84.6 * syllablesPerWord,
+      2,
+    ),
+    flesch_kincaid_grade: round(
+      0.39 * wordsPerSentence + 11.8 * syllablesPerWord - 15.59,
+      2,
+    ),
+  };
+}
@@ -0,0 +1,65 @@
+/**
+ * Options that change how a value is analysed. They are stored with every
+ * record so its properties can be reproduced.
+ * - case_sensitive: compare letters by case in the palindrome check
+ * - palindrome_mode: 'lenient' only compares letters and numbers,
+ *   'strict' compares every character including spaces and punctuation
+ * - locale: BCP 47 tag used for word segmentation and case folding
+ */
+export interface AnalysisOptions {
+  case_sensitive: boolean;
+  palindrome_mode: 'strict' | 'lenient';
+  locale: string;
+}
+
+export const DEFAULT_ANALYSIS_OPTIONS: AnalysisOptions = {
+  case_sensitive: false,
+  palindrome_mode: 'lenient',
+  locale: 'en',
+};
+
+export class InvalidAnalysisOptionsError extends Error {
+  constructor(message = 'Invalid analysis options') {
+    super(message);
+  }
+}
+
+/**
+ * Validate user supplied options and fill in defaults. The locale is
+ * canonicalized so equal options compare equal.
+ * - throws InvalidAnalysisOptionsError on unknown keys or invalid values
+ */
+export function parseAnalysisOptions(raw: unknown): AnalysisOptions {
+  if (typeof raw === 'undefined' || raw === null) {
+    return { ...DEFAULT_ANALYSIS_OPTIONS };
+  }
+  const invalid = () => new InvalidAnalysisOptionsError();
+  if (typeof raw !== 'object' || Array.isArray(raw)) throw invalid();
+
+  const input = raw as Record<string, unknown>;
+  const options = { ...DEFAULT_ANALYSIS_OPTIONS };
+  for (const [key, value] of Object.entries(input)) {
+    switch (key) {
+      case 'case_sensitive':
+        if (typeof value !== 'boolean') throw invalid();
+        options.case_sensitive = value;
+        break;
+      case 'palindrome_mode':
+        if (value !== 'strict' && value !== 'lenient') throw invalid();
+        options.palindrome_mode = value;
+        break;
+      case 'locale':
+        if (typeof value !== 'string') throw invalid();
+        try {
+          [options.locale] = Intl.getCanonicalLocales(value);
+        } catch {
+          throw invalid();
+        }
+        if (!options.locale) throw invalid();
+        break;
+      default:
+        throw invalid();
+    }
+  }
+  return options;
+}
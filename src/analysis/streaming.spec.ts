@@ -0,0 +1,58 @@
+import { analyzeString, sha256 } from './analyze';
+import { DEFAULT_ANALYSIS_OPTIONS } from './options';
+import { analyzeStream, chunksOf, StreamingAnalysis } from './streaming';
+
+const TEXTS = [
+  '',
+  'racecar',
+  'A man, a plan, a canal: Panama! Was it a car or a cat I saw? No lemon, no melon.',
+  'Café au lait. Dr. Smith arrived at 5 p.m. and left. Then 👩‍👩‍👧 waved 🇫🇷!',
+  'Привіт, як справи? Все добре. Ґанок і їжак. Abc def.',
+  '...!!! ??? 123 456. 42',
+  'Never odd or even. '.repeat(40) + 'Step on no pets',
+];
+
+describe('StreamingAnalysis', () => {
+  it.each(TEXTS)('matches analyzeString in small chunks: %#', (value) => {
+    for (const size of [1, 7, 32]) {
+      const analysis = new StreamingAnalysis(DEFAULT_ANALYSIS_OPTIONS, size);
+      for (const chunk of chunksOf(value, 5)) analysis.write(chunk);
+      expect(analysis.end()).toEqual(analyzeString(value));
+    }
+  });
+
+  it('follows the palindrome options', async () => {
+    const value = 'Step on no pets. '.repeat(10).trim();
+    const options = {
+      ...DEFAULT_ANALYSIS_OPTIONS,
+      palindrome_mode: 'strict' as const,
+      case_sensitive: true,
+    };
+    await expect(
+      analyzeStream(chunksOf(value, 3), options, 16),
+    ).resolves.toEqual(analyzeString(value, options));
+  });
+
+  it('cuts text without sentence or word boundaries', () => {
+    // analyzeString would take long over a single word this size
+    const value = 'ab'.repeat(10 * 1024);
+    const analysis = new StreamingAnalysis(DEFAULT_ANALYSIS_OPTIONS);
+    for (const chunk of chunksOf(value)) analysis.write(chunk);
+    const result = analysis.end();
+    expect(result.sha256_hash).toBe(sha256(value));
+    expect(result.length).toBe(value.length);
+    expect(result.character_frequency_map).toEqual({ a: 10240, b: 10240 });
+    expect(result.is_palindrome).toBe(false);
+    expect(result.longest_palindrome_length).toBe(value.length - 1);
+    expect(result.sentence_count).toBe(1);
+    expect(result.word_count).toBe(2);
+  });
+
+  it('keeps the key order of analyzeString', () => {
+    const analysis = new StreamingAnalysis(DEFAULT_ANALYSIS_OPTIONS);
+    analysis.write('Hello there');
+    expect(Object.keys(analysis.end())).toEqual(
+      Object.keys(analyzeString('Hello there')),
+    );
+  });
+});
@@ -0,0 +1,286 @@
+import * as crypto from 'crypto';
+import { setImmediate } from 'timers/promises';
+import { AnalysisOptions } from './options';
+import { graphemes, isLetterOrNumber, words } from './text';
+import {
+  addCharacterClasses,
+  CharacterClassCounts,
+  characterClasses,
+  entropyOf,
+  longestPalindrome,
+  ngramFrequency,
+  readabilityScores,
+  wordFrequency,
+  wordLengths,
+} from './metrics';
+import { LanguageDetector } from './language';
+import { StringAnalysis } from './analyze';
+
+/**
+ * Code units of input gathered before a piece is analysed. Every segment
+ * Intl.Segmenter yields holds a copy of its input, so segmenting is
+ * quadratic in the length of the string; small pieces keep the whole
+ * analysis linear.
+ */
+export const STREAM_CHUNK_SIZE = 8 * 1024;
+
+/**
+ * Input held back waiting for a sentence boundary before a piece is cut at
+ * a word boundary instead
+ */
+const MAX_PENDING = 16 * 1024;
+
+const LETTER = /\p{L}/u;
+
+/** Adds the counts of a frequency map into another */
+function merge(into: Record<string, number>, from: Record<string, number>) {
+  for (const [key, count] of Object.entries(from)) {
+    into[key] = (into[key] || 0) + count;
+  }
+}
+
+/** An Int32Array that doubles when full */
+class IntList {
+  private data = new Int32Array(1024);
+  length = 0;
+
+  push(value: number) {
+    if (this.length === this.data.length) {
+      const grown = new Int32Array(this.data.length * 2);
+      grown.set(this.data);
+      this.data = grown;
+    }
+    this.data[this.length++] = value;
+  }
+
+  get(index: number): number {
+    return this.data[index];
+  }
+
+  values(): Int32Array {
+    return this.data.subarray(0, this.length);
+  }
+}
+
+/**
+ * The analysis of a value fed in chunks, equal to analyzeString over the
+ * whole value. Input is cut into pieces at sentence boundaries, so
+ * segmentation and normalization never straddle a cut, and each piece
+ * only updates the hash and counters; no array of every grapheme or word
+ * is ever built. A sentence longer than MAX_PENDING is cut at a word
+ * boundary instead, and a word that long between two graphemes, where
+ * it counts as two words.
+ *
+ * The palindrome properties need the whole sequence: compared characters
+ * are kept as integer ids, with their offsets in the normalized text and
+ * their position among the graphemes.
+ */
+export class StreamingAnalysis {
+  private readonly hash = crypto.createHash('sha256');
+  private pending = '';
+  /** the last piece ended inside a sentence, which was counted or not */
+  private openSentence: { counted: boolean } | null = null;
+
+  private length = 0;
+  private readonly frequency = new Map<string, number>();
+  private classes: CharacterClassCounts = {
+    vowel_count: 0,
+    consonant_count: 0,
+    digit_count: 0,
+    whitespace_count: 0,
+    punctuation_count: 0,
+    uppercase_count: 0,
+    lowercase_count: 0,
+    emoji_count: 0,
+  };
+  /** last graphemes of the previous piece, for n-grams across pieces */
+  private tail: string[] = [];
+  private readonly bigrams: Record<string, number> = {};
+  private readonly trigrams: Record<string, number> = {};
+  private readonly wordFrequency: Record<string, number> = {};
+  private readonly counts = {
+    sentences: 0,
+    words: 0,
+    letters: 0,
+    syllables: 0,
+  };
+  private readonly language = new LanguageDetector();
+
+  /** normalized text of the analysed pieces */
+  private readonly text: string[] = [];
+  private offset = 0;
+  private graphemeCount = 0;
+  private readonly keyIds = new Map<string, number>();
+  private readonly keys = new IntList();
+  private readonly starts = new IntList();
+  private readonly ends = new IntList();
+  private readonly positions = new IntList();
+
+  constructor(
+    private readonly options: AnalysisOptions,
+    private readonly chunkSize = STREAM_CHUNK_SIZE,
+  ) {}
+
+  write(chunk: string) {
+    this.pending += chunk;
+    if (this.pending.length < this.chunkSize) return;
+
+    const { locale } = this.options;
+    const sentences = new Intl.Segmenter(locale, { granularity: 'sentence' });
+    // the boundary before the last sentence is final once a letter follows it
+    const last = sentences
+      .segment(this.pending)
+      .containing(this.pending.length - 1)!;
+    if (last.index > 0 && LETTER.test(last.segment)) {
+      this.cut(last.index, false);
+    } else if (this.pending.length >= MAX_PENDING) {
+      const boundary = (granularity: 'word' | 'grapheme') =>
+        new Intl.Segmenter(locale, { granularity })
+          .segment(this.pending)
+          .containing(this.pending.length - 1)!.index;
+      const index = boundary('word') || boundary('grapheme');
+      if (index > 0) this.cut(index, true);
+    }
+  }
+
+  end(): StringAnalysis {
+    if (this.pending) this.cut(this.pending.length, false);
+
+    const keys = this.keys.values();
+    let palindrome = true;
+    for (let i = 0, j = keys.length - 1; i < j; i++, j--) {
+      if (keys[i] !== keys[j]) {
+        palindrome = false;
+        break;
+      }
+    }
+    const best = longestPalindrome(keys);
+    const last = best.start + best.length - 1;
+    const longest = best.length
+      ? this.text
+          .join('')
+          .slice(this.starts.get(best.start), this.ends.get(last))
+      : '';
+
+    return {
+      length: this.length,
+      is_palindrome: palindrome,
+      unique_characters: this.frequency.size,
+      word_count: this.counts.words,
+      sha256_hash: this.hash.digest('hex'),
+      character_frequency_map: Object.fromEntries(this.frequency),
+      entropy: entropyOf(this.frequency.values(), this.length),
+      bigram_frequency_map: this.bigrams,
+      trigram_frequency_map: this.trigrams,
+      word_frequency_map: this.wordFrequency,
+      ...this.classes,
+      longest_palindromic_substring: longest,
+      longest_palindrome_length: best.length
+        ? this.positions.get(last) - this.positions.get(best.start) + 1
+        : 0,
+      ...readabilityScores(this.counts),
+      ...this.language.result(),
+    };
+  }
+
+  /** Analyse the pending input up to `index`; `inSentence` if not a sentence boundary */
+  private cut(index: number, inSentence: boolean) {
+    const raw = this.pending.slice(0, index);
+    this.pending = this.pending.slice(index);
+    this.hash.update(raw);
+
+    const { locale, palindrome_mode, case_sensitive } = this.options;
+    const text = raw.normalize('NFC');
+    const chars = graphemes(text, locale);
+    const wordList = words(text, locale);
+
+    this.length += chars.length;
+    for (const char of chars) {
+      this.frequency.set(char, (this.frequency.get(char) ?? 0) + 1);
+    }
+    this.classes = addCharacterClasses(this.classes, characterClasses(chars));
+    merge(this.bigrams, ngramFrequency([...this.tail.slice(-1), ...chars], 2));
+    merge(this.trigrams, ngramFrequency([...this.tail, ...chars], 3));
+    this.tail = [...this.tail, ...chars.slice(-2)].slice(-2);
+
+    merge(this.wordFrequency, wordFrequency(wordList, this.options));
+    const lengths = wordLengths(wordList, locale);
+    this.counts.words += wordList.length;
+    this.counts.letters += lengths.letters;
+    this.counts.syllables += lengths.syllables;
+    this.countSentences(text, inSentence);
+    this.language.addCharacters(chars);
+    this.language.addWords(wordList);
+
+    for (const char of chars) {
+      const start = this.offset;
+      const position = this.graphemeCount++;
+      this.offset += char.length;
+      if (palindrome_mode === 'lenient' && !isLetterOrNumber(char)) continue;
+      const key = case_sensitive ? char : char.toLocaleLowerCase(locale);
+      let id = this.keyIds.get(key);
+      if (id === undefined) {
+        id = this.keyIds.size;
+        this.keyIds.set(key, id);
+      }
+      this.keys.push(id);
+      this.starts.push(start);
+      this.ends.push(this.offset);
+      this.positions.push(position);
+    }
+    this.text.push(text);
+  }
+
+  /**
+   * Sentences with a letter or number, as countSentences counts them; a
+   * sentence continued from the previous piece counts once
+   */
+  private countSentences(text: string, inSentence: boolean) {
+    const segmenter = new Intl.Segmenter(this.options.locale, {
+      granularity: 'sentence',
+    });
+    const segments = Array.from(segmenter.segment(text), (s) =>
+      /[\p{L}\p{N}]/u.test(s.segment),
+    );
+    segments.forEach((counts, i) => {
+      if (i === 0 && this.openSentence) {
+        if (counts && !this.openSentence.counted) this.counts.sentences++;
+        counts ||= this.openSentence.counted;
+      } else if (counts) {
+        this.counts.sentences++;
+      }
+      segments[i] = counts;
+    });
+    this.openSentence =
+      inSentence && segments.length
+        ? { counted: segments[segments.length - 1] }
+        : null;
+  }
+}
+
+/** A string as chunks of `size` code units */
+export function* chunksOf(
+  value: string,
+  size = STREAM_CHUNK_SIZE,
+): Generator<string> {
+  for (let i = 0; i < value.length; i += size) {
+    yield value.slice(i, i + size);
+  }
+}
+
+/**
+ * Analyse a value chunk by chunk, yielding to the event loop between
+ * chunks so other requests are served while a large value is analysed
+ */
+export async function analyzeStream(
+  chunks: Iterable<string> | AsyncIterable<string>,
+  options: AnalysisOptions,
+  chunkSize = STREAM_CHUNK_SIZE,
+): Promise<StringAnalysis> {
+  const analysis = new StreamingAnalysis(options, chunkSize);
+  for await (const chunk of chunks) {
+    analysis.write(chunk);
+    await setImmediate();
+  }
+  return analysis.end();
+}
@@ -0,0 +1,92 @@
+/**
+ * Unicode helpers shared by the analyzers. A "character" is a grapheme
+ * cluster, so emoji sequences and letters with combining marks count once.
+ */
+
+const LETTER_OR_NUMBER = /^[\p{L}\p{N}]/u;
+
+/**
+ * Split a value into NFC-normalized grapheme clusters
+ */
+export function graphemes(value: string, locale: string): string[] {
+  const segmenter = new Intl.Segmenter(locale, { granularity: 'grapheme' });
+  return Array.from(
+    segmenter.segment(value.normalize('NFC')),
+    (s) => s.segment,
+  );
+}
+
+/**
+ * Word-like segments using the locale's word boundaries
+ */
+export function words(value: string, locale: string): string[] {
+  const segmenter = new Intl.Segmenter(locale, { granularity: 'word' });
+  const result: string[] = [];
+  for (const s of segmenter.segment(value.normalize('NFC'))) {
+    if (s.isWordLike) result.push(s.segment);
+  }
+  return result;
+}
+
+/**
+ * Count word-like segments using the locale's word boundaries
+ */
+export function countWords(value: string, locale: string): number {
+  return words(value, locale).length;
+}
+
+/**
+ * Whether a grapheme cluster is based on a letter or number
+ */
+export function isLetterOrNumber(grapheme: string): boolean {
+  return LETTER_OR_NUMBER.test(grapheme);
+}
+
+/**
+ * Anagram signature: letters and numbers, lowercased and sorted, so
+ * "Listen" and "Silent" share "eilnst"
+ */
+export function anagramSignature(value: string): string {
+  return graphemes(value, 'en')
+    .filter(isLetterOrNumber)
+    .map((c) => c.toLowerCase())
+    .sort()
+    .join('');
+}
+
+export function isSingleGrapheme(value: string): boolean {
+  return graphemes(value, 'en').length === 1;
+}
+
+/**
+ * Levenshtein distance between two strings, counted in code points, or
+ * between two arrays of characters (e.g. graphemes).
+ * With `max`, stops early and returns max + 1 once the distance exceeds it.
+ */
+export function editDistance(
+  a: string | string[],
+  b: string | string[],
+  max = Infinity,
+): number {
+  const left = typeof a === 'string' ? Array.from(a) : a;
+  const right = typeof b === 'string' ? Array.from(b) : b;
+  if (Math.abs(left.length - right.length) > max) return max + 1;
+
+  let previous = Array.from({ length: right.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= left.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= right.length; j++) {
+      const cost = left[i - 1] === right[j - 1] ? 0 : 1;
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + cost,
+      );
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) return max + 1;
+    previous = current;
+  }
+  return Math.min(previous[right.length], max + 1);
+}
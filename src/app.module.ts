@@ -1,27 +1,45 @@
-import { Module } from '@nestjs/common';
-import { TypeOrmModule } from '@nestjs/typeorm';
-import { AppController } from './app.controller';
-import { AppService } from './app.service';
-import { ConfigModule, ConfigService } from '@nestjs/config';
+import {
+  MiddlewareConsumer,
+  Module,
+  NestModule,
+  RequestMethod,
+} from '@nestjs/common';
+import { APP_FILTER, APP_GUARD, APP_PIPE } from '@nestjs/core';
+import { ConfigModule } from '@nestjs/config';
+import { DatabaseModule } from './database/database.module';
+import { PostgresOnlyGuard, whenPostgres } from './database/postgres';
 import { StringAnalyzerModule } from './string-analyzer/string-analyzer.module';
-import { StringAnalyzer } from './string-analyzer/entities/string-analyzer.entity';
+import { JobsModule } from './jobs/jobs.module';
+import { AuthModule } from './auth/auth.module';
+import { WebhooksModule } from './webhooks/webhooks.module';
+import { ObservabilityModule } from './observability/observability.module';
+import { HttpMetricsMiddleware } from './observability/http-metrics.middleware';
+import { ProblemDetailsFilter } from './common/filters';
+import { requestIdMiddleware } from './common/request-id.middleware';
+import { ErrorsController } from './common/errors.controller';
+import { ApiValidationPipe } from './common/validation';
 
 @Module({
   imports: [
     ConfigModule.forRoot(),
-    TypeOrmModule.forRootAsync({
-      imports: [ConfigModule],
-      useFactory: (configService: ConfigService) => ({
-        type: 'postgres',
-        url: configService.get<string>('DATABASE_URL'),
-        entities: [StringAnalyzer],
-        synchronize: true,
-      }),
-      inject: [ConfigService],
-    }),
+    whenPostgres(DatabaseModule),
+    ObservabilityModule,
+    AuthModule,
     StringAnalyzerModule,
+    JobsModule,
+    WebhooksModule,
+  ],
+  controllers: [ErrorsController],
+  providers: [
+    { provide: APP_FILTER, useClass: ProblemDetailsFilter },
+    { provide: APP_PIPE, useClass: ApiValidationPipe },
+    { provide: APP_GUARD, useClass: PostgresOnlyGuard },
   ],
-  controllers: [AppController],
-  providers: [AppService],
 })
-export class AppModule {}
+export class AppModule implements NestModule {
+  configure(consumer: MiddlewareConsumer) {
+    consumer
+      .apply(requestIdMiddleware, HttpMetricsMiddleware)
+      .forRoutes({ path: '{*path}', method: RequestMethod.ALL });
+  }
+}
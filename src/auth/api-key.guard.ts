@@ -0,0 +1,123 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import type { Request, Response } from 'express';
+import {
+  ANALYSIS_VOLUME_KEY,
+  AuthenticatedKey,
+  AuthenticatedRequest,
+  PUBLIC_KEY,
+  SCOPE_KEY,
+} from './auth.decorators';
+import { Scope } from './entities/api-key.entity';
+import { ApiKeysService } from './api-keys.service';
+import { RateLimiter } from './rate-limiter';
+import { QuotaService, setQuotaHeaders } from './quota.service';
+import { ApiException } from '../common/errors';
+
+/**
+ * Authenticates every request by API key (`Authorization: Bearer <key>` or
+ * `X-API-Key`), checks the scope of the route, then applies the rate limit
+ * and daily analysis quota of the key. Limit state is reported in
+ * `RateLimit-*` and `X-Quota-*` headers; rejections are thrown as HTTP
+ * exceptions so the global exception filter renders them. The quota is
+ * charged before the handler runs and refunded when the request fails
+ * (4xx or 5xx), so only answered analyses count.
+ */
+@Injectable()
+export class ApiKeyGuard implements CanActivate {
+  private readonly logger = new Logger(ApiKeyGuard.name);
+
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly keys: ApiKeysService,
+    private readonly limiter: RateLimiter,
+    private readonly quota: QuotaService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const targets = [context.getHandler(), context.getClass()];
+    if (this.reflector.getAllAndOverride<boolean>(PUBLIC_KEY, targets)) {
+      return true;
+    }
+
+    const req = context.switchToHttp().getRequest<AuthenticatedRequest>();
+    const res = context.switchToHttp().getResponse<Response>();
+
+    const secret = extractKey(req);
+    if (!secret) throw new ApiException('MISSING_API_KEY', 'Missing API key');
+    const key = await this.keys.authenticate(secret);
+    if (!key)
+      throw new ApiException('INVALID_API_KEY', 'Invalid or revoked API key');
+
+    const scope =
+      this.reflector.getAllAndOverride<Scope>(SCOPE_KEY, targets) ?? 'admin';
+    if (!key.scopes.includes(scope) && !key.scopes.includes('admin')) {
+      throw new ApiException(
+        'INSUFFICIENT_SCOPE',
+        `API key lacks the "${scope}" scope`,
+      );
+    }
+
+    this.checkRateLimit(key, res);
+
+    const volume = this.reflector.get<((req: Request) => number) | undefined>(
+      ANALYSIS_VOLUME_KEY,
+      context.getHandler(),
+    );
+    const count = volume ? volume(req) : 0;
+    if (count > 0) {
+      const state = await this.quota.charge(key, count);
+      if (state) setQuotaHeaders(res, state);
+      if (state && !state.allowed) {
+        throw new ApiException(
+          'QUOTA_EXCEEDED',
+          'Daily analysis quota exceeded',
+        );
+      }
+      if (state && key.id !== null) {
+        this.refundOnFailure(res, key.id, count, state.day);
+      }
+    }
+
+    req.apiKey = key;
+    return true;
+  }
+
+  private refundOnFailure(
+    res: Response,
+    keyId: string,
+    count: number,
+    day: string,
+  ) {
+    res.on('finish', () => {
+      if (res.statusCode < 400) return;
+      this.quota
+        .refund(keyId, count, day)
+        .catch((err) => this.logger.error('Error in refund', err));
+    });
+  }
+
+  private checkRateLimit(key: AuthenticatedKey, res: Response) {
+    if (key.id === null || key.rate_limit === null) return;
+    const state = this.limiter.hit(key.id, key.rate_limit);
+    res.setHeader('RateLimit-Limit', state.limit);
+    res.setHeader('RateLimit-Remaining', state.remaining);
+    res.setHeader('RateLimit-Reset', state.reset);
+    if (!state.allowed) {
+      res.setHeader('Retry-After', state.reset);
+      throw new ApiException('RATE_LIMITED', 'Rate limit exceeded');
+    }
+  }
+}
+
+function extractKey(req: Request): string | null {
+  const header = req.headers.authorization;
+  if (header?.startsWith('Bearer ')) return header.slice(7).trim() || null;
+  const apiKey = req.headers['x-api-key'];
+  return typeof apiKey === 'string' && apiKey ? apiKey : null;
+}
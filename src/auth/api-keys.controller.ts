@@ -0,0 +1,113 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  Param,
+  Post,
+} from '@nestjs/common';
+import {
+  ApiCreatedResponse,
+  ApiNoContentResponse,
+  ApiOkResponse,
+  ApiOperation,
+  ApiTags,
+} from '@nestjs/swagger';
+import { ApiKeysService } from './api-keys.service';
+import { RequireScope } from './auth.decorators';
+import { ApiProblems } from '../common/api-docs';
+import {
+  ApiKeyDto,
+  ApiKeyListDto,
+  IssuedApiKeyDto,
+  IssueApiKeyDto,
+} from './dto/api-key.dto';
+import { PostgresOnly } from '../database/postgres';
+
+@ApiTags('api keys')
+@Controller('admin/keys')
+@PostgresOnly()
+@RequireScope('admin')
+export class ApiKeysController {
+  constructor(private readonly service: ApiKeysService) {}
+
+  /**
+   * POST /admin/keys
+   * - body: { name, scopes: ('read' | 'write' | 'delete' | 'admin')[], rate_limit?, daily_quota? }
+   * - 201 with the key; `key` holds the secret and is never shown again
+   * - 400 on invalid fields
+   */
+  @Post()
+  @HttpCode(201)
+  @ApiOperation({ operationId: 'issueApiKey', summary: 'Issue an API key' })
+  @ApiCreatedResponse({ type: IssuedApiKeyDto })
+  @ApiProblems('INVALID_BODY')
+  async issue(@Body() body: IssueApiKeyDto) {
+    return this.service.issue({
+      name: body.name,
+      scopes: [...new Set(body.scopes)],
+      rate_limit: body.rate_limit,
+      daily_quota: body.daily_quota,
+    });
+  }
+
+  /**
+   * GET /admin/keys -> 200 with every key, revoked ones included
+   */
+  @Get()
+  @ApiOperation({
+    operationId: 'listApiKeys',
+    summary: 'List the API keys, revoked ones included',
+  })
+  @ApiOkResponse({ type: ApiKeyListDto })
+  async list() {
+    const data = await this.service.list();
+    return { data, count: data.length };
+  }
+
+  /**
+   * GET /admin/keys/:id -> 200 with the key and today's usage, 404 if not found
+   */
+  @Get(':id')
+  @ApiOperation({
+    operationId: 'getApiKey',
+    summary: "Get an API key and today's usage",
+  })
+  @ApiOkResponse({ type: ApiKeyDto })
+  @ApiProblems('API_KEY_NOT_FOUND')
+  async get(@Param('id') id: string) {
+    return this.service.get(id);
+  }
+
+  /**
+   * POST /admin/keys/:id/rotate
+   * - 200 with a new secret in `key`; the old one stops working immediately
+   * - 404 if not found or revoked
+   */
+  @Post(':id/rotate')
+  @HttpCode(200)
+  @ApiOperation({
+    operationId: 'rotateApiKey',
+    summary: 'Replace the secret of an API key',
+  })
+  @ApiOkResponse({ type: IssuedApiKeyDto })
+  @ApiProblems('API_KEY_NOT_FOUND')
+  async rotate(@Param('id') id: string) {
+    return this.service.rotate(id);
+  }
+
+  /**
+   * DELETE /admin/keys/:id
+   * - 204 once revoked (the key stays listed with revoked_at)
+   * - 404 if not found
+   */
+  @Delete(':id')
+  @HttpCode(204)
+  @ApiOperation({ operationId: 'revokeApiKey', summary: 'Revoke an API key' })
+  @ApiNoContentResponse()
+  @ApiProblems('API_KEY_NOT_FOUND')
+  async revoke(@Param('id') id: string) {
+    await this.service.revoke(id);
+  }
+}
@@ -0,0 +1,228 @@
+import { Injectable, Logger, Optional } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, Repository } from 'typeorm';
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { ApiKey, Scope } from './entities/api-key.entity';
+import { AuthenticatedKey } from './auth.decorators';
+import { QuotaService } from './quota.service';
+import { ApiException, unexpected } from '../common/errors';
+import { postgresOnly } from '../database/postgres';
+
+/** Requests per minute of keys issued without a rate_limit */
+export const DEFAULT_RATE_LIMIT = 120;
+/** Values analysed per day by keys issued without a daily_quota */
+export const DEFAULT_DAILY_QUOTA = 100_000;
+
+/** Shown characters of a secret, e.g. "sa_Xk3v9Q" */
+const PREFIX_LENGTH = 9;
+/** last_used_at is written at most this often per key */
+const LAST_USED_INTERVAL_MS = 60_000;
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export interface IssueKeyOptions {
+  name: string;
+  scopes: Scope[];
+  rate_limit?: number;
+  daily_quota?: number;
+}
+
+export type ApiKeyResponse = Omit<ApiKey, 'key_hash'> & {
+  /** values analysed today (UTC) */
+  analyzed_today?: number;
+};
+
+/** An issued or rotated key, the only time its secret is visible */
+export type IssuedKey = ApiKeyResponse & { key: string };
+
+function hashKey(secret: string): string {
+  return createHash('sha256').update(secret).digest('hex');
+}
+
+/**
+ * API keys. Only a sha256 of each secret is stored; secrets are random
+ * enough that a fast hash is sufficient.
+ */
+@Injectable()
+export class ApiKeysService {
+  private readonly logger = new Logger(ApiKeysService.name);
+
+  /** hash of ADMIN_API_KEY, the key used to issue the first real keys */
+  private readonly bootstrapHash: Buffer | null;
+
+  constructor(
+    @Optional()
+    @InjectRepository(ApiKey)
+    private readonly keysRepository: Repository<ApiKey> | undefined,
+    private readonly quota: QuotaService,
+    config: ConfigService,
+  ) {
+    const bootstrap = config.get<string>('ADMIN_API_KEY');
+    this.bootstrapHash = bootstrap
+      ? Buffer.from(hashKey(bootstrap), 'hex')
+      : null;
+  }
+
+  private get keys(): Repository<ApiKey> {
+    return postgresOnly(this.keysRepository);
+  }
+
+  /**
+   * The key behind a secret, null if unknown or revoked
+   */
+  async authenticate(secret: string): Promise<AuthenticatedKey | null> {
+    const hash = hashKey(secret);
+    if (
+      this.bootstrapHash &&
+      timingSafeEqual(Buffer.from(hash, 'hex'), this.bootstrapHash)
+    ) {
+      return {
+        id: null,
+        name: 'bootstrap',
+        scopes: ['admin'],
+        rate_limit: null,
+        daily_quota: null,
+      };
+    }
+    // keys are issued only with the postgres string store
+    if (!this.keysRepository) return null;
+
+    const key = await this.keys.findOne({
+      where: { key_hash: hash, revoked_at: IsNull() },
+    });
+    if (!key) return null;
+
+    const now = Date.now();
+    if (
+      !key.last_used_at ||
+      now - key.last_used_at.getTime() > LAST_USED_INTERVAL_MS
+    ) {
+      this.keys
+        .update({ id: key.id }, { last_used_at: new Date(now) })
+        .catch((err) => this.logger.error('Error updating last_used_at', err));
+    }
+    return {
+      id: key.id,
+      name: key.name,
+      scopes: key.scopes,
+      rate_limit: key.rate_limit,
+      daily_quota: key.daily_quota,
+    };
+  }
+
+  async issue({
+    name,
+    scopes,
+    rate_limit = DEFAULT_RATE_LIMIT,
+    daily_quota = DEFAULT_DAILY_QUOTA,
+  }: IssueKeyOptions): Promise<IssuedKey> {
+    try {
+      const secret = this.generateSecret();
+      const key = await this.keys.save(
+        this.keys.create({
+          name,
+          scopes,
+          rate_limit,
+          daily_quota,
+          prefix: secret.slice(0, PREFIX_LENGTH),
+          key_hash: hashKey(secret),
+          rotated_at: null,
+          last_used_at: null,
+          revoked_at: null,
+        }),
+      );
+      return { ...this.toResponse(key), key: secret };
+    } catch (err) {
+      this.logger.error('Error in issue', err);
+      throw unexpected(err);
+    }
+  }
+
+  async list(): Promise<ApiKeyResponse[]> {
+    try {
+      const keys = await this.keys.find({ order: { created_at: 'ASC' } });
+      return keys.map((key) => this.toResponse(key));
+    } catch (err) {
+      this.logger.error('Error in list', err);
+      throw unexpected(err);
+    }
+  }
+
+  /**
+   * A key with today's usage
+   * - 404 if not found
+   */
+  async get(id: string): Promise<ApiKeyResponse> {
+    const key = await this.find(id);
+    return {
+      ...this.toResponse(key),
+      analyzed_today: await this.quota.usedToday(key.id),
+    };
+  }
+
+  /**
+   * Replace the secret of a key; the old secret stops working at once
+   * - 404 if not found or revoked
+   */
+  async rotate(id: string): Promise<IssuedKey> {
+    const key = await this.find(id);
+    if (key.revoked_at) {
+      throw new ApiException('API_KEY_NOT_FOUND', 'API key does not exist');
+    }
+    try {
+      const secret = this.generateSecret();
+      key.prefix = secret.slice(0, PREFIX_LENGTH);
+      key.key_hash = hashKey(secret);
+      key.rotated_at = new Date();
+      await this.keys.save(key);
+      return { ...this.toResponse(key), key: secret };
+    } catch (err) {
+      this.logger.error('Error in rotate', err);
+      throw unexpected(err);
+    }
+  }
+
+  /**
+   * Revoke a key for good; revoking twice changes nothing
+   * - 404 if not found
+   */
+  async revoke(id: string): Promise<void> {
+    const key = await this.find(id);
+    if (key.revoked_at) return;
+    try {
+      await this.keys.update({ id }, { revoked_at: new Date() });
+    } catch (err) {
+      this.logger.error('Error in revoke', err);
+      throw unexpected(err);
+    }
+  }
+
+  private async find(id: string): Promise<ApiKey> {
+    const key = UUID.test(id)
+      ? await this.keys.findOne({ where: { id } })
+      : null;
+    if (!key)
+      throw new ApiException('API_KEY_NOT_FOUND', 'API key does not exist');
+    return key;
+  }
+
+  private generateSecret(): string {
+    return `sa_${randomBytes(24).toString('base64url')}`;
+  }
+
+  private toResponse(key: ApiKey): ApiKeyResponse {
+    return {
+      id: key.id,
+      name: key.name,
+      prefix: key.prefix,
+      scopes: key.scopes,
+      rate_limit: key.rate_limit,
+      daily_quota: key.daily_quota,
+      created_at: key.created_at,
+      rotated_at: key.rotated_at,
+      last_used_at: key.last_used_at,
+      revoked_at: key.revoked_at,
+    };
+  }
+}
@@ -0,0 +1,51 @@
+import {
+  applyDecorators,
+  createParamDecorator,
+  ExecutionContext,
+  SetMetadata,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiSecurity } from '@nestjs/swagger';
+import type { Request } from 'express';
+import { Scope } from './entities/api-key.entity';
+
+export const PUBLIC_KEY = 'auth:public';
+export const SCOPE_KEY = 'auth:scope';
+export const ANALYSIS_VOLUME_KEY = 'auth:analysis-volume';
+
+/** The key a request was authenticated with */
+export interface AuthenticatedKey {
+  /** null for the bootstrap key from ADMIN_API_KEY */
+  id: string | null;
+  name: string;
+  scopes: Scope[];
+  rate_limit: number | null;
+  daily_quota: number | null;
+}
+
+export type AuthenticatedRequest = Request & { apiKey?: AuthenticatedKey };
+
+/** Route needs no API key */
+export const Public = () => SetMetadata(PUBLIC_KEY, true);
+
+/**
+ * Scope a key needs for a route (or every route of a controller).
+ * Routes without one need the admin scope; admin keys pass every check.
+ */
+export const RequireScope = (scope: Scope) =>
+  applyDecorators(
+    SetMetadata(SCOPE_KEY, scope),
+    ApiBearerAuth(),
+    ApiSecurity('api-key'),
+  );
+
+/**
+ * Number of values a request analyses, charged to the daily quota of its key
+ * before the handler runs
+ */
+export const AnalysisVolume = (count: (req: Request) => number) =>
+  SetMetadata(ANALYSIS_VOLUME_KEY, count);
+
+export const CurrentKey = createParamDecorator(
+  (_: unknown, ctx: ExecutionContext) =>
+    ctx.switchToHttp().getRequest<AuthenticatedRequest>().apiKey,
+);
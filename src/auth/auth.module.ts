@@ -0,0 +1,28 @@
+import { Module } from '@nestjs/common';
+import { APP_GUARD } from '@nestjs/core';
+import { ConfigModule } from '@nestjs/config';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { ApiKey } from './entities/api-key.entity';
+import { ApiKeyUsage } from './entities/api-key-usage.entity';
+import { ApiKeysService } from './api-keys.service';
+import { ApiKeysController } from './api-keys.controller';
+import { ApiKeyGuard } from './api-key.guard';
+import { QuotaService } from './quota.service';
+import { RateLimiter } from './rate-limiter';
+import { whenPostgres } from '../database/postgres';
+
+@Module({
+  providers: [
+    ApiKeysService,
+    QuotaService,
+    RateLimiter,
+    { provide: APP_GUARD, useClass: ApiKeyGuard },
+  ],
+  controllers: [ApiKeysController],
+  imports: [
+    ConfigModule,
+    whenPostgres(TypeOrmModule.forFeature([ApiKey, ApiKeyUsage])),
+  ],
+  exports: [QuotaService],
+})
+export class AuthModule {}
@@ -0,0 +1,117 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+  Length,
+  Max,
+  Min,
+} from 'class-validator';
+import { type Scope, SCOPES } from '../entities/api-key.entity';
+import { DEFAULT_DAILY_QUOTA, DEFAULT_RATE_LIMIT } from '../api-keys.service';
+
+/** Upper bound for rate_limit and daily_quota */
+const MAX_LIMIT = 100_000_000;
+
+const SCOPES_ERROR = {
+  message: `"scopes" must be a non-empty array of ${SCOPES.join(', ')}`,
+};
+
+export class IssueApiKeyDto {
+  @ApiProperty({ minLength: 1, maxLength: 100, example: 'reporting' })
+  @Transform(({ value }: { value: unknown }) =>
+    typeof value === 'string' ? value.trim() : value,
+  )
+  @IsString({ message: '"name" must be a 1-100 character string' })
+  @Length(1, 100, { message: '"name" must be a 1-100 character string' })
+  name: string;
+
+  @ApiProperty({ enum: SCOPES, isArray: true, minItems: 1 })
+  @IsArray(SCOPES_ERROR)
+  @ArrayNotEmpty(SCOPES_ERROR)
+  @IsIn(SCOPES, { ...SCOPES_ERROR, each: true })
+  scopes: Scope[];
+
+  @ApiPropertyOptional({
+    type: 'integer',
+    minimum: 1,
+    maximum: MAX_LIMIT,
+    default: DEFAULT_RATE_LIMIT,
+    description: 'Requests per minute',
+  })
+  @IsOptional()
+  @IsInt({ message: '"rate_limit" must be a positive integer' })
+  @Min(1, { message: '"rate_limit" must be a positive integer' })
+  @Max(MAX_LIMIT, { message: '"rate_limit" must be a positive integer' })
+  rate_limit?: number;
+
+  @ApiPropertyOptional({
+    type: 'integer',
+    minimum: 1,
+    maximum: MAX_LIMIT,
+    default: DEFAULT_DAILY_QUOTA,
+    description: 'Values analysed per UTC day',
+  })
+  @IsOptional()
+  @IsInt({ message: '"daily_quota" must be a positive integer' })
+  @Min(1, { message: '"daily_quota" must be a positive integer' })
+  @Max(MAX_LIMIT, { message: '"daily_quota" must be a positive integer' })
+  daily_quota?: number;
+}
+
+export class ApiKeyDto {
+  @ApiProperty({ format: 'uuid' })
+  id: string;
+
+  @ApiProperty()
+  name: string;
+
+  @ApiProperty({
+    description: 'First characters of the secret, to recognise the key',
+  })
+  prefix: string;
+
+  @ApiProperty({ enum: SCOPES, isArray: true })
+  scopes: Scope[];
+
+  @ApiProperty({ type: 'integer', description: 'Requests per minute' })
+  rate_limit: number;
+
+  @ApiProperty({ type: 'integer', description: 'Values analysed per UTC day' })
+  daily_quota: number;
+
+  @ApiProperty()
+  created_at: Date;
+
+  @ApiProperty({ type: Date, nullable: true })
+  rotated_at: Date | null;
+
+  @ApiProperty({ type: Date, nullable: true })
+  last_used_at: Date | null;
+
+  @ApiProperty({ type: Date, nullable: true })
+  revoked_at: Date | null;
+
+  @ApiPropertyOptional({
+    type: 'integer',
+    description: 'Values analysed today, GET /admin/keys/:id only',
+  })
+  analyzed_today?: number;
+}
+
+export class IssuedApiKeyDto extends ApiKeyDto {
+  @ApiProperty({ description: 'The secret; it is never shown again' })
+  key: string;
+}
+
+export class ApiKeyListDto {
+  @ApiProperty({ type: [ApiKeyDto] })
+  data: ApiKeyDto[];
+
+  @ApiProperty({ type: 'integer' })
+  count: number;
+}
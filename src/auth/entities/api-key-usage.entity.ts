@@ -0,0 +1,21 @@
+import { Column, Entity, JoinColumn, ManyToOne, PrimaryColumn } from 'typeorm';
+import { ApiKey } from './api-key.entity';
+
+/**
+ * Values analysed by a key on one UTC day, counted against its daily quota
+ */
+@Entity('api_key_usage')
+export class ApiKeyUsage {
+  @PrimaryColumn('uuid')
+  key_id: string;
+
+  @PrimaryColumn({ type: 'date' })
+  day: string;
+
+  @Column({ type: 'integer', default: 0 })
+  analyzed: number;
+
+  @ManyToOne(() => ApiKey, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'key_id' })
+  key?: ApiKey;
+}
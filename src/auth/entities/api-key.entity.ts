@@ -0,0 +1,51 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+
+export const SCOPES = ['read', 'write', 'delete', 'admin'] as const;
+export type Scope = (typeof SCOPES)[number];
+
+@Entity('api_keys')
+export class ApiKey {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'varchar' })
+  name: string;
+
+  // first characters of the secret, enough to recognise a key in lists and logs
+  @Column({ type: 'varchar' })
+  prefix: string;
+
+  // sha256 of the secret; the secret itself is only shown when issued or rotated
+  @Index('IDX_api_keys_key_hash', { unique: true })
+  @Column({ type: 'varchar', select: false })
+  key_hash: string;
+
+  @Column({ type: 'text', array: true })
+  scopes: Scope[];
+
+  // requests per minute
+  @Column({ type: 'integer' })
+  rate_limit: number;
+
+  // values analysed per UTC day
+  @Column({ type: 'integer' })
+  daily_quota: number;
+
+  @CreateDateColumn({ precision: 3 })
+  created_at: Date;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  rotated_at: Date | null;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  last_used_at: Date | null;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  revoked_at: Date | null;
+}
@@ -0,0 +1,113 @@
+import { Injectable, Optional } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import type { Response } from 'express';
+import { Repository } from 'typeorm';
+import { ApiKeyUsage } from './entities/api-key-usage.entity';
+import { AuthenticatedKey } from './auth.decorators';
+import { postgresOnly } from '../database/postgres';
+
+export interface QuotaState {
+  limit: number;
+  used: number;
+  allowed: boolean;
+  /** UTC day charged, YYYY-MM-DD */
+  day: string;
+}
+
+/** Current UTC day as YYYY-MM-DD */
+function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+/** Seconds until the next UTC midnight, when daily quotas reset */
+export function secondsUntilQuotaReset(now = new Date()): number {
+  const midnight = Date.UTC(
+    now.getUTCFullYear(),
+    now.getUTCMonth(),
+    now.getUTCDate() + 1,
+  );
+  return Math.ceil((midnight - now.getTime()) / 1000);
+}
+
+/**
+ * Report quota state in `X-Quota-*` headers, plus `Retry-After` when exhausted
+ */
+export function setQuotaHeaders(res: Response, state: QuotaState) {
+  const reset = secondsUntilQuotaReset();
+  res.setHeader('X-Quota-Limit', state.limit);
+  res.setHeader('X-Quota-Remaining', Math.max(state.limit - state.used, 0));
+  res.setHeader('X-Quota-Reset', reset);
+  if (!state.allowed) res.setHeader('Retry-After', reset);
+}
+
+/**
+ * Daily analysis quotas, counted in Postgres so every instance shares them.
+ * A reservation is a single conditional upsert: it either adds the whole
+ * amount within the quota or changes nothing.
+ */
+@Injectable()
+export class QuotaService {
+  constructor(
+    @Optional()
+    @InjectRepository(ApiKeyUsage)
+    private readonly usageRepository: Repository<ApiKeyUsage> | undefined,
+  ) {}
+
+  private get usage(): Repository<ApiKeyUsage> {
+    return postgresOnly(this.usageRepository);
+  }
+
+  /**
+   * Charge `count` analysed values to the quota of a key. Nothing is charged
+   * when that would exceed the quota. Null for keys without a quota.
+   */
+  async charge(
+    key: AuthenticatedKey,
+    count: number,
+  ): Promise<QuotaState | null> {
+    if (key.id === null || key.daily_quota === null) return null;
+    return this.reserve(key.id, count, key.daily_quota);
+  }
+
+  async reserve(
+    keyId: string,
+    count: number,
+    limit: number,
+  ): Promise<QuotaState> {
+    const day = today();
+    const rows: { analyzed: number }[] = await this.usage.query(
+      `INSERT INTO "api_key_usage" ("key_id", "day", "analyzed")
+       SELECT CAST($1 AS UUID), CAST($2 AS DATE), CAST($3 AS INTEGER)
+       WHERE CAST($3 AS INTEGER) <= CAST($4 AS INTEGER)
+       ON CONFLICT ("key_id", "day") DO UPDATE
+         SET "analyzed" = "api_key_usage"."analyzed" + EXCLUDED."analyzed"
+         WHERE "api_key_usage"."analyzed" + EXCLUDED."analyzed" <= CAST($4 AS INTEGER)
+       RETURNING "analyzed"`,
+      [keyId, day, count, limit],
+    );
+    if (rows.length) {
+      return { limit, used: Number(rows[0].analyzed), allowed: true, day };
+    }
+    return { limit, used: await this.usedToday(keyId), allowed: false, day };
+  }
+
+  /**
+   * Give back `count` values charged on `day`, e.g. for a request that
+   * failed after its charge
+   */
+  async refund(keyId: string, count: number, day: string): Promise<void> {
+    await this.usage.query(
+      `UPDATE "api_key_usage"
+       SET "analyzed" = GREATEST("analyzed" - CAST($3 AS INTEGER), 0)
+       WHERE "key_id" = $1 AND "day" = $2`,
+      [keyId, day, count],
+    );
+  }
+
+  async usedToday(keyId: string): Promise<number> {
+    const row = await this.usage.findOne({
+      where: { key_id: keyId, day: today() },
+    });
+    return row?.analyzed ?? 0;
+  }
+}
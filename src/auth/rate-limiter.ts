@@ -0,0 +1,52 @@
+import { Injectable } from '@nestjs/common';
+
+export interface RateLimitState {
+  limit: number;
+  remaining: number;
+  /** seconds until the window resets */
+  reset: number;
+  allowed: boolean;
+}
+
+/** Length of a rate limit window */
+export const RATE_WINDOW_MS = 60_000;
+
+/**
+ * Fixed-window request counter per key, kept in process memory. Limits
+ * apply per instance: with N instances behind a balancer a key can make up
+ * to N times its limit.
+ */
+@Injectable()
+export class RateLimiter {
+  private readonly windows = new Map<
+    string,
+    { start: number; count: number }
+  >();
+  private current = 0;
+
+  hit(key: string, limit: number, now = Date.now()): RateLimitState {
+    const start = now - (now % RATE_WINDOW_MS);
+    if (start !== this.current) {
+      // a new window began: forget the old ones so idle keys do not pile up
+      for (const [id, window] of this.windows) {
+        if (window.start < start) this.windows.delete(id);
+      }
+      this.current = start;
+    }
+
+    let window = this.windows.get(key);
+    if (!window) {
+      window = { start, count: 0 };
+      this.windows.set(key, window);
+    }
+
+    const allowed = window.count < limit;
+    if (allowed) window.count++;
+    return {
+      limit,
+      remaining: limit - window.count,
+      reset: Math.ceil((start + RATE_WINDOW_MS - now) / 1000),
+      allowed,
+    };
+  }
+}
@@ -0,0 +1,21 @@
+/**
+ * Content-addressed storage of large values, keyed by the sha256 of their
+ * text. The abstract class doubles as the injection token, so another
+ * backend (e.g. an object store) replaces the filesystem one by providing
+ * a different implementation in BlobModule.
+ *
+ * Writing a key that exists changes nothing: equal keys hold equal text.
+ */
+export abstract class BlobStore {
+  /** Store the text under its sha256 key */
+  abstract put(key: string, text: string): Promise<void>;
+
+  /** The text, or null when nothing is stored under the key */
+  abstract get(key: string): Promise<string | null>;
+
+  /** Remove the text; removing a missing key is not an error */
+  abstract delete(key: string): Promise<void>;
+
+  /** Resolves when text can be stored, for readiness probes */
+  abstract check(): Promise<void>;
+}
@@ -0,0 +1,25 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { BlobStore } from './blob-store';
+import { FilesystemBlobStore } from './filesystem-blob.store';
+
+const DEFAULT_BLOB_DIR = './data/blobs';
+
+/**
+ * Provides the BlobStore: files below BLOB_DIR (./data/blobs by default)
+ */
+@Module({
+  providers: [
+    {
+      provide: BlobStore,
+      useFactory: (config: ConfigService) =>
+        new FilesystemBlobStore(
+          config.get<string>('BLOB_DIR') || DEFAULT_BLOB_DIR,
+        ),
+      inject: [ConfigService],
+    },
+  ],
+  imports: [ConfigModule],
+  exports: [BlobStore],
+})
+export class BlobModule {}
@@ -0,0 +1,56 @@
+import { randomUUID } from 'crypto';
+import { constants } from 'fs';
+import { access, mkdir, readFile, rename, rm, writeFile } from 'fs/promises';
+import { dirname, join } from 'path';
+import { BlobStore } from './blob-store';
+
+const KEY = /^[0-9a-f]{64}$/;
+
+/**
+ * Blobs as files below a directory, fanned out by the first bytes of the
+ * key (`ab/cd/abcd…`) so no directory grows too large. Files are written
+ * to a temporary name and renamed, so readers never see partial text.
+ */
+export class FilesystemBlobStore extends BlobStore {
+  constructor(private readonly root: string) {
+    super();
+  }
+
+  async put(key: string, text: string): Promise<void> {
+    const path = this.pathOf(key);
+    await mkdir(dirname(path), { recursive: true });
+    const temporary = `${path}.${randomUUID()}.tmp`;
+    try {
+      await writeFile(temporary, text, { encoding: 'utf8', flag: 'wx' });
+      await rename(temporary, path);
+    } catch (err) {
+      await rm(temporary, { force: true });
+      throw err;
+    }
+  }
+
+  async get(key: string): Promise<string | null> {
+    try {
+      return await readFile(this.pathOf(key), 'utf8');
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw err;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.pathOf(key), { force: true });
+  }
+
+  /** The root exists, or can be created, and is writable */
+  async check(): Promise<void> {
+    await mkdir(this.root, { recursive: true });
+    await access(this.root, constants.W_OK);
+  }
+
+  private pathOf(key: string): string {
+    // keys become paths: never let one escape the root
+    if (!KEY.test(key)) throw new Error(`Invalid blob key "${key}"`);
+    return join(this.root, key.slice(0, 2), key.slice(2, 4), key);
+  }
+}
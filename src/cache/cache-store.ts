@@ -0,0 +1,19 @@
+/**
+ * A key-value cache in front of reads. The abstract class doubles as the
+ * injection token, so another backend (e.g. Redis) replaces the in-memory
+ * one by providing a different implementation in CacheModule.
+ *
+ * Values must be treated as immutable by callers: the in-memory store
+ * hands out the stored objects themselves, other backends copies.
+ */
+export abstract class CacheStore {
+  /** The value, or undefined when missing or expired */
+  abstract get<T>(key: string): Promise<T | undefined>;
+
+  /** Store a value; ttlMs overrides the store's default time to live */
+  abstract set(key: string, value: unknown, ttlMs?: number): Promise<void>;
+
+  abstract delete(key: string): Promise<void>;
+
+  abstract clear(): Promise<void>;
+}
@@ -0,0 +1,37 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { CacheStore } from './cache-store';
+import { LruCacheStore } from './lru-cache.store';
+
+const DEFAULT_TTL_MS = 60_000;
+const DEFAULT_MAX_ENTRIES = 1000;
+const DEFAULT_MAX_BYTES = 32 * 1024 * 1024;
+
+/** A non-negative number from the environment, or the default */
+function setting(config: ConfigService, name: string, fallback: number) {
+  const raw = config.get<string>(name);
+  const value = Number(raw);
+  return raw && Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+/**
+ * Provides the CacheStore: an in-memory LRU configured by CACHE_TTL_MS,
+ * CACHE_MAX_ENTRIES (0 turns caching off) and CACHE_MAX_BYTES
+ */
+@Module({
+  providers: [
+    {
+      provide: CacheStore,
+      useFactory: (config: ConfigService) =>
+        new LruCacheStore({
+          ttlMs: setting(config, 'CACHE_TTL_MS', DEFAULT_TTL_MS),
+          maxEntries: setting(config, 'CACHE_MAX_ENTRIES', DEFAULT_MAX_ENTRIES),
+          maxBytes: setting(config, 'CACHE_MAX_BYTES', DEFAULT_MAX_BYTES),
+        }),
+      inject: [ConfigService],
+    },
+  ],
+  imports: [ConfigModule],
+  exports: [CacheStore],
+})
+export class CacheModule {}
@@ -0,0 +1,81 @@
+import { CacheStore } from './cache-store';
+
+export interface LruCacheOptions {
+  /** default time to live of an entry */
+  ttlMs: number;
+  /** entries kept at most; 0 disables the cache */
+  maxEntries: number;
+  /** approximate bytes kept at most, measured as JSON */
+  maxBytes: number;
+}
+
+interface Entry {
+  value: unknown;
+  expires: number;
+  bytes: number;
+}
+
+/**
+ * In-process least recently used cache with a time to live per entry.
+ * Once either limit is exceeded the least recently read entries are
+ * evicted; values larger than maxBytes are never stored.
+ */
+export class LruCacheStore extends CacheStore {
+  // Map iterates in insertion order, reads re-insert: the first key is the LRU
+  private readonly entries = new Map<string, Entry>();
+  private bytes = 0;
+
+  constructor(
+    private readonly options: LruCacheOptions,
+    private readonly now: () => number = Date.now,
+  ) {
+    super();
+  }
+
+  get<T>(key: string): Promise<T | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) return Promise.resolve(undefined);
+    this.entries.delete(key);
+    if (entry.expires <= this.now()) {
+      this.bytes -= entry.bytes;
+      return Promise.resolve(undefined);
+    }
+    this.entries.set(key, entry);
+    return Promise.resolve(entry.value as T);
+  }
+
+  set(key: string, value: unknown, ttlMs = this.options.ttlMs): Promise<void> {
+    this.remove(key);
+    const bytes = Buffer.byteLength(JSON.stringify(value) ?? '');
+    const { maxEntries, maxBytes } = this.options;
+    if (maxEntries <= 0 || ttlMs <= 0 || bytes > maxBytes) {
+      return Promise.resolve();
+    }
+
+    this.entries.set(key, { value, expires: this.now() + ttlMs, bytes });
+    this.bytes += bytes;
+    for (const oldest of this.entries.keys()) {
+      if (this.entries.size <= maxEntries && this.bytes <= maxBytes) break;
+      this.remove(oldest);
+    }
+    return Promise.resolve();
+  }
+
+  delete(key: string): Promise<void> {
+    this.remove(key);
+    return Promise.resolve();
+  }
+
+  clear(): Promise<void> {
+    this.entries.clear();
+    this.bytes = 0;
+    return Promise.resolve();
+  }
+
+  private remove(key: string) {
+    const entry = this.entries.get(key);
+    if (!entry) return;
+    this.entries.delete(key);
+    this.bytes -= entry.bytes;
+  }
+}
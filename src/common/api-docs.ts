@@ -0,0 +1,69 @@
+import { applyDecorators } from '@nestjs/common';
+import {
+  ApiExtension,
+  ApiExtraModels,
+  ApiHeader,
+  ApiResponse,
+  getSchemaPath,
+} from '@nestjs/swagger';
+import { ERROR_CATALOG, ErrorCode } from './errors';
+import { ProblemDto } from './dto/problem.dto';
+
+/** Marks operations that accept the property filters of GET /strings */
+export const PROPERTY_FILTERS_EXTENSION = 'x-property-filters';
+
+/**
+ * Problem response of the given codes, for each status they answer with.
+ * Errors every route can answer with (401, 403, 429, 5xx) are added to
+ * the document by createOpenApiDocument.
+ */
+export function ApiProblems(...codes: ErrorCode[]) {
+  const byStatus = new Map<number, ErrorCode[]>();
+  for (const code of codes) {
+    const { status } = ERROR_CATALOG[code];
+    byStatus.set(status, [...(byStatus.get(status) ?? []), code]);
+  }
+  return applyDecorators(
+    ApiExtraModels(ProblemDto),
+    ...[...byStatus].map(([status, group]) =>
+      ApiResponse({
+        status,
+        description: group.map((code) => `\`${code}\``).join(', '),
+        content: {
+          'application/problem+json': {
+            schema: { $ref: getSchemaPath(ProblemDto) },
+          },
+        },
+      }),
+    ),
+  );
+}
+
+/**
+ * The route accepts the filters of GET /strings. Property filters depend
+ * on the registered analyzers, so createOpenApiDocument lists them.
+ */
+export const ApiPropertyFilters = () =>
+  ApiExtension(PROPERTY_FILTERS_EXTENSION, true);
+
+/**
+ * The route answers conditional requests: responses carry an ETag (and
+ * Last-Modified where given), matching validators get a 304
+ */
+export const ApiConditional = () =>
+  applyDecorators(
+    ApiHeader({
+      name: 'If-None-Match',
+      required: false,
+      description: 'ETag of a previous response',
+    }),
+    ApiHeader({
+      name: 'If-Modified-Since',
+      required: false,
+      description: 'Last-Modified of a previous response',
+    }),
+    ApiResponse({
+      status: 304,
+      description: 'Not modified since the response the validators came from',
+    }),
+  );
@@ -0,0 +1,19 @@
+import type { Response } from 'express';
+
+/**
+ * Set the validators of a stored record: an ETag from its id (the sha256
+ * of the value), updated_at and the representation (`variant`), and
+ * updated_at as Last-Modified. Express answers 304 without a body when the
+ * request's If-None-Match (or, without one, If-Modified-Since) still
+ * matches them.
+ */
+export function setRecordValidators(
+  res: Response,
+  record: { id: string; updated_at: Date },
+  variant?: string,
+) {
+  const updatedAt = new Date(record.updated_at);
+  const tag = `${record.id}-${updatedAt.getTime().toString(36)}`;
+  res.setHeader('ETag', `"${variant ? `${tag}-${variant}` : tag}"`);
+  res.setHeader('Last-Modified', updatedAt.toUTCString());
+}
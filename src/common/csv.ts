@@ -0,0 +1,96 @@
+/**
+ * Minimal RFC 4180 CSV support for import and export
+ */
+
+/**
+ * Quote a field when it contains a delimiter, quote or line break
+ */
+export function csvField(value: unknown): string {
+  if (value === null || typeof value === 'undefined') return '';
+  const text =
+    typeof value === 'object' ? JSON.stringify(value) : String(value as string);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function csvRow(fields: unknown[]): string {
+  return `${fields.map(csvField).join(',')}\n`;
+}
+
+export class CsvError extends Error {}
+
+/**
+ * Assembles CSV records from physical lines; a quoted field may span lines.
+ * Feed lines with `push`, which returns the fields once a record is complete.
+ */
+export class CsvRecordReader {
+  private pending: string | null = null;
+
+  constructor(private readonly maxLength: number) {}
+
+  /** Whether a quoted field is still open at the end of the input so far */
+  get incomplete(): boolean {
+    return this.pending !== null;
+  }
+
+  push(line: string): string[] | null {
+    const text = this.pending === null ? line : `${this.pending}\n${line}`;
+    // an odd number of quotes leaves a quoted field open
+    if ((text.match(/"/g)?.length ?? 0) % 2 === 1) {
+      if (text.length > this.maxLength) {
+        this.pending = null;
+        throw new CsvError('CSV record too long');
+      }
+      this.pending = text;
+      return null;
+    }
+    this.pending = null;
+    return parseRecord(text);
+  }
+
+  reset() {
+    this.pending = null;
+  }
+}
+
+function parseRecord(text: string): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  let i = 0;
+
+  while (i <= text.length) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i += 2;
+        continue;
+      }
+      if (char === '"') {
+        quoted = false;
+        i++;
+        if (i < text.length && text[i] !== ',') {
+          throw new CsvError('Malformed CSV record');
+        }
+        continue;
+      }
+      field += char;
+      i++;
+      continue;
+    }
+    if (i === text.length || char === ',') {
+      fields.push(field);
+      field = '';
+      i++;
+      continue;
+    }
+    if (char === '"' && field === '') {
+      quoted = true;
+      i++;
+      continue;
+    }
+    field += char;
+    i++;
+  }
+  return fields;
+}
@@ -0,0 +1,88 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+import { IsIn, IsInt, IsOptional, IsString, Max, Min } from 'class-validator';
+import { toNumber } from '../validation';
+import {
+  DEFAULT_PAGE_LIMIT,
+  MAX_PAGE_LIMIT,
+  type SortOrder,
+} from '../pagination';
+
+/**
+ * Paging query params; routes add `sort_by` with their sort fields. See
+ * parsePagination for the checks that depend on each other (page + cursor).
+ */
+export class PaginationQueryDto {
+  @ApiPropertyOptional({
+    type: 'integer',
+    minimum: 1,
+    maximum: MAX_PAGE_LIMIT,
+    default: DEFAULT_PAGE_LIMIT,
+  })
+  @IsOptional()
+  @Transform(toNumber)
+  @IsInt({ message: `must be an integer from 1 to ${MAX_PAGE_LIMIT}` })
+  @Min(1, { message: `must be an integer from 1 to ${MAX_PAGE_LIMIT}` })
+  @Max(MAX_PAGE_LIMIT, {
+    message: `must be an integer from 1 to ${MAX_PAGE_LIMIT}`,
+  })
+  limit?: number;
+
+  @ApiPropertyOptional({
+    type: 'integer',
+    minimum: 1,
+    description: 'Offset pagination; cannot be combined with cursor',
+  })
+  @IsOptional()
+  @Transform(toNumber)
+  @IsInt({ message: 'must be a positive integer' })
+  @Min(1, { message: 'must be a positive integer' })
+  page?: number;
+
+  @ApiPropertyOptional({
+    description: 'next_cursor or prev_cursor of a previous response',
+  })
+  @IsOptional()
+  @IsString()
+  cursor?: string;
+
+  @ApiPropertyOptional({ enum: ['asc', 'desc'], default: 'desc' })
+  @IsOptional()
+  @Transform(({ value }: { value: unknown }) =>
+    typeof value === 'string' ? value.toLowerCase() : value,
+  )
+  @IsIn(['asc', 'desc'], { message: "must be 'asc' or 'desc'" })
+  order?: SortOrder;
+}
+
+/**
+ * The paging fields of a listing; subclasses add `data`
+ */
+export class PageDto {
+  @ApiProperty({ type: 'integer', description: 'Records in this page' })
+  count: number;
+
+  @ApiProperty({ type: 'integer', description: 'Records matching the request' })
+  total: number;
+
+  @ApiProperty({ type: 'integer' })
+  limit: number;
+
+  @ApiPropertyOptional({
+    type: 'integer',
+    description: 'Only for offset pagination',
+  })
+  page?: number;
+
+  @ApiProperty({ type: String, nullable: true })
+  next_cursor: string | null;
+
+  @ApiProperty({ type: String, nullable: true })
+  prev_cursor: string | null;
+
+  @ApiProperty()
+  sort_by: string;
+
+  @ApiProperty({ enum: ['asc', 'desc'] })
+  order: SortOrder;
+}
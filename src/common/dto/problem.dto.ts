@@ -0,0 +1,69 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { ERROR_CATALOG, type ErrorCode } from '../errors';
+
+const CODES = Object.keys(ERROR_CATALOG);
+
+export class InvalidParamDto {
+  @ApiProperty({ example: 'min_length' })
+  name: string;
+
+  @ApiProperty({ example: 'Invalid query parameter values or types' })
+  reason: string;
+}
+
+/**
+ * An error response (RFC 7807 problem details)
+ */
+export class ProblemDto {
+  @ApiProperty({
+    description: 'Link to the catalog entry of the code',
+    example: '/errors/STRING_NOT_FOUND',
+  })
+  type: string;
+
+  @ApiProperty({ example: 'String Not Found' })
+  title: string;
+
+  @ApiProperty({ type: 'integer', example: 404 })
+  status: number;
+
+  @ApiProperty({ example: 'String does not exist in the system' })
+  detail: string;
+
+  @ApiProperty({ description: 'The request URL', example: '/strings/madam' })
+  instance: string;
+
+  @ApiProperty({ enum: CODES, enumName: 'ErrorCode' })
+  code: ErrorCode;
+
+  @ApiProperty({ description: 'Also sent as the X-Request-Id header' })
+  request_id: string;
+
+  @ApiPropertyOptional({
+    type: [InvalidParamDto],
+    description: 'The invalid body fields or query parameters',
+  })
+  invalid_params?: InvalidParamDto[];
+}
+
+export class ErrorDefinitionDto {
+  @ApiProperty({ enum: CODES, enumName: 'ErrorCode' })
+  code: ErrorCode;
+
+  @ApiProperty({ type: 'integer', example: 404 })
+  status: number;
+
+  @ApiProperty({ example: 'String Not Found' })
+  title: string;
+
+  @ApiProperty()
+  description: string;
+}
+
+export class ErrorCatalogDto {
+  @ApiProperty({ type: [ErrorDefinitionDto] })
+  data: ErrorDefinitionDto[];
+
+  @ApiProperty({ type: 'integer' })
+  count: number;
+}
@@ -0,0 +1,42 @@
+import { Controller, Get, Param } from '@nestjs/common';
+import { ApiOkResponse, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { Public } from '../auth/auth.decorators';
+import { ApiException, ERROR_CATALOG, ErrorCode } from './errors';
+import { ApiProblems } from './api-docs';
+import { ErrorCatalogDto, ErrorDefinitionDto } from './dto/problem.dto';
+
+/**
+ * The error catalog; the `type` of every problem response points here
+ */
+@ApiTags('errors')
+@Controller('errors')
+@Public()
+export class ErrorsController {
+  /**
+   * GET /errors -> 200 with every error code, its status and meaning
+   */
+  @Get()
+  @ApiOperation({ operationId: 'listErrors', summary: 'List the error codes' })
+  @ApiOkResponse({ type: ErrorCatalogDto })
+  list() {
+    const data = Object.entries(ERROR_CATALOG).map(([code, entry]) => ({
+      code,
+      ...entry,
+    }));
+    return { data, count: data.length };
+  }
+
+  /**
+   * GET /errors/:code -> 200 with one error code, 404 if unknown
+   */
+  @Get(':code')
+  @ApiOperation({ operationId: 'getError', summary: 'Describe an error code' })
+  @ApiOkResponse({ type: ErrorDefinitionDto })
+  @ApiProblems('NOT_FOUND')
+  get(@Param('code') code: string) {
+    if (!Object.hasOwn(ERROR_CATALOG, code)) {
+      throw new ApiException('NOT_FOUND', `Unknown error code "${code}"`);
+    }
+    return { code, ...ERROR_CATALOG[code as ErrorCode] };
+  }
+}
@@ -0,0 +1,336 @@
+import {
+  HttpException,
+  HttpExceptionOptions,
+  HttpStatus,
+} from '@nestjs/common';
+
+export interface ErrorDefinition {
+  status: HttpStatus;
+  title: string;
+  description: string;
+}
+
+/**
+ * Every error code the API answers with. Codes are stable: clients may
+ * branch on them, so existing codes are never renamed or reused. Problem
+ * responses link to their entry through `type` (`/errors/<code>`).
+ */
+export const ERROR_CATALOG = {
+  // generic codes for errors without a more specific one
+  BAD_REQUEST: {
+    status: HttpStatus.BAD_REQUEST,
+    title: 'Bad Request',
+    description: 'The request is invalid, e.g. its body is not valid JSON.',
+  },
+  NOT_FOUND: {
+    status: HttpStatus.NOT_FOUND,
+    title: 'Not Found',
+    description: 'No route matches the method and path.',
+  },
+  CONFLICT: {
+    status: HttpStatus.CONFLICT,
+    title: 'Conflict',
+    description: 'The request conflicts with the stored state.',
+  },
+  PAYLOAD_TOO_LARGE: {
+    status: HttpStatus.PAYLOAD_TOO_LARGE,
+    title: 'Payload Too Large',
+    description: 'The request body exceeds the size limit.',
+  },
+  UNPROCESSABLE_ENTITY: {
+    status: HttpStatus.UNPROCESSABLE_ENTITY,
+    title: 'Unprocessable Entity',
+    description: 'The request is well-formed but cannot be processed.',
+  },
+  INTERNAL_ERROR: {
+    status: HttpStatus.INTERNAL_SERVER_ERROR,
+    title: 'Internal Server Error',
+    description:
+      'An unexpected failure; the request id identifies it in the logs.',
+  },
+  SERVICE_UNAVAILABLE: {
+    status: HttpStatus.SERVICE_UNAVAILABLE,
+    title: 'Service Unavailable',
+    description: 'The service is temporarily unable to handle the request.',
+  },
+
+  // request validation
+  INVALID_BODY: {
+    status: HttpStatus.BAD_REQUEST,
+    title: 'Invalid Body',
+    description:
+      'A body field is missing or invalid; `invalid_params` names the fields.',
+  },
+  INVALID_QUERY_PARAMETER: {
+    status: HttpStatus.BAD_REQUEST,
+    title: 'Invalid Query Parameter',
+    description:
+      'A query parameter is missing or has a wrong type or format; `invalid_params` names the parameters.',
+  },
+  INVALID_ANALYSIS_OPTIONS: {
+    status: HttpStatus.BAD_REQUEST,
+    title: 'Invalid Analysis Options',
+    description: 'The analysis options have unknown keys or invalid values.',
+  },
+  INVALID_FILTER_EXPRESSION: {
+    status: HttpStatus.BAD_REQUEST,
+    title: 'Invalid Filter Expression',
+    description: 'The `q` filter expression does not parse.',
+  },
+  UNPARSEABLE_QUERY: {
+    status: HttpStatus.BAD_REQUEST,
+    title: 'Unparseable Query',
+    description: 'Nothing in the natural language query could be understood.',
+  },
+  INVALID_REGEX: {
+    status: HttpStatus.BAD_REQUEST,
+    title: 'Invalid Regular Expression',
+    description:
+      'The search pattern is too long or not a valid regular expression.',
+  },
+  BATCH_TOO_LARGE: {
+    status: HttpStatus.BAD_REQUEST,
+    title: 'Batch Too Large',
+    description: 'The batch holds more values than allowed.',
+  },
+  VALUE_TOO_LARGE: {
+    status: HttpStatus.PAYLOAD_TOO_LARGE,
+    title: 'Value Too Large',
+    description: 'The value exceeds the size limit of a single string.',
+  },
+  FILTER_REQUIRED: {
+    status: HttpStatus.BAD_REQUEST,
+    title: 'Filter Required',
+    description: 'Bulk deletes need at least one filter.',
+  },
+  UNSUPPORTED_FORMAT: {
+    status: HttpStatus.BAD_REQUEST,
+    title: 'Unsupported Format',
+    description: 'The import format is not supported.',
+  },
+  INVALID_COLLECTION_NAME: {
+    status: HttpStatus.BAD_REQUEST,
+    title: 'Invalid Collection Name',
+    description:
+      'Collection names are 1-64 lowercase letters, digits, `-` and `_`, starting with a letter or digit.',
+  },
+
+  // authentication and limits
+  MISSING_API_KEY: {
+    status: HttpStatus.UNAUTHORIZED,
+    title: 'Missing API Key',
+    description: 'The route needs an API key and none was sent.',
+  },
+  INVALID_API_KEY: {
+    status: HttpStatus.UNAUTHORIZED,
+    title: 'Invalid API Key',
+    description: 'The API key is unknown or revoked.',
+  },
+  INSUFFICIENT_SCOPE: {
+    status: HttpStatus.FORBIDDEN,
+    title: 'Insufficient Scope',
+    description: 'The API key lacks the scope the route requires.',
+  },
+  RATE_LIMITED: {
+    status: HttpStatus.TOO_MANY_REQUESTS,
+    title: 'Rate Limited',
+    description: 'The key exceeded its requests per minute; see Retry-After.',
+  },
+  QUOTA_EXCEEDED: {
+    status: HttpStatus.TOO_MANY_REQUESTS,
+    title: 'Quota Exceeded',
+    description: 'The key used up its daily analysis quota; see Retry-After.',
+  },
+
+  // resources
+  STRING_NOT_FOUND: {
+    status: HttpStatus.NOT_FOUND,
+    title: 'String Not Found',
+    description: 'The string is not stored (or is deleted).',
+  },
+  SEARCH_MODE_NOT_FOUND: {
+    status: HttpStatus.NOT_FOUND,
+    title: 'Search Mode Not Found',
+    description: 'The search mode does not exist.',
+  },
+  JOB_NOT_FOUND: {
+    status: HttpStatus.NOT_FOUND,
+    title: 'Job Not Found',
+    description: 'The job does not exist.',
+  },
+  API_KEY_NOT_FOUND: {
+    status: HttpStatus.NOT_FOUND,
+    title: 'API Key Not Found',
+    description: 'The API key does not exist.',
+  },
+  WEBHOOK_NOT_FOUND: {
+    status: HttpStatus.NOT_FOUND,
+    title: 'Webhook Not Found',
+    description: 'The webhook does not exist.',
+  },
+  DELIVERY_NOT_FOUND: {
+    status: HttpStatus.NOT_FOUND,
+    title: 'Delivery Not Found',
+    description: 'The webhook delivery does not exist.',
+  },
+  COLLECTION_NOT_FOUND: {
+    status: HttpStatus.NOT_FOUND,
+    title: 'Collection Not Found',
+    description: 'The collection holds no strings, deleted ones included.',
+  },
+  QUERY_FAILURE_NOT_FOUND: {
+    status: HttpStatus.NOT_FOUND,
+    title: 'Query Failure Not Found',
+    description: 'The logged natural language query does not exist.',
+  },
+  STRING_EXISTS: {
+    status: HttpStatus.CONFLICT,
+    title: 'String Exists',
+    description: 'The string is already stored.',
+  },
+  STRING_DELETED: {
+    status: HttpStatus.CONFLICT,
+    title: 'String Deleted',
+    description: 'The string is stored but soft deleted; restore it instead.',
+  },
+  COLLECTION_EXISTS: {
+    status: HttpStatus.CONFLICT,
+    title: 'Collection Exists',
+    description: 'The target of a copy already holds strings; merge instead.',
+  },
+  DELETE_NOT_CONFIRMED: {
+    status: HttpStatus.CONFLICT,
+    title: 'Delete Not Confirmed',
+    description:
+      '`confirm` is missing or differs from the number of matching records.',
+  },
+
+  // processing
+  INVALID_VALUE_TYPE: {
+    status: HttpStatus.UNPROCESSABLE_ENTITY,
+    title: 'Invalid Value Type',
+    description: '`value` must be a string.',
+  },
+  CONFLICTING_FILTERS: {
+    status: HttpStatus.UNPROCESSABLE_ENTITY,
+    title: 'Conflicting Filters',
+    description:
+      'The natural language query parsed into filters that exclude each other.',
+  },
+  COMPARISON_TOO_LARGE: {
+    status: HttpStatus.UNPROCESSABLE_ENTITY,
+    title: 'Comparison Too Large',
+    description: 'The strings are too long to compare.',
+  },
+  SEARCH_TIMEOUT: {
+    status: HttpStatus.UNPROCESSABLE_ENTITY,
+    title: 'Search Timeout',
+    description: 'The regular expression search exceeded its time budget.',
+  },
+
+  // infrastructure
+  POSTGRES_REQUIRED: {
+    status: HttpStatus.NOT_IMPLEMENTED,
+    title: 'Postgres Required',
+    description:
+      'The feature needs the postgres string store; STRING_STORE names another.',
+  },
+  DATABASE_UNAVAILABLE: {
+    status: HttpStatus.SERVICE_UNAVAILABLE,
+    title: 'Database Unavailable',
+    description: 'The database cannot be reached; retry later.',
+  },
+} satisfies Record<string, ErrorDefinition>;
+
+export type ErrorCode = keyof typeof ERROR_CATALOG;
+
+/** One invalid body field or query parameter */
+export interface InvalidParam {
+  name: string;
+  reason: string;
+}
+
+/**
+ * An error with a catalog code. The message becomes the `detail` of the
+ * problem response and defaults to the title of the code.
+ */
+export class ApiException extends HttpException {
+  constructor(
+    readonly code: ErrorCode,
+    message?: string,
+    readonly invalidParams: InvalidParam[] = [],
+    options?: HttpExceptionOptions,
+  ) {
+    const { status, title } = ERROR_CATALOG[code];
+    super(
+      HttpException.createBody(message ?? title, title, status),
+      status,
+      options,
+    );
+  }
+}
+
+/**
+ * 400 INVALID_QUERY_PARAMETER naming the parameter
+ */
+export function invalidQuery(
+  name?: string,
+  reason = 'Invalid query parameter values or types',
+): ApiException {
+  return new ApiException(
+    'INVALID_QUERY_PARAMETER',
+    'Invalid query parameter values or types',
+    name ? [{ name, reason }] : [],
+  );
+}
+
+/**
+ * 400 INVALID_BODY naming the field
+ */
+export function invalidBody(name: string, reason: string): ApiException {
+  return new ApiException('INVALID_BODY', reason, [{ name, reason }]);
+}
+
+/** Node and Postgres error codes that mean the database is unreachable */
+const UNAVAILABLE_CODES = new Set([
+  'ECONNREFUSED',
+  'ECONNRESET',
+  'ETIMEDOUT',
+  'ENOTFOUND',
+  'EHOSTUNREACH',
+  'EAI_AGAIN',
+  '53300', // too_many_connections
+  '57P01', // admin_shutdown
+  '57P02', // crash_shutdown
+  '57P03', // cannot_connect_now
+]);
+
+function isDatabaseUnavailable(err: unknown): boolean {
+  const error = err as {
+    code?: unknown;
+    driverError?: { code?: unknown };
+    message?: unknown;
+  } | null;
+  const code = error?.driverError?.code ?? error?.code;
+  if (typeof code === 'string') {
+    // class 08: connection exceptions
+    if (UNAVAILABLE_CODES.has(code) || code.startsWith('08')) return true;
+  }
+  return (
+    typeof error?.message === 'string' &&
+    /Connection terminated|connection timeout/i.test(error.message)
+  );
+}
+
+/**
+ * The HTTP error for a failure caught around a service call: HTTP
+ * exceptions pass through, an unreachable database becomes 503
+ * DATABASE_UNAVAILABLE and anything else 500 INTERNAL_ERROR. The original
+ * error is kept as the cause.
+ */
+export function unexpected(err: unknown): HttpException {
+  if (err instanceof HttpException) return err;
+  return isDatabaseUnavailable(err)
+    ? new ApiException('DATABASE_UNAVAILABLE', undefined, [], { cause: err })
+    : new ApiException('INTERNAL_ERROR', undefined, [], { cause: err });
+}
@@ -1,45 +1,118 @@
-/* eslint-disable @typescript-eslint/no-unsafe-assignment */
 import {
   ExceptionFilter,
   Catch,
   ArgumentsHost,
   HttpException,
   HttpStatus,
+  Logger,
 } from '@nestjs/common';
-import { Response } from 'express';
+import type { Request, Response } from 'express';
+import {
+  ApiException,
+  ERROR_CATALOG,
+  ErrorCode,
+  InvalidParam,
+  unexpected,
+} from './errors';
+import { requestIdOf } from './request-id.middleware';
+
+/** Code of HTTP exceptions thrown without one, by status */
+const STATUS_CODES: Partial<Record<number, ErrorCode>> = {
+  [HttpStatus.BAD_REQUEST]: 'BAD_REQUEST',
+  [HttpStatus.UNAUTHORIZED]: 'INVALID_API_KEY',
+  [HttpStatus.FORBIDDEN]: 'INSUFFICIENT_SCOPE',
+  [HttpStatus.NOT_FOUND]: 'NOT_FOUND',
+  [HttpStatus.CONFLICT]: 'CONFLICT',
+  [HttpStatus.PAYLOAD_TOO_LARGE]: 'PAYLOAD_TOO_LARGE',
+  [HttpStatus.UNPROCESSABLE_ENTITY]: 'UNPROCESSABLE_ENTITY',
+  [HttpStatus.TOO_MANY_REQUESTS]: 'RATE_LIMITED',
+  [HttpStatus.SERVICE_UNAVAILABLE]: 'SERVICE_UNAVAILABLE',
+};
+
+/**
+ * Client errors raised by express middleware (body-parser) follow the
+ * http-errors convention: an exposed message and a 4xx status
+ */
+function asMiddlewareError(exception: unknown): HttpException | null {
+  const err = exception as { expose?: unknown; status?: unknown } | null;
+  if (
+    err?.expose === true &&
+    typeof err.status === 'number' &&
+    err.status >= 400 &&
+    err.status < 500
+  ) {
+    return new HttpException((exception as Error).message, err.status, {
+      cause: exception,
+    });
+  }
+  return null;
+}
 
+/**
+ * Renders every error as RFC 7807 problem details
+ * (`application/problem+json`):
+ * { type, title, status, detail, instance, code, request_id, invalid_params? }
+ * Server errors are logged with their request id, status and code, and
+ * never expose details.
+ */
 @Catch()
-export class ExpressStyleExceptionFilter implements ExceptionFilter {
-  catch(exception: any, host: ArgumentsHost) {
+export class ProblemDetailsFilter implements ExceptionFilter {
+  private readonly logger = new Logger(ProblemDetailsFilter.name);
+
+  catch(exception: unknown, host: ArgumentsHost) {
     const ctx = host.switchToHttp();
+    const request = ctx.getRequest<Request>();
     const response = ctx.getResponse<Response>();
+    const requestId = requestIdOf(request, response);
+
+    const error = asMiddlewareError(exception) ?? unexpected(exception);
+    const status = error.getStatus();
+    const code =
+      error instanceof ApiException
+        ? error.code
+        : (STATUS_CODES[status] ??
+          (status >= 500 ? 'INTERNAL_ERROR' : 'BAD_REQUEST'));
 
-    // NestJS exception or raw Error
-    const status =
-      exception instanceof HttpException
-        ? exception.getStatus()
-        : HttpStatus.INTERNAL_SERVER_ERROR;
-
-    const exceptionResponse =
-      exception instanceof HttpException ? exception.getResponse() : null;
-
-    let message = 'Internal Server Error';
-    let error = 'Internal Server Error';
-
-    if (exceptionResponse && typeof exceptionResponse === 'object') {
-      const res = exceptionResponse as Record<string, any>;
-      message = res.message || message;
-      error = res.error || HttpStatus[status];
-    } else if (typeof exceptionResponse === 'string') {
-      message = exceptionResponse;
-      error = HttpStatus[status];
+    let detail = ERROR_CATALOG[code].title;
+    // disabled features are down to the configuration, nothing failed
+    if (status < 500 || code === 'POSTGRES_REQUIRED') {
+      const body = error.getResponse();
+      const message =
+        typeof body === 'string'
+          ? body
+          : (body as { message?: unknown }).message;
+      // validation pipes report a list of messages
+      if (Array.isArray(message)) detail = message.join('; ');
+      else if (typeof message === 'string' && message) detail = message;
+    } else {
+      this.logger.error(
+        `${request.method} ${request.originalUrl} failed with ${status} ${code}`,
+        error.cause ?? exception,
+        // body-parser errors are raised before the request id middleware runs
+        { request_id: requestId, status, code },
+      );
     }
 
-    // 🟢 Express-style structure:
-    response.status(status).json({
-      status,
-      error,
-      message,
-    });
+    // a streamed response can only be cut off
+    if (response.headersSent) {
+      response.destroy();
+      return;
+    }
+
+    const invalidParams: InvalidParam[] =
+      error instanceof ApiException ? error.invalidParams : [];
+    response
+      .status(status)
+      .type('application/problem+json')
+      .json({
+        type: `/errors/${code}`,
+        title: ERROR_CATALOG[code].title,
+        status,
+        detail,
+        instance: request.originalUrl,
+        code,
+        request_id: requestId,
+        ...(invalidParams.length ? { invalid_params: invalidParams } : {}),
+      });
   }
 }
@@ -0,0 +1,55 @@
+import { StringDecoder } from 'string_decoder';
+
+export type Line =
+  | { line: number; text: string }
+  | { line: number; too_long: true };
+
+/**
+ * Split a byte stream into UTF-8 lines without buffering more than one line.
+ * Lines longer than `maxLength` characters are dropped and reported as
+ * `too_long`, so a file without newlines cannot exhaust memory.
+ * A trailing "\r" and a leading byte order mark are removed.
+ */
+export async function* readLines(
+  input: AsyncIterable<Buffer | string>,
+  maxLength: number,
+): AsyncGenerator<Line> {
+  const decoder = new StringDecoder('utf8');
+  let buffer = '';
+  let overflow = false;
+  let line = 1;
+
+  const emit = (text: string): Line => {
+    const current = line++;
+    if (overflow) return { line: current, too_long: true };
+    if (current === 1 && text.startsWith('\uFEFF')) text = text.slice(1);
+    return {
+      line: current,
+      text: text.endsWith('\r') ? text.slice(0, -1) : text,
+    };
+  };
+
+  const consume = function* (chunk: string): Generator<Line> {
+    let start = 0;
+    for (;;) {
+      const end = chunk.indexOf('\n', start);
+      if (end === -1) break;
+      yield emit(buffer + chunk.slice(start, end));
+      buffer = '';
+      overflow = false;
+      start = end + 1;
+    }
+    if (overflow) return;
+    buffer += chunk.slice(start);
+    if (buffer.length > maxLength) {
+      buffer = '';
+      overflow = true;
+    }
+  };
+
+  for await (const chunk of input) {
+    yield* consume(typeof chunk === 'string' ? chunk : decoder.write(chunk));
+  }
+  yield* consume(decoder.end());
+  if (buffer !== '' || overflow) yield emit(buffer);
+}
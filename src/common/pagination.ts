@@ -0,0 +1,99 @@
+import { invalidQuery } from './errors';
+import type { PaginationQueryDto } from './dto/pagination.dto';
+
+export const DEFAULT_PAGE_LIMIT = 50;
+export const MAX_PAGE_LIMIT = 1000;
+
+export type SortOrder = 'asc' | 'desc';
+
+export type CursorDirection = 'next' | 'prev';
+
+/**
+ * Opaque keyset cursor. Positions are keyed on (sort value, created_at, id)
+ * so they stay valid when new rows are inserted.
+ */
+export interface Cursor {
+  sort_by: string;
+  order: SortOrder;
+  key: string | number | null;
+  created_at: string;
+  id: string;
+  direction: CursorDirection;
+}
+
+export interface PaginationOptions {
+  limit: number;
+  page?: number;
+  cursor?: Cursor;
+  sort_by: string;
+  order: SortOrder;
+}
+
+export interface Paginated<T> {
+  data: T[];
+  total: number;
+  limit: number;
+  page?: number;
+  next_cursor: string | null;
+  prev_cursor: string | null;
+}
+
+export function encodeCursor(cursor: Cursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+export function decodeCursor(raw: string): Cursor {
+  try {
+    const parsed = JSON.parse(
+      Buffer.from(raw, 'base64url').toString('utf8'),
+    ) as Cursor;
+    if (
+      typeof parsed?.sort_by !== 'string' ||
+      (parsed.order !== 'asc' && parsed.order !== 'desc') ||
+      typeof parsed.created_at !== 'string' ||
+      Number.isNaN(Date.parse(parsed.created_at)) ||
+      typeof parsed.id !== 'string' ||
+      (parsed.direction !== 'next' && parsed.direction !== 'prev')
+    ) {
+      throw new Error();
+    }
+    return parsed;
+  } catch {
+    throw invalidQuery('cursor');
+  }
+}
+
+/**
+ * Resolve paging query params, already validated by PaginationQueryDto,
+ * into options.
+ * - 400 on unknown sort fields, page + cursor together or a cursor issued
+ *   for another ordering
+ */
+export function parsePagination(
+  raw: PaginationQueryDto & { sort_by?: string },
+  sortFields: readonly string[],
+  defaultSort: string,
+): PaginationOptions {
+  const limit = raw.limit ?? DEFAULT_PAGE_LIMIT;
+  const page = raw.page;
+
+  let cursor: Cursor | undefined;
+  if (typeof raw.cursor !== 'undefined') {
+    if (typeof page !== 'undefined')
+      throw invalidQuery('cursor', 'cannot be combined with page');
+    cursor = decodeCursor(raw.cursor);
+  }
+
+  // sorting defaults to whatever the cursor was issued for
+  const sort_by = raw.sort_by ?? cursor?.sort_by ?? defaultSort;
+  if (!sortFields.includes(sort_by))
+    throw invalidQuery('sort_by', `must be one of ${sortFields.join(', ')}`);
+
+  const order = raw.order ?? cursor?.order ?? 'desc';
+
+  // a cursor only makes sense for the ordering it was issued for
+  if (cursor && (cursor.sort_by !== sort_by || cursor.order !== order))
+    throw invalidQuery('cursor', 'was issued for another sort_by or order');
+
+  return { limit, page, cursor, sort_by, order };
+}
@@ -0,0 +1,42 @@
+import type { NextFunction, Request, Response } from 'express';
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomUUID } from 'crypto';
+
+/** Request ids accepted from clients; anything else is replaced */
+const REQUEST_ID = /^[\w.:-]{1,128}$/;
+
+const requestContext = new AsyncLocalStorage<{ requestId: string }>();
+
+/**
+ * Tags every request with an id, taken from a well-formed `X-Request-Id`
+ * header or generated, and echoes it in the `X-Request-Id` response header.
+ * The rest of the request runs with the id in its async context, so error
+ * responses and every log line written while handling it carry the same id.
+ */
+export function requestIdMiddleware(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) {
+  const header = req.headers['x-request-id'];
+  const id =
+    typeof header === 'string' && REQUEST_ID.test(header)
+      ? header
+      : randomUUID();
+  res.locals.requestId = id;
+  res.setHeader('X-Request-Id', id);
+  requestContext.run({ requestId: id }, next);
+}
+
+/** The id of the request being handled, if any */
+export function currentRequestId(): string | undefined {
+  return requestContext.getStore()?.requestId;
+}
+
+/** The id of a request; one is assigned if the middleware did not run */
+export function requestIdOf(req: Request, res: Response): string {
+  if (typeof res.locals.requestId !== 'string') {
+    requestIdMiddleware(req, res, () => undefined);
+  }
+  return res.locals.requestId as string;
+}
@@ -0,0 +1,114 @@
+import {
+  ArgumentMetadata,
+  Injectable,
+  ValidationError,
+  ValidationPipe,
+} from '@nestjs/common';
+import { TransformFnParams } from 'class-transformer';
+import { ApiException, ErrorCode, InvalidParam } from './errors';
+
+/** Thrown by the validator, turned into an ApiException once the source is known */
+class RequestValidationError extends Error {
+  constructor(readonly errors: ValidationError[]) {
+    super('Request validation failed');
+  }
+}
+
+interface Failure extends InvalidParam {
+  code?: ErrorCode;
+}
+
+/**
+ * One failure per invalid field, nested fields named by their path
+ * (`options.locale`). A constraint with a `code` in its context only
+ * applies when it is the field's only failure, so a missing value is
+ * reported as missing rather than as, say, a wrong type.
+ */
+function failures(errors: ValidationError[], parent = ''): Failure[] {
+  return errors.flatMap((error) => {
+    const name = parent ? `${parent}.${error.property}` : error.property;
+    const nested = failures(error.children ?? [], name);
+    const constraints = Object.keys(error.constraints ?? {});
+    if (!constraints.length) return nested;
+
+    const contexts = (error.contexts ?? {}) as Record<
+      string,
+      { code?: ErrorCode } | undefined
+    >;
+    const code =
+      constraints.length === 1 ? contexts[constraints[0]]?.code : undefined;
+    const constraint = constraints.includes('isDefined')
+      ? 'isDefined'
+      : (constraints.find((c) => !contexts[c]?.code) ?? constraints[0]);
+    return [{ name, reason: error.constraints![constraint], code }, ...nested];
+  });
+}
+
+/**
+ * ValidationPipe answering with the error model: 400 INVALID_BODY or
+ * INVALID_QUERY_PARAMETER naming the invalid fields, or the code a
+ * constraint declares in its context, e.g.
+ * `@IsString({ context: { code: 'INVALID_VALUE_TYPE' } })`.
+ * Unknown fields are stripped, not rejected.
+ */
+@Injectable()
+export class ApiValidationPipe extends ValidationPipe {
+  constructor() {
+    super({
+      whitelist: true,
+      transform: true,
+      exceptionFactory: (errors) => new RequestValidationError(errors),
+    });
+  }
+
+  async transform(value: unknown, metadata: ArgumentMetadata) {
+    try {
+      return (await super.transform(value, metadata)) as unknown;
+    } catch (err) {
+      if (!(err instanceof RequestValidationError)) throw err;
+
+      const found = failures(err.errors);
+      const params = found.map(({ name, reason }) => ({
+        name: name || metadata.type,
+        reason,
+      }));
+      const code = found.find((f) => f.code)?.code;
+      if (code) {
+        const reason = found.find((f) => f.code === code)!.reason;
+        throw new ApiException(code, reason, params);
+      }
+      if (metadata.type === 'query') {
+        throw new ApiException(
+          'INVALID_QUERY_PARAMETER',
+          'Invalid query parameter values or types',
+          params,
+        );
+      }
+      throw new ApiException(
+        'INVALID_BODY',
+        params[0]?.reason ?? 'Invalid request body',
+        params,
+      );
+    }
+  }
+}
+
+/**
+ * `@Transform` of a 'true' / 'false' query flag; other values are left
+ * for `@IsBoolean` to reject
+ */
+export function toBoolean({ value }: TransformFnParams): unknown {
+  if (value === 'true') return true;
+  if (value === 'false') return false;
+  return value;
+}
+
+/**
+ * `@Transform` of a numeric query parameter; blanks and other values that
+ * are not numbers become NaN for `@IsInt` / `@IsNumber` to reject
+ */
+export function toNumber({ value }: TransformFnParams): unknown {
+  if (typeof value === 'undefined') return value;
+  if (typeof value !== 'string' || value.trim() === '') return NaN;
+  return Number(value);
+}
@@ -0,0 +1,9 @@
+import 'reflect-metadata';
+import { DataSource } from 'typeorm';
+import { databaseOptions } from './database.config';
+
+/**
+ * Data source for the TypeORM CLI, e.g. `npm run migration:run`.
+ * Reads DATABASE_URL from the environment.
+ */
+export default new DataSource(databaseOptions(process.env.DATABASE_URL));
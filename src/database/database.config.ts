@@ -0,0 +1,33 @@
+import { join } from 'path';
+import { PostgresConnectionOptions } from 'typeorm/driver/postgres/PostgresConnectionOptions';
+import { StringAnalyzer } from '../string-analyzer/entities/string-analyzer.entity';
+import { AnalysisJob } from '../jobs/entities/analysis-job.entity';
+import { ApiKey } from '../auth/entities/api-key.entity';
+import { ApiKeyUsage } from '../auth/entities/api-key-usage.entity';
+import { Webhook } from '../webhooks/entities/webhook.entity';
+import { WebhookDelivery } from '../webhooks/entities/webhook-delivery.entity';
+import { NaturalLanguageFailure } from '../string-analyzer/entities/natural-language-failure.entity';
+import { OutboxEvent } from '../string-analyzer/entities/outbox-event.entity';
+
+/**
+ * Connection options shared by the application and the TypeORM CLI.
+ * The schema is owned by the migrations in ./migrations, never synchronized.
+ */
+export function databaseOptions(url?: string): PostgresConnectionOptions {
+  return {
+    type: 'postgres',
+    url,
+    entities: [
+      StringAnalyzer,
+      AnalysisJob,
+      ApiKey,
+      ApiKeyUsage,
+      Webhook,
+      WebhookDelivery,
+      NaturalLanguageFailure,
+      OutboxEvent,
+    ],
+    migrations: [join(__dirname, 'migrations', '*.{ts,js}')],
+    synchronize: false,
+  };
+}
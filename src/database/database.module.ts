@@ -0,0 +1,22 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { databaseOptions } from './database.config';
+import { SchemaCheck } from './schema-check.service';
+
+@Module({
+  imports: [
+    TypeOrmModule.forRootAsync({
+      imports: [ConfigModule],
+      useFactory: (configService: ConfigService) => ({
+        ...databaseOptions(configService.get<string>('DATABASE_URL')),
+        // apply pending migrations at startup instead of failing the schema check
+        migrationsRun:
+          configService.get<string>('DB_RUN_MIGRATIONS') === 'true',
+      }),
+      inject: [ConfigService],
+    }),
+  ],
+  providers: [SchemaCheck],
+})
+export class DatabaseModule {}
@@ -0,0 +1,68 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Tables as previously created by `synchronize`. Every statement is
+ * idempotent so databases that were synchronized can adopt migrations;
+ * timestamps synchronized before they had millisecond precision are
+ * narrowed to it, as keyset cursors carry milliseconds.
+ */
+export class InitialSchema1792400000000 implements MigrationInterface {
+  name = 'InitialSchema1792400000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`CREATE EXTENSION IF NOT EXISTS "uuid-ossp"`);
+
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "string_analyzer" (
+        "id" character varying NOT NULL,
+        "value" character varying NOT NULL,
+        "properties" jsonb NOT NULL,
+        "created_at" TIMESTAMP(3) NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_string_analyzer" PRIMARY KEY ("id")
+      )
+    `);
+    // columns added after the first release
+    await queryRunner.query(
+      `ALTER TABLE "string_analyzer" ADD COLUMN IF NOT EXISTS "analysis_options" jsonb`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "string_analyzer" ADD COLUMN IF NOT EXISTS "analysis_version" integer NOT NULL DEFAULT 1`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "string_analyzer" ADD COLUMN IF NOT EXISTS "anagram_signature" character varying`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "string_analyzer" ALTER COLUMN "created_at" TYPE TIMESTAMP(3)`,
+    );
+
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "analysis_jobs" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "type" character varying NOT NULL DEFAULT 'reanalyze',
+        "status" character varying NOT NULL DEFAULT 'pending',
+        "below_version" integer NOT NULL,
+        "target_version" integer NOT NULL,
+        "total" integer NOT NULL DEFAULT 0,
+        "processed" integer NOT NULL DEFAULT 0,
+        "cursor" character varying,
+        "error" text,
+        "locked_by" character varying,
+        "locked_until" TIMESTAMP WITH TIME ZONE,
+        "created_at" TIMESTAMP(3) NOT NULL DEFAULT now(),
+        "updated_at" TIMESTAMP(3) NOT NULL DEFAULT now(),
+        "finished_at" TIMESTAMP WITH TIME ZONE,
+        CONSTRAINT "PK_analysis_jobs" PRIMARY KEY ("id")
+      )
+    `);
+    await queryRunner.query(`
+      ALTER TABLE "analysis_jobs"
+        ALTER COLUMN "created_at" TYPE TIMESTAMP(3),
+        ALTER COLUMN "updated_at" TYPE TIMESTAMP(3)
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS "analysis_jobs"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "string_analyzer"`);
+  }
+}
@@ -0,0 +1,60 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Indexes for lookups, filters and sorting. Expression indexes repeat the
+ * exact expressions of the filter compiler and the sort keys
+ * (`CAST(properties ->> 'key' AS INTEGER)`), which is what lets Postgres
+ * use them.
+ */
+export class FilterIndexes1792400000001 implements MigrationInterface {
+  name = 'FilterIndexes1792400000001';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // GET/DELETE /strings/:value; hash because values can outgrow a btree entry
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS "IDX_string_analyzer_value" ON "string_analyzer" USING hash ("value")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS "IDX_string_analyzer_anagram_signature" ON "string_analyzer" ("anagram_signature")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS "IDX_string_analyzer_analysis_version" ON "string_analyzer" ("analysis_version")`,
+    );
+
+    // sort keys (sort value, created_at, id) double as range filters
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS "IDX_string_analyzer_created_at" ON "string_analyzer" ("created_at", "id")`,
+    );
+    for (const key of ['length', 'word_count', 'unique_characters']) {
+      await queryRunner.query(
+        `CREATE INDEX IF NOT EXISTS "IDX_string_analyzer_${key}" ON "string_analyzer" ((CAST("properties" ->> '${key}' AS INTEGER)), "created_at", "id")`,
+      );
+    }
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS "IDX_string_analyzer_is_palindrome" ON "string_analyzer" ((CAST("properties" ->> 'is_palindrome' AS BOOLEAN)))`,
+    );
+
+    // contains_character / contains('x'): jsonb key existence
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS "IDX_string_analyzer_character_frequency_map" ON "string_analyzer" USING gin (("properties" -> 'character_frequency_map'))`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    for (const name of [
+      'character_frequency_map',
+      'is_palindrome',
+      'unique_characters',
+      'word_count',
+      'length',
+      'created_at',
+      'analysis_version',
+      'anagram_signature',
+      'value',
+    ]) {
+      await queryRunner.query(
+        `DROP INDEX IF EXISTS "IDX_string_analyzer_${name}"`,
+      );
+    }
+  }
+}
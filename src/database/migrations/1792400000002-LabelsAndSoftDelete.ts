@@ -0,0 +1,37 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Tags and metadata on records, and soft deletes
+ */
+export class LabelsAndSoftDelete1792400000002 implements MigrationInterface {
+  name = 'LabelsAndSoftDelete1792400000002';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "string_analyzer" ADD COLUMN IF NOT EXISTS "tags" text array NOT NULL DEFAULT '{}'`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "string_analyzer" ADD COLUMN IF NOT EXISTS "metadata" jsonb NOT NULL DEFAULT '{}'`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "string_analyzer" ADD COLUMN IF NOT EXISTS "deleted_at" TIMESTAMP(3)`,
+    );
+    // has_tag('x') compiles to `tags @> ARRAY['x']`
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS "IDX_string_analyzer_tags" ON "string_analyzer" USING gin ("tags")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX IF EXISTS "IDX_string_analyzer_tags"`);
+    await queryRunner.query(
+      `ALTER TABLE "string_analyzer" DROP COLUMN IF EXISTS "deleted_at"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "string_analyzer" DROP COLUMN IF EXISTS "metadata"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "string_analyzer" DROP COLUMN IF EXISTS "tags"`,
+    );
+  }
+}
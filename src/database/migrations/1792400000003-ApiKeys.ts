@@ -0,0 +1,46 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * API keys and their daily usage counters
+ */
+export class ApiKeys1792400000003 implements MigrationInterface {
+  name = 'ApiKeys1792400000003';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE "api_keys" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "name" character varying NOT NULL,
+        "prefix" character varying NOT NULL,
+        "key_hash" character varying NOT NULL,
+        "scopes" text array NOT NULL,
+        "rate_limit" integer NOT NULL,
+        "daily_quota" integer NOT NULL,
+        "created_at" TIMESTAMP(3) NOT NULL DEFAULT now(),
+        "rotated_at" TIMESTAMP WITH TIME ZONE,
+        "last_used_at" TIMESTAMP WITH TIME ZONE,
+        "revoked_at" TIMESTAMP WITH TIME ZONE,
+        CONSTRAINT "PK_api_keys" PRIMARY KEY ("id")
+      )
+    `);
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "IDX_api_keys_key_hash" ON "api_keys" ("key_hash")`,
+    );
+
+    await queryRunner.query(`
+      CREATE TABLE "api_key_usage" (
+        "key_id" uuid NOT NULL,
+        "day" date NOT NULL,
+        "analyzed" integer NOT NULL DEFAULT 0,
+        CONSTRAINT "PK_api_key_usage" PRIMARY KEY ("key_id", "day"),
+        CONSTRAINT "FK_api_key_usage_key" FOREIGN KEY ("key_id")
+          REFERENCES "api_keys" ("id") ON DELETE CASCADE
+      )
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE "api_key_usage"`);
+    await queryRunner.query(`DROP TABLE "api_keys"`);
+  }
+}
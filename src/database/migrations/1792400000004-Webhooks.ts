@@ -0,0 +1,53 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Webhook subscriptions and their delivery log
+ */
+export class Webhooks1792400000004 implements MigrationInterface {
+  name = 'Webhooks1792400000004';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE "webhooks" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "url" character varying NOT NULL,
+        "secret" character varying NOT NULL,
+        "events" text array NOT NULL,
+        "active" boolean NOT NULL DEFAULT true,
+        "created_at" TIMESTAMP(3) NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_webhooks" PRIMARY KEY ("id")
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE TABLE "webhook_deliveries" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "webhook_id" uuid NOT NULL,
+        "event_id" uuid NOT NULL,
+        "event_type" character varying NOT NULL,
+        "payload" jsonb NOT NULL,
+        "status" character varying NOT NULL DEFAULT 'pending',
+        "attempts" integer NOT NULL DEFAULT 0,
+        "next_attempt_at" TIMESTAMP WITH TIME ZONE NOT NULL,
+        "last_status_code" integer,
+        "last_error" text,
+        "created_at" TIMESTAMP(3) NOT NULL DEFAULT now(),
+        "delivered_at" TIMESTAMP WITH TIME ZONE,
+        CONSTRAINT "PK_webhook_deliveries" PRIMARY KEY ("id"),
+        CONSTRAINT "FK_webhook_deliveries_webhook" FOREIGN KEY ("webhook_id")
+          REFERENCES "webhooks" ("id") ON DELETE CASCADE
+      )
+    `);
+    await queryRunner.query(
+      `CREATE INDEX "IDX_webhook_deliveries_due" ON "webhook_deliveries" ("status", "next_attempt_at")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_webhook_deliveries_webhook" ON "webhook_deliveries" ("webhook_id", "created_at")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE "webhook_deliveries"`);
+    await queryRunner.query(`DROP TABLE "webhooks"`);
+  }
+}
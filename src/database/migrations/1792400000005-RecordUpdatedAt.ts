@@ -0,0 +1,25 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Last change of a record (labels, re-analysis, soft delete and restore),
+ * the validator behind ETag and Last-Modified
+ */
+export class RecordUpdatedAt1792400000005 implements MigrationInterface {
+  name = 'RecordUpdatedAt1792400000005';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "string_analyzer" ADD COLUMN IF NOT EXISTS "updated_at" TIMESTAMP(3) NOT NULL DEFAULT now()`,
+    );
+    // existing records have not changed since they were stored, as far as we know
+    await queryRunner.query(
+      `UPDATE "string_analyzer" SET "updated_at" = "created_at"`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "string_analyzer" DROP COLUMN IF EXISTS "updated_at"`,
+    );
+  }
+}
@@ -0,0 +1,83 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+const SORT_KEYS = ['length', 'word_count', 'unique_characters'];
+
+/**
+ * Drop the primary key of string_analyzer by its actual name: tables
+ * created by `synchronize` carry a generated PK_<hash> name instead of
+ * PK_string_analyzer
+ */
+async function dropPrimaryKey(queryRunner: QueryRunner): Promise<void> {
+  const [pk] = (await queryRunner.query(
+    `SELECT conname FROM pg_constraint
+     WHERE conrelid = 'string_analyzer'::regclass AND contype = 'p'`,
+  )) as { conname: string }[];
+  if (!pk) return;
+  await queryRunner.query(
+    `ALTER TABLE "string_analyzer" DROP CONSTRAINT "${pk.conname}"`,
+  );
+}
+
+/**
+ * Named collections of strings. Existing rows join the default collection,
+ * ids become unique per collection and the sort indexes lead with the
+ * collection, which every listing filters on.
+ */
+export class Collections1792400000006 implements MigrationInterface {
+  name = 'Collections1792400000006';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "string_analyzer" ADD COLUMN IF NOT EXISTS "collection" VARCHAR(64) NOT NULL DEFAULT 'default'`,
+    );
+    await dropPrimaryKey(queryRunner);
+    await queryRunner.query(
+      `ALTER TABLE "string_analyzer" ADD CONSTRAINT "PK_string_analyzer" PRIMARY KEY ("collection", "id")`,
+    );
+
+    await queryRunner.query(
+      `DROP INDEX IF EXISTS "IDX_string_analyzer_created_at"`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_string_analyzer_created_at" ON "string_analyzer" ("collection", "created_at", "id")`,
+    );
+    for (const key of SORT_KEYS) {
+      await queryRunner.query(
+        `DROP INDEX IF EXISTS "IDX_string_analyzer_${key}"`,
+      );
+      await queryRunner.query(
+        `CREATE INDEX "IDX_string_analyzer_${key}" ON "string_analyzer" ("collection", (CAST("properties" ->> '${key}' AS INTEGER)), "created_at", "id")`,
+      );
+    }
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    // ids are only unique per collection: everything outside the default one is lost
+    await queryRunner.query(
+      `DELETE FROM "string_analyzer" WHERE "collection" <> 'default'`,
+    );
+
+    for (const key of SORT_KEYS) {
+      await queryRunner.query(
+        `DROP INDEX IF EXISTS "IDX_string_analyzer_${key}"`,
+      );
+      await queryRunner.query(
+        `CREATE INDEX "IDX_string_analyzer_${key}" ON "string_analyzer" ((CAST("properties" ->> '${key}' AS INTEGER)), "created_at", "id")`,
+      );
+    }
+    await queryRunner.query(
+      `DROP INDEX IF EXISTS "IDX_string_analyzer_created_at"`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_string_analyzer_created_at" ON "string_analyzer" ("created_at", "id")`,
+    );
+
+    await dropPrimaryKey(queryRunner);
+    await queryRunner.query(
+      `ALTER TABLE "string_analyzer" ADD CONSTRAINT "PK_string_analyzer" PRIMARY KEY ("id")`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "string_analyzer" DROP COLUMN IF EXISTS "collection"`,
+    );
+  }
+}
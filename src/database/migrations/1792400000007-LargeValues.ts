@@ -0,0 +1,25 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Values above INLINE_VALUE_BYTES live in the blob store, their row keeps a
+ * preview. Existing rows hold their whole value.
+ */
+export class LargeValues1792400000007 implements MigrationInterface {
+  name = 'LargeValues1792400000007';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "string_analyzer" ADD COLUMN IF NOT EXISTS "value_truncated" BOOLEAN NOT NULL DEFAULT false`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    // the previews of truncated rows cannot become whole values again
+    await queryRunner.query(
+      `DELETE FROM "string_analyzer" WHERE "value_truncated"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "string_analyzer" DROP COLUMN IF EXISTS "value_truncated"`,
+    );
+  }
+}
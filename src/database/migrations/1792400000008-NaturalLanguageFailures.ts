@@ -0,0 +1,33 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Log of natural language queries that failed or were partly understood
+ */
+export class NaturalLanguageFailures1792400000008
+  implements MigrationInterface
+{
+  name = 'NaturalLanguageFailures1792400000008';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE "natural_language_failures" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "query" text NOT NULL,
+        "outcome" character varying NOT NULL,
+        "ignored" text array NOT NULL,
+        "suggestions" text array NOT NULL,
+        "occurrences" integer NOT NULL DEFAULT 1,
+        "first_seen_at" TIMESTAMP(3) NOT NULL DEFAULT now(),
+        "last_seen_at" TIMESTAMP WITH TIME ZONE NOT NULL,
+        CONSTRAINT "PK_natural_language_failures" PRIMARY KEY ("id")
+      )
+    `);
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "IDX_natural_language_failures_query" ON "natural_language_failures" ("query")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE "natural_language_failures"`);
+  }
+}
@@ -0,0 +1,21 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * The rows of large values per collection, which search reports as
+ * skipped. Partial, so it stays as small as those rows are rare.
+ */
+export class LargeValuesIndex1792400000009 implements MigrationInterface {
+  name = 'LargeValuesIndex1792400000009';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS "IDX_string_analyzer_value_truncated" ON "string_analyzer" ("collection") WHERE "value_truncated"`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DROP INDEX IF EXISTS "IDX_string_analyzer_value_truncated"`,
+    );
+  }
+}
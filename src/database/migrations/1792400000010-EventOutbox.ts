@@ -0,0 +1,28 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Outbox of string events, written with the change they report and
+ * drained into webhook deliveries
+ */
+export class EventOutbox1792400000010 implements MigrationInterface {
+  name = 'EventOutbox1792400000010';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE "string_event_outbox" (
+        "id" uuid NOT NULL,
+        "type" character varying NOT NULL,
+        "payload" jsonb NOT NULL,
+        "created_at" TIMESTAMP(3) NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_string_event_outbox" PRIMARY KEY ("id")
+      )
+    `);
+    await queryRunner.query(
+      `CREATE INDEX "IDX_string_event_outbox_created_at" ON "string_event_outbox" ("created_at")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE "string_event_outbox"`);
+  }
+}
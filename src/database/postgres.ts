@@ -0,0 +1,97 @@
+import {
+  applyDecorators,
+  CanActivate,
+  DynamicModule,
+  ExecutionContext,
+  Injectable,
+  Logger,
+  Module,
+  OnApplicationBootstrap,
+  SetMetadata,
+  Type,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { ConfigModule } from '@nestjs/config';
+import { ApiProblems } from '../common/api-docs';
+import { ApiException } from '../common/errors';
+
+export const POSTGRES_ONLY_KEY = 'database:postgres-only';
+
+/**
+ * Whether strings are kept in Postgres: STRING_STORE unset or `postgres`.
+ * With another store the application runs without a database server and
+ * the Postgres-only features (search, stats, export and import, backfills,
+ * jobs, API keys, webhooks, the query failure log) are off.
+ */
+export function postgresEnabled(
+  env: Record<string, string | undefined> = process.env,
+): boolean {
+  return (env.STRING_STORE || 'postgres') === 'postgres';
+}
+
+/** 501 POSTGRES_REQUIRED */
+export function postgresRequired(): ApiException {
+  return new ApiException(
+    'POSTGRES_REQUIRED',
+    'This feature needs the postgres string store',
+  );
+}
+
+/**
+ * A repository injected with @Optional(), missing when Postgres is off
+ * - throws POSTGRES_REQUIRED (501) then
+ */
+export function postgresOnly<T>(repository: T | undefined): T {
+  if (!repository) throw postgresRequired();
+  return repository;
+}
+
+/**
+ * `module` when Postgres is enabled, nothing otherwise. Decided once
+ * ConfigModule has loaded the environment, so .env files count.
+ * Repositories of modules imported this way are injected with @Optional().
+ */
+export async function whenPostgres(
+  module: Type | DynamicModule,
+): Promise<DynamicModule> {
+  await ConfigModule.envVariablesLoaded;
+  // a class per call, so Nest never takes two of these for the same module
+  @Module({})
+  class PostgresModule {}
+  const modules = postgresEnabled() ? [module] : [];
+  return { module: PostgresModule, imports: modules, exports: modules };
+}
+
+/**
+ * Route (or every route of a controller) that needs Postgres; answers 501
+ * POSTGRES_REQUIRED before the handler runs when another store is chosen
+ */
+export const PostgresOnly = () =>
+  applyDecorators(
+    SetMetadata(POSTGRES_ONLY_KEY, true),
+    ApiProblems('POSTGRES_REQUIRED'),
+  );
+
+@Injectable()
+export class PostgresOnlyGuard implements CanActivate, OnApplicationBootstrap {
+  private readonly logger = new Logger(PostgresOnlyGuard.name);
+  private readonly enabled = postgresEnabled();
+
+  constructor(private readonly reflector: Reflector) {}
+
+  onApplicationBootstrap() {
+    if (this.enabled) return;
+    this.logger.warn(
+      `STRING_STORE=${process.env.STRING_STORE}: search, stats, export, import, jobs, backfills, API keys, webhooks and the query failure log are off`,
+    );
+  }
+
+  canActivate(context: ExecutionContext): boolean {
+    const postgresOnly = this.reflector.getAllAndOverride<boolean>(
+      POSTGRES_ONLY_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+    if (postgresOnly && !this.enabled) throw postgresRequired();
+    return true;
+  }
+}
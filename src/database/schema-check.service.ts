@@ -0,0 +1,50 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { DataSource } from 'typeorm';
+
+/** Timestamps compared with millisecond values, e.g. in keyset cursors */
+const MILLISECOND_COLUMNS: [table: string, column: string][] = [
+  ['string_analyzer', 'created_at'],
+  ['analysis_jobs', 'created_at'],
+  ['analysis_jobs', 'updated_at'],
+];
+
+/**
+ * Refuses to start the application while migrations are pending, or while
+ * a timestamp column keeps more than milliseconds, so the code never runs
+ * against a schema it was not written for.
+ */
+@Injectable()
+export class SchemaCheck implements OnModuleInit {
+  constructor(private readonly dataSource: DataSource) {}
+
+  async onModuleInit() {
+    if (await this.dataSource.showMigrations()) {
+      throw new Error(
+        'Database schema is out of date: run `npm run migration:run` (or set DB_RUN_MIGRATIONS=true) before starting',
+      );
+    }
+
+    const columns = await this.dataSource.query<
+      { table_name: string; column_name: string; datetime_precision: number }[]
+    >(
+      `SELECT table_name, column_name, datetime_precision
+       FROM information_schema.columns
+       WHERE table_schema = current_schema()
+         AND (table_name, column_name) IN (${MILLISECOND_COLUMNS.map(
+           (_, i) => `($${2 * i + 1}, $${2 * i + 2})`,
+         ).join(', ')})`,
+      MILLISECOND_COLUMNS.flat(),
+    );
+    const wrong = columns.filter((c) => c.datetime_precision !== 3);
+    if (wrong.length) {
+      throw new Error(
+        `Database timestamps need millisecond precision: ${wrong
+          .map(
+            (c) =>
+              `${c.table_name}.${c.column_name} has ${c.datetime_precision} digits`,
+          )
+          .join(', ')}; alter them to TIMESTAMP(3) before starting`,
+      );
+    }
+  }
+}
@@ -0,0 +1,65 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsNumber, IsOptional } from 'class-validator';
+import type { JobStatus } from '../entities/analysis-job.entity';
+
+export class ReanalyzeDto {
+  @ApiPropertyOptional({
+    type: 'integer',
+    description:
+      'Records with an analysis_version below it are re-analysed; the current version when omitted',
+  })
+  @IsOptional()
+  @IsNumber({}, { message: 'below_version must be a number' })
+  below_version?: number;
+}
+
+export class JobDto {
+  @ApiProperty({ format: 'uuid' })
+  id: string;
+
+  @ApiProperty({ enum: ['reanalyze'] })
+  type: 'reanalyze';
+
+  @ApiProperty({ enum: ['pending', 'running', 'completed', 'failed'] })
+  status: JobStatus;
+
+  @ApiProperty({ type: 'integer' })
+  below_version: number;
+
+  @ApiProperty({
+    type: 'integer',
+    description: 'Analysis version the records are brought up to',
+  })
+  target_version: number;
+
+  @ApiProperty({
+    type: 'integer',
+    description: 'Records to process, counted when the job was created',
+  })
+  total: number;
+
+  @ApiProperty({ type: 'integer' })
+  processed: number;
+
+  @ApiProperty({ description: 'Share of the records processed, 0-1' })
+  progress: number;
+
+  @ApiProperty({
+    type: String,
+    nullable: true,
+    description: '`<collection>/<id>` of the last record processed',
+  })
+  cursor: string | null;
+
+  @ApiProperty({ type: String, nullable: true })
+  error: string | null;
+
+  @ApiProperty()
+  created_at: Date;
+
+  @ApiProperty()
+  updated_at: Date;
+
+  @ApiProperty({ type: Date, nullable: true })
+  finished_at: Date | null;
+}
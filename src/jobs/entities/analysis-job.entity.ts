@@ -0,0 +1,61 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+
+export type JobStatus = 'pending' | 'running' | 'completed' | 'failed';
+
+@Entity('analysis_jobs')
+export class AnalysisJob {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'varchar', default: 'reanalyze' })
+  type: 'reanalyze';
+
+  @Column({ type: 'varchar', default: 'pending' })
+  status: JobStatus;
+
+  // records with an analysis_version below this are re-analysed
+  @Column({ type: 'integer' })
+  below_version: number;
+
+  // ANALYSIS_VERSION the records are brought up to
+  @Column({ type: 'integer' })
+  target_version: number;
+
+  // records to process, counted when the job was created
+  @Column({ type: 'integer', default: 0 })
+  total: number;
+
+  @Column({ type: 'integer', default: 0 })
+  processed: number;
+
+  // checkpoint: `<collection>/<id>` of the last record processed, batches
+  // resume after it; a bare id, from before collections, is in the default one
+  @Column({ type: 'varchar', nullable: true })
+  cursor: string | null;
+
+  @Column({ type: 'text', nullable: true })
+  error: string | null;
+
+  // lease held by the process running the job, so restarts and other
+  // instances only pick it up once the holder is gone
+  @Column({ type: 'varchar', nullable: true })
+  locked_by: string | null;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  locked_until: Date | null;
+
+  @CreateDateColumn({ precision: 3 })
+  created_at: Date;
+
+  @UpdateDateColumn({ precision: 3 })
+  updated_at: Date;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  finished_at: Date | null;
+}
@@ -0,0 +1,50 @@
+import { Body, Controller, Get, HttpCode, Param, Post } from '@nestjs/common';
+import {
+  ApiAcceptedResponse,
+  ApiOkResponse,
+  ApiOperation,
+  ApiTags,
+} from '@nestjs/swagger';
+import { JobsService } from './jobs.service';
+import { RequireScope } from '../auth/auth.decorators';
+import { ApiProblems } from '../common/api-docs';
+import { JobDto, ReanalyzeDto } from './dto/job.dto';
+import { PostgresOnly } from '../database/postgres';
+
+@ApiTags('jobs')
+@Controller('jobs')
+@PostgresOnly()
+@RequireScope('read')
+export class JobsController {
+  constructor(private readonly service: JobsService) {}
+
+  /**
+   * POST /jobs/reanalyze
+   * - body: { below_version?: number }, default the current analysis version
+   * - 202 Accepted with the queued job
+   * - 400 if below_version is invalid
+   */
+  @Post('reanalyze')
+  @HttpCode(202)
+  @RequireScope('admin')
+  @ApiOperation({
+    operationId: 'reanalyze',
+    summary: 'Queue a re-analysis of records below a version',
+  })
+  @ApiAcceptedResponse({ type: JobDto })
+  @ApiProblems('INVALID_BODY')
+  async reanalyze(@Body() body: ReanalyzeDto) {
+    return this.service.createReanalysis(body.below_version);
+  }
+
+  /**
+   * GET /jobs/:id -> 200 with status and progress, 404 if not found
+   */
+  @Get(':id')
+  @ApiOperation({ operationId: 'getJob', summary: 'Get the progress of a job' })
+  @ApiOkResponse({ type: JobDto })
+  @ApiProblems('JOB_NOT_FOUND')
+  async get(@Param('id') id: string) {
+    return this.service.get(id);
+  }
+}
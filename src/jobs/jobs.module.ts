@@ -0,0 +1,18 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { AnalysisJob } from './entities/analysis-job.entity';
+import { JobsService } from './jobs.service';
+import { JobsController } from './jobs.controller';
+import { StringAnalyzer } from '../string-analyzer/entities/string-analyzer.entity';
+import { StringAnalyzerModule } from '../string-analyzer/string-analyzer.module';
+import { whenPostgres } from '../database/postgres';
+
+@Module({
+  providers: [JobsService],
+  controllers: [JobsController],
+  imports: [
+    StringAnalyzerModule,
+    whenPostgres(TypeOrmModule.forFeature([AnalysisJob, StringAnalyzer])),
+  ],
+})
+export class JobsModule {}
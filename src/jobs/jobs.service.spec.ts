@@ -0,0 +1,243 @@
+import { Test } from '@nestjs/testing';
+import { DiscoveryModule } from '@nestjs/core';
+import { ConfigService } from '@nestjs/config';
+import { DataSource, Repository } from 'typeorm';
+import { JobsService } from './jobs.service';
+import { AnalysisJob } from './entities/analysis-job.entity';
+import {
+  StringEvent,
+  StringEventsService,
+} from '../string-analyzer/string-events.service';
+import { StringValueService } from '../string-analyzer/string-value.service';
+import { AnalyzerRegistry } from '../string-analyzer/analyzers/analyzer-registry.service';
+import { CORE_ANALYZERS } from '../string-analyzer/analyzers/core.analyzers';
+import { METRIC_ANALYZERS } from '../string-analyzer/analyzers/metric.analyzers';
+import { StringAnalyzer } from '../string-analyzer/entities/string-analyzer.entity';
+import { StringAnalyzerSubscriber } from '../string-analyzer/entities/string-analyzer.subscriber';
+import { PostgresStringStore } from '../string-analyzer/storage/postgres-string.store';
+import { NewRecord } from '../string-analyzer/storage/string-store';
+import { DEFAULT_COLLECTION } from '../string-analyzer/collections';
+import { FilesystemBlobStore } from '../blobs/filesystem-blob.store';
+import { MetricsService } from '../observability/metrics.service';
+import { databaseOptions } from '../database/database.config';
+import { ApiException } from '../common/errors';
+import {
+  ANALYSIS_VERSION,
+  DEFAULT_ANALYSIS_OPTIONS,
+  sha256,
+} from '../analysis';
+
+/**
+ * Runs against TEST_DATABASE_URL, migrated on the way in. Every test
+ * empties the string_analyzer and analysis_jobs tables, so never point it
+ * at real data.
+ */
+const url = process.env.TEST_DATABASE_URL;
+
+const C = DEFAULT_COLLECTION;
+
+(url ? describe : describe.skip)('JobsService', () => {
+  let dataSource: DataSource;
+  let registry: AnalyzerRegistry;
+  let store: PostgresStringStore;
+  let jobRows: Repository<AnalysisJob>;
+  let jobs: JobsService;
+  let events: StringEvent[];
+
+  /** A record analysed by the previous version */
+  const stale = (value: string, collection = C): NewRecord => {
+    const id = sha256(value);
+    return {
+      collection,
+      id,
+      value,
+      value_truncated: false,
+      properties: registry.analyze(
+        value,
+        id,
+        DEFAULT_ANALYSIS_OPTIONS,
+      ) as NewRecord['properties'],
+      analysis_options: DEFAULT_ANALYSIS_OPTIONS,
+      analysis_version: ANALYSIS_VERSION - 1,
+      tags: [],
+      metadata: {},
+    };
+  };
+
+  const versions = async () =>
+    Object.fromEntries(
+      (
+        await dataSource.query<{ value: string; analysis_version: number }[]>(
+          'SELECT value, analysis_version FROM string_analyzer',
+        )
+      ).map((row) => [row.value, row.analysis_version]),
+    );
+
+  /** The job once it is finished, or as it stands after a second */
+  const settled = async (id: string) => {
+    let job = await jobs.get(id);
+    for (
+      let i = 0;
+      i < 50 && ['pending', 'running'].includes(job.status);
+      i++
+    ) {
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      job = await jobs.get(id);
+    }
+    return job;
+  };
+
+  const queue = (job: Partial<AnalysisJob>) =>
+    jobRows.save(
+      jobRows.create({
+        status: 'running',
+        below_version: ANALYSIS_VERSION,
+        target_version: ANALYSIS_VERSION,
+        total: 3,
+        ...job,
+      }),
+    );
+
+  beforeAll(async () => {
+    const module = await Test.createTestingModule({
+      imports: [DiscoveryModule],
+      providers: [
+        AnalyzerRegistry,
+        MetricsService,
+        ...CORE_ANALYZERS,
+        ...METRIC_ANALYZERS,
+      ],
+    }).compile();
+    await module.init();
+    registry = module.get(AnalyzerRegistry);
+
+    dataSource = await new DataSource(databaseOptions(url)).initialize();
+    await dataSource.runMigrations();
+    new StringAnalyzerSubscriber(dataSource);
+    const strings = dataSource.getRepository(StringAnalyzer);
+    jobRows = dataSource.getRepository(AnalysisJob);
+    store = new PostgresStringStore(strings, registry);
+    const bus = new StringEventsService();
+    bus.events.subscribe((event) => events.push(event));
+    jobs = new JobsService(
+      jobRows,
+      strings,
+      registry,
+      bus,
+      // every value fits its row, the blob store is never read
+      new StringValueService(
+        new ConfigService(),
+        store,
+        new FilesystemBlobStore('/nonexistent'),
+      ),
+    );
+  });
+
+  beforeEach(async () => {
+    events = [];
+    await dataSource.query('TRUNCATE string_analyzer, analysis_jobs');
+    await store.insert([
+      stale('abc'),
+      stale('level'),
+      stale('racecar', 'other'),
+    ]);
+  });
+
+  afterAll(async () => {
+    jobs?.onApplicationShutdown();
+    await dataSource?.destroy();
+  });
+
+  it('re-analyses the records of every collection below the version', async () => {
+    await store.delete({ collection: C, id: sha256('level') }, false);
+
+    const created = await jobs.createReanalysis();
+    expect(created).toMatchObject({ status: 'pending', total: 3, progress: 0 });
+
+    const job = await settled(created.id);
+    expect(job).toMatchObject({
+      status: 'completed',
+      processed: 3,
+      progress: 1,
+      cursor: `other/${sha256('racecar')}`,
+    });
+    expect(await versions()).toEqual({
+      abc: ANALYSIS_VERSION,
+      level: ANALYSIS_VERSION,
+      racecar: ANALYSIS_VERSION,
+    });
+    expect(events.map((e) => [e.data.value, e.previous_version])).toEqual(
+      expect.arrayContaining([
+        ['abc', ANALYSIS_VERSION - 1],
+        ['racecar', ANALYSIS_VERSION - 1],
+      ]),
+    );
+    expect(events).toHaveLength(3);
+  });
+
+  it('resumes unfinished jobs after their checkpoint', async () => {
+    // "default" sorts before "other"
+    const [first] = [sha256('abc'), sha256('level')].sort();
+    const { id } = await queue({ processed: 1, cursor: `${C}/${first}` });
+
+    jobs.onApplicationBootstrap();
+    expect(await settled(id)).toMatchObject({
+      status: 'completed',
+      processed: 3,
+    });
+    const done = await versions();
+    const skipped = first === sha256('abc') ? 'abc' : 'level';
+    expect(done[skipped]).toBe(ANALYSIS_VERSION - 1);
+    expect(Object.values(done).sort()).toEqual([
+      ANALYSIS_VERSION - 1,
+      ANALYSIS_VERSION,
+      ANALYSIS_VERSION,
+    ]);
+  });
+
+  it('reads checkpoints that predate collections as ids of the default one', async () => {
+    const [, last] = [sha256('abc'), sha256('level')].sort();
+    const { id } = await queue({ processed: 2, cursor: last });
+
+    jobs.onApplicationBootstrap();
+    expect(await settled(id)).toMatchObject({
+      status: 'completed',
+      processed: 3,
+      cursor: `other/${sha256('racecar')}`,
+    });
+    expect((await versions()).racecar).toBe(ANALYSIS_VERSION);
+  });
+
+  it('leaves jobs leased by another process until the lease runs out', async () => {
+    const held = await queue({
+      locked_by: 'another-worker',
+      locked_until: new Date(Date.now() + 60_000),
+    });
+    const expired = await queue({
+      locked_by: 'crashed',
+      locked_until: new Date(Date.now() - 1000),
+    });
+
+    jobs.onApplicationBootstrap();
+    expect(await settled(expired.id)).toMatchObject({
+      status: 'completed',
+      processed: 3,
+    });
+    const row = await jobRows.findOneByOrFail({ id: held.id });
+    expect(row).toMatchObject({
+      status: 'running',
+      processed: 0,
+      locked_by: 'another-worker',
+      cursor: null,
+    });
+  });
+
+  it('rejects versions it cannot re-analyse to', async () => {
+    for (const version of [0, 1.5, ANALYSIS_VERSION + 2]) {
+      await expect(jobs.createReanalysis(version)).rejects.toBeInstanceOf(
+        ApiException,
+      );
+    }
+    expect(await jobRows.count()).toBe(0);
+  });
+});
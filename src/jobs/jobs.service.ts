@@ -0,0 +1,314 @@
+import {
+  Injectable,
+  OnApplicationBootstrap,
+  OnApplicationShutdown,
+  Logger,
+  Optional,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Repository } from 'typeorm';
+import { randomUUID } from 'crypto';
+import { AnalysisJob } from './entities/analysis-job.entity';
+import { StringAnalyzer } from '../string-analyzer/entities/string-analyzer.entity';
+import { DEFAULT_COLLECTION } from '../string-analyzer/collections';
+import { keysetCondition } from '../string-analyzer/storage/record-paging';
+import { recordEvents } from '../string-analyzer/storage/event-outbox';
+import { AnalyzerRegistry } from '../string-analyzer/analyzers/analyzer-registry.service';
+import {
+  StringEventsService,
+  stringEvent,
+} from '../string-analyzer/string-events.service';
+import { StringValueService } from '../string-analyzer/string-value.service';
+import { toRecord } from '../string-analyzer/entities/string-analyzer.entity';
+import { ANALYSIS_VERSION, DEFAULT_ANALYSIS_OPTIONS } from '../analysis';
+import { ApiException, invalidBody, unexpected } from '../common/errors';
+import { postgresOnly } from '../database/postgres';
+
+/** Records re-analysed per batch; each batch commits with its checkpoint */
+export const JOB_BATCH_SIZE = 500;
+/** How long a job stays claimed by a process without renewing its lease */
+const LEASE_MS = 60_000;
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export type JobResponse = Omit<AnalysisJob, 'locked_by' | 'locked_until'> & {
+  /** share of the records processed, 0-1 */
+  progress: number;
+};
+
+/**
+ * The record a job checkpoint points at; checkpoints from before
+ * collections hold a bare id of the default collection
+ */
+function parseCursor(cursor: string): { collection: string; id: string } {
+  const slash = cursor.indexOf('/');
+  return slash === -1
+    ? { collection: DEFAULT_COLLECTION, id: cursor }
+    : { collection: cursor.slice(0, slash), id: cursor.slice(slash + 1) };
+}
+
+/**
+ * In-process re-analysis jobs. A job walks the records below a version of
+ * every collection in (collection, id) order, one batch per transaction, and saves its checkpoint with every
+ * batch; unfinished jobs are resumed at startup. A lease in the job row
+ * keeps two processes from running the same job.
+ */
+@Injectable()
+export class JobsService
+  implements OnApplicationBootstrap, OnApplicationShutdown
+{
+  private readonly logger = new Logger(JobsService.name);
+
+  private readonly worker = randomUUID();
+  private readonly active = new Set<string>();
+  private stopping = false;
+
+  constructor(
+    @Optional()
+    @InjectRepository(AnalysisJob)
+    private readonly jobsRepository: Repository<AnalysisJob> | undefined,
+    @Optional()
+    @InjectRepository(StringAnalyzer)
+    private readonly stringsRepository: Repository<StringAnalyzer> | undefined,
+    private readonly registry: AnalyzerRegistry,
+    private readonly events: StringEventsService,
+    private readonly values: StringValueService,
+  ) {}
+
+  private get jobs(): Repository<AnalysisJob> {
+    return postgresOnly(this.jobsRepository);
+  }
+
+  private get strings(): Repository<StringAnalyzer> {
+    return postgresOnly(this.stringsRepository);
+  }
+
+  onApplicationBootstrap() {
+    if (!this.jobsRepository) return;
+    this.resume().catch((err) => this.logger.error('Error resuming jobs', err));
+  }
+
+  onApplicationShutdown() {
+    // running jobs stop after their current batch and release the lease
+    this.stopping = true;
+  }
+
+  /**
+   * Queue a job re-analysing every record below `belowVersion`
+   * - 400 if the version is not an integer between 1 and ANALYSIS_VERSION + 1
+   */
+  async createReanalysis(
+    belowVersion: number = ANALYSIS_VERSION,
+  ): Promise<JobResponse> {
+    if (
+      !Number.isInteger(belowVersion) ||
+      belowVersion < 1 ||
+      belowVersion > ANALYSIS_VERSION + 1
+    ) {
+      throw invalidBody(
+        'below_version',
+        `below_version must be an integer between 1 and ${ANALYSIS_VERSION + 1}`,
+      );
+    }
+
+    try {
+      const total = await this.strings
+        .createQueryBuilder('s')
+        .withDeleted()
+        .where('s.analysis_version < :belowVersion', { belowVersion })
+        .getCount();
+      const job = await this.jobs.save(
+        this.jobs.create({
+          type: 'reanalyze',
+          status: 'pending',
+          below_version: belowVersion,
+          target_version: ANALYSIS_VERSION,
+          total,
+          processed: 0,
+        }),
+      );
+      this.start(job.id);
+      return this.toResponse(job);
+    } catch (err) {
+      this.logger.error('Error in createReanalysis', err);
+      throw unexpected(err);
+    }
+  }
+
+  /**
+   * Find a job by id
+   * - 404 if not found
+   */
+  async get(id: string): Promise<JobResponse> {
+    const job = UUID.test(id)
+      ? await this.jobs.findOne({ where: { id } })
+      : null;
+    if (!job) throw new ApiException('JOB_NOT_FOUND', 'Job does not exist');
+    return this.toResponse(job);
+  }
+
+  private async resume() {
+    const unfinished = await this.jobs.find({
+      where: { status: In(['pending', 'running']) },
+      order: { created_at: 'ASC' },
+    });
+    for (const job of unfinished) this.start(job.id);
+  }
+
+  private start(id: string) {
+    if (this.active.has(id)) return;
+    this.active.add(id);
+    this.run(id)
+      .catch(async (err) => {
+        this.logger.error(`Error in job ${id}`, err);
+        await this.jobs.update(
+          { id },
+          {
+            status: 'failed',
+            error: err instanceof Error ? err.message : String(err),
+            finished_at: new Date(),
+            locked_by: null,
+            locked_until: null,
+          },
+        );
+      })
+      .catch((err) => this.logger.error(`Error failing job ${id}`, err))
+      .finally(() => this.active.delete(id));
+  }
+
+  private async run(id: string) {
+    while (!this.stopping) {
+      // another process holds the job, or it is finished
+      if (!(await this.claim(id))) return;
+      if (await this.step(id)) return;
+    }
+    await this.jobs.update(
+      { id, locked_by: this.worker },
+      { locked_by: null, locked_until: null },
+    );
+  }
+
+  /**
+   * Take or renew the lease on an unfinished job
+   */
+  private async claim(id: string): Promise<boolean> {
+    const result = await this.jobs
+      .createQueryBuilder()
+      .update()
+      .set({
+        status: 'running',
+        locked_by: this.worker,
+        locked_until: new Date(Date.now() + LEASE_MS),
+      })
+      .where('id = :id', { id })
+      .andWhere("status IN ('pending', 'running')")
+      .andWhere(
+        '(locked_by IS NULL OR locked_by = :worker OR locked_until < :now)',
+        { worker: this.worker, now: new Date() },
+      )
+      .execute();
+    return result.affected === 1;
+  }
+
+  /**
+   * Re-analyse one batch and save the checkpoint and the outbox events in
+   * the same transaction, then publish a reanalyzed event per record.
+   * Returns true once the job is complete.
+   */
+  private async step(id: string): Promise<boolean> {
+    const { done, batch, previous } = await this.jobs.manager.transaction(
+      async (manager) => {
+        const jobs = manager.getRepository(AnalysisJob);
+        const strings = manager.getRepository(StringAnalyzer);
+        const job = await jobs.findOneByOrFail({ id });
+
+        // soft-deleted records included, they can be restored
+        const query = strings
+          .createQueryBuilder('s')
+          .withDeleted()
+          .where('s.analysis_version < :belowVersion', {
+            belowVersion: job.below_version,
+          })
+          .orderBy('s.collection', 'ASC')
+          .addOrderBy('s.id', 'ASC')
+          .limit(JOB_BATCH_SIZE);
+        if (job.cursor) {
+          const { collection, id } = parseCursor(job.cursor);
+          query.andWhere(
+            keysetCondition(
+              ['s.collection', 's.id'],
+              [':cursor_collection', ':cursor_id'],
+              '>',
+            ),
+            { cursor_collection: collection, cursor_id: id },
+          );
+        }
+        const batch = await query.getMany();
+
+        const previous = batch.map((row) => row.analysis_version);
+        for (const row of batch) {
+          const { properties } = await this.registry.analyzeText(
+            await this.values.text(row),
+            row.analysis_options ?? DEFAULT_ANALYSIS_OPTIONS,
+          );
+          row.properties = properties as StringAnalyzer['properties'];
+          row.analysis_version = job.target_version;
+        }
+        if (batch.length) await strings.save(batch);
+        await recordEvents(
+          manager,
+          batch.map((row, i) =>
+            stringEvent('string.reanalyzed', toRecord(row), {
+              previous_version: previous[i],
+            }),
+          ),
+        );
+
+        job.processed += batch.length;
+        if (batch.length) {
+          const last = batch[batch.length - 1];
+          job.cursor = `${last.collection}/${last.id}`;
+        }
+        const done = batch.length < JOB_BATCH_SIZE;
+        if (done) {
+          job.status = 'completed';
+          job.finished_at = new Date();
+          job.locked_by = null;
+          job.locked_until = null;
+        }
+        await jobs.save(job);
+        return { done, batch, previous };
+      },
+    );
+
+    batch.forEach((row, i) =>
+      this.events.publish('string.reanalyzed', toRecord(row), {
+        previous_version: previous[i],
+      }),
+    );
+    return done;
+  }
+
+  private toResponse(job: AnalysisJob): JobResponse {
+    return {
+      id: job.id,
+      type: job.type,
+      status: job.status,
+      below_version: job.below_version,
+      target_version: job.target_version,
+      total: job.total,
+      processed: job.processed,
+      progress:
+        job.status === 'completed'
+          ? 1
+          : job.total
+            ? Math.min(job.processed / job.total, 1)
+            : 0,
+      cursor: job.cursor,
+      error: job.error,
+      created_at: job.created_at,
+      updated_at: job.updated_at,
+      finished_at: job.finished_at,
+    };
+  }
+}
@@ -1,13 +1,25 @@
-import { ValidationPipe } from '@nestjs/common';
 import { NestFactory } from '@nestjs/core';
+import { NestExpressApplication } from '@nestjs/platform-express';
+import { SwaggerModule } from '@nestjs/swagger';
 import { AppModule } from './app.module';
-import { ExpressStyleExceptionFilter } from './common/filters';
+import { createOpenApiDocument } from './openapi';
+import { JsonLogger } from './observability/json-logger';
 import 'reflect-metadata';
 
 async function bootstrap() {
-  const app = await NestFactory.create(AppModule);
-  app.useGlobalFilters(new ExpressStyleExceptionFilter());
-  app.useGlobalPipes(new ValidationPipe({ whitelist: true, transform: true }));
+  const app = await NestFactory.create<NestExpressApplication>(AppModule, {
+    // startup logs wait for the JSON logger
+    bufferLogs: true,
+  });
+  app.useLogger(new JsonLogger(process.env.LOG_LEVEL));
+  // batch requests carry thousands of values; larger bodies get 413
+  app.useBodyParser('json', {
+    limit: Number(process.env.MAX_BODY_BYTES) || '10mb',
+  });
+  // UI at /docs, the document itself at /docs-json
+  SwaggerModule.setup('docs', app, createOpenApiDocument(app), {
+    jsonDocumentUrl: 'docs-json',
+  });
   await app.listen(process.env.PORT ?? 3000);
 }
 bootstrap();
@@ -0,0 +1,54 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class LivenessDto {
+  @ApiProperty({ enum: ['ok'] })
+  status: 'ok';
+
+  @ApiProperty({
+    description: 'Seconds since the process started',
+    example: 3600,
+  })
+  uptime_seconds: number;
+}
+
+export class DatabaseCheckDto {
+  @ApiProperty({ enum: ['up'] })
+  status: 'up';
+
+  @ApiProperty({ description: 'Round trip of `SELECT 1`', example: 1.2 })
+  latency_ms: number;
+}
+
+export class StoreCheckDto {
+  @ApiProperty({ enum: ['up'] })
+  status: 'up';
+
+  @ApiProperty({ description: 'Duration of the check', example: 0.4 })
+  latency_ms: number;
+}
+
+export class ReadinessChecksDto {
+  @ApiPropertyOptional({
+    description: 'Absent unless strings are kept in Postgres',
+  })
+  database?: DatabaseCheckDto;
+
+  @ApiProperty({
+    description: 'The store named by STRING_STORE answers a query',
+  })
+  string_store: StoreCheckDto;
+
+  @ApiPropertyOptional({
+    description:
+      'BLOB_DIR is writable; absent when no value is large enough for it',
+  })
+  blob_store?: StoreCheckDto;
+}
+
+export class ReadinessDto {
+  @ApiProperty({ enum: ['ok'] })
+  status: 'ok';
+
+  @ApiProperty()
+  checks: ReadinessChecksDto;
+}
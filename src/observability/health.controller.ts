@@ -0,0 +1,127 @@
+import { Controller, Get, Optional } from '@nestjs/common';
+import { ApiOkResponse, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { DataSource } from 'typeorm';
+import { Public } from '../auth/auth.decorators';
+import { ApiProblems } from '../common/api-docs';
+import { ApiException } from '../common/errors';
+import { StringStore } from '../string-analyzer/storage/string-store';
+import { StringValueService } from '../string-analyzer/string-value.service';
+import { BlobStore } from '../blobs/blob-store';
+import { LivenessDto, ReadinessDto, StoreCheckDto } from './dto/health.dto';
+
+/** A check slower than this to pass counts as failed */
+const CHECK_TIMEOUT_MS = 2000;
+
+/**
+ * Probes for orchestrators and load balancers; they need no API key
+ */
+@ApiTags('health')
+@Controller('health')
+@Public()
+export class HealthController {
+  constructor(
+    private readonly store: StringStore,
+    private readonly blobs: BlobStore,
+    private readonly values: StringValueService,
+    @Optional() private readonly dataSource?: DataSource,
+  ) {}
+
+  /**
+   * GET /health -> 200 while the process serves requests, like /health/live
+   */
+  @Get()
+  @ApiOperation({
+    operationId: 'getHealth',
+    summary: 'Check that the process is up',
+  })
+  @ApiOkResponse({ type: LivenessDto })
+  health(): LivenessDto {
+    return this.live();
+  }
+
+  /**
+   * GET /health/live -> 200 while the process serves requests
+   */
+  @Get('live')
+  @ApiOperation({
+    operationId: 'getLiveness',
+    summary: 'Check that the process is up',
+  })
+  @ApiOkResponse({ type: LivenessDto })
+  live(): LivenessDto {
+    return { status: 'ok', uptime_seconds: Math.round(process.uptime()) };
+  }
+
+  /**
+   * GET /health/ready -> 200 once the storage serves requests: the
+   * database answers a query (with the postgres string store), the
+   * configured string store answers a query and BLOB_DIR is writable
+   * (unless no value can be large enough for it). Each check has 2 seconds.
+   * - 503 DATABASE_UNAVAILABLE if the database fails its check
+   * - 503 SERVICE_UNAVAILABLE if the string or blob store fails its check
+   */
+  @Get('ready')
+  @ApiOperation({
+    operationId: 'getReadiness',
+    summary: 'Check that the database and stores serve requests',
+  })
+  @ApiOkResponse({ type: ReadinessDto })
+  @ApiProblems('DATABASE_UNAVAILABLE', 'SERVICE_UNAVAILABLE')
+  async ready(): Promise<ReadinessDto> {
+    const { dataSource } = this;
+    const [database, string_store, blob_store] = await Promise.all([
+      dataSource &&
+        check(() => dataSource.query('SELECT 1'), 'DATABASE_UNAVAILABLE'),
+      check(
+        () => this.store.ping(),
+        'SERVICE_UNAVAILABLE',
+        'String store unavailable',
+      ),
+      this.values.usesBlobs
+        ? check(
+            () => this.blobs.check(),
+            'SERVICE_UNAVAILABLE',
+            'Blob store unavailable',
+          )
+        : undefined,
+    ]);
+    return {
+      status: 'ok',
+      checks: {
+        ...(database && { database }),
+        string_store,
+        ...(blob_store && { blob_store }),
+      },
+    };
+  }
+}
+
+/**
+ * Run a readiness check within CHECK_TIMEOUT_MS, timing it
+ * - throws `code` (503) if it fails or times out
+ */
+async function check(
+  probe: () => Promise<unknown>,
+  code: 'DATABASE_UNAVAILABLE' | 'SERVICE_UNAVAILABLE',
+  message?: string,
+): Promise<StoreCheckDto> {
+  const start = process.hrtime.bigint();
+  let timer: NodeJS.Timeout | undefined;
+  try {
+    await Promise.race([
+      probe(),
+      new Promise((_, reject) => {
+        timer = setTimeout(
+          () => reject(new Error('Readiness check timed out')),
+          CHECK_TIMEOUT_MS,
+        );
+      }),
+    ]);
+  } catch (err) {
+    throw new ApiException(code, message, [], { cause: err });
+  } finally {
+    clearTimeout(timer);
+  }
+  const latency = Number(process.hrtime.bigint() - start) / 1e6;
+  return { status: 'up', latency_ms: Math.round(latency * 10) / 10 };
+}
@@ -0,0 +1,45 @@
+import { Injectable, Logger, NestMiddleware } from '@nestjs/common';
+import type { NextFunction, Request, Response } from 'express';
+import { MetricsService } from './metrics.service';
+
+/**
+ * Times every request until its response is sent or the client goes away,
+ * into http_request_duration_seconds, and logs it with its request id.
+ * Routes are labelled by their pattern (`/strings/:value`), never by the
+ * requested path, to keep the number of series bounded.
+ */
+@Injectable()
+export class HttpMetricsMiddleware implements NestMiddleware {
+  private readonly logger = new Logger('HTTP');
+
+  constructor(private readonly metrics: MetricsService) {}
+
+  use(req: Request, res: Response, next: NextFunction) {
+    const start = process.hrtime.bigint();
+    let done = false;
+    const finish = () => {
+      if (done) return;
+      done = true;
+      const seconds = Number(process.hrtime.bigint() - start) / 1e9;
+      // set by express once a route matched
+      const route = (req.route as { path?: string } | undefined)?.path;
+      // 499: the client closed the connection before any response
+      const status = res.headersSent ? res.statusCode : 499;
+      this.metrics.httpRequestDuration.observe(
+        { method: req.method, route: route ?? 'unmatched', status },
+        seconds,
+      );
+      this.logger.log(`${req.method} ${req.originalUrl} ${status}`, {
+        // 'close' may fire outside the async context of the request
+        request_id: res.locals.requestId as string | undefined,
+        method: req.method,
+        route,
+        status,
+        duration_ms: Math.round(seconds * 1e6) / 1e3,
+      });
+    };
+    res.on('finish', finish);
+    res.on('close', finish);
+    next();
+  }
+}
@@ -0,0 +1,112 @@
+import { LoggerService, LogLevel } from '@nestjs/common';
+import { currentRequestId } from '../common/request-id.middleware';
+
+/** Most to least severe; a level enables itself and every level before it */
+const LEVELS: LogLevel[] = [
+  'fatal',
+  'error',
+  'warn',
+  'log',
+  'debug',
+  'verbose',
+];
+
+/** Nest passes error stacks as strings */
+const STACK = /\n\s+at /;
+
+function serializeError(err: Error): Record<string, unknown> {
+  const { code } = err as { code?: unknown };
+  return {
+    name: err.name,
+    message: err.message,
+    ...(typeof code === 'string' || typeof code === 'number' ? { code } : {}),
+    stack: err.stack,
+    ...(err.cause instanceof Error ? { cause: serializeError(err.cause) } : {}),
+  };
+}
+
+/**
+ * Writes one JSON object per line: errors to stderr, the rest to stdout.
+ *
+ * { time, level, context?, request_id?, message, error?, ...fields }
+ *
+ * Used through Nest's `Logger`, so `new Logger(Context).error(message,
+ * err, fields)` logs the error with its stack and cause, plus the fields.
+ * request_id is the id of the request being handled, if any. LOG_LEVEL
+ * (default `log`) is the least severe level written.
+ */
+export class JsonLogger implements LoggerService {
+  private levels: LogLevel[];
+
+  constructor(level?: string) {
+    const index = LEVELS.indexOf(level as LogLevel);
+    this.levels = LEVELS.slice(0, index >= 0 ? index + 1 : 4);
+  }
+
+  log(message: unknown, ...params: unknown[]) {
+    this.write('log', message, params);
+  }
+
+  error(message: unknown, ...params: unknown[]) {
+    this.write('error', message, params);
+  }
+
+  warn(message: unknown, ...params: unknown[]) {
+    this.write('warn', message, params);
+  }
+
+  debug(message: unknown, ...params: unknown[]) {
+    this.write('debug', message, params);
+  }
+
+  verbose(message: unknown, ...params: unknown[]) {
+    this.write('verbose', message, params);
+  }
+
+  fatal(message: unknown, ...params: unknown[]) {
+    this.write('fatal', message, params);
+  }
+
+  setLogLevels(levels: LogLevel[]) {
+    this.levels = levels;
+  }
+
+  private write(level: LogLevel, message: unknown, params: unknown[]) {
+    if (!this.levels.includes(level)) return;
+
+    // Logger instances append their context
+    const last = params[params.length - 1];
+    const context =
+      typeof last === 'string' && !STACK.test(last)
+        ? (params.pop() as string)
+        : undefined;
+    const entry: Record<string, unknown> = {
+      time: new Date().toISOString(),
+      level,
+      ...(context ? { context } : {}),
+      request_id: currentRequestId(),
+      // set below, declared here to keep it ahead of the fields
+      message: undefined,
+    };
+
+    // anything that is neither an error, a stack nor fields joins the message
+    const text: string[] = [];
+    for (const part of [message, ...params]) {
+      if (part === undefined) continue;
+      if (part instanceof Error) {
+        if (part === message) text.push(part.message);
+        entry.error = serializeError(part);
+      } else if (typeof part === 'string' && STACK.test(part)) {
+        entry.stack = part;
+      } else if (part !== null && typeof part === 'object') {
+        Object.assign(entry, part);
+      } else {
+        text.push(String(part as string | number | boolean | null));
+      }
+    }
+    if (text.length) entry.message = text.join(' ');
+
+    const stream = level === 'error' || level === 'fatal' ? 'stderr' : 'stdout';
+    process[stream].write(`${JSON.stringify(entry)}\n`);
+  }
+}
@@ -0,0 +1,65 @@
+import { Injectable } from '@nestjs/common';
+import { MetricsRegistry } from './metrics';
+
+/** Analyses take microseconds to milliseconds, far below request latencies */
+const ANALYSIS_BUCKETS = [
+  0.0001, 0.00025, 0.0005, 0.001, 0.0025, 0.005, 0.01, 0.025, 0.05, 0.1, 0.5,
+];
+
+/**
+ * The metrics of the application, served by GET /metrics. Every instance
+ * counts its own traffic; counters start from zero at each restart.
+ */
+@Injectable()
+export class MetricsService {
+  private readonly registry = new MetricsRegistry();
+
+  /** per matched route; unmatched requests share the route "unmatched" */
+  readonly httpRequestDuration = this.registry.histogram(
+    'http_request_duration_seconds',
+    'Latency of HTTP requests, until the response is sent',
+    ['method', 'route', 'status'],
+  );
+
+  readonly analyses = this.registry.counter(
+    'string_analyses_total',
+    'Strings analysed, by creations, previews, batches, imports, backfills and re-analysis jobs',
+  );
+
+  readonly analysisDuration = this.registry.histogram(
+    'string_analysis_duration_seconds',
+    'Time spent computing the properties of one string',
+    [],
+    ANALYSIS_BUCKETS,
+  );
+
+  /** 409 STRING_EXISTS / STRING_DELETED, and duplicates inside batches */
+  readonly duplicateConflicts = this.registry.counter(
+    'string_duplicate_conflicts_total',
+    'Strings submitted while already stored',
+    ['operation', 'state'],
+  );
+
+  readonly naturalLanguageFailures = this.registry.counter(
+    'nl_query_failures_total',
+    'Natural language queries rejected as unparseable or conflicting',
+    ['reason'],
+  );
+
+  readonly dbQueryDuration = this.registry.histogram(
+    'db_query_duration_seconds',
+    'Execution time of successful database queries, by SQL statement',
+    ['statement'],
+  );
+
+  readonly dbQueryErrors = this.registry.counter(
+    'db_query_errors_total',
+    'Database queries that failed, by SQL statement',
+    ['statement'],
+  );
+
+  /** Prometheus text exposition format */
+  render(): string {
+    return this.registry.render();
+  }
+}
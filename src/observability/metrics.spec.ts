@@ -0,0 +1,59 @@
+import { MetricsRegistry } from './metrics';
+
+describe('MetricsRegistry', () => {
+  it('renders counters per label set, escaping values', () => {
+    const registry = new MetricsRegistry();
+    const counter = registry.counter('jobs_total', 'Jobs run', ['kind']);
+    counter.inc({ kind: 'reanalyze' });
+    counter.inc({ kind: 'reanalyze' }, 2);
+    counter.inc({ kind: 'say "hi"\\\n' });
+
+    expect(registry.render()).toBe(
+      [
+        '# HELP jobs_total Jobs run',
+        '# TYPE jobs_total counter',
+        'jobs_total{kind="reanalyze"} 3',
+        'jobs_total{kind="say \\"hi\\"\\\\\\n"} 1',
+        '',
+      ].join('\n'),
+    );
+  });
+
+  it('shows metrics without labels before anything is recorded', () => {
+    const registry = new MetricsRegistry();
+    registry.counter('errors_total', 'Errors');
+    expect(registry.render()).toContain('\nerrors_total 0\n');
+  });
+
+  it('renders histograms as cumulative buckets with sum and count', () => {
+    const registry = new MetricsRegistry();
+    const histogram = registry.histogram(
+      'latency_seconds',
+      'Latency',
+      ['route'],
+      [0.1, 1],
+    );
+    histogram.observe({ route: '/a' }, 0.05);
+    histogram.observe({ route: '/a' }, 0.5);
+    histogram.observe({ route: '/a' }, 3);
+
+    expect(registry.render().split('\n').slice(2, 7)).toEqual([
+      'latency_seconds_bucket{route="/a",le="0.1"} 1',
+      'latency_seconds_bucket{route="/a",le="1"} 2',
+      'latency_seconds_bucket{route="/a",le="+Inf"} 3',
+      'latency_seconds_sum{route="/a"} 3.55',
+      'latency_seconds_count{route="/a"} 3',
+    ]);
+  });
+
+  it('rejects invalid and duplicate names', () => {
+    const registry = new MetricsRegistry();
+    registry.counter('requests_total', 'Requests');
+    expect(() => registry.counter('requests_total', 'Again')).toThrow(
+      'already registered',
+    );
+    expect(() => registry.counter('requests-total', 'Dashes')).toThrow(
+      'Invalid metric name',
+    );
+  });
+});
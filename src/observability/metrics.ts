@@ -0,0 +1,209 @@
+/** Latency buckets in seconds, from 5ms to 10s */
+export const DURATION_BUCKETS = [
+  0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10,
+];
+
+const METRIC_NAME = /^[a-zA-Z_:][a-zA-Z0-9_:]*$/;
+
+type Labels<L extends string> = Record<L, string | number>;
+
+/** A label value as the text format wants it: backslash, quote and newline escaped */
+function escape(value: string | number): string {
+  return String(value)
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, '\\n');
+}
+
+/** `{a="1",b="2"}`, or nothing without labels */
+function formatLabels(labels: [string, string | number][]): string {
+  if (!labels.length) return '';
+  return `{${labels.map(([name, value]) => `${name}="${escape(value)}"`).join(',')}}`;
+}
+
+function formatNumber(value: number): string {
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return String(value);
+}
+
+abstract class Metric<L extends string, S> {
+  /** series by the values of their labels, in labelNames order */
+  protected readonly series = new Map<string, { values: string[]; state: S }>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly labelNames: readonly L[],
+  ) {
+    if (!METRIC_NAME.test(name)) {
+      throw new Error(`Invalid metric name "${name}"`);
+    }
+  }
+
+  abstract readonly type: 'counter' | 'histogram';
+
+  protected abstract initial(): S;
+
+  protected abstract samples(values: string[], state: S): string[];
+
+  protected stateOf(labels: Partial<Labels<L>>): S {
+    const values = this.labelNames.map((name) => String(labels[name] ?? ''));
+    const key = JSON.stringify(values);
+    let entry = this.series.get(key);
+    if (!entry) {
+      entry = { values, state: this.initial() };
+      this.series.set(key, entry);
+    }
+    return entry.state;
+  }
+
+  protected sample(
+    suffix: string,
+    values: string[],
+    value: number,
+    extra: [string, string | number][] = [],
+  ): string {
+    const labels = [
+      ...this.labelNames.map((name, i): [string, string] => [name, values[i]]),
+      ...extra,
+    ];
+    return `${this.name}${suffix}${formatLabels(labels)} ${formatNumber(value)}`;
+  }
+
+  render(): string[] {
+    const lines = [
+      `# HELP ${this.name} ${this.help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n')}`,
+      `# TYPE ${this.name} ${this.type}`,
+    ];
+    // a metric without labels has a single series, shown from the start
+    if (!this.labelNames.length) this.stateOf({});
+    for (const { values, state } of this.series.values()) {
+      lines.push(...this.samples(values, state));
+    }
+    return lines;
+  }
+}
+
+/** A count that only goes up, per combination of label values */
+export class Counter<L extends string = never> extends Metric<
+  L,
+  { value: number }
+> {
+  readonly type = 'counter';
+
+  inc(labels = {} as Labels<L>, by = 1) {
+    this.stateOf(labels).value += by;
+  }
+
+  /** Current value of a series, 0 if it was never incremented */
+  get(labels = {} as Labels<L>): number {
+    return this.stateOf(labels).value;
+  }
+
+  protected initial() {
+    return { value: 0 };
+  }
+
+  protected samples(values: string[], { value }: { value: number }) {
+    return [this.sample('', values, value)];
+  }
+}
+
+/** Observations counted into cumulative buckets, with their sum and count */
+export class Histogram<L extends string = never> extends Metric<
+  L,
+  { buckets: number[]; sum: number; count: number }
+> {
+  readonly type = 'histogram';
+
+  constructor(
+    name: string,
+    help: string,
+    labelNames: readonly L[],
+    /** upper bounds, ascending; +Inf is implied */
+    readonly buckets: readonly number[] = DURATION_BUCKETS,
+  ) {
+    super(name, help, labelNames);
+  }
+
+  observe(labels: Labels<L>, value: number) {
+    const state = this.stateOf(labels);
+    const index = this.buckets.findIndex((bound) => value <= bound);
+    if (index >= 0) state.buckets[index]++;
+    state.sum += value;
+    state.count++;
+  }
+
+  /** Observe the seconds elapsed until the returned function is called */
+  startTimer(labels: Labels<L>): () => void {
+    const start = process.hrtime.bigint();
+    return () =>
+      this.observe(labels, Number(process.hrtime.bigint() - start) / 1e9);
+  }
+
+  protected initial() {
+    return { buckets: this.buckets.map(() => 0), sum: 0, count: 0 };
+  }
+
+  protected samples(
+    values: string[],
+    state: { buckets: number[]; sum: number; count: number },
+  ) {
+    let cumulative = 0;
+    const lines = this.buckets.map((bound, i) => {
+      cumulative += state.buckets[i];
+      return this.sample('_bucket', values, cumulative, [['le', bound]]);
+    });
+    lines.push(
+      this.sample('_bucket', values, state.count, [['le', '+Inf']]),
+      this.sample('_sum', values, state.sum),
+      this.sample('_count', values, state.count),
+    );
+    return lines;
+  }
+}
+
+/**
+ * The metrics of the application, rendered in the Prometheus text
+ * exposition format (version 0.0.4)
+ */
+export class MetricsRegistry {
+  private readonly metrics = new Map<
+    string,
+    Counter<string> | Histogram<string>
+  >();
+
+  counter<L extends string = never>(
+    name: string,
+    help: string,
+    labelNames: readonly L[] = [],
+  ): Counter<L> {
+    return this.add(new Counter<L>(name, help, labelNames));
+  }
+
+  histogram<L extends string = never>(
+    name: string,
+    help: string,
+    labelNames: readonly L[] = [],
+    buckets?: readonly number[],
+  ): Histogram<L> {
+    return this.add(new Histogram<L>(name, help, labelNames, buckets));
+  }
+
+  render(): string {
+    return (
+      [...this.metrics.values()]
+        .flatMap((metric) => metric.render())
+        .join('\n') + '\n'
+    );
+  }
+
+  private add<M extends Counter<string> | Histogram<string>>(metric: M): M {
+    if (this.metrics.has(metric.name)) {
+      throw new Error(`Metric "${metric.name}" is already registered`);
+    }
+    this.metrics.set(metric.name, metric);
+    return metric;
+  }
+}
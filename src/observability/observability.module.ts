@@ -0,0 +1,21 @@
+import { Global, Module } from '@nestjs/common';
+import { HealthController } from './health.controller';
+import { MetricsController } from './metrics.controller';
+import { MetricsService } from './metrics.service';
+import { QueryMetricsSubscriber } from './query-metrics.subscriber';
+import { StringAnalyzerModule } from '../string-analyzer/string-analyzer.module';
+import { BlobModule } from '../blobs/blob.module';
+
+/**
+ * Health probes and Prometheus metrics. Global, so any provider can
+ * record into MetricsService. Readiness checks the stores, hence the
+ * string analyzer and blob modules.
+ */
+@Global()
+@Module({
+  imports: [StringAnalyzerModule, BlobModule],
+  controllers: [HealthController, MetricsController],
+  providers: [MetricsService, QueryMetricsSubscriber],
+  exports: [MetricsService],
+})
+export class ObservabilityModule {}
@@ -0,0 +1,50 @@
+import { Injectable, Optional } from '@nestjs/common';
+import {
+  AfterQueryEvent,
+  DataSource,
+  EntitySubscriberInterface,
+} from 'typeorm';
+import { MetricsService } from './metrics.service';
+
+const STATEMENTS = new Set([
+  'select',
+  'insert',
+  'update',
+  'delete',
+  'with',
+  'start',
+  'commit',
+  'rollback',
+]);
+
+/** First keyword of a query, or "other"; the label stays low-cardinality */
+function statementOf(query: string): string {
+  const keyword = /^\s*(\w+)/.exec(query)?.[1]?.toLowerCase() ?? '';
+  return STATEMENTS.has(keyword) ? keyword : 'other';
+}
+
+/**
+ * Times every query of the application's DataSource into
+ * db_query_duration_seconds and counts the failed ones
+ */
+@Injectable()
+export class QueryMetricsSubscriber implements EntitySubscriberInterface {
+  constructor(
+    private readonly metrics: MetricsService,
+    @Optional() dataSource?: DataSource,
+  ) {
+    dataSource?.subscribers.push(this);
+  }
+
+  afterQuery(event: AfterQueryEvent<unknown>) {
+    const statement = statementOf(event.query);
+    if (!event.success) {
+      this.metrics.dbQueryErrors.inc({ statement });
+    } else if (event.executionTime !== undefined) {
+      this.metrics.dbQueryDuration.observe(
+        { statement },
+        event.executionTime / 1000,
+      );
+    }
+  }
+}
@@ -0,0 +1,199 @@
+import { INestApplication } from '@nestjs/common';
+import { DiscoveryService, ModulesContainer } from '@nestjs/core';
+import {
+  DocumentBuilder,
+  getSchemaPath,
+  OpenAPIObject,
+  OperationObject,
+  ParameterObject,
+  SchemaObject,
+  SwaggerModule,
+} from '@nestjs/swagger';
+import { ERROR_CATALOG, ErrorCode } from './common/errors';
+import { PROPERTY_FILTERS_EXTENSION } from './common/api-docs';
+import { ProblemDto } from './common/dto/problem.dto';
+import {
+  PropertyDescriptor,
+  StringProperty,
+} from './string-analyzer/analyzers/property-analyzer';
+
+/** Errors of every route that needs an API key */
+const SECURED_ERRORS: ErrorCode[] = [
+  'MISSING_API_KEY',
+  'INVALID_API_KEY',
+  'INSUFFICIENT_SCOPE',
+  'RATE_LIMITED',
+];
+/** Errors of every route */
+const SERVER_ERRORS: ErrorCode[] = ['INTERNAL_ERROR', 'DATABASE_UNAVAILABLE'];
+
+const METHODS = ['get', 'put', 'post', 'delete', 'patch'] as const;
+
+/** Routes mirroring /strings within a named collection */
+const COLLECTION_PREFIX = '/collections/{collection}/strings';
+
+const COLLECTION_PARAM: ParameterObject = {
+  name: 'collection',
+  in: 'path',
+  required: true,
+  schema: { type: 'string', pattern: '^[a-z0-9][a-z0-9_-]{0,63}$' },
+};
+
+/**
+ * The OpenAPI document of every route of the app. Works on apps created
+ * with `preview: true` too, which is how the client generator builds it
+ * without a database.
+ */
+export function createOpenApiDocument(app: INestApplication): OpenAPIObject {
+  const config = new DocumentBuilder()
+    .setTitle('String Analyzer API')
+    .setDescription(
+      'Analyzes strings and stores their properties for filtering, search and statistics. ' +
+        'Errors are problem+json documents whose `code` is listed by `GET /errors`.',
+    )
+    .setVersion('1.0')
+    .addBearerAuth({ type: 'http', scheme: 'bearer' })
+    .addApiKey({ type: 'apiKey', in: 'header', name: 'X-API-Key' }, 'api-key')
+    .build();
+  const document = SwaggerModule.createDocument(app, config, {
+    extraModels: [ProblemDto],
+  });
+
+  const filters = propertyFilters(app);
+  for (const [route, path] of Object.entries(document.paths)) {
+    for (const method of METHODS) {
+      const operation = path[method];
+      if (!operation) continue;
+
+      // the mirror of a /strings route shares its operationId, and the
+      // collection comes from a custom decorator swagger cannot see
+      if (route.startsWith(COLLECTION_PREFIX)) {
+        operation.operationId = `${operation.operationId}InCollection`;
+        operation.parameters = [
+          COLLECTION_PARAM,
+          ...(operation.parameters ?? []),
+        ];
+        addProblems(operation, ['INVALID_COLLECTION_NAME']);
+      }
+
+      const ext = operation as OperationObject & Record<string, unknown>;
+      if (ext[PROPERTY_FILTERS_EXTENSION]) {
+        delete ext[PROPERTY_FILTERS_EXTENSION];
+        operation.parameters = [...(operation.parameters ?? []), ...filters];
+        operation.description = [
+          operation.description,
+          'Accepts the filters of `GET /strings`; `metadata.<key>=<value>` matches records whose metadata has the key with this text value.',
+        ]
+          .filter(Boolean)
+          .join('\n\n');
+      }
+
+      // RequireScope on both the controller and the route repeats schemes
+      if (operation.security) {
+        operation.security = [
+          ...new Map(
+            operation.security.map((s) => [JSON.stringify(s), s]),
+          ).values(),
+        ];
+      }
+      addProblems(operation, [
+        ...(operation.security?.length ? SECURED_ERRORS : []),
+        ...SERVER_ERRORS,
+      ]);
+    }
+  }
+  return document;
+}
+
+/**
+ * Query params of the property filters of GET /strings, one per
+ * filterable property of the registered analyzers
+ */
+function propertyFilters(app: INestApplication): ParameterObject[] {
+  const discovery = new DiscoveryService(app.get(ModulesContainer));
+  const descriptors = discovery
+    .getProviders({ metadataKey: StringProperty.KEY })
+    .map((wrapper) => discovery.getMetadataByDecorator(StringProperty, wrapper))
+    .filter((d): d is PropertyDescriptor => !!d?.filterable)
+    .sort((a, b) => a.key.localeCompare(b.key));
+
+  const param = (
+    name: string,
+    schema: SchemaObject,
+    description: string,
+  ): ParameterObject => ({
+    name,
+    in: 'query',
+    required: false,
+    schema,
+    description,
+  });
+
+  const params: ParameterObject[] = [];
+  for (const { key, type } of descriptors) {
+    const schema: SchemaObject =
+      type === 'integer' ? { type, minimum: 0 } : { type };
+    params.push(param(key, schema, `Records whose ${key} equals the value`));
+    if (type === 'integer' || type === 'number') {
+      params.push(
+        param(
+          `min_${key}`,
+          schema,
+          `Records whose ${key} is at least the value`,
+        ),
+        param(
+          `max_${key}`,
+          schema,
+          `Records whose ${key} is at most the value`,
+        ),
+      );
+    }
+  }
+  params.push(
+    param(
+      'contains_character',
+      { type: 'string', minLength: 1 },
+      'Records containing the character, case-insensitive',
+    ),
+    {
+      ...param(
+        'tag',
+        { type: 'array', items: { type: 'string' } },
+        'Records carrying the tag; repeat for several, all must match',
+      ),
+      style: 'form',
+      explode: true,
+    },
+    param(
+      'q',
+      { type: 'string' },
+      'Filter expression such as `length > 5 AND NOT is_palindrome`',
+    ),
+  );
+  return params;
+}
+
+/**
+ * Add problem responses for the codes, next to those the route declares
+ * for the same status
+ */
+function addProblems(operation: OperationObject, codes: ErrorCode[]) {
+  for (const code of codes) {
+    const status = String(ERROR_CATALOG[code].status);
+    const existing = operation.responses[status];
+    if (existing && 'description' in existing) {
+      if (!existing.description.includes(`\`${code}\``)) {
+        existing.description += `, \`${code}\``;
+      }
+      continue;
+    }
+    operation.responses[status] = {
+      description: `\`${code}\``,
+      content: {
+        'application/problem+json': {
+          schema: { $ref: getSchemaPath(ProblemDto) },
+        },
+      },
+    };
+  }
+}
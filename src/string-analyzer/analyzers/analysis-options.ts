@@ -0,0 +1,23 @@
+import {
+  AnalysisOptions,
+  InvalidAnalysisOptionsError,
+  parseAnalysisOptions,
+} from '../../analysis';
+import { ApiException } from '../../common/errors';
+
+/**
+ * Validate user supplied options and fill in defaults.
+ * - 400 INVALID_ANALYSIS_OPTIONS on unknown keys or invalid values
+ */
+export function resolveAnalysisOptions(raw: unknown): AnalysisOptions {
+  try {
+    return parseAnalysisOptions(raw);
+  } catch (err) {
+    if (err instanceof InvalidAnalysisOptionsError) {
+      throw new ApiException('INVALID_ANALYSIS_OPTIONS', err.message, [
+        { name: 'options', reason: err.message },
+      ]);
+    }
+    throw err;
+  }
+}
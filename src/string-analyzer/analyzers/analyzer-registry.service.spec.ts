@@ -0,0 +1,128 @@
+import { Injectable, Module } from '@nestjs/common';
+import { DiscoveryModule } from '@nestjs/core';
+import { Test } from '@nestjs/testing';
+import { AnalyzerRegistry } from './analyzer-registry.service';
+import { CORE_ANALYZERS } from './core.analyzers';
+import {
+  AnalysisContext,
+  PropertyAnalyzer,
+  StringProperty,
+} from './property-analyzer';
+import { MetricsService } from '../../observability/metrics.service';
+import { DEFAULT_ANALYSIS_OPTIONS, sha256 } from '../../analysis';
+
+@Injectable()
+@StringProperty({ key: 'exclamations', type: 'integer', filterable: true })
+class ExclamationsAnalyzer implements PropertyAnalyzer {
+  analyze(_value: string, { graphemes }: AnalysisContext): number {
+    return graphemes.filter((g) => g === '!').length;
+  }
+}
+
+@Injectable()
+@StringProperty({ key: 'shouted', type: 'string', filterable: false })
+class ShoutedAnalyzer implements PropertyAnalyzer {
+  analyze(value: string): string {
+    return value.toUpperCase();
+  }
+}
+
+/** A feature module contributing analyzers, as a plugin would */
+@Module({ providers: [ExclamationsAnalyzer, ShoutedAnalyzer] })
+class ExtraAnalyzersModule {}
+
+describe('AnalyzerRegistry', () => {
+  let registry: AnalyzerRegistry;
+
+  beforeEach(async () => {
+    const module = await Test.createTestingModule({
+      imports: [DiscoveryModule, ExtraAnalyzersModule],
+      providers: [AnalyzerRegistry, MetricsService, ...CORE_ANALYZERS],
+    }).compile();
+    await module.init();
+    registry = module.get(AnalyzerRegistry);
+  });
+
+  it('discovers the analyzers of every module', () => {
+    expect(registry.descriptors().map((d) => d.key)).toEqual(
+      expect.arrayContaining([
+        'length',
+        'is_palindrome',
+        'word_count',
+        'exclamations',
+        'shouted',
+      ]),
+    );
+    expect(registry.get('exclamations')).toEqual({
+      key: 'exclamations',
+      type: 'integer',
+      filterable: true,
+    });
+  });
+
+  it('runs every analyzer into the properties', async () => {
+    const value = 'wow! racecar!';
+    const properties = registry.analyze(
+      value,
+      sha256(value),
+      DEFAULT_ANALYSIS_OPTIONS,
+    );
+    expect(properties).toMatchObject({
+      length: 13,
+      word_count: 2,
+      exclamations: 2,
+      shouted: 'WOW! RACECAR!',
+    });
+
+    // streamed analysis of long values runs them too
+    const long = 'wow! '.repeat(4000);
+    const streamed = await registry.analyzeText(long, DEFAULT_ANALYSIS_OPTIONS);
+    expect(streamed.id).toBe(sha256(long));
+    expect(streamed.properties).toMatchObject({
+      length: long.length,
+      exclamations: 4000,
+      shouted: long.toUpperCase(),
+    });
+  });
+
+  it('turns filterable properties into filters', () => {
+    expect(registry.resolveFilter('exclamations')).toMatchObject({
+      operator: '=',
+    });
+    expect(registry.resolveFilter('min_exclamations')).toMatchObject({
+      descriptor: { key: 'exclamations' },
+      operator: '>=',
+    });
+    expect(registry.resolveFilter('max_exclamations')).toMatchObject({
+      operator: '<=',
+    });
+    expect(registry.resolveFilter('shouted')).toBeUndefined();
+    expect(registry.resolveFilter('min_is_palindrome')).toBeUndefined();
+
+    const names = registry.filterNames();
+    expect(names).toEqual(
+      expect.arrayContaining([
+        'exclamations',
+        'min_exclamations',
+        'max_exclamations',
+      ]),
+    );
+    expect(names).not.toContain('shouted');
+  });
+
+  it('rejects duplicate and unsafe keys', () => {
+    const analyzer = new ExclamationsAnalyzer();
+    expect(() =>
+      registry.register(
+        { key: 'exclamations', type: 'integer', filterable: true },
+        analyzer,
+      ),
+    ).toThrow('Property "exclamations" is already registered');
+    expect(() =>
+      registry.register(
+        { key: "x' OR 1=1", type: 'integer', filterable: true },
+        analyzer,
+      ),
+    ).toThrow('Invalid property key');
+  });
+});
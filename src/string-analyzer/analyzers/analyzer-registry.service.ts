@@ -0,0 +1,174 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { DiscoveryService } from '@nestjs/core';
+import {
+  AnalysisContext,
+  PropertyAnalyzer,
+  PropertyDescriptor,
+  StringProperty,
+} from './property-analyzer';
+import {
+  AnalysisOptions,
+  analyzeStream,
+  chunksOf,
+  graphemes,
+  sha256,
+  STREAM_CHUNK_SIZE,
+  words,
+} from '../../analysis';
+import { MetricsService } from '../../observability/metrics.service';
+
+const PROPERTY_KEY = /^[a-z][a-z0-9_]*$/;
+
+export type FilterOperator = '=' | '>=' | '<=';
+
+/**
+ * Collects every @StringProperty provider of the application and runs them
+ * to build the `properties` object of an analysis.
+ */
+@Injectable()
+export class AnalyzerRegistry implements OnModuleInit {
+  private readonly analyzers = new Map<
+    string,
+    { descriptor: PropertyDescriptor; analyzer: PropertyAnalyzer }
+  >();
+
+  constructor(
+    private readonly discovery: DiscoveryService,
+    private readonly metrics: MetricsService,
+  ) {}
+
+  onModuleInit() {
+    for (const wrapper of this.discovery.getProviders({
+      metadataKey: StringProperty.KEY,
+    })) {
+      const descriptor = this.discovery.getMetadataByDecorator(
+        StringProperty,
+        wrapper,
+      );
+      if (!descriptor || !wrapper.instance) continue;
+      this.register(descriptor, wrapper.instance as PropertyAnalyzer);
+    }
+  }
+
+  register(descriptor: PropertyDescriptor, analyzer: PropertyAnalyzer) {
+    // keys are inlined into SQL expressions, so keep them identifier-safe
+    if (!PROPERTY_KEY.test(descriptor.key)) {
+      throw new Error(`Invalid property key "${descriptor.key}"`);
+    }
+    if (this.analyzers.has(descriptor.key)) {
+      throw new Error(`Property "${descriptor.key}" is already registered`);
+    }
+    this.analyzers.set(descriptor.key, { descriptor, analyzer });
+  }
+
+  /**
+   * Run every registered analyzer over a value; every analysis of the
+   * application goes through here, so this is where throughput is counted
+   */
+  analyze(
+    value: string,
+    sha256_hash: string,
+    options: AnalysisOptions,
+  ): Record<string, unknown> {
+    const done = this.metrics.analysisDuration.startTimer({});
+    const context: AnalysisContext = {
+      sha256_hash,
+      options,
+      graphemes: graphemes(value, options.locale),
+      words: words(value, options.locale),
+    };
+    const properties: Record<string, unknown> = {};
+    for (const [key, { analyzer }] of this.analyzers) {
+      properties[key] = analyzer.analyze(value, context);
+    }
+    done();
+    this.metrics.analyses.inc();
+    return properties;
+  }
+
+  /**
+   * Hash a value and run every registered analyzer over it. Values longer
+   * than a stream chunk are analysed by analyzeStream, which keeps the
+   * event loop responsive; analyzers whose key it does not compute still
+   * run over the whole value.
+   */
+  async analyzeText(
+    value: string,
+    options: AnalysisOptions,
+  ): Promise<{ id: string; properties: Record<string, unknown> }> {
+    if (value.length <= STREAM_CHUNK_SIZE) {
+      const id = sha256(value);
+      return { id, properties: this.analyze(value, id, options) };
+    }
+
+    const done = this.metrics.analysisDuration.startTimer({});
+    const streamed: Record<string, unknown> = {
+      ...(await analyzeStream(chunksOf(value), options)),
+    };
+    const id = streamed.sha256_hash as string;
+    let context: AnalysisContext | undefined;
+    const properties: Record<string, unknown> = {};
+    for (const [key, { analyzer }] of this.analyzers) {
+      if (key in streamed) {
+        properties[key] = streamed[key];
+        continue;
+      }
+      context ??= {
+        sha256_hash: id,
+        options,
+        graphemes: graphemes(value, options.locale),
+        words: words(value, options.locale),
+      };
+      properties[key] = analyzer.analyze(value, context);
+    }
+    done();
+    this.metrics.analyses.inc();
+    return { id, properties };
+  }
+
+  descriptors(): PropertyDescriptor[] {
+    return [...this.analyzers.values()].map((a) => a.descriptor);
+  }
+
+  get(key: string): PropertyDescriptor | undefined {
+    return this.analyzers.get(key)?.descriptor;
+  }
+
+  /**
+   * Map a filter name to its property and comparison:
+   * `<key>` -> equality, `min_<key>` / `max_<key>` -> range on numeric properties.
+   * Returns undefined for names that match no filterable property.
+   */
+  resolveFilter(
+    name: string,
+  ): { descriptor: PropertyDescriptor; operator: FilterOperator } | undefined {
+    const direct = this.get(name);
+    if (direct?.filterable) return { descriptor: direct, operator: '=' };
+
+    const range = /^(min|max)_(.+)$/.exec(name);
+    if (!range) return undefined;
+    const descriptor = this.get(range[2]);
+    if (
+      !descriptor?.filterable ||
+      (descriptor.type !== 'integer' && descriptor.type !== 'number')
+    ) {
+      return undefined;
+    }
+    return { descriptor, operator: range[1] === 'min' ? '>=' : '<=' };
+  }
+
+  /**
+   * Every filter name accepted by GET /strings
+   */
+  filterNames(): string[] {
+    const names: string[] = [];
+    for (const d of this.descriptors()) {
+      if (!d.filterable) continue;
+      names.push(d.key);
+      if (d.type === 'integer' || d.type === 'number') {
+        names.push(`min_${d.key}`, `max_${d.key}`);
+      }
+    }
+    return names;
+  }
+}
@@ -0,0 +1,72 @@
+import { Injectable } from '@nestjs/common';
+import {
+  AnalysisContext,
+  PropertyAnalyzer,
+  StringProperty,
+} from './property-analyzer';
+import { characterFrequency, isPalindrome } from '../../analysis';
+
+@Injectable()
+@StringProperty({ key: 'length', type: 'integer', filterable: true })
+export class LengthAnalyzer implements PropertyAnalyzer {
+  analyze(_value: string, { graphemes }: AnalysisContext): number {
+    return graphemes.length;
+  }
+}
+
+@Injectable()
+@StringProperty({ key: 'is_palindrome', type: 'boolean', filterable: true })
+export class PalindromeAnalyzer implements PropertyAnalyzer {
+  analyze(_value: string, { graphemes, options }: AnalysisContext): boolean {
+    return isPalindrome(graphemes, options);
+  }
+}
+
+@Injectable()
+@StringProperty({ key: 'unique_characters', type: 'integer', filterable: true })
+export class UniqueCharactersAnalyzer implements PropertyAnalyzer {
+  analyze(_value: string, { graphemes }: AnalysisContext): number {
+    return new Set(graphemes).size;
+  }
+}
+
+@Injectable()
+@StringProperty({ key: 'word_count', type: 'integer', filterable: true })
+export class WordCountAnalyzer implements PropertyAnalyzer {
+  analyze(_value: string, { words }: AnalysisContext): number {
+    return words.length;
+  }
+}
+
+@Injectable()
+@StringProperty({ key: 'sha256_hash', type: 'string', filterable: false })
+export class Sha256Analyzer implements PropertyAnalyzer {
+  analyze(_value: string, context: AnalysisContext): string {
+    return context.sha256_hash;
+  }
+}
+
+@Injectable()
+@StringProperty({
+  key: 'character_frequency_map',
+  type: 'object',
+  filterable: false,
+})
+export class CharacterFrequencyAnalyzer implements PropertyAnalyzer {
+  analyze(
+    _value: string,
+    { graphemes }: AnalysisContext,
+  ): Record<string, number> {
+    return characterFrequency(graphemes);
+  }
+}
+
+/** Analyzers that make up the built-in `properties` object, in output order */
+export const CORE_ANALYZERS = [
+  LengthAnalyzer,
+  PalindromeAnalyzer,
+  UniqueCharactersAnalyzer,
+  WordCountAnalyzer,
+  Sha256Analyzer,
+  CharacterFrequencyAnalyzer,
+];
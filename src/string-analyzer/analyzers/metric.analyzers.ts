@@ -0,0 +1,280 @@
+import { Injectable } from '@nestjs/common';
+import {
+  AnalysisContext,
+  PropertyAnalyzer,
+  StringProperty,
+} from './property-analyzer';
+import {
+  AnalysisOptions,
+  CharacterClassCounts,
+  characterClasses,
+  detectLanguage,
+  entropy,
+  graphemes as graphemesOf,
+  LanguageGuess,
+  longestPalindromicSubstring,
+  ngramFrequency,
+  Readability,
+  readability,
+  wordFrequency,
+} from '../../analysis';
+
+/*
+ * Several properties come out of one computation. Results are cached per
+ * analysis, keyed on the context's grapheme and word arrays.
+ */
+const classCache = new WeakMap<string[], CharacterClassCounts>();
+const palindromeCache = new WeakMap<string[], string>();
+const readabilityCache = new WeakMap<string[], Readability>();
+const languageCache = new WeakMap<string[], LanguageGuess>();
+
+function cached<T>(
+  cache: WeakMap<string[], T>,
+  key: string[],
+  compute: () => T,
+): T {
+  let result = cache.get(key);
+  if (typeof result === 'undefined') {
+    result = compute();
+    cache.set(key, result);
+  }
+  return result;
+}
+
+const classes = (graphemes: string[]) =>
+  cached(classCache, graphemes, () => characterClasses(graphemes));
+const palindrome = (graphemes: string[], options: AnalysisOptions) =>
+  cached(palindromeCache, graphemes, () =>
+    longestPalindromicSubstring(graphemes, options),
+  );
+const scores = (value: string, words: string[], locale: string) =>
+  cached(readabilityCache, words, () => readability(value, words, locale));
+const language = (graphemes: string[], words: string[]) =>
+  cached(languageCache, graphemes, () => detectLanguage(graphemes, words));
+const graphemeCount = (value: string, locale: string) =>
+  graphemesOf(value, locale).length;
+
+@Injectable()
+@StringProperty({ key: 'entropy', type: 'number', filterable: true })
+export class EntropyAnalyzer implements PropertyAnalyzer {
+  analyze(_value: string, { graphemes }: AnalysisContext): number {
+    return entropy(graphemes);
+  }
+}
+
+@Injectable()
+@StringProperty({
+  key: 'bigram_frequency_map',
+  type: 'object',
+  filterable: false,
+})
+export class BigramFrequencyAnalyzer implements PropertyAnalyzer {
+  analyze(
+    _value: string,
+    { graphemes }: AnalysisContext,
+  ): Record<string, number> {
+    return ngramFrequency(graphemes, 2);
+  }
+}
+
+@Injectable()
+@StringProperty({
+  key: 'trigram_frequency_map',
+  type: 'object',
+  filterable: false,
+})
+export class TrigramFrequencyAnalyzer implements PropertyAnalyzer {
+  analyze(
+    _value: string,
+    { graphemes }: AnalysisContext,
+  ): Record<string, number> {
+    return ngramFrequency(graphemes, 3);
+  }
+}
+
+@Injectable()
+@StringProperty({
+  key: 'word_frequency_map',
+  type: 'object',
+  filterable: false,
+})
+export class WordFrequencyAnalyzer implements PropertyAnalyzer {
+  analyze(
+    _value: string,
+    { words, options }: AnalysisContext,
+  ): Record<string, number> {
+    return wordFrequency(words, options);
+  }
+}
+
+@Injectable()
+@StringProperty({ key: 'vowel_count', type: 'integer', filterable: true })
+export class VowelCountAnalyzer implements PropertyAnalyzer {
+  analyze(_value: string, { graphemes }: AnalysisContext): number | null {
+    return classes(graphemes).vowel_count;
+  }
+}
+
+@Injectable()
+@StringProperty({ key: 'consonant_count', type: 'integer', filterable: true })
+export class ConsonantCountAnalyzer implements PropertyAnalyzer {
+  analyze(_value: string, { graphemes }: AnalysisContext): number | null {
+    return classes(graphemes).consonant_count;
+  }
+}
+
+@Injectable()
+@StringProperty({ key: 'digit_count', type: 'integer', filterable: true })
+export class DigitCountAnalyzer implements PropertyAnalyzer {
+  analyze(_value: string, { graphemes }: AnalysisContext): number {
+    return classes(graphemes).digit_count;
+  }
+}
+
+@Injectable()
+@StringProperty({ key: 'whitespace_count', type: 'integer', filterable: true })
+export class WhitespaceCountAnalyzer implements PropertyAnalyzer {
+  analyze(_value: string, { graphemes }: AnalysisContext): number {
+    return classes(graphemes).whitespace_count;
+  }
+}
+
+@Injectable()
+@StringProperty({ key: 'punctuation_count', type: 'integer', filterable: true })
+export class PunctuationCountAnalyzer implements PropertyAnalyzer {
+  analyze(_value: string, { graphemes }: AnalysisContext): number {
+    return classes(graphemes).punctuation_count;
+  }
+}
+
+@Injectable()
+@StringProperty({ key: 'uppercase_count', type: 'integer', filterable: true })
+export class UppercaseCountAnalyzer implements PropertyAnalyzer {
+  analyze(_value: string, { graphemes }: AnalysisContext): number {
+    return classes(graphemes).uppercase_count;
+  }
+}
+
+@Injectable()
+@StringProperty({ key: 'lowercase_count', type: 'integer', filterable: true })
+export class LowercaseCountAnalyzer implements PropertyAnalyzer {
+  analyze(_value: string, { graphemes }: AnalysisContext): number {
+    return classes(graphemes).lowercase_count;
+  }
+}
+
+@Injectable()
+@StringProperty({ key: 'emoji_count', type: 'integer', filterable: true })
+export class EmojiCountAnalyzer implements PropertyAnalyzer {
+  analyze(_value: string, { graphemes }: AnalysisContext): number {
+    return classes(graphemes).emoji_count;
+  }
+}
+
+@Injectable()
+@StringProperty({
+  key: 'longest_palindromic_substring',
+  type: 'string',
+  filterable: false,
+})
+export class LongestPalindromeAnalyzer implements PropertyAnalyzer {
+  analyze(_value: string, { graphemes, options }: AnalysisContext): string {
+    return palindrome(graphemes, options);
+  }
+}
+
+@Injectable()
+@StringProperty({
+  key: 'longest_palindrome_length',
+  type: 'integer',
+  filterable: true,
+})
+export class LongestPalindromeLengthAnalyzer implements PropertyAnalyzer {
+  analyze(_value: string, { graphemes, options }: AnalysisContext): number {
+    return graphemeCount(palindrome(graphemes, options), options.locale);
+  }
+}
+
+@Injectable()
+@StringProperty({
+  key: 'average_word_length',
+  type: 'number',
+  filterable: true,
+})
+export class AverageWordLengthAnalyzer implements PropertyAnalyzer {
+  analyze(value: string, { words, options }: AnalysisContext): number | null {
+    return scores(value, words, options.locale).average_word_length;
+  }
+}
+
+@Injectable()
+@StringProperty({ key: 'sentence_count', type: 'integer', filterable: true })
+export class SentenceCountAnalyzer implements PropertyAnalyzer {
+  analyze(value: string, { words, options }: AnalysisContext): number {
+    return scores(value, words, options.locale).sentence_count;
+  }
+}
+
+@Injectable()
+@StringProperty({
+  key: 'flesch_reading_ease',
+  type: 'number',
+  filterable: true,
+})
+export class FleschReadingEaseAnalyzer implements PropertyAnalyzer {
+  analyze(value: string, { words, options }: AnalysisContext): number | null {
+    return scores(value, words, options.locale).flesch_reading_ease;
+  }
+}
+
+@Injectable()
+@StringProperty({
+  key: 'flesch_kincaid_grade',
+  type: 'number',
+  filterable: true,
+})
+export class FleschKincaidGradeAnalyzer implements PropertyAnalyzer {
+  analyze(value: string, { words, options }: AnalysisContext): number | null {
+    return scores(value, words, options.locale).flesch_kincaid_grade;
+  }
+}
+
+@Injectable()
+@StringProperty({ key: 'script', type: 'string', filterable: true })
+export class ScriptAnalyzer implements PropertyAnalyzer {
+  analyze(_value: string, { graphemes, words }: AnalysisContext): string {
+    return language(graphemes, words).script;
+  }
+}
+
+@Injectable()
+@StringProperty({ key: 'language', type: 'string', filterable: true })
+export class LanguageAnalyzer implements PropertyAnalyzer {
+  analyze(_value: string, { graphemes, words }: AnalysisContext): string {
+    return language(graphemes, words).language;
+  }
+}
+
+/** Text metrics stored next to the core properties, in output order */
+export const METRIC_ANALYZERS = [
+  EntropyAnalyzer,
+  BigramFrequencyAnalyzer,
+  TrigramFrequencyAnalyzer,
+  WordFrequencyAnalyzer,
+  VowelCountAnalyzer,
+  ConsonantCountAnalyzer,
+  DigitCountAnalyzer,
+  WhitespaceCountAnalyzer,
+  PunctuationCountAnalyzer,
+  UppercaseCountAnalyzer,
+  LowercaseCountAnalyzer,
+  EmojiCountAnalyzer,
+  LongestPalindromeAnalyzer,
+  LongestPalindromeLengthAnalyzer,
+  AverageWordLengthAnalyzer,
+  SentenceCountAnalyzer,
+  FleschReadingEaseAnalyzer,
+  FleschKincaidGradeAnalyzer,
+  ScriptAnalyzer,
+  LanguageAnalyzer,
+];
@@ -0,0 +1,49 @@
+import { DiscoveryService } from '@nestjs/core';
+import { AnalysisOptions } from '../../analysis';
+
+export type PropertyType =
+  | 'integer'
+  | 'number'
+  | 'boolean'
+  | 'string'
+  | 'object';
+
+/**
+ * Declaration of a single computed string property.
+ * - key: name of the property inside `properties`
+ * - type: JSON type of the computed value
+ * - filterable: whether GET /strings exposes filters for it
+ */
+export interface PropertyDescriptor {
+  key: string;
+  type: PropertyType;
+  filterable: boolean;
+}
+
+/**
+ * Values shared by every analyzer during one analysis
+ */
+export interface AnalysisContext {
+  sha256_hash: string;
+  options: AnalysisOptions;
+  /** NFC-normalized grapheme clusters of the value */
+  graphemes: string[];
+  /** word-like segments of the value */
+  words: string[];
+}
+
+export interface PropertyAnalyzer {
+  analyze(value: string, context: AnalysisContext): unknown;
+}
+
+/**
+ * Marks a provider as a string property analyzer. Any module can contribute
+ * analyzers by declaring decorated providers; they are picked up by the
+ * AnalyzerRegistry at startup.
+ *
+ * @example
+ * @StringProperty({ key: 'vowel_count', type: 'integer', filterable: true })
+ * export class VowelCountAnalyzer implements PropertyAnalyzer { ... }
+ */
+export const StringProperty =
+  DiscoveryService.createDecorator<PropertyDescriptor>();
@@ -0,0 +1,105 @@
+import { Body, Controller, Get, HttpCode, Param, Post } from '@nestjs/common';
+import {
+  ApiCreatedResponse,
+  ApiOkResponse,
+  ApiOperation,
+  ApiTags,
+} from '@nestjs/swagger';
+import { CollectionsService } from './collections.service';
+import { RequireScope } from '../auth/auth.decorators';
+import { ApiProblems } from '../common/api-docs';
+import {
+  CopyCollectionDto,
+  MergeCollectionDto,
+} from './dto/string-requests.dto';
+import {
+  CollectionDto,
+  CollectionListDto,
+  CopyResultDto,
+} from './dto/string-responses.dto';
+
+/**
+ * Named collections of strings. Their strings are served by the routes of
+ * /collections/:name/strings, which mirror /strings.
+ */
+@ApiTags('collections')
+@Controller('collections')
+@RequireScope('read')
+export class CollectionsController {
+  constructor(private readonly service: CollectionsService) {}
+
+  /**
+   * GET /collections -> 200 with every collection holding strings, by name
+   */
+  @Get()
+  @ApiOperation({
+    operationId: 'listCollections',
+    summary: 'List the collections and their string counts',
+  })
+  @ApiOkResponse({ type: CollectionListDto })
+  async list() {
+    const data = await this.service.list();
+    return { data, count: data.length };
+  }
+
+  /**
+   * GET /collections/:name -> 200 with the summary, 404 if it holds no strings
+   */
+  @Get(':name')
+  @ApiOperation({
+    operationId: 'getCollection',
+    summary: 'Get the string counts of a collection',
+  })
+  @ApiOkResponse({ type: CollectionDto })
+  @ApiProblems('INVALID_COLLECTION_NAME', 'COLLECTION_NOT_FOUND')
+  async get(@Param('name') name: string) {
+    return this.service.get(name);
+  }
+
+  /**
+   * POST /collections/:name/copy
+   * - body: { to }, a collection without strings
+   * - 201 with the number of strings copied
+   * - 404 if the source does not exist, 409 if the target holds strings
+   */
+  @Post(':name/copy')
+  @HttpCode(201)
+  @RequireScope('write')
+  @ApiOperation({
+    operationId: 'copyCollection',
+    summary: 'Copy the strings of a collection into a new one',
+  })
+  @ApiCreatedResponse({ type: CopyResultDto })
+  @ApiProblems(
+    'INVALID_BODY',
+    'INVALID_COLLECTION_NAME',
+    'COLLECTION_NOT_FOUND',
+    'COLLECTION_EXISTS',
+  )
+  async copy(@Param('name') name: string, @Body() body: CopyCollectionDto) {
+    return this.service.copy(name, body.to, false);
+  }
+
+  /**
+   * POST /collections/:name/merge
+   * - body: { into }, created when it does not exist
+   * - 200 with the strings copied and those `into` already held
+   * - 404 if the source does not exist
+   */
+  @Post(':name/merge')
+  @HttpCode(200)
+  @RequireScope('write')
+  @ApiOperation({
+    operationId: 'mergeCollection',
+    summary: 'Copy the strings of a collection that another one lacks',
+  })
+  @ApiOkResponse({ type: CopyResultDto })
+  @ApiProblems(
+    'INVALID_BODY',
+    'INVALID_COLLECTION_NAME',
+    'COLLECTION_NOT_FOUND',
+  )
+  async merge(@Param('name') name: string, @Body() body: MergeCollectionDto) {
+    return this.service.copy(name, body.into, true);
+  }
+}
@@ -0,0 +1,100 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { StringStore } from './storage/string-store';
+import { StringEventsService } from './string-events.service';
+import { CollectionSummary, parseCollectionName } from './collections';
+import { ApiException, unexpected } from '../common/errors';
+
+export interface CopyResult {
+  source: string;
+  target: string;
+  /** records written into the target */
+  copied: number;
+  /** live records of the source the target already held */
+  skipped: number;
+}
+
+/**
+ * Collections as a whole: their summaries, and copies of every live
+ * string of one into another. A collection exists while it holds strings,
+ * deleted ones included; writing a string is what creates it.
+ */
+@Injectable()
+export class CollectionsService {
+  private readonly logger = new Logger(CollectionsService.name);
+
+  constructor(
+    private readonly store: StringStore,
+    private readonly events: StringEventsService,
+  ) {}
+
+  async list(): Promise<CollectionSummary[]> {
+    try {
+      return await this.store.collections();
+    } catch (err) {
+      this.logger.error('Error in list', err);
+      throw unexpected(err);
+    }
+  }
+
+  /**
+   * Summary of a collection
+   * - 400 if the name is invalid, 404 if the collection holds no strings
+   */
+  async get(name: string): Promise<CollectionSummary> {
+    parseCollectionName(name, 'name');
+    let summary: CollectionSummary | undefined;
+    try {
+      [summary] = await this.store.collections(name);
+    } catch (err) {
+      this.logger.error('Error in get', err);
+      throw unexpected(err);
+    }
+    if (!summary) {
+      throw new ApiException(
+        'COLLECTION_NOT_FOUND',
+        `Collection "${name}" does not exist`,
+      );
+    }
+    return summary;
+  }
+
+  /**
+   * Copy the live strings of a collection into another one. Copies are
+   * new records: they get fresh timestamps and a string.created event each.
+   * - merge: fill in the strings the target lacks, instead of 409
+   *   COLLECTION_EXISTS when the target holds any string
+   * - 400 if either name is invalid, 404 if the source does not exist
+   */
+  async copy(
+    source: string,
+    target: string,
+    merge: boolean,
+  ): Promise<CopyResult> {
+    parseCollectionName(target, merge ? 'into' : 'to');
+    await this.get(source);
+
+    let result: Awaited<ReturnType<StringStore['copy']>>;
+    try {
+      result = await this.store.copy(source, target, { merge });
+    } catch (err) {
+      this.logger.error('Error in copy', err);
+      throw unexpected(err);
+    }
+    if (!result) {
+      throw new ApiException(
+        'COLLECTION_EXISTS',
+        `Collection "${target}" already holds strings; merge into it instead`,
+      );
+    }
+
+    for (const record of result.copied) {
+      this.events.publish('string.created', record);
+    }
+    return {
+      source,
+      target,
+      copied: result.copied.length,
+      skipped: result.skipped,
+    };
+  }
+}
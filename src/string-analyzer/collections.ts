@@ -0,0 +1,71 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+import type { Request } from 'express';
+import { ApiException } from '../common/errors';
+
+/** The collection of rows predating collections, and of the `/strings` routes */
+export const DEFAULT_COLLECTION = 'default';
+
+/** Prefix of the routes that mirror `/strings` within a named collection */
+export const COLLECTION_STRINGS_PATH = 'collections/:collection/strings';
+
+const COLLECTION_NAME = /^[a-z0-9][a-z0-9_-]{0,63}$/;
+
+/**
+ * A collection's stored strings, as listed by GET /collections
+ */
+export interface CollectionSummary {
+  name: string;
+  /** live strings */
+  strings: number;
+  /** soft-deleted strings */
+  deleted: number;
+  /** when the oldest string was stored */
+  created_at: Date;
+  /** last change of any string */
+  updated_at: Date;
+}
+
+/**
+ * Validate a collection name: 1-64 lowercase letters, digits, `-` and `_`,
+ * starting with a letter or digit.
+ * - 400 INVALID_COLLECTION_NAME otherwise
+ */
+export function parseCollectionName(
+  raw: unknown,
+  param = 'collection',
+): string {
+  if (typeof raw !== 'string' || !COLLECTION_NAME.test(raw)) {
+    throw new ApiException(
+      'INVALID_COLLECTION_NAME',
+      `"${String(raw)}" is not a valid collection name`,
+      [
+        {
+          name: param,
+          reason:
+            'Must be 1-64 lowercase letters, digits, "-" and "_", starting with a letter or digit',
+        },
+      ],
+    );
+  }
+  return raw;
+}
+
+/**
+ * The collection a strings route works in: the `:collection` path
+ * parameter of the mirrored routes, the default collection for `/strings`
+ */
+export const CollectionName = createParamDecorator(
+  (_: unknown, ctx: ExecutionContext) => {
+    const { params } = ctx.switchToHttp().getRequest<Request>();
+    return params.collection === undefined
+      ? DEFAULT_COLLECTION
+      : parseCollectionName(params.collection);
+  },
+);
+
+/** Path of the strings routes of a collection, for links in responses */
+export function stringsPath(collection: string): string {
+  return collection === DEFAULT_COLLECTION
+    ? '/strings'
+    : `/collections/${collection}/strings`;
+}
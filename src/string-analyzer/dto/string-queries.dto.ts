@@ -0,0 +1,347 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  ArrayNotEmpty,
+  IsArray,
+  IsBoolean,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Matches,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { PaginationQueryDto } from '../../common/dto/pagination.dto';
+import { DEFAULT_PAGE_LIMIT, MAX_PAGE_LIMIT } from '../../common/pagination';
+import { toBoolean, toNumber } from '../../common/validation';
+import {
+  QUERY_OUTCOMES,
+  type QueryOutcome,
+} from '../entities/natural-language-failure.entity';
+import {
+  DELETED_SCOPES,
+  type DeletedScope,
+  SORT_FIELDS,
+} from '../storage/string-store';
+import { MAX_FUZZY_DISTANCE } from '../string-search.service';
+import {
+  EXPORT_FORMATS,
+  type ExportFormat,
+  IMPORT_FORMATS,
+  type ImportFormat,
+} from '../string-transfer.service';
+import { EVENT_TYPES, type StringEventType } from '../string-events.service';
+
+const FLAG = { message: "must be 'true' or 'false'" };
+const OPTIONS_ERROR = { context: { code: 'INVALID_ANALYSIS_OPTIONS' } };
+
+/** `@Transform` of a comma separated list */
+const toList = ({ value }: { value: unknown }) =>
+  typeof value === 'string' ? value.split(',').map((v) => v.trim()) : value;
+
+export class StringPageQueryDto extends PaginationQueryDto {
+  @ApiPropertyOptional({ enum: SORT_FIELDS, default: 'created_at' })
+  @IsOptional()
+  @IsString()
+  sort_by?: string;
+}
+
+export class ListStringsQueryDto extends StringPageQueryDto {
+  @ApiPropertyOptional({
+    enum: DELETED_SCOPES,
+    default: 'exclude',
+    description:
+      'Whether soft-deleted records are left out, included or the only ones',
+  })
+  @IsOptional()
+  @IsIn(DELETED_SCOPES, {
+    message: `must be one of ${DELETED_SCOPES.join(', ')}`,
+  })
+  deleted?: DeletedScope;
+}
+
+export class SaveQueryDto {
+  @ApiPropertyOptional({
+    description: 'Answer 200 with { exists, data } and write nothing',
+  })
+  @IsOptional()
+  @Transform(toBoolean)
+  @IsBoolean(FLAG)
+  dry_run?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Answer 200 with the stored record instead of 409',
+  })
+  @IsOptional()
+  @Transform(toBoolean)
+  @IsBoolean(FLAG)
+  upsert?: boolean;
+}
+
+export class DeleteQueryDto {
+  @ApiPropertyOptional({
+    description: 'Remove the row instead of soft deleting it',
+  })
+  @IsOptional()
+  @Transform(toBoolean)
+  @IsBoolean(FLAG)
+  permanent?: boolean;
+}
+
+export class GetStringQueryDto {
+  @ApiPropertyOptional({
+    description:
+      'Answer with the whole value instead of the preview a large one is stored with',
+  })
+  @IsOptional()
+  @Transform(toBoolean)
+  @IsBoolean(FLAG)
+  full?: boolean;
+}
+
+export class BulkDeleteQueryDto extends DeleteQueryDto {
+  @ApiPropertyOptional({
+    type: 'integer',
+    minimum: 0,
+    description:
+      'Number of matching records; nothing is deleted unless it equals the actual count',
+  })
+  @IsOptional()
+  @Transform(toNumber)
+  @IsInt()
+  @Min(0)
+  confirm?: number;
+
+  @ApiPropertyOptional({ enum: DELETED_SCOPES, default: 'exclude' })
+  @IsOptional()
+  @IsIn(DELETED_SCOPES, {
+    message: `must be one of ${DELETED_SCOPES.join(', ')}`,
+  })
+  deleted?: DeletedScope;
+}
+
+/**
+ * Longest natural language query. Failed queries are logged under a unique
+ * index, and Postgres cannot index much longer text.
+ */
+export const MAX_NATURAL_QUERY_LENGTH = 500;
+
+export class NaturalLanguageQueryDto extends StringPageQueryDto {
+  @ApiProperty({
+    maxLength: MAX_NATURAL_QUERY_LENGTH,
+    example: 'all single word palindromic strings',
+  })
+  @IsString({ message: 'Query parameter is required' })
+  @Matches(/\S/, { message: 'Query parameter is required' })
+  @MaxLength(MAX_NATURAL_QUERY_LENGTH, {
+    message: `must be at most ${MAX_NATURAL_QUERY_LENGTH} characters`,
+  })
+  query: string;
+}
+
+export const DEFAULT_FAILURE_LIMIT = 50;
+export const MAX_FAILURE_LIMIT = 500;
+
+export class QueryFailuresQueryDto {
+  @ApiPropertyOptional({
+    enum: QUERY_OUTCOMES,
+    description: 'All when omitted',
+  })
+  @IsOptional()
+  @IsIn(QUERY_OUTCOMES)
+  outcome?: QueryOutcome;
+
+  @ApiPropertyOptional({
+    type: 'integer',
+    minimum: 1,
+    maximum: MAX_FAILURE_LIMIT,
+    default: DEFAULT_FAILURE_LIMIT,
+  })
+  @IsOptional()
+  @Transform(toNumber)
+  @IsInt()
+  @Min(1)
+  @Max(MAX_FAILURE_LIMIT)
+  limit?: number;
+}
+
+export class SearchQueryDto {
+  @ApiPropertyOptional({
+    description: 'Search term, required by every mode but regex',
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty({ message: 'Query parameter "q" is required' })
+  q?: string;
+
+  @ApiPropertyOptional({
+    description: 'Regular expression, required by the regex mode',
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty({ message: 'Query parameter "pattern" is required' })
+  pattern?: string;
+
+  @ApiPropertyOptional({
+    type: 'integer',
+    minimum: 1,
+    maximum: MAX_PAGE_LIMIT,
+    default: DEFAULT_PAGE_LIMIT,
+  })
+  @IsOptional()
+  @Transform(toNumber)
+  @IsInt()
+  @Min(1)
+  @Max(MAX_PAGE_LIMIT)
+  limit?: number;
+
+  @ApiPropertyOptional({ default: false })
+  @IsOptional()
+  @Transform(toBoolean)
+  @IsBoolean(FLAG)
+  case_sensitive?: boolean;
+
+  @ApiPropertyOptional({
+    type: 'integer',
+    minimum: 0,
+    maximum: MAX_FUZZY_DISTANCE,
+    default: 2,
+    description: 'Fuzzy mode only',
+  })
+  @IsOptional()
+  @Transform(toNumber)
+  @IsInt()
+  @Min(0)
+  @Max(MAX_FUZZY_DISTANCE)
+  max_distance?: number;
+}
+
+export class StatsQueryDto {
+  @ApiPropertyOptional({
+    type: 'integer',
+    minimum: 1,
+    maximum: 100,
+    default: 10,
+    description: 'Histogram buckets per field',
+  })
+  @IsOptional()
+  @Transform(toNumber)
+  @IsInt()
+  @Min(1)
+  @Max(100, { message: 'must be at most 100' })
+  buckets?: number;
+
+  @ApiPropertyOptional({
+    type: String,
+    example: '25,75,90,95,99',
+    description: 'Comma separated, 0-100, at most 20',
+  })
+  @IsOptional()
+  @Transform(({ value }: { value: unknown }) =>
+    typeof value === 'string'
+      ? value.split(',').map((p) => Number(p.trim()))
+      : value,
+  )
+  @IsArray()
+  @ArrayMaxSize(20)
+  @IsNumber({}, { each: true })
+  @Min(0, { each: true })
+  @Max(100, { each: true })
+  percentiles?: number[];
+
+  @ApiPropertyOptional({
+    type: 'integer',
+    minimum: 1,
+    maximum: 1000,
+    default: 100,
+    description: 'Size of the character frequency table',
+  })
+  @IsOptional()
+  @Transform(toNumber)
+  @IsInt()
+  @Min(1)
+  @Max(1000, { message: 'must be at most 1000' })
+  top_characters?: number;
+}
+
+export class ExportQueryDto {
+  @ApiPropertyOptional({ enum: EXPORT_FORMATS, default: 'ndjson' })
+  @IsOptional()
+  @IsIn(EXPORT_FORMATS)
+  format?: ExportFormat;
+
+  @ApiPropertyOptional({
+    default: false,
+    description: 'Add the character frequency map column to CSV',
+  })
+  @IsOptional()
+  @Transform(toBoolean)
+  @IsBoolean(FLAG)
+  include_frequency_map?: boolean;
+}
+
+export class ImportQueryDto {
+  @ApiPropertyOptional({
+    enum: IMPORT_FORMATS,
+    description: 'Taken from Content-Type when omitted',
+  })
+  @IsOptional()
+  @IsIn(IMPORT_FORMATS, {
+    message: `Unsupported import format (use ${IMPORT_FORMATS.join(', ')})`,
+    context: { code: 'UNSUPPORTED_FORMAT' },
+  })
+  format?: ImportFormat;
+
+  @ApiPropertyOptional({ description: 'For values without their own options' })
+  @IsOptional()
+  @Transform(toBoolean)
+  @IsBoolean({ ...FLAG, ...OPTIONS_ERROR })
+  case_sensitive?: boolean;
+
+  @ApiPropertyOptional({
+    enum: ['strict', 'lenient'],
+    description: 'For values without their own options',
+  })
+  @IsOptional()
+  @IsString(OPTIONS_ERROR)
+  palindrome_mode?: string;
+
+  @ApiPropertyOptional({ description: 'For values without their own options' })
+  @IsOptional()
+  @IsString(OPTIONS_ERROR)
+  locale?: string;
+}
+
+export class CompareQueryDto {
+  @ApiProperty({ description: 'Stored value or its sha256 id' })
+  @IsString()
+  @IsNotEmpty()
+  a: string;
+
+  @ApiProperty({ description: 'Stored value or its sha256 id' })
+  @IsString()
+  @IsNotEmpty()
+  b: string;
+}
+
+export class EventsQueryDto {
+  @ApiPropertyOptional({
+    type: String,
+    example: 'string.created,string.deleted',
+    description: `Comma separated event types, all when omitted: ${EVENT_TYPES.join(', ')}`,
+  })
+  @IsOptional()
+  @Transform(toList)
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsIn(EVENT_TYPES, {
+    each: true,
+    message: `Invalid event types (use ${EVENT_TYPES.join(', ')})`,
+  })
+  types?: StringEventType[];
+}
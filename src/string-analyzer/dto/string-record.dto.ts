@@ -0,0 +1,204 @@
+import { ApiProperty, ApiPropertyOptional, OmitType } from '@nestjs/swagger';
+
+const COUNTS = {
+  type: 'object',
+  additionalProperties: { type: 'integer' },
+} as const;
+
+/**
+ * Analysis options; resolveAnalysisOptions rejects unknown keys and fills
+ * in the defaults
+ */
+export class AnalysisOptionsDto {
+  @ApiPropertyOptional({
+    default: false,
+    description: 'Compare letters by case in the palindrome check',
+  })
+  case_sensitive?: boolean;
+
+  @ApiPropertyOptional({
+    enum: ['strict', 'lenient'],
+    default: 'lenient',
+    description:
+      "'lenient' only compares letters and numbers, 'strict' every character",
+  })
+  palindrome_mode?: 'strict' | 'lenient';
+
+  @ApiPropertyOptional({
+    default: 'en',
+    description: 'BCP 47 tag for word segmentation and case folding',
+  })
+  locale?: string;
+}
+
+/**
+ * The properties computed by the built-in analyzers. Analyzers registered
+ * by other modules add their own keys.
+ */
+export class StringPropertiesDto {
+  @ApiProperty({ type: 'integer', description: 'Grapheme clusters' })
+  length: number;
+
+  @ApiProperty()
+  is_palindrome: boolean;
+
+  @ApiProperty({ type: 'integer' })
+  unique_characters: number;
+
+  @ApiProperty({ type: 'integer' })
+  word_count: number;
+
+  @ApiProperty({ description: 'Hex sha256 of the value, also the record id' })
+  sha256_hash: string;
+
+  @ApiProperty({ ...COUNTS, example: { m: 2, a: 2, d: 1 } })
+  character_frequency_map: Record<string, number>;
+
+  @ApiProperty({ description: 'Shannon entropy of the characters, in bits' })
+  entropy: number;
+
+  @ApiProperty(COUNTS)
+  bigram_frequency_map: Record<string, number>;
+
+  @ApiProperty(COUNTS)
+  trigram_frequency_map: Record<string, number>;
+
+  @ApiProperty(COUNTS)
+  word_frequency_map: Record<string, number>;
+
+  @ApiProperty({
+    type: 'integer',
+    nullable: true,
+    description:
+      'Latin, Cyrillic and Greek letters, diacritics ignored; null with letters of other scripts',
+  })
+  vowel_count: number | null;
+
+  @ApiProperty({
+    type: 'integer',
+    nullable: true,
+    description:
+      'Latin, Cyrillic and Greek letters, diacritics ignored; null with letters of other scripts',
+  })
+  consonant_count: number | null;
+
+  @ApiProperty({ type: 'integer' })
+  digit_count: number;
+
+  @ApiProperty({ type: 'integer' })
+  whitespace_count: number;
+
+  @ApiProperty({ type: 'integer' })
+  punctuation_count: number;
+
+  @ApiProperty({ type: 'integer' })
+  uppercase_count: number;
+
+  @ApiProperty({ type: 'integer' })
+  lowercase_count: number;
+
+  @ApiProperty({ type: 'integer' })
+  emoji_count: number;
+
+  @ApiProperty({ description: 'Follows the palindrome options' })
+  longest_palindromic_substring: string;
+
+  @ApiProperty({ type: 'integer' })
+  longest_palindrome_length: number;
+
+  @ApiProperty({ type: Number, nullable: true })
+  average_word_length: number | null;
+
+  @ApiProperty({ type: 'integer' })
+  sentence_count: number;
+
+  @ApiProperty({
+    type: Number,
+    nullable: true,
+    description: 'English syllable rules, null without words',
+  })
+  flesch_reading_ease: number | null;
+
+  @ApiProperty({
+    type: Number,
+    nullable: true,
+    description: 'English syllable rules, null without words',
+  })
+  flesch_kincaid_grade: number | null;
+
+  @ApiProperty({ description: "ISO 15924 script, 'Zyyy' without letters" })
+  script: string;
+
+  @ApiProperty({ description: "ISO 639-1 language, 'und' if unknown" })
+  language: string;
+
+  [key: string]: unknown;
+}
+
+/**
+ * A stored string and its analysis
+ */
+export class StringRecordDto {
+  @ApiProperty({ example: 'default' })
+  collection: string;
+
+  @ApiProperty({ description: 'sha256 of the value' })
+  id: string;
+
+  @ApiProperty({
+    example: 'madam',
+    description:
+      'The value, or a preview of its first 1000 characters when value_truncated',
+  })
+  value: string;
+
+  @ApiProperty({
+    description:
+      'Whether value is a preview; ?full=true on GET /strings/:value and GET /strings/id/:id gives the whole value',
+  })
+  value_truncated: boolean;
+
+  @ApiProperty({ type: StringPropertiesDto })
+  properties: StringPropertiesDto;
+
+  @ApiProperty({
+    type: AnalysisOptionsDto,
+    nullable: true,
+    description: 'Options the properties were computed with',
+  })
+  analysis_options: AnalysisOptionsDto | null;
+
+  @ApiProperty({
+    type: 'integer',
+    description: 'Version of the analysis logic',
+  })
+  analysis_version: number;
+
+  @ApiProperty({ type: [String] })
+  tags: string[];
+
+  @ApiProperty({ type: 'object', additionalProperties: true })
+  metadata: Record<string, unknown>;
+
+  @ApiProperty()
+  created_at: Date;
+
+  @ApiProperty({
+    description:
+      'Last change of the labels, the analysis or the deleted state; equals created_at until then',
+  })
+  updated_at: Date;
+
+  @ApiPropertyOptional({ description: 'Only on soft-deleted records' })
+  deleted_at?: Date;
+}
+
+/**
+ * An analysis that was not stored
+ */
+export class AnalysisPreviewDto extends OmitType(StringRecordDto, [
+  'collection',
+  'created_at',
+  'updated_at',
+  'deleted_at',
+] as const) {}
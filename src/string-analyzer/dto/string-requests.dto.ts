@@ -0,0 +1,103 @@
+import { ApiProperty, ApiPropertyOptional, PickType } from '@nestjs/swagger';
+import {
+  ArrayMaxSize,
+  ArrayNotEmpty,
+  IsArray,
+  IsDefined,
+  IsObject,
+  IsOptional,
+  IsString,
+} from 'class-validator';
+import { MAX_BATCH_SIZE } from '../string-analyzer.service';
+import { MAX_METADATA_SIZE, MAX_TAG_LENGTH, MAX_TAGS } from '../labels';
+import { AnalysisOptionsDto } from './string-record.dto';
+
+const OPTIONS_ERROR = {
+  message: 'Invalid analysis options',
+  context: { code: 'INVALID_ANALYSIS_OPTIONS' },
+};
+
+/**
+ * Tags and metadata of a record; parseLabels trims, deduplicates and
+ * enforces the limits
+ */
+export class LabelsDto {
+  @ApiPropertyOptional({
+    type: [String],
+    maxItems: MAX_TAGS,
+    description: `1-${MAX_TAG_LENGTH} characters each, trimmed and deduplicated`,
+  })
+  @IsOptional()
+  @IsArray({ message: '"tags" must be an array of strings' })
+  @IsString({ each: true, message: '"tags" must be an array of strings' })
+  tags?: string[];
+
+  @ApiPropertyOptional({
+    type: 'object',
+    additionalProperties: true,
+    description: `Free-form JSON object, at most ${MAX_METADATA_SIZE} characters of JSON`,
+  })
+  @IsOptional()
+  @IsObject({ message: '"metadata" must be an object' })
+  metadata?: Record<string, unknown>;
+}
+
+export class CreateStringDto extends LabelsDto {
+  @ApiProperty({ example: 'madam' })
+  @IsDefined({ message: 'Invalid request body or missing "value" field' })
+  @IsString({
+    message: 'Invalid data type for value (must be string)',
+    context: { code: 'INVALID_VALUE_TYPE' },
+  })
+  value: string;
+
+  @ApiPropertyOptional({ type: AnalysisOptionsDto })
+  @IsOptional()
+  @IsObject(OPTIONS_ERROR)
+  options?: AnalysisOptionsDto;
+}
+
+export class AnalyzeStringDto extends PickType(CreateStringDto, [
+  'value',
+  'options',
+] as const) {}
+
+export class AnalyzeBatchDto {
+  @ApiProperty({
+    type: [String],
+    minItems: 1,
+    maxItems: MAX_BATCH_SIZE,
+    description: 'Values that are not strings are reported invalid',
+  })
+  @IsArray({ message: 'Invalid request body or missing "values" array' })
+  @ArrayNotEmpty({ message: 'Invalid request body or missing "values" array' })
+  @ArrayMaxSize(MAX_BATCH_SIZE, {
+    message: `Batch too large (max ${MAX_BATCH_SIZE} values)`,
+    context: { code: 'BATCH_TOO_LARGE' },
+  })
+  values: unknown[];
+
+  @ApiPropertyOptional({ type: AnalysisOptionsDto })
+  @IsOptional()
+  @IsObject(OPTIONS_ERROR)
+  options?: AnalysisOptionsDto;
+}
+
+/** PATCH /strings/id/:id; at least one of the fields is required */
+export class UpdateLabelsDto extends LabelsDto {}
+
+/** POST /collections/:name/copy */
+export class CopyCollectionDto {
+  @ApiProperty({ example: 'archive', description: 'An empty collection' })
+  @IsDefined({ message: 'Invalid request body or missing "to" field' })
+  @IsString({ message: '"to" must be a collection name' })
+  to: string;
+}
+
+/** POST /collections/:name/merge */
+export class MergeCollectionDto {
+  @ApiProperty({ example: 'archive' })
+  @IsDefined({ message: 'Invalid request body or missing "into" field' })
+  @IsString({ message: '"into" must be a collection name' })
+  into: string;
+}
@@ -0,0 +1,485 @@
+import {
+  ApiExtraModels,
+  ApiProperty,
+  ApiPropertyOptional,
+  getSchemaPath,
+} from '@nestjs/swagger';
+import { PageDto } from '../../common/dto/pagination.dto';
+import { AnalysisPreviewDto, StringRecordDto } from './string-record.dto';
+import { EVENT_TYPES, type StringEventType } from '../string-events.service';
+import { QUERY_OUTCOMES } from '../entities/natural-language-failure.entity';
+
+const OPERATORS = ['=', '!=', '<', '<=', '>', '>='];
+
+const FILTERS_APPLIED = {
+  type: 'object',
+  additionalProperties: true,
+  description: 'The filters of the request, normalized',
+  example: { is_palindrome: true, min_length: 3 },
+} as const;
+
+export class DryRunResultDto {
+  @ApiProperty({ description: 'Whether the value is already stored' })
+  exists: boolean;
+
+  @ApiProperty({
+    oneOf: [
+      { $ref: getSchemaPath(StringRecordDto) },
+      { $ref: getSchemaPath(AnalysisPreviewDto) },
+    ],
+    description: 'The stored record, or the analysis it would get',
+  })
+  data: StringRecordDto | AnalysisPreviewDto;
+}
+
+export class BatchItemResultDto {
+  @ApiProperty({ type: 'integer', description: 'Position in `values`' })
+  index: number;
+
+  @ApiProperty({ enum: ['created', 'duplicate', 'invalid'] })
+  status: 'created' | 'duplicate' | 'invalid';
+
+  @ApiPropertyOptional({ type: StringRecordDto })
+  data?: StringRecordDto;
+
+  @ApiPropertyOptional({ description: 'The rejected item, when invalid' })
+  value?: unknown;
+
+  @ApiPropertyOptional({ description: 'Why the item is invalid' })
+  reason?: string;
+}
+
+export class BatchSummaryDto {
+  @ApiProperty({ type: 'integer' })
+  created: number;
+
+  @ApiProperty({ type: 'integer' })
+  duplicate: number;
+
+  @ApiProperty({ type: 'integer' })
+  invalid: number;
+}
+
+export class BatchResultDto {
+  @ApiProperty({ type: [BatchItemResultDto] })
+  results: BatchItemResultDto[];
+
+  @ApiProperty({ type: 'integer' })
+  count: number;
+
+  @ApiProperty({ type: BatchSummaryDto })
+  summary: BatchSummaryDto;
+}
+
+export class StringPageDto extends PageDto {
+  @ApiProperty({ type: [StringRecordDto] })
+  data: StringRecordDto[];
+}
+
+export class FilteredStringPageDto extends StringPageDto {
+  @ApiProperty(FILTERS_APPLIED)
+  filters_applied: Record<string, unknown>;
+}
+
+/**
+ * A node of a filter tree; the fields besides `type` depend on it
+ */
+export class FilterNodeDto {
+  @ApiProperty({
+    enum: [
+      'and',
+      'or',
+      'not',
+      'compare',
+      'contains',
+      'frequency',
+      'tag',
+      'metadata',
+    ],
+  })
+  type: string;
+
+  @ApiPropertyOptional({
+    type: () => [FilterNodeDto],
+    description: 'and, or',
+  })
+  children?: FilterNodeDto[];
+
+  @ApiPropertyOptional({ type: () => FilterNodeDto, description: 'not' })
+  child?: FilterNodeDto;
+
+  @ApiPropertyOptional({ description: 'compare: a property key' })
+  property?: string;
+
+  @ApiPropertyOptional({
+    enum: OPERATORS,
+    description: 'compare, frequency, metadata',
+  })
+  operator?: string;
+
+  @ApiPropertyOptional({
+    oneOf: [{ type: 'number' }, { type: 'boolean' }, { type: 'string' }],
+    description: 'compare, frequency, metadata',
+  })
+  value?: number | boolean | string;
+
+  @ApiPropertyOptional({ description: 'contains, frequency' })
+  character?: string;
+
+  @ApiPropertyOptional({ description: 'tag' })
+  tag?: string;
+
+  @ApiPropertyOptional({ description: 'metadata: the metadata key' })
+  key?: string;
+}
+
+export class QueryTokenDto {
+  @ApiProperty({ example: 'longr' })
+  text: string;
+
+  @ApiProperty({
+    type: 'integer',
+    description: 'Offset in the query, in UTF-16 code units',
+  })
+  start: number;
+
+  @ApiProperty({ type: 'integer', description: 'Offset past the end' })
+  end: number;
+}
+
+export class QuerySpanDto extends QueryTokenDto {
+  @ApiProperty({
+    description: 'The filter read from the span, as a `q` filter expression',
+    example: 'word_count = 1',
+  })
+  filter: string;
+}
+
+export class InterpretedQueryDto {
+  @ApiProperty({ example: 'all single word palindromic strings' })
+  original: string;
+
+  @ApiProperty({
+    description: 'The parsed filters as a `q` filter expression',
+    example: 'word_count = 1 AND is_palindrome',
+  })
+  normalized: string;
+
+  @ApiProperty({ type: FilterNodeDto })
+  parsed_filters: FilterNodeDto;
+
+  @ApiProperty({
+    type: [QuerySpanDto],
+    description: 'The parts of the query read as filters, in query order',
+  })
+  spans: QuerySpanDto[];
+
+  @ApiProperty({
+    type: [QueryTokenDto],
+    description: 'Tokens that were not understood and left out',
+  })
+  ignored: QueryTokenDto[];
+
+  @ApiProperty({
+    type: [String],
+    description: 'Rewrites of the query that leave fewer tokens ignored',
+    example: ['strings longer than 5 characters'],
+  })
+  suggestions: string[];
+}
+
+export class NaturalLanguageResultDto extends StringPageDto {
+  @ApiProperty({ type: InterpretedQueryDto })
+  interpreted_query: InterpretedQueryDto;
+}
+
+export class QueryFailureDto {
+  @ApiProperty({ format: 'uuid' })
+  id: string;
+
+  @ApiProperty({
+    description: 'The query lowercased, whitespace collapsed',
+    example: 'strings longr then 5 characters',
+  })
+  query: string;
+
+  @ApiProperty({
+    enum: QUERY_OUTCOMES,
+    description: 'partial: parsed with tokens ignored',
+  })
+  outcome: string;
+
+  @ApiProperty({ type: [String], description: 'As of the last occurrence' })
+  ignored: string[];
+
+  @ApiProperty({ type: [String], description: 'As of the last occurrence' })
+  suggestions: string[];
+
+  @ApiProperty({ type: 'integer' })
+  occurrences: number;
+
+  @ApiProperty()
+  first_seen_at: Date;
+
+  @ApiProperty()
+  last_seen_at: Date;
+}
+
+export class QueryFailureListDto {
+  @ApiProperty({ type: [QueryFailureDto] })
+  data: QueryFailureDto[];
+
+  @ApiProperty({ type: 'integer' })
+  count: number;
+}
+
+export class SearchHitDto extends StringRecordDto {
+  @ApiProperty({ description: 'Relevance, 1 for an exact match' })
+  score: number;
+
+  @ApiPropertyOptional({ type: 'integer', description: 'Fuzzy mode only' })
+  distance?: number;
+}
+
+export class SearchResultDto {
+  @ApiProperty({ type: [SearchHitDto] })
+  data: SearchHitDto[];
+
+  @ApiProperty({ type: 'integer' })
+  count: number;
+
+  @ApiProperty({ enum: ['substring', 'prefix', 'suffix', 'fuzzy', 'regex'] })
+  mode: string;
+
+  @ApiProperty({ description: 'The term or pattern searched for' })
+  query: string;
+
+  @ApiProperty({
+    type: 'integer',
+    description:
+      'Stored values too large to search (above INLINE_VALUE_BYTES), which never match',
+  })
+  large_values_skipped: number;
+}
+
+export class HistogramBucketDto {
+  @ApiProperty()
+  from: number;
+
+  @ApiProperty()
+  to: number;
+
+  @ApiProperty({ type: 'integer' })
+  count: number;
+}
+
+export class FieldStatsDto {
+  @ApiProperty({ type: Number, nullable: true })
+  min: number | null;
+
+  @ApiProperty({ type: Number, nullable: true })
+  max: number | null;
+
+  @ApiProperty({ type: Number, nullable: true })
+  mean: number | null;
+
+  @ApiProperty({ type: Number, nullable: true })
+  median: number | null;
+
+  @ApiProperty({
+    type: 'object',
+    additionalProperties: { type: 'number', nullable: true },
+    example: { p25: 3, p75: 8 },
+  })
+  percentiles: Record<string, number | null>;
+
+  @ApiProperty({ type: [HistogramBucketDto] })
+  histogram: HistogramBucketDto[];
+}
+
+export class CharacterCountDto {
+  @ApiProperty()
+  character: string;
+
+  @ApiProperty({ type: 'integer' })
+  count: number;
+}
+
+@ApiExtraModels(FieldStatsDto)
+export class StatsDto {
+  @ApiProperty({ type: 'integer' })
+  count: number;
+
+  @ApiProperty({ type: Number, nullable: true })
+  palindrome_ratio: number | null;
+
+  @ApiProperty({
+    type: 'object',
+    additionalProperties: { $ref: getSchemaPath(FieldStatsDto) },
+    description: 'Per numeric property',
+  })
+  fields: Record<string, FieldStatsDto>;
+
+  @ApiProperty({ type: [CharacterCountDto] })
+  character_frequency: CharacterCountDto[];
+
+  @ApiProperty(FILTERS_APPLIED)
+  filters_applied: Record<string, unknown>;
+}
+
+export class ComparedStringDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  value: string;
+}
+
+export class DiffOpDto {
+  @ApiProperty({ enum: ['equal', 'insert', 'delete'] })
+  op: 'equal' | 'insert' | 'delete';
+
+  @ApiProperty()
+  text: string;
+}
+
+export class ComparisonDto {
+  @ApiProperty({ type: ComparedStringDto })
+  a: ComparedStringDto;
+
+  @ApiProperty({ type: ComparedStringDto })
+  b: ComparedStringDto;
+
+  @ApiProperty()
+  equal: boolean;
+
+  @ApiProperty()
+  is_anagram: boolean;
+
+  @ApiProperty({ type: 'integer' })
+  edit_distance: number;
+
+  @ApiProperty({ description: '1 - edit distance / longer length' })
+  similarity: number;
+
+  @ApiProperty()
+  longest_common_substring: string;
+
+  @ApiProperty()
+  longest_common_subsequence: string;
+
+  @ApiProperty({
+    type: 'object',
+    additionalProperties: { type: 'integer' },
+    description:
+      'Per character: count in b minus count in a, differing characters only',
+  })
+  character_frequency_diff: Record<string, number>;
+
+  @ApiProperty({
+    type: [DiffOpDto],
+    description: 'Operations turning a into b',
+  })
+  diff: DiffOpDto[];
+}
+
+export class BulkDeleteResultDto {
+  @ApiProperty({ type: 'integer' })
+  matched: number;
+
+  @ApiProperty({ type: 'integer' })
+  deleted: number;
+
+  @ApiProperty()
+  permanent: boolean;
+
+  @ApiProperty(FILTERS_APPLIED)
+  filters_applied: Record<string, unknown>;
+}
+
+/**
+ * One line of the NDJSON response of POST /strings/import; the last line
+ * is `{ summary }` instead
+ */
+export class ImportOutcomeDto {
+  @ApiProperty({ type: 'integer' })
+  line: number;
+
+  @ApiProperty({ enum: ['created', 'duplicate', 'invalid'] })
+  status: 'created' | 'duplicate' | 'invalid';
+
+  @ApiPropertyOptional({ description: 'Created or duplicate values' })
+  id?: string;
+
+  @ApiPropertyOptional({ description: 'Invalid values' })
+  reason?: string;
+}
+
+/**
+ * Data of a string lifecycle event, in the event stream and webhook
+ * deliveries
+ */
+export class StringEventDto {
+  @ApiProperty({ description: 'Unique per event' })
+  id: string;
+
+  @ApiProperty({ enum: EVENT_TYPES })
+  type: StringEventType;
+
+  @ApiProperty()
+  occurred_at: string;
+
+  @ApiProperty({ type: StringRecordDto })
+  data: StringRecordDto;
+
+  @ApiPropertyOptional({ description: 'string.deleted only' })
+  permanent?: boolean;
+
+  @ApiPropertyOptional({
+    type: 'integer',
+    description: 'string.reanalyzed only',
+  })
+  previous_version?: number;
+}
+
+export class CollectionDto {
+  @ApiProperty({ example: 'default' })
+  name: string;
+
+  @ApiProperty({ type: 'integer', description: 'Live strings' })
+  strings: number;
+
+  @ApiProperty({ type: 'integer', description: 'Soft-deleted strings' })
+  deleted: number;
+
+  @ApiProperty({ description: 'When the oldest string was stored' })
+  created_at: Date;
+
+  @ApiProperty({ description: 'Last change of any string' })
+  updated_at: Date;
+}
+
+export class CollectionListDto {
+  @ApiProperty({ type: [CollectionDto] })
+  data: CollectionDto[];
+
+  @ApiProperty({ type: 'integer' })
+  count: number;
+}
+
+export class CopyResultDto {
+  @ApiProperty()
+  source: string;
+
+  @ApiProperty()
+  target: string;
+
+  @ApiProperty({ type: 'integer', description: 'Strings written' })
+  copied: number;
+
+  @ApiProperty({
+    type: 'integer',
+    description: 'Strings the target already held, deleted ones included',
+  })
+  skipped: number;
+}
@@ -0,0 +1,50 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+
+export const QUERY_OUTCOMES = [
+  'unparseable',
+  'conflicting',
+  'partial',
+] as const;
+export type QueryOutcome = (typeof QUERY_OUTCOMES)[number];
+
+/**
+ * A natural language query that failed or was only partly understood,
+ * with how often it was asked
+ */
+@Entity('natural_language_failures')
+export class NaturalLanguageFailure {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  // lowercased, whitespace collapsed
+  @Index('IDX_natural_language_failures_query', { unique: true })
+  @Column({ type: 'text' })
+  query: string;
+
+  // unparseable, conflicting, or partial when words were ignored
+  @Column({ type: 'varchar' })
+  outcome: QueryOutcome;
+
+  // tokens that were not understood, as of the last occurrence
+  @Column({ type: 'text', array: true })
+  ignored: string[];
+
+  // "did you mean" queries offered at the last occurrence
+  @Column({ type: 'text', array: true })
+  suggestions: string[];
+
+  @Column({ type: 'integer', default: 1 })
+  occurrences: number;
+
+  @CreateDateColumn({ precision: 3 })
+  first_seen_at: Date;
+
+  @Column({ type: 'timestamptz' })
+  last_seen_at: Date;
+}
@@ -0,0 +1,29 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  PrimaryColumn,
+} from 'typeorm';
+import type { StringEventType, StringEvent } from '../string-events.service';
+
+/**
+ * A string event written in the transaction of the change it reports,
+ * waiting for the webhook dispatcher to turn it into deliveries
+ */
+@Entity('string_event_outbox')
+@Index('IDX_string_event_outbox_created_at', ['created_at'])
+export class OutboxEvent {
+  // the id of the event
+  @PrimaryColumn({ type: 'uuid' })
+  id: string;
+
+  @Column({ type: 'varchar' })
+  type: StringEventType;
+
+  @Column({ type: 'jsonb' })
+  payload: StringEvent;
+
+  @CreateDateColumn({ precision: 3 })
+  created_at: Date;
+}
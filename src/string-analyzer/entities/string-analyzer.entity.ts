@@ -1,23 +1,116 @@
-import { Entity, Column, PrimaryColumn, CreateDateColumn } from 'typeorm';
+import {
+  Entity,
+  Column,
+  PrimaryColumn,
+  CreateDateColumn,
+  DeleteDateColumn,
+  Index,
+  UpdateDateColumn,
+} from 'typeorm';
+import {
+  AnalysisOptions,
+  anagramSignature,
+  CoreProperties,
+} from '../../analysis';
+import { DEFAULT_COLLECTION } from '../collections';
 
+export type StringProperties = CoreProperties & {
+  [key: string]: unknown;
+};
+
+// expression, hash and gin indexes live in the migrations, TypeORM must not manage them
+@Index('IDX_string_analyzer_value', { synchronize: false })
+@Index('IDX_string_analyzer_created_at', { synchronize: false })
+@Index('IDX_string_analyzer_length', { synchronize: false })
+@Index('IDX_string_analyzer_word_count', { synchronize: false })
+@Index('IDX_string_analyzer_unique_characters', { synchronize: false })
+@Index('IDX_string_analyzer_is_palindrome', { synchronize: false })
+@Index('IDX_string_analyzer_character_frequency_map', { synchronize: false })
+@Index('IDX_string_analyzer_tags', { synchronize: false })
+@Index('IDX_string_analyzer_value_truncated', { synchronize: false })
 @Entity('string_analyzer')
 export class StringAnalyzer {
+  // ids and values are unique per collection
+  @PrimaryColumn({ type: 'varchar', length: 64, default: DEFAULT_COLLECTION })
+  collection: string;
+
   @PrimaryColumn()
   id: string; // sha256 hash
 
+  // the whole value, or a preview of it when value_truncated
   @Column()
   value: string;
 
+  // large values live in the BlobStore under their id, the row keeps a preview
+  @Column({ type: 'boolean', default: false })
+  value_truncated: boolean;
+
+  // core properties, plus whatever registered analyzers contribute
   @Column({ type: 'jsonb' })
-  properties: {
-    length: number;
-    is_palindrome: boolean;
-    unique_characters: number;
-    word_count: number;
-    sha256_hash: string;
-    character_frequency_map: Record<string, number>;
-  };
+  properties: StringProperties;
+
+  // options the properties were computed with, null for legacy rows
+  @Column({ type: 'jsonb', nullable: true })
+  analysis_options: AnalysisOptions | null;
+
+  // ANALYSIS_VERSION that computed the properties; 1 for rows predating versioning
+  @Index('IDX_string_analyzer_analysis_version')
+  @Column({ type: 'integer', default: 1 })
+  analysis_version: number;
+
+  // sorted letters and numbers of the value, so anagrams are one index lookup;
+  // kept in sync by StringAnalyzerSubscriber
+  @Index('IDX_string_analyzer_anagram_signature')
+  @Column({ type: 'varchar', nullable: true, select: false })
+  anagram_signature?: string | null;
+
+  // user-supplied labels, filterable but never analysed
+  @Column({ type: 'text', array: true, default: () => "'{}'" })
+  tags: string[];
 
-  @CreateDateColumn()
+  @Column({ type: 'jsonb', default: () => "'{}'" })
+  metadata: Record<string, unknown>;
+
+  // millisecond precision so created_at round-trips through JS Dates and cursors
+  @CreateDateColumn({ precision: 3 })
   created_at: Date;
+
+  // every save, soft delete and restore moves it; equals created_at until then
+  @UpdateDateColumn({ precision: 3 })
+  updated_at: Date;
+
+  // set by soft deletes; TypeORM leaves these rows out unless asked for them
+  @DeleteDateColumn({ precision: 3, nullable: true })
+  deleted_at?: Date | null;
+}
+
+/**
+ * The public shape of a record: every column except internal ones, with
+ * deleted_at only on soft-deleted records
+ */
+export function toRecord(entity: StringAnalyzer): StringAnalyzer {
+  return {
+    collection: entity.collection,
+    id: entity.id,
+    value: entity.value,
+    value_truncated: entity.value_truncated,
+    properties: entity.properties,
+    analysis_options: entity.analysis_options,
+    analysis_version: entity.analysis_version,
+    tags: entity.tags,
+    metadata: entity.metadata,
+    created_at: entity.created_at,
+    updated_at: entity.updated_at,
+    ...(entity.deleted_at ? { deleted_at: entity.deleted_at } : {}),
+  };
+}
+
+/**
+ * The anagram signature of a record; null for truncated values, whose
+ * preview would give a wrong one
+ */
+export function signatureOf(
+  record: Pick<StringAnalyzer, 'value' | 'value_truncated'>,
+): string | null {
+  return record.value_truncated ? null : anagramSignature(record.value);
 }
@@ -0,0 +1,34 @@
+import { Injectable, Optional } from '@nestjs/common';
+import {
+  DataSource,
+  EntitySubscriberInterface,
+  InsertEvent,
+  UpdateEvent,
+} from 'typeorm';
+import { signatureOf, StringAnalyzer } from './string-analyzer.entity';
+
+/**
+ * Derives the anagram signature of every record written through TypeORM
+ */
+@Injectable()
+export class StringAnalyzerSubscriber
+  implements EntitySubscriberInterface<StringAnalyzer>
+{
+  constructor(@Optional() dataSource?: DataSource) {
+    dataSource?.subscribers.push(this);
+  }
+
+  listenTo() {
+    return StringAnalyzer;
+  }
+
+  beforeInsert({ entity }: InsertEvent<StringAnalyzer>) {
+    entity.anagram_signature = signatureOf(entity);
+  }
+
+  beforeUpdate({ entity }: UpdateEvent<StringAnalyzer>) {
+    if (entity && typeof entity.value === 'string') {
+      entity.anagram_signature = signatureOf(entity as StringAnalyzer);
+    }
+  }
+}
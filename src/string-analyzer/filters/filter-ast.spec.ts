@@ -0,0 +1,57 @@
+import { hasConflict } from './filter-ast';
+import { parseFilterExpression } from './filter-expression.parser';
+import {
+  PropertyDescriptor,
+  PropertyType,
+} from '../analyzers/property-analyzer';
+
+const TYPES: Record<string, PropertyType> = {
+  length: 'integer',
+  word_count: 'integer',
+  entropy: 'number',
+  is_palindrome: 'boolean',
+};
+
+const lookup = (key: string): PropertyDescriptor | undefined =>
+  TYPES[key] && { key, type: TYPES[key], filterable: true };
+
+const conflicts = (expression: string) =>
+  hasConflict(parseFilterExpression(expression, lookup), lookup);
+
+describe('hasConflict', () => {
+  it('finds bounds that exclude each other', () => {
+    expect(conflicts('length > 10 AND length < 5')).toBe(true);
+    expect(conflicts('length >= 5 AND length <= 5')).toBe(false);
+    expect(conflicts('length = 3 AND length > 3')).toBe(true);
+    expect(conflicts('is_palindrome = true AND is_palindrome = false')).toBe(
+      true,
+    );
+    expect(conflicts("contains('a') AND NOT contains('a')")).toBe(true);
+  });
+
+  it('looks into every branch of a disjunction', () => {
+    expect(
+      conflicts('is_palindrome = true OR (length > 10 AND length < 5)'),
+    ).toBe(true);
+    expect(conflicts('length > 10 OR length < 5')).toBe(false);
+  });
+
+  it('accepts negated conflicts, which match everything', () => {
+    expect(conflicts('NOT (length > 10 AND length < 5)')).toBe(false);
+    expect(
+      conflicts('word_count = 1 AND NOT (length > 10 AND length < 5)'),
+    ).toBe(false);
+    expect(conflicts("NOT (contains('a') AND NOT contains('a'))")).toBe(false);
+  });
+
+  it('tightens strict bounds by one for integer properties only', () => {
+    // no integer lies strictly between 2 and 3
+    expect(conflicts('length > 2 AND length < 3')).toBe(true);
+    expect(conflicts('entropy > 2 AND entropy < 3')).toBe(false);
+    expect(conflicts('entropy > 2 AND entropy < 2.5')).toBe(false);
+    expect(conflicts('entropy > 2 AND entropy <= 2')).toBe(true);
+    expect(conflicts('entropy >= 2 AND entropy < 2')).toBe(true);
+    expect(conflicts('entropy >= 2 AND entropy <= 2')).toBe(false);
+    expect(conflicts('entropy = 2.5 AND entropy > 2')).toBe(false);
+  });
+});
@@ -0,0 +1,223 @@
+/**
+ * Filter expressions over analysed properties and user-supplied labels.
+ * Both the natural language parser and the query-param filters of
+ * GET /strings produce this tree; the filter compiler turns it into SQL.
+ */
+
+import { PropertyDescriptor } from '../analyzers/property-analyzer';
+
+export type ComparisonOperator = '=' | '!=' | '<' | '<=' | '>' | '>=';
+
+export type FilterValue = number | boolean | string;
+
+export type FilterNode =
+  | { type: 'and'; children: FilterNode[] }
+  | { type: 'or'; children: FilterNode[] }
+  | { type: 'not'; child: FilterNode }
+  | {
+      type: 'compare';
+      property: string;
+      operator: ComparisonOperator;
+      value: FilterValue;
+    }
+  | { type: 'contains'; character: string }
+  | {
+      type: 'frequency';
+      character: string;
+      operator: ComparisonOperator;
+      value: number;
+    }
+  | { type: 'tag'; tag: string }
+  | {
+      type: 'metadata';
+      key: string;
+      operator: ComparisonOperator;
+      value: FilterValue;
+    };
+
+export const and = (children: FilterNode[]): FilterNode =>
+  children.length === 1 ? children[0] : { type: 'and', children };
+
+export const or = (children: FilterNode[]): FilterNode =>
+  children.length === 1 ? children[0] : { type: 'or', children };
+
+export const not = (child: FilterNode): FilterNode =>
+  // double negation cancels out
+  child.type === 'not' ? child.child : { type: 'not', child };
+
+export const compare = (
+  property: string,
+  operator: ComparisonOperator,
+  value: FilterValue,
+): FilterNode => ({ type: 'compare', property, operator, value });
+
+export const contains = (character: string): FilterNode => ({
+  type: 'contains',
+  character,
+});
+
+export const frequency = (
+  character: string,
+  operator: ComparisonOperator,
+  value: number,
+): FilterNode => ({ type: 'frequency', character, operator, value });
+
+export const tag = (value: string): FilterNode => ({
+  type: 'tag',
+  tag: value,
+});
+
+export const metadata = (
+  key: string,
+  operator: ComparisonOperator,
+  value: FilterValue,
+): FilterNode => ({ type: 'metadata', key, operator, value });
+
+/**
+ * Flatten nested and/or nodes of the same kind: and(a, and(b, c)) -> and(a, b, c)
+ */
+export function simplify(node: FilterNode): FilterNode {
+  switch (node.type) {
+    case 'and':
+    case 'or': {
+      const children = node.children.flatMap((c) => {
+        const child = simplify(c);
+        return child.type === node.type ? child.children : [child];
+      });
+      return node.type === 'and' ? and(children) : or(children);
+    }
+    case 'not':
+      return not(simplify(node.child));
+    default:
+      return node;
+  }
+}
+
+/**
+ * Render a tree in the `q` expression syntax, e.g.
+ * `is_palindrome = true AND (length > 5 OR NOT contains('a'))`.
+ * The output parses back to the same tree with parseFilterExpression.
+ */
+export function formatFilter(node: FilterNode): string {
+  const wrap = (child: FilterNode) =>
+    child.type === 'and' || child.type === 'or'
+      ? `(${formatFilter(child)})`
+      : formatFilter(child);
+
+  switch (node.type) {
+    case 'and':
+      return node.children.map(wrap).join(' AND ');
+    case 'or':
+      return node.children.map(wrap).join(' OR ');
+    case 'not':
+      return `NOT ${wrap(node.child)}`;
+    case 'compare':
+      return `${node.property} ${node.operator} ${formatValue(node.value)}`;
+    case 'contains':
+      return `contains(${formatValue(node.character)})`;
+    case 'frequency':
+      return `freq(${formatValue(node.character)}) ${node.operator} ${node.value}`;
+    case 'tag':
+      return `has_tag(${formatValue(node.tag)})`;
+    case 'metadata':
+      return `metadata(${formatValue(node.key)}) ${node.operator} ${formatValue(node.value)}`;
+  }
+}
+
+function formatValue(value: FilterValue): string {
+  return typeof value === 'string'
+    ? `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`
+    : String(value);
+}
+
+/**
+ * Whether some conjunction of the tree can never match, e.g.
+ * `length > 10 AND length < 5` or `contains('a') AND NOT contains('a')`.
+ * Negated subtrees are not searched: the negation of a conflict matches
+ * everything. `lookup` tells integer properties, whose strict bounds
+ * tighten by one.
+ */
+export function hasConflict(
+  node: FilterNode,
+  lookup: (key: string) => PropertyDescriptor | undefined,
+): boolean {
+  switch (node.type) {
+    case 'or':
+      return node.children.some((child) => hasConflict(child, lookup));
+    case 'and':
+      return (
+        node.children.some((child) => hasConflict(child, lookup)) ||
+        conflictingTerms(node.children, lookup)
+      );
+    default:
+      return false;
+  }
+}
+
+interface Range {
+  low: number;
+  high: number;
+  /** whether the bound itself is excluded */
+  lowOpen: boolean;
+  highOpen: boolean;
+}
+
+function conflictingTerms(
+  terms: FilterNode[],
+  lookup: (key: string) => PropertyDescriptor | undefined,
+): boolean {
+  const bounds = new Map<string, Range>();
+  const equals = new Map<string, FilterValue>();
+  const included = new Set<string>();
+  const excluded = new Set<string>();
+
+  for (const term of terms) {
+    if (term.type === 'contains') included.add(term.character);
+    if (term.type === 'not' && term.child.type === 'contains') {
+      excluded.add(term.child.character);
+    }
+    if (term.type !== 'compare') continue;
+
+    const { property, operator, value } = term;
+    if (typeof value !== 'number') {
+      if (operator !== '=') continue;
+      if (equals.has(property) && equals.get(property) !== value) return true;
+      equals.set(property, value);
+      continue;
+    }
+
+    const range = bounds.get(property) ?? {
+      low: -Infinity,
+      high: Infinity,
+      lowOpen: false,
+      highOpen: false,
+    };
+    let low = operator === '=' || operator === '>=' ? value : -Infinity;
+    let high = operator === '=' || operator === '<=' ? value : Infinity;
+    let lowOpen = false;
+    let highOpen = false;
+    if (lookup(property)?.type === 'integer') {
+      if (operator === '>') low = Math.floor(value) + 1;
+      if (operator === '<') high = Math.ceil(value) - 1;
+    } else {
+      if (operator === '>') [low, lowOpen] = [value, true];
+      if (operator === '<') [high, highOpen] = [value, true];
+    }
+
+    if (low > range.low || (low === range.low && lowOpen)) {
+      [range.low, range.lowOpen] = [low, lowOpen];
+    }
+    if (high < range.high || (high === range.high && highOpen)) {
+      [range.high, range.highOpen] = [high, highOpen];
+    }
+    if (
+      range.low > range.high ||
+      (range.low === range.high && (range.lowOpen || range.highOpen))
+    ) {
+      return true;
+    }
+    bounds.set(property, range);
+  }
+
+  return [...included].some((c) => excluded.has(c));
+}
@@ -0,0 +1,144 @@
+import {
+  Brackets,
+  NotBrackets,
+  ObjectLiteral,
+  WhereExpressionBuilder,
+} from 'typeorm';
+import { AnalyzerRegistry } from '../analyzers/analyzer-registry.service';
+import { PropertyDescriptor } from '../analyzers/property-analyzer';
+import { ComparisonOperator, FilterNode } from './filter-ast';
+import { validateFilter } from './filter-validation';
+
+/**
+ * SQL expression reading a property out of the jsonb `properties` column
+ */
+export function propertyExpression({ key, type }: PropertyDescriptor): string {
+  switch (type) {
+    case 'integer':
+      return `CAST(s.properties ->> '${key}' AS INTEGER)`;
+    case 'number':
+      return `CAST(s.properties ->> '${key}' AS NUMERIC)`;
+    case 'boolean':
+      return `CAST(s.properties ->> '${key}' AS BOOLEAN)`;
+    default:
+      return `s.properties ->> '${key}'`;
+  }
+}
+
+function sqlOperator(operator: ComparisonOperator): string {
+  return operator === '!=' ? '<>' : operator;
+}
+
+/**
+ * Condition on a top-level metadata key. Strings compare with the text form
+ * of the value, numbers only match numeric values and booleans only booleans.
+ * Missing keys never match, so the condition is never NULL and NOT works
+ * as expected.
+ */
+function metadataCondition(
+  node: FilterNode & { type: 'metadata' },
+  param: string,
+): [string, ObjectLiteral] {
+  const { key, operator, value } = node;
+  const params = { [`${param}_key`]: key, [param]: value };
+  const field = `s.metadata -> :${param}_key`;
+
+  let condition: string;
+  switch (typeof value) {
+    case 'number':
+      condition = `CASE WHEN jsonb_typeof(${field}) = 'number' THEN CAST(s.metadata ->> :${param}_key AS NUMERIC) END ${sqlOperator(operator)} :${param}`;
+      break;
+    case 'boolean':
+      params[param] = JSON.stringify(value);
+      condition = `${field} ${sqlOperator(operator)} CAST(:${param} AS JSONB)`;
+      break;
+    default:
+      condition = `s.metadata ->> :${param}_key ${sqlOperator(operator)} :${param}`;
+  }
+  return [`COALESCE(${condition}, FALSE)`, params];
+}
+
+/**
+ * Compile a filter tree into a parameterized where clause for the `s` alias.
+ * The tree is checked by validateFilter first; every value is bound as a
+ * query parameter.
+ * - throws INVALID_QUERY_PARAMETER (400) for unknown properties or mismatched types
+ */
+export function compileFilter(
+  node: FilterNode,
+  registry: AnalyzerRegistry,
+): Brackets {
+  validateFilter(node, registry);
+  let counter = 0;
+
+  const leaf = (node: FilterNode): [string, ObjectLiteral] => {
+    const param = `filter_${counter++}`;
+    switch (node.type) {
+      case 'contains':
+        return [
+          `s.properties -> 'character_frequency_map' ? :${param}`,
+          { [param]: node.character },
+        ];
+      case 'frequency':
+        // characters missing from the map occur zero times
+        return [
+          `COALESCE(CAST(s.properties -> 'character_frequency_map' ->> :${param}_char AS INTEGER), 0) ${sqlOperator(node.operator)} :${param}`,
+          { [`${param}_char`]: node.character, [param]: node.value },
+        ];
+      case 'tag':
+        return [
+          `s.tags @> ARRAY[CAST(:${param} AS TEXT)]`,
+          { [param]: node.tag },
+        ];
+      case 'metadata':
+        return metadataCondition(node, param);
+      case 'compare':
+        return [
+          `${propertyExpression(registry.get(node.property)!)} ${sqlOperator(node.operator)} :${param}`,
+          { [param]: node.value },
+        ];
+      default:
+        throw new Error(`Unexpected filter node ${node.type}`);
+    }
+  };
+
+  const apply = (
+    qb: WhereExpressionBuilder,
+    node: FilterNode,
+    conjunction: 'and' | 'or',
+    first: boolean,
+  ) => {
+    const add = (condition: string | Brackets, params?: ObjectLiteral) => {
+      if (typeof condition === 'string') {
+        if (first) qb.where(condition, params);
+        else if (conjunction === 'and') qb.andWhere(condition, params);
+        else qb.orWhere(condition, params);
+      } else {
+        if (first) qb.where(condition);
+        else if (conjunction === 'and') qb.andWhere(condition);
+        else qb.orWhere(condition);
+      }
+    };
+
+    switch (node.type) {
+      case 'and':
+      case 'or':
+        // an empty conjunction matches everything, an empty disjunction nothing
+        if (!node.children.length) add(node.type === 'and' ? 'TRUE' : 'FALSE');
+        else add(group(node));
+        break;
+      case 'not':
+        add(new NotBrackets((inner) => apply(inner, node.child, 'and', true)));
+        break;
+      default:
+        add(...leaf(node));
+    }
+  };
+
+  const group = (node: FilterNode & { type: 'and' | 'or' }) =>
+    new Brackets((qb) =>
+      node.children.forEach((child, i) => apply(qb, child, node.type, i === 0)),
+    );
+
+  return new Brackets((qb) => apply(qb, node, 'and', true));
+}
@@ -0,0 +1,134 @@
+import { ComparisonOperator, FilterNode, FilterValue } from './filter-ast';
+
+/** The parts of a record a filter can look at */
+export interface FilterTarget {
+  properties: Record<string, unknown>;
+  tags: string[];
+  metadata: Record<string, unknown>;
+}
+
+function compareValues(
+  left: unknown,
+  operator: ComparisonOperator,
+  right: FilterValue,
+): boolean {
+  switch (operator) {
+    case '=':
+      return left === right;
+    case '!=':
+      return left !== right;
+    default: {
+      if (typeof left !== 'number' || typeof right !== 'number') return false;
+      if (operator === '<') return left < right;
+      if (operator === '<=') return left <= right;
+      if (operator === '>') return left > right;
+      return left >= right;
+    }
+  }
+}
+
+/**
+ * The text of a JSON value as Postgres `->>` returns it from jsonb: null
+ * for SQL NULL (missing keys and JSON null), strings as is, objects with
+ * their keys in jsonb order (shorter first) and `, ` / `: ` separators.
+ */
+export function jsonbText(value: unknown): string | null {
+  if (value === null || typeof value === 'undefined') return null;
+  if (typeof value === 'string') return value;
+  return jsonbFormat(value);
+}
+
+function jsonbFormat(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(jsonbFormat).join(', ')}]`;
+  if (value !== null && typeof value === 'object') {
+    const keys = Object.keys(value).sort(
+      (a, b) =>
+        Buffer.byteLength(a) - Buffer.byteLength(b) ||
+        Buffer.compare(Buffer.from(a), Buffer.from(b)),
+    );
+    const entries = keys.map(
+      (key) =>
+        `${JSON.stringify(key)}: ${jsonbFormat((value as Record<string, unknown>)[key])}`,
+    );
+    return `{${entries.join(', ')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * A filter tree evaluated with SQL's three-valued logic: comparisons with
+ * a missing or null property are unknown (null), NOT unknown stays
+ * unknown, and only true matches.
+ */
+function evaluate(node: FilterNode, record: FilterTarget): boolean | null {
+  const frequencies = (record.properties.character_frequency_map ??
+    {}) as Record<string, number>;
+
+  switch (node.type) {
+    case 'and': {
+      let result: boolean | null = true;
+      for (const child of node.children) {
+        const value = evaluate(child, record);
+        if (value === false) return false;
+        if (value === null) result = null;
+      }
+      return result;
+    }
+    case 'or': {
+      let result: boolean | null = false;
+      for (const child of node.children) {
+        const value = evaluate(child, record);
+        if (value === true) return true;
+        if (value === null) result = null;
+      }
+      return result;
+    }
+    case 'not': {
+      const value = evaluate(node.child, record);
+      return value === null ? null : !value;
+    }
+    case 'compare': {
+      const value = record.properties[node.property];
+      if (value === null || typeof value === 'undefined') return null;
+      return compareValues(value, node.operator, node.value);
+    }
+    case 'contains':
+      return Object.hasOwn(frequencies, node.character);
+    case 'frequency':
+      return compareValues(
+        frequencies[node.character] ?? 0,
+        node.operator,
+        node.value,
+      );
+    case 'tag':
+      return record.tags.includes(node.tag);
+    case 'metadata': {
+      // metadata conditions are never unknown, missing keys do not match
+      const value = record.metadata[node.key];
+      if (typeof node.value === 'string') {
+        const text = jsonbText(value);
+        return text !== null && compareValues(text, node.operator, node.value);
+      }
+      if (typeof node.value === 'number') {
+        return (
+          typeof value === 'number' &&
+          compareValues(value, node.operator, node.value)
+        );
+      }
+      // booleans compare as jsonb: any other value differs
+      if (typeof value === 'undefined') return false;
+      return node.operator === '='
+        ? value === node.value
+        : value !== node.value;
+    }
+  }
+}
+
+/**
+ * Evaluate a filter tree against a record in memory, with the semantics of
+ * the SQL produced by compileFilter. Used where records are not queried,
+ * e.g. to filter the event stream, and by the in-memory store.
+ */
+export function matchesFilter(node: FilterNode, record: FilterTarget): boolean {
+  return evaluate(node, record) === true;
+}
@@ -0,0 +1,168 @@
+import { formatFilter } from './filter-ast';
+import {
+  FilterExpressionError,
+  parseFilterExpression,
+} from './filter-expression.parser';
+import {
+  PropertyDescriptor,
+  PropertyType,
+} from '../analyzers/property-analyzer';
+
+const TYPES: Record<string, PropertyType> = {
+  length: 'integer',
+  word_count: 'integer',
+  entropy: 'number',
+  is_palindrome: 'boolean',
+  language: 'string',
+  character_frequency_map: 'object',
+};
+
+const lookup = (key: string): PropertyDescriptor | undefined =>
+  TYPES[key] && {
+    key,
+    type: TYPES[key],
+    filterable: key !== 'character_frequency_map',
+  };
+
+const parse = (expression: string) => parseFilterExpression(expression, lookup);
+
+/** The message and column of the error an expression fails with */
+const failure = (expression: string) => {
+  try {
+    parse(expression);
+  } catch (err) {
+    if (err instanceof FilterExpressionError) return [err.message, err.column];
+    throw err;
+  }
+  throw new Error(`${expression} parsed`);
+};
+
+describe('parseFilterExpression', () => {
+  it('parses comparisons, character and tag predicates', () => {
+    expect(parse('length >= 5')).toEqual({
+      type: 'compare',
+      property: 'length',
+      operator: '>=',
+      value: 5,
+    });
+    expect(parse("freq('a') >= 3")).toEqual({
+      type: 'frequency',
+      character: 'a',
+      operator: '>=',
+      value: 3,
+    });
+    expect(parse("contains('é')")).toEqual({
+      type: 'contains',
+      character: 'é',
+    });
+    expect(parse("not_contains('z')")).toEqual({
+      type: 'not',
+      child: { type: 'contains', character: 'z' },
+    });
+    expect(parse('has_tag("imported")')).toEqual({
+      type: 'tag',
+      tag: 'imported',
+    });
+    expect(parse("metadata('line') < 10")).toEqual({
+      type: 'metadata',
+      key: 'line',
+      operator: '<',
+      value: 10,
+    });
+  });
+
+  it('reads booleans, strings and operator aliases', () => {
+    expect(parse('is_palindrome')).toEqual(parse('is_palindrome = true'));
+    expect(parse('is_palindrome == FALSE')).toMatchObject({
+      operator: '=',
+      value: false,
+    });
+    expect(parse("language <> 'en'")).toMatchObject({
+      operator: '!=',
+      value: 'en',
+    });
+    expect(parse("language = 'it\\'s'")).toMatchObject({ value: "it's" });
+    expect(parse('entropy > -1.5')).toMatchObject({ value: -1.5 });
+  });
+
+  it('binds NOT before AND before OR', () => {
+    expect(parse("is_palindrome OR length > 5 AND NOT contains('a')")).toEqual({
+      type: 'or',
+      children: [
+        {
+          type: 'compare',
+          property: 'is_palindrome',
+          operator: '=',
+          value: true,
+        },
+        {
+          type: 'and',
+          children: [
+            { type: 'compare', property: 'length', operator: '>', value: 5 },
+            { type: 'not', child: { type: 'contains', character: 'a' } },
+          ],
+        },
+      ],
+    });
+    expect(formatFilter(parse('NOT is_palindrome AND length = 1'))).toBe(
+      'NOT is_palindrome = true AND length = 1',
+    );
+    // the symbolic aliases have the same precedence
+    expect(parse('!is_palindrome || length > 5 && word_count = 1')).toEqual(
+      parse('NOT is_palindrome OR (length > 5 AND word_count = 1)'),
+    );
+  });
+
+  it('groups with parentheses and flattens nested groups', () => {
+    expect(
+      parse("(is_palindrome OR length > 5) AND contains('a')"),
+    ).toMatchObject({
+      type: 'and',
+      children: [{ type: 'or' }, { type: 'contains' }],
+    });
+    expect(parse('length > 1 AND (word_count = 1 AND entropy < 2)')).toEqual({
+      type: 'and',
+      children: [
+        { type: 'compare', property: 'length', operator: '>', value: 1 },
+        { type: 'compare', property: 'word_count', operator: '=', value: 1 },
+        { type: 'compare', property: 'entropy', operator: '<', value: 2 },
+      ],
+    });
+    expect(parse('NOT NOT ((is_palindrome))')).toEqual(parse('is_palindrome'));
+    expect(parse('not (length > 1 and length < 9)')).toMatchObject({
+      type: 'not',
+      child: { type: 'and' },
+    });
+  });
+
+  it.each([
+    ['', 'expected a filter expression', 1],
+    ['length > AND x', 'expected a value', 10],
+    ['length > 5 AND', "expected a property name but found 'end of input'", 15],
+    ['(length > 5', "expected ')' but found 'end of input'", 12],
+    ['length > 5)', "unexpected ')'", 11],
+    ['length ~ 5', "unexpected character '~'", 8],
+    ["contains('ab')", 'expected exactly one character', 10],
+    ["contains('a'", "expected ')' but found 'end of input'", 13],
+    ["freq('a') >= 'x'", "expected a number but found ''x''", 14],
+    ["language = 'en", 'unterminated string', 12],
+    ['colour = 1', "unknown property 'colour'", 1],
+    [
+      'is_palindrome AND length',
+      "expected a comparison operator after 'length'",
+      25,
+    ],
+    [
+      "character_frequency_map = 'a'",
+      "property 'character_frequency_map' cannot be filtered",
+      1,
+    ],
+    ["language > 'en'", "operator '>' needs a numeric property", 10],
+    ["length = 'five'", "expected a number value for 'length'", 10],
+    ['is_palindrome = 1', "expected a boolean value for 'is_palindrome'", 17],
+    ["metadata('line') > 'x'", "operator '>' needs a numeric value", 18],
+    ["has_tag('')", 'expected a quoted tag', 9],
+  ])('rejects %p: %s at column %d', (expression, message, column) => {
+    expect(failure(expression)).toEqual([message, column]);
+  });
+});
@@ -0,0 +1,361 @@
+import {
+  and,
+  compare,
+  ComparisonOperator,
+  contains,
+  FilterNode,
+  FilterValue,
+  frequency,
+  metadata,
+  not,
+  or,
+  simplify,
+  tag,
+} from './filter-ast';
+import { PropertyDescriptor } from '../analyzers/property-analyzer';
+import { isSingleGrapheme } from '../../analysis';
+
+/**
+ * Strict parser for the `q` filter language of GET /strings, e.g.
+ * `length > 5 AND NOT is_palindrome AND (contains('a') OR freq('e') >= 2)`
+ *
+ * Grammar (keywords are case-insensitive, `&&` `||` `!` are aliases):
+ *   expression := term ("OR" term)*
+ *   term       := factor ("AND" factor)*
+ *   factor     := "NOT" factor | "(" expression ")" | predicate
+ *   predicate  := "contains" "(" string ")" | "not_contains" "(" string ")"
+ *               | "has_tag" "(" string ")"
+ *               | operand operator literal | boolean property
+ *   operand    := property | "freq" "(" string ")" | "metadata" "(" string ")"
+ *   operator   := "=" | "!=" | "<" | "<=" | ">" | ">="
+ *   literal    := number | "true" | "false" | string
+ */
+
+export class FilterExpressionError extends Error {
+  constructor(
+    message: string,
+    /** 1-based column of the offending input */
+    readonly column: number,
+  ) {
+    super(message);
+  }
+}
+
+type TokenKind =
+  | 'identifier'
+  | 'number'
+  | 'string'
+  | 'operator'
+  | 'lparen'
+  | 'rparen'
+  | 'and'
+  | 'or'
+  | 'not'
+  | 'end';
+
+interface Token {
+  kind: TokenKind;
+  text: string;
+  value?: string | number;
+  column: number;
+}
+
+const OPERATORS = ['>=', '<=', '!=', '<>', '==', '=', '<', '>'];
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const char = input[i];
+    const column = i + 1;
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (char === '(' || char === ')') {
+      tokens.push({
+        kind: char === '(' ? 'lparen' : 'rparen',
+        text: char,
+        column,
+      });
+      i++;
+      continue;
+    }
+
+    if (input.startsWith('&&', i) || input.startsWith('||', i)) {
+      tokens.push({
+        kind: char === '&' ? 'and' : 'or',
+        text: input.slice(i, i + 2),
+        column,
+      });
+      i += 2;
+      continue;
+    }
+
+    const operator = OPERATORS.find((op) => input.startsWith(op, i));
+    if (operator) {
+      tokens.push({ kind: 'operator', text: operator, column });
+      i += operator.length;
+      continue;
+    }
+
+    if (char === '!') {
+      tokens.push({ kind: 'not', text: char, column });
+      i++;
+      continue;
+    }
+
+    if (char === "'" || char === '"') {
+      let value = '';
+      let j = i + 1;
+      for (; j < input.length && input[j] !== char; j++) {
+        if (input[j] === '\\' && j + 1 < input.length) j++;
+        value += input[j];
+      }
+      if (j >= input.length) {
+        throw new FilterExpressionError('unterminated string', column);
+      }
+      tokens.push({
+        kind: 'string',
+        text: input.slice(i, j + 1),
+        value,
+        column,
+      });
+      i = j + 1;
+      continue;
+    }
+
+    const number = /^-?\d+(?:\.\d+)?/.exec(input.slice(i));
+    if (number) {
+      tokens.push({
+        kind: 'number',
+        text: number[0],
+        value: Number(number[0]),
+        column,
+      });
+      i += number[0].length;
+      continue;
+    }
+
+    const word = /^[A-Za-z_][A-Za-z0-9_]*/.exec(input.slice(i));
+    if (word) {
+      const upper = word[0].toUpperCase();
+      const kind: TokenKind =
+        upper === 'AND'
+          ? 'and'
+          : upper === 'OR'
+            ? 'or'
+            : upper === 'NOT'
+              ? 'not'
+              : 'identifier';
+      tokens.push({ kind, text: word[0], column });
+      i += word[0].length;
+      continue;
+    }
+
+    throw new FilterExpressionError(`unexpected character '${char}'`, column);
+  }
+
+  tokens.push({ kind: 'end', text: 'end of input', column: input.length + 1 });
+  return tokens;
+}
+
+/**
+ * Parse a `q` expression into a filter tree, checking every property against
+ * the registered analyzers.
+ * - throws FilterExpressionError with the 1-based column of the first error
+ */
+export function parseFilterExpression(
+  input: string,
+  lookup: (key: string) => PropertyDescriptor | undefined,
+): FilterNode {
+  return new Parser(tokenize(input), lookup).parse();
+}
+
+class Parser {
+  private pos = 0;
+
+  constructor(
+    private readonly tokens: Token[],
+    private readonly lookup: (key: string) => PropertyDescriptor | undefined,
+  ) {}
+
+  parse(): FilterNode {
+    if (this.peek().kind === 'end') this.error('expected a filter expression');
+    const node = this.expression();
+    if (this.peek().kind !== 'end')
+      this.error(`unexpected '${this.peek().text}'`);
+    return simplify(node);
+  }
+
+  private expression(): FilterNode {
+    const children = [this.term()];
+    while (this.accept('or')) children.push(this.term());
+    return or(children);
+  }
+
+  private term(): FilterNode {
+    const children = [this.factor()];
+    while (this.accept('and')) children.push(this.factor());
+    return and(children);
+  }
+
+  private factor(): FilterNode {
+    if (this.accept('not')) return not(this.factor());
+    if (this.accept('lparen')) {
+      const node = this.expression();
+      this.expect('rparen', "')'");
+      return node;
+    }
+    return this.predicate();
+  }
+
+  private predicate(): FilterNode {
+    const token = this.expect('identifier', 'a property name');
+    const name = token.text.toLowerCase();
+
+    if (name === 'contains' || name === 'not_contains') {
+      const character = this.characterArgument();
+      return name === 'contains'
+        ? contains(character)
+        : not(contains(character));
+    }
+
+    if (name === 'freq') {
+      const character = this.characterArgument();
+      const operator = this.operator();
+      const value = this.expect('number', 'a number');
+      return frequency(character, operator, value.value as number);
+    }
+
+    if (name === 'has_tag') {
+      return tag(this.stringArgument('a quoted tag'));
+    }
+
+    if (name === 'metadata') {
+      const key = this.stringArgument('a quoted metadata key');
+      const operatorToken = this.peek();
+      const operator = this.operator();
+      const literal = this.literal();
+      if (
+        typeof literal.value !== 'number' &&
+        operator !== '=' &&
+        operator !== '!='
+      ) {
+        this.error(
+          `operator '${operatorToken.text}' needs a numeric value`,
+          operatorToken,
+        );
+      }
+      return metadata(key, operator, literal.value);
+    }
+
+    const descriptor = this.lookup(name);
+    if (!descriptor) this.error(`unknown property '${token.text}'`, token);
+    if (!descriptor.filterable) {
+      this.error(`property '${token.text}' cannot be filtered`, token);
+    }
+
+    // a bare boolean property means "= true"
+    if (this.peek().kind !== 'operator') {
+      if (descriptor.type !== 'boolean') {
+        this.error(`expected a comparison operator after '${token.text}'`);
+      }
+      return compare(descriptor.key, '=', true);
+    }
+
+    const operatorToken = this.peek();
+    const operator = this.operator();
+    const literal = this.literal();
+    const numeric =
+      descriptor.type === 'integer' || descriptor.type === 'number';
+
+    if (!numeric && operator !== '=' && operator !== '!=') {
+      this.error(
+        `operator '${operatorToken.text}' needs a numeric property`,
+        operatorToken,
+      );
+    }
+    const expected = numeric ? 'number' : descriptor.type;
+    if (typeof literal.value !== expected) {
+      this.error(
+        `expected a ${expected} value for '${token.text}'`,
+        literal.token,
+      );
+    }
+    return compare(descriptor.key, operator, literal.value);
+  }
+
+  private characterArgument(): string {
+    this.expect('lparen', "'('");
+    const token = this.expect('string', 'a quoted character');
+    const character = token.value as string;
+    if (!isSingleGrapheme(character)) {
+      this.error('expected exactly one character', token);
+    }
+    this.expect('rparen', "')'");
+    return character;
+  }
+
+  private stringArgument(description: string): string {
+    this.expect('lparen', "'('");
+    const token = this.expect('string', description);
+    if (token.value === '') this.error(`expected ${description}`, token);
+    this.expect('rparen', "')'");
+    return token.value as string;
+  }
+
+  private operator(): ComparisonOperator {
+    const token = this.expect('operator', 'a comparison operator');
+    switch (token.text) {
+      case '==':
+        return '=';
+      case '<>':
+        return '!=';
+      default:
+        return token.text as ComparisonOperator;
+    }
+  }
+
+  private literal(): { value: FilterValue; token: Token } {
+    const token = this.peek();
+    if (token.kind === 'number' || token.kind === 'string') {
+      this.pos++;
+      return { value: token.value!, token };
+    }
+    if (token.kind === 'identifier') {
+      const word = token.text.toLowerCase();
+      if (word === 'true' || word === 'false') {
+        this.pos++;
+        return { value: word === 'true', token };
+      }
+    }
+    return this.error('expected a value');
+  }
+
+  private peek(): Token {
+    return this.tokens[this.pos];
+  }
+
+  private accept(kind: TokenKind): boolean {
+    if (this.peek().kind !== kind) return false;
+    this.pos++;
+    return true;
+  }
+
+  private expect(kind: TokenKind, description: string): Token {
+    const token = this.peek();
+    if (token.kind !== kind) {
+      this.error(`expected ${description} but found '${token.text}'`);
+    }
+    this.pos++;
+    return token;
+  }
+
+  private error(message: string, token: Token = this.peek()): never {
+    throw new FilterExpressionError(message, token.column);
+  }
+}
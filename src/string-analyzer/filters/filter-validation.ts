@@ -0,0 +1,88 @@
+import { AnalyzerRegistry } from '../analyzers/analyzer-registry.service';
+import { PropertyDescriptor } from '../analyzers/property-analyzer';
+import { FilterNode, FilterValue } from './filter-ast';
+import { invalidQuery } from '../../common/errors';
+
+function matchesType(
+  value: FilterValue,
+  { type }: PropertyDescriptor,
+): boolean {
+  switch (type) {
+    case 'integer':
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'string':
+      return typeof value === 'string';
+    default:
+      return false;
+  }
+}
+
+const isEquality = (operator: string) => operator === '=' || operator === '!=';
+
+/**
+ * Check a filter tree before any storage backend runs it: only registered,
+ * filterable properties compared with values of their type, non-empty
+ * characters, tags and metadata keys, and ordering operators only on
+ * numbers.
+ * - throws INVALID_QUERY_PARAMETER (400) otherwise
+ */
+export function validateFilter(
+  node: FilterNode,
+  registry: AnalyzerRegistry,
+): void {
+  const invalid = () => invalidQuery();
+
+  switch (node.type) {
+    case 'and':
+    case 'or':
+      node.children.forEach((child) => validateFilter(child, registry));
+      return;
+    case 'not':
+      validateFilter(node.child, registry);
+      return;
+    case 'contains':
+      if (typeof node.character !== 'string' || node.character === '') {
+        throw invalid();
+      }
+      return;
+    case 'frequency':
+      if (
+        typeof node.character !== 'string' ||
+        node.character === '' ||
+        !Number.isFinite(node.value)
+      ) {
+        throw invalid();
+      }
+      return;
+    case 'tag':
+      if (typeof node.tag !== 'string' || node.tag === '') throw invalid();
+      return;
+    case 'metadata': {
+      const { key, operator, value } = node;
+      if (typeof key !== 'string' || key === '') throw invalid();
+      if (typeof value === 'number') {
+        if (!Number.isFinite(value)) throw invalid();
+      } else if (typeof value === 'boolean' || typeof value === 'string') {
+        if (!isEquality(operator)) throw invalid();
+      } else {
+        throw invalid();
+      }
+      return;
+    }
+    case 'compare': {
+      const descriptor = registry.get(node.property);
+      if (!descriptor?.filterable || !matchesType(node.value, descriptor)) {
+        throw invalid();
+      }
+      const numeric =
+        descriptor.type === 'integer' || descriptor.type === 'number';
+      if (!numeric && !isEquality(node.operator)) throw invalid();
+      return;
+    }
+    default:
+      throw invalid();
+  }
+}
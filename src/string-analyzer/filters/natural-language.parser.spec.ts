@@ -0,0 +1,82 @@
+import { formatFilter } from './filter-ast';
+import {
+  explainNaturalLanguage,
+  NaturalLanguageParseError,
+  parseNaturalLanguage,
+  suggestQueries,
+} from './natural-language.parser';
+
+describe('explainNaturalLanguage', () => {
+  it('reports the span of each filter', () => {
+    const query = 'All single word palindromic strings';
+    const { filter, spans, ignored } = explainNaturalLanguage(query);
+    expect(formatFilter(filter)).toBe(
+      'word_count = 1 AND is_palindrome = true',
+    );
+    expect(
+      spans.map((span) => [span.text, span.start, formatFilter(span.filter)]),
+    ).toEqual([
+      ['single word', 4, 'word_count = 1'],
+      ['palindromic', 16, 'is_palindrome = true'],
+    ]);
+    expect(ignored).toEqual([]);
+  });
+
+  it('reports ignored tokens, but not filler words', () => {
+    const query = 'show me strings longr then 5 characters, please';
+    const { spans, ignored } = explainNaturalLanguage(query);
+    expect(spans.map((span) => span.text)).toEqual(['5 characters']);
+    expect(ignored).toEqual([
+      { text: 'longr', start: 16, end: 21 },
+      { text: 'then', start: 22, end: 26 },
+    ]);
+  });
+
+  it('keeps one span for a negated list', () => {
+    const { spans } = explainNaturalLanguage(
+      'palindromes or strings not containing a or b',
+    );
+    expect(spans.map((span) => span.text)).toEqual([
+      'palindromes',
+      'not containing a or b',
+    ]);
+  });
+
+  it('carries the ignored tokens of unparseable queries', () => {
+    let error: unknown;
+    try {
+      parseNaturalLanguage('xyzzy plugh');
+    } catch (err) {
+      error = err;
+    }
+    expect(error).toBeInstanceOf(NaturalLanguageParseError);
+    expect((error as NaturalLanguageParseError).ignored).toEqual([
+      { text: 'xyzzy', start: 0, end: 5 },
+      { text: 'plugh', start: 6, end: 11 },
+    ]);
+  });
+});
+
+describe('suggestQueries', () => {
+  const suggest = (query: string) => {
+    try {
+      return suggestQueries(query, explainNaturalLanguage(query).ignored);
+    } catch (err) {
+      return suggestQueries(query, (err as NaturalLanguageParseError).ignored);
+    }
+  };
+
+  it('corrects near-miss words', () => {
+    expect(suggest('Strings longr then 5 characters')).toEqual([
+      'Strings longer than 5 characters',
+    ]);
+    expect(suggest('palindorme strings with thre words')).toEqual([
+      'palindrome strings with three words',
+    ]);
+  });
+
+  it('offers nothing without a better reading', () => {
+    expect(suggest('xyzzy')).toEqual([]);
+    expect(suggest('palindromes')).toEqual([]);
+  });
+});
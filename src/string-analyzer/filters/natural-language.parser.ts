@@ -0,0 +1,821 @@
+import {
+  and,
+  compare,
+  ComparisonOperator,
+  contains,
+  FilterNode,
+  not,
+  or,
+  simplify,
+} from './filter-ast';
+import { editDistance, isSingleGrapheme } from '../../analysis';
+
+/**
+ * Tokenizer and recursive-descent parser turning queries such as
+ * "palindromic strings with three words, not containing a or z" into a
+ * filter tree.
+ *
+ * Grammar (filler words such as "all", "strings", "that" are skipped):
+ *   query       := disjunction
+ *   disjunction := conjunction ("or" conjunction)*
+ *   conjunction := unary (("and" | ",")? unary)*
+ *   unary       := ("not" | "non" | "no" | "without" ...) unary | predicate
+ *   predicate   := palindrome | comparison | count | characters
+ *
+ * Tokens that fit no rule are skipped and reported as ignored, next to the
+ * spans of the query each filter was read from.
+ */
+
+/** A piece of the query, offsets in UTF-16 code units */
+export interface QueryToken {
+  text: string;
+  start: number;
+  end: number;
+}
+
+/** A part of the query read as one filter */
+export interface QuerySpan extends QueryToken {
+  filter: FilterNode;
+}
+
+export interface NaturalLanguageParse {
+  filter: FilterNode;
+  /** the top-level filters, in query order */
+  spans: QuerySpan[];
+  /** tokens that were not understood and left out of the filter */
+  ignored: QueryToken[];
+}
+
+export class NaturalLanguageParseError extends Error {
+  constructor(
+    message: string,
+    /** tokens skipped before the query was given up on */
+    readonly ignored: QueryToken[] = [],
+  ) {
+    super(message);
+  }
+}
+
+type TokenKind = 'word' | 'number' | 'char' | 'symbol' | 'comma';
+
+export interface Token extends QueryToken {
+  kind: TokenKind;
+}
+
+const TOKEN_PATTERN =
+  /(?<quoted>'[^'\s]{1,16}'|"[^"\s]{1,16}")|(?<ordinal>\d+(?:st|nd|rd|th)\b)|(?<number>\d+)|(?<symbol>>=|<=|!=|[<>=])|(?<comma>[,;])|(?<word>[\p{L}\p{M}]+(?:'[\p{L}]+)?)/gu;
+
+export function tokenize(query: string): Token[] {
+  const tokens: Token[] = [];
+  for (const match of query.matchAll(TOKEN_PATTERN)) {
+    const groups = match.groups!;
+    const start = match.index;
+    const end = start + match[0].length;
+    if (groups.quoted) {
+      tokens.push({
+        kind: 'char',
+        text: groups.quoted.slice(1, -1),
+        start,
+        end,
+      });
+    } else if (groups.ordinal) {
+      tokens.push({
+        kind: 'word',
+        text: groups.ordinal.toLowerCase(),
+        start,
+        end,
+      });
+    } else if (groups.number) {
+      tokens.push({ kind: 'number', text: groups.number, start, end });
+    } else if (groups.symbol) {
+      tokens.push({ kind: 'symbol', text: groups.symbol, start, end });
+    } else if (groups.comma) {
+      tokens.push({ kind: 'comma', text: groups.comma, start, end });
+    } else {
+      const word = groups.word.toLowerCase();
+      // contractions such as "don't" / "isn't" negate what follows
+      tokens.push({
+        kind: 'word',
+        text: word.endsWith("n't") ? 'not' : word,
+        start,
+        end,
+      });
+    }
+  }
+  return tokens;
+}
+
+const FILLER = new Set([
+  'a',
+  'all',
+  'an',
+  'any',
+  'are',
+  'be',
+  'do',
+  'does',
+  'entries',
+  'find',
+  'get',
+  'give',
+  'is',
+  'list',
+  'me',
+  'only',
+  'please',
+  'records',
+  'return',
+  'show',
+  'string',
+  'strings',
+  'text',
+  'texts',
+  'that',
+  'the',
+  'them',
+  'those',
+  'values',
+  'which',
+  'who',
+]);
+
+const NEGATIONS = new Set(['not', 'non', 'no', 'never']);
+
+const EXCLUSIONS = new Set(['without', 'excluding', 'lacking', 'except']);
+
+const CONTAINS = new Set([
+  'contain',
+  'containing',
+  'contains',
+  'include',
+  'includes',
+  'including',
+  'with',
+  'having',
+  'has',
+  'have',
+]);
+
+const CHARACTER_NOUNS = new Set([
+  'letter',
+  'letters',
+  'character',
+  'characters',
+  'char',
+  'chars',
+]);
+
+const UNITS: Record<string, string> = {
+  character: 'length',
+  characters: 'length',
+  char: 'length',
+  chars: 'length',
+  letter: 'length',
+  letters: 'length',
+  long: 'length',
+  word: 'word_count',
+  words: 'word_count',
+};
+
+const UNIQUE = new Set(['unique', 'distinct', 'different']);
+
+const NUMBER_WORDS: Record<string, number> = {
+  zero: 0,
+  one: 1,
+  single: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+  ten: 10,
+  eleven: 11,
+  twelve: 12,
+  thirteen: 13,
+  fourteen: 14,
+  fifteen: 15,
+  sixteen: 16,
+  seventeen: 17,
+  eighteen: 18,
+  nineteen: 19,
+  twenty: 20,
+  thirty: 30,
+  forty: 40,
+  fifty: 50,
+  sixty: 60,
+  seventy: 70,
+  eighty: 80,
+  ninety: 90,
+};
+
+const ORDINALS: Record<string, number> = {
+  first: 1,
+  second: 2,
+  third: 3,
+  fourth: 4,
+  fifth: 5,
+  sixth: 6,
+  seventh: 7,
+  eighth: 8,
+  ninth: 9,
+  tenth: 10,
+  eleventh: 11,
+  twelfth: 12,
+  thirteenth: 13,
+  fourteenth: 14,
+  fifteenth: 15,
+  sixteenth: 16,
+  seventeenth: 17,
+  eighteenth: 18,
+  nineteenth: 19,
+  twentieth: 20,
+};
+
+const VOWELS = 'aeiou';
+const CONSONANTS = 'bcdfghjklmnpqrstvwxyz';
+
+/** Comparator phrases, longest first so "no more than" wins over "no" */
+const COMPARATORS: [string[], ComparisonOperator, string?][] = [
+  [['no', 'more', 'than'], '<='],
+  [['no', 'fewer', 'than'], '>='],
+  [['no', 'less', 'than'], '>='],
+  [['longer', 'than'], '>', 'length'],
+  [['shorter', 'than'], '<', 'length'],
+  [['more', 'than'], '>'],
+  [['greater', 'than'], '>'],
+  [['fewer', 'than'], '<'],
+  [['less', 'than'], '<'],
+  [['at', 'least'], '>='],
+  [['at', 'most'], '<='],
+  [['up', 'to'], '<='],
+  [['equal', 'to'], '='],
+  [['over'], '>'],
+  [['above'], '>'],
+  [['under'], '<'],
+  [['below'], '<'],
+  [['exactly'], '='],
+  [['>'], '>'],
+  [['<'], '<'],
+  [['>='], '>='],
+  [['<='], '<='],
+  [['='], '='],
+  [['!='], '!='],
+];
+
+/** Property phrases that can precede a comparator: "length over 5" */
+const PROPERTY_PHRASES: [string[], string][] = [
+  [['number', 'of', 'unique', 'characters'], 'unique_characters'],
+  [['number', 'of', 'words'], 'word_count'],
+  [['number', 'of', 'characters'], 'length'],
+  [['unique', 'characters'], 'unique_characters'],
+  [['word', 'count'], 'word_count'],
+  [['length'], 'length'],
+];
+
+/** Words of the grammar, the candidates of suggestions */
+const VOCABULARY = [
+  ...new Set([
+    'palindrome',
+    'palindromes',
+    'palindromic',
+    'multi',
+    'multiple',
+    'between',
+    'from',
+    'and',
+    'or',
+    'last',
+    'vowel',
+    'consonant',
+    'hundred',
+    'thousand',
+    ...NEGATIONS,
+    ...EXCLUSIONS,
+    ...CONTAINS,
+    ...CHARACTER_NOUNS,
+    ...Object.keys(UNITS),
+    ...UNIQUE,
+    ...Object.keys(NUMBER_WORDS),
+    ...Object.keys(ORDINALS),
+    ...COMPARATORS.flatMap(([words]) => words),
+    ...PROPERTY_PHRASES.flatMap(([words]) => words),
+  ]),
+].filter((word) => /^\p{L}{2,}$/u.test(word));
+
+/** Upper bound on the "did you mean" queries offered for one query */
+const MAX_SUGGESTIONS = 3;
+
+/**
+ * Parse a natural language query into a normalized filter tree.
+ * - throws NaturalLanguageParseError when no filter could be recognised
+ *   or the query is malformed (e.g. a dangling "or")
+ */
+export function parseNaturalLanguage(query: string): FilterNode {
+  return explainNaturalLanguage(query).filter;
+}
+
+/**
+ * Parse a natural language query, reporting which spans became which
+ * filter and which tokens were ignored.
+ * - throws NaturalLanguageParseError as parseNaturalLanguage
+ */
+export function explainNaturalLanguage(query: string): NaturalLanguageParse {
+  return new Parser(query, tokenize(query)).parse();
+}
+
+/**
+ * "Did you mean" rewrites of a query: ignored words replaced by the
+ * closest words of the grammar. Only rewrites that leave fewer tokens
+ * ignored are offered, best first.
+ */
+export function suggestQueries(query: string, ignored: QueryToken[]): string[] {
+  const replacements = ignored
+    .filter((token) => /^\p{L}{3,}$/u.test(token.text))
+    .map((token) => ({ token, words: closestWords(token.text) }))
+    .filter(({ words }) => words.length)
+    .reverse(); // replaced from the end, so offsets stay valid
+
+  const suggestions = new Set<string>();
+  for (let i = 0; i < MAX_SUGGESTIONS && replacements.length; i++) {
+    let text = query;
+    for (const { token, words } of replacements) {
+      const word = words[Math.min(i, words.length - 1)];
+      text = text.slice(0, token.start) + word + text.slice(token.end);
+    }
+    if (text !== query && ignoredCount(text) < ignored.length) {
+      suggestions.add(text);
+    }
+  }
+  return [...suggestions];
+}
+
+/**
+ * Words of the grammar within a typo or two of `word`, closest first;
+ * none for words of the grammar
+ */
+function closestWords(word: string): string[] {
+  const lower = word.toLowerCase();
+  if (VOCABULARY.includes(lower)) return [];
+  const max = lower.length <= 4 ? 1 : 2;
+  return VOCABULARY.map((candidate) => ({
+    candidate,
+    distance: editDistance(lower, candidate, max),
+  }))
+    .filter(({ distance }) => distance <= max)
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, MAX_SUGGESTIONS)
+    .map(({ candidate }) => candidate);
+}
+
+/** Tokens a query leaves ignored, Infinity if it does not parse */
+function ignoredCount(query: string): number {
+  try {
+    return explainNaturalLanguage(query).ignored.length;
+  } catch (err) {
+    if (err instanceof NaturalLanguageParseError) return Infinity;
+    throw err;
+  }
+}
+
+class Parser {
+  private pos = 0;
+  private readonly spans: QuerySpan[] = [];
+  private readonly ignored: QueryToken[] = [];
+
+  constructor(
+    private readonly query: string,
+    private readonly tokens: Token[],
+  ) {}
+
+  parse(): NaturalLanguageParse {
+    const node = this.disjunction();
+    if (!node || this.pos < this.tokens.length) this.fail();
+    return {
+      filter: simplify(node),
+      spans: this.spans,
+      ignored: this.ignored,
+    };
+  }
+
+  // ---- grammar rules ----
+
+  private disjunction(): FilterNode | null {
+    const children: FilterNode[] = [];
+    for (;;) {
+      const node = this.conjunction();
+      if (!node) {
+        // "or" with nothing on one side
+        if (children.length) this.fail();
+        return null;
+      }
+      children.push(node);
+      if (!this.acceptWord('or')) return or(children);
+    }
+  }
+
+  private conjunction(): FilterNode | null {
+    const children: FilterNode[] = [];
+    while (this.pos < this.tokens.length) {
+      this.skipFiller();
+      if (this.peekWord('or')) break;
+      if (this.acceptWord('and') || this.accept('comma')) continue;
+      const start = this.pos;
+      const node = this.unary();
+      if (node) {
+        children.push(node);
+        this.spans.push({
+          ...this.slice(start, this.pos),
+          filter: simplify(node),
+        });
+      } else if (this.pos < this.tokens.length && !this.peekWord('or')) {
+        // unknown word, skip it
+        this.ignored.push(this.slice(this.pos, ++this.pos));
+      }
+    }
+    return children.length ? and(children) : null;
+  }
+
+  private unary(): FilterNode | null {
+    const predicate = this.predicate();
+    if (predicate) return predicate;
+
+    const token = this.peek();
+    if (token?.kind !== 'word') return null;
+
+    if (NEGATIONS.has(token.text)) {
+      this.pos++;
+      this.skipFiller();
+      // "not containing a or b" excludes every listed character
+      const excluded = this.characters(true);
+      if (excluded) return excluded;
+      const operand = this.unary();
+      if (!operand) this.fail();
+      return not(operand);
+    }
+    if (EXCLUSIONS.has(token.text)) {
+      this.pos++;
+      const excluded = this.characters(true, true);
+      if (!excluded) this.fail();
+      return excluded;
+    }
+    return null;
+  }
+
+  private predicate(): FilterNode | null {
+    this.skipFiller();
+    return (
+      this.palindrome() ??
+      this.multiWord() ??
+      this.range() ??
+      this.comparison() ??
+      this.propertyComparison() ??
+      this.count() ??
+      this.characters(false) ??
+      this.ordinalCharacter()
+    );
+  }
+
+  /** "palindrome", "palindromes", "palindromic" */
+  private palindrome(): FilterNode | null {
+    const token = this.peek();
+    if (token?.kind === 'word' && token.text.startsWith('palindrom')) {
+      this.pos++;
+      return compare('is_palindrome', '=', true);
+    }
+    return null;
+  }
+
+  /** "multi word", "multiple words" */
+  private multiWord(): FilterNode | null {
+    return this.attempt(() => {
+      if (!this.acceptWord('multi') && !this.acceptWord('multiple')) {
+        return null;
+      }
+      if (!this.acceptWord('word') && !this.acceptWord('words')) return null;
+      return compare('word_count', '>', 1);
+    });
+  }
+
+  /** "between 5 and 10 characters", "from 2 to 4 words" */
+  private range(): FilterNode | null {
+    return this.attempt(() => {
+      const between = this.acceptWord('between');
+      if (!between && !this.acceptWord('from')) return null;
+      const low = this.number();
+      if (low === null) return null;
+      this.unit(); // "between 5 characters and 10 characters"
+      if (!this.acceptWord(between ? 'and' : 'to')) return null;
+      const high = this.number();
+      if (high === null) this.fail();
+      const property = this.unit() ?? 'length';
+      return and([compare(property, '>=', low), compare(property, '<=', high)]);
+    });
+  }
+
+  /** "longer than 5", "at least three words", "exactly 12 characters" */
+  private comparison(): FilterNode | null {
+    return this.attempt(() => {
+      const comparator = this.comparator();
+      if (!comparator) return null;
+      const value = this.number();
+      if (value === null) return null;
+      const property = this.unit() ?? comparator.property ?? 'length';
+      return compare(property, comparator.operator, value);
+    });
+  }
+
+  /** "length over 5", "word count of 3", "number of words at least 2" */
+  private propertyComparison(): FilterNode | null {
+    return this.attempt(() => {
+      const property = this.phrase(PROPERTY_PHRASES);
+      if (!property) return null;
+      this.acceptWord('is');
+      const comparator = this.comparator();
+      if (!comparator) this.acceptWord('of');
+      const value = this.number();
+      if (value === null) return null;
+      return compare(property, comparator?.operator ?? '=', value);
+    });
+  }
+
+  /** "three words", "a single word", "10 characters long", "4 unique characters" */
+  private count(): FilterNode | null {
+    return this.attempt(() => {
+      const value = this.number();
+      if (value === null) return null;
+      const property = this.unit();
+      if (!property) return null;
+      this.acceptWord('long');
+      return compare(property, '=', value);
+    });
+  }
+
+  /**
+   * A list of characters: "containing a and b", "with the letters x or y",
+   * "containing the first vowel". Negated lists exclude every character.
+   */
+  private characters(negated: boolean, keywordSeen = false): FilterNode | null {
+    return this.attempt(() => {
+      if (!keywordSeen) {
+        const token = this.peek();
+        if (token?.kind !== 'word' || !CONTAINS.has(token.text)) return null;
+        this.pos++;
+      }
+      const chars: string[] = [];
+      let disjunctive = false;
+
+      const first = this.character();
+      if (first === null) return null;
+      chars.push(first);
+
+      for (;;) {
+        const save = this.pos;
+        const separator = this.accept('comma')
+          ? ','
+          : this.acceptWord('and')
+            ? 'and'
+            : this.acceptWord('or')
+              ? 'or'
+              : null;
+        if (!separator) break;
+        // "a, b or c"
+        if (separator === ',') {
+          if (this.acceptWord('or')) disjunctive = true;
+          else this.acceptWord('and');
+        }
+        const next = this.character();
+        if (next === null) {
+          this.pos = save;
+          break;
+        }
+        if (separator === 'or') disjunctive = true;
+        chars.push(next);
+      }
+
+      if (negated) return and(chars.map((c) => not(contains(c))));
+      const nodes = chars.map((c) => contains(c));
+      return disjunctive ? or(nodes) : and(nodes);
+    });
+  }
+
+  /** A standalone "first vowel" acts as "containing the first vowel" */
+  private ordinalCharacter(): FilterNode | null {
+    return this.attempt(() => {
+      const char = this.ordinalLetter();
+      return char === null ? null : contains(char);
+    });
+  }
+
+  // ---- terminals ----
+
+  /** One character: 'x', "the letter z", "b", "the second vowel" */
+  private character(): string | null {
+    return this.attempt(() => {
+      this.acceptWord('the');
+      if (
+        this.peek()?.kind === 'word' &&
+        CHARACTER_NOUNS.has(this.peek()!.text)
+      ) {
+        this.pos++;
+      }
+      const token = this.peek();
+      if (token?.kind === 'char') {
+        if (!isSingleGrapheme(token.text)) this.fail();
+        this.pos++;
+        return token.text.toLowerCase();
+      }
+      if (token?.kind === 'word' && [...token.text].length === 1) {
+        this.pos++;
+        return token.text;
+      }
+      if (
+        token?.kind === 'number' &&
+        token.text.length === 1 &&
+        !this.isUnit(this.tokens[this.pos + 1])
+      ) {
+        this.pos++;
+        return token.text;
+      }
+      return this.ordinalLetter();
+    });
+  }
+
+  /** "first vowel" -> 'a', "3rd consonant" -> 'd', "last vowel" -> 'u' */
+  private ordinalLetter(): string | null {
+    return this.attempt(() => {
+      this.acceptWord('the');
+      const token = this.peek();
+      if (token?.kind !== 'word') return null;
+      const suffixed = /^(\d+)(?:st|nd|rd|th)$/.exec(token.text);
+      let ordinal: number | 'last' | undefined =
+        token.text === 'last'
+          ? 'last'
+          : suffixed
+            ? Number(suffixed[1])
+            : ORDINALS[token.text];
+      if (ordinal === undefined) return null;
+      this.pos++;
+
+      const kind = this.peek();
+      const letters =
+        kind?.text === 'vowel'
+          ? VOWELS
+          : kind?.text === 'consonant'
+            ? CONSONANTS
+            : null;
+      if (!letters) return null;
+      this.pos++;
+
+      if (ordinal === 'last') ordinal = letters.length;
+      if (ordinal < 1 || ordinal > letters.length) this.fail();
+      return letters[ordinal - 1];
+    });
+  }
+
+  /** Digits or number words: "12", "twelve", "twenty one", "one hundred and five" */
+  private number(): number | null {
+    const token = this.peek();
+    if (token?.kind === 'number') {
+      this.pos++;
+      return Number(token.text);
+    }
+
+    let total = 0;
+    let current = 0;
+    let previous: string | null = null;
+    while (this.pos < this.tokens.length) {
+      const word = this.peek()!;
+      if (word.kind !== 'word') break;
+      if (word.text in NUMBER_WORDS) {
+        current += NUMBER_WORDS[word.text];
+      } else if (word.text === 'hundred' && previous) {
+        current *= 100;
+      } else if (word.text === 'thousand' && previous) {
+        total += current * 1000;
+        current = 0;
+      } else if (
+        // "one hundred and five", but not "between one and five"
+        word.text === 'and' &&
+        (previous === 'hundred' || previous === 'thousand') &&
+        (this.tokens[this.pos + 1]?.text ?? '') in NUMBER_WORDS
+      ) {
+        // part of the number
+      } else {
+        break;
+      }
+      previous = word.text;
+      this.pos++;
+    }
+    return previous ? total + current : null;
+  }
+
+  /** [unique] character(s) | word(s) | long -> property key */
+  private unit(): string | null {
+    return this.attempt(() => {
+      const unique = UNIQUE.has(this.peek()?.text ?? '');
+      if (unique) this.pos++;
+      const token = this.peek();
+      if (!this.isUnit(token)) return null;
+      this.pos++;
+      const property = UNITS[token!.text];
+      if (unique) {
+        return property === 'length' ? 'unique_characters' : null;
+      }
+      return property;
+    });
+  }
+
+  private comparator(): {
+    operator: ComparisonOperator;
+    property?: string;
+  } | null {
+    for (const [words, operator, property] of COMPARATORS) {
+      if (this.matches(words)) {
+        this.pos += words.length;
+        return { operator, property };
+      }
+    }
+    return null;
+  }
+
+  private phrase(phrases: [string[], string][]): string | null {
+    for (const [words, value] of phrases) {
+      if (this.matches(words)) {
+        this.pos += words.length;
+        return value;
+      }
+    }
+    return null;
+  }
+
+  // ---- helpers ----
+
+  /** The query text of tokens [from, to) */
+  private slice(from: number, to: number): QueryToken {
+    const start = this.tokens[from].start;
+    const end = this.tokens[to - 1].end;
+    return { text: this.query.slice(start, end), start, end };
+  }
+
+  private isUnit(token: Token | undefined): boolean {
+    return token?.kind === 'word' && token.text in UNITS;
+  }
+
+  private matches(words: string[]): boolean {
+    return words.every((w, i) => this.tokens[this.pos + i]?.text === w);
+  }
+
+  private skipFiller() {
+    while (
+      this.peek()?.kind === 'word' &&
+      FILLER.has(this.peek()!.text) &&
+      // a lone "a" right before a list separator is a character, not an article
+      !(this.peek()!.text === 'a' && this.isCharacterPosition())
+    ) {
+      this.pos++;
+    }
+  }
+
+  private isCharacterPosition(): boolean {
+    const previous = this.tokens[this.pos - 1];
+    return previous?.kind === 'word' && CONTAINS.has(previous.text);
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.pos];
+  }
+
+  private peekWord(text: string): boolean {
+    return this.peek()?.kind === 'word' && this.peek()!.text === text;
+  }
+
+  private acceptWord(text: string): boolean {
+    if (!this.peekWord(text)) return false;
+    this.pos++;
+    return true;
+  }
+
+  private accept(kind: TokenKind): boolean {
+    if (this.peek()?.kind !== kind) return false;
+    this.pos++;
+    return true;
+  }
+
+  /** Run a rule, rewinding the position when it does not match */
+  private attempt<T>(rule: () => T | null): T | null {
+    const save = this.pos;
+    const result = rule();
+    if (result === null) this.pos = save;
+    return result;
+  }
+
+  private fail(): never {
+    throw new NaturalLanguageParseError(
+      'Unable to parse natural language query',
+      this.ignored,
+    );
+  }
+}
@@ -0,0 +1,73 @@
+import { invalidBody } from '../common/errors';
+
+/** Most tags a record can carry */
+export const MAX_TAGS = 50;
+/** Longest tag, in characters */
+export const MAX_TAG_LENGTH = 64;
+/** Largest metadata object, in characters of its JSON */
+export const MAX_METADATA_SIZE = 16 * 1024;
+
+/**
+ * User-supplied labels of a record: tags and a free-form metadata object.
+ * Neither takes part in the analysis.
+ */
+export interface Labels {
+  tags: string[];
+  metadata: Record<string, unknown>;
+}
+
+export const EMPTY_LABELS: Labels = { tags: [], metadata: {} };
+
+/**
+ * Validate tags: non-empty strings, trimmed and deduplicated in input order.
+ * - 400 if not an array of strings or over the limits
+ */
+export function parseTags(raw: unknown): string[] {
+  if (!Array.isArray(raw) || raw.some((tag) => typeof tag !== 'string')) {
+    throw invalidBody('tags', '"tags" must be an array of strings');
+  }
+  const tags = [...new Set((raw as string[]).map((tag) => tag.trim()))];
+  if (tags.some((tag) => tag === '' || tag.length > MAX_TAG_LENGTH)) {
+    throw invalidBody(
+      'tags',
+      `Tags must be 1-${MAX_TAG_LENGTH} characters long`,
+    );
+  }
+  if (tags.length > MAX_TAGS) {
+    throw invalidBody('tags', `Too many tags (max ${MAX_TAGS})`);
+  }
+  return tags;
+}
+
+/**
+ * Validate metadata: a plain JSON object of limited size.
+ * - 400 otherwise
+ */
+export function parseMetadata(raw: unknown): Record<string, unknown> {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    throw invalidBody('metadata', '"metadata" must be an object');
+  }
+  if (JSON.stringify(raw).length > MAX_METADATA_SIZE) {
+    throw invalidBody(
+      'metadata',
+      `Metadata too large (max ${MAX_METADATA_SIZE} characters of JSON)`,
+    );
+  }
+  return raw as Record<string, unknown>;
+}
+
+/**
+ * Labels of a request body; missing fields are left out so callers can
+ * tell "not given" from "empty"
+ */
+export function parseLabels(body: {
+  tags?: unknown;
+  metadata?: unknown;
+}): Partial<Labels> {
+  return {
+    ...(typeof body.tags === 'undefined' ? {} : { tags: parseTags(body.tags) }),
+    ...(typeof body.metadata === 'undefined'
+      ? {}
+      : { metadata: parseMetadata(body.metadata) }),
+  };
+}
@@ -0,0 +1,111 @@
+import { Injectable, Logger, Optional } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import {
+  NaturalLanguageFailure,
+  QueryOutcome,
+} from './entities/natural-language-failure.entity';
+import { QueryToken } from './filters/natural-language.parser';
+import { ApiException, unexpected } from '../common/errors';
+import { postgresOnly } from '../database/postgres';
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/** Spelling of a query that repeats of it share */
+export function queryKey(query: string): string {
+  return query.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * Natural language queries that failed or had words ignored, one row per
+ * query counting its occurrences, to review when extending the grammar
+ */
+@Injectable()
+export class NaturalLanguageLogService {
+  private readonly logger = new Logger(NaturalLanguageLogService.name);
+
+  constructor(
+    @Optional()
+    @InjectRepository(NaturalLanguageFailure)
+    private readonly failuresRepository:
+      | Repository<NaturalLanguageFailure>
+      | undefined,
+  ) {}
+
+  private get failures(): Repository<NaturalLanguageFailure> {
+    return postgresOnly(this.failuresRepository);
+  }
+
+  /**
+   * Count an occurrence of a query. Best effort: errors are logged, the
+   * request that asked the query is answered either way.
+   */
+  async record(
+    query: string,
+    outcome: QueryOutcome,
+    ignored: QueryToken[],
+    suggestions: string[],
+  ): Promise<void> {
+    if (!this.failuresRepository) return;
+    try {
+      await this.failures.query(
+        `INSERT INTO "natural_language_failures"
+           ("query", "outcome", "ignored", "suggestions", "last_seen_at")
+         VALUES ($1, $2, $3, $4, now())
+         ON CONFLICT ("query") DO UPDATE
+           SET "outcome" = EXCLUDED."outcome",
+               "ignored" = EXCLUDED."ignored",
+               "suggestions" = EXCLUDED."suggestions",
+               "occurrences" = "natural_language_failures"."occurrences" + 1,
+               "last_seen_at" = EXCLUDED."last_seen_at"`,
+        [
+          queryKey(query),
+          outcome,
+          ignored.map((token) => token.text),
+          suggestions.map(queryKey),
+        ],
+      );
+    } catch (err) {
+      this.logger.error('Error in record', err);
+    }
+  }
+
+  /** Logged queries, most frequent first */
+  async list(
+    outcome: QueryOutcome | undefined,
+    limit: number,
+  ): Promise<NaturalLanguageFailure[]> {
+    try {
+      return await this.failures.find({
+        where: outcome ? { outcome } : {},
+        order: { occurrences: 'DESC', last_seen_at: 'DESC', id: 'ASC' },
+        take: limit,
+      });
+    } catch (err) {
+      this.logger.error('Error in list', err);
+      throw unexpected(err);
+    }
+  }
+
+  /**
+   * Forget a logged query, e.g. once the grammar understands it
+   * - 404 if not found
+   */
+  async remove(id: string): Promise<void> {
+    let affected: number | null | undefined = 0;
+    try {
+      if (UUID.test(id)) {
+        ({ affected } = await this.failures.delete({ id }));
+      }
+    } catch (err) {
+      this.logger.error('Error in remove', err);
+      throw unexpected(err);
+    }
+    if (!affected) {
+      throw new ApiException(
+        'QUERY_FAILURE_NOT_FOUND',
+        'Logged query does not exist',
+      );
+    }
+  }
+}
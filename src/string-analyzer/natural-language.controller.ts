@@ -0,0 +1,73 @@
+import {
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  Param,
+  Query,
+} from '@nestjs/common';
+import {
+  ApiNoContentResponse,
+  ApiOkResponse,
+  ApiOperation,
+  ApiTags,
+} from '@nestjs/swagger';
+import { NaturalLanguageLogService } from './natural-language-log.service';
+import { RequireScope } from '../auth/auth.decorators';
+import { ApiProblems } from '../common/api-docs';
+import {
+  DEFAULT_FAILURE_LIMIT,
+  QueryFailuresQueryDto,
+} from './dto/string-queries.dto';
+import { QueryFailureListDto } from './dto/string-responses.dto';
+import { PostgresOnly } from '../database/postgres';
+
+/**
+ * Review of the natural language queries that failed or were only partly
+ * understood, to find phrasings the grammar should learn
+ */
+@ApiTags('natural-language')
+@Controller('admin/natural-language/failures')
+@PostgresOnly()
+@RequireScope('admin')
+export class NaturalLanguageController {
+  constructor(private readonly log: NaturalLanguageLogService) {}
+
+  /**
+   * GET /admin/natural-language/failures
+   * - outcome: unparseable | conflicting | partial, all when omitted
+   * - limit: 1-500, default 50; most frequent first
+   * - 400 on invalid params
+   */
+  @Get()
+  @ApiOperation({
+    operationId: 'listQueryFailures',
+    summary: 'List failed or partly understood queries, most frequent first',
+  })
+  @ApiOkResponse({ type: QueryFailureListDto })
+  @ApiProblems('INVALID_QUERY_PARAMETER')
+  async list(@Query() query: QueryFailuresQueryDto) {
+    const data = await this.log.list(
+      query.outcome,
+      query.limit ?? DEFAULT_FAILURE_LIMIT,
+    );
+    return { data, count: data.length };
+  }
+
+  /**
+   * DELETE /admin/natural-language/failures/:id
+   * - 204 once forgotten, e.g. after the grammar learned the query
+   * - 404 if not found
+   */
+  @Delete(':id')
+  @HttpCode(204)
+  @ApiOperation({
+    operationId: 'deleteQueryFailure',
+    summary: 'Remove a query from the failure log',
+  })
+  @ApiNoContentResponse()
+  @ApiProblems('QUERY_FAILURE_NOT_FOUND')
+  async remove(@Param('id') id: string) {
+    await this.log.remove(id);
+  }
+}
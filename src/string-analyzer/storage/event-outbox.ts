@@ -0,0 +1,28 @@
+import { EntityManager } from 'typeorm';
+import { OutboxEvent } from '../entities/outbox-event.entity';
+import { StringEvent } from '../string-events.service';
+
+/** Outbox rows written per INSERT statement */
+const INSERT_CHUNK_SIZE = 500;
+
+/**
+ * Write events to the outbox through the manager of the transaction that
+ * made the change, so they are stored if and only if it commits. The
+ * webhook dispatcher drains the outbox.
+ */
+export async function recordEvents(
+  manager: EntityManager,
+  events: StringEvent[],
+): Promise<void> {
+  for (let i = 0; i < events.length; i += INSERT_CHUNK_SIZE) {
+    await manager.insert(
+      OutboxEvent,
+      events.slice(i, i + INSERT_CHUNK_SIZE).map((event) => ({
+        id: event.id,
+        type: event.type,
+        // jsonb columns are typed wider than insert() accepts
+        payload: event as object,
+      })),
+    );
+  }
+}
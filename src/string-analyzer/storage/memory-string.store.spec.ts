@@ -0,0 +1,6 @@
+import { describeStringStore } from './string-store.contract';
+import { MemoryStringStore } from './memory-string.store';
+
+describeStringStore('MemoryStringStore', {
+  create: (registry) => Promise.resolve(new MemoryStringStore(registry)),
+});
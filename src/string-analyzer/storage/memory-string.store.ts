@@ -0,0 +1,329 @@
+import {
+  signatureOf,
+  StringAnalyzer,
+  toRecord,
+} from '../entities/string-analyzer.entity';
+import { AnalyzerRegistry } from '../analyzers/analyzer-registry.service';
+import { FilterNode } from '../filters/filter-ast';
+import { matchesFilter } from '../filters/filter-evaluator';
+import { validateFilter } from '../filters/filter-validation';
+import { Labels } from '../labels';
+import { CollectionSummary } from '../collections';
+import { Paginated, PaginationOptions } from '../../common/pagination';
+import {
+  copyInto,
+  DeletedScope,
+  DuplicateRecordError,
+  NewRecord,
+  RecordKey,
+  settle,
+  StringStore,
+} from './string-store';
+import { sortKey, toPage, walkOrder } from './record-paging';
+
+type SortTuple = [string | number | null, number, string];
+
+/** Compare (sort value, created_at, id) tuples in ascending order */
+function compareTuples(a: SortTuple, b: SortTuple): number {
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] === b[i]) continue;
+    return (a[i] as string | number) < (b[i] as string | number) ? -1 : 1;
+  }
+  return 0;
+}
+
+/** Map key of a record: ids are unique per collection, names have no `/` */
+const keyOf = (collection: string, id: string) => `${collection}/${id}`;
+
+/** A deep copy of a JSON value, as a jsonb column would hold it */
+const clone = <T>(value: T) => JSON.parse(JSON.stringify(value)) as T;
+
+/** A copy of a stored record, so callers cannot change the store */
+function copy(record: StringAnalyzer): StringAnalyzer {
+  return toRecord({
+    ...record,
+    properties: clone(record.properties),
+    analysis_options: clone(record.analysis_options),
+    tags: [...record.tags],
+    metadata: clone(record.metadata),
+    created_at: new Date(record.created_at),
+    updated_at: new Date(record.updated_at),
+    deleted_at: record.deleted_at && new Date(record.deleted_at),
+  });
+}
+
+/**
+ * Records held in process memory, for tests and local development. Filters
+ * run through matchesFilter; everything is lost on restart.
+ */
+export class MemoryStringStore extends StringStore {
+  private readonly records = new Map<string, StringAnalyzer>();
+
+  constructor(
+    private readonly registry: AnalyzerRegistry,
+    private readonly now: () => Date = () => new Date(),
+  ) {
+    super();
+  }
+
+  findOne(key: RecordKey, withDeleted = false): Promise<StringAnalyzer | null> {
+    return settle(() => {
+      const record = this.lookup(key);
+      return record && (withDeleted || !record.deleted_at)
+        ? copy(record)
+        : null;
+    });
+  }
+
+  findByIds(collection: string, ids: string[]): Promise<StringAnalyzer[]> {
+    return settle(() =>
+      [...new Set(ids)]
+        .map((id) => this.records.get(keyOf(collection, id)))
+        .filter((r): r is StringAnalyzer => !!r)
+        .map(copy),
+    );
+  }
+
+  hasId(id: string): Promise<boolean> {
+    return settle(() =>
+      [...this.records.values()].some((record) => record.id === id),
+    );
+  }
+
+  ping(): Promise<void> {
+    return settle(() => undefined);
+  }
+
+  insert(records: NewRecord[]): Promise<StringAnalyzer[]> {
+    return settle(() => this.add(records, this.now()));
+  }
+
+  updateLabels(
+    collection: string,
+    id: string,
+    labels: Partial<Labels>,
+  ): Promise<StringAnalyzer | null> {
+    return settle(() => {
+      const record = this.records.get(keyOf(collection, id));
+      if (!record || record.deleted_at) return null;
+      if (labels.tags) record.tags = clone(labels.tags);
+      if (labels.metadata) record.metadata = clone(labels.metadata);
+      record.updated_at = this.now();
+      return copy(record);
+    });
+  }
+
+  delete(key: RecordKey, permanent: boolean): Promise<StringAnalyzer | null> {
+    return settle(() => {
+      const record = this.lookup(key);
+      if (!record || (!permanent && record.deleted_at)) return null;
+      return this.remove(record, permanent, this.now());
+    });
+  }
+
+  restore(collection: string, id: string): Promise<StringAnalyzer | null> {
+    return settle(() => {
+      const record = this.records.get(keyOf(collection, id));
+      if (!record?.deleted_at) return null;
+      record.deleted_at = null;
+      record.updated_at = this.now();
+      return copy(record);
+    });
+  }
+
+  list(
+    collection: string,
+    filter: FilterNode | null,
+    deleted: DeletedScope,
+    pagination: PaginationOptions,
+  ): Promise<Paginated<StringAnalyzer>> {
+    return settle(() =>
+      this.paginate(this.matching(collection, filter, deleted), pagination),
+    );
+  }
+
+  anagrams(
+    source: StringAnalyzer,
+    pagination: PaginationOptions,
+  ): Promise<Paginated<StringAnalyzer>> {
+    return settle(() => {
+      const signature = signatureOf(source);
+      const rows = [...this.records.values()].filter(
+        (r) =>
+          signature !== null &&
+          !r.deleted_at &&
+          r.collection === source.collection &&
+          r.id !== source.id &&
+          signatureOf(r) === signature,
+      );
+      return this.paginate(rows, pagination);
+    });
+  }
+
+  deleteMatching(
+    collection: string,
+    filter: FilterNode,
+    deleted: DeletedScope,
+    { permanent, expected }: { permanent: boolean; expected: number | null },
+  ): Promise<{ matched: number; removed: StringAnalyzer[] }> {
+    return settle(() => {
+      const rows = this.matching(collection, filter, deleted);
+      if (expected !== rows.length)
+        return { matched: rows.length, removed: [] };
+      const now = this.now();
+      const removed = rows
+        .sort((a, b) => (a.id < b.id ? -1 : 1))
+        .map((r) => this.remove(r, permanent, now));
+      return { matched: rows.length, removed };
+    });
+  }
+
+  collections(name?: string): Promise<CollectionSummary[]> {
+    return settle(() => {
+      const summaries = new Map<string, CollectionSummary>();
+      for (const r of this.records.values()) {
+        if (name !== undefined && r.collection !== name) continue;
+        const summary = summaries.get(r.collection) ?? {
+          name: r.collection,
+          strings: 0,
+          deleted: 0,
+          created_at: r.created_at,
+          updated_at: r.updated_at,
+        };
+        if (r.deleted_at) summary.deleted++;
+        else summary.strings++;
+        if (r.created_at < summary.created_at) {
+          summary.created_at = r.created_at;
+        }
+        if (r.updated_at > summary.updated_at) {
+          summary.updated_at = r.updated_at;
+        }
+        summaries.set(r.collection, summary);
+      }
+      return [...summaries.values()]
+        .sort((a, b) => (a.name < b.name ? -1 : 1))
+        .map((s) => ({
+          ...s,
+          created_at: new Date(s.created_at),
+          updated_at: new Date(s.updated_at),
+        }));
+    });
+  }
+
+  copy(
+    source: string,
+    target: string,
+    { merge }: { merge: boolean },
+  ): Promise<{ copied: StringAnalyzer[]; skipped: number } | null> {
+    return settle(() => {
+      const records = [...this.records.values()];
+      if (!merge && records.some((r) => r.collection === target)) return null;
+      const live = records
+        .filter((r) => r.collection === source && !r.deleted_at)
+        .sort((a, b) => (a.id < b.id ? -1 : 1));
+      const fresh = live.filter((r) => !this.records.has(keyOf(target, r.id)));
+      return {
+        copied: this.add(
+          fresh.map((r) => copyInto(target, r)),
+          this.now(),
+        ),
+        skipped: live.length - fresh.length,
+      };
+    });
+  }
+
+  /** Store new records, all or none */
+  private add(records: NewRecord[], now: Date): StringAnalyzer[] {
+    const keys = records.map((r) => keyOf(r.collection, r.id));
+    if (
+      new Set(keys).size !== keys.length ||
+      keys.some((key) => this.records.has(key))
+    ) {
+      throw new DuplicateRecordError();
+    }
+    const stored = records.map((r) => ({
+      ...clone(r),
+      created_at: now,
+      updated_at: now,
+      deleted_at: null,
+    }));
+    for (const record of stored) {
+      this.records.set(keyOf(record.collection, record.id), record);
+    }
+    return stored.map(copy);
+  }
+
+  private lookup(key: RecordKey): StringAnalyzer | undefined {
+    if ('id' in key) return this.records.get(keyOf(key.collection, key.id));
+    for (const record of this.records.values()) {
+      if (record.collection === key.collection && record.value === key.value) {
+        return record;
+      }
+    }
+    return undefined;
+  }
+
+  /** Soft delete or remove a record, returning it as it was deleted */
+  private remove(
+    record: StringAnalyzer,
+    permanent: boolean,
+    now: Date,
+  ): StringAnalyzer {
+    if (permanent) {
+      this.records.delete(keyOf(record.collection, record.id));
+      return copy({ ...record, deleted_at: record.deleted_at ?? now });
+    }
+    record.deleted_at = now;
+    record.updated_at = now;
+    return copy(record);
+  }
+
+  private matching(
+    collection: string,
+    filter: FilterNode | null,
+    deleted: DeletedScope,
+  ): StringAnalyzer[] {
+    if (filter) validateFilter(filter, this.registry);
+    return [...this.records.values()].filter(
+      (r) =>
+        r.collection === collection &&
+        (deleted === 'include' || (deleted === 'only') === !!r.deleted_at) &&
+        (!filter || matchesFilter(filter, r)),
+    );
+  }
+
+  private paginate(
+    rows: StringAnalyzer[],
+    pagination: PaginationOptions,
+  ): Paginated<StringAnalyzer> {
+    const { limit, page, cursor, sort_by } = pagination;
+    const { ascending } = walkOrder(pagination);
+    const tuple = (r: StringAnalyzer): SortTuple => [
+      sortKey(r, sort_by),
+      r.created_at.getTime(),
+      r.id,
+    ];
+    const direction = ascending ? 1 : -1;
+
+    let walk = rows.sort(
+      (a, b) => direction * compareTuples(tuple(a), tuple(b)),
+    );
+    if (cursor) {
+      const position: SortTuple = [
+        sort_by === 'created_at' ? null : cursor.key,
+        Date.parse(cursor.created_at),
+        cursor.id,
+      ];
+      walk = walk.filter(
+        (r) => direction * compareTuples(tuple(r), position) > 0,
+      );
+    }
+
+    const offset = page ? (page - 1) * limit : 0;
+    return toPage(
+      walk.slice(offset, offset + limit + 1).map(copy),
+      rows.length,
+      pagination,
+    );
+  }
+}
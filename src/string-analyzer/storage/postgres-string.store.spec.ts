@@ -0,0 +1,163 @@
+import { Test } from '@nestjs/testing';
+import { DiscoveryModule } from '@nestjs/core';
+import { DataSource } from 'typeorm';
+import { describeStringStore } from './string-store.contract';
+import { PostgresStringStore } from './postgres-string.store';
+import { DuplicateRecordError, NewRecord } from './string-store';
+import { databaseOptions } from '../../database/database.config';
+import { StringAnalyzer } from '../entities/string-analyzer.entity';
+import { StringAnalyzerSubscriber } from '../entities/string-analyzer.subscriber';
+import { OutboxEvent } from '../entities/outbox-event.entity';
+import { AnalyzerRegistry } from '../analyzers/analyzer-registry.service';
+import { CORE_ANALYZERS } from '../analyzers/core.analyzers';
+import { METRIC_ANALYZERS } from '../analyzers/metric.analyzers';
+import { MetricsService } from '../../observability/metrics.service';
+import { compare } from '../filters/filter-ast';
+import {
+  ANALYSIS_VERSION,
+  DEFAULT_ANALYSIS_OPTIONS,
+  sha256,
+} from '../../analysis';
+
+/**
+ * Runs against TEST_DATABASE_URL, migrated on the way in. Every test
+ * empties the string_analyzer table and the event outbox, so never point
+ * it at real data.
+ */
+const url = process.env.TEST_DATABASE_URL;
+
+(url ? describe : describe.skip)('PostgresStringStore', () => {
+  let dataSource: DataSource;
+
+  beforeAll(async () => {
+    dataSource = await new DataSource(databaseOptions(url)).initialize();
+    await dataSource.runMigrations();
+    new StringAnalyzerSubscriber(dataSource);
+  });
+
+  afterAll(async () => {
+    await dataSource?.destroy();
+  });
+
+  describeStringStore('PostgresStringStore', {
+    create: async (registry) => {
+      await dataSource.query('TRUNCATE string_analyzer, string_event_outbox');
+      return new PostgresStringStore(
+        dataSource.getRepository(StringAnalyzer),
+        registry,
+      );
+    },
+  });
+
+  describe('event outbox', () => {
+    let registry: AnalyzerRegistry;
+    let store: PostgresStringStore;
+
+    const analyzed = (collection: string, value: string): NewRecord => {
+      const id = sha256(value);
+      return {
+        collection,
+        id,
+        value,
+        value_truncated: false,
+        properties: registry.analyze(
+          value,
+          id,
+          DEFAULT_ANALYSIS_OPTIONS,
+        ) as NewRecord['properties'],
+        analysis_options: DEFAULT_ANALYSIS_OPTIONS,
+        analysis_version: ANALYSIS_VERSION,
+        tags: [],
+        metadata: {},
+      };
+    };
+
+    /** The outbox, oldest first, as (type, collection, value, permanent) */
+    const outbox = async () =>
+      (
+        await dataSource
+          .getRepository(OutboxEvent)
+          .find({ order: { created_at: 'ASC' } })
+      ).map(({ type, payload }) => [
+        type,
+        payload.data.collection,
+        payload.data.value,
+        payload.permanent,
+      ]);
+
+    beforeAll(async () => {
+      const module = await Test.createTestingModule({
+        imports: [DiscoveryModule],
+        providers: [
+          AnalyzerRegistry,
+          MetricsService,
+          ...CORE_ANALYZERS,
+          ...METRIC_ANALYZERS,
+        ],
+      }).compile();
+      await module.init();
+      registry = module.get(AnalyzerRegistry);
+    });
+
+    beforeEach(async () => {
+      await dataSource.query('TRUNCATE string_analyzer, string_event_outbox');
+      store = new PostgresStringStore(
+        dataSource.getRepository(StringAnalyzer),
+        registry,
+      );
+    });
+
+    it('records the event of every change with it', async () => {
+      const [racecar] = await store.insert([analyzed('a', 'racecar')]);
+      await store.insert([analyzed('a', 'level')]);
+      await store.delete({ collection: 'a', id: racecar.id }, false);
+      await store.restore('a', racecar.id);
+      await store.copy('a', 'b', { merge: false });
+      await store.deleteMatching(
+        'b',
+        compare('is_palindrome', '=', true),
+        'exclude',
+        { permanent: true, expected: 2 },
+      );
+
+      const events = await outbox();
+      expect(events.slice(0, 4)).toEqual([
+        ['string.created', 'a', 'racecar', undefined],
+        ['string.created', 'a', 'level', undefined],
+        ['string.deleted', 'a', 'racecar', false],
+        ['string.restored', 'a', 'racecar', undefined],
+      ]);
+      // one statement each: the order within a copy or bulk delete is free
+      expect(events.slice(4, 6)).toEqual(
+        expect.arrayContaining([
+          ['string.created', 'b', 'racecar', undefined],
+          ['string.created', 'b', 'level', undefined],
+        ]),
+      );
+      expect(events.slice(6)).toEqual(
+        expect.arrayContaining([
+          ['string.deleted', 'b', 'racecar', true],
+          ['string.deleted', 'b', 'level', true],
+        ]),
+      );
+      expect(events).toHaveLength(8);
+    });
+
+    it('records nothing for changes that do not happen', async () => {
+      await store.insert([analyzed('a', 'racecar')]);
+      await dataSource.query('TRUNCATE string_event_outbox');
+
+      await expect(
+        store.insert([analyzed('a', 'level'), analyzed('a', 'racecar')]),
+      ).rejects.toThrow(DuplicateRecordError);
+      await store.deleteMatching(
+        'a',
+        compare('is_palindrome', '=', true),
+        'exclude',
+        { permanent: false, expected: 5 },
+      );
+      await store.restore('a', 'missing');
+      expect(await outbox()).toEqual([]);
+    });
+  });
+});
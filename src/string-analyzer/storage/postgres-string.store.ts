@@ -0,0 +1,425 @@
+import { In, QueryFailedError, Repository, SelectQueryBuilder } from 'typeorm';
+import { QueryDeepPartialEntity } from 'typeorm/query-builder/QueryPartialEntity';
+import {
+  signatureOf,
+  StringAnalyzer,
+  toRecord,
+} from '../entities/string-analyzer.entity';
+import { AnalyzerRegistry } from '../analyzers/analyzer-registry.service';
+import { FilterNode } from '../filters/filter-ast';
+import { compileFilter } from '../filters/filter-compiler';
+import { Labels } from '../labels';
+import { CollectionSummary } from '../collections';
+import { Paginated, PaginationOptions } from '../../common/pagination';
+import {
+  copyInto,
+  DeletedScope,
+  DuplicateRecordError,
+  NewRecord,
+  RecordKey,
+  SortField,
+  StringStore,
+} from './string-store';
+import { keysetCondition, toPage, walkOrder } from './record-paging';
+import { recordEvents } from './event-outbox';
+import { stringEvent } from '../string-events.service';
+
+/** Records loaded per statement by bulk deletes and copies */
+const BATCH_SIZE = 1000;
+
+/** Records written per INSERT statement */
+const INSERT_CHUNK_SIZE = 500;
+
+/** Postgres error code of a duplicate key */
+const UNIQUE_VIOLATION = '23505';
+
+const SORT_EXPRESSIONS: Record<SortField, string> = {
+  created_at: 's.created_at',
+  length: "CAST(s.properties ->> 'length' AS INTEGER)",
+  word_count: "CAST(s.properties ->> 'word_count' AS INTEGER)",
+  unique_characters: "CAST(s.properties ->> 'unique_characters' AS INTEGER)",
+};
+
+/**
+ * Insert entities, returning them as stored. insert() rather than save(),
+ * which would overwrite a record stored in the meantime; a duplicate id
+ * throws DuplicateRecordError.
+ */
+async function insertAll(
+  repo: Repository<StringAnalyzer>,
+  entities: StringAnalyzer[],
+): Promise<StringAnalyzer[]> {
+  try {
+    for (let i = 0; i < entities.length; i += INSERT_CHUNK_SIZE) {
+      // fills in the generated timestamps of the entities
+      await repo.insert(
+        // jsonb columns are typed wider than insert() accepts
+        entities.slice(
+          i,
+          i + INSERT_CHUNK_SIZE,
+        ) as QueryDeepPartialEntity<StringAnalyzer>[],
+      );
+    }
+  } catch (err) {
+    const code = (err as { driverError?: { code?: string } })?.driverError
+      ?.code;
+    if (err instanceof QueryFailedError && code === UNIQUE_VIOLATION) {
+      throw new DuplicateRecordError();
+    }
+    throw err;
+  }
+  return entities.map((r) => toRecord(r));
+}
+
+/**
+ * The store of the `string_analyzer` table, through TypeORM. Filters
+ * compile to jsonb SQL and use the indexes of the migrations; anagram
+ * signatures are kept by StringAnalyzerSubscriber. Every change writes its
+ * events to the outbox in the same transaction, for the webhooks.
+ */
+export class PostgresStringStore extends StringStore {
+  constructor(
+    private readonly repo: Repository<StringAnalyzer>,
+    private readonly registry: AnalyzerRegistry,
+  ) {
+    super();
+  }
+
+  async findOne(
+    key: RecordKey,
+    withDeleted = false,
+  ): Promise<StringAnalyzer | null> {
+    const record = await this.repo.findOne({ where: key, withDeleted });
+    return record && toRecord(record);
+  }
+
+  async findByIds(
+    collection: string,
+    ids: string[],
+  ): Promise<StringAnalyzer[]> {
+    if (!ids.length) return [];
+    const records = await this.repo.find({
+      where: { collection, id: In(ids) },
+      withDeleted: true,
+    });
+    return records.map((r) => toRecord(r));
+  }
+
+  hasId(id: string): Promise<boolean> {
+    return this.repo.exists({ where: { id }, withDeleted: true });
+  }
+
+  async ping(): Promise<void> {
+    await this.repo.query('SELECT 1');
+  }
+
+  async insert(records: NewRecord[]): Promise<StringAnalyzer[]> {
+    if (!records.length) return [];
+    // one transaction, so the records share created_at
+    return this.repo.manager.transaction(async (manager) => {
+      const repo = manager.getRepository(StringAnalyzer);
+      const created = await insertAll(
+        repo,
+        records.map((r) => repo.create(r)),
+      );
+      await recordEvents(
+        manager,
+        created.map((r) => stringEvent('string.created', r)),
+      );
+      return created;
+    });
+  }
+
+  async updateLabels(
+    collection: string,
+    id: string,
+    labels: Partial<Labels>,
+  ): Promise<StringAnalyzer | null> {
+    const record = await this.repo.findOne({ where: { collection, id } });
+    if (!record) return null;
+    if (labels.tags) record.tags = labels.tags;
+    if (labels.metadata) record.metadata = labels.metadata;
+    return toRecord(await this.repo.save(record));
+  }
+
+  async delete(
+    key: RecordKey,
+    permanent: boolean,
+  ): Promise<StringAnalyzer | null> {
+    return this.repo.manager.transaction(async (manager) => {
+      const repo = manager.getRepository(StringAnalyzer);
+      const record = await repo.findOne({
+        where: key,
+        withDeleted: permanent,
+      });
+      if (!record) return null;
+      // remove() clears the id of the entity, keep the record to return
+      const data = toRecord(record);
+      if (permanent) await repo.remove(record);
+      else await repo.softRemove(record);
+      const deleted = toRecord({
+        ...data,
+        updated_at: record.updated_at,
+        deleted_at: record.deleted_at ?? new Date(),
+      });
+      await recordEvents(manager, [
+        stringEvent('string.deleted', deleted, { permanent }),
+      ]);
+      return deleted;
+    });
+  }
+
+  async restore(
+    collection: string,
+    id: string,
+  ): Promise<StringAnalyzer | null> {
+    return this.repo.manager.transaction(async (manager) => {
+      const repo = manager.getRepository(StringAnalyzer);
+      const result = await repo
+        .createQueryBuilder()
+        .restore()
+        .where(
+          'collection = :collection AND id = :id AND deleted_at IS NOT NULL',
+          { collection, id },
+        )
+        .execute();
+      if (!result.affected) return null;
+      const restored = toRecord(await repo.findOneByOrFail({ collection, id }));
+      await recordEvents(manager, [stringEvent('string.restored', restored)]);
+      return restored;
+    });
+  }
+
+  async list(
+    collection: string,
+    filter: FilterNode | null,
+    deleted: DeletedScope,
+    pagination: PaginationOptions,
+  ): Promise<Paginated<StringAnalyzer>> {
+    return this.paginate(
+      this.matching(collection, filter, deleted),
+      pagination,
+    );
+  }
+
+  async anagrams(
+    source: StringAnalyzer,
+    pagination: PaginationOptions,
+  ): Promise<Paginated<StringAnalyzer>> {
+    const query = this.repo
+      .createQueryBuilder('s')
+      .where('s.collection = :collection', { collection: source.collection })
+      .andWhere('s.anagram_signature = :signature', {
+        signature: signatureOf(source),
+      })
+      .andWhere('s.id <> :id', { id: source.id });
+    return this.paginate(query, pagination);
+  }
+
+  async deleteMatching(
+    collection: string,
+    filter: FilterNode,
+    deleted: DeletedScope,
+    { permanent, expected }: { permanent: boolean; expected: number | null },
+  ): Promise<{ matched: number; removed: StringAnalyzer[] }> {
+    const removed: StringAnalyzer[] = [];
+    const matched = await this.repo.manager.transaction(async (manager) => {
+      const repo = manager.getRepository(StringAnalyzer);
+      const matched = await this.matching(
+        collection,
+        filter,
+        deleted,
+        repo,
+      ).getCount();
+      if (expected !== matched) return matched;
+
+      // walk the matches in id order, keeping the records to return
+      const deletedAt = new Date();
+      let lastId: string | null = null;
+      for (;;) {
+        const query = this.matching(collection, filter, deleted, repo)
+          .orderBy('s.id', 'ASC')
+          .limit(BATCH_SIZE);
+        if (lastId) query.andWhere('s.id > :lastId', { lastId });
+        const batch = await query.getMany();
+        if (!batch.length) break;
+
+        const ids = batch.map((r) => r.id);
+        if (permanent) await repo.delete({ collection, id: In(ids) });
+        else await repo.softDelete({ collection, id: In(ids) });
+        const records = batch.map((record) =>
+          toRecord({
+            ...record,
+            deleted_at: record.deleted_at ?? deletedAt,
+          }),
+        );
+        await recordEvents(
+          manager,
+          records.map((r) => stringEvent('string.deleted', r, { permanent })),
+        );
+        removed.push(...records);
+
+        if (batch.length < BATCH_SIZE) break;
+        lastId = ids[ids.length - 1];
+      }
+      return matched;
+    });
+    return { matched, removed };
+  }
+
+  async collections(name?: string): Promise<CollectionSummary[]> {
+    const query = this.repo
+      .createQueryBuilder('s')
+      .withDeleted()
+      .select('s.collection', 'name')
+      .addSelect('COUNT(*)', 'total')
+      .addSelect(
+        'SUM(CASE WHEN s.deleted_at IS NULL THEN 1 ELSE 0 END)',
+        'strings',
+      )
+      .addSelect('MIN(s.created_at)', 'created_at')
+      .addSelect('MAX(s.updated_at)', 'updated_at')
+      .groupBy('s.collection')
+      .orderBy('s.collection', 'ASC');
+    if (name !== undefined) query.where('s.collection = :name', { name });
+
+    // Postgres counts in bigint, which the driver gives as strings
+    const rows = await query.getRawMany<{
+      name: string;
+      total: string;
+      strings: string;
+      created_at: Date;
+      updated_at: Date;
+    }>();
+    return rows.map((row) => ({
+      name: row.name,
+      strings: Number(row.strings),
+      deleted: Number(row.total) - Number(row.strings),
+      created_at: new Date(row.created_at),
+      updated_at: new Date(row.updated_at),
+    }));
+  }
+
+  async copy(
+    source: string,
+    target: string,
+    { merge }: { merge: boolean },
+  ): Promise<{ copied: StringAnalyzer[]; skipped: number } | null> {
+    // one transaction, so the copies share created_at
+    return this.repo.manager.transaction(async (manager) => {
+      const repo = manager.getRepository(StringAnalyzer);
+      if (
+        !merge &&
+        (await repo.exists({
+          where: { collection: target },
+          withDeleted: true,
+        }))
+      ) {
+        return null;
+      }
+
+      // walk the source in id order, skipping the ids the target holds
+      const copied: StringAnalyzer[] = [];
+      let skipped = 0;
+      let lastId: string | null = null;
+      for (;;) {
+        const query = repo
+          .createQueryBuilder('s')
+          .where('s.collection = :source', { source })
+          .orderBy('s.id', 'ASC')
+          .limit(BATCH_SIZE);
+        if (lastId) query.andWhere('s.id > :lastId', { lastId });
+        const batch = await query.getMany();
+        if (!batch.length) break;
+
+        const held = await repo.find({
+          select: { id: true },
+          where: { collection: target, id: In(batch.map((r) => r.id)) },
+          withDeleted: true,
+        });
+        const taken = new Set(held.map((r) => r.id));
+        const fresh = batch.filter((r) => !taken.has(r.id));
+        skipped += batch.length - fresh.length;
+        if (fresh.length) {
+          const copies = await insertAll(
+            repo,
+            fresh.map((r) => repo.create(copyInto(target, r))),
+          );
+          await recordEvents(
+            manager,
+            copies.map((r) => stringEvent('string.created', r)),
+          );
+          copied.push(...copies);
+        }
+
+        if (batch.length < BATCH_SIZE) break;
+        lastId = batch[batch.length - 1].id;
+      }
+      return { copied, skipped };
+    });
+  }
+
+  /**
+   * Records of a collection matching a filter tree within a deleted scope
+   */
+  private matching(
+    collection: string,
+    filter: FilterNode | null,
+    deleted: DeletedScope,
+    repo: Repository<StringAnalyzer> = this.repo,
+  ): SelectQueryBuilder<StringAnalyzer> {
+    const query = repo
+      .createQueryBuilder('s')
+      .where('s.collection = :collection', { collection });
+    if (deleted !== 'exclude') query.withDeleted();
+    if (filter) query.andWhere(compileFilter(filter, this.registry));
+    if (deleted === 'only') query.andWhere('s.deleted_at IS NOT NULL');
+    return query;
+  }
+
+  /**
+   * Apply keyset (cursor) or offset (page) pagination to a filtered query.
+   * Rows are ordered by (sort value, created_at, id) so ties never reorder.
+   */
+  private async paginate(
+    query: SelectQueryBuilder<StringAnalyzer>,
+    pagination: PaginationOptions,
+  ): Promise<Paginated<StringAnalyzer>> {
+    const { limit, page, cursor, sort_by } = pagination;
+    const total = await query.getCount();
+
+    const keys =
+      sort_by === 'created_at'
+        ? ['s.created_at', 's.id']
+        : [SORT_EXPRESSIONS[sort_by as SortField], 's.created_at', 's.id'];
+    const { ascending } = walkOrder(pagination);
+    const direction = ascending ? 'ASC' : 'DESC';
+
+    if (cursor) {
+      const params: Record<string, unknown> = {
+        cursor_created_at: new Date(cursor.created_at),
+        cursor_id: cursor.id,
+      };
+      const values = [':cursor_created_at', ':cursor_id'];
+      if (sort_by !== 'created_at') {
+        params.cursor_key = cursor.key;
+        values.unshift(':cursor_key');
+      }
+      query.andWhere(
+        keysetCondition(keys, values, ascending ? '>' : '<'),
+        params,
+      );
+    }
+
+    keys.forEach((key, i) =>
+      i === 0
+        ? query.orderBy(key, direction)
+        : query.addOrderBy(key, direction),
+    );
+
+    if (page) query.offset((page - 1) * limit);
+    query.limit(limit + 1);
+
+    return toPage(await query.getMany(), total, pagination);
+  }
+}
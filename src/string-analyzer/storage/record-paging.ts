@@ -0,0 +1,85 @@
+import { StringAnalyzer, toRecord } from '../entities/string-analyzer.entity';
+import {
+  CursorDirection,
+  encodeCursor,
+  Paginated,
+  PaginationOptions,
+} from '../../common/pagination';
+
+/** The value a record is sorted by before created_at and id */
+export function sortKey(
+  record: StringAnalyzer,
+  sort_by: string,
+): string | number | null {
+  return sort_by === 'created_at'
+    ? null
+    : (record.properties[sort_by] as string | number);
+}
+
+/**
+ * How to walk a listing: a `prev` cursor walks backwards, which reverses
+ * the ordering; toPage flips the rows back afterwards
+ */
+export function walkOrder({ cursor, order }: PaginationOptions) {
+  const backwards = cursor?.direction === 'prev';
+  return { backwards, ascending: (order === 'asc') !== backwards };
+}
+
+/**
+ * Row comparison (k1, k2, k3) > (v1, v2, v3) spelled out term by term, for
+ * SQL dialects without row value comparisons on expressions
+ */
+export function keysetCondition(
+  keys: string[],
+  values: string[],
+  comparison: '<' | '>',
+): string {
+  const terms = keys.map((key, i) =>
+    [
+      ...keys.slice(0, i).map((k, j) => `${k} = ${values[j]}`),
+      `${key} ${comparison} ${values[i]}`,
+    ].join(' AND '),
+  );
+  return `(${terms.map((t) => `(${t})`).join(' OR ')})`;
+}
+
+/**
+ * Turn the rows of a listing, fetched in walking order with one extra row
+ * to tell whether more follow, into a page with its cursors
+ */
+export function toPage(
+  rows: StringAnalyzer[],
+  total: number,
+  pagination: PaginationOptions,
+): Paginated<StringAnalyzer> {
+  const { limit, page, cursor, sort_by, order } = pagination;
+  const { backwards } = walkOrder(pagination);
+
+  const hasMore = rows.length > limit;
+  if (hasMore) rows = rows.slice(0, limit);
+  if (backwards) rows = [...rows].reverse();
+
+  const toCursor = (row: StringAnalyzer, direction: CursorDirection) =>
+    encodeCursor({
+      sort_by,
+      order,
+      key: sortKey(row, sort_by),
+      created_at: new Date(row.created_at).toISOString(),
+      id: row.id,
+      direction,
+    });
+
+  const first = rows[0];
+  const last = rows[rows.length - 1];
+  const hasNext = backwards ? !!cursor : hasMore;
+  const hasPrev = backwards ? hasMore : !!cursor || (page ?? 1) > 1;
+
+  return {
+    data: rows.map((r) => toRecord(r)),
+    total,
+    limit,
+    ...(page ? { page } : {}),
+    next_cursor: last && hasNext ? toCursor(last, 'next') : null,
+    prev_cursor: first && hasPrev ? toCursor(first, 'prev') : null,
+  };
+}
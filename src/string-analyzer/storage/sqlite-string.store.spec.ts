@@ -0,0 +1,7 @@
+import { describeStringStore } from './string-store.contract';
+import { SqliteStringStore } from './sqlite-string.store';
+
+describeStringStore('SqliteStringStore', {
+  create: (registry) => Promise.resolve(new SqliteStringStore(registry)),
+  dispose: (store) => Promise.resolve((store as SqliteStringStore).close()),
+});
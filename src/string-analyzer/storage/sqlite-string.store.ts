@@ -0,0 +1,633 @@
+import { OnApplicationShutdown } from '@nestjs/common';
+import Database from 'better-sqlite3';
+import {
+  signatureOf,
+  StringAnalyzer,
+  toRecord,
+} from '../entities/string-analyzer.entity';
+import { AnalyzerRegistry } from '../analyzers/analyzer-registry.service';
+import { PropertyDescriptor } from '../analyzers/property-analyzer';
+import { ComparisonOperator, FilterNode } from '../filters/filter-ast';
+import { jsonbText } from '../filters/filter-evaluator';
+import { validateFilter } from '../filters/filter-validation';
+import { Labels } from '../labels';
+import { CollectionSummary } from '../collections';
+import { Paginated, PaginationOptions } from '../../common/pagination';
+import {
+  copyInto,
+  DeletedScope,
+  DuplicateRecordError,
+  NewRecord,
+  RecordKey,
+  settle,
+  StringStore,
+} from './string-store';
+import { keysetCondition, toPage, walkOrder } from './record-paging';
+
+/** Ids per `IN (...)` list, below SQLite's bound parameter limit */
+const ID_BATCH_SIZE = 500;
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS string_analyzer (
+    collection TEXT NOT NULL DEFAULT 'default',
+    id TEXT NOT NULL,
+    value TEXT NOT NULL,
+    value_truncated INTEGER NOT NULL DEFAULT 0,
+    properties TEXT NOT NULL,
+    analysis_options TEXT,
+    analysis_version INTEGER NOT NULL DEFAULT 1,
+    anagram_signature TEXT,
+    tags TEXT NOT NULL DEFAULT '[]',
+    metadata TEXT NOT NULL DEFAULT '{}',
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL,
+    deleted_at INTEGER,
+    PRIMARY KEY (collection, id)
+  );
+`;
+
+const INDEXES = `
+  CREATE INDEX IF NOT EXISTS IDX_string_analyzer_value ON string_analyzer (collection, value);
+  CREATE INDEX IF NOT EXISTS IDX_string_analyzer_created_at ON string_analyzer (collection, created_at);
+  CREATE INDEX IF NOT EXISTS IDX_string_analyzer_anagram_signature ON string_analyzer (anagram_signature);
+`;
+
+/** Columns of a table from before collections */
+const LEGACY_COLUMNS =
+  'id, value, properties, analysis_options, analysis_version, anagram_signature, tags, metadata, created_at, updated_at, deleted_at';
+
+/** A row as stored: JSON columns as text, timestamps in epoch milliseconds */
+interface Row {
+  collection: string;
+  id: string;
+  value: string;
+  value_truncated: number;
+  properties: string;
+  analysis_options: string | null;
+  analysis_version: number;
+  tags: string;
+  metadata: string;
+  created_at: number;
+  updated_at: number;
+  deleted_at: number | null;
+}
+
+type Condition = { sql: string; params: unknown[] };
+
+function fromRow(row: Row): StringAnalyzer {
+  return toRecord({
+    collection: row.collection,
+    id: row.id,
+    value: row.value,
+    value_truncated: !!row.value_truncated,
+    properties: JSON.parse(row.properties) as StringAnalyzer['properties'],
+    analysis_options: JSON.parse(
+      row.analysis_options ?? 'null',
+    ) as StringAnalyzer['analysis_options'],
+    analysis_version: row.analysis_version,
+    tags: JSON.parse(row.tags) as string[],
+    metadata: JSON.parse(row.metadata) as Record<string, unknown>,
+    created_at: new Date(row.created_at),
+    updated_at: new Date(row.updated_at),
+    deleted_at: row.deleted_at === null ? null : new Date(row.deleted_at),
+  });
+}
+
+/** SQLite has no boolean type: true and false are 1 and 0 */
+const bind = (value: unknown) =>
+  typeof value === 'boolean' ? Number(value) : value;
+
+const sqlOperator = (operator: ComparisonOperator) =>
+  operator === '!=' ? '<>' : operator;
+
+/** SQL expression reading a property out of the JSON `properties` column */
+function propertyExpression({ key, type }: PropertyDescriptor): string {
+  // keys are identifier-safe, see AnalyzerRegistry.register
+  const value = `json_extract(s.properties, '$.${key}')`;
+  return type === 'integer' ? `CAST(${value} AS INTEGER)` : value;
+}
+
+/**
+ * Compile a checked filter tree into a where clause over the `s` alias,
+ * with the semantics of compileFilter: SQLite shares Postgres' three-valued
+ * logic, metadata conditions are never NULL.
+ */
+function compileFilter(
+  node: FilterNode,
+  registry: AnalyzerRegistry,
+): Condition {
+  switch (node.type) {
+    case 'and':
+    case 'or': {
+      // an empty conjunction matches everything, an empty disjunction nothing
+      if (!node.children.length) {
+        return { sql: node.type === 'and' ? '1' : '0', params: [] };
+      }
+      const parts = node.children.map((c) => compileFilter(c, registry));
+      return {
+        sql: `(${parts.map((p) => p.sql).join(node.type === 'and' ? ' AND ' : ' OR ')})`,
+        params: parts.flatMap((p) => p.params),
+      };
+    }
+    case 'not': {
+      const inner = compileFilter(node.child, registry);
+      return { sql: `NOT (${inner.sql})`, params: inner.params };
+    }
+    case 'compare':
+      return {
+        sql: `${propertyExpression(registry.get(node.property)!)} ${sqlOperator(node.operator)} ?`,
+        params: [bind(node.value)],
+      };
+    case 'contains':
+      return {
+        sql: `EXISTS (SELECT 1 FROM json_each(s.properties, '$.character_frequency_map') WHERE key = ?)`,
+        params: [node.character],
+      };
+    case 'frequency':
+      // characters missing from the map occur zero times
+      return {
+        sql: `COALESCE((SELECT value FROM json_each(s.properties, '$.character_frequency_map') WHERE key = ?), 0) ${sqlOperator(node.operator)} ?`,
+        params: [node.character, node.value],
+      };
+    case 'tag':
+      return {
+        sql: 'EXISTS (SELECT 1 FROM json_each(s.tags) WHERE value = ?)',
+        params: [node.tag],
+      };
+    case 'metadata': {
+      const operator = sqlOperator(node.operator);
+      switch (typeof node.value) {
+        case 'number':
+          return {
+            sql: `COALESCE((SELECT value FROM json_each(s.metadata) WHERE key = ? AND type IN ('integer', 'real')) ${operator} ?, 0)`,
+            params: [node.key, node.value],
+          };
+        case 'boolean':
+          // json_each types booleans as 'true' and 'false'
+          return {
+            sql: `COALESCE((SELECT type FROM json_each(s.metadata) WHERE key = ?) ${operator} ?, 0)`,
+            params: [node.key, String(node.value)],
+          };
+        default:
+          return {
+            sql: `COALESCE(jsonb_text(s.metadata, ?) ${operator} ?, 0)`,
+            params: [node.key, node.value],
+          };
+      }
+    }
+  }
+}
+
+/**
+ * Records in a SQLite database file (or `:memory:`), for tests and local
+ * development without a database server. The schema is created on open;
+ * JSON columns are text queried with SQLite's json functions.
+ */
+export class SqliteStringStore
+  extends StringStore
+  implements OnApplicationShutdown
+{
+  private readonly db: Database.Database;
+
+  constructor(
+    private readonly registry: AnalyzerRegistry,
+    filename = ':memory:',
+  ) {
+    super();
+    this.db = new Database(filename);
+    this.db.pragma('journal_mode = WAL');
+    this.upgrade();
+    this.db.exec(SCHEMA);
+    this.db.exec(INDEXES);
+    // the text of a metadata value as Postgres `->>` gives it
+    this.db.function(
+      'jsonb_text',
+      { deterministic: true },
+      (metadata: unknown, key: unknown) =>
+        jsonbText(
+          (JSON.parse(String(metadata)) as Record<string, unknown>)[
+            String(key)
+          ],
+        ),
+    );
+  }
+
+  onApplicationShutdown() {
+    this.close();
+  }
+
+  close() {
+    if (this.db.open) this.db.close();
+  }
+
+  findOne(key: RecordKey, withDeleted = false): Promise<StringAnalyzer | null> {
+    return settle(() => this.find(key, withDeleted));
+  }
+
+  findByIds(collection: string, ids: string[]): Promise<StringAnalyzer[]> {
+    return settle(() =>
+      this.byIds([...new Set(ids)], (list, params) =>
+        this.db
+          .prepare<unknown[], Row>(
+            `SELECT * FROM string_analyzer WHERE collection = ? AND id IN (${list})`,
+          )
+          .all(collection, ...params)
+          .map(fromRow),
+      ),
+    );
+  }
+
+  hasId(id: string): Promise<boolean> {
+    return settle(
+      () =>
+        !!this.db
+          .prepare('SELECT 1 FROM string_analyzer WHERE id = ? LIMIT 1')
+          .get(id),
+    );
+  }
+
+  ping(): Promise<void> {
+    return settle(() => {
+      this.db.prepare('SELECT 1').get();
+    });
+  }
+
+  insert(records: NewRecord[]): Promise<StringAnalyzer[]> {
+    // one transaction, so the records share created_at
+    return settle(() => {
+      try {
+        return this.db.transaction(() => this.add(records, Date.now()))();
+      } catch (err) {
+        if (
+          err instanceof Database.SqliteError &&
+          err.code === 'SQLITE_CONSTRAINT_PRIMARYKEY'
+        ) {
+          throw new DuplicateRecordError();
+        }
+        throw err;
+      }
+    });
+  }
+
+  updateLabels(
+    collection: string,
+    id: string,
+    labels: Partial<Labels>,
+  ): Promise<StringAnalyzer | null> {
+    return settle(() => {
+      const { changes } = this.db
+        .prepare(
+          `UPDATE string_analyzer
+           SET tags = COALESCE(?, tags), metadata = COALESCE(?, metadata), updated_at = ?
+           WHERE collection = ? AND id = ? AND deleted_at IS NULL`,
+        )
+        .run(
+          labels.tags ? JSON.stringify(labels.tags) : null,
+          labels.metadata ? JSON.stringify(labels.metadata) : null,
+          Date.now(),
+          collection,
+          id,
+        );
+      return changes ? this.find({ collection, id }, false) : null;
+    });
+  }
+
+  delete(key: RecordKey, permanent: boolean): Promise<StringAnalyzer | null> {
+    return settle(() =>
+      this.db.transaction(() => {
+        const record = this.find(key, permanent);
+        if (!record) return null;
+        const [removed] = this.remove(
+          key.collection,
+          [record],
+          permanent,
+          Date.now(),
+        );
+        return removed;
+      })(),
+    );
+  }
+
+  restore(collection: string, id: string): Promise<StringAnalyzer | null> {
+    return settle(() => {
+      const { changes } = this.db
+        .prepare(
+          `UPDATE string_analyzer SET deleted_at = NULL, updated_at = ?
+           WHERE collection = ? AND id = ? AND deleted_at IS NOT NULL`,
+        )
+        .run(Date.now(), collection, id);
+      return changes ? this.find({ collection, id }, false) : null;
+    });
+  }
+
+  list(
+    collection: string,
+    filter: FilterNode | null,
+    deleted: DeletedScope,
+    pagination: PaginationOptions,
+  ): Promise<Paginated<StringAnalyzer>> {
+    return settle(() =>
+      this.paginate(this.matching(collection, filter, deleted), pagination),
+    );
+  }
+
+  anagrams(
+    source: StringAnalyzer,
+    pagination: PaginationOptions,
+  ): Promise<Paginated<StringAnalyzer>> {
+    return settle(() =>
+      this.paginate(
+        {
+          sql: 's.collection = ? AND s.deleted_at IS NULL AND s.anagram_signature = ? AND s.id <> ?',
+          params: [source.collection, signatureOf(source), source.id],
+        },
+        pagination,
+      ),
+    );
+  }
+
+  deleteMatching(
+    collection: string,
+    filter: FilterNode,
+    deleted: DeletedScope,
+    { permanent, expected }: { permanent: boolean; expected: number | null },
+  ): Promise<{ matched: number; removed: StringAnalyzer[] }> {
+    return settle(() => {
+      const where = this.matching(collection, filter, deleted);
+      return this.db.transaction(() => {
+        const matched = this.count(where);
+        if (expected !== matched) return { matched, removed: [] };
+        const records = this.db
+          .prepare<unknown[], Row>(
+            `SELECT * FROM string_analyzer s WHERE ${where.sql} ORDER BY s.id ASC`,
+          )
+          .all(...where.params)
+          .map(fromRow);
+        return {
+          matched,
+          removed: this.remove(collection, records, permanent, Date.now()),
+        };
+      })();
+    });
+  }
+
+  collections(name?: string): Promise<CollectionSummary[]> {
+    return settle(() =>
+      this.db
+        .prepare<
+          unknown[],
+          {
+            name: string;
+            strings: number;
+            deleted: number;
+            created_at: number;
+            updated_at: number;
+          }
+        >(
+          `SELECT collection AS name,
+             SUM(deleted_at IS NULL) AS strings,
+             SUM(deleted_at IS NOT NULL) AS deleted,
+             MIN(created_at) AS created_at,
+             MAX(updated_at) AS updated_at
+           FROM string_analyzer${name === undefined ? '' : ' WHERE collection = ?'}
+           GROUP BY collection ORDER BY collection`,
+        )
+        .all(...(name === undefined ? [] : [name]))
+        .map((row) => ({
+          ...row,
+          created_at: new Date(row.created_at),
+          updated_at: new Date(row.updated_at),
+        })),
+    );
+  }
+
+  copy(
+    source: string,
+    target: string,
+    { merge }: { merge: boolean },
+  ): Promise<{ copied: StringAnalyzer[]; skipped: number } | null> {
+    return settle(() =>
+      this.db.transaction(() => {
+        if (
+          !merge &&
+          this.count({ sql: 's.collection = ?', params: [target] })
+        ) {
+          return null;
+        }
+        const live = this.count({
+          sql: 's.collection = ? AND s.deleted_at IS NULL',
+          params: [source],
+        });
+        const fresh = this.db
+          .prepare<unknown[], Row>(
+            `SELECT * FROM string_analyzer s
+             WHERE s.collection = ? AND s.deleted_at IS NULL
+               AND NOT EXISTS (SELECT 1 FROM string_analyzer t WHERE t.collection = ? AND t.id = s.id)
+             ORDER BY s.id ASC`,
+          )
+          .all(source, target)
+          .map((row) => copyInto(target, fromRow(row)));
+        return {
+          copied: this.add(fresh, Date.now()),
+          skipped: live - fresh.length,
+        };
+      })(),
+    );
+  }
+
+  /**
+   * Bring a table of an older version up to SCHEMA. A table from before
+   * collections is rebuilt around the (collection, id) key, its rows
+   * joining the default collection: SQLite cannot change the primary key
+   * of a table in place.
+   */
+  private upgrade() {
+    const columns = this.db
+      .prepare<[], { name: string }>('PRAGMA table_info(string_analyzer)')
+      .all();
+    if (!columns.length) return;
+    if (columns.some((c) => c.name === 'collection')) {
+      if (!columns.some((c) => c.name === 'value_truncated')) {
+        this.db.exec(
+          'ALTER TABLE string_analyzer ADD COLUMN value_truncated INTEGER NOT NULL DEFAULT 0',
+        );
+      }
+      return;
+    }
+    this.db.transaction(() => {
+      this.db.exec('ALTER TABLE string_analyzer RENAME TO string_analyzer_old');
+      this.db.exec(SCHEMA);
+      this.db.exec(
+        `INSERT INTO string_analyzer (${LEGACY_COLUMNS}) SELECT ${LEGACY_COLUMNS} FROM string_analyzer_old`,
+      );
+      // takes the old indexes along, INDEXES recreates them
+      this.db.exec('DROP TABLE string_analyzer_old');
+    })();
+  }
+
+  /** Insert new records, within the transaction of the caller */
+  private add(records: NewRecord[], now: number): StringAnalyzer[] {
+    const statement = this.db.prepare(
+      `INSERT INTO string_analyzer (collection, id, value, value_truncated, properties, analysis_options, analysis_version, anagram_signature, tags, metadata, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    );
+    for (const r of records) {
+      statement.run(
+        r.collection,
+        r.id,
+        r.value,
+        Number(r.value_truncated),
+        JSON.stringify(r.properties),
+        r.analysis_options ? JSON.stringify(r.analysis_options) : null,
+        r.analysis_version,
+        signatureOf(r),
+        JSON.stringify(r.tags),
+        JSON.stringify(r.metadata),
+        now,
+        now,
+      );
+    }
+    return records.map((r) =>
+      toRecord({
+        ...structuredClone(r),
+        created_at: new Date(now),
+        updated_at: new Date(now),
+      }),
+    );
+  }
+
+  private find(key: RecordKey, withDeleted: boolean): StringAnalyzer | null {
+    const [column, value] = 'id' in key ? ['id', key.id] : ['value', key.value];
+    const row = this.db
+      .prepare<
+        unknown[],
+        Row
+      >(`SELECT * FROM string_analyzer WHERE collection = ? AND ${column} = ?${withDeleted ? '' : ' AND deleted_at IS NULL'}`)
+      .get(key.collection, value);
+    return row ? fromRow(row) : null;
+  }
+
+  /** Soft delete or remove records, returning them as they were deleted */
+  private remove(
+    collection: string,
+    records: StringAnalyzer[],
+    permanent: boolean,
+    now: number,
+  ): StringAnalyzer[] {
+    this.byIds(
+      records.map((r) => r.id),
+      (list, params) => {
+        if (permanent) {
+          this.db
+            .prepare(
+              `DELETE FROM string_analyzer WHERE collection = ? AND id IN (${list})`,
+            )
+            .run(collection, ...params);
+        } else {
+          this.db
+            .prepare(
+              `UPDATE string_analyzer SET deleted_at = ?, updated_at = ? WHERE collection = ? AND id IN (${list})`,
+            )
+            .run(now, now, collection, ...params);
+        }
+        return [];
+      },
+    );
+    return records.map((r) =>
+      permanent
+        ? toRecord({ ...r, deleted_at: r.deleted_at ?? new Date(now) })
+        : toRecord({
+            ...r,
+            deleted_at: new Date(now),
+            updated_at: new Date(now),
+          }),
+    );
+  }
+
+  /** Run a statement per batch of ids, with its `?, ?, ...` placeholder list */
+  private byIds<T>(
+    ids: string[],
+    run: (list: string, params: string[]) => T[],
+  ): T[] {
+    const results: T[] = [];
+    for (let i = 0; i < ids.length; i += ID_BATCH_SIZE) {
+      const batch = ids.slice(i, i + ID_BATCH_SIZE);
+      results.push(...run(batch.map(() => '?').join(', '), batch));
+    }
+    return results;
+  }
+
+  /**
+   * Where clause of the records of a collection matching a filter tree
+   * within a deleted scope
+   */
+  private matching(
+    collection: string,
+    filter: FilterNode | null,
+    deleted: DeletedScope,
+  ): Condition {
+    const scope =
+      deleted === 'include'
+        ? 's.collection = ?'
+        : `s.collection = ? AND s.deleted_at IS ${deleted === 'only' ? 'NOT ' : ''}NULL`;
+    if (!filter) return { sql: scope, params: [collection] };
+    validateFilter(filter, this.registry);
+    const compiled = compileFilter(filter, this.registry);
+    return {
+      sql: `${scope} AND ${compiled.sql}`,
+      params: [collection, ...compiled.params],
+    };
+  }
+
+  private count(where: Condition): number {
+    return this.db
+      .prepare<
+        unknown[],
+        { count: number }
+      >(`SELECT COUNT(*) AS count FROM string_analyzer s WHERE ${where.sql}`)
+      .get(...where.params)!.count;
+  }
+
+  /**
+   * Keyset (cursor) or offset (page) pagination, ordered by (sort value,
+   * created_at, id) like the Postgres store
+   */
+  private paginate(
+    where: Condition,
+    pagination: PaginationOptions,
+  ): Paginated<StringAnalyzer> {
+    const { limit, page, cursor, sort_by } = pagination;
+    const total = this.count(where);
+
+    const keys =
+      sort_by === 'created_at'
+        ? ['s.created_at', 's.id']
+        : [
+            propertyExpression(this.registry.get(sort_by)!),
+            's.created_at',
+            's.id',
+          ];
+    const { ascending } = walkOrder(pagination);
+    const direction = ascending ? 'ASC' : 'DESC';
+
+    let sql = where.sql;
+    const params = [...where.params];
+    if (cursor) {
+      const position: unknown[] = [Date.parse(cursor.created_at), cursor.id];
+      if (sort_by !== 'created_at') position.unshift(bind(cursor.key));
+      const placeholders = keys.map(() => '?');
+      sql += ` AND ${keysetCondition(keys, placeholders, ascending ? '>' : '<')}`;
+      // term i of the condition reads the first i + 1 values
+      keys.forEach((_, i) => params.push(...position.slice(0, i + 1)));
+    }
+
+    const rows = this.db
+      .prepare<unknown[], Row>(
+        `SELECT * FROM string_analyzer s WHERE ${sql}
+         ORDER BY ${keys.map((k) => `${k} ${direction}`).join(', ')}
+         LIMIT ? OFFSET ?`,
+      )
+      .all(...params, limit + 1, page ? (page - 1) * limit : 0);
+    return toPage(rows.map(fromRow), total, pagination);
+  }
+}
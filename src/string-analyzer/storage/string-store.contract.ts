@@ -0,0 +1,848 @@
+import { Test } from '@nestjs/testing';
+import { DiscoveryModule } from '@nestjs/core';
+import { AnalyzerRegistry } from '../analyzers/analyzer-registry.service';
+import { MetricsService } from '../../observability/metrics.service';
+import { CORE_ANALYZERS } from '../analyzers/core.analyzers';
+import { METRIC_ANALYZERS } from '../analyzers/metric.analyzers';
+import { StringAnalyzer } from '../entities/string-analyzer.entity';
+import {
+  and,
+  compare,
+  contains,
+  FilterNode,
+  frequency,
+  metadata,
+  not,
+  or,
+  tag,
+} from '../filters/filter-ast';
+import { Labels } from '../labels';
+import {
+  ANALYSIS_VERSION,
+  DEFAULT_ANALYSIS_OPTIONS,
+  sha256,
+} from '../../analysis';
+import {
+  decodeCursor,
+  Paginated,
+  PaginationOptions,
+} from '../../common/pagination';
+import { DEFAULT_COLLECTION } from '../collections';
+import { DuplicateRecordError, NewRecord, StringStore } from './string-store';
+
+/** How a spec opens a backend: an empty store per test, closed after it */
+export interface StoreHarness {
+  create(registry: AnalyzerRegistry): Promise<StringStore>;
+  dispose?(store: StringStore): Promise<void>;
+}
+
+const VALUES = [
+  'racecar',
+  'level',
+  'hello world',
+  'listen',
+  'silent',
+  'enlist',
+  'Zebra crossing ahead',
+  '...?',
+];
+
+const C = DEFAULT_COLLECTION;
+
+const ids = (page: Paginated<StringAnalyzer>) => page.data.map((r) => r.value);
+
+/**
+ * The behaviour every StringStore must share, run by one spec per backend
+ * so that filtering, paging and deletes stay identical everywhere
+ */
+export function describeStringStore(name: string, harness: StoreHarness) {
+  describe(`${name} (StringStore contract)`, () => {
+    let registry: AnalyzerRegistry;
+    let store: StringStore;
+
+    const analyzed = (
+      value: string,
+      labels: Partial<Labels> = {},
+      collection = C,
+    ) => {
+      const id = sha256(value);
+      const record: NewRecord = {
+        collection,
+        id,
+        value,
+        value_truncated: false,
+        properties: registry.analyze(
+          value,
+          id,
+          DEFAULT_ANALYSIS_OPTIONS,
+        ) as NewRecord['properties'],
+        analysis_options: DEFAULT_ANALYSIS_OPTIONS,
+        analysis_version: ANALYSIS_VERSION,
+        tags: [],
+        metadata: {},
+        ...labels,
+      };
+      return record;
+    };
+
+    const page = (
+      options: Partial<PaginationOptions> = {},
+    ): PaginationOptions => ({
+      limit: 100,
+      sort_by: 'created_at',
+      order: 'asc',
+      ...options,
+    });
+
+    /** Values matching a filter, in value order */
+    const matching = async (filter: FilterNode | null) =>
+      ids(await store.list(C, filter, 'exclude', page())).sort();
+
+    /** Insert the fixtures one by one, so created_at follows their order */
+    const seed = async () => {
+      for (const value of VALUES) {
+        await store.insert([analyzed(value)]);
+        // timestamps have millisecond precision
+        await new Promise((resolve) => setTimeout(resolve, 2));
+      }
+      await store.updateLabels(C, sha256('racecar'), {
+        tags: ['palindrome', 'car'],
+        metadata: { rank: 1, source: 'manual', reviewed: true },
+      });
+      await store.updateLabels(C, sha256('level'), {
+        tags: ['palindrome'],
+        metadata: { rank: '2', reviewed: false, extra: null },
+      });
+      await store.updateLabels(C, sha256('hello world'), {
+        metadata: { rank: 3.5, source: { origin: 'docs', id: 7 } },
+      });
+    };
+
+    beforeAll(async () => {
+      const module = await Test.createTestingModule({
+        imports: [DiscoveryModule],
+        providers: [
+          AnalyzerRegistry,
+          MetricsService,
+          ...CORE_ANALYZERS,
+          ...METRIC_ANALYZERS,
+        ],
+      }).compile();
+      await module.init();
+      registry = module.get(AnalyzerRegistry);
+    });
+
+    beforeEach(async () => {
+      store = await harness.create(registry);
+    });
+
+    afterEach(async () => {
+      await harness.dispose?.(store);
+    });
+
+    describe('records', () => {
+      it('inserts records and finds them by id or value', async () => {
+        const [created] = await store.insert([analyzed('racecar')]);
+        expect(created.created_at).toBeInstanceOf(Date);
+        expect(created.updated_at).toBeInstanceOf(Date);
+        expect(created.deleted_at ?? null).toBeNull();
+
+        const byId = await store.findOne({ collection: C, id: created.id });
+        const byValue = await store.findOne({
+          collection: C,
+          value: 'racecar',
+        });
+        expect(byId).toEqual(created);
+        expect(byValue).toEqual(created);
+        expect(
+          await store.findOne({ collection: C, value: 'missing' }),
+        ).toBeNull();
+      });
+
+      it('gives records inserted together the same created_at', async () => {
+        const created = await store.insert(VALUES.map((v) => analyzed(v)));
+        expect(created).toHaveLength(VALUES.length);
+        expect(new Set(created.map((r) => r.created_at.getTime())).size).toBe(
+          1,
+        );
+      });
+
+      it('rejects the whole insert on a duplicate id', async () => {
+        await store.insert([analyzed('racecar')]);
+        await expect(
+          store.insert([analyzed('level'), analyzed('racecar')]),
+        ).rejects.toThrow(DuplicateRecordError);
+        await expect(
+          store.insert([analyzed('level'), analyzed('level')]),
+        ).rejects.toThrow(DuplicateRecordError);
+        expect(
+          await store.findOne({ collection: C, value: 'level' }),
+        ).toBeNull();
+      });
+
+      it('finds many records by id, soft-deleted ones included', async () => {
+        await seed();
+        await store.delete({ collection: C, value: 'level' }, false);
+        const found = await store.findByIds(C, [
+          sha256('racecar'),
+          sha256('level'),
+          sha256('missing'),
+        ]);
+        expect(found.map((r) => r.value).sort()).toEqual(['level', 'racecar']);
+        expect(await store.findByIds(C, [])).toEqual([]);
+      });
+
+      it('replaces labels of live records only', async () => {
+        const [created] = await store.insert([analyzed('racecar')]);
+        const updated = await store.updateLabels(C, created.id, {
+          tags: ['a'],
+        });
+        expect(updated).toMatchObject({ tags: ['a'], metadata: {} });
+
+        const again = await store.updateLabels(C, created.id, {
+          metadata: { k: 'v' },
+        });
+        expect(again).toMatchObject({ tags: ['a'], metadata: { k: 'v' } });
+        expect(again!.updated_at.getTime()).toBeGreaterThanOrEqual(
+          created.updated_at.getTime(),
+        );
+
+        await store.delete({ collection: C, id: created.id }, false);
+        expect(
+          await store.updateLabels(C, created.id, { tags: [] }),
+        ).toBeNull();
+        expect(await store.updateLabels(C, sha256('missing'), {})).toBeNull();
+      });
+
+      it('soft deletes, restores and removes records', async () => {
+        const [created] = await store.insert([analyzed('racecar')]);
+
+        const deleted = await store.delete(
+          { collection: C, value: 'racecar' },
+          false,
+        );
+        expect(deleted).toMatchObject({ id: created.id, value: 'racecar' });
+        expect(deleted!.deleted_at).toBeInstanceOf(Date);
+        expect(
+          await store.findOne({ collection: C, id: created.id }),
+        ).toBeNull();
+        expect(
+          await store.findOne({ collection: C, id: created.id }, true),
+        ).toMatchObject({
+          id: created.id,
+        });
+        // soft deleting twice finds nothing to delete
+        expect(
+          await store.delete({ collection: C, id: created.id }, false),
+        ).toBeNull();
+
+        const restored = await store.restore(C, created.id);
+        expect(restored).toMatchObject({ id: created.id });
+        expect(restored!.deleted_at ?? null).toBeNull();
+        expect(await store.restore(C, created.id)).toBeNull();
+
+        await store.delete({ collection: C, id: created.id }, false);
+        const removed = await store.delete(
+          { collection: C, id: created.id },
+          true,
+        );
+        expect(removed).toMatchObject({ id: created.id });
+        expect(removed!.deleted_at).toBeInstanceOf(Date);
+        expect(
+          await store.findOne({ collection: C, id: created.id }, true),
+        ).toBeNull();
+        expect(
+          await store.delete({ collection: C, id: created.id }, true),
+        ).toBeNull();
+      });
+    });
+
+    describe('filters', () => {
+      beforeEach(seed);
+
+      it('matches everything without a filter', async () => {
+        expect(await matching(null)).toEqual([...VALUES].sort());
+      });
+
+      it('compares properties of every type', async () => {
+        // lenient palindromes only compare letters and numbers
+        expect(await matching(compare('is_palindrome', '=', true))).toEqual([
+          '...?',
+          'level',
+          'racecar',
+        ]);
+        expect(await matching(compare('is_palindrome', '!=', true))).toEqual([
+          'Zebra crossing ahead',
+          'enlist',
+          'hello world',
+          'listen',
+          'silent',
+        ]);
+        expect(await matching(compare('length', '>', 7))).toEqual([
+          'Zebra crossing ahead',
+          'hello world',
+        ]);
+        expect(await matching(compare('length', '<=', 5))).toEqual([
+          '...?',
+          'level',
+        ]);
+        expect(await matching(compare('word_count', '=', 3))).toEqual([
+          'Zebra crossing ahead',
+        ]);
+        expect(await matching(compare('entropy', '<', 0.9))).toEqual(['...?']);
+      });
+
+      it('compares string properties', async () => {
+        const script = (await store.findOne({
+          collection: C,
+          value: 'racecar',
+        }))!.properties.script as string;
+        expect(await matching(compare('script', '=', script))).toContain(
+          'racecar',
+        );
+        expect(await matching(compare('script', '!=', script))).not.toContain(
+          'racecar',
+        );
+      });
+
+      it('treats null properties as unknown, also under NOT', async () => {
+        const symbols = await store.findOne({ collection: C, value: '...?' });
+        expect(symbols!.properties.flesch_reading_ease).toBeNull();
+
+        const condition = compare('flesch_reading_ease', '<', 1000);
+        expect(await matching(condition)).not.toContain('...?');
+        expect(await matching(not(condition))).not.toContain('...?');
+        // unknown OR true is true, unknown AND true stays unknown
+        expect(
+          await matching(or([condition, compare('length', '=', 4)])),
+        ).toContain('...?');
+        expect(
+          await matching(and([not(condition), compare('length', '=', 4)])),
+        ).toEqual([]);
+      });
+
+      it('combines conditions with and, or and not', async () => {
+        expect(
+          await matching(
+            and([
+              compare('length', '>=', 6),
+              not(compare('is_palindrome', '=', true)),
+            ]),
+          ),
+        ).toEqual([
+          'Zebra crossing ahead',
+          'enlist',
+          'hello world',
+          'listen',
+          'silent',
+        ]);
+        expect(
+          await matching(
+            or([compare('length', '=', 4), compare('word_count', '=', 2)]),
+          ),
+        ).toEqual(['...?', 'hello world']);
+        expect(await matching(not(or([contains('l'), contains('?')])))).toEqual(
+          ['Zebra crossing ahead', 'racecar'],
+        );
+      });
+
+      it('matches everything with an empty and, nothing with an empty or', async () => {
+        expect(await matching({ type: 'and', children: [] })).toEqual(
+          [...VALUES].sort(),
+        );
+        expect(await matching({ type: 'or', children: [] })).toEqual([]);
+        expect(await matching(not({ type: 'or', children: [] }))).toHaveLength(
+          VALUES.length,
+        );
+      });
+
+      it('checks characters and their frequencies', async () => {
+        expect(await matching(contains('z'))).toEqual([]);
+        expect(await matching(contains('Z'))).toEqual(['Zebra crossing ahead']);
+        expect(await matching(frequency('l', '>=', 2))).toEqual([
+          'hello world',
+          'level',
+        ]);
+        // characters missing from the map occur zero times
+        expect(await matching(frequency('?', '=', 0))).toHaveLength(
+          VALUES.length - 1,
+        );
+        expect(await matching(not(contains('e')))).toEqual(['...?']);
+      });
+
+      it('matches tags', async () => {
+        expect(await matching(tag('palindrome'))).toEqual(['level', 'racecar']);
+        expect(await matching(tag('car'))).toEqual(['racecar']);
+        expect(await matching(tag('Car'))).toEqual([]);
+        expect(await matching(not(tag('palindrome')))).toHaveLength(
+          VALUES.length - 2,
+        );
+      });
+
+      it('compares metadata numbers with numeric values only', async () => {
+        expect(await matching(metadata('rank', '=', 1))).toEqual(['racecar']);
+        expect(await matching(metadata('rank', '>', 1))).toEqual([
+          'hello world',
+        ]);
+        expect(await matching(metadata('rank', '!=', 1))).toEqual([
+          'hello world',
+        ]);
+        expect(await matching(metadata('rank', '<', 10))).toEqual([
+          'hello world',
+          'racecar',
+        ]);
+      });
+
+      it('compares metadata strings with the text of any value', async () => {
+        expect(await matching(metadata('rank', '=', '2'))).toEqual(['level']);
+        expect(await matching(metadata('rank', '=', '1'))).toEqual(['racecar']);
+        expect(await matching(metadata('source', '=', 'manual'))).toEqual([
+          'racecar',
+        ]);
+        expect(
+          await matching(
+            metadata('source', '=', '{"id": 7, "origin": "docs"}'),
+          ),
+        ).toEqual(['hello world']);
+        expect(await matching(metadata('reviewed', '=', 'true'))).toEqual([
+          'racecar',
+        ]);
+        // missing keys and JSON null never match
+        expect(await matching(metadata('source', '!=', 'manual'))).toEqual([
+          'hello world',
+        ]);
+        expect(await matching(metadata('extra', '!=', 'x'))).toEqual([]);
+      });
+
+      it('compares metadata booleans with JSON equality', async () => {
+        expect(await matching(metadata('reviewed', '=', true))).toEqual([
+          'racecar',
+        ]);
+        expect(await matching(metadata('reviewed', '=', false))).toEqual([
+          'level',
+        ]);
+        // any present value other than true differs, missing keys never match
+        expect(await matching(metadata('reviewed', '!=', true))).toEqual([
+          'level',
+        ]);
+        expect(await matching(metadata('rank', '!=', true))).toEqual([
+          'hello world',
+          'level',
+          'racecar',
+        ]);
+        expect(await matching(metadata('extra', '!=', false))).toEqual([
+          'level',
+        ]);
+      });
+
+      it('keeps metadata conditions known under NOT', async () => {
+        expect(await matching(not(metadata('rank', '=', 1)))).toHaveLength(
+          VALUES.length - 1,
+        );
+      });
+
+      it('rejects invalid filters', async () => {
+        await expect(
+          store.list(C, compare('nope', '=', 1), 'exclude', page()),
+        ).rejects.toThrow();
+        await expect(
+          store.list(C, compare('length', '=', 'long'), 'exclude', page()),
+        ).rejects.toThrow();
+        await expect(
+          store.list(C, metadata('rank', '>', true), 'exclude', page()),
+        ).rejects.toThrow();
+      });
+    });
+
+    describe('listing', () => {
+      beforeEach(seed);
+
+      it('counts every match and orders by created_at', async () => {
+        const first = await store.list(C, null, 'exclude', page({ limit: 3 }));
+        expect(first.total).toBe(VALUES.length);
+        expect(ids(first)).toEqual(VALUES.slice(0, 3));
+
+        const last = await store.list(
+          C,
+          null,
+          'exclude',
+          page({ limit: 3, order: 'desc' }),
+        );
+        expect(ids(last)).toEqual(VALUES.slice(-3).reverse());
+      });
+
+      it('pages by offset', async () => {
+        const second = await store.list(
+          C,
+          null,
+          'exclude',
+          page({ limit: 3, page: 2 }),
+        );
+        expect(ids(second)).toEqual(VALUES.slice(3, 6));
+        expect(second.page).toBe(2);
+        expect(second.prev_cursor).not.toBeNull();
+        expect(second.next_cursor).not.toBeNull();
+
+        const beyond = await store.list(
+          C,
+          null,
+          'exclude',
+          page({ limit: 3, page: 4 }),
+        );
+        expect(beyond).toMatchObject({
+          data: [],
+          total: VALUES.length,
+          next_cursor: null,
+          prev_cursor: null,
+        });
+      });
+
+      it.each([
+        ['created_at', 'asc'],
+        ['length', 'asc'],
+        ['length', 'desc'],
+        ['word_count', 'desc'],
+        ['unique_characters', 'asc'],
+      ] as const)(
+        'walks cursors forwards and back, by %s %s',
+        async (sort_by, order) => {
+          const all = ids(
+            await store.list(C, null, 'exclude', page({ sort_by, order })),
+          );
+          const sortKey = (value: string) =>
+            sort_by === 'created_at'
+              ? VALUES.indexOf(value)
+              : (registry.analyze(
+                  value,
+                  sha256(value),
+                  DEFAULT_ANALYSIS_OPTIONS,
+                )[sort_by] as number);
+          const keys = all.map(sortKey);
+          expect(keys).toEqual(
+            [...keys].sort((a, b) => (order === 'asc' ? a - b : b - a)),
+          );
+
+          const forwards: string[] = [];
+          let current = await store.list(
+            C,
+            null,
+            'exclude',
+            page({ sort_by, order, limit: 3 }),
+          );
+          const pages = [current];
+          forwards.push(...ids(current));
+          while (current.next_cursor) {
+            current = await store.list(
+              C,
+              null,
+              'exclude',
+              page({
+                sort_by,
+                order,
+                limit: 3,
+                cursor: decodeCursor(current.next_cursor),
+              }),
+            );
+            pages.push(current);
+            forwards.push(...ids(current));
+          }
+          expect(forwards).toEqual(all);
+
+          // prev cursors lead back through the same pages
+          for (let i = pages.length - 1; i > 0; i--) {
+            const previous = await store.list(
+              C,
+              null,
+              'exclude',
+              page({
+                sort_by,
+                order,
+                limit: 3,
+                cursor: decodeCursor(pages[i].prev_cursor!),
+              }),
+            );
+            expect(ids(previous)).toEqual(ids(pages[i - 1]));
+          }
+          expect(pages[0].prev_cursor).toBeNull();
+        },
+      );
+
+      it('applies filters and cursors together', async () => {
+        const filter = compare('length', '>=', 6);
+        const first = await store.list(
+          C,
+          filter,
+          'exclude',
+          page({ limit: 2 }),
+        );
+        expect(first.total).toBe(6);
+        const second = await store.list(
+          C,
+          filter,
+          'exclude',
+          page({ limit: 2, cursor: decodeCursor(first.next_cursor!) }),
+        );
+        expect(ids(second)).toEqual(['listen', 'silent']);
+        expect(second.total).toBe(6);
+      });
+
+      it('scopes listings to live, all or soft-deleted records', async () => {
+        await store.delete({ collection: C, value: 'level' }, false);
+        await store.delete({ collection: C, value: 'listen' }, false);
+
+        const live = await store.list(C, null, 'exclude', page());
+        const all = await store.list(C, null, 'include', page());
+        const gone = await store.list(C, null, 'only', page());
+        expect(live.total).toBe(VALUES.length - 2);
+        expect(all.total).toBe(VALUES.length);
+        expect(ids(gone)).toEqual(['level', 'listen']);
+
+        const palindromes = compare('is_palindrome', '=', true);
+        expect(ids(await store.list(C, palindromes, 'only', page()))).toEqual([
+          'level',
+        ]);
+      });
+
+      it('lists live anagrams, the source excluded', async () => {
+        const listen = (await store.findOne({
+          collection: C,
+          value: 'listen',
+        }))!;
+        const anagrams = await store.anagrams(listen, page());
+        expect(anagrams.total).toBe(2);
+        expect(ids(anagrams)).toEqual(['silent', 'enlist']);
+
+        await store.delete({ collection: C, value: 'silent' }, false);
+        expect(ids(await store.anagrams(listen, page()))).toEqual(['enlist']);
+
+        const racecar = (await store.findOne({
+          collection: C,
+          value: 'racecar',
+        }))!;
+        expect((await store.anagrams(racecar, page())).total).toBe(0);
+      });
+
+      it('leaves truncated values out of anagrams', async () => {
+        const [tinsel] = await store.insert([
+          { ...analyzed('tinsel'), value_truncated: true },
+        ]);
+        expect(tinsel.value_truncated).toBe(true);
+
+        const listen = (await store.findOne({
+          collection: C,
+          value: 'listen',
+        }))!;
+        expect(ids(await store.anagrams(listen, page()))).toEqual([
+          'silent',
+          'enlist',
+        ]);
+        expect((await store.anagrams(tinsel, page())).total).toBe(0);
+      });
+    });
+
+    describe('hasId', () => {
+      it('finds ids in any collection, soft-deleted ones included', async () => {
+        const record = analyzed('racecar', {}, 'team-a');
+        expect(await store.hasId(record.id)).toBe(false);
+
+        await store.insert([record]);
+        await store.delete({ collection: 'team-a', id: record.id }, false);
+        expect(await store.hasId(record.id)).toBe(true);
+
+        await store.delete({ collection: 'team-a', id: record.id }, true);
+        expect(await store.hasId(record.id)).toBe(false);
+      });
+    });
+
+    describe('ping', () => {
+      it('resolves while the backend serves requests', async () => {
+        await expect(store.ping()).resolves.toBeUndefined();
+      });
+    });
+
+    describe('deleteMatching', () => {
+      beforeEach(seed);
+
+      const palindromes = tag('palindrome');
+
+      it('deletes nothing unless the expected count matches', async () => {
+        for (const expected of [null, 1, 3]) {
+          expect(
+            await store.deleteMatching(C, palindromes, 'exclude', {
+              permanent: false,
+              expected,
+            }),
+          ).toEqual({ matched: 2, removed: [] });
+        }
+        expect(await matching(palindromes)).toEqual(['level', 'racecar']);
+      });
+
+      it('soft deletes the matches, returning them as deleted', async () => {
+        const { matched, removed } = await store.deleteMatching(
+          C,
+          palindromes,
+          'exclude',
+          { permanent: false, expected: 2 },
+        );
+        expect(matched).toBe(2);
+        expect(removed.map((r) => r.value).sort()).toEqual([
+          'level',
+          'racecar',
+        ]);
+        for (const record of removed) {
+          expect(record.deleted_at).toBeInstanceOf(Date);
+        }
+        expect(await matching(palindromes)).toEqual([]);
+        expect(
+          ids(await store.list(C, palindromes, 'only', page())).sort(),
+        ).toEqual(['level', 'racecar']);
+      });
+
+      it('removes soft-deleted matches permanently', async () => {
+        await store.delete({ collection: C, value: 'level' }, false);
+        const { removed } = await store.deleteMatching(C, palindromes, 'only', {
+          permanent: true,
+          expected: 1,
+        });
+        expect(removed.map((r) => r.value)).toEqual(['level']);
+        expect(
+          await store.findOne({ collection: C, value: 'level' }, true),
+        ).toBeNull();
+        expect(
+          await store.findOne({ collection: C, value: 'racecar' }),
+        ).not.toBeNull();
+      });
+    });
+
+    describe('collections', () => {
+      const TEAM = 'team-a';
+
+      beforeEach(async () => {
+        await seed();
+        await store.insert([
+          analyzed('racecar', { tags: ['team'] }, TEAM),
+          analyzed('tinsel', {}, TEAM),
+        ]);
+      });
+
+      it('scopes ids, lookups and listings to a collection', async () => {
+        const own = await store.findOne({ collection: TEAM, value: 'racecar' });
+        expect(own).toMatchObject({ collection: TEAM, tags: ['team'] });
+        expect(
+          await store.findOne({ collection: TEAM, value: 'level' }),
+        ).toBeNull();
+        expect(
+          await store.findByIds(TEAM, [sha256('racecar'), sha256('level')]),
+        ).toHaveLength(1);
+
+        const listed = await store.list(TEAM, null, 'exclude', page());
+        expect(ids(listed).sort()).toEqual(['racecar', 'tinsel']);
+        expect(
+          ids(await store.list(TEAM, tag('palindrome'), 'exclude', page())),
+        ).toEqual([]);
+        expect((await store.list(C, null, 'exclude', page())).total).toBe(
+          VALUES.length,
+        );
+      });
+
+      it('writes to one collection only', async () => {
+        await store.updateLabels(TEAM, sha256('racecar'), { tags: [] });
+        expect(
+          (await store.findOne({ collection: C, value: 'racecar' }))!.tags,
+        ).toEqual(['palindrome', 'car']);
+
+        await store.delete({ collection: TEAM, value: 'racecar' }, false);
+        expect(
+          await store.findOne({ collection: C, value: 'racecar' }),
+        ).not.toBeNull();
+        expect(await store.restore(C, sha256('racecar'))).toBeNull();
+        expect(await store.restore(TEAM, sha256('racecar'))).not.toBeNull();
+
+        const { matched } = await store.deleteMatching(
+          TEAM,
+          compare('length', '=', 7),
+          'exclude',
+          { permanent: true, expected: 1 },
+        );
+        expect(matched).toBe(1);
+        expect(
+          await store.findOne({ collection: C, value: 'racecar' }),
+        ).not.toBeNull();
+      });
+
+      it('finds anagrams within the collection of the source', async () => {
+        const tinsel = (await store.findOne({
+          collection: TEAM,
+          value: 'tinsel',
+        }))!;
+        expect((await store.anagrams(tinsel, page())).total).toBe(0);
+
+        const listen = (await store.findOne({
+          collection: C,
+          value: 'listen',
+        }))!;
+        expect(ids(await store.anagrams(listen, page()))).toEqual([
+          'silent',
+          'enlist',
+        ]);
+      });
+
+      it('summarises every collection by name', async () => {
+        await store.delete({ collection: TEAM, value: 'tinsel' }, false);
+        const summaries = await store.collections();
+        expect(summaries.map((c) => c.name)).toEqual([C, TEAM]);
+        expect(summaries[0]).toMatchObject({
+          strings: VALUES.length,
+          deleted: 0,
+        });
+        expect(summaries[1]).toMatchObject({ strings: 1, deleted: 1 });
+        expect(summaries[1].created_at).toBeInstanceOf(Date);
+        expect(summaries[1].updated_at.getTime()).toBeGreaterThanOrEqual(
+          summaries[1].created_at.getTime(),
+        );
+
+        expect(await store.collections(TEAM)).toEqual([summaries[1]]);
+        expect(await store.collections('missing')).toEqual([]);
+      });
+
+      it('copies live records into an empty collection only', async () => {
+        await store.delete({ collection: C, value: 'level' }, false);
+        const result = await store.copy(C, 'copy', { merge: false });
+        expect(result!.skipped).toBe(0);
+        expect(result!.copied.map((r) => r.value).sort()).toEqual(
+          VALUES.filter((v) => v !== 'level').sort(),
+        );
+        const copy = (await store.findOne({
+          collection: 'copy',
+          value: 'racecar',
+        }))!;
+        expect(copy).toMatchObject({
+          id: sha256('racecar'),
+          tags: ['palindrome', 'car'],
+        });
+        expect(copy.deleted_at ?? null).toBeNull();
+
+        expect(await store.copy(C, TEAM, { merge: false })).toBeNull();
+        expect((await store.list(TEAM, null, 'include', page())).total).toBe(2);
+      });
+
+      it('merges the records the target lacks, deleted ones included', async () => {
+        await store.delete({ collection: TEAM, value: 'racecar' }, false);
+        const result = await store.copy(C, TEAM, { merge: true });
+        expect(result!.skipped).toBe(1);
+        expect(result!.copied).toHaveLength(VALUES.length - 1);
+        expect(
+          (await store.findOne({ collection: TEAM, value: 'racecar' }, true))!
+            .tags,
+        ).toEqual(['team']);
+        expect((await store.list(TEAM, null, 'exclude', page())).total).toBe(
+          VALUES.length,
+        );
+        expect(await store.copy(C, TEAM, { merge: true })).toEqual({
+          copied: [],
+          skipped: VALUES.length,
+        });
+      });
+    });
+  });
+}
@@ -0,0 +1,49 @@
+import { FactoryProvider } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { StringAnalyzer } from '../entities/string-analyzer.entity';
+import { AnalyzerRegistry } from '../analyzers/analyzer-registry.service';
+import { StringStore } from './string-store';
+import { PostgresStringStore } from './postgres-string.store';
+import { MemoryStringStore } from './memory-string.store';
+import { SqliteStringStore } from './sqlite-string.store';
+import { postgresOnly } from '../../database/postgres';
+
+export const STRING_STORES = ['postgres', 'sqlite', 'memory'] as const;
+
+/**
+ * Provides the StringStore named by STRING_STORE (postgres by default).
+ * The sqlite store keeps its database in SQLITE_PATH, in memory when unset.
+ * TypeORM is loaded only for the postgres store (see whenPostgres).
+ */
+export const stringStoreProvider: FactoryProvider<StringStore> = {
+  provide: StringStore,
+  useFactory: (
+    config: ConfigService,
+    repo: Repository<StringAnalyzer> | undefined,
+    registry: AnalyzerRegistry,
+  ) => {
+    const backend = config.get<string>('STRING_STORE') || 'postgres';
+    switch (backend) {
+      case 'postgres':
+        return new PostgresStringStore(postgresOnly(repo), registry);
+      case 'sqlite':
+        return new SqliteStringStore(
+          registry,
+          config.get<string>('SQLITE_PATH') || ':memory:',
+        );
+      case 'memory':
+        return new MemoryStringStore(registry);
+      default:
+        throw new Error(
+          `Unknown STRING_STORE "${backend}" (expected ${STRING_STORES.join(', ')})`,
+        );
+    }
+  },
+  inject: [
+    ConfigService,
+    { token: getRepositoryToken(StringAnalyzer), optional: true },
+    AnalyzerRegistry,
+  ],
+};
@@ -0,0 +1,192 @@
+import { StringAnalyzer } from '../entities/string-analyzer.entity';
+import { CollectionSummary } from '../collections';
+import { FilterNode } from '../filters/filter-ast';
+import { Labels } from '../labels';
+import { Paginated, PaginationOptions } from '../../common/pagination';
+
+export const SORT_FIELDS = [
+  'created_at',
+  'length',
+  'word_count',
+  'unique_characters',
+] as const;
+export type SortField = (typeof SORT_FIELDS)[number];
+
+/**
+ * Which records a listing or bulk delete sees:
+ * live ones (default), live and soft-deleted ones, or only soft-deleted ones
+ */
+export const DELETED_SCOPES = ['exclude', 'include', 'only'] as const;
+export type DeletedScope = (typeof DELETED_SCOPES)[number];
+
+/** A record of a collection by its sha256 id or by its value */
+export type RecordKey = { collection: string } & (
+  | { id: string }
+  | { value: string }
+);
+
+/** A record to insert; the store sets the timestamps */
+export type NewRecord = Omit<
+  StringAnalyzer,
+  'created_at' | 'updated_at' | 'deleted_at'
+>;
+
+/**
+ * Persistence of analysed strings, the port behind StringAnalyzerService.
+ * The abstract class doubles as the injection token; backends are chosen
+ * by STRING_STORE (see stringStoreProvider).
+ *
+ * Every backend must behave identically, which string-store.contract.ts
+ * checks for each of them:
+ * - filters follow validateFilter and the SQL semantics of compileFilter,
+ *   three-valued logic included
+ * - listings are ordered by (sort value, created_at, id) and paginated by
+ *   offset or keyset cursor, with `total` counting every match
+ * - soft-deleted records are hidden unless asked for
+ * - records inserted together share their created_at
+ * - every record belongs to one collection, and ids are unique per collection
+ * Backends throw plain errors (DuplicateRecordError for an id already
+ * stored); the service turns them into problems.
+ */
+export abstract class StringStore {
+  /** The record with the id or value; soft-deleted ones only when asked */
+  abstract findOne(
+    key: RecordKey,
+    withDeleted?: boolean,
+  ): Promise<StringAnalyzer | null>;
+
+  /** Records of a collection with any of the ids, soft-deleted ones included */
+  abstract findByIds(
+    collection: string,
+    ids: string[],
+  ): Promise<StringAnalyzer[]>;
+
+  /**
+   * Whether a record of any collection has the id, soft-deleted ones
+   * included; blobs of large values are shared by every such record
+   */
+  abstract hasId(id: string): Promise<boolean>;
+
+  /** Resolves once the backend answers a trivial query, for readiness probes */
+  abstract ping(): Promise<void>;
+
+  /**
+   * Insert new records atomically, returning them as stored; throws
+   * DuplicateRecordError when one of the ids is taken
+   */
+  abstract insert(records: NewRecord[]): Promise<StringAnalyzer[]>;
+
+  /**
+   * Replace the tags and/or metadata of a live record, returning it as
+   * stored; null when there is no live record with the id
+   */
+  abstract updateLabels(
+    collection: string,
+    id: string,
+    labels: Partial<Labels>,
+  ): Promise<StringAnalyzer | null>;
+
+  /**
+   * Soft delete a live record, or remove any record when `permanent`,
+   * returning it as it was deleted; null when there is none
+   */
+  abstract delete(
+    key: RecordKey,
+    permanent: boolean,
+  ): Promise<StringAnalyzer | null>;
+
+  /**
+   * Undo the soft delete of a record, returning it as stored; null when
+   * there is no soft-deleted record with the id
+   */
+  abstract restore(
+    collection: string,
+    id: string,
+  ): Promise<StringAnalyzer | null>;
+
+  /**
+   * One page of the records of a collection matching a filter tree
+   * (null for all)
+   */
+  abstract list(
+    collection: string,
+    filter: FilterNode | null,
+    deleted: DeletedScope,
+    pagination: PaginationOptions,
+  ): Promise<Paginated<StringAnalyzer>>;
+
+  /**
+   * One page of the live anagrams of a record within its collection, the
+   * record itself excluded
+   */
+  abstract anagrams(
+    source: StringAnalyzer,
+    pagination: PaginationOptions,
+  ): Promise<Paginated<StringAnalyzer>>;
+
+  /**
+   * Count the records of a collection matching a filter tree and, if there are exactly
+   * `expected` of them, delete them, atomically. `removed` holds the
+   * deleted records as they were deleted, empty when nothing was.
+   */
+  abstract deleteMatching(
+    collection: string,
+    filter: FilterNode,
+    deleted: DeletedScope,
+    options: { permanent: boolean; expected: number | null },
+  ): Promise<{ matched: number; removed: StringAnalyzer[] }>;
+
+  /**
+   * Every collection holding records, deleted ones included, by name; only
+   * the named one when given
+   */
+  abstract collections(name?: string): Promise<CollectionSummary[]>;
+
+  /**
+   * Copy the live records of a collection into another one, atomically.
+   * Records the target already holds, soft-deleted or not, are skipped;
+   * copies get new timestamps. Without `merge` nothing is copied into a
+   * target holding any record, which gives null.
+   */
+  abstract copy(
+    source: string,
+    target: string,
+    options: { merge: boolean },
+  ): Promise<{ copied: StringAnalyzer[]; skipped: number } | null>;
+}
+
+/**
+ * An insert met a record already stored, or repeated, with one of its ids;
+ * nothing was inserted
+ */
+export class DuplicateRecordError extends Error {
+  constructor() {
+    super('A record with the id is already stored in the collection');
+  }
+}
+
+/** A stored record as a new record of a collection, for copies */
+export function copyInto(
+  collection: string,
+  record: StringAnalyzer,
+): NewRecord {
+  return {
+    collection,
+    id: record.id,
+    value: record.value,
+    value_truncated: record.value_truncated,
+    properties: record.properties,
+    analysis_options: record.analysis_options,
+    analysis_version: record.analysis_version,
+    tags: record.tags,
+    metadata: record.metadata,
+  };
+}
+
+/**
+ * Run the synchronous work of a store as a promise, so thrown errors
+ * reject like those of asynchronous stores
+ */
+export function settle<T>(work: () => T): Promise<T> {
+  return new Promise((resolve) => resolve(work()));
+}
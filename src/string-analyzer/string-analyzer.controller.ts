@@ -4,214 +4,1166 @@ import {
   Body,
   Get,
   Delete,
+  Patch,
   Param,
   HttpCode,
   Query,
-  BadRequestException,
-  UnprocessableEntityException,
-  ConflictException,
+  HttpException,
+  Req,
+  Res,
+  Sse,
+  MessageEvent,
+  Logger,
 } from '@nestjs/common';
-import { StringAnalyzerService } from './string-analyzer.service';
+import {
+  ApiBody,
+  ApiConsumes,
+  ApiCreatedResponse,
+  ApiExtraModels,
+  ApiNoContentResponse,
+  ApiOkResponse,
+  ApiOperation,
+  ApiParam,
+  ApiProduces,
+  ApiTags,
+  getSchemaPath,
+} from '@nestjs/swagger';
+import type { Request, Response } from 'express';
+import { filter as where, interval, map, merge, Observable } from 'rxjs';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import {
+  MAX_BATCH_SIZE,
+  PropertyFilters,
+  SaveMode,
+  StringAnalyzerService,
+} from './string-analyzer.service';
+import { SORT_FIELDS } from './storage/string-store';
+import { AnalyzerRegistry } from './analyzers/analyzer-registry.service';
+import {
+  and,
+  FilterNode,
+  formatFilter,
+  metadata,
+  tag,
+} from './filters/filter-ast';
+import { matchesFilter } from './filters/filter-evaluator';
+import { parseLabels } from './labels';
+import { EVENT_TYPES, StringEventsService } from './string-events.service';
+import { COLLECTION_STRINGS_PATH, CollectionName } from './collections';
+import {
+  AnalysisVolume,
+  type AuthenticatedKey,
+  CurrentKey,
+  RequireScope,
+} from '../auth/auth.decorators';
+import { QuotaService } from '../auth/quota.service';
+import { resolveAnalysisOptions } from './analyzers/analysis-options';
+import { isSingleGrapheme } from '../analysis';
+import {
+  SearchHit,
+  SearchOptions,
+  StringSearchService,
+} from './string-search.service';
+import { StringStatsService } from './string-stats.service';
+import { StringAnalyzer } from './entities/string-analyzer.entity';
+import { StringCompareService } from './string-compare.service';
+import {
+  IMPORT_FORMATS,
+  ImportFormat,
+  StringTransferService,
+} from './string-transfer.service';
+import {
+  DEFAULT_PAGE_LIMIT,
+  PaginationOptions,
+  parsePagination,
+} from '../common/pagination';
+import {
+  ApiException,
+  invalidBody,
+  invalidQuery,
+  unexpected,
+} from '../common/errors';
+import {
+  ApiConditional,
+  ApiProblems,
+  ApiPropertyFilters,
+} from '../common/api-docs';
+import { setRecordValidators } from '../common/conditional';
+import { AnalysisPreviewDto, StringRecordDto } from './dto/string-record.dto';
+import {
+  AnalyzeBatchDto,
+  AnalyzeStringDto,
+  CreateStringDto,
+  UpdateLabelsDto,
+} from './dto/string-requests.dto';
+import {
+  BulkDeleteQueryDto,
+  CompareQueryDto,
+  DeleteQueryDto,
+  EventsQueryDto,
+  ExportQueryDto,
+  GetStringQueryDto,
+  ImportQueryDto,
+  ListStringsQueryDto,
+  NaturalLanguageQueryDto,
+  SaveQueryDto,
+  SearchQueryDto,
+  StatsQueryDto,
+  StringPageQueryDto,
+} from './dto/string-queries.dto';
+import {
+  BatchResultDto,
+  BulkDeleteResultDto,
+  ComparisonDto,
+  DryRunResultDto,
+  FilteredStringPageDto,
+  ImportOutcomeDto,
+  NaturalLanguageResultDto,
+  SearchResultDto,
+  StatsDto,
+  StringEventDto,
+  StringPageDto,
+} from './dto/string-responses.dto';
+import { PostgresOnly } from '../database/postgres';
+
+/** Interval of the keep-alive events of GET /strings/events */
+const HEARTBEAT_MS = 30_000;
 
-@Controller('strings')
+/** Values of a batch body, 0 when the batch will be rejected anyway */
+function batchVolume(req: Request): number {
+  const values = (req.body as { values?: unknown } | undefined)?.values;
+  return Array.isArray(values) && values.length <= MAX_BATCH_SIZE
+    ? values.length
+    : 0;
+}
+
+/**
+ * Every route is served twice: under /strings for the default collection
+ * and under /collections/:collection/strings for a named one
+ */
+@ApiTags('strings')
+@Controller(['strings', COLLECTION_STRINGS_PATH])
+@RequireScope('read')
 export class StringAnalyzerController {
-  constructor(private readonly service: StringAnalyzerService) {}
+  private readonly logger = new Logger(StringAnalyzerController.name);
+
+  constructor(
+    private readonly service: StringAnalyzerService,
+    private readonly registry: AnalyzerRegistry,
+    private readonly searchService: StringSearchService,
+    private readonly statsService: StringStatsService,
+    private readonly transferService: StringTransferService,
+    private readonly compareService: StringCompareService,
+    private readonly quota: QuotaService,
+    private readonly eventsService: StringEventsService,
+  ) {}
 
   /**
    * POST /strings
+   * - body: value, optional options, tags (array of strings) and metadata (object)
    * - 201 Created on success
-   * - 400 Bad Request if missing 'value'
+   * - ?upsert=true: 200 with the stored record instead of 409
+   * - ?dry_run=true: 200 with { exists, data }, nothing is written
+   * - 400 Bad Request if missing 'value', invalid 'options', labels or flags
+   * - 413 if 'value' exceeds MAX_VALUE_BYTES
    * - 422 Unprocessable Entity if wrong data type
-   * - 409 Conflict if duplicate
+   * - 409 Conflict if duplicate, or if the stored record is soft deleted
    */
   @Post()
   @HttpCode(201)
-  async analyze(@Body('value') value: unknown) {
-    // missing 'value'
-    if (typeof value === 'undefined') {
-      throw new BadRequestException(
-        'Invalid request body or missing "value" field',
-      );
-    }
+  @RequireScope('write')
+  @AnalysisVolume(() => 1)
+  @ApiOperation({
+    operationId: 'createString',
+    summary: 'Analyze and store a string',
+  })
+  @ApiCreatedResponse({ type: StringRecordDto })
+  @ApiExtraModels(DryRunResultDto)
+  @ApiOkResponse({
+    description: 'The stored record with upsert, { exists, data } with dry_run',
+    schema: {
+      oneOf: [
+        { $ref: getSchemaPath(StringRecordDto) },
+        { $ref: getSchemaPath(DryRunResultDto) },
+      ],
+    },
+  })
+  @ApiProblems(
+    'INVALID_BODY',
+    'INVALID_QUERY_PARAMETER',
+    'INVALID_ANALYSIS_OPTIONS',
+    'VALUE_TOO_LARGE',
+    'INVALID_VALUE_TYPE',
+    'STRING_EXISTS',
+    'STRING_DELETED',
+    'QUOTA_EXCEEDED',
+  )
+  async analyze(
+    @CollectionName() collection: string,
+    @Body() body: CreateStringDto,
+    @Query() query: SaveQueryDto,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    const options = resolveAnalysisOptions(body.options);
+    const labels = parseLabels({ tags: body.tags, metadata: body.metadata });
 
-    // validate type
-    if (typeof value !== 'string') {
-      throw new UnprocessableEntityException(
-        'Invalid data type for value (must be string)',
-      );
-    }
+    const mode: SaveMode = query.dry_run
+      ? 'dry_run'
+      : query.upsert
+        ? 'upsert'
+        : 'create';
 
     try {
-      const created = await this.service.analyzeAndSave(value);
-      return created; // 201 due to @HttpCode
+      const result = await this.service.analyzeAndSave(
+        collection,
+        body.value,
+        options,
+        mode,
+        labels,
+      );
+      if (mode === 'dry_run') {
+        res.status(200);
+        return { exists: result.status === 'existing', data: result.data };
+      }
+      if (result.status === 'existing') res.status(200);
+      return result.data; // 201 due to @HttpCode
     } catch (err) {
       // rethrow known exceptions so nest converts to correct status code
-      if (
-        err instanceof BadRequestException ||
-        err instanceof ConflictException ||
-        err instanceof UnprocessableEntityException
-      ) {
-        throw err;
-      }
+      if (err instanceof HttpException) throw err;
       // unexpected
-      console.error('POST /strings error:', err);
-      throw new UnprocessableEntityException('Internal Server Error');
+      this.logger.error('POST /strings error', err);
+      throw unexpected(err);
     }
   }
 
   /**
-   * Natural language endpoint:
-   * - 400 if unable to parse
-   * - 422 if parsed but filters conflict (parse method throws UnprocessableEntityException)
-   * - 200 with results (can be empty) otherwise
+   * POST /strings/analyze
+   * - 200 with the analysis of 'value', nothing is written
+   * - 400 Bad Request if missing 'value' or invalid 'options'
+   * - 413 if 'value' exceeds MAX_VALUE_BYTES
+   * - 422 Unprocessable Entity if wrong data type
    */
-  @Get('filter-by-natural-language')
-  async filterByNaturalLanguage(@Query('query') query?: string) {
-    if (!query || query.trim() === '') {
-      throw new BadRequestException('Query parameter is required');
-    }
+  @Post('analyze')
+  @HttpCode(200)
+  @AnalysisVolume(() => 1)
+  @ApiOperation({
+    operationId: 'analyzeString',
+    summary: 'Analyze a string without storing it',
+  })
+  @ApiOkResponse({ type: AnalysisPreviewDto })
+  @ApiProblems(
+    'INVALID_BODY',
+    'INVALID_ANALYSIS_OPTIONS',
+    'VALUE_TOO_LARGE',
+    'INVALID_VALUE_TYPE',
+    'QUOTA_EXCEEDED',
+  )
+  preview(@Body() body: AnalyzeStringDto) {
+    return this.service.analyze(
+      body.value,
+      resolveAnalysisOptions(body.options),
+    );
+  }
+
+  /**
+   * POST /strings/batch
+   * - 200 with one result per item (created, duplicate or invalid)
+   * - 400 if 'values' is missing, not an array, empty or too large, or 'options' is invalid
+   * - 409 if a concurrent request stored one of the values; retry
+   */
+  @Post('batch')
+  @HttpCode(200)
+  @RequireScope('write')
+  @AnalysisVolume(batchVolume)
+  @ApiOperation({
+    operationId: 'analyzeBatch',
+    summary: 'Analyze and store many strings',
+  })
+  @ApiOkResponse({ type: BatchResultDto })
+  @ApiProblems(
+    'INVALID_BODY',
+    'INVALID_ANALYSIS_OPTIONS',
+    'BATCH_TOO_LARGE',
+    'STRING_EXISTS',
+    'QUOTA_EXCEEDED',
+  )
+  async analyzeBatch(
+    @CollectionName() collection: string,
+    @Body() body: AnalyzeBatchDto,
+  ) {
+    const options = resolveAnalysisOptions(body.options);
 
-    // parseNaturalQuery may throw UnprocessableEntityException for conflicts
-    type NLFilters = {
-      is_palindrome?: boolean;
-      min_length?: number;
-      max_length?: number;
-      word_count?: number;
-      contains_character?: string;
-      [key: string]: unknown;
+    const results = await this.service.analyzeBatch(
+      collection,
+      body.values,
+      options,
+    );
+    const summary = { created: 0, duplicate: 0, invalid: 0 };
+    for (const r of results) summary[r.status]++;
+
+    return {
+      results,
+      count: results.length,
+      summary,
     };
+  }
 
-    let parsedFilters: NLFilters | null = null;
-    try {
-      parsedFilters = this.service.parseNaturalQuery(
-        query.toLowerCase().trim(),
-      ) as NLFilters;
-    } catch (err) {
-      if (err instanceof UnprocessableEntityException) throw err; // 422
-      throw new BadRequestException('Unable to parse natural language query'); // 400
-    }
+  /**
+   * Natural language endpoint:
+   * - 400 if unable to parse, naming the tokens not understood
+   * - 422 if parsed but filters conflict (parse method throws CONFLICTING_FILTERS)
+   * - 200 with results (can be empty) otherwise, and how the query was
+   *   read: the span of each filter, ignored tokens and suggestions
+   */
+  @Get('filter-by-natural-language')
+  @ApiOperation({
+    operationId: 'filterByNaturalLanguage',
+    summary: 'List strings matching a natural language query',
+  })
+  @ApiOkResponse({ type: NaturalLanguageResultDto })
+  @ApiProblems(
+    'INVALID_QUERY_PARAMETER',
+    'UNPARSEABLE_QUERY',
+    'CONFLICTING_FILTERS',
+  )
+  async filterByNaturalLanguage(
+    @CollectionName() collection: string,
+    @Query() query: NaturalLanguageQueryDto,
+  ) {
+    const pagination = parsePagination(query, SORT_FIELDS, 'created_at');
 
-    if (!parsedFilters || Object.keys(parsedFilters).length === 0) {
-      throw new BadRequestException('Unable to parse natural language query');
-    }
+    // throws UNPARSEABLE_QUERY (400) or CONFLICTING_FILTERS (422)
+    const parsed = await this.service.parseNaturalQuery(query.query);
 
     // fetch results (returns [] when none)
-    const data = await this.service.getAllWithFilters(parsedFilters);
+    const { data, ...page } = await this.service.getAllWithFilters(
+      collection,
+      parsed.filter,
+      pagination,
+    );
 
     return {
-      data: data.map((d) => ({
-        id: d.id,
-        value: d.value,
-        properties: d.properties,
-        created_at: d.created_at,
-      })),
+      data,
       count: data.length,
+      ...page,
+      sort_by: pagination.sort_by,
+      order: pagination.order,
       interpreted_query: {
-        original: query,
-        parsed_filters: parsedFilters,
+        original: query.query,
+        normalized: formatFilter(parsed.filter),
+        parsed_filters: parsed.filter,
+        spans: parsed.spans.map(({ filter, ...span }) => ({
+          ...span,
+          filter: formatFilter(filter),
+        })),
+        ignored: parsed.ignored,
+        suggestions: parsed.suggestions,
       },
     };
   }
 
+  /**
+   * GET /strings/search/:mode?q=... (substring, prefix, suffix, fuzzy)
+   * GET /strings/search/regex?pattern=...
+   * - limit: max results (default 50), case_sensitive: 'true' | 'false' (default false)
+   * - max_distance: fuzzy only, 0-5 (default 2)
+   * - 400 on missing/invalid params or an invalid regular expression
+   * - 422 if a regular expression search takes too long
+   * - 200 with results ranked by score (1 = exact match); large values are
+   *   not searched, large_values_skipped counts them
+   */
+  @Get('search/:mode')
+  @PostgresOnly()
+  @ApiOperation({
+    operationId: 'searchStrings',
+    summary: 'Search stored values',
+  })
+  @ApiParam({
+    name: 'mode',
+    enum: ['substring', 'prefix', 'suffix', 'fuzzy', 'regex'],
+  })
+  @ApiOkResponse({ type: SearchResultDto })
+  @ApiProblems(
+    'INVALID_QUERY_PARAMETER',
+    'INVALID_REGEX',
+    'SEARCH_MODE_NOT_FOUND',
+    'SEARCH_TIMEOUT',
+  )
+  async search(
+    @CollectionName() collection: string,
+    @Param('mode') mode: string,
+    @Query() query: SearchQueryDto,
+  ) {
+    const options: SearchOptions = {
+      limit: query.limit ?? DEFAULT_PAGE_LIMIT,
+      case_sensitive: query.case_sensitive ?? false,
+    };
+    const { q: term, pattern } = query;
+
+    let data: SearchHit[];
+    if (mode === 'regex') {
+      if (typeof pattern === 'undefined') {
+        throw invalidQuery('pattern', 'Query parameter "pattern" is required');
+      }
+      data = await this.searchService.searchRegex(collection, pattern, options);
+    } else {
+      if (typeof term === 'undefined') {
+        throw invalidQuery('q', 'Query parameter "q" is required');
+      }
+      switch (mode) {
+        case 'substring':
+        case 'prefix':
+        case 'suffix':
+          data = await this.searchService.searchText(
+            collection,
+            mode,
+            term,
+            options,
+          );
+          break;
+        case 'fuzzy':
+          data = await this.searchService.searchFuzzy(
+            collection,
+            term,
+            query.max_distance ?? 2,
+            options,
+          );
+          break;
+        default:
+          throw new ApiException(
+            'SEARCH_MODE_NOT_FOUND',
+            `Unknown search mode "${mode}"`,
+          );
+      }
+    }
+
+    return {
+      data,
+      count: data.length,
+      mode,
+      query: mode === 'regex' ? pattern : term,
+      large_values_skipped:
+        await this.searchService.countLargeValues(collection),
+    };
+  }
+
+  /**
+   * GET /strings/stats
+   * - accepts the same filters as GET /strings to scope the corpus
+   * - buckets: histogram buckets per field, 1-100 (default 10)
+   * - percentiles: comma separated list in 0-100 (default 25,75,90,95,99)
+   * - top_characters: size of the character frequency table, 1-1000 (default 100)
+   * - 400 on invalid params
+   */
+  @Get('stats')
+  @PostgresOnly()
+  @ApiOperation({
+    operationId: 'getStats',
+    summary: 'Aggregate statistics of the stored strings',
+  })
+  @ApiPropertyFilters()
+  @ApiOkResponse({ type: StatsDto })
+  @ApiConditional()
+  @ApiProblems('INVALID_QUERY_PARAMETER', 'INVALID_FILTER_EXPRESSION')
+  async getStats(
+    @CollectionName() collection: string,
+    @Query() query: StatsQueryDto,
+    @Query() filters: Record<string, unknown> = {},
+  ) {
+    const { filter, applied } = this.parseFilters(filters);
+
+    const stats = await this.statsService.getStats(collection, filter, {
+      buckets: query.buckets ?? 10,
+      percentiles: query.percentiles ?? [25, 75, 90, 95, 99],
+      top_characters: query.top_characters ?? 100,
+    });
+
+    return { ...stats, filters_applied: applied };
+  }
+
+  /**
+   * GET /strings/export
+   * - accepts the same filters as GET /strings
+   * - format: 'ndjson' (default) or 'csv'
+   * - include_frequency_map: 'true' adds the character frequency map column to CSV
+   * - 400 on invalid params
+   */
+  @Get('export')
+  @PostgresOnly()
+  @ApiOperation({
+    operationId: 'exportStrings',
+    summary: 'Download the stored strings as NDJSON or CSV',
+  })
+  @ApiPropertyFilters()
+  @ApiProduces('application/x-ndjson', 'text/csv')
+  @ApiOkResponse({
+    description: 'One record per line',
+    content: {
+      'application/x-ndjson': { schema: { type: 'string' } },
+      'text/csv': { schema: { type: 'string' } },
+    },
+  })
+  @ApiProblems('INVALID_QUERY_PARAMETER', 'INVALID_FILTER_EXPRESSION')
+  async export(
+    @CollectionName() collection: string,
+    @Query() query: ExportQueryDto,
+    @Query() filters: Record<string, unknown>,
+    @Res() res: Response,
+  ) {
+    const { filter } = this.parseFilters(filters);
+    const format = query.format ?? 'ndjson';
+
+    res.status(200);
+    res.setHeader(
+      'Content-Type',
+      format === 'csv'
+        ? 'text/csv; charset=utf-8'
+        : 'application/x-ndjson; charset=utf-8',
+    );
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="strings.${format}"`,
+    );
+
+    await this.stream(
+      this.transferService.exportRecords(collection, filter, format, {
+        include_frequency_map: query.include_frequency_map ?? false,
+      }),
+      res,
+    );
+  }
+
+  /**
+   * POST /strings/import
+   * Streams the request body and analyzes every value in it. The response is
+   * NDJSON with one outcome per value and a final summary line.
+   * - format: 'ndjson', 'csv' or 'text', taken from Content-Type when omitted
+   * - case_sensitive, palindrome_mode, locale: options for values without their own
+   * - values are charged to the daily quota chunk by chunk; once it runs out
+   *   the remaining values are reported invalid
+   * - 400 if the format or options are invalid
+   */
+  @Post('import')
+  @PostgresOnly()
+  @RequireScope('write')
+  @ApiOperation({
+    operationId: 'importStrings',
+    summary: 'Analyze and store every value of an NDJSON, CSV or text body',
+  })
+  @ApiConsumes('application/x-ndjson', 'text/csv', 'text/plain')
+  @ApiBody({ schema: { type: 'string' } })
+  @ApiProduces('application/x-ndjson')
+  @ApiOkResponse({
+    description: 'One outcome per line, then a `{ summary }` line',
+    content: {
+      'application/x-ndjson': {
+        schema: { $ref: getSchemaPath(ImportOutcomeDto) },
+      },
+    },
+  })
+  @ApiExtraModels(ImportOutcomeDto)
+  @ApiProblems('UNSUPPORTED_FORMAT', 'INVALID_ANALYSIS_OPTIONS')
+  async import(
+    @CollectionName() collection: string,
+    @Req() req: Request,
+    @Res() res: Response,
+    @Query() query: ImportQueryDto,
+    @CurrentKey() key: AuthenticatedKey,
+  ) {
+    const format = query.format ?? importFormat(req.headers['content-type']);
+    if (!format) {
+      throw new ApiException(
+        'UNSUPPORTED_FORMAT',
+        `Unsupported import format (use ${IMPORT_FORMATS.join(', ')})`,
+      );
+    }
+
+    const { case_sensitive, palindrome_mode, locale } = query;
+    const options = resolveAnalysisOptions(
+      Object.fromEntries(
+        Object.entries({ case_sensitive, palindrome_mode, locale }).filter(
+          ([, v]) => v !== undefined,
+        ),
+      ),
+    );
+
+    const outcomes = this.transferService.importRecords(
+      collection,
+      req,
+      format,
+      options,
+      async (count) => (await this.quota.charge(key, count))?.allowed ?? true,
+    );
+    async function* lines() {
+      const summary = { created: 0, duplicate: 0, invalid: 0 };
+      for await (const outcome of outcomes) {
+        summary[outcome.status]++;
+        yield `${JSON.stringify(outcome)}\n`;
+      }
+      yield `${JSON.stringify({ summary })}\n`;
+    }
+
+    res.status(200);
+    res.setHeader('Content-Type', 'application/x-ndjson; charset=utf-8');
+    await this.stream(lines(), res);
+  }
+
+  /**
+   * GET /strings/compare?a=...&b=...
+   * - a, b: stored values or their sha256 ids
+   * - 200 with anagram, edit distance, common substring/subsequence,
+   *   frequency difference and a character-level diff
+   * - 400 if a or b is missing, 404 if either is not stored
+   */
+  @Get('compare')
+  @ApiOperation({
+    operationId: 'compareStrings',
+    summary: 'Compare two stored strings',
+  })
+  @ApiOkResponse({ type: ComparisonDto })
+  @ApiProblems(
+    'INVALID_QUERY_PARAMETER',
+    'STRING_NOT_FOUND',
+    'COMPARISON_TOO_LARGE',
+  )
+  async compare(
+    @CollectionName() collection: string,
+    @Query() query: CompareQueryDto,
+  ) {
+    return this.compareService.compare(collection, query.a, query.b);
+  }
+
+  /**
+   * GET /strings/events (server-sent events)
+   * Streams lifecycle events of the strings of the collection as they
+   * happen; the SSE event name is the event type and the data the event JSON.
+   * - accepts the property, tag, metadata and q filters of GET /strings,
+   *   matched against the record carried by the event
+   * - types: comma-separated event types, all when omitted
+   * - a 'ping' event every 30s keeps idle connections open
+   * - 400 on invalid params
+   */
+  @Sse('events')
+  @ApiOperation({
+    operationId: 'streamEvents',
+    summary: 'Stream lifecycle events of stored strings',
+  })
+  @ApiPropertyFilters()
+  @ApiProduces('text/event-stream')
+  @ApiOkResponse({
+    description:
+      'Server-sent events named by event type, plus a `ping` event every 30s',
+    content: {
+      'text/event-stream': {
+        schema: { $ref: getSchemaPath(StringEventDto) },
+      },
+    },
+  })
+  @ApiExtraModels(StringEventDto)
+  @ApiProblems('INVALID_QUERY_PARAMETER', 'INVALID_FILTER_EXPRESSION')
+  events(
+    @CollectionName() collection: string,
+    @Query() query: EventsQueryDto,
+    @Query() filters: Record<string, unknown> = {},
+  ): Observable<MessageEvent> {
+    const { filter } = this.parseFilters(filters);
+    const types = query.types ?? EVENT_TYPES;
+
+    const events = this.eventsService.events.pipe(
+      where(
+        (event) =>
+          event.data.collection === collection &&
+          types.includes(event.type) &&
+          (!filter || matchesFilter(filter, event.data)),
+      ),
+      map(
+        (event): MessageEvent => ({
+          id: event.id,
+          type: event.type,
+          data: event,
+        }),
+      ),
+    );
+    const heartbeat = interval(HEARTBEAT_MS).pipe(
+      map((): MessageEvent => ({ type: 'ping', data: {} })),
+    );
+    return merge(events, heartbeat);
+  }
+
+  /**
+   * GET /strings/id/:id -> 200 with object or 404 if not found
+   * The sha256 id addresses values that do not fit in a URL path segment.
+   * ?full=true and ETag and Last-Modified as for GET /strings/:value.
+   */
+  @Get('id/:id')
+  @ApiOperation({
+    operationId: 'getStringById',
+    summary: 'Get a stored string by its sha256 id',
+  })
+  @ApiOkResponse({ type: StringRecordDto })
+  @ApiConditional()
+  @ApiProblems('INVALID_QUERY_PARAMETER', 'STRING_NOT_FOUND')
+  async getAnalysisById(
+    @CollectionName() collection: string,
+    @Param('id') id: string,
+    @Query() query: GetStringQueryDto,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    const record = await this.service.getById(collection, id);
+    return this.recordResponse(record, query, res);
+  }
+
+  /**
+   * GET /strings/id/:id/anagrams
+   * - paginated like GET /strings
+   * - 404 if the id is not stored
+   */
+  @Get('id/:id/anagrams')
+  @ApiOperation({
+    operationId: 'listAnagramsById',
+    summary: 'List the stored anagrams of a string, by id',
+  })
+  @ApiOkResponse({ type: StringPageDto })
+  @ApiConditional()
+  @ApiProblems('INVALID_QUERY_PARAMETER', 'STRING_NOT_FOUND')
+  async getAnagramsById(
+    @CollectionName() collection: string,
+    @Param('id') id: string,
+    @Query() query: StringPageQueryDto,
+  ) {
+    const pagination = parsePagination(query, SORT_FIELDS, 'created_at');
+    return this.anagrams(
+      await this.service.getById(collection, id),
+      pagination,
+    );
+  }
+
+  /**
+   * PATCH /strings/id/:id
+   * - body: tags and/or metadata, each replaces the stored one
+   * - 200 with the updated record
+   * - 400 if neither is given or either is invalid, 404 if not found
+   */
+  @Patch('id/:id')
+  @RequireScope('write')
+  @ApiOperation({
+    operationId: 'updateLabels',
+    summary: 'Replace the tags and/or metadata of a stored string',
+  })
+  @ApiOkResponse({ type: StringRecordDto })
+  @ApiProblems('INVALID_BODY', 'STRING_NOT_FOUND')
+  async updateLabels(
+    @CollectionName() collection: string,
+    @Param('id') id: string,
+    @Body() body: UpdateLabelsDto,
+  ) {
+    const labels = parseLabels(body);
+    if (!labels.tags && !labels.metadata) {
+      throw invalidBody(
+        'tags',
+        'Invalid request body or missing "tags" or "metadata" field',
+      );
+    }
+    return this.service.updateLabels(collection, id, labels);
+  }
+
+  /**
+   * DELETE /strings/id/:id
+   * - soft delete unless ?permanent=true
+   * - 204 on delete
+   * - 404 if not found
+   */
+  @Delete('id/:id')
+  @HttpCode(204)
+  @RequireScope('delete')
+  @ApiOperation({
+    operationId: 'deleteStringById',
+    summary: 'Delete a stored string by its sha256 id',
+  })
+  @ApiNoContentResponse()
+  @ApiProblems('INVALID_QUERY_PARAMETER', 'STRING_NOT_FOUND')
+  async deleteAnalysisById(
+    @CollectionName() collection: string,
+    @Param('id') id: string,
+    @Query() query: DeleteQueryDto,
+  ) {
+    await this.service.deleteById(collection, id, query.permanent ?? false);
+  }
+
+  /**
+   * POST /strings/id/:id/restore
+   * - 200 with the restored record (also for records that were not deleted)
+   * - 404 if not found
+   */
+  @Post('id/:id/restore')
+  @HttpCode(200)
+  @RequireScope('delete')
+  @ApiOperation({
+    operationId: 'restoreString',
+    summary: 'Restore a soft-deleted string',
+  })
+  @ApiOkResponse({ type: StringRecordDto })
+  @ApiProblems('STRING_NOT_FOUND')
+  async restore(@CollectionName() collection: string, @Param('id') id: string) {
+    return this.service.restore(collection, id);
+  }
+
+  /**
+   * GET /strings/:value/anagrams
+   * - paginated like GET /strings
+   * - 404 if the value is not stored
+   */
+  @Get(':value/anagrams')
+  @ApiOperation({
+    operationId: 'listAnagrams',
+    summary: 'List the stored anagrams of a string',
+  })
+  @ApiOkResponse({ type: StringPageDto })
+  @ApiConditional()
+  @ApiProblems('INVALID_QUERY_PARAMETER', 'STRING_NOT_FOUND')
+  async getAnagrams(
+    @CollectionName() collection: string,
+    @Param('value') value: string,
+    @Query() query: StringPageQueryDto,
+  ) {
+    const pagination = parsePagination(query, SORT_FIELDS, 'created_at');
+    return this.anagrams(
+      await this.service.getbyValue(collection, value),
+      pagination,
+    );
+  }
+
   /**
    * GET /strings/:value -> 200 with object or 404 if not found
+   * - large values come as the preview they are stored with
+   *   (value_truncated), ?full=true gives the whole value
+   * - ETag and Last-Modified from the id and updated_at; 304 when the
+   *   request's If-None-Match or If-Modified-Since still match
    */
   @Get(':value')
-  async getAnalysis(@Param('value') value: string) {
-    return await this.service.getbyValue(value); // service throws NotFoundException if missing
+  @ApiOperation({ operationId: 'getString', summary: 'Get a stored string' })
+  @ApiOkResponse({ type: StringRecordDto })
+  @ApiConditional()
+  @ApiProblems('INVALID_QUERY_PARAMETER', 'STRING_NOT_FOUND')
+  async getAnalysis(
+    @CollectionName() collection: string,
+    @Param('value') value: string,
+    @Query() query: GetStringQueryDto,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    const record = await this.service.getbyValue(collection, value); // service throws STRING_NOT_FOUND if missing
+    return this.recordResponse(record, query, res);
   }
 
   /**
    * GET /strings (filters via query params)
+   * - every filterable analyzer property: `<key>`, plus `min_<key>` / `max_<key>` for numbers
+   * - q: filter expression such as `length > 5 AND NOT is_palindrome` (400 names the column of a syntax error)
+   * - paginated by limit + page, or by the next/prev cursors of a previous response
+   * - tag: records carrying the tag, repeat for several (all must match)
+   * - metadata.<key>: records whose metadata has <key> with this text value
+   * - deleted: exclude (default) | include | only, for soft-deleted records
+   * - sort_by: created_at | length | word_count | unique_characters, order: asc | desc
    * - 400 when any query param has wrong type/format (message: "Invalid query parameter values or types")
    * - 200 with data (empty array allowed)
    */
   @Get()
+  @ApiOperation({
+    operationId: 'listStrings',
+    summary: 'List stored strings matching the filters',
+  })
+  @ApiPropertyFilters()
+  @ApiOkResponse({ type: FilteredStringPageDto })
+  @ApiConditional()
+  @ApiProblems('INVALID_QUERY_PARAMETER', 'INVALID_FILTER_EXPRESSION')
   async getAllAnalyses(
-    @Query('is_palindrome') is_palindrome?: string,
-    @Query('min_length') min_length?: string,
-    @Query('max_length') max_length?: string,
-    @Query('word_count') word_count?: string,
-    @Query('contains_character') contains_character?: string,
-  ) {
-    const filters: {
-      is_palindrome?: boolean;
-      min_length?: number;
-      max_length?: number;
-      word_count?: number;
-      contains_character?: string;
-    } = {};
+    @CollectionName() collection: string,
+    @Query() query: ListStringsQueryDto,
+    @Query() filters: Record<string, unknown> = {},
+  ) {
+    const { filter, applied } = this.parseFilters(filters);
+
+    const pagination = parsePagination(query, SORT_FIELDS, 'created_at');
+    const { data, ...page } = await this.service.getAllWithFilters(
+      collection,
+      filter,
+      pagination,
+      query.deleted ?? 'exclude',
+    );
 
+    return {
+      data,
+      count: data.length,
+      ...page,
+      sort_by: pagination.sort_by,
+      order: pagination.order,
+      filters_applied: applied,
+    };
+  }
+
+  /**
+   * DELETE /strings (bulk, by the filters of GET /strings)
+   * - at least one filter is required
+   * - confirm: the number of matching records; a missing or different count
+   *   deletes nothing and answers 409 with the actual count
+   * - permanent=true removes rows instead of soft deleting them
+   * - deleted: exclude (default) | include | only, e.g. deleted=only&permanent=true empties the trash
+   * - 200 with { matched, deleted, permanent, filters_applied }
+   */
+  @Delete()
+  @RequireScope('delete')
+  @ApiOperation({
+    operationId: 'deleteStrings',
+    summary: 'Delete every stored string matching the filters',
+  })
+  @ApiPropertyFilters()
+  @ApiOkResponse({ type: BulkDeleteResultDto })
+  @ApiProblems(
+    'INVALID_QUERY_PARAMETER',
+    'INVALID_FILTER_EXPRESSION',
+    'FILTER_REQUIRED',
+    'DELETE_NOT_CONFIRMED',
+  )
+  async deleteMatching(
+    @CollectionName() collection: string,
+    @Query() query: BulkDeleteQueryDto,
+    @Query() filters: Record<string, unknown> = {},
+  ) {
+    const { filter, applied } = this.parseFilters(filters);
+    if (!filter) {
+      throw new ApiException(
+        'FILTER_REQUIRED',
+        'Bulk delete requires at least one filter',
+      );
+    }
+
+    const permanent = query.permanent ?? false;
+    const result = await this.service.deleteMatching(collection, filter, {
+      confirm: query.confirm ?? null,
+      permanent,
+      deleted: query.deleted ?? 'exclude',
+    });
+    if (result.status === 'unconfirmed') {
+      throw new ApiException(
+        'DELETE_NOT_CONFIRMED',
+        `Filter matches ${result.matched} records; repeat the request with confirm=${result.matched} to delete them`,
+      );
+    }
+
+    return {
+      matched: result.matched,
+      deleted: result.deleted,
+      permanent,
+      filters_applied: applied,
+    };
+  }
+
+  /**
+   * DELETE /strings/:value
+   * - soft delete unless ?permanent=true
+   * - 204 on delete
+   * - 404 if not found
+   */
+  @Delete(':value')
+  @HttpCode(204)
+  @RequireScope('delete')
+  @ApiOperation({
+    operationId: 'deleteString',
+    summary: 'Delete a stored string',
+  })
+  @ApiNoContentResponse()
+  @ApiProblems('INVALID_QUERY_PARAMETER', 'STRING_NOT_FOUND')
+  async deleteAnalysis(
+    @CollectionName() collection: string,
+    @Param('value') value: string,
+    @Query() query: DeleteQueryDto,
+  ) {
+    await this.service.deleteByValue(
+      collection,
+      value,
+      query.permanent ?? false,
+    ); // service throws STRING_NOT_FOUND if missing
+    return;
+  }
+
+  /** A record with its validators, whole when asked for with ?full=true */
+  private async recordResponse(
+    record: StringAnalyzer,
+    { full }: GetStringQueryDto,
+    res: Response,
+  ): Promise<StringAnalyzer> {
+    if (!full || !record.value_truncated) {
+      setRecordValidators(res, record);
+      return record;
+    }
+    setRecordValidators(res, record, 'full');
+    return this.service.withFullValue(record);
+  }
+
+  private async anagrams(
+    source: StringAnalyzer,
+    pagination: PaginationOptions,
+  ) {
+    const { data, ...page } = await this.service.getAnagrams(
+      source,
+      pagination,
+    );
+    return {
+      data,
+      count: data.length,
+      ...page,
+      sort_by: pagination.sort_by,
+      order: pagination.order,
+    };
+  }
+
+  /**
+   * Pipe generated chunks into the response, honouring backpressure.
+   * Headers are already sent once streaming starts, so a failure can only
+   * be signalled by cutting the connection.
+   */
+  private async stream(chunks: AsyncIterable<string>, res: Response) {
     try {
-      // is_palindrome -> must be 'true' or 'false' if provided
-      if (typeof is_palindrome !== 'undefined') {
-        if (is_palindrome !== 'true' && is_palindrome !== 'false') {
-          throw new Error();
-        }
-        filters.is_palindrome = is_palindrome === 'true';
-      }
+      await pipeline(Readable.from(chunks), res);
+    } catch (err) {
+      this.logger.error(`${res.req.method} ${res.req.path} stream error`, err);
+      res.destroy();
+    }
+  }
 
-      // numeric params: must be non-negative integers
-      const numericParams: {
-        key: 'min_length' | 'max_length' | 'word_count';
-        value?: string;
-      }[] = [
-        { key: 'min_length', value: min_length },
-        { key: 'max_length', value: max_length },
-        { key: 'word_count', value: word_count },
-      ];
-      for (const param of numericParams) {
-        if (typeof param.value !== 'undefined') {
-          const num = Number(param.value);
-          if (!Number.isFinite(num) || Number.isNaN(num) || num < 0)
-            throw new Error();
-          // use integer
-          const key = param.key;
-          filters[key] = Math.floor(num);
+  /**
+   * Parse the filters shared by GET /strings and the routes that mirror it:
+   * individual property filters, tags, metadata and an optional `q`
+   * expression, all ANDed.
+   * - 400 when any filter has a wrong type/format
+   */
+  private parseFilters(query: Record<string, unknown>): {
+    filter: FilterNode | null;
+    applied: Record<string, unknown>;
+  } {
+    const filters: PropertyFilters = {};
+
+    // the parameter being parsed, reported when it is invalid
+    let current = '';
+    try {
+      // one filter per filterable property of the registered analyzers
+      for (const name of this.registry.filterNames()) {
+        const raw = query[name];
+        if (typeof raw === 'undefined') continue;
+        current = name;
+        if (typeof raw !== 'string') throw new Error();
+
+        const { descriptor } = this.registry.resolveFilter(name)!;
+        switch (descriptor.type) {
+          // booleans -> must be 'true' or 'false'
+          case 'boolean':
+            if (raw !== 'true' && raw !== 'false') throw new Error();
+            filters[name] = raw === 'true';
+            break;
+          // integers: must be non-negative, fractions are floored
+          case 'integer': {
+            const num = Number(raw);
+            if (raw.trim() === '' || !Number.isFinite(num) || num < 0)
+              throw new Error();
+            filters[name] = Math.floor(num);
+            break;
+          }
+          case 'number': {
+            const num = Number(raw);
+            if (raw.trim() === '' || !Number.isFinite(num)) throw new Error();
+            filters[name] = num;
+            break;
+          }
+          default:
+            filters[name] = raw;
         }
       }
 
       // contains_character must be a single character if provided
+      const contains_character = query.contains_character;
       if (typeof contains_character !== 'undefined') {
+        current = 'contains_character';
         if (
           typeof contains_character !== 'string' ||
-          contains_character.length !== 1
+          !isSingleGrapheme(contains_character)
         ) {
           throw new Error();
         }
         filters.contains_character = contains_character.toLowerCase();
       }
     } catch {
-      throw new BadRequestException('Invalid query parameter values or types');
+      throw invalidQuery(current);
     }
 
-    const data = await this.service.getAllWithFilters(filters);
+    // tag (repeatable) and metadata.<key> filters
+    const tags =
+      typeof query.tag === 'undefined'
+        ? []
+        : Array.isArray(query.tag)
+          ? (query.tag as unknown[])
+          : [query.tag];
+    if (tags.some((t) => typeof t !== 'string' || t.trim() === '')) {
+      throw invalidQuery('tag');
+    }
+    const metadataFilters: Record<string, string> = {};
+    for (const [name, raw] of Object.entries(query)) {
+      if (!name.startsWith('metadata.')) continue;
+      const key = name.slice('metadata.'.length);
+      if (!key || typeof raw !== 'string') throw invalidQuery(name);
+      metadataFilters[key] = raw;
+    }
+    const labelTerms = [
+      ...(tags as string[]).map((t) => tag(t.trim())),
+      ...Object.entries(metadataFilters).map(([key, value]) =>
+        metadata(key, '=', value),
+      ),
+    ];
+
+    // q expression, ANDed with the individual filters
+    const q = query.q;
+    if (typeof q !== 'undefined' && (typeof q !== 'string' || !q.trim())) {
+      throw invalidQuery('q');
+    }
+    const expression = q ? this.service.parseFilterExpression(q) : null;
+
+    const filterTree = [
+      this.service.toFilterTree(filters),
+      ...labelTerms,
+      expression,
+    ].filter((node): node is FilterNode => node !== null);
 
     return {
-      data: data.map((result) => ({
-        id: result.id,
-        value: result.value,
-        properties: result.properties,
-        created_at: result.created_at,
-      })),
-      count: data.length,
-      filters_applied: {
+      filter: filterTree.length ? and(filterTree) : null,
+      applied: {
         ...Object.fromEntries(
           Object.entries(filters).filter(([, v]) => v !== undefined),
         ),
+        ...(tags.length
+          ? { tag: (tags as string[]).map((t) => t.trim()) }
+          : {}),
+        ...(Object.keys(metadataFilters).length
+          ? { metadata: metadataFilters }
+          : {}),
+        ...(expression ? { q: formatFilter(expression) } : {}),
       },
     };
   }
+}
 
-  /**
-   * DELETE /strings/:value
-   * - 204 on delete
-   * - 404 if not found
-   */
-  @Delete(':value')
-  @HttpCode(204)
-  async deleteAnalysis(@Param('value') value: string) {
-    await this.service.deleteByValue(value); // service throws NotFoundException if missing
-    return;
+/** Import format implied by a Content-Type header */
+function importFormat(contentType: string | undefined): ImportFormat | null {
+  const type = contentType?.split(';')[0].trim().toLowerCase();
+  switch (type) {
+    case 'text/csv':
+      return 'csv';
+    case 'application/x-ndjson':
+    case 'application/ndjson':
+    case 'application/jsonl':
+      return 'ndjson';
+    case 'text/plain':
+      return 'text';
+    default:
+      return null;
   }
 }
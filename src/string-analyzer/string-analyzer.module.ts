@@ -1,12 +1,73 @@
 import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { DiscoveryModule } from '@nestjs/core';
 import { StringAnalyzerService } from './string-analyzer.service';
 import { StringAnalyzerController } from './string-analyzer.controller';
+import { StringSearchService } from './string-search.service';
+import { StringStatsService } from './string-stats.service';
+import { StringTransferService } from './string-transfer.service';
+import { StringBackfillService } from './string-backfill.service';
+import { StringCompareService } from './string-compare.service';
+import { StringEventsService } from './string-events.service';
+import { StringCacheService } from './string-cache.service';
+import { StringValueService } from './string-value.service';
+import { CollectionsService } from './collections.service';
+import { CollectionsController } from './collections.controller';
+import { NaturalLanguageLogService } from './natural-language-log.service';
+import { NaturalLanguageController } from './natural-language.controller';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { StringAnalyzer } from './entities/string-analyzer.entity';
+import { NaturalLanguageFailure } from './entities/natural-language-failure.entity';
+import { StringAnalyzerSubscriber } from './entities/string-analyzer.subscriber';
+import { stringStoreProvider } from './storage/string-store.provider';
+import { StringStore } from './storage/string-store';
+import { AnalyzerRegistry } from './analyzers/analyzer-registry.service';
+import { CORE_ANALYZERS } from './analyzers/core.analyzers';
+import { METRIC_ANALYZERS } from './analyzers/metric.analyzers';
+import { AuthModule } from '../auth/auth.module';
+import { CacheModule } from '../cache/cache.module';
+import { BlobModule } from '../blobs/blob.module';
+import { whenPostgres } from '../database/postgres';
 
 @Module({
-  providers: [StringAnalyzerService],
-  controllers: [StringAnalyzerController],
-  imports: [TypeOrmModule.forFeature([StringAnalyzer])],
+  providers: [
+    StringAnalyzerService,
+    StringSearchService,
+    StringStatsService,
+    StringTransferService,
+    StringBackfillService,
+    StringCompareService,
+    StringEventsService,
+    StringCacheService,
+    StringValueService,
+    CollectionsService,
+    NaturalLanguageLogService,
+    stringStoreProvider,
+    StringAnalyzerSubscriber,
+    AnalyzerRegistry,
+    ...CORE_ANALYZERS,
+    ...METRIC_ANALYZERS,
+  ],
+  controllers: [
+    StringAnalyzerController,
+    CollectionsController,
+    NaturalLanguageController,
+  ],
+  imports: [
+    ConfigModule,
+    DiscoveryModule,
+    AuthModule,
+    CacheModule,
+    BlobModule,
+    whenPostgres(
+      TypeOrmModule.forFeature([StringAnalyzer, NaturalLanguageFailure]),
+    ),
+  ],
+  exports: [
+    AnalyzerRegistry,
+    StringEventsService,
+    StringValueService,
+    StringStore,
+  ],
 })
 export class StringAnalyzerModule {}
@@ -0,0 +1,257 @@
+import { Test } from '@nestjs/testing';
+import { DiscoveryModule } from '@nestjs/core';
+import { ConfigService } from '@nestjs/config';
+import { StringAnalyzerService } from './string-analyzer.service';
+import { StringCacheService } from './string-cache.service';
+import { StringEvent, StringEventsService } from './string-events.service';
+import { StringValueService } from './string-value.service';
+import { NaturalLanguageLogService } from './natural-language-log.service';
+import { AnalyzerRegistry } from './analyzers/analyzer-registry.service';
+import { CORE_ANALYZERS } from './analyzers/core.analyzers';
+import { METRIC_ANALYZERS } from './analyzers/metric.analyzers';
+import { MemoryStringStore } from './storage/memory-string.store';
+import { DEFAULT_COLLECTION } from './collections';
+import { FilesystemBlobStore } from '../blobs/filesystem-blob.store';
+import { LruCacheStore } from '../cache/lru-cache.store';
+import { MetricsService } from '../observability/metrics.service';
+import { ApiException } from '../common/errors';
+import { DEFAULT_ANALYSIS_OPTIONS, sha256 } from '../analysis';
+
+const C = DEFAULT_COLLECTION;
+
+describe('StringAnalyzerService', () => {
+  let registry: AnalyzerRegistry;
+  let store: MemoryStringStore;
+  let service: StringAnalyzerService;
+  let events: StringEvent[];
+
+  beforeAll(async () => {
+    const module = await Test.createTestingModule({
+      imports: [DiscoveryModule],
+      providers: [
+        AnalyzerRegistry,
+        MetricsService,
+        ...CORE_ANALYZERS,
+        ...METRIC_ANALYZERS,
+      ],
+    }).compile();
+    await module.init();
+    registry = module.get(AnalyzerRegistry);
+  });
+
+  beforeEach(() => {
+    events = [];
+    store = new MemoryStringStore(registry);
+    const bus = new StringEventsService();
+    bus.events.subscribe((event) => events.push(event));
+    // values up to 64 bytes, all kept in their row
+    const values = new StringValueService(
+      new ConfigService({ MAX_VALUE_BYTES: '64' }),
+      store,
+      new FilesystemBlobStore('/nonexistent'),
+    );
+    service = new StringAnalyzerService(
+      store,
+      registry,
+      bus,
+      new StringCacheService(
+        new LruCacheStore({ ttlMs: 0, maxEntries: 0, maxBytes: 0 }),
+        bus,
+      ),
+      new MetricsService(),
+      values,
+      new NaturalLanguageLogService(undefined),
+    );
+  });
+
+  describe('analyzeAndSave', () => {
+    it('writes nothing in a dry run', async () => {
+      const result = await service.analyzeAndSave(
+        C,
+        'racecar',
+        DEFAULT_ANALYSIS_OPTIONS,
+        'dry_run',
+        { tags: ['draft'] },
+      );
+      expect(result).toMatchObject({
+        status: 'preview',
+        data: {
+          id: sha256('racecar'),
+          properties: { is_palindrome: true },
+          tags: ['draft'],
+        },
+      });
+      expect(result.data).not.toHaveProperty('created_at');
+      expect(await store.findByIds(C, [sha256('racecar')])).toEqual([]);
+      expect(events).toEqual([]);
+
+      await service.analyzeAndSave(C, 'racecar');
+      expect(
+        await service.analyzeAndSave(
+          C,
+          'racecar',
+          DEFAULT_ANALYSIS_OPTIONS,
+          'dry_run',
+        ),
+      ).toMatchObject({ status: 'existing', data: { id: sha256('racecar') } });
+    });
+
+    it('answers an upsert of a stored value with the record unchanged', async () => {
+      const created = await service.analyzeAndSave(
+        C,
+        'Racecar',
+        DEFAULT_ANALYSIS_OPTIONS,
+        'upsert',
+        { tags: ['first'] },
+      );
+      expect(created.status).toBe('created');
+      const [stored] = await store.findByIds(C, [sha256('Racecar')]);
+      events = [];
+
+      const again = await service.analyzeAndSave(
+        C,
+        'Racecar',
+        { ...DEFAULT_ANALYSIS_OPTIONS, case_sensitive: true },
+        'upsert',
+        { tags: ['second'], metadata: { source: 'retry' } },
+      );
+      expect(again).toEqual({ status: 'existing', data: stored });
+      expect(again.data).toMatchObject({
+        tags: ['first'],
+        metadata: {},
+        properties: { is_palindrome: true },
+        analysis_options: { case_sensitive: false },
+      });
+      expect(events).toEqual([]);
+
+      await expect(service.analyzeAndSave(C, 'Racecar')).rejects.toMatchObject({
+        code: 'STRING_EXISTS',
+      });
+    });
+
+    it('refuses to upsert a soft-deleted value', async () => {
+      await service.analyzeAndSave(C, 'level');
+      await service.deleteByValue(C, 'level', false);
+
+      await expect(
+        service.analyzeAndSave(C, 'level', DEFAULT_ANALYSIS_OPTIONS, 'upsert'),
+      ).rejects.toMatchObject({ code: 'STRING_DELETED' });
+      // a dry run still reports it
+      expect(
+        await service.analyzeAndSave(
+          C,
+          'level',
+          DEFAULT_ANALYSIS_OPTIONS,
+          'dry_run',
+        ),
+      ).toMatchObject({ status: 'existing' });
+    });
+  });
+
+  describe('analyzeBatch', () => {
+    it('reports every item by its index', async () => {
+      await service.analyzeAndSave(C, 'level');
+      const [level] = await store.findByIds(C, [sha256('level')]);
+
+      const results = await service.analyzeBatch(C, [
+        'racecar',
+        'level',
+        'racecar',
+        42,
+        '   ',
+        'x'.repeat(65),
+      ]);
+      expect(results.map((r) => [r.index, r.status])).toEqual([
+        [0, 'created'],
+        [1, 'duplicate'],
+        [2, 'duplicate'],
+        [3, 'invalid'],
+        [4, 'invalid'],
+        [5, 'invalid'],
+      ]);
+
+      // repeats within the batch point at the record it created
+      expect(results[0]).toMatchObject({
+        data: { id: sha256('racecar'), value: 'racecar' },
+      });
+      expect(results[2]).toMatchObject({ data: { id: sha256('racecar') } });
+      expect(results[1]).toMatchObject({
+        data: { id: level.id, created_at: level.created_at },
+      });
+      expect(results.slice(3)).toEqual([
+        {
+          index: 3,
+          status: 'invalid',
+          value: 42,
+          reason: 'Invalid data type for value (must be string)',
+        },
+        {
+          index: 4,
+          status: 'invalid',
+          value: '   ',
+          reason: 'Value must be a non-empty string',
+        },
+        {
+          index: 5,
+          status: 'invalid',
+          value: 'x'.repeat(65),
+          reason: 'Value exceeds the limit of 64 bytes (UTF-8)',
+        },
+      ]);
+
+      expect(await store.findByIds(C, [sha256('racecar')])).toHaveLength(1);
+      // one event per stored record, none for duplicates
+      expect(events.map((e) => [e.type, e.data.value])).toEqual([
+        ['string.created', 'level'],
+        ['string.created', 'racecar'],
+      ]);
+    });
+
+    it('applies the options and labels of each item', async () => {
+      const results = await service.analyzeBatch(
+        C,
+        ['Racecar', 'Level'],
+        [
+          { ...DEFAULT_ANALYSIS_OPTIONS, case_sensitive: true },
+          DEFAULT_ANALYSIS_OPTIONS,
+        ],
+        [{ tags: ['imported'], metadata: { line: 1 } }],
+      );
+      expect(results[0]).toMatchObject({
+        status: 'created',
+        data: {
+          properties: { is_palindrome: false },
+          analysis_options: { case_sensitive: true },
+          tags: ['imported'],
+          metadata: { line: 1 },
+        },
+      });
+      expect(results[1]).toMatchObject({
+        status: 'created',
+        data: {
+          properties: { is_palindrome: true },
+          analysis_options: { case_sensitive: false },
+          tags: [],
+          metadata: {},
+        },
+      });
+    });
+
+    it('answers 409 and saves nothing when a concurrent request stored a value', async () => {
+      await service.analyzeAndSave(C, 'racecar');
+      // the value is stored after the batch looked for duplicates
+      jest.spyOn(store, 'findByIds').mockResolvedValueOnce([]);
+      events = [];
+
+      const error = await service
+        .analyzeBatch(C, ['noon', 'racecar'])
+        .catch((err: unknown) => err);
+      expect(error).toBeInstanceOf(ApiException);
+      expect(error).toMatchObject({ code: 'STRING_EXISTS' });
+      expect((error as ApiException).getStatus()).toBe(409);
+
+      expect(await store.findByIds(C, [sha256('noon')])).toEqual([]);
+      expect(events).toEqual([]);
+    });
+  });
+});
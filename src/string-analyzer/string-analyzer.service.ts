@@ -1,306 +1,729 @@
-/* eslint-disable @typescript-eslint/no-unsafe-member-access */
+import { HttpException, Injectable, Logger } from '@nestjs/common';
 import {
-  BadRequestException,
-  ConflictException,
-  Injectable,
-  NotFoundException,
-  UnprocessableEntityException,
-} from '@nestjs/common';
-import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
-import * as crypto from 'crypto';
-import { StringAnalyzer } from './entities/string-analyzer.entity';
+  StringAnalyzer,
+  StringProperties,
+} from './entities/string-analyzer.entity';
+import { AnalyzerRegistry } from './analyzers/analyzer-registry.service';
+import { Labels } from './labels';
+import { StringEventsService } from './string-events.service';
+import { StringCacheService } from './string-cache.service';
+import { StringValueService } from './string-value.service';
+import { stringsPath } from './collections';
+import { MetricsService } from '../observability/metrics.service';
+import {
+  DeletedScope,
+  DuplicateRecordError,
+  NewRecord,
+  RecordKey,
+  StringStore,
+} from './storage/string-store';
+import {
+  ANALYSIS_VERSION,
+  AnalysisOptions,
+  DEFAULT_ANALYSIS_OPTIONS,
+  isSingleGrapheme,
+  sha256,
+} from '../analysis';
+import {
+  and,
+  compare,
+  contains,
+  FilterNode,
+  hasConflict,
+} from './filters/filter-ast';
+import {
+  FilterExpressionError,
+  parseFilterExpression,
+} from './filters/filter-expression.parser';
+import {
+  explainNaturalLanguage,
+  NaturalLanguageParse,
+  NaturalLanguageParseError,
+  QueryToken,
+  suggestQueries,
+} from './filters/natural-language.parser';
+import { NaturalLanguageLogService } from './natural-language-log.service';
+import {
+  DEFAULT_PAGE_LIMIT,
+  Paginated,
+  PaginationOptions,
+} from '../common/pagination';
+import {
+  ApiException,
+  invalidBody,
+  invalidQuery,
+  InvalidParam,
+  unexpected,
+} from '../common/errors';
+
+/** STRING_NOT_FOUND (404) */
+function notFound(): ApiException {
+  return new ApiException(
+    'STRING_NOT_FOUND',
+    'String does not exist in the system',
+  );
+}
+
+/** An error message offering the best rewrite of a query, if any */
+function didYouMean(message: string, suggestions: string[]): string {
+  return suggestions.length
+    ? `${message}; did you mean "${suggestions[0]}"?`
+    : message;
+}
+
+/** An invalid_params entry for a token the parser skipped */
+function notUnderstood(token: QueryToken): InvalidParam {
+  return {
+    name: 'query',
+    reason: `"${token.text}" at ${token.start} was not understood`,
+  };
+}
+
+/** Upper bound on the number of values accepted by one batch request */
+export const MAX_BATCH_SIZE = 10000;
+
+/**
+ * Filters on analysed properties, keyed by filter name:
+ * `<property>` for equality, `min_<property>` / `max_<property>` for ranges,
+ * and `contains_character` for a key of the character frequency map.
+ */
+export type PropertyFilters = {
+  contains_character?: string;
+  [name: string]: boolean | number | string | undefined;
+};
+
+/** A parsed natural language query with its "did you mean" rewrites */
+export type NaturalLanguageQuery = NaturalLanguageParse & {
+  suggestions: string[];
+};
+
+/** An analysis that has not been stored, in no collection yet */
+export type AnalysisPreview = Omit<NewRecord, 'collection'>;
+
+export interface BulkDeleteOptions {
+  /** number of matching records the caller expects to delete */
+  confirm: number | null;
+  /** remove rows instead of soft deleting them */
+  permanent: boolean;
+  deleted: DeletedScope;
+}
+
+export type BulkDeleteResult =
+  | { status: 'deleted'; matched: number; deleted: number }
+  | { status: 'unconfirmed'; matched: number };
+
+/**
+ * How POST /strings treats a value that is already stored
+ * - create: 409 Conflict
+ * - upsert: return the stored record, create it otherwise
+ * - dry_run: never write, return the stored record or a preview
+ */
+export type SaveMode = 'create' | 'upsert' | 'dry_run';
+
+export type SaveResult =
+  | { status: 'created'; data: StringAnalyzer }
+  | { status: 'existing'; data: StringAnalyzer }
+  | { status: 'preview'; data: AnalysisPreview };
+
+export type BatchItemResult =
+  | { index: number; status: 'created'; data: StringAnalyzer }
+  | { index: number; status: 'duplicate'; data: StringAnalyzer }
+  | { index: number; status: 'invalid'; value: unknown; reason: string };
 
 @Injectable()
 export class StringAnalyzerService {
+  private readonly logger = new Logger(StringAnalyzerService.name);
+
   constructor(
-    @InjectRepository(StringAnalyzer)
-    private readonly repo: Repository<StringAnalyzer>,
+    private readonly store: StringStore,
+    private readonly registry: AnalyzerRegistry,
+    private readonly events: StringEventsService,
+    private readonly cache: StringCacheService,
+    private readonly metrics: MetricsService,
+    private readonly values: StringValueService,
+    private readonly queryLog: NaturalLanguageLogService,
   ) {}
 
   /**
-   * Parse natural language queries into filters.
-   * Throws UnprocessableEntityException if filters conflict.
+   * Parse natural language queries into a filter tree, with the spans
+   * behind each filter, the ignored tokens and "did you mean" rewrites.
+   * Throws UNPARSEABLE_QUERY (400) if nothing could be understood and
+   * CONFLICTING_FILTERS (422) if filters conflict. Failures and queries
+   * with ignored tokens are logged for review.
    */
-  parseNaturalQuery(query: string): {
-    is_palindrome?: boolean;
-    word_count?: number;
-    min_length?: number;
-    max_length?: number;
-    contains_character?: string;
-  } {
-    const filters: {
-      is_palindrome?: boolean;
-      word_count?: number;
-      min_length?: number;
-      max_length?: number;
-      contains_character?: string;
-    } = {};
-
-    // Basic keywords
-    if (/palindrom/i.test(query)) {
-      filters.is_palindrome = true;
+  async parseNaturalQuery(query: string): Promise<NaturalLanguageQuery> {
+    let parsed: NaturalLanguageParse;
+    try {
+      parsed = explainNaturalLanguage(query);
+    } catch (err) {
+      if (err instanceof NaturalLanguageParseError) {
+        this.metrics.naturalLanguageFailures.inc({ reason: 'unparseable' });
+        const suggestions = suggestQueries(query, err.ignored);
+        await this.queryLog.record(
+          query,
+          'unparseable',
+          err.ignored,
+          suggestions,
+        );
+        throw new ApiException(
+          'UNPARSEABLE_QUERY',
+          didYouMean(err.message, suggestions),
+          err.ignored.map(notUnderstood),
+        );
+      }
+      throw err;
     }
+    const suggestions = suggestQueries(query, parsed.ignored);
 
-    if (/single word/i.test(query)) {
-      filters.word_count = 1;
-    } else {
-      const wordMatch = query.match(/(\d+)\s+words?/i);
-      if (wordMatch) filters.word_count = parseInt(wordMatch[1], 10);
+    // validate logical consistency
+    if (hasConflict(parsed.filter, (key) => this.registry.get(key))) {
+      this.metrics.naturalLanguageFailures.inc({ reason: 'conflicting' });
+      await this.queryLog.record(
+        query,
+        'conflicting',
+        parsed.ignored,
+        suggestions,
+      );
+      throw new ApiException(
+        'CONFLICTING_FILTERS',
+        didYouMean(
+          'Query parsed but resulted in conflicting filters',
+          suggestions,
+        ),
+      );
     }
 
-    const longerMatch = query.match(/(?:longer than|more than)\s+(\d+)/i);
-    if (longerMatch) filters.min_length = parseInt(longerMatch[1], 10) + 1;
-
-    const shorterMatch = query.match(/(?:shorter than|less than)\s+(\d+)/i);
-    if (shorterMatch) filters.max_length = parseInt(shorterMatch[1], 10) - 1;
-
-    // contains specific letter: "containing the letter z" or "containing z"
-    const containsMatch = query.match(
-      /(?:containing the letter|containing|contains)\s+([a-z])/i,
-    );
-    if (containsMatch)
-      filters.contains_character = containsMatch[1].toLowerCase();
-
-    // heuristic: "first vowel" -> 'a'
-    if (/first vowel/i.test(query) && !filters.contains_character) {
-      filters.contains_character = 'a';
+    if (parsed.ignored.length) {
+      await this.queryLog.record(query, 'partial', parsed.ignored, suggestions);
     }
+    return { ...parsed, suggestions };
+  }
 
-    // validate logical consistency
-    if (
-      typeof filters.min_length !== 'undefined' &&
-      typeof filters.max_length !== 'undefined' &&
-      filters.min_length > filters.max_length
-    ) {
-      throw new UnprocessableEntityException(
-        'Query parsed but resulted in conflicting filters',
-      );
+  /**
+   * Parse a `q` filter expression of GET /strings.
+   * Throws INVALID_FILTER_EXPRESSION (400) naming the column of the first error.
+   */
+  parseFilterExpression(expression: string): FilterNode {
+    try {
+      return parseFilterExpression(expression, (key) => this.registry.get(key));
+    } catch (err) {
+      if (err instanceof FilterExpressionError) {
+        const message = `Invalid filter expression at column ${err.column}: ${err.message}`;
+        throw new ApiException('INVALID_FILTER_EXPRESSION', message, [
+          { name: 'q', reason: message },
+        ]);
+      }
+      throw err;
     }
+  }
 
-    if (filters.word_count !== undefined && filters.word_count < 0) {
-      throw new UnprocessableEntityException(
-        'Query parsed but resulted in conflicting filters',
-      );
+  /**
+   * Turn flat query-param filters into a filter tree (null when empty)
+   */
+  toFilterTree(filters: PropertyFilters): FilterNode | null {
+    const terms: FilterNode[] = [];
+    for (const [name, value] of Object.entries(filters)) {
+      if (typeof value === 'undefined') continue;
+      if (name === 'contains_character') {
+        if (typeof value !== 'string' || !isSingleGrapheme(value)) {
+          throw invalidQuery(name);
+        }
+        terms.push(contains(value));
+        continue;
+      }
+      const filter = this.registry.resolveFilter(name);
+      if (!filter) throw invalidQuery(name);
+      terms.push(compare(filter.descriptor.key, filter.operator, value));
     }
+    return terms.length ? and(terms) : null;
+  }
 
-    return filters;
+  /**
+   * Analyze a string without storing it; large values come back as their
+   * preview, like stored ones
+   * - throws:
+   *   - INVALID_BODY (400) if empty
+   *   - VALUE_TOO_LARGE (413) if over the size limit
+   *   - INVALID_VALUE_TYPE (422) if wrong type
+   */
+  async analyze(
+    value: string,
+    options: AnalysisOptions = DEFAULT_ANALYSIS_OPTIONS,
+  ): Promise<AnalysisPreview> {
+    this.assertValue(value);
+    this.values.assertSize(value);
+    const { id, properties } = await this.computeProperties(value, options);
+    return {
+      id,
+      ...this.values.stored(value),
+      properties,
+      analysis_options: options,
+      analysis_version: ANALYSIS_VERSION,
+      tags: [],
+      metadata: {},
+    };
   }
 
   /**
-   * Analyze and save a string
+   * Analyze and save a string in a collection, with optional tags and metadata
+   * - mode decides what happens when the value is already stored (see SaveMode)
    * - throws:
-   *   - ConflictException (409) if duplicate
-   *   - BadRequestException (400) if empty
-   *   - UnprocessableEntityException (422) if wrong type
+   *   - STRING_EXISTS (409) if duplicate in 'create' mode
+   *   - STRING_DELETED (409) if the stored record is soft deleted and mode
+   *     is not 'dry_run'
+   *   - INVALID_BODY (400) if empty
+   *   - VALUE_TOO_LARGE (413) if over the size limit
+   *   - INVALID_VALUE_TYPE (422) if wrong type
    */
-  async analyzeAndSave(value: string): Promise<StringAnalyzer> {
+  async analyzeAndSave(
+    collection: string,
+    value: string,
+    options: AnalysisOptions = DEFAULT_ANALYSIS_OPTIONS,
+    mode: SaveMode = 'create',
+    labels: Partial<Labels> = {},
+  ): Promise<SaveResult> {
     try {
-      if (typeof value !== 'string') {
-        throw new UnprocessableEntityException(
-          'Invalid data type for value (must be string)',
-        );
+      const preview = { ...(await this.analyze(value, options)), ...labels };
+
+      // check duplicate by id (hash of the raw value), deleted records included
+      const existing = await this.store.findOne(
+        { collection, id: preview.id },
+        true,
+      );
+      if (existing) {
+        if (existing.deleted_at && mode !== 'dry_run') {
+          this.metrics.duplicateConflicts.inc({
+            operation: 'create',
+            state: 'deleted',
+          });
+          throw new ApiException(
+            'STRING_DELETED',
+            `String analysis exists but is deleted (restore it with POST ${stringsPath(collection)}/id/${existing.id}/restore)`,
+          );
+        }
+        if (mode === 'create') {
+          this.metrics.duplicateConflicts.inc({
+            operation: 'create',
+            state: 'live',
+          });
+          throw new ApiException(
+            'STRING_EXISTS',
+            'String analysis already exists',
+          );
+        }
+        return { status: 'existing', data: existing };
       }
 
-      if (value.trim() === '') {
-        throw new BadRequestException(
-          'Invalid request body or missing "value" field',
+      if (mode === 'dry_run') return { status: 'preview', data: preview };
+
+      let result: StringAnalyzer;
+      try {
+        [result] = await this.values.keep([{ id: preview.id, value }], () =>
+          this.store.insert([{ collection, ...preview }]),
         );
+      } catch (err) {
+        // stored by a concurrent request since the lookup: answer as if found
+        if (err instanceof DuplicateRecordError) {
+          return this.analyzeAndSave(collection, value, options, mode, labels);
+        }
+        throw err;
       }
+      this.events.publish('string.created', result);
 
-      // compute sha256 hash of the raw value
-      const sha256Hash = crypto
-        .createHash('sha256')
-        .update(value)
-        .digest('hex');
+      return { status: 'created', data: result };
+    } catch (err) {
+      // rethrow known errors so controller can handle status codes
+      if (err instanceof HttpException) throw err;
+      this.logger.error('Error in analyzeAndSave', err);
+      throw unexpected(err);
+    }
+  }
+
+  /**
+   * Analyze and save many strings in a collection, in a single transaction.
+   * Never throws for individual items: each one is reported as created,
+   * duplicate (with the existing record) or invalid (with the reason, e.g.
+   * a value over the size limit).
+   * Duplicates are resolved with one bulk lookup by sha256 id.
+   * - options: shared by every value, or one entry per value
+   * - labels: tags and metadata of new records, one entry per value
+   * - STRING_EXISTS (409), nothing saved, if a concurrent request stores
+   *   one of the values in the meantime
+   */
+  async analyzeBatch(
+    collection: string,
+    values: unknown[],
+    options: AnalysisOptions | AnalysisOptions[] = DEFAULT_ANALYSIS_OPTIONS,
+    labels: Partial<Labels>[] = [],
+  ): Promise<BatchItemResult[]> {
+    const results: BatchItemResult[] = new Array<BatchItemResult>(
+      values.length,
+    );
+    const pending: {
+      index: number;
+      id: string;
+      value: string;
+      options: AnalysisOptions;
+      labels: Partial<Labels>;
+    }[] = [];
 
-      // check duplicate by id (hash) or by value
-      const existingById = await this.repo.findOne({
-        where: { id: sha256Hash },
+    values.forEach((value, index) => {
+      if (typeof value !== 'string') {
+        results[index] = {
+          index,
+          status: 'invalid',
+          value,
+          reason: 'Invalid data type for value (must be string)',
+        };
+        return;
+      }
+      if (value.trim() === '') {
+        results[index] = {
+          index,
+          status: 'invalid',
+          value,
+          reason: 'Value must be a non-empty string',
+        };
+        return;
+      }
+      const tooLarge = this.values.sizeError(value);
+      if (tooLarge) {
+        results[index] = { index, status: 'invalid', value, reason: tooLarge };
+        return;
+      }
+      const id = sha256(value);
+      pending.push({
+        index,
+        id,
+        value,
+        options: Array.isArray(options) ? options[index] : options,
+        labels: labels[index] ?? {},
       });
-      if (existingById) {
-        throw new ConflictException('String analysis already exists');
+    });
+
+    try {
+      const ids = [...new Set(pending.map((p) => p.id))];
+      const known = new Map<string, StringAnalyzer | NewRecord>(
+        (await this.store.findByIds(collection, ids)).map((e) => [e.id, e]),
+      );
+
+      // items repeated inside the batch are created once, later ones are duplicates
+      const toCreate: { index: number; record: NewRecord; value: string }[] =
+        [];
+      const duplicates: { index: number; id: string }[] = [];
+      for (const item of pending) {
+        const stored = known.get(item.id);
+        if (stored) {
+          this.metrics.duplicateConflicts.inc({
+            operation: 'batch',
+            state:
+              'deleted_at' in stored && stored.deleted_at ? 'deleted' : 'live',
+          });
+          duplicates.push({ index: item.index, id: item.id });
+          continue;
+        }
+        const { properties } = await this.computeProperties(
+          item.value,
+          item.options,
+        );
+        const record: NewRecord = {
+          collection,
+          id: item.id,
+          ...this.values.stored(item.value),
+          properties,
+          analysis_options: item.options,
+          analysis_version: ANALYSIS_VERSION,
+          tags: [],
+          metadata: {},
+          ...item.labels,
+        };
+        known.set(item.id, record);
+        toCreate.push({ index: item.index, record, value: item.value });
       }
 
-      // normalized for palindrome check: remove non-alphanumeric and lower-case
-      const normalized = value.toLowerCase().replace(/[^a-z0-9]/g, '');
-      const isPalindrome =
-        normalized === normalized.split('').reverse().join('');
+      // one insert, so the new records share created_at
+      const created = await this.values.keep(
+        toCreate.map((c) => ({ id: c.record.id, value: c.value })),
+        () => this.store.insert(toCreate.map((c) => c.record)),
+      );
+      for (const record of created) known.set(record.id, record);
 
-      const uniqueCharacters = new Set(value).size;
-      const wordCount =
-        value.trim() === '' ? 0 : value.trim().split(/\s+/).length;
+      for (const { index, record } of toCreate) {
+        results[index] = {
+          index,
+          status: 'created',
+          data: known.get(record.id) as StringAnalyzer,
+        };
+      }
+      for (const { index, id } of duplicates) {
+        results[index] = {
+          index,
+          status: 'duplicate',
+          data: known.get(id) as StringAnalyzer,
+        };
+      }
+    } catch (err) {
+      if (err instanceof DuplicateRecordError) {
+        throw new ApiException(
+          'STRING_EXISTS',
+          'A string of the batch was stored by a concurrent request; retry the batch',
+        );
+      }
+      this.logger.error('Error in analyzeBatch', err);
+      throw unexpected(err);
+    }
 
-      const characterFrequencyMap: Record<string, number> = {};
-      for (const char of value) {
-        characterFrequencyMap[char] = (characterFrequencyMap[char] || 0) + 1;
+    for (const result of results) {
+      if (result.status === 'created') {
+        this.events.publish('string.created', result.data);
       }
+    }
+    return results;
+  }
 
-      const properties = {
-        length: value.length,
-        is_palindrome: isPalindrome,
-        unique_characters: uniqueCharacters,
-        word_count: wordCount,
-        sha256_hash: sha256Hash,
-        character_frequency_map: characterFrequencyMap,
-      };
-
-      const stringAnalyzer = this.repo.create({
-        id: sha256Hash,
-        value,
-        properties,
-      });
+  /**
+   * Find by value within a collection, cached
+   * - 404 if not found
+   */
+  async getbyValue(collection: string, value: string): Promise<StringAnalyzer> {
+    return this.cache.record(collection, sha256(value), () =>
+      this.findRecord(this.keyOf(collection, value)),
+    );
+  }
 
-      const result = await this.repo.save(stringAnalyzer);
+  /**
+   * Find by sha256 id within a collection, cached
+   * - 404 if not found
+   */
+  async getById(collection: string, id: string): Promise<StringAnalyzer> {
+    return this.cache.record(collection, id, () =>
+      this.findRecord({ collection, id }),
+    );
+  }
 
-      return {
-        id: result.id,
-        value: result.value,
-        properties: result.properties,
-        created_at: result.created_at,
-      };
+  /**
+   * A record with its whole value instead of the preview of a large one
+   */
+  async withFullValue(record: StringAnalyzer): Promise<StringAnalyzer> {
+    try {
+      return await this.values.withText(record);
     } catch (err) {
-      // rethrow known errors so controller can handle status codes
-      if (
-        err instanceof BadRequestException ||
-        err instanceof ConflictException ||
-        err instanceof UnprocessableEntityException
-      ) {
-        throw err;
-      }
-      console.error('Error in analyzeAndSave:', err);
-      throw new UnprocessableEntityException('Internal Server Error');
+      this.logger.error('Error in withFullValue', err);
+      throw unexpected(err);
     }
   }
 
   /**
-   * Find by value
+   * Replace the tags and/or metadata of a record, leaving the other as is
    * - 404 if not found
    */
-  async getbyValue(value: string): Promise<StringAnalyzer> {
+  async updateLabels(
+    collection: string,
+    id: string,
+    labels: Partial<Labels>,
+  ): Promise<StringAnalyzer> {
+    let result: StringAnalyzer | null;
     try {
-      const result = await this.repo.findOne({ where: { value } });
-      if (!result) {
-        throw new NotFoundException('String does not exist in the system');
-      }
-      return {
-        id: result.id,
-        value: result.value,
-        properties: result.properties,
-        created_at: result.created_at,
-      };
+      result = await this.store.updateLabels(collection, id, labels);
     } catch (err) {
-      if (err instanceof NotFoundException) throw err;
-      console.error('Error in getbyValue:', err);
-      throw new UnprocessableEntityException('Internal Server Error');
+      this.logger.error('Error in updateLabels', err);
+      throw unexpected(err);
     }
+    if (!result) throw notFound();
+    // label changes publish no event
+    await this.cache.invalidate(collection, id);
+    return result;
   }
 
   /**
-   * Get all with filters (filters validated by controller)
+   * Get all of a collection matching a filter tree (null matches
+   * everything), cached
    * returns [] when no result
    */
-  async getAllWithFilters(filters: {
-    is_palindrome?: boolean;
-    min_length?: number;
-    max_length?: number;
-    word_count?: number;
-    contains_character?: string;
-  }): Promise<StringAnalyzer[]> {
+  async getAllWithFilters(
+    collection: string,
+    filter: FilterNode | null,
+    pagination: PaginationOptions = {
+      limit: DEFAULT_PAGE_LIMIT,
+      sort_by: 'created_at',
+      order: 'desc',
+    },
+    deleted: DeletedScope = 'exclude',
+  ): Promise<Paginated<StringAnalyzer>> {
     try {
-      let query = this.repo.createQueryBuilder('s');
-
-      if (typeof filters.is_palindrome !== 'undefined') {
-        if (typeof filters.is_palindrome !== 'boolean') {
-          throw new BadRequestException(
-            'Invalid query parameter values or types',
-          );
-        }
-        // compare text value 'true'/'false'
-        query = query.andWhere("s.properties ->> 'is_palindrome' = :ispal", {
-          ispal: filters.is_palindrome ? 'true' : 'false',
-        });
-      }
-
-      if (typeof filters.min_length !== 'undefined') {
-        if (typeof filters.min_length !== 'number') {
-          throw new BadRequestException(
-            'Invalid query parameter values or types',
-          );
-        }
-        query = query.andWhere(
-          "CAST(s.properties ->> 'length' AS INTEGER) >= :min_length",
-          { min_length: filters.min_length },
-        );
-      }
+      return await this.cache.query(
+        'list',
+        { collection, filter, pagination, deleted },
+        () => this.store.list(collection, filter, deleted, pagination),
+      );
+    } catch (err) {
+      if (err instanceof HttpException) throw err;
+      this.logger.error('Error in getAllWithFilters', err);
+      throw unexpected(err);
+    }
+  }
 
-      if (typeof filters.max_length !== 'undefined') {
-        if (typeof filters.max_length !== 'number') {
-          throw new BadRequestException(
-            'Invalid query parameter values or types',
-          );
-        }
-        query = query.andWhere(
-          "CAST(s.properties ->> 'length' AS INTEGER) <= :max_length",
-          { max_length: filters.max_length },
-        );
-      }
+  /**
+   * Stored anagrams of a stored record within its collection, found through
+   * the indexed signature, cached
+   */
+  async getAnagrams(
+    source: StringAnalyzer,
+    pagination: PaginationOptions,
+  ): Promise<Paginated<StringAnalyzer>> {
+    try {
+      return await this.cache.query(
+        'anagrams',
+        { collection: source.collection, id: source.id, pagination },
+        () => this.store.anagrams(source, pagination),
+      );
+    } catch (err) {
+      this.logger.error('Error in getAnagrams', err);
+      throw unexpected(err);
+    }
+  }
 
-      if (typeof filters.word_count !== 'undefined') {
-        if (typeof filters.word_count !== 'number') {
-          throw new BadRequestException(
-            'Invalid query parameter values or types',
-          );
-        }
-        query = query.andWhere(
-          "CAST(s.properties ->> 'word_count' AS INTEGER) = :word_count",
-          { word_count: filters.word_count },
-        );
-      }
+  /**
+   * Delete by value, softly unless `permanent`
+   * - 404 if not found (soft-deleted records count only for permanent deletes)
+   */
+  async deleteByValue(
+    collection: string,
+    value: string,
+    permanent = false,
+  ): Promise<void> {
+    await this.deleteRecord(this.keyOf(collection, value), permanent);
+  }
 
-      if (typeof filters.contains_character !== 'undefined') {
-        if (
-          typeof filters.contains_character !== 'string' ||
-          filters.contains_character.length !== 1
-        ) {
-          throw new BadRequestException(
-            'Invalid query parameter values or types',
-          );
-        }
-        query = query.andWhere(
-          "s.properties -> 'character_frequency_map' ? :contains_character",
-          { contains_character: filters.contains_character },
-        );
-      }
+  /**
+   * Delete by sha256 id, softly unless `permanent`
+   * - 404 if not found (soft-deleted records count only for permanent deletes)
+   */
+  async deleteById(
+    collection: string,
+    id: string,
+    permanent = false,
+  ): Promise<void> {
+    await this.deleteRecord({ collection, id }, permanent);
+  }
 
-      const rows = await query.getMany();
-      return rows.map((r) => ({
-        id: r.id,
-        value: r.value,
-        properties: r.properties,
-        created_at: r.created_at,
-      })) as StringAnalyzer[];
+  /**
+   * Undo a soft delete. Restoring a live record changes nothing.
+   * - 404 if not found
+   */
+  async restore(collection: string, id: string): Promise<StringAnalyzer> {
+    const record = await this.findRecord({ collection, id }, true);
+    try {
+      if (!record.deleted_at) return record;
+      const restored = await this.store.restore(collection, id);
+      // restored concurrently: nothing left to undo
+      if (!restored) return this.findRecord({ collection, id });
+      this.events.publish('string.restored', restored);
+      return restored;
     } catch (err) {
-      if (err instanceof BadRequestException) throw err;
-      console.error('Error in getAllWithFilters:', err);
-      throw new BadRequestException('Invalid query parameter values or types');
+      this.logger.error('Error in restore', err);
+      throw unexpected(err);
     }
   }
 
   /**
-   * Delete by value
+   * Delete every record of a collection matching a filter. Nothing is deleted unless
+   * `confirm` equals the number of matching records, so a mistyped filter
+   * cannot wipe out more than the caller expected.
    */
-  async deleteByValue(value: string): Promise<void> {
+  async deleteMatching(
+    collection: string,
+    filter: FilterNode,
+    { confirm, permanent, deleted }: BulkDeleteOptions,
+  ): Promise<BulkDeleteResult> {
     try {
-      const stringAnalyzer = await this.repo.findOne({ where: { value } });
-      if (!stringAnalyzer) {
-        throw new NotFoundException('String does not exist in the system');
+      const { matched, removed } = await this.store.deleteMatching(
+        collection,
+        filter,
+        deleted,
+        { permanent, expected: confirm },
+      );
+      if (confirm !== matched) return { status: 'unconfirmed', matched };
+
+      if (permanent) await this.values.release(removed);
+      // the removed records feed the deleted events
+      for (const record of removed) {
+        this.events.publish('string.deleted', record, { permanent });
       }
-      await this.repo.remove(stringAnalyzer);
+      return { status: 'deleted', matched, deleted: removed.length };
     } catch (err) {
-      if (err instanceof NotFoundException) throw err;
-      console.error('Error in deleteByValue:', err);
-      throw new UnprocessableEntityException('Internal Server Error');
+      if (err instanceof HttpException) throw err;
+      this.logger.error('Error in deleteMatching', err);
+      throw unexpected(err);
     }
   }
+
+  private async findRecord(
+    key: RecordKey,
+    withDeleted = false,
+  ): Promise<StringAnalyzer> {
+    let record: StringAnalyzer | null;
+    try {
+      record = await this.store.findOne(key, withDeleted);
+    } catch (err) {
+      this.logger.error('Error in findRecord', err);
+      throw unexpected(err);
+    }
+    if (!record) throw notFound();
+    return record;
+  }
+
+  private async deleteRecord(
+    key: RecordKey,
+    permanent: boolean,
+  ): Promise<void> {
+    let record: StringAnalyzer | null;
+    try {
+      record = await this.store.delete(key, permanent);
+    } catch (err) {
+      this.logger.error('Error in deleteRecord', err);
+      throw unexpected(err);
+    }
+    if (!record) throw notFound();
+    if (permanent) await this.values.release([record]);
+    this.events.publish('string.deleted', record, { permanent });
+  }
+
+  /**
+   * The key of a value: rows hold only a preview of large values, those
+   * are found by their sha256 id
+   */
+  private keyOf(collection: string, value: string): RecordKey {
+    return this.values.isInline(value)
+      ? { collection, value }
+      : { collection, id: sha256(value) };
+  }
+
+  private assertValue(value: unknown): asserts value is string {
+    if (typeof value !== 'string') {
+      throw new ApiException(
+        'INVALID_VALUE_TYPE',
+        'Invalid data type for value (must be string)',
+        [{ name: 'value', reason: 'must be a string' }],
+      );
+    }
+    if (value.trim() === '') {
+      throw invalidBody(
+        'value',
+        'Invalid request body or missing "value" field',
+      );
+    }
+  }
+
+  /**
+   * The sha256 id and analysis properties of a value, with every
+   * registered analyzer
+   */
+  private async computeProperties(
+    value: string,
+    options: AnalysisOptions,
+  ): Promise<{ id: string; properties: StringProperties }> {
+    const { id, properties } = await this.registry.analyzeText(value, options);
+    return { id, properties: properties as StringProperties };
+  }
 }
@@ -0,0 +1,172 @@
+import { Test } from '@nestjs/testing';
+import { DiscoveryModule } from '@nestjs/core';
+import { ConfigService } from '@nestjs/config';
+import { DataSource } from 'typeorm';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { StringBackfillService } from './string-backfill.service';
+import { StringEvent, StringEventsService } from './string-events.service';
+import { StringValueService } from './string-value.service';
+import { AnalyzerRegistry } from './analyzers/analyzer-registry.service';
+import { CORE_ANALYZERS } from './analyzers/core.analyzers';
+import { METRIC_ANALYZERS } from './analyzers/metric.analyzers';
+import { StringAnalyzer } from './entities/string-analyzer.entity';
+import { StringAnalyzerSubscriber } from './entities/string-analyzer.subscriber';
+import { PostgresStringStore } from './storage/postgres-string.store';
+import { NewRecord } from './storage/string-store';
+import { DEFAULT_COLLECTION } from './collections';
+import { FilesystemBlobStore } from '../blobs/filesystem-blob.store';
+import { MetricsService } from '../observability/metrics.service';
+import { databaseOptions } from '../database/database.config';
+import {
+  ANALYSIS_VERSION,
+  AnalysisOptions,
+  DEFAULT_ANALYSIS_OPTIONS,
+  sha256,
+} from '../analysis';
+
+/**
+ * Runs against TEST_DATABASE_URL, migrated on the way in. Every test
+ * empties the string_analyzer table, so never point it at real data.
+ */
+const url = process.env.TEST_DATABASE_URL;
+
+const C = DEFAULT_COLLECTION;
+
+(url ? describe : describe.skip)('StringBackfillService', () => {
+  let dataSource: DataSource;
+  let registry: AnalyzerRegistry;
+  let store: PostgresStringStore;
+  let blobs: FilesystemBlobStore;
+  let blobDir: string;
+  let backfill: StringBackfillService;
+  let events: StringEvent[];
+
+  const analyzed = (
+    value: string,
+    options: AnalysisOptions = DEFAULT_ANALYSIS_OPTIONS,
+  ): NewRecord => {
+    const id = sha256(value);
+    return {
+      collection: C,
+      id,
+      value,
+      value_truncated: false,
+      properties: registry.analyze(
+        value,
+        id,
+        options,
+      ) as NewRecord['properties'],
+      analysis_options: options,
+      analysis_version: ANALYSIS_VERSION,
+      tags: [],
+      metadata: {},
+    };
+  };
+
+  /** Drop a property from a stored record, as if its analyzer were new */
+  const forget = (key: string, value: string) =>
+    dataSource.query(
+      'UPDATE string_analyzer SET properties = properties - $1::text, analysis_version = 1 WHERE id = $2',
+      [key, sha256(value)],
+    );
+
+  const stored = (value: string) =>
+    dataSource.getRepository(StringAnalyzer).findOneOrFail({
+      where: { collection: C, id: sha256(value) },
+      withDeleted: true,
+    });
+
+  beforeAll(async () => {
+    const module = await Test.createTestingModule({
+      imports: [DiscoveryModule],
+      providers: [
+        AnalyzerRegistry,
+        MetricsService,
+        ...CORE_ANALYZERS,
+        ...METRIC_ANALYZERS,
+      ],
+    }).compile();
+    await module.init();
+    registry = module.get(AnalyzerRegistry);
+
+    dataSource = await new DataSource(databaseOptions(url)).initialize();
+    await dataSource.runMigrations();
+    new StringAnalyzerSubscriber(dataSource);
+    const repo = dataSource.getRepository(StringAnalyzer);
+    store = new PostgresStringStore(repo, registry);
+    blobDir = await mkdtemp(join(tmpdir(), 'backfill-'));
+    blobs = new FilesystemBlobStore(blobDir);
+    const bus = new StringEventsService();
+    bus.events.subscribe((event) => events.push(event));
+    backfill = new StringBackfillService(
+      repo,
+      registry,
+      bus,
+      new StringValueService(new ConfigService(), store, blobs),
+    );
+  });
+
+  beforeEach(async () => {
+    events = [];
+    await dataSource.query('TRUNCATE string_analyzer');
+  });
+
+  afterAll(async () => {
+    await dataSource?.destroy();
+    if (blobDir) await rm(blobDir, { recursive: true, force: true });
+  });
+
+  it('re-analyses records missing a property and leaves current ones alone', async () => {
+    await store.insert([analyzed('racecar'), analyzed('hello world')]);
+    await forget('word_count', 'hello world');
+
+    expect(await backfill.backfill()).toBe(1);
+    const record = await stored('hello world');
+    expect(record.properties).toEqual(analyzed('hello world').properties);
+    expect(record.analysis_version).toBe(ANALYSIS_VERSION);
+    expect((await stored('racecar')).analysis_version).toBe(ANALYSIS_VERSION);
+
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({
+      type: 'string.reanalyzed',
+      data: { id: sha256('hello world') },
+      previous_version: 1,
+    });
+
+    // nothing is left to do
+    expect(await backfill.backfill()).toBe(0);
+  });
+
+  it('keeps the options of each record, with defaults for legacy rows', async () => {
+    const caseSensitive = { ...DEFAULT_ANALYSIS_OPTIONS, case_sensitive: true };
+    await store.insert([analyzed('Racecar', caseSensitive), analyzed('Level')]);
+    await dataSource.query(
+      'UPDATE string_analyzer SET analysis_options = NULL WHERE id = $1',
+      [sha256('Level')],
+    );
+    await forget('is_palindrome', 'Racecar');
+    await forget('is_palindrome', 'Level');
+
+    expect(await backfill.backfill()).toBe(2);
+    expect((await stored('Racecar')).properties.is_palindrome).toBe(false);
+    expect((await stored('Level')).properties.is_palindrome).toBe(true);
+  });
+
+  it('backfills deleted records and reads truncated values from their blob', async () => {
+    const long = 'ab '.repeat(1000);
+    await blobs.put(sha256(long), long);
+    await store.insert([
+      { ...analyzed(long), value: long.slice(0, 100), value_truncated: true },
+      analyzed('noon'),
+    ]);
+    await store.delete({ collection: C, id: sha256('noon') }, false);
+    await forget('word_count', long);
+    await forget('word_count', 'noon');
+
+    expect(await backfill.backfill()).toBe(2);
+    expect((await stored(long)).properties.word_count).toBe(1000);
+    expect((await stored('noon')).properties.word_count).toBe(1);
+  });
+});
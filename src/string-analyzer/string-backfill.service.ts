@@ -0,0 +1,124 @@
+import {
+  Injectable,
+  OnApplicationBootstrap,
+  Logger,
+  Optional,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { StringAnalyzer, toRecord } from './entities/string-analyzer.entity';
+import { AnalyzerRegistry } from './analyzers/analyzer-registry.service';
+import { StringEventsService, stringEvent } from './string-events.service';
+import { StringValueService } from './string-value.service';
+import { keysetCondition } from './storage/record-paging';
+import { recordEvents } from './storage/event-outbox';
+import { ANALYSIS_VERSION, DEFAULT_ANALYSIS_OPTIONS } from '../analysis';
+import { postgresOnly } from '../database/postgres';
+
+/** Rows re-analysed per transaction */
+const BACKFILL_BATCH_SIZE = 500;
+
+/**
+ * Brings the stored records of every collection up to date with the registered analyzers. Records
+ * missing any property or their anagram signature (truncated values have
+ * none) are re-analysed with the options they were created with (defaults
+ * for legacy rows). Runs in the background at startup and is
+ * safe to run concurrently: recomputing a property always yields the same
+ * value.
+ */
+@Injectable()
+export class StringBackfillService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(StringBackfillService.name);
+
+  constructor(
+    @Optional()
+    @InjectRepository(StringAnalyzer)
+    private readonly repository: Repository<StringAnalyzer> | undefined,
+    private readonly registry: AnalyzerRegistry,
+    private readonly events: StringEventsService,
+    private readonly values: StringValueService,
+  ) {}
+
+  private get repo(): Repository<StringAnalyzer> {
+    return postgresOnly(this.repository);
+  }
+
+  onApplicationBootstrap() {
+    // only records kept in Postgres are backfilled
+    if (!this.repository) return;
+    this.backfill().catch((err) => this.logger.error('Error in backfill', err));
+  }
+
+  /**
+   * Re-analyse every record that lacks a registered property.
+   * Returns the number of records updated.
+   */
+  async backfill(): Promise<number> {
+    const keys = this.registry.descriptors().map((d) => d.key);
+    let updated = 0;
+    let last: StringAnalyzer | null = null;
+
+    for (;;) {
+      // soft-deleted records are kept current too, they can be restored
+      const query = this.repo
+        .createQueryBuilder('s')
+        .withDeleted()
+        .where(
+          '(NOT (s.properties ?& ARRAY[:...keys]) OR (s.anagram_signature IS NULL AND NOT s.value_truncated))',
+          { keys },
+        )
+        .orderBy('s.collection', 'ASC')
+        .addOrderBy('s.id', 'ASC')
+        .limit(BACKFILL_BATCH_SIZE);
+      if (last) {
+        query.andWhere(
+          keysetCondition(
+            ['s.collection', 's.id'],
+            [':lastCollection', ':lastId'],
+            '>',
+          ),
+          { lastCollection: last.collection, lastId: last.id },
+        );
+      }
+
+      const batch = await query.getMany();
+      if (!batch.length) break;
+
+      const previous = batch.map((row) => row.analysis_version);
+      for (const row of batch) {
+        const { properties } = await this.registry.analyzeText(
+          await this.values.text(row),
+          row.analysis_options ?? DEFAULT_ANALYSIS_OPTIONS,
+        );
+        row.properties = {
+          ...row.properties,
+          ...properties,
+        } as StringAnalyzer['properties'];
+        row.analysis_version = ANALYSIS_VERSION;
+      }
+      await this.repo.manager.transaction(async (manager) => {
+        await manager.save(batch);
+        await recordEvents(
+          manager,
+          batch.map((row, i) =>
+            stringEvent('string.reanalyzed', toRecord(row), {
+              previous_version: previous[i],
+            }),
+          ),
+        );
+      });
+      batch.forEach((row, i) =>
+        this.events.publish('string.reanalyzed', toRecord(row), {
+          previous_version: previous[i],
+        }),
+      );
+      updated += batch.length;
+      last = batch[batch.length - 1];
+
+      if (batch.length < BACKFILL_BATCH_SIZE) break;
+    }
+
+    if (updated) this.logger.log(`Backfilled ${updated} string analyses`);
+    return updated;
+  }
+}
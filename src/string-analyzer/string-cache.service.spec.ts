@@ -0,0 +1,145 @@
+import { StringCacheService } from './string-cache.service';
+import { StringEventsService } from './string-events.service';
+import { StringAnalyzer } from './entities/string-analyzer.entity';
+import { CacheStore } from '../cache/cache-store';
+import { LruCacheStore } from '../cache/lru-cache.store';
+
+/** A store whose every call fails, like an unreachable Redis */
+class FailingCacheStore extends CacheStore {
+  get<T>(): Promise<T | undefined> {
+    return Promise.reject(new Error('cache down'));
+  }
+  set(): Promise<void> {
+    return Promise.reject(new Error('cache down'));
+  }
+  delete(): Promise<void> {
+    return Promise.reject(new Error('cache down'));
+  }
+  clear(): Promise<void> {
+    return Promise.reject(new Error('cache down'));
+  }
+}
+
+const record = (collection: string, id: string) =>
+  ({ collection, id, value: id }) as StringAnalyzer;
+
+describe('StringCacheService', () => {
+  let events: StringEventsService;
+  let cache: StringCacheService;
+
+  /** A load counting its calls, resolving to the number of the call */
+  const counter = () => {
+    let calls = 0;
+    return jest.fn(() => Promise.resolve(++calls));
+  };
+
+  beforeEach(() => {
+    events = new StringEventsService();
+    cache = new StringCacheService(
+      new LruCacheStore({ ttlMs: 60_000, maxEntries: 100, maxBytes: 1e6 }),
+      events,
+    );
+    cache.onModuleInit();
+    jest.spyOn(cache['logger'], 'error').mockImplementation();
+  });
+
+  afterEach(() => {
+    cache.onModuleDestroy();
+  });
+
+  it('caches query results by their arguments', async () => {
+    const load = counter();
+    expect(await cache.query('list', { page: 1 }, load)).toBe(1);
+    expect(await cache.query('list', { page: 1 }, load)).toBe(1);
+    expect(await cache.query('list', { page: 2 }, load)).toBe(2);
+    expect(await cache.query('stats', { page: 1 }, load)).toBe(3);
+    expect(load).toHaveBeenCalledTimes(3);
+  });
+
+  it('starts a new generation of queries on every write', async () => {
+    const load = counter();
+    await cache.query('list', {}, load);
+
+    events.publish('string.created', record('default', 'a'));
+    expect(await cache.query('list', {}, load)).toBe(2);
+    expect(await cache.query('list', {}, load)).toBe(2);
+
+    await cache.invalidate('other', 'b');
+    expect(await cache.query('list', {}, load)).toBe(3);
+  });
+
+  it('drops only the record that was written', async () => {
+    const a = jest.fn(() => Promise.resolve(record('default', 'a')));
+    const b = jest.fn(() => Promise.resolve(record('default', 'b')));
+    await cache.record('default', 'a', a);
+    await cache.record('default', 'b', b);
+
+    events.publish('string.deleted', record('default', 'a'));
+    await cache.record('default', 'a', a);
+    await cache.record('default', 'b', b);
+    expect(a).toHaveBeenCalledTimes(2);
+    expect(b).toHaveBeenCalledTimes(1);
+
+    // the same id in another collection is another record
+    events.publish('string.deleted', record('other', 'b'));
+    await cache.record('default', 'b', b);
+    expect(b).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not keep a result loaded while a write happened', async () => {
+    let resolve!: (value: number) => void;
+    const slow = cache.query(
+      'list',
+      {},
+      () => new Promise<number>((r) => (resolve = r)),
+    );
+    // the write lands before the load answers, with a result from before it
+    await cache.invalidate('default', 'a');
+    resolve(0);
+    expect(await slow).toBe(0);
+
+    const load = counter();
+    expect(await cache.query('list', {}, load)).toBe(1);
+
+    // nor a record loaded while it is written
+    await cache.record('default', 'a', () => {
+      events.publish('string.restored', record('default', 'a'));
+      return Promise.resolve(record('default', 'stale'));
+    });
+    expect(
+      (
+        await cache.record('default', 'a', () =>
+          Promise.resolve(record('default', 'a')),
+        )
+      ).value,
+    ).toBe('a');
+  });
+
+  it('does not cache failed loads', async () => {
+    const load = jest
+      .fn<Promise<number>, []>()
+      .mockRejectedValueOnce(new Error('not found'))
+      .mockResolvedValue(1);
+    await expect(cache.query('list', {}, load)).rejects.toThrow('not found');
+    expect(await cache.query('list', {}, load)).toBe(1);
+    expect(await cache.query('list', {}, load)).toBe(1);
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+
+  it('reads through when the store fails', async () => {
+    cache = new StringCacheService(new FailingCacheStore(), events);
+    jest.spyOn(cache['logger'], 'error').mockImplementation();
+    const load = counter();
+    expect(await cache.query('list', {}, load)).toBe(1);
+    expect(await cache.query('list', {}, load)).toBe(2);
+    await expect(cache.invalidate('default', 'a')).resolves.toBeUndefined();
+  });
+
+  it('stops listening to events once destroyed', async () => {
+    const load = counter();
+    await cache.query('list', {}, load);
+    cache.onModuleDestroy();
+    events.publish('string.created', record('default', 'a'));
+    expect(await cache.query('list', {}, load)).toBe(1);
+  });
+});
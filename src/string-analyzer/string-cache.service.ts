@@ -0,0 +1,105 @@
+import {
+  Injectable,
+  OnModuleDestroy,
+  OnModuleInit,
+  Logger,
+} from '@nestjs/common';
+import { Subscription } from 'rxjs';
+import { CacheStore } from '../cache/cache-store';
+import { sha256 } from '../analysis';
+import { StringAnalyzer } from './entities/string-analyzer.entity';
+import { StringEventsService } from './string-events.service';
+
+/**
+ * Cached reads of stored analyses.
+ * - records are cached by collection and id; the id is the sha256 of the
+ *   value, so lookups by value and by id share an entry
+ * - listings, anagrams and stats are cached by their arguments within the
+ *   current generation
+ * Every write drops the entry of its record and starts a new generation,
+ * so earlier query results are never read again and age out of the store.
+ * Writes are seen through the lifecycle events plus `invalidate` for
+ * changes without an event, i.e. within this process only: other
+ * instances serve their entries until the TTL expires.
+ */
+@Injectable()
+export class StringCacheService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(StringCacheService.name);
+
+  private generation = 0;
+  private subscription: Subscription | null = null;
+
+  constructor(
+    private readonly store: CacheStore,
+    private readonly events: StringEventsService,
+  ) {}
+
+  onModuleInit() {
+    // events are published once the change is committed
+    this.subscription = this.events.events.subscribe((event) => {
+      void this.invalidate(event.data.collection, event.data.id);
+    });
+  }
+
+  onModuleDestroy() {
+    this.subscription?.unsubscribe();
+  }
+
+  /**
+   * A live record of a collection by id, loaded on a miss. Failed loads
+   * (404s included) are not cached.
+   */
+  record(
+    collection: string,
+    id: string,
+    load: () => Promise<StringAnalyzer>,
+  ): Promise<StringAnalyzer> {
+    return this.remember(`record:${collection}:${id}`, load);
+  }
+
+  /**
+   * The result of a read over many records, loaded on a miss
+   * - name: the kind of read, e.g. 'list'
+   * - args: everything the result depends on, as JSON
+   */
+  query<T>(name: string, args: unknown, load: () => Promise<T>): Promise<T> {
+    return this.remember(
+      `${name}:${this.generation}:${sha256(JSON.stringify(args))}`,
+      load,
+    );
+  }
+
+  /**
+   * Forget the record and every query result, after a write
+   */
+  async invalidate(collection: string, id: string): Promise<void> {
+    this.generation++;
+    try {
+      await this.store.delete(`record:${collection}:${id}`);
+    } catch (err) {
+      this.logger.error('Error in cache invalidate', err);
+    }
+  }
+
+  private async remember<T>(key: string, load: () => Promise<T>): Promise<T> {
+    // the cache is an optimisation: when its store fails, read through
+    try {
+      const hit = await this.store.get<T>(key);
+      if (hit !== undefined) return hit;
+    } catch (err) {
+      this.logger.error('Error in cache get', err);
+    }
+
+    const generation = this.generation;
+    const value = await load();
+    // a write during the load may have made the value stale
+    if (generation === this.generation) {
+      try {
+        await this.store.set(key, value);
+      } catch (err) {
+        this.logger.error('Error in cache set', err);
+      }
+    }
+    return value;
+  }
+}
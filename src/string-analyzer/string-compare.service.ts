@@ -0,0 +1,110 @@
+import { Injectable } from '@nestjs/common';
+import { StringAnalyzer } from './entities/string-analyzer.entity';
+import { StringStore } from './storage/string-store';
+import { StringValueService } from './string-value.service';
+import { ApiException } from '../common/errors';
+import {
+  anagramSignature,
+  compareCharacters,
+  CompareTooLargeError,
+  DiffOp,
+  frequencyDifference,
+  graphemes,
+  sha256,
+} from '../analysis';
+
+const SHA256 = /^[0-9a-f]{64}$/;
+
+export interface Comparison {
+  a: { id: string; value: string };
+  b: { id: string; value: string };
+  equal: boolean;
+  is_anagram: boolean;
+  edit_distance: number;
+  /** 1 - edit distance / longer length */
+  similarity: number;
+  longest_common_substring: string;
+  longest_common_subsequence: string;
+  /** per character: count in b minus count in a, differing characters only */
+  character_frequency_diff: Record<string, number>;
+  /** operations turning a into b */
+  diff: DiffOp[];
+}
+
+/**
+ * Relations between two stored strings. Characters are grapheme clusters,
+ * as in the analysis.
+ */
+@Injectable()
+export class StringCompareService {
+  constructor(
+    private readonly store: StringStore,
+    private readonly values: StringValueService,
+  ) {}
+
+  /**
+   * Compare two strings stored in a collection, each given by value or
+   * sha256 id
+   * - 404 if either is not stored
+   * - 422 if the strings are too long to compare
+   */
+  async compare(collection: string, a: string, b: string): Promise<Comparison> {
+    // rows hold only a preview of large values, compare the whole ones
+    const [left, right] = await Promise.all([
+      this.find(collection, a).then((r) => this.values.withText(r)),
+      this.find(collection, b).then((r) => this.values.withText(r)),
+    ]);
+
+    let relations: ReturnType<typeof compareCharacters>;
+    try {
+      relations = compareCharacters(
+        graphemes(left.value, 'en'),
+        graphemes(right.value, 'en'),
+      );
+    } catch (err) {
+      if (err instanceof CompareTooLargeError) {
+        throw new ApiException('COMPARISON_TOO_LARGE', err.message);
+      }
+      throw err;
+    }
+
+    return {
+      a: { id: left.id, value: left.value },
+      b: { id: right.id, value: right.value },
+      equal: left.id === right.id,
+      is_anagram:
+        anagramSignature(left.value) === anagramSignature(right.value),
+      ...relations,
+      character_frequency_diff: frequencyDifference(
+        left.properties.character_frequency_map,
+        right.properties.character_frequency_map,
+      ),
+    };
+  }
+
+  /**
+   * A sha256 id is tried first, then the raw value; rows hold only a
+   * preview of large values, those are found by their sha256 id
+   */
+  private async find(
+    collection: string,
+    valueOrId: string,
+  ): Promise<StringAnalyzer> {
+    const found =
+      (SHA256.test(valueOrId)
+        ? await this.store.findOne({ collection, id: valueOrId })
+        : null) ??
+      (await this.store.findOne(
+        this.values.isInline(valueOrId)
+          ? { collection, value: valueOrId }
+          : { collection, id: sha256(valueOrId) },
+      ));
+    if (!found) {
+      throw new ApiException(
+        'STRING_NOT_FOUND',
+        'String does not exist in the system',
+      );
+    }
+    return found;
+  }
+}
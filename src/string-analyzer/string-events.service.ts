@@ -0,0 +1,67 @@
+import { Injectable, OnApplicationShutdown } from '@nestjs/common';
+import { Observable, Subject } from 'rxjs';
+import { randomUUID } from 'crypto';
+import { StringAnalyzer } from './entities/string-analyzer.entity';
+
+export const EVENT_TYPES = [
+  'string.created',
+  'string.deleted',
+  'string.restored',
+  'string.reanalyzed',
+] as const;
+export type StringEventType = (typeof EVENT_TYPES)[number];
+
+export interface StringEvent {
+  /** unique per event, so receivers can drop duplicate deliveries */
+  id: string;
+  type: StringEventType;
+  occurred_at: string;
+  data: StringAnalyzer;
+  /** string.deleted: whether the row was removed rather than soft deleted */
+  permanent?: boolean;
+  /** string.reanalyzed: analysis_version before re-analysis */
+  previous_version?: number;
+}
+
+/** A new event about a stored record */
+export function stringEvent(
+  type: StringEventType,
+  data: StringAnalyzer,
+  extra: Pick<StringEvent, 'permanent' | 'previous_version'> = {},
+): StringEvent {
+  return {
+    id: randomUUID(),
+    type,
+    occurred_at: new Date().toISOString(),
+    data,
+    ...extra,
+  };
+}
+
+/**
+ * In-process bus for the lifecycle events of stored analyses. Events are
+ * published after the change is committed; the cache and the SSE stream
+ * subscribe to it. Webhooks are fed by the event outbox instead, which
+ * Postgres writes in the transaction of the change (see recordEvents).
+ */
+@Injectable()
+export class StringEventsService implements OnApplicationShutdown {
+  private readonly subject = new Subject<StringEvent>();
+
+  publish(
+    type: StringEventType,
+    data: StringAnalyzer,
+    extra: Pick<StringEvent, 'permanent' | 'previous_version'> = {},
+  ) {
+    this.subject.next(stringEvent(type, data, extra));
+  }
+
+  get events(): Observable<StringEvent> {
+    return this.subject.asObservable();
+  }
+
+  onApplicationShutdown() {
+    // ends open SSE streams
+    this.subject.complete();
+  }
+}
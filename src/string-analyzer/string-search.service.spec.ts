@@ -0,0 +1,252 @@
+import { Test } from '@nestjs/testing';
+import { DiscoveryModule } from '@nestjs/core';
+import { DataSource } from 'typeorm';
+import { MAX_REGEX_LENGTH, StringSearchService } from './string-search.service';
+import { AnalyzerRegistry } from './analyzers/analyzer-registry.service';
+import { CORE_ANALYZERS } from './analyzers/core.analyzers';
+import { METRIC_ANALYZERS } from './analyzers/metric.analyzers';
+import { StringAnalyzer } from './entities/string-analyzer.entity';
+import { StringAnalyzerSubscriber } from './entities/string-analyzer.subscriber';
+import { PostgresStringStore } from './storage/postgres-string.store';
+import { NewRecord } from './storage/string-store';
+import { DEFAULT_COLLECTION } from './collections';
+import { MetricsService } from '../observability/metrics.service';
+import { ApiException, ErrorCode } from '../common/errors';
+import { databaseOptions } from '../database/database.config';
+import {
+  ANALYSIS_VERSION,
+  DEFAULT_ANALYSIS_OPTIONS,
+  sha256,
+} from '../analysis';
+
+/**
+ * Runs against TEST_DATABASE_URL, migrated on the way in. Every test
+ * empties the string_analyzer table, so never point it at real data.
+ */
+const url = process.env.TEST_DATABASE_URL;
+
+const C = DEFAULT_COLLECTION;
+const OPTIONS = { limit: 50, case_sensitive: false };
+
+(url ? describe : describe.skip)('StringSearchService', () => {
+  let dataSource: DataSource;
+  let registry: AnalyzerRegistry;
+  let store: PostgresStringStore;
+  let search: StringSearchService;
+
+  const analyzed = (value: string): NewRecord => {
+    const id = sha256(value);
+    return {
+      collection: C,
+      id,
+      value,
+      value_truncated: false,
+      properties: registry.analyze(
+        value,
+        id,
+        DEFAULT_ANALYSIS_OPTIONS,
+      ) as NewRecord['properties'],
+      analysis_options: DEFAULT_ANALYSIS_OPTIONS,
+      analysis_version: ANALYSIS_VERSION,
+      tags: [],
+      metadata: {},
+    };
+  };
+
+  /**
+   * A large value as its row holds it: a preview, the text in the blob
+   * store. Properties do not matter to search, those of the preview do.
+   */
+  const truncated = (value: string): NewRecord => ({
+    ...analyzed(value.slice(0, 1000)),
+    id: sha256(value),
+    value_truncated: true,
+  });
+
+  const values = (hits: StringAnalyzer[]) => hits.map((hit) => hit.value);
+
+  const save = (...vals: string[]) => store.insert(vals.map(analyzed));
+
+  /** The catalog code a search fails with */
+  const failure = async (search: Promise<unknown>): Promise<ErrorCode> => {
+    const err: unknown = await search.then(
+      () => null,
+      (error: unknown) => error,
+    );
+    expect(err).toBeInstanceOf(ApiException);
+    return (err as ApiException).code;
+  };
+
+  beforeAll(async () => {
+    const module = await Test.createTestingModule({
+      imports: [DiscoveryModule],
+      providers: [
+        AnalyzerRegistry,
+        MetricsService,
+        ...CORE_ANALYZERS,
+        ...METRIC_ANALYZERS,
+      ],
+    }).compile();
+    await module.init();
+    registry = module.get(AnalyzerRegistry);
+
+    dataSource = await new DataSource(databaseOptions(url)).initialize();
+    await dataSource.runMigrations();
+    new StringAnalyzerSubscriber(dataSource);
+    const repo = dataSource.getRepository(StringAnalyzer);
+    store = new PostgresStringStore(repo, registry);
+    search = new StringSearchService(repo);
+  });
+
+  beforeEach(async () => {
+    await dataSource.query('TRUNCATE string_analyzer');
+  });
+
+  afterAll(async () => {
+    await dataSource?.destroy();
+  });
+
+  describe('text modes', () => {
+    it('matches LIKE wildcards and backslashes literally', async () => {
+      await save('a%b', 'a_b', 'a\\b', 'axb', 'a\\\\b');
+
+      for (const mode of ['substring', 'prefix', 'suffix'] as const) {
+        const term = mode === 'prefix' ? 'a' : mode === 'suffix' ? 'b' : '';
+        for (const wildcard of ['%', '_']) {
+          const pattern = mode === 'suffix' ? wildcard + term : term + wildcard;
+          expect(
+            values(await search.searchText(C, mode, pattern, OPTIONS)),
+          ).toEqual([`a${wildcard}b`]);
+        }
+      }
+      expect(
+        values(await search.searchText(C, 'substring', '\\', OPTIONS)),
+      ).toEqual(['a\\b', 'a\\\\b']);
+      expect(
+        values(await search.searchText(C, 'substring', '\\\\', OPTIONS)),
+      ).toEqual(['a\\\\b']);
+    });
+
+    it('ranks by the share of the value covered, then by position', async () => {
+      await save('racecar', 'car', 'carpet', 'scar');
+
+      expect(
+        values(await search.searchText(C, 'substring', 'CAR', OPTIONS)),
+      ).toEqual(['car', 'scar', 'carpet', 'racecar']);
+      expect(
+        values(
+          await search.searchText(C, 'substring', 'CAR', {
+            ...OPTIONS,
+            case_sensitive: true,
+          }),
+        ),
+      ).toEqual([]);
+    });
+  });
+
+  describe('regex mode', () => {
+    it(`rejects patterns over ${MAX_REGEX_LENGTH} characters`, async () => {
+      await save('aaa');
+
+      expect(
+        values(
+          await search.searchRegex(C, 'a'.repeat(MAX_REGEX_LENGTH), OPTIONS),
+        ),
+      ).toEqual([]);
+      expect(
+        await failure(
+          search.searchRegex(C, 'a'.repeat(MAX_REGEX_LENGTH + 1), OPTIONS),
+        ),
+      ).toBe('INVALID_REGEX');
+      expect(await failure(search.searchRegex(C, '(a', OPTIONS))).toBe(
+        'INVALID_REGEX',
+      );
+    });
+
+    it('times out runaway backreferences', async () => {
+      // the automaton matches, then every split of the a's is tried
+      await save(`${'a'.repeat(301)}b`);
+
+      expect(
+        await failure(
+          search.searchRegex(C, '^(a*)(a*)(a*)\\1\\2\\3b$', OPTIONS),
+        ),
+      ).toBe('SEARCH_TIMEOUT');
+      // the connection is usable again
+      expect(values(await search.searchRegex(C, 'ab$', OPTIONS))).toHaveLength(
+        1,
+      );
+    });
+  });
+
+  describe('fuzzy mode', () => {
+    beforeAll(async () => {
+      // edit distances are computed in the application
+      await dataSource.query('DROP EXTENSION IF EXISTS pg_trgm');
+    });
+
+    it('orders by distance, then score, then id', async () => {
+      await save(
+        'kitten',
+        'Kitten',
+        'kittens',
+        'sitten',
+        'mitten',
+        'sitting',
+        'kit',
+      );
+
+      const hits = await search.searchFuzzy(C, 'kitten', 2, OPTIONS);
+      // ties are listed in id order
+      const ids = (...tied: string[]) => tied.map(sha256).sort();
+      expect(hits.map((hit) => [hit.id, hit.distance])).toEqual([
+        ...ids('kitten', 'Kitten').map((id) => [id, 0]),
+        [sha256('kittens'), 1],
+        ...ids('sitten', 'mitten').map((id) => [id, 1]),
+      ]);
+      expect(hits.map((hit) => hit.score)).toEqual([
+        1,
+        1,
+        1 - 1 / 7,
+        1 - 1 / 6,
+        1 - 1 / 6,
+      ]);
+
+      expect(
+        values(
+          await search.searchFuzzy(C, 'kitten', 0, {
+            ...OPTIONS,
+            case_sensitive: true,
+          }),
+        ),
+      ).toEqual(['kitten']);
+      expect(
+        values(
+          await search.searchFuzzy(C, 'kitten', 2, { ...OPTIONS, limit: 3 }),
+        ),
+      ).toHaveLength(3);
+    });
+  });
+
+  describe('large values', () => {
+    it('leaves them out of every mode and counts them', async () => {
+      const large = 'racecar '.repeat(20_000);
+      await store.insert([analyzed('racecar'), truncated(large)]);
+
+      for (const mode of ['substring', 'prefix', 'suffix'] as const) {
+        expect(
+          values(await search.searchText(C, mode, 'racecar', OPTIONS)),
+        ).toEqual(['racecar']);
+      }
+      expect(values(await search.searchRegex(C, '^race', OPTIONS))).toEqual([
+        'racecar',
+      ]);
+      // the preview alone would be an exact match
+      expect(
+        await search.searchFuzzy(C, large.slice(0, 1000), 0, OPTIONS),
+      ).toEqual([]);
+      expect(await search.countLargeValues(C)).toBe(1);
+      expect(await search.countLargeValues('other')).toBe(0);
+    });
+  });
+});
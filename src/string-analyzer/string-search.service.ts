@@ -0,0 +1,238 @@
+import { Injectable, Optional } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { QueryFailedError, Repository, SelectQueryBuilder } from 'typeorm';
+import { StringAnalyzer, toRecord } from './entities/string-analyzer.entity';
+import { editDistance } from '../analysis';
+import { ApiException } from '../common/errors';
+import { postgresOnly } from '../database/postgres';
+
+export type SearchMode = 'substring' | 'prefix' | 'suffix' | 'regex' | 'fuzzy';
+
+export interface SearchOptions {
+  limit: number;
+  case_sensitive: boolean;
+}
+
+export type SearchHit = StringAnalyzer & {
+  score: number;
+  distance?: number;
+};
+
+/** Longest regex pattern accepted by regex search */
+export const MAX_REGEX_LENGTH = 256;
+/** Time budget for a single regex search query, in milliseconds */
+export const REGEX_TIMEOUT_MS = 2000;
+/** Largest edit distance accepted by fuzzy search */
+export const MAX_FUZZY_DISTANCE = 5;
+
+const FUZZY_BATCH_SIZE = 1000;
+
+/** Postgres error codes */
+const INVALID_REGULAR_EXPRESSION = '2201B';
+const QUERY_CANCELED = '57014';
+
+/**
+ * Search over the stored values of a collection. Every result carries a score in [0, 1]
+ * (1 = exact match) and results are ranked by it. Rows of large values hold
+ * only a preview, and their text lives in the blob store, so they are left
+ * out of every mode; countLargeValues tells how many were.
+ */
+@Injectable()
+export class StringSearchService {
+  constructor(
+    @Optional()
+    @InjectRepository(StringAnalyzer)
+    private readonly repository: Repository<StringAnalyzer> | undefined,
+  ) {}
+
+  private get repo(): Repository<StringAnalyzer> {
+    return postgresOnly(this.repository);
+  }
+
+  /**
+   * Substring, prefix or suffix search. Score is the share of the value
+   * covered by the search term; earlier matches rank first on ties.
+   */
+  async searchText(
+    collection: string,
+    mode: 'substring' | 'prefix' | 'suffix',
+    term: string,
+    { limit, case_sensitive }: SearchOptions,
+  ): Promise<SearchHit[]> {
+    const escaped = term.replace(/[\\%_]/g, (c) => `\\${c}`);
+    const pattern =
+      mode === 'prefix'
+        ? `${escaped}%`
+        : mode === 'suffix'
+          ? `%${escaped}`
+          : `%${escaped}%`;
+
+    const value = case_sensitive ? 's.value' : 'lower(s.value)';
+    const query = this.repo
+      .createQueryBuilder('s')
+      .addSelect(
+        'CAST(:termLength AS FLOAT) / GREATEST(char_length(s.value), 1)',
+        'score',
+      )
+      .addSelect(
+        `strpos(${value}, ${case_sensitive ? ':term' : 'lower(:term)'})`,
+        'position',
+      )
+      .where('s.collection = :collection', { collection })
+      .andWhere('NOT s.value_truncated')
+      .andWhere(`s.value ${case_sensitive ? 'LIKE' : 'ILIKE'} :pattern`, {
+        pattern,
+        term,
+        termLength: Array.from(term).length,
+      })
+      .orderBy('score', 'DESC')
+      .addOrderBy('position', 'ASC')
+      .addOrderBy('s.id', 'ASC')
+      .limit(limit);
+
+    return this.withScores(query);
+  }
+
+  /**
+   * POSIX regular expression search (Postgres `~`). Patterns are length
+   * limited and run under a statement timeout.
+   * - 400 if the pattern is too long or invalid
+   * - 422 if the search exceeds its time budget
+   */
+  async searchRegex(
+    collection: string,
+    pattern: string,
+    { limit, case_sensitive }: SearchOptions,
+  ): Promise<SearchHit[]> {
+    if (pattern.length > MAX_REGEX_LENGTH) {
+      throw new ApiException(
+        'INVALID_REGEX',
+        `Regular expression too long (max ${MAX_REGEX_LENGTH} characters)`,
+      );
+    }
+    // embedded option keeps substring() consistent with the ~* match
+    const effective = case_sensitive ? pattern : `(?i)${pattern}`;
+
+    try {
+      return await this.repo.manager.transaction(async (manager) => {
+        await manager.query(
+          `SET LOCAL statement_timeout = ${REGEX_TIMEOUT_MS}`,
+        );
+        const query = manager
+          .getRepository(StringAnalyzer)
+          .createQueryBuilder('s')
+          .addSelect(
+            'CAST(char_length(substring(s.value from :pattern)) AS FLOAT) / GREATEST(char_length(s.value), 1)',
+            'score',
+          )
+          .where('s.collection = :collection', { collection })
+          .andWhere('NOT s.value_truncated')
+          .andWhere('s.value ~ :pattern', { pattern: effective })
+          .orderBy('score', 'DESC')
+          .addOrderBy('s.id', 'ASC')
+          .limit(limit);
+        return this.withScores(query);
+      });
+    } catch (err) {
+      const code = (err as { driverError?: { code?: string } })?.driverError
+        ?.code;
+      if (
+        err instanceof QueryFailedError &&
+        code === INVALID_REGULAR_EXPRESSION
+      ) {
+        throw new ApiException('INVALID_REGEX', 'Invalid regular expression');
+      }
+      if (err instanceof QueryFailedError && code === QUERY_CANCELED) {
+        throw new ApiException(
+          'SEARCH_TIMEOUT',
+          'Regular expression search took too long',
+        );
+      }
+      throw err;
+    }
+  }
+
+  /**
+   * Fuzzy search by Levenshtein distance, computed in the application so no
+   * database extension is needed. Candidates are narrowed in SQL by length
+   * (a distance of d needs lengths within d of each other) and scanned in
+   * batches. Score is 1 - distance / longest length.
+   */
+  async searchFuzzy(
+    collection: string,
+    term: string,
+    maxDistance: number,
+    { limit, case_sensitive }: SearchOptions,
+  ): Promise<SearchHit[]> {
+    const normalize = (v: string) => (case_sensitive ? v : v.toLowerCase());
+    const target = normalize(term);
+    const termLength = Array.from(term).length;
+
+    const hits: SearchHit[] = [];
+    let lastId: string | null = null;
+
+    for (;;) {
+      const query = this.repo
+        .createQueryBuilder('s')
+        .where('s.collection = :collection', { collection })
+        .andWhere('NOT s.value_truncated')
+        .andWhere('char_length(s.value) BETWEEN :min AND :max', {
+          min: Math.max(termLength - maxDistance, 0),
+          max: termLength + maxDistance,
+        })
+        .orderBy('s.id', 'ASC')
+        .limit(FUZZY_BATCH_SIZE);
+      if (lastId) query.andWhere('s.id > :lastId', { lastId });
+
+      const batch = await query.getMany();
+      for (const row of batch) {
+        const distance = editDistance(
+          normalize(row.value),
+          target,
+          maxDistance,
+        );
+        if (distance > maxDistance) continue;
+        const longest = Math.max(Array.from(row.value).length, termLength, 1);
+        hits.push({
+          ...toRecord(row),
+          score: 1 - distance / longest,
+          distance,
+        });
+      }
+
+      // keep only the best `limit` hits between batches
+      hits.sort(compareFuzzy);
+      hits.splice(limit);
+
+      if (batch.length < FUZZY_BATCH_SIZE) break;
+      lastId = batch[batch.length - 1].id;
+    }
+
+    return hits;
+  }
+
+  /** Live large values of a collection, which no search mode matches */
+  countLargeValues(collection: string): Promise<number> {
+    return this.repo.count({ where: { collection, value_truncated: true } });
+  }
+
+  private async withScores(
+    query: SelectQueryBuilder<StringAnalyzer>,
+  ): Promise<SearchHit[]> {
+    const { entities, raw } = await query.getRawAndEntities<{
+      score: number | string;
+    }>();
+    return entities.map((entity, i) => ({
+      ...toRecord(entity),
+      score: Number(raw[i].score),
+    }));
+  }
+}
+
+function compareFuzzy(a: SearchHit, b: SearchHit): number {
+  return (
+    a.distance! - b.distance! ||
+    b.score - a.score ||
+    (a.id < b.id ? -1 : a.id > b.id ? 1 : 0)
+  );
+}
@@ -0,0 +1,183 @@
+import { Test } from '@nestjs/testing';
+import { DiscoveryModule } from '@nestjs/core';
+import { DataSource } from 'typeorm';
+import { StringStatsService, StatsOptions } from './string-stats.service';
+import { StringCacheService } from './string-cache.service';
+import { StringEventsService } from './string-events.service';
+import { AnalyzerRegistry } from './analyzers/analyzer-registry.service';
+import { CORE_ANALYZERS } from './analyzers/core.analyzers';
+import { METRIC_ANALYZERS } from './analyzers/metric.analyzers';
+import { StringAnalyzer } from './entities/string-analyzer.entity';
+import { StringAnalyzerSubscriber } from './entities/string-analyzer.subscriber';
+import { PostgresStringStore } from './storage/postgres-string.store';
+import { NewRecord } from './storage/string-store';
+import { compare } from './filters/filter-ast';
+import { DEFAULT_COLLECTION } from './collections';
+import { LruCacheStore } from '../cache/lru-cache.store';
+import { MetricsService } from '../observability/metrics.service';
+import { databaseOptions } from '../database/database.config';
+import {
+  ANALYSIS_VERSION,
+  DEFAULT_ANALYSIS_OPTIONS,
+  sha256,
+} from '../analysis';
+
+/**
+ * Runs against TEST_DATABASE_URL, migrated on the way in. Every test
+ * empties the string_analyzer table, so never point it at real data.
+ */
+const url = process.env.TEST_DATABASE_URL;
+
+const C = DEFAULT_COLLECTION;
+const OPTIONS: StatsOptions = {
+  buckets: 2,
+  percentiles: [25, 90],
+  top_characters: 3,
+};
+
+(url ? describe : describe.skip)('StringStatsService', () => {
+  let dataSource: DataSource;
+  let registry: AnalyzerRegistry;
+  let store: PostgresStringStore;
+  let stats: StringStatsService;
+
+  const analyzed = (value: string, collection = C): NewRecord => {
+    const id = sha256(value);
+    return {
+      collection,
+      id,
+      value,
+      value_truncated: false,
+      properties: registry.analyze(
+        value,
+        id,
+        DEFAULT_ANALYSIS_OPTIONS,
+      ) as NewRecord['properties'],
+      analysis_options: DEFAULT_ANALYSIS_OPTIONS,
+      analysis_version: ANALYSIS_VERSION,
+      tags: [],
+      metadata: {},
+    };
+  };
+
+  beforeAll(async () => {
+    const module = await Test.createTestingModule({
+      imports: [DiscoveryModule],
+      providers: [
+        AnalyzerRegistry,
+        MetricsService,
+        ...CORE_ANALYZERS,
+        ...METRIC_ANALYZERS,
+      ],
+    }).compile();
+    await module.init();
+    registry = module.get(AnalyzerRegistry);
+
+    dataSource = await new DataSource(databaseOptions(url)).initialize();
+    await dataSource.runMigrations();
+    new StringAnalyzerSubscriber(dataSource);
+    const repo = dataSource.getRepository(StringAnalyzer);
+    store = new PostgresStringStore(repo, registry);
+    // caching off: every call runs the SQL
+    const cache = new StringCacheService(
+      new LruCacheStore({ ttlMs: 0, maxEntries: 0, maxBytes: 0 }),
+      new StringEventsService(),
+    );
+    stats = new StringStatsService(repo, registry, cache);
+  });
+
+  beforeEach(async () => {
+    await dataSource.query('TRUNCATE string_analyzer');
+  });
+
+  afterAll(async () => {
+    await dataSource?.destroy();
+  });
+
+  it('summarises the numeric properties', async () => {
+    // lengths 3, 5, 7 and 11
+    await store.insert(
+      ['racecar', 'level', 'hello world', 'abc'].map((v) => analyzed(v)),
+    );
+
+    const result = await stats.getStats(C, null, OPTIONS);
+    expect(result.count).toBe(4);
+    expect(result.palindrome_ratio).toBe(0.5);
+    expect(result.fields.length).toEqual({
+      min: 3,
+      max: 11,
+      mean: 6.5,
+      median: 6,
+      // interpolated between the closest ranks
+      percentiles: { p25: 4.5, p90: 9.8 },
+      histogram: [
+        { from: 3, to: 7.5, count: 3 },
+        { from: 7.5, to: 12, count: 1 },
+      ],
+    });
+    expect(result.fields.word_count).toMatchObject({ min: 1, max: 2 });
+    expect(Object.keys(result.fields)).toEqual([
+      'length',
+      'word_count',
+      'unique_characters',
+    ]);
+  });
+
+  it('merges the character frequency maps of every record', async () => {
+    await store.insert(
+      ['racecar', 'level', 'hello world', 'abc'].map((v) => analyzed(v)),
+    );
+
+    // l: 2 + 3, e: 1 + 2 + 1, then a tie of 3 broken by character
+    expect(
+      (await stats.getStats(C, null, OPTIONS)).character_frequency,
+    ).toEqual([
+      { character: 'l', count: 5 },
+      { character: 'e', count: 4 },
+      { character: 'a', count: 3 },
+    ]);
+  });
+
+  it('scopes to the filter and collection, leaving deleted records out', async () => {
+    await store.insert([
+      analyzed('racecar'),
+      analyzed('level'),
+      analyzed('abc'),
+      analyzed('noon'),
+      analyzed('stats', 'other'),
+    ]);
+    await store.delete({ collection: C, id: sha256('noon') }, false);
+
+    const palindromes = await stats.getStats(
+      C,
+      compare('is_palindrome', '=', true),
+      OPTIONS,
+    );
+    expect(palindromes.count).toBe(2);
+    expect(palindromes.palindrome_ratio).toBe(1);
+    expect(palindromes.fields.length).toMatchObject({ min: 5, max: 7 });
+
+    expect((await stats.getStats('other', null, OPTIONS)).count).toBe(1);
+  });
+
+  it('reports an empty corpus with nulls', async () => {
+    expect(await stats.getStats(C, null, OPTIONS)).toEqual({
+      count: 0,
+      palindrome_ratio: null,
+      fields: Object.fromEntries(
+        ['length', 'word_count', 'unique_characters'].map((field) => [
+          field,
+          {
+            min: null,
+            max: null,
+            mean: null,
+            median: null,
+            percentiles: { p25: null, p90: null },
+            histogram: [],
+          },
+        ]),
+      ),
+      character_frequency: [],
+    });
+  });
+});
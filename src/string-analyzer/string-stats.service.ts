@@ -0,0 +1,235 @@
+import { Injectable, Optional } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, SelectQueryBuilder } from 'typeorm';
+import { StringAnalyzer } from './entities/string-analyzer.entity';
+import { AnalyzerRegistry } from './analyzers/analyzer-registry.service';
+import { FilterNode } from './filters/filter-ast';
+import { compileFilter, propertyExpression } from './filters/filter-compiler';
+import { StringCacheService } from './string-cache.service';
+import { postgresOnly } from '../database/postgres';
+
+/** Numeric properties summarised by GET /strings/stats */
+export const STAT_FIELDS = ['length', 'word_count', 'unique_characters'];
+
+export interface StatsOptions {
+  /** number of equal-width histogram buckets */
+  buckets: number;
+  /** percentiles to report, 0-100 */
+  percentiles: number[];
+  /** size of the corpus character frequency table */
+  top_characters: number;
+}
+
+export interface FieldStats {
+  min: number | null;
+  max: number | null;
+  mean: number | null;
+  median: number | null;
+  percentiles: Record<string, number | null>;
+  histogram: { from: number; to: number; count: number }[];
+}
+
+export interface CorpusStats {
+  count: number;
+  palindrome_ratio: number | null;
+  fields: Record<string, FieldStats>;
+  character_frequency: { character: string; count: number }[];
+}
+
+/**
+ * Aggregate statistics over the corpus of a collection. Everything is computed in
+ * SQL over the jsonb `properties` column; only aggregates are loaded.
+ */
+@Injectable()
+export class StringStatsService {
+  constructor(
+    @Optional()
+    @InjectRepository(StringAnalyzer)
+    private readonly repository: Repository<StringAnalyzer> | undefined,
+    private readonly registry: AnalyzerRegistry,
+    private readonly cache: StringCacheService,
+  ) {}
+
+  private get repo(): Repository<StringAnalyzer> {
+    return postgresOnly(this.repository);
+  }
+
+  /**
+   * Statistics of the records of a collection matching a filter tree
+   * (null for all), cached
+   */
+  getStats(
+    collection: string,
+    filter: FilterNode | null,
+    options: StatsOptions,
+  ): Promise<CorpusStats> {
+    return this.cache.query('stats', { collection, filter, options }, () =>
+      this.compute(collection, filter, options),
+    );
+  }
+
+  private async compute(
+    collection: string,
+    filter: FilterNode | null,
+    { buckets, percentiles, top_characters }: StatsOptions,
+  ): Promise<CorpusStats> {
+    const fractions = [0.5, ...percentiles.map((p) => p / 100)];
+
+    const summary = this.filtered(collection, filter)
+      .select('COUNT(*)', 'count')
+      .addSelect(
+        "AVG(CASE WHEN CAST(s.properties ->> 'is_palindrome' AS BOOLEAN) THEN 1.0 ELSE 0.0 END)",
+        'palindrome_ratio',
+      );
+    for (const field of STAT_FIELDS) {
+      const expr = this.expression(field);
+      summary
+        .addSelect(`MIN(${expr})`, `${field}_min`)
+        .addSelect(`MAX(${expr})`, `${field}_max`)
+        .addSelect(`AVG(${expr})`, `${field}_mean`)
+        .addSelect(
+          `percentile_cont(CAST(:fractions AS FLOAT8[])) WITHIN GROUP (ORDER BY ${expr})`,
+          `${field}_percentiles`,
+        );
+    }
+    summary.setParameter('fractions', fractions);
+
+    const row = (await summary.getRawOne<Record<string, unknown>>()) ?? {};
+    const count = Number(row.count ?? 0);
+
+    const fields: Record<string, FieldStats> = {};
+    for (const field of STAT_FIELDS) {
+      const min = toNumber(row[`${field}_min`]);
+      const max = toNumber(row[`${field}_max`]);
+      const values = parseArray(row[`${field}_percentiles`]);
+      fields[field] = {
+        min,
+        max,
+        mean: toNumber(row[`${field}_mean`]),
+        median: values[0] ?? null,
+        percentiles: Object.fromEntries(
+          percentiles.map((p, i) => [`p${p}`, values[i + 1] ?? null]),
+        ),
+        histogram:
+          min === null || max === null
+            ? []
+            : await this.histogram(
+                collection,
+                filter,
+                field,
+                min,
+                max,
+                buckets,
+              ),
+      };
+    }
+
+    return {
+      count,
+      palindrome_ratio: count ? toNumber(row.palindrome_ratio) : null,
+      fields,
+      character_frequency: await this.characterFrequency(
+        collection,
+        filter,
+        top_characters,
+      ),
+    };
+  }
+
+  /**
+   * Equal-width buckets over [min, max]; empty buckets are reported too
+   */
+  private async histogram(
+    collection: string,
+    filter: FilterNode | null,
+    field: string,
+    min: number,
+    max: number,
+    buckets: number,
+  ): Promise<FieldStats['histogram']> {
+    // integer values, so max + 1 as the exclusive upper bound keeps max in the last bucket
+    const high = max + 1;
+    const count = Math.min(buckets, high - min);
+    const width = (high - min) / count;
+
+    const rows = await this.filtered(collection, filter)
+      .select(
+        `width_bucket(${this.expression(field)}, :low, :high, :count)`,
+        'bucket',
+      )
+      .addSelect('COUNT(*)', 'count')
+      .setParameters({ low: min, high, count })
+      .groupBy('bucket')
+      .getRawMany<{ bucket: number | string; count: number | string }>();
+
+    const counts = new Map(
+      rows.map((r) => [Number(r.bucket), Number(r.count)]),
+    );
+    return Array.from({ length: count }, (_, i) => ({
+      from: min + i * width,
+      to: min + (i + 1) * width,
+      count: counts.get(i + 1) ?? 0,
+    }));
+  }
+
+  /**
+   * Corpus-wide character counts, merged from every character_frequency_map
+   */
+  private async characterFrequency(
+    collection: string,
+    filter: FilterNode | null,
+    limit: number,
+  ): Promise<CorpusStats['character_frequency']> {
+    const [subQuery, params] = this.filtered(collection, filter)
+      .select('s.properties', 'properties')
+      .getQueryAndParameters();
+    const next = params.length + 1;
+
+    const rows: { character: string; count: string | number }[] =
+      await this.repo.query(
+        `SELECT f.key AS character, SUM(CAST(f.value AS INTEGER)) AS count
+         FROM (${subQuery}) AS c
+         CROSS JOIN LATERAL jsonb_each_text(c.properties -> 'character_frequency_map') AS f
+         GROUP BY f.key
+         ORDER BY count DESC, f.key ASC
+         LIMIT $${next}`,
+        [...(params as unknown[]), limit],
+      );
+    return rows.map((r) => ({
+      character: r.character,
+      count: Number(r.count),
+    }));
+  }
+
+  private filtered(
+    collection: string,
+    filter: FilterNode | null,
+  ): SelectQueryBuilder<StringAnalyzer> {
+    const query = this.repo
+      .createQueryBuilder('s')
+      .where('s.collection = :collection', { collection });
+    if (filter) query.andWhere(compileFilter(filter, this.registry));
+    return query;
+  }
+
+  private expression(field: string): string {
+    return propertyExpression(this.registry.get(field)!);
+  }
+}
+
+function toNumber(value: unknown): number | null {
+  return value === null || typeof value === 'undefined' ? null : Number(value);
+}
+
+/** float8[] comes back parsed by pg, or as '{1,2}' text from other drivers */
+function parseArray(value: unknown): (number | null)[] {
+  if (Array.isArray(value)) return value.map(toNumber);
+  if (typeof value === 'string') {
+    return value
+      .replace(/^\{|\}$/g, '')
+      .split(',')
+      .filter((v) => v !== '')
+      .map((v) => (v === 'NULL' ? null : Number(v)));
+  }
+  return [];
+}
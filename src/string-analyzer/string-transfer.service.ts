@@ -0,0 +1,398 @@
+import { Injectable, Optional } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { StringAnalyzer } from './entities/string-analyzer.entity';
+import { AnalyzerRegistry } from './analyzers/analyzer-registry.service';
+import { FilterNode } from './filters/filter-ast';
+import { compileFilter } from './filters/filter-compiler';
+import { StringAnalyzerService } from './string-analyzer.service';
+import { StringValueService } from './string-value.service';
+import { Labels, parseLabels } from './labels';
+import {
+  AnalysisOptions,
+  InvalidAnalysisOptionsError,
+  parseAnalysisOptions,
+} from '../analysis';
+import { CsvError, CsvRecordReader, csvRow } from '../common/csv';
+import { readLines } from '../common/lines';
+import { ApiException } from '../common/errors';
+import { postgresOnly } from '../database/postgres';
+
+export type ExportFormat = 'ndjson' | 'csv';
+export type ImportFormat = 'ndjson' | 'csv' | 'text';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['ndjson', 'csv'];
+export const IMPORT_FORMATS: ImportFormat[] = ['ndjson', 'csv', 'text'];
+
+/** Longest line (or CSV record) accepted by an import, in characters */
+export const MAX_IMPORT_LINE_LENGTH = 1024 * 1024;
+
+/** Rows loaded per export query */
+const EXPORT_BATCH_SIZE = 1000;
+/** Values analysed and saved per import transaction */
+const IMPORT_CHUNK_SIZE = 500;
+
+export interface ExportOptions {
+  /** add the character frequency map as a JSON column (CSV only) */
+  include_frequency_map: boolean;
+}
+
+export type ImportOutcome =
+  | { line: number; status: 'created' | 'duplicate'; id: string }
+  | { line: number; status: 'invalid'; reason: string };
+
+type ImportItem =
+  | {
+      line: number;
+      value: unknown;
+      options: AnalysisOptions;
+      labels?: Partial<Labels>;
+    }
+  | { line: number; outcome: ImportOutcome };
+
+/**
+ * Streaming export and import of analyses. Both directions work in fixed
+ * size batches so memory use does not grow with the size of the data.
+ */
+@Injectable()
+export class StringTransferService {
+  constructor(
+    @Optional()
+    @InjectRepository(StringAnalyzer)
+    private readonly repository: Repository<StringAnalyzer> | undefined,
+    private readonly registry: AnalyzerRegistry,
+    private readonly analyzer: StringAnalyzerService,
+    private readonly values: StringValueService,
+  ) {}
+
+  private get repo(): Repository<StringAnalyzer> {
+    return postgresOnly(this.repository);
+  }
+
+  /**
+   * Records of a collection matching a filter, serialized one per line.
+   * NDJSON lines are full records without their collection, so they import
+   * into any; CSV flattens `properties` into columns. Large values are
+   * exported whole, read back from the blob store.
+   */
+  async *exportRecords(
+    collection: string,
+    filter: FilterNode | null,
+    format: ExportFormat,
+    { include_frequency_map }: ExportOptions,
+  ): AsyncGenerator<string> {
+    const columns = this.registry
+      .descriptors()
+      .filter((d) => d.type !== 'object')
+      .map((d) => d.key);
+    if (format === 'csv') {
+      yield csvRow([
+        'id',
+        'value',
+        ...columns,
+        ...(include_frequency_map ? ['character_frequency_map'] : []),
+        'analysis_options',
+        'analysis_version',
+        'tags',
+        'metadata',
+        'created_at',
+      ]);
+    }
+
+    for await (const record of this.records(collection, filter)) {
+      if (format === 'ndjson') {
+        yield `${JSON.stringify(record)}\n`;
+        continue;
+      }
+      yield csvRow([
+        record.id,
+        record.value,
+        ...columns.map((key) => record.properties[key]),
+        ...(include_frequency_map
+          ? [record.properties.character_frequency_map]
+          : []),
+        record.analysis_options,
+        record.analysis_version,
+        record.tags,
+        record.metadata,
+        record.created_at.toISOString(),
+      ]);
+    }
+  }
+
+  /**
+   * Analyze and save every value of an upload in a collection, reporting one outcome per
+   * value in input order.
+   * - text: every line is a value
+   * - ndjson: a JSON string, or an object with `value` and optional
+   *   `analysis_options`, `tags` and `metadata`; blank lines are skipped
+   * - csv: needs a `value` column; `analysis_options`, `tags` and
+   *   `metadata` columns (JSON) are optional
+   * Values without their own options are analysed with `options`.
+   * `admit` is asked before every chunk whether its values may be analysed;
+   * refused values are reported invalid.
+   */
+  async *importRecords(
+    collection: string,
+    input: AsyncIterable<Buffer | string>,
+    format: ImportFormat,
+    options: AnalysisOptions,
+    admit: (count: number) => Promise<boolean> = () => Promise.resolve(true),
+  ): AsyncGenerator<ImportOutcome> {
+    let chunk: ImportItem[] = [];
+    for await (const item of this.items(input, format, options)) {
+      chunk.push(item);
+      if (chunk.length >= IMPORT_CHUNK_SIZE) {
+        yield* await this.save(collection, chunk, admit);
+        chunk = [];
+      }
+    }
+    if (chunk.length) yield* await this.save(collection, chunk, admit);
+  }
+
+  private async *records(
+    collection: string,
+    filter: FilterNode | null,
+  ): AsyncGenerator<Omit<StringAnalyzer, 'collection' | 'value_truncated'>> {
+    let lastId: string | null = null;
+    for (;;) {
+      const query = this.repo
+        .createQueryBuilder('s')
+        .where('s.collection = :collection', { collection })
+        .orderBy('s.id', 'ASC')
+        .limit(EXPORT_BATCH_SIZE);
+      if (filter) query.andWhere(compileFilter(filter, this.registry));
+      if (lastId) query.andWhere('s.id > :lastId', { lastId });
+
+      const batch = await query.getMany();
+      for (const row of batch) {
+        yield {
+          id: row.id,
+          value: await this.values.text(row),
+          properties: row.properties,
+          analysis_options: row.analysis_options,
+          analysis_version: row.analysis_version,
+          tags: row.tags,
+          metadata: row.metadata,
+          created_at: row.created_at,
+          updated_at: row.updated_at,
+        };
+      }
+
+      if (batch.length < EXPORT_BATCH_SIZE) break;
+      lastId = batch[batch.length - 1].id;
+    }
+  }
+
+  private async save(
+    collection: string,
+    chunk: ImportItem[],
+    admit: (count: number) => Promise<boolean>,
+  ): Promise<ImportOutcome[]> {
+    const pending = chunk.filter(
+      (item): item is Extract<ImportItem, { value: unknown }> =>
+        'value' in item,
+    );
+    if (pending.length && !(await admit(pending.length))) {
+      return chunk.map((item) =>
+        'outcome' in item
+          ? item.outcome
+          : {
+              line: item.line,
+              status: 'invalid',
+              reason: 'Daily analysis quota exceeded',
+            },
+      );
+    }
+    const results = await this.analyzer.analyzeBatch(
+      collection,
+      pending.map((item) => item.value),
+      pending.map((item) => item.options),
+      pending.map((item) => item.labels ?? {}),
+    );
+
+    const outcomes = new Map<number, ImportOutcome>();
+    for (const result of results) {
+      const { line } = pending[result.index];
+      outcomes.set(
+        line,
+        result.status === 'invalid'
+          ? { line, status: 'invalid', reason: result.reason }
+          : { line, status: result.status, id: result.data.id },
+      );
+    }
+    return chunk.map((item) =>
+      'outcome' in item ? item.outcome : outcomes.get(item.line)!,
+    );
+  }
+
+  private async *items(
+    input: AsyncIterable<Buffer | string>,
+    format: ImportFormat,
+    defaults: AnalysisOptions,
+  ): AsyncGenerator<ImportItem> {
+    const invalid = (line: number, reason: string): ImportItem => ({
+      line,
+      outcome: { line, status: 'invalid', reason },
+    });
+    const tooLong = `Line too long (max ${MAX_IMPORT_LINE_LENGTH} characters)`;
+
+    const csv = new CsvRecordReader(MAX_IMPORT_LINE_LENGTH);
+    let header: {
+      value: number;
+      options: number;
+      tags: number;
+      metadata: number;
+      width: number;
+    } | null = null;
+    let recordLine = 0;
+
+    for await (const entry of readLines(input, MAX_IMPORT_LINE_LENGTH)) {
+      if ('too_long' in entry) {
+        csv.reset();
+        yield invalid(entry.line, tooLong);
+        continue;
+      }
+      const { line, text } = entry;
+
+      if (format === 'text') {
+        yield { line, value: text, options: defaults };
+        continue;
+      }
+
+      if (format === 'ndjson') {
+        if (text.trim() === '') continue;
+        yield this.ndjsonItem(line, text, defaults) ??
+          invalid(line, 'Invalid JSON');
+        continue;
+      }
+
+      if (!csv.incomplete) recordLine = line;
+      let fields: string[] | null;
+      try {
+        fields = csv.push(text);
+      } catch (err) {
+        if (!(err instanceof CsvError)) throw err;
+        yield invalid(recordLine, err.message);
+        continue;
+      }
+      if (!fields) continue;
+
+      if (!header) {
+        const value = fields.indexOf('value');
+        if (value === -1) {
+          yield invalid(recordLine, 'CSV header needs a "value" column');
+          return;
+        }
+        header = {
+          value,
+          options: fields.indexOf('analysis_options'),
+          tags: fields.indexOf('tags'),
+          metadata: fields.indexOf('metadata'),
+          width: fields.length,
+        };
+        continue;
+      }
+      if (fields.length === 1 && fields[0] === '') continue;
+      if (fields.length !== header.width) {
+        yield invalid(recordLine, 'Malformed CSV record');
+        continue;
+      }
+
+      const column = (index: number) =>
+        index === -1 ? '' : fields[index].trim();
+      const rawOptions = column(header.options);
+      const options = rawOptions ? this.options(rawOptions) : defaults;
+      if (!options) {
+        yield invalid(recordLine, 'Invalid analysis options');
+        continue;
+      }
+      const labels = this.labels(column(header.tags), column(header.metadata));
+      yield typeof labels === 'string'
+        ? invalid(recordLine, labels)
+        : { line: recordLine, value: fields[header.value], options, labels };
+    }
+
+    if (csv.incomplete) yield invalid(recordLine, 'Unterminated quoted field');
+  }
+
+  private ndjsonItem(
+    line: number,
+    text: string,
+    defaults: AnalysisOptions,
+  ): ImportItem | null {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      return null;
+    }
+    if (typeof parsed === 'string')
+      return { line, value: parsed, options: defaults };
+    if (typeof parsed !== 'object' || parsed === null || !('value' in parsed)) {
+      return {
+        line,
+        outcome: {
+          line,
+          status: 'invalid',
+          reason: 'Expected a string or an object with a "value" field',
+        },
+      };
+    }
+
+    const record = parsed as {
+      value: unknown;
+      analysis_options?: unknown;
+      tags?: unknown;
+      metadata?: unknown;
+    };
+    let options = defaults;
+    if (typeof record.analysis_options !== 'undefined') {
+      try {
+        options = parseAnalysisOptions(record.analysis_options);
+      } catch (err) {
+        if (!(err instanceof InvalidAnalysisOptionsError)) throw err;
+        return {
+          line,
+          outcome: { line, status: 'invalid', reason: err.message },
+        };
+      }
+    }
+    let labels: Partial<Labels>;
+    try {
+      labels = parseLabels(record);
+    } catch (err) {
+      if (!(err instanceof ApiException)) throw err;
+      return {
+        line,
+        outcome: { line, status: 'invalid', reason: err.message },
+      };
+    }
+    return { line, value: record.value, options, labels };
+  }
+
+  /**
+   * Tags and metadata stored as JSON in CSV columns (empty when not given),
+   * or the reason they are invalid
+   */
+  private labels(tags: string, metadata: string): Partial<Labels> | string {
+    try {
+      return parseLabels({
+        tags: tags ? JSON.parse(tags) : undefined,
+        metadata: metadata ? JSON.parse(metadata) : undefined,
+      });
+    } catch (err) {
+      if (err instanceof ApiException) return err.message;
+      return 'Invalid tags or metadata';
+    }
+  }
+
+  /** Options stored as JSON in a CSV column, null if invalid */
+  private options(raw: string): AnalysisOptions | null {
+    try {
+      return parseAnalysisOptions(JSON.parse(raw));
+    } catch {
+      return null;
+    }
+  }
+}
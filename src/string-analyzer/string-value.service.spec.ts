@@ -0,0 +1,138 @@
+import { Test } from '@nestjs/testing';
+import { DiscoveryModule } from '@nestjs/core';
+import { ConfigService } from '@nestjs/config';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { StringValueService } from './string-value.service';
+import { StringAnalyzer } from './entities/string-analyzer.entity';
+import { AnalyzerRegistry } from './analyzers/analyzer-registry.service';
+import { CORE_ANALYZERS } from './analyzers/core.analyzers';
+import { METRIC_ANALYZERS } from './analyzers/metric.analyzers';
+import { MemoryStringStore } from './storage/memory-string.store';
+import { NewRecord } from './storage/string-store';
+import { DEFAULT_COLLECTION } from './collections';
+import { FilesystemBlobStore } from '../blobs/filesystem-blob.store';
+import { MetricsService } from '../observability/metrics.service';
+import {
+  ANALYSIS_VERSION,
+  DEFAULT_ANALYSIS_OPTIONS,
+  sha256,
+} from '../analysis';
+
+const C = DEFAULT_COLLECTION;
+
+describe('StringValueService', () => {
+  let registry: AnalyzerRegistry;
+  let blobDir: string;
+  let blobs: FilesystemBlobStore;
+  let store: MemoryStringStore;
+  let values: StringValueService;
+
+  // 64 bytes stay in their row, longer values go to a blob
+  const value = 'ab'.repeat(64);
+  const id = sha256(value);
+
+  const record = (): NewRecord => ({
+    collection: C,
+    id,
+    ...values.stored(value),
+    properties: registry.analyze(
+      value,
+      id,
+      DEFAULT_ANALYSIS_OPTIONS,
+    ) as NewRecord['properties'],
+    analysis_options: DEFAULT_ANALYSIS_OPTIONS,
+    analysis_version: ANALYSIS_VERSION,
+    tags: [],
+    metadata: {},
+  });
+
+  beforeAll(async () => {
+    const module = await Test.createTestingModule({
+      imports: [DiscoveryModule],
+      providers: [
+        AnalyzerRegistry,
+        MetricsService,
+        ...CORE_ANALYZERS,
+        ...METRIC_ANALYZERS,
+      ],
+    }).compile();
+    await module.init();
+    registry = module.get(AnalyzerRegistry);
+  });
+
+  beforeEach(() => {
+    blobDir = mkdtempSync(join(tmpdir(), 'string-values-'));
+    blobs = new FilesystemBlobStore(blobDir);
+    store = new MemoryStringStore(registry);
+    values = new StringValueService(
+      new ConfigService({ INLINE_VALUE_BYTES: '64' }),
+      store,
+      blobs,
+    );
+  });
+
+  afterEach(() => {
+    rmSync(blobDir, { recursive: true, force: true });
+  });
+
+  describe('keep', () => {
+    it('writes blobs for large values only', async () => {
+      const [created] = await values.keep(
+        [
+          { id, value },
+          { id: sha256('short'), value: 'short' },
+        ],
+        () => store.insert([record()]),
+      );
+      expect(created).toMatchObject({ value_truncated: true });
+      expect(await blobs.get(id)).toBe(value);
+      expect(await blobs.get(sha256('short'))).toBeNull();
+      expect(await values.text(created)).toBe(value);
+    });
+
+    it('is not undone by a release while the row is inserted', async () => {
+      const released = { id, value_truncated: true } as StringAnalyzer;
+      await values.keep([{ id, value }], async () => {
+        // the permanent delete of the last record holding the id
+        await values.release([released]);
+        expect(await blobs.get(id)).toBe(value);
+        return store.insert([record()]);
+      });
+    });
+
+    it('writes the blobs again once the rows are inserted', async () => {
+      await values.keep([{ id, value }], async () => {
+        // removed by a release in another process, which found no row
+        await blobs.delete(id);
+        return store.insert([record()]);
+      });
+      expect(await blobs.get(id)).toBe(value);
+    });
+
+    it('releases the ids again when the insert fails', async () => {
+      const error = new Error('insert failed');
+      await expect(
+        values.keep([{ id, value }], () => Promise.reject(error)),
+      ).rejects.toBe(error);
+
+      await values.release([{ id, value_truncated: true } as StringAnalyzer]);
+      expect(await blobs.get(id)).toBeNull();
+    });
+  });
+
+  describe('release', () => {
+    it('removes only the blobs no record holds', async () => {
+      const [created] = await values.keep([{ id, value }], () =>
+        store.insert([record()]),
+      );
+      await values.release([created]);
+      expect(await blobs.get(id)).toBe(value);
+
+      await store.delete({ collection: C, id }, true);
+      await values.release([created]);
+      expect(await blobs.get(id)).toBeNull();
+    });
+  });
+});
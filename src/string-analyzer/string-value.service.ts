@@ -0,0 +1,164 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { StringAnalyzer } from './entities/string-analyzer.entity';
+import { StringStore } from './storage/string-store';
+import { BlobStore } from '../blobs/blob-store';
+import { ApiException } from '../common/errors';
+
+const DEFAULT_MAX_VALUE_BYTES = 5 * 1024 * 1024;
+const DEFAULT_INLINE_VALUE_BYTES = 64 * 1024;
+
+/** Graphemes of a large value kept in its row */
+export const PREVIEW_GRAPHEMES = 1000;
+
+/** A positive number from the environment, or the default */
+function setting(config: ConfigService, name: string, fallback: number) {
+  const raw = config.get<string>(name);
+  const value = Number(raw);
+  return raw && Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+/**
+ * Size limits and storage of values. Values up to INLINE_VALUE_BYTES are
+ * stored in their row; larger ones, up to MAX_VALUE_BYTES, go to the
+ * BlobStore under their id and the row keeps a preview of their first
+ * PREVIEW_GRAPHEMES graphemes, flagged by value_truncated.
+ */
+@Injectable()
+export class StringValueService {
+  private readonly logger = new Logger(StringValueService.name);
+  readonly maxBytes: number;
+  readonly inlineBytes: number;
+  /** Blob ids kept for rows being inserted, with how many inserts */
+  private readonly writing = new Map<string, number>();
+
+  constructor(
+    config: ConfigService,
+    private readonly store: StringStore,
+    private readonly blobs: BlobStore,
+  ) {
+    this.maxBytes = setting(config, 'MAX_VALUE_BYTES', DEFAULT_MAX_VALUE_BYTES);
+    this.inlineBytes = setting(
+      config,
+      'INLINE_VALUE_BYTES',
+      DEFAULT_INLINE_VALUE_BYTES,
+    );
+  }
+
+  /** Whether values can be large enough to go to the BlobStore */
+  get usesBlobs(): boolean {
+    return this.inlineBytes < this.maxBytes;
+  }
+
+  /** Why a value cannot be stored, or null when it fits */
+  sizeError(value: string): string | null {
+    return Buffer.byteLength(value) > this.maxBytes
+      ? `Value exceeds the limit of ${this.maxBytes} bytes (UTF-8)`
+      : null;
+  }
+
+  /**
+   * Throws VALUE_TOO_LARGE (413) for values over MAX_VALUE_BYTES
+   */
+  assertSize(value: string) {
+    const reason = this.sizeError(value);
+    if (reason) {
+      throw new ApiException('VALUE_TOO_LARGE', reason, [
+        { name: 'value', reason },
+      ]);
+    }
+  }
+
+  /** Whether a value is stored in its row */
+  isInline(value: string): boolean {
+    // a code unit takes at most 3 bytes, spare the count for short values
+    return (
+      value.length * 3 <= this.inlineBytes ||
+      Buffer.byteLength(value) <= this.inlineBytes
+    );
+  }
+
+  /** The value as its row holds it */
+  stored(value: string): { value: string; value_truncated: boolean } {
+    if (this.isInline(value)) return { value, value_truncated: false };
+    // segments copy their input: only segment what the preview can span
+    const head = value.slice(0, PREVIEW_GRAPHEMES * 8);
+    const segmenter = new Intl.Segmenter('en', { granularity: 'grapheme' });
+    let end = 0;
+    let count = 0;
+    for (const { index, segment } of segmenter.segment(head)) {
+      if (count++ === PREVIEW_GRAPHEMES) break;
+      end = index + segment.length;
+    }
+    return { value: value.slice(0, end), value_truncated: true };
+  }
+
+  /**
+   * Write the blobs of the values their rows do not hold, then run insert,
+   * which stores the rows. Until insert settles, release() leaves those
+   * blobs alone; once it has committed they are written again, as a
+   * release in another process may have found no row and removed them in
+   * between.
+   */
+  async keep<T>(
+    values: { id: string; value: string }[],
+    insert: () => Promise<T>,
+  ): Promise<T> {
+    const large = values.filter((v) => !this.isInline(v.value));
+    for (const { id } of large) {
+      this.writing.set(id, (this.writing.get(id) ?? 0) + 1);
+    }
+    try {
+      for (const { id, value } of large) await this.blobs.put(id, value);
+      const result = await insert();
+      for (const { id, value } of large) await this.blobs.put(id, value);
+      return result;
+    } finally {
+      for (const { id } of large) {
+        const count = (this.writing.get(id) ?? 1) - 1;
+        if (count) this.writing.set(id, count);
+        else this.writing.delete(id);
+      }
+    }
+  }
+
+  /** The whole value of a record, read from the BlobStore when truncated */
+  async text(record: StringAnalyzer): Promise<string> {
+    if (!record.value_truncated) return record.value;
+    const text = await this.blobs.get(record.id);
+    if (text === null)
+      throw new Error(`Blob of string ${record.id} is missing`);
+    return text;
+  }
+
+  /** A record with its whole value */
+  async withText(record: StringAnalyzer): Promise<StringAnalyzer> {
+    if (!record.value_truncated) return record;
+    return {
+      ...record,
+      value: await this.text(record),
+      value_truncated: false,
+    };
+  }
+
+  /**
+   * Remove the blobs of permanently deleted records that no collection
+   * holds anymore, skipping those keep() is writing for a new row. The rows
+   * are gone already, so failures are only logged: a leftover blob is never
+   * read.
+   */
+  async release(records: StringAnalyzer[]): Promise<void> {
+    const ids = new Set(
+      records.filter((r) => r.value_truncated).map((r) => r.id),
+    );
+    for (const id of ids) {
+      try {
+        if (await this.store.hasId(id)) continue;
+        // checked last, right before the delete: keep() may have started since
+        if (!this.writing.has(id)) await this.blobs.delete(id);
+      } catch (err) {
+        this.logger.error('Error in release', err);
+      }
+    }
+  }
+}
@@ -0,0 +1,165 @@
+import { ApiProperty, ApiPropertyOptional, PartialType } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsBoolean,
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsUrl,
+  Max,
+  Min,
+} from 'class-validator';
+import {
+  EVENT_TYPES,
+  type StringEventType,
+} from '../../string-analyzer/string-events.service';
+import { StringEventDto } from '../../string-analyzer/dto/string-responses.dto';
+import { toNumber } from '../../common/validation';
+import {
+  DELIVERY_STATUSES,
+  type DeliveryStatus,
+} from '../entities/webhook-delivery.entity';
+
+export const DEFAULT_DELIVERY_LIMIT = 50;
+export const MAX_DELIVERY_LIMIT = 500;
+
+const EVENTS_ERROR = {
+  message: `"events" must be a non-empty array of ${EVENT_TYPES.join(', ')}`,
+};
+
+export class CreateWebhookDto {
+  @ApiProperty({ example: 'https://example.com/hooks/strings' })
+  @IsUrl(
+    {
+      protocols: ['http', 'https'],
+      require_protocol: true,
+      require_tld: false,
+    },
+    { message: '"url" must be an http(s) URL' },
+  )
+  url: string;
+
+  @ApiPropertyOptional({
+    enum: EVENT_TYPES,
+    isArray: true,
+    minItems: 1,
+    description: 'Every event type when omitted',
+  })
+  @IsOptional()
+  @IsArray(EVENTS_ERROR)
+  @ArrayNotEmpty(EVENTS_ERROR)
+  @IsIn(EVENT_TYPES, { ...EVENTS_ERROR, each: true })
+  events?: StringEventType[];
+
+  @ApiPropertyOptional({ default: true })
+  @IsOptional()
+  @IsBoolean({ message: '"active" must be a boolean' })
+  active?: boolean;
+}
+
+/** PATCH /admin/webhooks/:id; missing fields are left unchanged */
+export class UpdateWebhookDto extends PartialType(CreateWebhookDto) {}
+
+export class DeliveriesQueryDto {
+  @ApiPropertyOptional({
+    enum: DELIVERY_STATUSES,
+    description: 'All when omitted',
+  })
+  @IsOptional()
+  @IsIn(DELIVERY_STATUSES)
+  status?: DeliveryStatus;
+
+  @ApiPropertyOptional({
+    type: 'integer',
+    minimum: 1,
+    maximum: MAX_DELIVERY_LIMIT,
+    default: DEFAULT_DELIVERY_LIMIT,
+  })
+  @IsOptional()
+  @Transform(toNumber)
+  @IsInt()
+  @Min(1)
+  @Max(MAX_DELIVERY_LIMIT)
+  limit?: number;
+}
+
+export class WebhookDto {
+  @ApiProperty({ format: 'uuid' })
+  id: string;
+
+  @ApiProperty()
+  url: string;
+
+  @ApiProperty({ enum: EVENT_TYPES, isArray: true })
+  events: StringEventType[];
+
+  @ApiProperty()
+  active: boolean;
+
+  @ApiProperty()
+  created_at: Date;
+}
+
+export class CreatedWebhookDto extends WebhookDto {
+  @ApiProperty({
+    description:
+      'Signs the deliveries (X-Webhook-Signature); it is never shown again',
+  })
+  secret: string;
+}
+
+export class WebhookListDto {
+  @ApiProperty({ type: [WebhookDto] })
+  data: WebhookDto[];
+
+  @ApiProperty({ type: 'integer' })
+  count: number;
+}
+
+export class DeliveryDto {
+  @ApiProperty({ format: 'uuid' })
+  id: string;
+
+  @ApiProperty({ format: 'uuid' })
+  webhook_id: string;
+
+  @ApiProperty()
+  event_id: string;
+
+  @ApiProperty({ enum: EVENT_TYPES })
+  event_type: string;
+
+  @ApiProperty({ type: StringEventDto, description: 'The body delivered' })
+  payload: StringEventDto;
+
+  @ApiProperty({ enum: DELIVERY_STATUSES })
+  status: DeliveryStatus;
+
+  @ApiProperty({ type: 'integer' })
+  attempts: number;
+
+  @ApiProperty()
+  next_attempt_at: Date;
+
+  @ApiProperty({ type: 'integer', nullable: true })
+  last_status_code: number | null;
+
+  @ApiProperty({ type: String, nullable: true })
+  last_error: string | null;
+
+  @ApiProperty()
+  created_at: Date;
+
+  @ApiProperty({ type: Date, nullable: true })
+  delivered_at: Date | null;
+}
+
+export class DeliveryListDto {
+  @ApiProperty({ type: [DeliveryDto] })
+  data: DeliveryDto[];
+
+  @ApiProperty({ type: 'integer' })
+  count: number;
+}
@@ -0,0 +1,64 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { Webhook } from './webhook.entity';
+import type { StringEvent } from '../../string-analyzer/string-events.service';
+
+export const DELIVERY_STATUSES = ['pending', 'succeeded', 'failed'] as const;
+export type DeliveryStatus = (typeof DELIVERY_STATUSES)[number];
+
+/**
+ * One event queued for one webhook, with the outcome of its last attempt
+ */
+@Entity('webhook_deliveries')
+@Index('IDX_webhook_deliveries_due', ['status', 'next_attempt_at'])
+@Index('IDX_webhook_deliveries_webhook', ['webhook_id', 'created_at'])
+export class WebhookDelivery {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  webhook_id: string;
+
+  @Column({ type: 'uuid' })
+  event_id: string;
+
+  @Column({ type: 'varchar' })
+  event_type: string;
+
+  // the event as sent in the request body
+  @Column({ type: 'jsonb' })
+  payload: StringEvent;
+
+  @Column({ type: 'varchar', default: 'pending' })
+  status: DeliveryStatus;
+
+  @Column({ type: 'integer', default: 0 })
+  attempts: number;
+
+  // when a pending delivery is due; pushed forward while an attempt runs
+  @Column({ type: 'timestamptz' })
+  next_attempt_at: Date;
+
+  @Column({ type: 'integer', nullable: true })
+  last_status_code: number | null;
+
+  @Column({ type: 'text', nullable: true })
+  last_error: string | null;
+
+  @CreateDateColumn({ precision: 3 })
+  created_at: Date;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  delivered_at: Date | null;
+
+  @ManyToOne(() => Webhook, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'webhook_id' })
+  webhook?: Webhook;
+}
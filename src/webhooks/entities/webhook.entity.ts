@@ -0,0 +1,31 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { StringEventType } from '../../string-analyzer/string-events.service';
+
+@Entity('webhooks')
+export class Webhook {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'varchar' })
+  url: string;
+
+  // HMAC key of the signatures; shown once, when the webhook is created
+  @Column({ type: 'varchar', select: false })
+  secret: string;
+
+  // event types delivered to the url
+  @Column({ type: 'text', array: true })
+  events: StringEventType[];
+
+  // inactive webhooks get no new deliveries
+  @Column({ type: 'boolean', default: true })
+  active: boolean;
+
+  @CreateDateColumn({ precision: 3 })
+  created_at: Date;
+}
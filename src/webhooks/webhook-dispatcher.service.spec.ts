@@ -0,0 +1,270 @@
+import { ConfigService } from '@nestjs/config';
+import { createServer, IncomingHttpHeaders, Server } from 'http';
+import { AddressInfo } from 'net';
+import { createHmac } from 'crypto';
+import { DataSource, Repository } from 'typeorm';
+import { MAX_ATTEMPTS, WebhookDispatcher } from './webhook-dispatcher.service';
+import { Webhook } from './entities/webhook.entity';
+import { WebhookDelivery } from './entities/webhook-delivery.entity';
+import { StringEvent } from '../string-analyzer/string-events.service';
+import { StringAnalyzer } from '../string-analyzer/entities/string-analyzer.entity';
+import { OutboxEvent } from '../string-analyzer/entities/outbox-event.entity';
+import { recordEvents } from '../string-analyzer/storage/event-outbox';
+import { databaseOptions } from '../database/database.config';
+
+/**
+ * Runs against TEST_DATABASE_URL, migrated on the way in. Every test
+ * empties the webhook tables and the event outbox, so never point it at
+ * real data.
+ */
+const url = process.env.TEST_DATABASE_URL;
+
+const SECRET = 'test-secret';
+const RETRY_BASE_MS = 100;
+
+interface Received {
+  headers: IncomingHttpHeaders;
+  body: string;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+(url ? describe : describe.skip)('WebhookDispatcher', () => {
+  let dataSource: DataSource;
+  let webhooks: Repository<Webhook>;
+  let deliveries: Repository<WebhookDelivery>;
+  let dispatcher: WebhookDispatcher;
+
+  // a local receiver answering with the queued status codes, then 204
+  let receiver: Server;
+  let receiverUrl: string;
+  let received: Received[];
+  let answers: number[];
+
+  let eventCount = 0;
+  const event = (
+    type: StringEvent['type'] = 'string.created',
+  ): StringEvent => ({
+    id: `00000000-0000-4000-8000-${String(++eventCount).padStart(12, '0')}`,
+    type,
+    occurred_at: new Date().toISOString(),
+    data: { id: 'a'.repeat(64), value: 'racecar' } as StringAnalyzer,
+  });
+
+  const subscribe = (events: StringEvent['type'][] = ['string.created']) =>
+    webhooks.save(
+      webhooks.create({ url: receiverUrl, secret: SECRET, events }),
+    );
+
+  /** Write events to the outbox, as a string write does, and drain it */
+  const queue = async (events: StringEvent[]) => {
+    await recordEvents(dataSource.manager, events);
+    return dispatcher.drainOutbox();
+  };
+
+  const makeDue = () =>
+    dataSource.query(
+      `UPDATE webhook_deliveries SET next_attempt_at = to_timestamp(0)`,
+    );
+
+  const onlyDelivery = async () => {
+    const rows = await deliveries.find();
+    expect(rows).toHaveLength(1);
+    return rows[0];
+  };
+
+  beforeAll(async () => {
+    dataSource = await new DataSource(databaseOptions(url)).initialize();
+    await dataSource.runMigrations();
+    webhooks = dataSource.getRepository(Webhook);
+    deliveries = dataSource.getRepository(WebhookDelivery);
+    dispatcher = new WebhookDispatcher(
+      deliveries,
+      dataSource.getRepository(OutboxEvent),
+      new ConfigService({ WEBHOOK_RETRY_BASE_MS: String(RETRY_BASE_MS) }),
+    );
+
+    receiver = createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk: Buffer) => (body += chunk.toString()));
+      req.on('end', () => {
+        received.push({ headers: req.headers, body });
+        res.statusCode = answers.shift() ?? 204;
+        res.end();
+      });
+    });
+    await new Promise<void>((resolve) => receiver.listen(0, resolve));
+    const { port } = receiver.address() as AddressInfo;
+    receiverUrl = `http://127.0.0.1:${port}/hook`;
+  });
+
+  beforeEach(async () => {
+    await dataSource.query('TRUNCATE webhooks, string_event_outbox CASCADE');
+    received = [];
+    answers = [];
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => receiver?.close(resolve));
+    await dataSource?.destroy();
+  });
+
+  it('queues one delivery per subscribed active webhook', async () => {
+    const webhook = await subscribe(['string.created']);
+    await subscribe(['string.deleted']);
+    const inactive = await subscribe(['string.created']);
+    await webhooks.update({ id: inactive.id }, { active: false });
+
+    const created = event('string.created');
+    expect(await queue([created, event('string.restored')])).toBe(2);
+    expect(await onlyDelivery()).toMatchObject({
+      webhook_id: webhook.id,
+      event_id: created.id,
+      event_type: 'string.created',
+      payload: created,
+      status: 'pending',
+      attempts: 0,
+    });
+
+    // drained events leave the outbox
+    expect(await dataSource.getRepository(OutboxEvent).count()).toBe(0);
+    expect(await dispatcher.drainOutbox()).toBe(0);
+    expect(await deliveries.count()).toBe(1);
+  });
+
+  it('queues only events whose transaction committed', async () => {
+    await subscribe(['string.created', 'string.deleted']);
+    const kept = event('string.created');
+    await dataSource.transaction((manager) => recordEvents(manager, [kept]));
+    await expect(
+      dataSource.transaction(async (manager) => {
+        await recordEvents(manager, [event('string.deleted')]);
+        throw new Error('write failed');
+      }),
+    ).rejects.toThrow('write failed');
+
+    expect(await dispatcher.drainOutbox()).toBe(1);
+    expect(await onlyDelivery()).toMatchObject({ event_id: kept.id });
+  });
+
+  it('leaves events locked by another drain to it', async () => {
+    await subscribe();
+    await recordEvents(dataSource.manager, [event(), event()]);
+
+    const runner = dataSource.createQueryRunner();
+    await runner.startTransaction();
+    try {
+      // another process holds the oldest event
+      await runner.query(
+        'SELECT id FROM string_event_outbox ORDER BY created_at, id LIMIT 1 FOR UPDATE',
+      );
+      expect(await dispatcher.drainOutbox()).toBe(1);
+    } finally {
+      await runner.rollbackTransaction();
+      await runner.release();
+    }
+    expect(await dispatcher.drainOutbox()).toBe(1);
+    expect(await deliveries.count()).toBe(2);
+  });
+
+  it('signs the body with the timestamp and records the delivery', async () => {
+    const webhook = await subscribe();
+    const sent = event();
+    await queue([sent]);
+
+    expect(await dispatcher.deliverDue()).toBe(1);
+    expect(received).toHaveLength(1);
+    const [{ headers, body }] = received;
+    const timestamp = String(headers['x-webhook-timestamp']);
+    const expected = createHmac('sha256', SECRET)
+      .update(`${timestamp}.${body}`)
+      .digest('hex');
+    expect(headers['x-webhook-signature']).toBe(`sha256=${expected}`);
+    expect(Math.abs(Number(timestamp) - Date.now() / 1000)).toBeLessThan(5);
+    expect(JSON.parse(body)).toEqual(sent);
+
+    const delivery = await onlyDelivery();
+    expect(headers).toMatchObject({
+      'content-type': 'application/json',
+      'x-webhook-id': webhook.id,
+      'x-webhook-delivery': delivery.id,
+      'x-webhook-event': 'string.created',
+    });
+    expect(delivery).toMatchObject({
+      status: 'succeeded',
+      attempts: 1,
+      last_status_code: 204,
+      last_error: null,
+    });
+    expect(delivery.delivered_at).toBeInstanceOf(Date);
+
+    // delivered once only
+    expect(await dispatcher.deliverDue()).toBe(0);
+  });
+
+  it('retries non-2xx answers with doubling delays', async () => {
+    await subscribe();
+    await queue([event()]);
+    answers = [500, 503];
+
+    for (const [attempt, status] of [
+      [1, 500],
+      [2, 503],
+    ]) {
+      const before = Date.now();
+      expect(await dispatcher.deliverDue()).toBe(1);
+      const after = Date.now();
+
+      const delivery = await onlyDelivery();
+      expect(delivery).toMatchObject({
+        status: 'pending',
+        attempts: attempt,
+        last_status_code: status,
+        last_error: `Receiver answered ${status}`,
+        delivered_at: null,
+      });
+      const delay = RETRY_BASE_MS * 2 ** (attempt - 1);
+      const next = delivery.next_attempt_at.getTime();
+      expect(next).toBeGreaterThanOrEqual(before + delay);
+      expect(next).toBeLessThanOrEqual(after + delay);
+
+      // not due before its delay is over
+      expect(await dispatcher.deliverDue()).toBe(0);
+      await sleep(next - Date.now() + 10);
+    }
+
+    expect(await dispatcher.deliverDue()).toBe(1);
+    expect(received).toHaveLength(3);
+    expect(await onlyDelivery()).toMatchObject({
+      status: 'succeeded',
+      attempts: 3,
+      last_status_code: 204,
+      last_error: null,
+    });
+  });
+
+  it(`gives up after ${MAX_ATTEMPTS} attempts`, async () => {
+    await subscribe();
+    await queue([event()]);
+    // the receiver is gone: the request itself fails
+    await webhooks.update(
+      { url: receiverUrl },
+      { url: 'http://127.0.0.1:1/closed' },
+    );
+
+    for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+      await makeDue();
+      expect(await dispatcher.deliverDue()).toBe(1);
+    }
+    const delivery = await onlyDelivery();
+    expect(delivery).toMatchObject({
+      status: 'failed',
+      attempts: MAX_ATTEMPTS,
+      last_status_code: null,
+    });
+    expect(delivery.last_error).toEqual(expect.any(String));
+
+    await makeDue();
+    expect(await dispatcher.deliverDue()).toBe(0);
+  });
+});
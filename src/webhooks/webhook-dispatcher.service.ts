@@ -0,0 +1,292 @@
+import {
+  Injectable,
+  OnApplicationBootstrap,
+  OnApplicationShutdown,
+  Logger,
+  Optional,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, In, LessThanOrEqual, Repository } from 'typeorm';
+import { createHmac } from 'crypto';
+import { Webhook } from './entities/webhook.entity';
+import { WebhookDelivery } from './entities/webhook-delivery.entity';
+import { StringEvent } from '../string-analyzer/string-events.service';
+import { OutboxEvent } from '../string-analyzer/entities/outbox-event.entity';
+import { postgresOnly } from '../database/postgres';
+
+/** Outbox events turned into deliveries per transaction */
+const OUTBOX_BATCH_SIZE = 500;
+/** Delivery rows inserted per statement */
+const ENQUEUE_BATCH_SIZE = 500;
+/** Pause between polls for due deliveries */
+const POLL_INTERVAL_MS = 1_000;
+/** Deliveries attempted per poll, concurrently */
+const POLL_BATCH_SIZE = 20;
+/** A receiver must answer within this time */
+const REQUEST_TIMEOUT_MS = 10_000;
+/** A claimed delivery becomes due again after this long, e.g. if the process dies */
+const CLAIM_MS = 60_000;
+/** Attempts before a delivery is marked failed */
+export const MAX_ATTEMPTS = 8;
+/** Default delay before the first retry; it doubles with every attempt */
+const DEFAULT_RETRY_BASE_MS = 30_000;
+/** Longest delay between two attempts */
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000;
+
+/**
+ * Signature of a delivery: hex HMAC-SHA256 of `${timestamp}.${body}` keyed
+ * with the webhook secret. Receivers recompute it to authenticate requests.
+ */
+export function signPayload(
+  secret: string,
+  timestamp: number,
+  body: string,
+): string {
+  return createHmac('sha256', secret)
+    .update(`${timestamp}.${body}`)
+    .digest('hex');
+}
+
+/**
+ * Turns string events into webhook deliveries and sends them. A poll loop
+ * drains the event outbox, storing every event as one delivery per
+ * subscribed webhook, then POSTs the due deliveries until the receiver
+ * answers 2xx; failures are retried with exponential backoff. A delivery
+ * is claimed with a conditional update before it is sent, so several
+ * processes can share the queue.
+ *
+ * Nothing is lost between a change and its deliveries: the outbox row is
+ * written in the transaction of the change, and removed in the transaction
+ * that stores its deliveries. Every delivery is sent at least once.
+ */
+@Injectable()
+export class WebhookDispatcher
+  implements OnApplicationBootstrap, OnApplicationShutdown
+{
+  private readonly logger = new Logger(WebhookDispatcher.name);
+
+  private readonly retryBaseMs: number;
+  private timer: NodeJS.Timeout | null = null;
+  private stopping = false;
+
+  constructor(
+    @Optional()
+    @InjectRepository(WebhookDelivery)
+    private readonly deliveriesRepository:
+      | Repository<WebhookDelivery>
+      | undefined,
+    @Optional()
+    @InjectRepository(OutboxEvent)
+    private readonly outboxRepository: Repository<OutboxEvent> | undefined,
+    config: ConfigService,
+  ) {
+    const base = Number(config.get<string>('WEBHOOK_RETRY_BASE_MS'));
+    this.retryBaseMs =
+      Number.isFinite(base) && base > 0 ? base : DEFAULT_RETRY_BASE_MS;
+  }
+
+  private get deliveries(): Repository<WebhookDelivery> {
+    return postgresOnly(this.deliveriesRepository);
+  }
+
+  private get outbox(): Repository<OutboxEvent> {
+    return postgresOnly(this.outboxRepository);
+  }
+
+  onApplicationBootstrap() {
+    if (!this.deliveriesRepository) return;
+    this.schedule();
+  }
+
+  onApplicationShutdown() {
+    this.stopping = true;
+    if (this.timer) clearTimeout(this.timer);
+  }
+
+  /**
+   * Turn the oldest outbox events into deliveries and remove them, in one
+   * transaction. Rows locked by another process are skipped.
+   * Returns the number of events drained.
+   */
+  async drainOutbox(): Promise<number> {
+    return this.outbox.manager.transaction(async (manager) => {
+      const events = await manager
+        .getRepository(OutboxEvent)
+        .createQueryBuilder('e')
+        .orderBy('e.created_at', 'ASC')
+        .limit(OUTBOX_BATCH_SIZE)
+        .setLock('pessimistic_write')
+        .setOnLocked('skip_locked')
+        .getMany();
+      if (!events.length) return 0;
+
+      await this.enqueue(
+        manager,
+        events.map((e) => e.payload),
+      );
+      await manager.delete(OutboxEvent, { id: In(events.map((e) => e.id)) });
+      return events.length;
+    });
+  }
+
+  /**
+   * Store a pending delivery of each event for every active webhook
+   * subscribed to its type. Returns the number of deliveries queued.
+   */
+  private async enqueue(
+    manager: EntityManager,
+    events: StringEvent[],
+  ): Promise<number> {
+    const deliveries = manager.getRepository(WebhookDelivery);
+    const webhooks = await manager
+      .getRepository(Webhook)
+      .find({ where: { active: true } });
+    const now = new Date();
+    const rows = events.flatMap((event) =>
+      webhooks
+        .filter((webhook) => webhook.events.includes(event.type))
+        .map((webhook) =>
+          deliveries.create({
+            webhook_id: webhook.id,
+            event_id: event.id,
+            event_type: event.type,
+            payload: event,
+            status: 'pending',
+            attempts: 0,
+            next_attempt_at: now,
+            last_status_code: null,
+            last_error: null,
+            delivered_at: null,
+          }),
+        ),
+    );
+    for (let i = 0; i < rows.length; i += ENQUEUE_BATCH_SIZE) {
+      await deliveries.save(rows.slice(i, i + ENQUEUE_BATCH_SIZE));
+    }
+    return rows.length;
+  }
+
+  /**
+   * Claim and send the deliveries that are due.
+   * Returns the number of deliveries attempted.
+   */
+  async deliverDue(): Promise<number> {
+    const now = new Date();
+    const due = await this.deliveries
+      .createQueryBuilder('d')
+      .innerJoin('d.webhook', 'w', 'w.active = TRUE')
+      .select('d.id')
+      .where("d.status = 'pending'")
+      .andWhere('d.next_attempt_at <= :now', { now })
+      .orderBy('d.next_attempt_at', 'ASC')
+      .limit(POLL_BATCH_SIZE)
+      .getMany();
+    if (!due.length) return 0;
+
+    // another process may have claimed some of them in the meantime
+    const claimed = await this.deliveries
+      .createQueryBuilder()
+      .update()
+      .set({ next_attempt_at: new Date(now.getTime() + CLAIM_MS) })
+      .where({
+        id: In(due.map((d) => d.id)),
+        status: 'pending',
+        next_attempt_at: LessThanOrEqual(now),
+      })
+      .returning(['id'])
+      .execute();
+    const ids = (claimed.raw as { id: string }[]).map((row) => row.id);
+    if (!ids.length) return 0;
+
+    const deliveries = await this.deliveries
+      .createQueryBuilder('d')
+      .innerJoinAndSelect('d.webhook', 'w')
+      .addSelect('w.secret')
+      .where({ id: In(ids) })
+      .getMany();
+    await Promise.all(deliveries.map((delivery) => this.attempt(delivery)));
+    return deliveries.length;
+  }
+
+  /**
+   * Send one delivery and record the outcome
+   */
+  private async attempt(delivery: WebhookDelivery) {
+    const webhook = delivery.webhook!;
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(Date.now() / 1000);
+
+    let statusCode: number | null = null;
+    let error: string | null = null;
+    try {
+      const res = await fetch(webhook.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'string-analyzer-webhooks',
+          'X-Webhook-Id': webhook.id,
+          'X-Webhook-Delivery': delivery.id,
+          'X-Webhook-Event': delivery.event_type,
+          'X-Webhook-Timestamp': String(timestamp),
+          'X-Webhook-Signature': `sha256=${signPayload(webhook.secret, timestamp, body)}`,
+        },
+        body,
+        redirect: 'manual',
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+      statusCode = res.status;
+      await res.body?.cancel();
+      if (!res.ok) error = `Receiver answered ${res.status}`;
+    } catch (err) {
+      error = err instanceof Error ? err.message : String(err);
+    }
+
+    const attempts = delivery.attempts + 1;
+    const now = new Date();
+    await this.deliveries.update(
+      { id: delivery.id },
+      error
+        ? {
+            attempts,
+            status: attempts >= MAX_ATTEMPTS ? 'failed' : 'pending',
+            next_attempt_at: new Date(
+              now.getTime() + this.retryDelay(attempts),
+            ),
+            last_status_code: statusCode,
+            last_error: error,
+          }
+        : {
+            attempts,
+            status: 'succeeded',
+            last_status_code: statusCode,
+            last_error: null,
+            delivered_at: now,
+          },
+    );
+  }
+
+  /** Delay after the given number of failed attempts */
+  private retryDelay(attempts: number): number {
+    return Math.min(this.retryBaseMs * 2 ** (attempts - 1), MAX_RETRY_DELAY_MS);
+  }
+
+  /** Drain the whole outbox, then send the due deliveries */
+  private async poll() {
+    // a full batch may leave more events behind
+    for (;;) {
+      if ((await this.drainOutbox()) < OUTBOX_BATCH_SIZE) break;
+    }
+    await this.deliverDue();
+  }
+
+  private schedule() {
+    if (this.stopping) return;
+    this.timer = setTimeout(() => {
+      this.poll()
+        .catch((err) => this.logger.error('Error delivering webhooks', err))
+        .finally(() => this.schedule());
+    }, POLL_INTERVAL_MS);
+    this.timer.unref();
+  }
+}
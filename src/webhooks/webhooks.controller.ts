@@ -0,0 +1,175 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  Param,
+  Patch,
+  Post,
+  Query,
+} from '@nestjs/common';
+import {
+  ApiCreatedResponse,
+  ApiNoContentResponse,
+  ApiOkResponse,
+  ApiOperation,
+  ApiTags,
+} from '@nestjs/swagger';
+import { RequireScope } from '../auth/auth.decorators';
+import { ApiProblems } from '../common/api-docs';
+import { EVENT_TYPES } from '../string-analyzer/string-events.service';
+import { WebhookOptions, WebhooksService } from './webhooks.service';
+import {
+  CreatedWebhookDto,
+  CreateWebhookDto,
+  DEFAULT_DELIVERY_LIMIT,
+  DeliveriesQueryDto,
+  DeliveryDto,
+  DeliveryListDto,
+  UpdateWebhookDto,
+  WebhookDto,
+  WebhookListDto,
+} from './dto/webhook.dto';
+import { PostgresOnly } from '../database/postgres';
+
+/**
+ * The fields of a validated webhook body, URL normalized and events
+ * deduplicated; missing fields are left out
+ */
+function toOptions(body: UpdateWebhookDto): Partial<WebhookOptions> {
+  const options: Partial<WebhookOptions> = {};
+  if (typeof body.url !== 'undefined') {
+    options.url = new URL(body.url).toString();
+  }
+  if (typeof body.events !== 'undefined') {
+    options.events = [...new Set(body.events)];
+  }
+  if (typeof body.active !== 'undefined') options.active = body.active;
+  return options;
+}
+
+@ApiTags('webhooks')
+@Controller('admin/webhooks')
+@PostgresOnly()
+@RequireScope('admin')
+export class WebhooksController {
+  constructor(private readonly service: WebhooksService) {}
+
+  /**
+   * POST /admin/webhooks
+   * - body: { url, events?: event types (all when omitted), active? }
+   * - 201 with the webhook; `secret` signs the deliveries and is never shown again
+   * - 400 on invalid fields
+   */
+  @Post()
+  @HttpCode(201)
+  @ApiOperation({ operationId: 'createWebhook', summary: 'Register a webhook' })
+  @ApiCreatedResponse({ type: CreatedWebhookDto })
+  @ApiProblems('INVALID_BODY')
+  async create(@Body() body: CreateWebhookDto) {
+    const options = toOptions(body);
+    return this.service.create({
+      url: options.url!,
+      events: options.events ?? [...EVENT_TYPES],
+      active: options.active,
+    });
+  }
+
+  /**
+   * GET /admin/webhooks -> 200 with every webhook
+   */
+  @Get()
+  @ApiOperation({ operationId: 'listWebhooks', summary: 'List the webhooks' })
+  @ApiOkResponse({ type: WebhookListDto })
+  async list() {
+    const data = await this.service.list();
+    return { data, count: data.length };
+  }
+
+  /**
+   * GET /admin/webhooks/:id -> 200 with the webhook, 404 if not found
+   */
+  @Get(':id')
+  @ApiOperation({ operationId: 'getWebhook', summary: 'Get a webhook' })
+  @ApiOkResponse({ type: WebhookDto })
+  @ApiProblems('WEBHOOK_NOT_FOUND')
+  async get(@Param('id') id: string) {
+    return this.service.get(id);
+  }
+
+  /**
+   * PATCH /admin/webhooks/:id
+   * - body: any of url, events, active
+   * - 200 with the webhook, 400 on invalid fields, 404 if not found
+   */
+  @Patch(':id')
+  @ApiOperation({ operationId: 'updateWebhook', summary: 'Update a webhook' })
+  @ApiOkResponse({ type: WebhookDto })
+  @ApiProblems('INVALID_BODY', 'WEBHOOK_NOT_FOUND')
+  async update(@Param('id') id: string, @Body() body: UpdateWebhookDto) {
+    return this.service.update(id, toOptions(body));
+  }
+
+  /**
+   * DELETE /admin/webhooks/:id
+   * - 204 once deleted, with its delivery log
+   * - 404 if not found
+   */
+  @Delete(':id')
+  @HttpCode(204)
+  @ApiOperation({
+    operationId: 'deleteWebhook',
+    summary: 'Delete a webhook and its delivery log',
+  })
+  @ApiNoContentResponse()
+  @ApiProblems('WEBHOOK_NOT_FOUND')
+  async remove(@Param('id') id: string) {
+    await this.service.remove(id);
+  }
+
+  /**
+   * GET /admin/webhooks/:id/deliveries
+   * - status: pending | succeeded | failed, all when omitted
+   * - limit: 1-500, default 50; newest first
+   * - 400 on invalid params, 404 if the webhook is not found
+   */
+  @Get(':id/deliveries')
+  @ApiOperation({
+    operationId: 'listDeliveries',
+    summary: 'List the deliveries of a webhook, newest first',
+  })
+  @ApiOkResponse({ type: DeliveryListDto })
+  @ApiProblems('INVALID_QUERY_PARAMETER', 'WEBHOOK_NOT_FOUND')
+  async deliveries(
+    @Param('id') id: string,
+    @Query() query: DeliveriesQueryDto,
+  ) {
+    const data = await this.service.listDeliveries(
+      id,
+      query.status,
+      query.limit ?? DEFAULT_DELIVERY_LIMIT,
+    );
+    return { data, count: data.length };
+  }
+
+  /**
+   * POST /admin/webhooks/:id/deliveries/:deliveryId/redeliver
+   * - 200 with the delivery, queued again with its attempts reset
+   * - 404 if the webhook or delivery is not found
+   */
+  @Post(':id/deliveries/:deliveryId/redeliver')
+  @HttpCode(200)
+  @ApiOperation({
+    operationId: 'redeliver',
+    summary: 'Queue a delivery again',
+  })
+  @ApiOkResponse({ type: DeliveryDto })
+  @ApiProblems('WEBHOOK_NOT_FOUND', 'DELIVERY_NOT_FOUND')
+  async redeliver(
+    @Param('id') id: string,
+    @Param('deliveryId') deliveryId: string,
+  ) {
+    return this.service.redeliver(id, deliveryId);
+  }
+}
@@ -0,0 +1,24 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { Webhook } from './entities/webhook.entity';
+import { WebhookDelivery } from './entities/webhook-delivery.entity';
+import { WebhooksService } from './webhooks.service';
+import { WebhookDispatcher } from './webhook-dispatcher.service';
+import { WebhooksController } from './webhooks.controller';
+import { StringAnalyzerModule } from '../string-analyzer/string-analyzer.module';
+import { OutboxEvent } from '../string-analyzer/entities/outbox-event.entity';
+import { whenPostgres } from '../database/postgres';
+
+@Module({
+  providers: [WebhooksService, WebhookDispatcher],
+  controllers: [WebhooksController],
+  imports: [
+    ConfigModule,
+    StringAnalyzerModule,
+    whenPostgres(
+      TypeOrmModule.forFeature([Webhook, WebhookDelivery, OutboxEvent]),
+    ),
+  ],
+})
+export class WebhooksModule {}
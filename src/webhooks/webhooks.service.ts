@@ -0,0 +1,196 @@
+import { Injectable, Logger, Optional } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { randomBytes } from 'crypto';
+import { Webhook } from './entities/webhook.entity';
+import {
+  DeliveryStatus,
+  WebhookDelivery,
+} from './entities/webhook-delivery.entity';
+import { StringEventType } from '../string-analyzer/string-events.service';
+import { ApiException, unexpected } from '../common/errors';
+import { postgresOnly } from '../database/postgres';
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export interface WebhookOptions {
+  url: string;
+  events: StringEventType[];
+  active?: boolean;
+}
+
+export type WebhookResponse = Omit<Webhook, 'secret'>;
+
+/** A created webhook, the only time its secret is visible */
+export type CreatedWebhook = WebhookResponse & { secret: string };
+
+export type DeliveryResponse = Omit<WebhookDelivery, 'webhook'>;
+
+/**
+ * Webhook subscriptions and their delivery log. Sending is done by the
+ * WebhookDispatcher.
+ */
+@Injectable()
+export class WebhooksService {
+  private readonly logger = new Logger(WebhooksService.name);
+
+  constructor(
+    @Optional()
+    @InjectRepository(Webhook)
+    private readonly webhooksRepository: Repository<Webhook> | undefined,
+    @Optional()
+    @InjectRepository(WebhookDelivery)
+    private readonly deliveriesRepository:
+      | Repository<WebhookDelivery>
+      | undefined,
+  ) {}
+
+  private get webhooks(): Repository<Webhook> {
+    return postgresOnly(this.webhooksRepository);
+  }
+
+  private get deliveries(): Repository<WebhookDelivery> {
+    return postgresOnly(this.deliveriesRepository);
+  }
+
+  async create({
+    url,
+    events,
+    active = true,
+  }: WebhookOptions): Promise<CreatedWebhook> {
+    try {
+      const secret = `whsec_${randomBytes(24).toString('base64url')}`;
+      const webhook = await this.webhooks.save(
+        this.webhooks.create({ url, events, active, secret }),
+      );
+      return { ...this.toResponse(webhook), secret };
+    } catch (err) {
+      this.logger.error('Error in create', err);
+      throw unexpected(err);
+    }
+  }
+
+  async list(): Promise<WebhookResponse[]> {
+    try {
+      const webhooks = await this.webhooks.find({
+        order: { created_at: 'ASC' },
+      });
+      return webhooks.map((webhook) => this.toResponse(webhook));
+    } catch (err) {
+      this.logger.error('Error in list', err);
+      throw unexpected(err);
+    }
+  }
+
+  /**
+   * A webhook by id
+   * - 404 if not found
+   */
+  async get(id: string): Promise<WebhookResponse> {
+    return this.toResponse(await this.find(id));
+  }
+
+  /**
+   * Change the url, events or active flag of a webhook. Deliveries of an
+   * inactive webhook stay queued until it is activated again.
+   * - 404 if not found
+   */
+  async update(
+    id: string,
+    changes: Partial<WebhookOptions>,
+  ): Promise<WebhookResponse> {
+    const webhook = await this.find(id);
+    try {
+      Object.assign(webhook, changes);
+      await this.webhooks.save(webhook);
+      return this.toResponse(webhook);
+    } catch (err) {
+      this.logger.error('Error in update', err);
+      throw unexpected(err);
+    }
+  }
+
+  /**
+   * Delete a webhook and its delivery log
+   * - 404 if not found
+   */
+  async remove(id: string): Promise<void> {
+    const webhook = await this.find(id);
+    try {
+      await this.webhooks.delete({ id: webhook.id });
+    } catch (err) {
+      this.logger.error('Error in remove', err);
+      throw unexpected(err);
+    }
+  }
+
+  /**
+   * Latest deliveries of a webhook, newest first
+   * - 404 if the webhook is not found
+   */
+  async listDeliveries(
+    id: string,
+    status: DeliveryStatus | undefined,
+    limit: number,
+  ): Promise<DeliveryResponse[]> {
+    const webhook = await this.find(id);
+    try {
+      return await this.deliveries.find({
+        where: { webhook_id: webhook.id, ...(status ? { status } : {}) },
+        order: { created_at: 'DESC', id: 'DESC' },
+        take: limit,
+      });
+    } catch (err) {
+      this.logger.error('Error in listDeliveries', err);
+      throw unexpected(err);
+    }
+  }
+
+  /**
+   * Queue a delivery again, e.g. once a failed receiver is fixed; its
+   * attempts start over
+   * - 404 if the webhook or delivery is not found
+   */
+  async redeliver(id: string, deliveryId: string): Promise<DeliveryResponse> {
+    const webhook = await this.find(id);
+    const delivery = UUID.test(deliveryId)
+      ? await this.deliveries.findOne({
+          where: { id: deliveryId, webhook_id: webhook.id },
+        })
+      : null;
+    if (!delivery)
+      throw new ApiException('DELIVERY_NOT_FOUND', 'Delivery does not exist');
+
+    try {
+      Object.assign(delivery, {
+        status: 'pending',
+        attempts: 0,
+        next_attempt_at: new Date(),
+      });
+      await this.deliveries.save(delivery);
+      return delivery;
+    } catch (err) {
+      this.logger.error('Error in redeliver', err);
+      throw unexpected(err);
+    }
+  }
+
+  private async find(id: string): Promise<Webhook> {
+    const webhook = UUID.test(id)
+      ? await this.webhooks.findOne({ where: { id } })
+      : null;
+    if (!webhook)
+      throw new ApiException('WEBHOOK_NOT_FOUND', 'Webhook does not exist');
+    return webhook;
+  }
+
+  private toResponse(webhook: Webhook): WebhookResponse {
+    return {
+      id: webhook.id,
+      url: webhook.url,
+      events: webhook.events,
+      active: webhook.active,
+      created_at: webhook.created_at,
+    };
+  }
+}
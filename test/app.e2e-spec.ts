@@ -1,13 +1,19 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { INestApplication } from '@nestjs/common';
+import { randomUUID } from 'crypto';
 import request from 'supertest';
 import { App } from 'supertest/types';
 import { AppModule } from './../src/app.module';
+import { StringStore } from './../src/string-analyzer/storage/string-store';
+import { BlobStore } from './../src/blobs/blob-store';
 
-describe('AppController (e2e)', () => {
+const ADMIN_KEY = `test-admin-${randomUUID()}`;
+
+describe('Health and metrics (e2e)', () => {
   let app: INestApplication<App>;
 
-  beforeEach(async () => {
+  beforeAll(async () => {
+    process.env.ADMIN_API_KEY = ADMIN_KEY;
     const moduleFixture: TestingModule = await Test.createTestingModule({
       imports: [AppModule],
     }).compile();
@@ -16,10 +22,81 @@ describe('AppController (e2e)', () => {
     await app.init();
   });
 
-  it('/ (GET)', () => {
-    return request(app.getHttpServer())
-      .get('/')
+  afterAll(async () => {
+    await app.close();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('/health/live (GET)', async () => {
+    const res = await request(app.getHttpServer())
+      .get('/health/live')
+      .expect(200);
+    expect(res.body).toMatchObject({ status: 'ok' });
+  });
+
+  it('/health (GET) is an alias of /health/live', async () => {
+    const res = await request(app.getHttpServer()).get('/health').expect(200);
+    const body = res.body as { status: string; uptime_seconds: number };
+    expect(body.status).toBe('ok');
+    expect(Number.isInteger(body.uptime_seconds)).toBe(true);
+  });
+
+  it('/health/ready (GET) checks the database and stores', async () => {
+    const res = await request(app.getHttpServer())
+      .get('/health/ready')
+      .expect(200);
+    expect(res.body).toMatchObject({
+      status: 'ok',
+      checks: {
+        database: { status: 'up' },
+        string_store: { status: 'up' },
+        blob_store: { status: 'up' },
+      },
+    });
+  });
+
+  it('/health/ready (GET) answers 503 when a store fails', async () => {
+    jest
+      .spyOn(app.get(BlobStore), 'check')
+      .mockRejectedValueOnce(new Error('EACCES'));
+    const blobs = await request(app.getHttpServer())
+      .get('/health/ready')
+      .expect(503);
+    expect(blobs.body).toMatchObject({ code: 'SERVICE_UNAVAILABLE' });
+
+    jest
+      .spyOn(app.get(StringStore), 'ping')
+      .mockRejectedValueOnce(new Error('disk I/O error'));
+    const strings = await request(app.getHttpServer())
+      .get('/health/ready')
+      .expect(503);
+    expect(strings.body).toMatchObject({ code: 'SERVICE_UNAVAILABLE' });
+
+    await request(app.getHttpServer()).get('/health/ready').expect(200);
+  });
+
+  it('/metrics (GET) needs a key and serves the Prometheus format', async () => {
+    await request(app.getHttpServer()).get('/metrics').expect(401);
+    await request(app.getHttpServer())
+      .post('/strings/analyze')
+      .set('Authorization', `Bearer ${ADMIN_KEY}`)
+      .send({ value: 'racecar' })
+      .expect(200);
+
+    const res = await request(app.getHttpServer())
+      .get('/metrics')
+      .set('Authorization', `Bearer ${ADMIN_KEY}`)
       .expect(200)
-      .expect('Hello World!');
+      .expect('Content-Type', /^text\/plain;.*version=0\.0\.4/);
+    expect(res.text).toMatch(
+      /^http_request_duration_seconds_count\{method="GET",route="\/health\/live",status="200"\} 1$/m,
+    );
+    expect(res.text).toMatch(/^string_analyses_total [1-9]\d*$/m);
+    expect(res.text).toMatch(
+      /^db_query_duration_seconds_count\{statement="select"\} [1-9]\d*$/m,
+    );
   });
 });
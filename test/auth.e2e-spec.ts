@@ -0,0 +1,134 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import request from 'supertest';
+import { App } from 'supertest/types';
+import { AppModule } from './../src/app.module';
+
+const ADMIN_KEY = `test-admin-${randomUUID()}`;
+const admin = { Authorization: `Bearer ${ADMIN_KEY}` };
+
+describe('API keys (e2e)', () => {
+  let app: INestApplication<App>;
+  let server: App;
+  // unique per run, the database outlives the test
+  const run = randomUUID().slice(0, 8);
+
+  const issueKey = async (body: Record<string, unknown>) =>
+    (
+      await request(server)
+        .post('/admin/keys')
+        .set(admin)
+        .send({ name: `auth-e2e-${run}`, ...body })
+        .expect(201)
+    ).body as { id: string; key: string };
+
+  /** Analysed values charged to a key today, once refunds have settled */
+  const analyzedToday = async (id: string, expected: number) => {
+    let analyzed: number | undefined;
+    for (let i = 0; i < 20 && analyzed !== expected; i++) {
+      if (i) await new Promise((resolve) => setTimeout(resolve, 50));
+      const res = await request(server)
+        .get(`/admin/keys/${id}`)
+        .set(admin)
+        .expect(200);
+      analyzed = (res.body as { analyzed_today: number }).analyzed_today;
+    }
+    return analyzed;
+  };
+
+  beforeAll(async () => {
+    process.env.ADMIN_API_KEY = ADMIN_KEY;
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    await app.init();
+    server = app.getHttpServer();
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  it('answers 401 without a valid key', async () => {
+    const missing = await request(server).get('/strings').expect(401);
+    expect(missing.body).toMatchObject({ code: 'MISSING_API_KEY' });
+
+    const { key } = await issueKey({ scopes: ['read'] });
+    for (const headers of [
+      { 'X-API-Key': 'sa_unknown' },
+      { Authorization: 'Bearer sa_unknown' },
+    ]) {
+      const res = await request(server).get('/strings').set(headers);
+      expect(res.status).toBe(401);
+      expect(res.body).toMatchObject({ code: 'INVALID_API_KEY' });
+    }
+    await request(server).get('/strings').set('X-API-Key', key).expect(200);
+    await request(server)
+      .get('/strings')
+      .set('Authorization', `Bearer ${key}`)
+      .expect(200);
+  });
+
+  it('answers 403 to keys without the scope of the route', async () => {
+    const { key } = await issueKey({ scopes: ['read'] });
+    const res = await request(server)
+      .post('/strings')
+      .set('X-API-Key', key)
+      .send({ value: `scope ${run}` })
+      .expect(403);
+    expect(res.body).toMatchObject({
+      code: 'INSUFFICIENT_SCOPE',
+      detail: 'API key lacks the "write" scope',
+    });
+    await request(server).get('/admin/keys').set('X-API-Key', key).expect(403);
+  });
+
+  it('answers 429 over the rate limit', async () => {
+    const { key } = await issueKey({ scopes: ['read'], rate_limit: 2 });
+    const first = await request(server)
+      .get('/strings')
+      .set('X-API-Key', key)
+      .expect(200);
+    expect(first.headers).toMatchObject({
+      'ratelimit-limit': '2',
+      'ratelimit-remaining': '1',
+    });
+    await request(server).get('/strings').set('X-API-Key', key).expect(200);
+
+    const res = await request(server)
+      .get('/strings')
+      .set('X-API-Key', key)
+      .expect(429);
+    expect(res.body).toMatchObject({ code: 'RATE_LIMITED' });
+    expect(res.headers['ratelimit-remaining']).toBe('0');
+    expect(Number(res.headers['retry-after'])).toBeGreaterThan(0);
+  });
+
+  it('answers 429 over the daily quota and only charges answered analyses', async () => {
+    const { id, key } = await issueKey({ scopes: ['write'], daily_quota: 2 });
+    const create = (value: unknown) =>
+      request(server).post('/strings').set('X-API-Key', key).send({ value });
+
+    const created = await create(`quota a ${run}`).expect(201);
+    expect(created.headers).toMatchObject({
+      'x-quota-limit': '2',
+      'x-quota-remaining': '1',
+    });
+    expect(await analyzedToday(id, 1)).toBe(1);
+
+    // failures get their charge back
+    await create(`quota a ${run}`).expect(409);
+    await create(42).expect(422);
+    expect(await analyzedToday(id, 1)).toBe(1);
+
+    await create(`quota b ${run}`).expect(201);
+    const res = await create(`quota c ${run}`).expect(429);
+    expect(res.body).toMatchObject({ code: 'QUOTA_EXCEEDED' });
+    expect(res.headers['x-quota-remaining']).toBe('0');
+    expect(Number(res.headers['retry-after'])).toBeGreaterThan(0);
+    expect(await analyzedToday(id, 2)).toBe(2);
+  });
+});
@@ -0,0 +1,406 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication, Logger } from '@nestjs/common';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { randomUUID } from 'crypto';
+import request, { Response } from 'supertest';
+import { App } from 'supertest/types';
+import { Repository } from 'typeorm';
+import { AppModule } from './../src/app.module';
+import { ERROR_CATALOG, ErrorCode } from './../src/common/errors';
+import { StringAnalyzer } from './../src/string-analyzer/entities/string-analyzer.entity';
+import { MAX_BATCH_SIZE } from './../src/string-analyzer/string-analyzer.service';
+
+const ADMIN_KEY = `test-admin-${randomUUID()}`;
+const admin = { Authorization: `Bearer ${ADMIN_KEY}` };
+/** Below the default body limit of the test application (100kb) */
+const MAX_VALUE_BYTES = 64 * 1024;
+
+/** Codes that no request can produce, with the reason */
+const UNREACHABLE: Partial<Record<ErrorCode, string>> = {
+  CONFLICT: 'fallback for conflicts without a specific code',
+  UNPROCESSABLE_ENTITY: 'fallback for 422s without a specific code',
+  SERVICE_UNAVAILABLE: 'needs a failing string or blob store, see app.e2e-spec',
+  SEARCH_TIMEOUT: 'needs a regular expression slow enough to hit the timeout',
+  POSTGRES_REQUIRED: 'needs another string store, see memory-store.e2e-spec',
+};
+
+interface Problem {
+  type: string;
+  title: string;
+  status: number;
+  detail: string;
+  instance: string;
+  code: ErrorCode;
+  request_id: string;
+  invalid_params?: { name: string; reason: string }[];
+}
+
+function expectProblem(res: Response, code: ErrorCode): Problem {
+  const { status, title } = ERROR_CATALOG[code];
+  expect(res.status).toBe(status);
+  expect(res.headers['content-type']).toMatch(/^application\/problem\+json/);
+  expect(res.body).toMatchObject({
+    type: `/errors/${code}`,
+    title,
+    status,
+    code,
+    request_id: res.headers['x-request-id'],
+  });
+  const problem = res.body as Problem;
+  expect(typeof problem.detail).toBe('string');
+  expect(typeof problem.instance).toBe('string');
+  return problem;
+}
+
+describe('Errors (e2e)', () => {
+  let app: INestApplication<App>;
+  let server: App;
+  let strings: Repository<StringAnalyzer>;
+  // unique per run, the database outlives the test
+  const run = randomUUID().slice(0, 8);
+
+  const issueKey = async (body: Record<string, unknown>) =>
+    (
+      await request(server)
+        .post('/admin/keys')
+        .set(admin)
+        .send({ name: `e2e-${run}`, ...body })
+        .expect(201)
+    ).body as { key: string };
+
+  beforeAll(async () => {
+    process.env.ADMIN_API_KEY = ADMIN_KEY;
+    process.env.MAX_VALUE_BYTES = String(MAX_VALUE_BYTES);
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    await app.init();
+    server = app.getHttpServer();
+    strings = app.get(getRepositoryToken(StringAnalyzer));
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const cases: [ErrorCode, () => Promise<Response>][] = [
+    [
+      'BAD_REQUEST',
+      () =>
+        request(server)
+          .post('/strings')
+          .set(admin)
+          .set('Content-Type', 'application/json')
+          .send('{"value": '),
+    ],
+    ['NOT_FOUND', () => request(server).get('/no-such-route').set(admin)],
+    [
+      'PAYLOAD_TOO_LARGE',
+      () =>
+        request(server)
+          .post('/strings')
+          .set(admin)
+          .send({ value: 'x'.repeat(200 * 1024) }),
+    ],
+    [
+      'INTERNAL_ERROR',
+      () => {
+        jest
+          .spyOn(strings, 'findOne')
+          .mockRejectedValue(new Error('unexpected failure'));
+        return request(server).get(`/strings/e2e-${run}`).set(admin);
+      },
+    ],
+    [
+      'INVALID_BODY',
+      () => request(server).post('/strings').set(admin).send({}),
+    ],
+    [
+      'INVALID_QUERY_PARAMETER',
+      () => request(server).get('/strings?min_length=abc').set(admin),
+    ],
+    [
+      'INVALID_ANALYSIS_OPTIONS',
+      () =>
+        request(server)
+          .post('/strings/analyze')
+          .set(admin)
+          .send({ value: 'abc', options: { bogus: true } }),
+    ],
+    [
+      'INVALID_FILTER_EXPRESSION',
+      () =>
+        request(server)
+          .get(`/strings?q=${encodeURIComponent('length >')}`)
+          .set(admin),
+    ],
+    [
+      'UNPARSEABLE_QUERY',
+      () =>
+        request(server)
+          .get('/strings/filter-by-natural-language?query=xyzzy')
+          .set(admin),
+    ],
+    [
+      'INVALID_REGEX',
+      () =>
+        request(server)
+          .get(`/strings/search/regex?pattern=${'a'.repeat(1000)}`)
+          .set(admin),
+    ],
+    [
+      'BATCH_TOO_LARGE',
+      () =>
+        request(server)
+          .post('/strings/batch')
+          .set(admin)
+          .send({ values: new Array<string>(MAX_BATCH_SIZE + 1).fill('a') }),
+    ],
+    [
+      'VALUE_TOO_LARGE',
+      () =>
+        request(server)
+          .post('/strings/analyze')
+          .set(admin)
+          .send({ value: 'é'.repeat(MAX_VALUE_BYTES / 2 + 1) }),
+    ],
+    ['FILTER_REQUIRED', () => request(server).delete('/strings').set(admin)],
+    [
+      'UNSUPPORTED_FORMAT',
+      () => request(server).post('/strings/import?format=xml').set(admin),
+    ],
+    [
+      'INVALID_COLLECTION_NAME',
+      () => request(server).get('/collections/Team%20A/strings').set(admin),
+    ],
+    ['MISSING_API_KEY', () => request(server).get('/strings')],
+    [
+      'INVALID_API_KEY',
+      () => request(server).get('/strings').set('X-API-Key', 'sa_unknown'),
+    ],
+    [
+      'INSUFFICIENT_SCOPE',
+      async () => {
+        const { key } = await issueKey({ scopes: ['read'] });
+        return request(server)
+          .post('/strings')
+          .set('X-API-Key', key)
+          .send({ value: `scope ${run}` });
+      },
+    ],
+    [
+      'RATE_LIMITED',
+      async () => {
+        const { key } = await issueKey({ scopes: ['read'], rate_limit: 1 });
+        await request(server).get('/strings').set('X-API-Key', key).expect(200);
+        return request(server).get('/strings').set('X-API-Key', key);
+      },
+    ],
+    [
+      'QUOTA_EXCEEDED',
+      async () => {
+        const { key } = await issueKey({ scopes: ['write'], daily_quota: 1 });
+        return request(server)
+          .post('/strings/batch')
+          .set('X-API-Key', key)
+          .send({ values: [`quota a ${run}`, `quota b ${run}`] });
+      },
+    ],
+    [
+      'STRING_NOT_FOUND',
+      () => request(server).get(`/strings/missing-${run}`).set(admin),
+    ],
+    [
+      'SEARCH_MODE_NOT_FOUND',
+      () => request(server).get('/strings/search/soundex?q=a').set(admin),
+    ],
+    [
+      'JOB_NOT_FOUND',
+      () => request(server).get(`/jobs/${randomUUID()}`).set(admin),
+    ],
+    [
+      'API_KEY_NOT_FOUND',
+      () => request(server).get(`/admin/keys/${randomUUID()}`).set(admin),
+    ],
+    [
+      'WEBHOOK_NOT_FOUND',
+      () => request(server).get(`/admin/webhooks/${randomUUID()}`).set(admin),
+    ],
+    [
+      'DELIVERY_NOT_FOUND',
+      async () => {
+        const webhook = await request(server)
+          .post('/admin/webhooks')
+          .set(admin)
+          .send({ url: 'http://127.0.0.1:9/hook', active: false })
+          .expect(201);
+        return request(server)
+          .post(
+            `/admin/webhooks/${(webhook.body as { id: string }).id}/deliveries/${randomUUID()}/redeliver`,
+          )
+          .set(admin);
+      },
+    ],
+    [
+      'COLLECTION_NOT_FOUND',
+      () => request(server).get(`/collections/missing-${run}`).set(admin),
+    ],
+    [
+      'QUERY_FAILURE_NOT_FOUND',
+      () =>
+        request(server)
+          .delete(`/admin/natural-language/failures/${randomUUID()}`)
+          .set(admin),
+    ],
+    [
+      'STRING_EXISTS',
+      async () => {
+        const value = `exists ${run}`;
+        await request(server).post('/strings').set(admin).send({ value });
+        return request(server).post('/strings').set(admin).send({ value });
+      },
+    ],
+    [
+      'STRING_DELETED',
+      async () => {
+        const value = `deleted-${run}`;
+        await request(server).post('/strings').set(admin).send({ value });
+        await request(server).delete(`/strings/${value}`).set(admin);
+        return request(server).post('/strings').set(admin).send({ value });
+      },
+    ],
+    [
+      'COLLECTION_EXISTS',
+      async () => {
+        const path = `/collections/exists-${run}/strings`;
+        await request(server).post(path).set(admin).send({ value: 'a' });
+        return request(server)
+          .post(`/collections/exists-${run}/copy`)
+          .set(admin)
+          .send({ to: `exists-${run}` });
+      },
+    ],
+    [
+      'DELETE_NOT_CONFIRMED',
+      () => request(server).delete('/strings?min_length=1').set(admin),
+    ],
+    [
+      'INVALID_VALUE_TYPE',
+      () => request(server).post('/strings').set(admin).send({ value: 42 }),
+    ],
+    [
+      'CONFLICTING_FILTERS',
+      () =>
+        request(server)
+          .get(
+            `/strings/filter-by-natural-language?query=${encodeURIComponent(
+              'strings longer than 10 characters and shorter than 5 characters',
+            )}`,
+          )
+          .set(admin),
+    ],
+    [
+      'COMPARISON_TOO_LARGE',
+      async () => {
+        const a = `${'a'.repeat(2001)}${run}`;
+        const b = `${'b'.repeat(2001)}${run}`;
+        await request(server).post('/strings').set(admin).send({ value: a });
+        await request(server).post('/strings').set(admin).send({ value: b });
+        return request(server)
+          .get('/strings/compare')
+          .query({ a, b })
+          .set(admin);
+      },
+    ],
+    [
+      'DATABASE_UNAVAILABLE',
+      () => {
+        jest.spyOn(strings, 'findOne').mockRejectedValue(
+          Object.assign(new Error('connect ECONNREFUSED 127.0.0.1:5432'), {
+            code: 'ECONNREFUSED',
+          }),
+        );
+        return request(server).get(`/strings/e2e-${run}`).set(admin);
+      },
+    ],
+  ];
+
+  it.each(cases)('answers %s as problem details', async (code, send) => {
+    expectProblem(await send(), code);
+  });
+
+  it('covers every code of the catalog', () => {
+    const covered = [
+      ...cases.map(([code]) => code),
+      ...Object.keys(UNREACHABLE),
+    ].sort();
+    expect(covered).toEqual(Object.keys(ERROR_CATALOG).sort());
+  });
+
+  it('publishes the catalog', async () => {
+    const res = await request(server).get('/errors').expect(200);
+    expect((res.body as { count: number }).count).toBe(
+      Object.keys(ERROR_CATALOG).length,
+    );
+
+    const entry = await request(server)
+      .get('/errors/STRING_NOT_FOUND')
+      .expect(200);
+    expect(entry.body).toEqual({
+      code: 'STRING_NOT_FOUND',
+      ...ERROR_CATALOG.STRING_NOT_FOUND,
+    });
+  });
+
+  it('names invalid parameters', async () => {
+    const paging = await request(server).get('/strings?limit=0').set(admin);
+    expect(
+      expectProblem(paging, 'INVALID_QUERY_PARAMETER').invalid_params,
+    ).toEqual([{ name: 'limit', reason: 'must be an integer from 1 to 1000' }]);
+
+    const filter = await request(server)
+      .get('/strings?is_palindrome=maybe')
+      .set(admin);
+    expect(
+      expectProblem(filter, 'INVALID_QUERY_PARAMETER').invalid_params,
+    ).toEqual([expect.objectContaining({ name: 'is_palindrome' })]);
+
+    const body = await request(server)
+      .post('/strings')
+      .set(admin)
+      .send({ value: `labels ${run}`, tags: 'not-an-array' });
+    expect(expectProblem(body, 'INVALID_BODY').invalid_params).toEqual([
+      { name: 'tags', reason: '"tags" must be an array of strings' },
+    ]);
+  });
+
+  it('echoes the request id', async () => {
+    const res = await request(server)
+      .get(`/strings/missing-${run}`)
+      .set(admin)
+      .set('X-Request-Id', 'client-id-123');
+    expect(res.headers['x-request-id']).toBe('client-id-123');
+    expect((res.body as Problem).request_id).toBe('client-id-123');
+
+    const replaced = await request(server)
+      .get('/health/live')
+      .set('X-Request-Id', 'not a valid id!');
+    expect(replaced.headers['x-request-id']).toMatch(/^[0-9a-f-]{36}$/);
+  });
+
+  it('hides the cause of server errors', async () => {
+    jest
+      .spyOn(strings, 'findOne')
+      .mockRejectedValue(new Error('secret internals'));
+    jest.spyOn(Logger.prototype, 'error').mockImplementation(() => undefined);
+    const res = await request(server).get(`/strings/e2e-${run}`).set(admin);
+    expectProblem(res, 'INTERNAL_ERROR');
+    expect(JSON.stringify(res.body)).not.toContain('secret internals');
+  });
+});
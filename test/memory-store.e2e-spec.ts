@@ -0,0 +1,148 @@
+import './memory-store.env';
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import request from 'supertest';
+import { App } from 'supertest/types';
+import { AppModule } from './../src/app.module';
+import { MAX_BATCH_SIZE } from './../src/string-analyzer/string-analyzer.service';
+
+const ADMIN_KEY = `test-admin-${randomUUID()}`;
+const admin = { Authorization: `Bearer ${ADMIN_KEY}` };
+
+describe('Memory string store (e2e)', () => {
+  let app: INestApplication<App>;
+  let server: App;
+
+  beforeAll(async () => {
+    process.env.ADMIN_API_KEY = ADMIN_KEY;
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    await app.init();
+    server = app.getHttpServer();
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  it('stores, reads and compares strings', async () => {
+    await request(server)
+      .post('/strings')
+      .set(admin)
+      .send({ value: 'listen' })
+      .expect(201);
+    await request(server)
+      .post('/strings')
+      .set(admin)
+      .send({ value: 'silent' })
+      .expect(201);
+
+    const res = await request(server)
+      .get('/strings/listen')
+      .set(admin)
+      .expect(200);
+    expect(res.body).toMatchObject({ value: 'listen' });
+
+    const comparison = await request(server)
+      .get('/strings/compare')
+      .query({ a: 'listen', b: 'silent' })
+      .set(admin)
+      .expect(200);
+    expect(comparison.body).toMatchObject({ is_anagram: true });
+  });
+
+  it('answers 409 to the second of two concurrent creates', async () => {
+    const statuses = await Promise.all(
+      [1, 2].map(() =>
+        request(server).post('/strings').set(admin).send({ value: 'rotor' }),
+      ),
+    );
+    expect(statuses.map((res) => res.status).sort()).toEqual([201, 409]);
+  });
+
+  it('analyzes a batch, reporting each value', async () => {
+    const res = await request(server)
+      .post('/strings/batch')
+      .set(admin)
+      .send({
+        values: ['kayak', 'kayak', 7],
+        options: { case_sensitive: true },
+      })
+      .expect(200);
+    expect(res.body).toMatchObject({
+      count: 3,
+      summary: { created: 1, duplicate: 1, invalid: 1 },
+      results: [
+        {
+          index: 0,
+          status: 'created',
+          data: { value: 'kayak', analysis_options: { case_sensitive: true } },
+        },
+        { index: 1, status: 'duplicate', data: { value: 'kayak' } },
+        { index: 2, status: 'invalid', value: 7 },
+      ],
+    });
+
+    const tooLarge = await request(server)
+      .post('/strings/batch')
+      .set(admin)
+      .send({ values: Array(MAX_BATCH_SIZE + 1).fill('') })
+      .expect(400);
+    expect(tooLarge.body).toMatchObject({ code: 'BATCH_TOO_LARGE' });
+  });
+
+  it.each([
+    ['GET', '/strings/search/substring?q=list'],
+    ['GET', '/strings/stats'],
+    ['GET', '/strings/export'],
+    ['POST', '/strings/import'],
+    ['GET', '/jobs/00000000-0000-0000-0000-000000000000'],
+    ['GET', '/admin/keys'],
+    ['GET', '/admin/webhooks'],
+    ['GET', '/admin/natural-language/failures'],
+  ])('%s %s answers 501 POSTGRES_REQUIRED', async (method, path) => {
+    const res = await request(server)
+      [method === 'GET' ? 'get' : 'post'](path)
+      .set(admin)
+      .expect(501);
+    expect(res.body).toMatchObject({
+      code: 'POSTGRES_REQUIRED',
+      type: '/errors/POSTGRES_REQUIRED',
+    });
+  });
+
+  it('keeps working when a natural language query fails', async () => {
+    await request(server)
+      .get('/strings/filter-by-natural-language')
+      .query({ query: 'xyzzy' })
+      .set(admin)
+      .expect(400);
+  });
+
+  it('rejects natural language queries too long to log', async () => {
+    const res = await request(server)
+      .get('/strings/filter-by-natural-language')
+      .query({ query: 'palindromes '.repeat(50) })
+      .set(admin)
+      .expect(400);
+    expect(res.body).toMatchObject({
+      code: 'INVALID_QUERY_PARAMETER',
+      invalid_params: [
+        { name: 'query', reason: 'must be at most 500 characters' },
+      ],
+    });
+  });
+
+  it('is ready without a database', async () => {
+    const res = await request(server).get('/health/ready').expect(200);
+    expect(res.body).toMatchObject({
+      status: 'ok',
+      checks: { string_store: { status: 'up' }, blob_store: { status: 'up' } },
+    });
+    expect(res.body).not.toHaveProperty('checks.database');
+  });
+});
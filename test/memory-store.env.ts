@@ -0,0 +1,3 @@
+// Imported ahead of the app: whether Postgres is used is decided on import
+process.env.STRING_STORE = 'memory';
+delete process.env.DATABASE_URL;
@@ -0,0 +1,340 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import request from 'supertest';
+import { App } from 'supertest/types';
+import { AppModule } from './../src/app.module';
+
+const ADMIN_KEY = `test-admin-${randomUUID()}`;
+const admin = { Authorization: `Bearer ${ADMIN_KEY}` };
+
+describe('Strings (e2e)', () => {
+  let app: INestApplication<App>;
+  let server: App;
+  let blobDir: string;
+  // unique per run, the database outlives the test
+  const run = randomUUID().slice(0, 8);
+  const strings = (collection: string) =>
+    `/collections/${collection}-${run}/strings`;
+
+  const create = async (collection: string, value: string) =>
+    (
+      await request(server)
+        .post(strings(collection))
+        .set(admin)
+        .send({ value })
+        .expect(201)
+    ).body as { id: string; value: string };
+
+  beforeAll(async () => {
+    process.env.ADMIN_API_KEY = ADMIN_KEY;
+    // values above 1 KiB go to a blob store of their own
+    blobDir = mkdtempSync(join(tmpdir(), 'strings-e2e-'));
+    process.env.BLOB_DIR = blobDir;
+    process.env.INLINE_VALUE_BYTES = '1024';
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    await app.init();
+    server = app.getHttpServer();
+  });
+
+  afterAll(async () => {
+    await app.close();
+    rmSync(blobDir, { recursive: true, force: true });
+  });
+
+  describe('conditional GET', () => {
+    it('answers 304 while the validators match', async () => {
+      const { id } = await create('conditional', 'rotator');
+      const path = `${strings('conditional')}/rotator`;
+
+      const res = await request(server).get(path).set(admin).expect(200);
+      const etag = res.headers.etag;
+      const lastModified = res.headers['last-modified'];
+      expect(etag).toMatch(new RegExp(`^"${id}-[0-9a-z]+"$`));
+      expect(new Date(lastModified).getTime()).not.toBeNaN();
+
+      const notModified = await request(server)
+        .get(path)
+        .set(admin)
+        .set('If-None-Match', etag)
+        .expect(304);
+      expect(notModified.text).toBe('');
+      await request(server)
+        .get(`${strings('conditional')}/id/${id}`)
+        .set(admin)
+        .set('If-None-Match', etag)
+        .expect(304);
+      await request(server)
+        .get(path)
+        .set(admin)
+        .set('If-Modified-Since', lastModified)
+        .expect(304);
+
+      await request(server)
+        .get(path)
+        .set(admin)
+        .set('If-None-Match', `"${id}-0"`)
+        .expect(200);
+      await request(server)
+        .get(path)
+        .set(admin)
+        .set('If-Modified-Since', new Date(0).toUTCString())
+        .expect(200);
+      // If-None-Match wins over a matching If-Modified-Since
+      await request(server)
+        .get(path)
+        .set(admin)
+        .set('If-None-Match', `"${id}-0"`)
+        .set('If-Modified-Since', lastModified)
+        .expect(200);
+    });
+
+    it('changes the ETag when the labels change', async () => {
+      const { id } = await create('relabel', 'stats');
+      const path = `${strings('relabel')}/id/${id}`;
+      const before = (await request(server).get(path).set(admin).expect(200))
+        .headers.etag;
+
+      await request(server)
+        .patch(path)
+        .set(admin)
+        .send({ tags: ['reviewed'] })
+        .expect(200);
+
+      const res = await request(server)
+        .get(path)
+        .set(admin)
+        .set('If-None-Match', before)
+        .expect(200);
+      expect(res.body).toMatchObject({ tags: ['reviewed'] });
+      const after = res.headers.etag;
+      expect(after).not.toBe(before);
+      expect(after.startsWith(`"${id}-`)).toBe(true);
+      await request(server)
+        .get(path)
+        .set(admin)
+        .set('If-None-Match', after)
+        .expect(304);
+    });
+
+    it('tags the whole value of a large string apart from its preview', async () => {
+      const { id } = await create('large', 'ab'.repeat(1024));
+      const path = `${strings('large')}/id/${id}`;
+
+      const preview = await request(server).get(path).set(admin).expect(200);
+      expect(preview.body).toMatchObject({ value_truncated: true });
+      const full = await request(server)
+        .get(path)
+        .query({ full: true })
+        .set(admin)
+        .expect(200);
+      expect(full.body).toMatchObject({
+        value: 'ab'.repeat(1024),
+        value_truncated: false,
+      });
+
+      const etag = preview.headers.etag;
+      expect(full.headers.etag).toBe(`${etag.slice(0, -1)}-full"`);
+      // a cached preview does not answer for the whole value, nor back
+      await request(server)
+        .get(path)
+        .query({ full: true })
+        .set(admin)
+        .set('If-None-Match', etag)
+        .expect(200);
+      await request(server)
+        .get(path)
+        .set(admin)
+        .set('If-None-Match', full.headers.etag)
+        .expect(200);
+      await request(server)
+        .get(path)
+        .query({ full: true })
+        .set(admin)
+        .set('If-None-Match', full.headers.etag)
+        .expect(304);
+    });
+  });
+
+  describe('bulk DELETE', () => {
+    it('deletes nothing until confirmed with the match count', async () => {
+      const racecar = await create('bulk', 'racecar');
+      const level = await create('bulk', 'level');
+      await create('bulk', 'hello');
+      const path = strings('bulk');
+
+      await request(server)
+        .delete(path)
+        .set(admin)
+        .expect(400)
+        .expect((res) =>
+          expect(res.body).toMatchObject({ code: 'FILTER_REQUIRED' }),
+        );
+      for (const confirm of [undefined, 1, 3]) {
+        const res = await request(server)
+          .delete(path)
+          .query({ is_palindrome: true, confirm })
+          .set(admin)
+          .expect(409);
+        expect(res.body).toMatchObject({
+          code: 'DELETE_NOT_CONFIRMED',
+          detail:
+            'Filter matches 2 records; repeat the request with confirm=2 to delete them',
+        });
+      }
+      await request(server).get(`${path}/racecar`).set(admin).expect(200);
+
+      const res = await request(server)
+        .delete(path)
+        .query({ is_palindrome: true, confirm: 2 })
+        .set(admin)
+        .expect(200);
+      expect(res.body).toEqual({
+        matched: 2,
+        deleted: 2,
+        permanent: false,
+        filters_applied: { is_palindrome: true },
+      });
+      await request(server).get(`${path}/racecar`).set(admin).expect(404);
+      await request(server).get(`${path}/hello`).set(admin).expect(200);
+
+      // soft deleted records are kept and can be restored
+      const trash = await request(server)
+        .get(path)
+        .query({ deleted: 'only' })
+        .set(admin)
+        .expect(200);
+      expect(
+        (trash.body as { data: { value: string }[] }).data
+          .map((r) => r.value)
+          .sort(),
+      ).toEqual(['level', 'racecar']);
+      const restored = await request(server)
+        .post(`${path}/id/${racecar.id}/restore`)
+        .set(admin)
+        .expect(200);
+      expect(restored.body).toMatchObject({ value: 'racecar' });
+      expect(restored.body).not.toHaveProperty('deleted_at');
+      await request(server).get(`${path}/racecar`).set(admin).expect(200);
+
+      // the trash is emptied for good, and confirmed the same way
+      await request(server)
+        .delete(path)
+        .query({ is_palindrome: true, deleted: 'only', permanent: true })
+        .set(admin)
+        .expect(409);
+      await request(server)
+        .delete(path)
+        .query({
+          is_palindrome: true,
+          deleted: 'only',
+          permanent: true,
+          confirm: 1,
+        })
+        .set(admin)
+        .expect(200)
+        .expect((res) =>
+          expect(res.body).toMatchObject({ matched: 1, deleted: 1 }),
+        );
+      await request(server)
+        .post(`${path}/id/${level.id}/restore`)
+        .set(admin)
+        .expect(404);
+      const left = await request(server)
+        .get(path)
+        .query({ deleted: 'include', is_palindrome: true })
+        .set(admin)
+        .expect(200);
+      expect(
+        (left.body as { data: { value: string }[] }).data.map((r) => r.value),
+      ).toEqual(['racecar']);
+    });
+  });
+
+  describe('previews and upserts', () => {
+    it('POST /strings/analyze answers the analysis only', async () => {
+      const path = strings('preview');
+      const res = await request(server)
+        .post(`${path}/analyze`)
+        .set(admin)
+        .send({ value: 'Noon', options: { case_sensitive: true } })
+        .expect(200);
+      expect(res.body).toMatchObject({
+        value: 'Noon',
+        properties: { length: 4, is_palindrome: false },
+        analysis_options: { case_sensitive: true },
+      });
+      expect(res.body).not.toHaveProperty('created_at');
+      await request(server).get(`${path}/Noon`).set(admin).expect(404);
+
+      await request(server)
+        .post(`${path}/analyze`)
+        .set(admin)
+        .send({})
+        .expect(400);
+      await request(server)
+        .post(`${path}/analyze`)
+        .set(admin)
+        .send({ value: 42 })
+        .expect(422);
+    });
+
+    it('POST /strings?dry_run=true stores nothing', async () => {
+      const path = strings('dry-run');
+      const preview = await request(server)
+        .post(path)
+        .query({ dry_run: true })
+        .set(admin)
+        .send({ value: 'civic', tags: ['draft'] })
+        .expect(200);
+      expect(preview.body).toMatchObject({
+        exists: false,
+        data: { value: 'civic', tags: ['draft'] },
+      });
+      await request(server).get(`${path}/civic`).set(admin).expect(404);
+
+      const stored = await create('dry-run', 'civic');
+      const existing = await request(server)
+        .post(path)
+        .query({ dry_run: true })
+        .set(admin)
+        .send({ value: 'civic' })
+        .expect(200);
+      expect(existing.body).toEqual({ exists: true, data: stored });
+    });
+
+    it('POST /strings?upsert=true answers a stored value unchanged', async () => {
+      const path = strings('upsert');
+      const created = await request(server)
+        .post(path)
+        .query({ upsert: true })
+        .set(admin)
+        .send({ value: 'refer', tags: ['first'] })
+        .expect(201);
+
+      const again = await request(server)
+        .post(path)
+        .query({ upsert: true })
+        .set(admin)
+        .send({
+          value: 'refer',
+          tags: ['second'],
+          options: { case_sensitive: true },
+        })
+        .expect(200);
+      expect(again.body).toEqual(created.body);
+      await request(server)
+        .post(path)
+        .set(admin)
+        .send({ value: 'refer' })
+        .expect(409);
+    });
+  });
+});
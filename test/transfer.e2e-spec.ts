@@ -0,0 +1,184 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import request from 'supertest';
+import { App } from 'supertest/types';
+import { AppModule } from './../src/app.module';
+
+const ADMIN_KEY = `test-admin-${randomUUID()}`;
+const admin = { Authorization: `Bearer ${ADMIN_KEY}` };
+
+/** The lines of an NDJSON body, parsed */
+const ndjson = (text: string) =>
+  text
+    .split('\n')
+    .filter((line) => line !== '')
+    .map((line) => JSON.parse(line) as Record<string, unknown>);
+
+describe('Import and export (e2e)', () => {
+  let app: INestApplication<App>;
+  let server: App;
+  // unique per run, the database outlives the test
+  const run = randomUUID().slice(0, 8);
+  const strings = (collection: string) =>
+    `/collections/transfer-${collection}-${run}/strings`;
+
+  const importBody = async (
+    collection: string,
+    body: string,
+    contentType: string,
+  ) => {
+    const res = await request(server)
+      .post(`${strings(collection)}/import`)
+      .set(admin)
+      .set('Content-Type', contentType)
+      .buffer(true)
+      .send(body)
+      .expect(200);
+    return ndjson(res.text);
+  };
+
+  const exportText = async (collection: string, query = '') =>
+    (
+      await request(server)
+        .get(`${strings(collection)}/export${query}`)
+        .set(admin)
+        .buffer(true)
+        .expect(200)
+    ).text;
+
+  beforeAll(async () => {
+    process.env.ADMIN_API_KEY = ADMIN_KEY;
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    await app.init();
+    server = app.getHttpServer();
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  it('reports one outcome per NDJSON line and a summary', async () => {
+    const outcomes = await importBody(
+      'ndjson',
+      [
+        '"racecar"',
+        '{"value":"level","tags":["palindrome"],"metadata":{"source":"e2e"}}',
+        '',
+        '{"value":',
+        '{"tags":["no value"]}',
+        '{"value":42}',
+        '{"value":"abc","tags":"not a list"}',
+        '"racecar"',
+      ].join('\n'),
+      'application/x-ndjson',
+    );
+
+    const racecar = outcomes[0].id as string;
+    expect(outcomes).toEqual([
+      { line: 1, status: 'created', id: racecar },
+      { line: 2, status: 'created', id: outcomes[1].id },
+      // the blank line 3 is skipped
+      { line: 4, status: 'invalid', reason: 'Invalid JSON' },
+      {
+        line: 5,
+        status: 'invalid',
+        reason: 'Expected a string or an object with a "value" field',
+      },
+      {
+        line: 6,
+        status: 'invalid',
+        reason: 'Invalid data type for value (must be string)',
+      },
+      {
+        line: 7,
+        status: 'invalid',
+        reason: '"tags" must be an array of strings',
+      },
+      { line: 8, status: 'duplicate', id: racecar },
+      { summary: { created: 2, duplicate: 1, invalid: 4 } },
+    ]);
+
+    const level = await request(server)
+      .get(`${strings('ndjson')}/level`)
+      .set(admin)
+      .expect(200);
+    expect(level.body).toMatchObject({
+      value: 'level',
+      tags: ['palindrome'],
+      metadata: { source: 'e2e' },
+    });
+  });
+
+  it('exports NDJSON that imports into another collection unchanged', async () => {
+    await importBody(
+      'source',
+      ['"racecar"', '{"value":"hello world","tags":["greeting"]}'].join('\n'),
+      'application/x-ndjson',
+    );
+    const exported = await exportText('source');
+    const records = ndjson(exported);
+    expect(records).toHaveLength(2);
+    expect(records[0]).not.toHaveProperty('collection');
+
+    const outcomes = await importBody('copy', exported, 'application/x-ndjson');
+    expect(outcomes.pop()).toEqual({
+      summary: { created: 2, duplicate: 0, invalid: 0 },
+    });
+
+    const copied = ndjson(await exportText('copy'));
+    const comparable = (r: Record<string, unknown>) => ({
+      id: r.id,
+      value: r.value,
+      properties: r.properties,
+      analysis_options: r.analysis_options,
+      tags: r.tags,
+      metadata: r.metadata,
+    });
+    expect(copied.map(comparable)).toEqual(records.map(comparable));
+  });
+
+  it('imports CSV and exports it with a header row', async () => {
+    const outcomes = await importBody(
+      'csv',
+      'value,tags\nracecar,"[""palindrome""]"\n"hello, world",\n',
+      'text/csv',
+    );
+    expect(outcomes.map((o) => o.status ?? o.summary)).toEqual([
+      'created',
+      'created',
+      { created: 2, duplicate: 0, invalid: 0 },
+    ]);
+
+    const rows = (await exportText('csv', '?format=csv&is_palindrome=true'))
+      .trimEnd()
+      .split('\n');
+    expect(rows).toHaveLength(2);
+    expect(rows[0]).toMatch(/^id,value,.*,analysis_options,/);
+    expect(rows[0]).not.toContain('character_frequency_map');
+    expect(rows[1]).toContain(',racecar,');
+
+    const withMap = await exportText(
+      'csv',
+      '?format=csv&include_frequency_map=true',
+    );
+    expect(withMap.split('\n')[0]).toContain('character_frequency_map');
+  });
+
+  it('rejects a CSV body without a value column', async () => {
+    expect(
+      await importBody('csv-header', 'text\nracecar\n', 'text/csv'),
+    ).toEqual([
+      {
+        line: 1,
+        status: 'invalid',
+        reason: 'CSV header needs a "value" column',
+      },
+      { summary: { created: 0, duplicate: 0, invalid: 1 } },
+    ]);
+  });
+});